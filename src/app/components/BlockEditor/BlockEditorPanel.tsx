@@ -12,6 +12,9 @@ import {
   PanelRightClose,
   PanelRightOpen,
   AlertCircle,
+  Radio,
+  GitMerge,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,33 +27,66 @@ import { useEditorStore, useCanUndo, useCanRedo } from "./stores/editorStore";
 import { BlockList } from "./BlockList";
 import { PropertyPanel } from "./PropertyPanel";
 import { PreviewPanel } from "./PreviewPanel";
+import { MergeConflictDialog } from "./MergeConflictDialog";
+import { VersionHistoryDrawer } from "./VersionHistoryDrawer";
+import { SaveStatus } from "./SaveStatus";
+import { DraftRecoveryBanner } from "./DraftRecoveryBanner";
+import { useCollaboration, type UseCollaborationOptions } from "./hooks/useCollaboration";
+import { useDraftPersistence } from "./hooks/useDraftPersistence";
+import type { ContentSavedEventData } from "@/types";
 
 interface BlockEditorPanelProps {
   className?: string;
+  /** 发送编辑器事件（协同编辑；未提供时只在本地编辑） */
+  sendEditorEvent?: UseCollaborationOptions["sendEditorEvent"];
+  /** 当前用户（显示给其他编辑者） */
+  user?: UseCollaborationOptions["user"];
 }
 
 export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
-  ({ className }) => {
+  ({ className, sendEditorEvent, user = null }) => {
     const {
       isEditorOpen,
+      itemId,
       content,
+      remoteVersion,
       isLoading,
       isSaving,
       isDirty,
       error,
       mode,
       showPropertyPanel,
+      showVersionHistory,
       closeEditor,
       saveContent,
       undo,
       redo,
       setMode,
       togglePropertyPanel,
+      toggleVersionHistory,
       clearError,
     } = useEditorStore();
 
     const canUndo = useCanUndo();
     const canRedo = useCanRedo();
+    const { isLive } = useCollaboration({ sendEditorEvent, user });
+    useDraftPersistence();
+
+    // 服务器上的内容保存为新版本（Agent 重新生成或其他会话保存）
+    useEffect(() => {
+      if (!isEditorOpen || !itemId) return;
+
+      const handleContentSaved = (e: CustomEvent<ContentSavedEventData>) => {
+        if (e.detail.item_id === itemId) {
+          useEditorStore.getState().handleRemoteSave(e.detail.content_version);
+        }
+      };
+
+      window.addEventListener("seenos:content_saved", handleContentSaved as EventListener);
+      return () => {
+        window.removeEventListener("seenos:content_saved", handleContentSaved as EventListener);
+      };
+    }, [isEditorOpen, itemId]);
 
     // 键盘快捷键
     useEffect(() => {
@@ -108,7 +144,7 @@ export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
     return (
       <div
         className={cn(
-          "flex h-full flex-col bg-background border-l border-border",
+          "relative flex h-full flex-col bg-background border-l border-border",
           "animate-in slide-in-from-right duration-300",
           className
         )}
@@ -124,9 +160,23 @@ export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
                 {content.meta.title}
               </span>
             )}
-            {isDirty && (
-              <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
-                Unsaved
+            {content && <SaveStatus />}
+            {remoteVersion !== null && (
+              <span
+                className="flex items-center gap-1 rounded bg-blue-100 px-1.5 py-0.5 text-xs font-medium text-blue-700 dark:bg-blue-900/30 dark:text-blue-400"
+                title="The content was saved on the server while you were editing. Your changes will be merged when you save."
+              >
+                <GitMerge size={12} />
+                v{remoteVersion} on server
+              </span>
+            )}
+            {isLive && (
+              <span
+                className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400"
+                title="Edits are shared with other editors in real time"
+              >
+                <Radio size={12} />
+                Live
               </span>
             )}
           </div>
@@ -139,7 +189,7 @@ export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
               onClick={undo}
               disabled={!canUndo}
               className="h-8 w-8 p-0"
-              title="Undo (Cmd+Z)"
+              title="Undo your last change (Cmd+Z)"
             >
               <Undo2 size={16} />
             </Button>
@@ -186,6 +236,18 @@ export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
 
             <div className="mx-2 h-4 w-px bg-border" />
 
+            {/* 版本历史 */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleVersionHistory}
+              disabled={!content}
+              className={cn("h-8 w-8 p-0", showVersionHistory && "bg-muted")}
+              title="Version history"
+            >
+              <History size={16} />
+            </Button>
+
             {/* 属性面板切换 */}
             <Button
               variant="ghost"
@@ -230,6 +292,9 @@ export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
           </div>
         </header>
 
+        {/* 本地草稿恢复 */}
+        <DraftRecoveryBanner />
+
         {/* 错误提示 */}
         {error && (
           <div className="flex items-center gap-2 border-b border-red-200 bg-red-50 px-4 py-2 dark:border-red-900/50 dark:bg-red-900/20">
@@ -314,6 +379,12 @@ export const BlockEditorPanel = React.memo<BlockEditorPanelProps>(
             </ResizablePanelGroup>
           )}
         </div>
+
+        {/* 版本历史 */}
+        {showVersionHistory && content && <VersionHistoryDrawer />}
+
+        {/* 版本冲突合并 */}
+        <MergeConflictDialog />
       </div>
     );
   }
@@ -24,11 +24,16 @@ import {
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useEditorStore } from "./stores/editorStore";
+import { CollaboratorAvatar } from "./CollaboratorAvatars";
+import { BLOCK_LABELS, getBlockTitle } from "./blockLabels";
+import type { Collaborator } from "./collab";
 import type { ContentBlock, BlockType } from "./types";
 
 interface BlockItemProps {
   block: ContentBlock;
   isSelected: boolean;
+  /** 正在编辑该 Block 的其他编辑者 */
+  editors: Collaborator[];
   onSelect: () => void;
   onAddAfter: () => void;
 }
@@ -53,46 +58,8 @@ const BLOCK_ICONS: Record<BlockType, React.ReactNode> = {
   comparison_row: <AlignLeft size={16} />,
 };
 
-/** Block 类型标签映射 */
-const BLOCK_LABELS: Record<BlockType, string> = {
-  intro: "Intro",
-  product_card: "Product Card",
-  step: "Step",
-  feature: "Feature",
-  text_section: "Text Section",
-  blog_section: "Blog Section",
-  conclusion: "Conclusion",
-  hero: "Hero",
-  quote: "Quote",
-  image: "Image",
-  video: "Video",
-  call_to_action: "CTA",
-  testimonial: "Testimonial",
-  pricing: "Pricing",
-  faq: "FAQ",
-  comparison_row: "Comparison",
-};
-
-/** 获取 Block 标题 */
-function getBlockTitle(block: ContentBlock): string {
-  // 尝试从不同字段获取标题
-  if ("headline" in block && block.headline) return block.headline;
-  if ("title" in block && block.title) return block.title;
-  if ("name" in block && block.name) return block.name;
-  if ("question" in block && block.question) return block.question;
-  if ("quote" in block && block.quote) {
-    const quote = block.quote as string;
-    return quote.length > 50 ? quote.substring(0, 50) + "..." : quote;
-  }
-  if ("content" in block && block.content) {
-    const content = block.content as string;
-    return content.length > 50 ? content.substring(0, 50) + "..." : content;
-  }
-  return BLOCK_LABELS[block.meta.type] || "Untitled Block";
-}
-
 export const BlockItem = React.memo<BlockItemProps>(
-  ({ block, isSelected, onSelect, onAddAfter }) => {
+  ({ block, isSelected, editors, onSelect, onAddAfter }) => {
     const { deleteBlock, duplicateBlock, moveBlock, content } = useEditorStore();
 
     const {
@@ -107,6 +74,8 @@ export const BlockItem = React.memo<BlockItemProps>(
     const style = {
       transform: CSS.Transform.toString(transform),
       transition,
+      // 其他编辑者正在编辑时使用其颜色标记边框
+      ...(editors.length > 0 && !isSelected ? { borderColor: editors[0].color } : {}),
     };
 
     const blockIndex = content?.blocks.findIndex(
@@ -214,6 +183,25 @@ export const BlockItem = React.memo<BlockItemProps>(
             <p className="truncate text-sm font-medium text-foreground">
               {title}
             </p>
+            {editors.length > 0 && (
+              <div className="mt-1 flex items-center gap-1.5">
+                <div className="flex -space-x-1">
+                  {editors.map((editor) => (
+                    <CollaboratorAvatar
+                      key={editor.site_id}
+                      collaborator={editor}
+                      className="h-4 w-4 border text-[8px]"
+                    />
+                  ))}
+                </div>
+                <span
+                  className="truncate text-xs"
+                  style={{ color: editors[0].color }}
+                >
+                  Being edited by {editors.map((editor) => editor.user.name).join(", ")}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Actions */}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useCallback } from "react";
+import React, { useCallback, useMemo } from "react";
 import {
   DndContext,
   closestCenter,
@@ -22,11 +22,35 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useEditorStore } from "./stores/editorStore";
 import { BlockItem } from "./BlockItem";
 import { BlockTypeMenu } from "./BlockTypeMenu";
+import { CollaboratorAvatars } from "./CollaboratorAvatars";
+import type { Collaborator } from "./collab";
 import type { ContentBlock } from "./types";
 
+const NO_EDITORS: Collaborator[] = [];
+
 export const BlockList = React.memo(() => {
   const { content, selectedBlockId, addBlock, moveBlock, selectBlock } =
     useEditorStore();
+  const collaborators = useEditorStore((state) => state.collaborators);
+
+  // 在线协作者，以及按 Block 分组的正在编辑者
+  const { onlineCollaborators, editorsByBlock } = useMemo(() => {
+    const online = Object.values(collaborators);
+    const byBlock: Record<string, Collaborator[]> = {};
+    for (const collaborator of online) {
+      if (!collaborator.block_id) continue;
+      (byBlock[collaborator.block_id] ??= []).push(collaborator);
+    }
+    return { onlineCollaborators: online, editorsByBlock: byBlock };
+  }, [collaborators]);
+
+  const getBlockLabel = useCallback(
+    (blockId: string) => {
+      const index = content?.blocks.findIndex((b) => b.meta.id === blockId) ?? -1;
+      return index === -1 ? null : `Block #${index + 1}`;
+    },
+    [content?.blocks]
+  );
 
   const [showAddMenu, setShowAddMenu] = React.useState(false);
   const [addAfterBlockId, setAddAfterBlockId] = React.useState<string | null>(
@@ -91,15 +115,21 @@ export const BlockList = React.memo(() => {
             {blocks.length}
           </span>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => handleAddBlock()}
-          className="h-7 px-2 text-xs"
-        >
-          <Plus size={14} className="mr-1" />
-          Add Block
-        </Button>
+        <div className="flex items-center gap-2">
+          <CollaboratorAvatars
+            collaborators={onlineCollaborators}
+            getBlockLabel={getBlockLabel}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleAddBlock()}
+            className="h-7 px-2 text-xs"
+          >
+            <Plus size={14} className="mr-1" />
+            Add Block
+          </Button>
+        </div>
       </div>
 
       {/* Block List */}
@@ -135,6 +165,7 @@ export const BlockList = React.memo(() => {
                       key={block.meta.id}
                       block={block}
                       isSelected={selectedBlockId === block.meta.id}
+                      editors={editorsByBlock[block.meta.id] ?? NO_EDITORS}
                       onSelect={() => selectBlock(block.meta.id)}
                       onAddAfter={() => handleAddBlock(block.meta.id)}
                     />
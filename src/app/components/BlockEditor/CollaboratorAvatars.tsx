@@ -0,0 +1,89 @@
+"use client";
+
+import React from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { getInitials, type Collaborator } from "./collab";
+
+interface CollaboratorAvatarProps {
+  collaborator: Collaborator;
+  className?: string;
+}
+
+/** 协作者头像（边框为协作者颜色） */
+export const CollaboratorAvatar = React.memo<CollaboratorAvatarProps>(({ collaborator, className }) => {
+  const { user, color } = collaborator;
+
+  return (
+    <span
+      className={cn(
+        "flex h-6 w-6 flex-shrink-0 items-center justify-center overflow-hidden rounded-full border-2 bg-background text-[10px] font-semibold",
+        className
+      )}
+      style={{ borderColor: color, color }}
+    >
+      {user.avatar ? (
+        <img src={user.avatar} alt={user.name} className="h-full w-full object-cover" />
+      ) : (
+        getInitials(user.name)
+      )}
+    </span>
+  );
+});
+
+CollaboratorAvatar.displayName = "CollaboratorAvatar";
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+  /** 最多显示的头像数，其余显示为 +N */
+  max?: number;
+  /** 悬停时显示各协作者正在编辑的 Block */
+  getBlockLabel?: (blockId: string) => string | null;
+  className?: string;
+}
+
+/** 在线协作者头像列表 */
+export const CollaboratorAvatars = React.memo<CollaboratorAvatarsProps>(
+  ({ collaborators, max = 4, getBlockLabel, className }) => {
+    if (collaborators.length === 0) return null;
+
+    const visible = collaborators.slice(0, max);
+    const hidden = collaborators.length - visible.length;
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className={cn("flex cursor-default items-center -space-x-1.5", className)}>
+            {visible.map((collaborator) => (
+              <CollaboratorAvatar key={collaborator.site_id} collaborator={collaborator} />
+            ))}
+            {hidden > 0 && (
+              <span className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] font-medium text-muted-foreground">
+                +{hidden}
+              </span>
+            )}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" className="max-w-xs">
+          <div className="space-y-1">
+            <div className="font-medium">Also editing</div>
+            {collaborators.map((collaborator) => {
+              const blockLabel = collaborator.block_id ? getBlockLabel?.(collaborator.block_id) : null;
+              return (
+                <div key={collaborator.site_id} className="flex items-center gap-1.5">
+                  <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: collaborator.color }} />
+                  <span>{collaborator.user.name}</span>
+                  {blockLabel && <span className="truncate opacity-80">· {blockLabel}</span>}
+                </div>
+              );
+            })}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
+);
+
+CollaboratorAvatars.displayName = "CollaboratorAvatars";
+
+export default CollaboratorAvatars;
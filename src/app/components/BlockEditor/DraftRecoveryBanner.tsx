@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ArchiveRestore } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useEditorStore } from "./stores/editorStore";
+
+/**
+ * 本地草稿恢复提示
+ * 加载内容时发现比服务器内容更新的本地草稿（崩溃、刷新或误关编辑器前未保存的修改）
+ */
+export const DraftRecoveryBanner = React.memo(() => {
+  const draft = useEditorStore((state) => state.recoverableDraft);
+  const contentVersion = useEditorStore((state) => state.contentVersion);
+  const recoverDraft = useEditorStore((state) => state.recoverDraft);
+  const discardDraft = useEditorStore((state) => state.discardDraft);
+
+  if (!draft) return null;
+
+  const savedAt = new Date(draft.savedAt);
+  const isOutdated = draft.baseVersion < contentVersion;
+
+  return (
+    <div className="flex items-center gap-3 border-b border-blue-200 bg-blue-50 px-4 py-2 dark:border-blue-900/50 dark:bg-blue-900/20">
+      <ArchiveRestore size={16} className="flex-shrink-0 text-blue-600 dark:text-blue-400" />
+      <div className="min-w-0 flex-1 text-sm text-blue-800 dark:text-blue-300">
+        <span title={savedAt.toLocaleString()}>
+          Unsaved changes from {formatDistanceToNow(savedAt, { addSuffix: true })} were found in this browser.
+        </span>
+        {isOutdated && (
+          <span className="block text-xs opacity-80">
+            They are based on v{draft.baseVersion}; the page is now v{contentVersion}, so recovering merges them
+            with the latest version.
+          </span>
+        )}
+      </div>
+      <Button variant="ghost" size="sm" onClick={discardDraft} className="h-7 px-2.5 text-xs">
+        Discard
+      </Button>
+      <Button size="sm" onClick={recoverDraft} className="h-7 px-2.5 text-xs">
+        Recover
+      </Button>
+    </div>
+  );
+});
+
+DraftRecoveryBanner.displayName = "DraftRecoveryBanner";
+
+export default DraftRecoveryBanner;
@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { GitMerge, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useTheme } from "@/providers/ThemeProvider";
+import { FileDiffView } from "@/app/components/FileDiffView";
+import { useEditorStore, type ContentConflict } from "./stores/editorStore";
+import { BLOCK_LABELS, getBlockTitle } from "./blockLabels";
+import type { BlockConflict, MergeSide } from "./merge";
+import type { ContentBlock } from "./types";
+
+const SIDE_OPTIONS: { side: MergeSide; label: string }[] = [
+  { side: "mine", label: "Mine" },
+  { side: "theirs", label: "Theirs" },
+  { side: "base", label: "Base" },
+];
+
+/** 用于 diff 的 Block 文本（顺序和编辑时间不参与比较） */
+function toDiffText(block: ContentBlock | null): string {
+  if (!block) return "";
+  const { order: _order, last_edited_at: _lastEditedAt, ...meta } = block.meta;
+  return JSON.stringify({ ...block, meta }, null, 2);
+}
+
+/** 冲突说明 */
+function describeConflict(conflict: BlockConflict): string {
+  if (!conflict.mine) return "You deleted this block, but it was changed on the server.";
+  if (!conflict.theirs) return "This block was deleted on the server, but you changed it.";
+  return `Both sides changed ${conflict.fields.join(", ")}.`;
+}
+
+interface ConflictDiffProps {
+  title: string;
+  base: ContentBlock | null;
+  block: ContentBlock | null;
+  theme: "light" | "dark";
+}
+
+/** 基础版本到某一方的 diff */
+const ConflictDiff = React.memo<ConflictDiffProps>(({ title, base, block, theme }) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (!block) {
+    return (
+      <div className="rounded-lg border border-dashed border-border px-3 py-2 text-xs text-muted-foreground">
+        {title}: deleted
+      </div>
+    );
+  }
+
+  return (
+    <FileDiffView
+      file={{ path: title, oldContent: toDiffText(base), content: toDiffText(block) }}
+      collapsed={collapsed}
+      onToggleCollapse={() => setCollapsed((value) => !value)}
+      theme={theme}
+    />
+  );
+});
+
+ConflictDiff.displayName = "ConflictDiff";
+
+interface ConflictItemProps {
+  conflict: BlockConflict;
+  side: MergeSide;
+  onChange: (blockId: string, side: MergeSide) => void;
+  theme: "light" | "dark";
+}
+
+/** 单个冲突 Block：选择版本，并分别查看双方相对基础版本的修改 */
+const ConflictItem = React.memo<ConflictItemProps>(({ conflict, side, onChange, theme }) => {
+  const block = conflict.mine ?? conflict.theirs ?? conflict.base;
+  const label = BLOCK_LABELS[conflict.type] || conflict.type;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium uppercase text-muted-foreground">{label}</span>
+            <span className="truncate text-sm font-medium text-foreground">
+              {block ? getBlockTitle(block) : conflict.blockId}
+            </span>
+          </div>
+          <p className="mt-0.5 text-xs text-muted-foreground">{describeConflict(conflict)}</p>
+        </div>
+
+        <div className="flex flex-shrink-0 rounded-md border border-border bg-muted/30">
+          {SIDE_OPTIONS.map((option, index) => (
+            <Button
+              key={option.side}
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(conflict.blockId, option.side)}
+              className={cn(
+                "h-7 px-2.5 text-xs",
+                index === 0 && "rounded-r-none",
+                index === SIDE_OPTIONS.length - 1 && "rounded-l-none",
+                index > 0 && index < SIDE_OPTIONS.length - 1 && "rounded-none",
+                side === option.side && "bg-background shadow-sm"
+              )}
+              title={conflict[option.side] ? undefined : "Removes this block"}
+            >
+              {option.label}
+              {!conflict[option.side] && <span className="ml-1 text-muted-foreground">(deleted)</span>}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ConflictDiff title="Your changes" base={conflict.base} block={conflict.mine} theme={theme} />
+      <ConflictDiff title="Server changes" base={conflict.base} block={conflict.theirs} theme={theme} />
+    </div>
+  );
+});
+
+ConflictItem.displayName = "ConflictItem";
+
+interface MergeConflictBodyProps {
+  conflict: ContentConflict;
+  baseVersion: number;
+  isSaving: boolean;
+  onResolve: (resolutions: Record<string, MergeSide>) => void;
+  onCancel: () => void;
+}
+
+const MergeConflictBody: React.FC<MergeConflictBodyProps> = ({
+  conflict,
+  baseVersion,
+  isSaving,
+  onResolve,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const { conflicts } = conflict.merge;
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+
+  const handleChange = useCallback((blockId: string, side: MergeSide) => {
+    setResolutions((prev) => ({ ...prev, [blockId]: side }));
+  }, []);
+
+  const chooseAll = useCallback(
+    (side: MergeSide) => {
+      setResolutions(Object.fromEntries(conflicts.map((c) => [c.blockId, side])));
+    },
+    [conflicts]
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <GitMerge size={18} />
+          Resolve conflicts
+        </DialogTitle>
+        <DialogDescription>
+          This content was saved on the server (v{conflict.remoteVersion}) after you started editing v{baseVersion}.
+          Changes to different blocks were merged automatically. Choose a version for{" "}
+          {conflicts.length === 1 ? "the block" : `each of the ${conflicts.length} blocks`} changed on both sides.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="min-h-0 flex-1 space-y-3 overflow-y-auto pr-1">
+        {conflicts.map((c) => (
+          <ConflictItem
+            key={c.blockId}
+            conflict={c}
+            side={resolutions[c.blockId] ?? "mine"}
+            onChange={handleChange}
+            theme={theme}
+          />
+        ))}
+      </div>
+
+      <DialogFooter className="sm:justify-between">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll("mine")}>
+            Keep all mine
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll("theirs")}>
+            Take all theirs
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => onResolve(resolutions)} disabled={isSaving}>
+            {isSaving && <Loader2 size={14} className="mr-1.5 animate-spin" />}
+            Merge and save
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+};
+
+/**
+ * 版本冲突合并对话框
+ * 保存时服务器上已有更新的版本（如 Agent 重新生成），按 Block 选择自己的、服务器的或基础版本
+ */
+export const MergeConflictDialog = React.memo(() => {
+  const conflict = useEditorStore((state) => state.conflict);
+  const contentVersion = useEditorStore((state) => state.contentVersion);
+  const isSaving = useEditorStore((state) => state.isSaving);
+  const resolveConflict = useEditorStore((state) => state.resolveConflict);
+  const dismissConflict = useEditorStore((state) => state.dismissConflict);
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && dismissConflict()}>
+      <DialogContent className="flex max-h-[85vh] max-w-3xl flex-col">
+        {conflict && (
+          <MergeConflictBody
+            key={conflict.remoteVersion}
+            conflict={conflict}
+            baseVersion={contentVersion}
+            isSaving={isSaving}
+            onResolve={resolveConflict}
+            onCancel={dismissConflict}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+MergeConflictDialog.displayName = "MergeConflictDialog";
+
+export default MergeConflictDialog;
@@ -8,12 +8,16 @@ import {
   RefreshCw,
   Loader2,
   ExternalLink,
-  Maximize2,
+  CloudOff,
+  CheckCircle2,
+  AlertTriangle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { useEditorStore, type DeviceType } from "./stores/editorStore";
+import { useEditorStore, type DeviceType, type PreviewMode } from "./stores/editorStore";
+import { useInstantPreview } from "./hooks/useInstantPreview";
 import { DEVICE_PRESETS } from "./types";
+import type { PreviewDivergence } from "./render";
 
 interface PreviewPanelProps {
   className?: string;
@@ -25,60 +29,192 @@ const DEVICE_ICONS: Record<DeviceType, React.ReactNode> = {
   mobile: <Smartphone size={16} />,
 };
 
+const PREVIEW_MODES: { mode: PreviewMode; label: string; title: string }[] = [
+  { mode: "instant", label: "Instant", title: "Rendered in the browser as you edit" },
+  { mode: "final", label: "Final", title: "Rendered by the server, as it will be published" },
+];
+
+// 即时预览中标记选中 / 与最终渲染不一致的 Block（只注入 iframe，不属于渲染结果）
+const OVERLAY_STYLE_ID = "seenos-preview-overlay";
+const OVERLAY_CSS = `
+.is-preview-selected{outline:2px solid #3182ce;outline-offset:4px;border-radius:4px}
+.is-preview-diverged{outline:2px dashed #d69e2e;outline-offset:4px;border-radius:4px}
+.is-preview-selected.is-preview-diverged{outline-style:solid}
+`;
+
+/** 差异说明，如 "2 blocks changed, 1 removed" */
+function describeDivergence(divergence: PreviewDivergence): string {
+  const parts: string[] = [];
+  const changed = divergence.changedBlockIds.length;
+  if (changed > 0) parts.push(`${changed} ${changed === 1 ? "block" : "blocks"} changed`);
+  if (divergence.removedCount > 0) parts.push(`${divergence.removedCount} removed`);
+  if (divergence.reordered) parts.push("blocks reordered");
+  if (divergence.pageChanged) parts.push("page settings changed");
+  return parts.join(", ");
+}
+
+function writeDocument(doc: Document, html: string) {
+  doc.open();
+  doc.write(html);
+  doc.close();
+}
+
+/** 标记选中和不一致的 Block */
+function applyOverlay(doc: Document, selectedBlockId: string | null, divergedIds: string[]) {
+  if (!doc.getElementById(OVERLAY_STYLE_ID) && doc.head) {
+    const style = doc.createElement("style");
+    style.id = OVERLAY_STYLE_ID;
+    style.textContent = OVERLAY_CSS;
+    doc.head.appendChild(style);
+  }
+  doc.querySelectorAll(".is-preview-selected, .is-preview-diverged").forEach((element) => {
+    element.classList.remove("is-preview-selected", "is-preview-diverged");
+  });
+  for (const id of divergedIds) {
+    doc.querySelector(`[data-block-id="${CSS.escape(id)}"]`)?.classList.add("is-preview-diverged");
+  }
+  if (selectedBlockId) {
+    doc.querySelector(`[data-block-id="${CSS.escape(selectedBlockId)}"]`)?.classList.add("is-preview-selected");
+  }
+}
+
 export const PreviewPanel = React.memo<PreviewPanelProps>(({ className }) => {
   const {
+    previewMode,
     previewHtml,
+    previewContent,
+    previewError,
     previewDevice,
     isPreviewLoading,
+    selectedBlockId,
+    setPreviewMode,
     setPreviewDevice,
     refreshPreview,
-    itemId,
   } = useEditorStore();
+  const { render, divergence } = useInstantPreview();
 
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // 上次写入 iframe 的内容（骨架相同时只替换有变化的 Block，避免整页重载和滚动位置丢失）
+  const writtenRef = useRef<{
+    doc: Document;
+    mode: PreviewMode;
+    skeleton: string;
+    blocks: Record<string, string>;
+  } | null>(null);
+  const lastSelectedRef = useRef<string | null>(null);
+
+  const displayedHtml = previewMode === "instant" ? render?.html ?? "" : previewHtml;
 
   // 更新 iframe 内容
   useEffect(() => {
-    if (iframeRef.current && previewHtml) {
-      const iframe = iframeRef.current;
-      const doc = iframe.contentDocument || iframe.contentWindow?.document;
-      if (doc) {
-        doc.open();
-        doc.write(previewHtml);
-        doc.close();
+    const iframe = iframeRef.current;
+    const doc = iframe?.contentDocument || iframe?.contentWindow?.document;
+    if (!doc || !displayedHtml) return;
+
+    const written = writtenRef.current;
+    if (previewMode === "instant" && render) {
+      let patched = false;
+      if (written?.doc === doc && written.mode === "instant" && written.skeleton === render.skeleton) {
+        patched = true;
+        for (const [id, html] of Object.entries(render.blocks)) {
+          if (written.blocks[id] === html) continue;
+          const element = doc.querySelector(`[data-block-id="${CSS.escape(id)}"]`);
+          if (!element) {
+            patched = false;
+            break;
+          }
+          element.outerHTML = html;
+        }
+      }
+      if (!patched) writeDocument(doc, render.html);
+      writtenRef.current = { doc, mode: "instant", skeleton: render.skeleton, blocks: render.blocks };
+      applyOverlay(doc, selectedBlockId, divergence?.changedBlockIds ?? []);
+
+      // 选中的 Block 变化时滚动到该 Block
+      if (selectedBlockId && selectedBlockId !== lastSelectedRef.current) {
+        doc
+          .querySelector(`[data-block-id="${CSS.escape(selectedBlockId)}"]`)
+          ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+      }
+      lastSelectedRef.current = selectedBlockId;
+    } else if (previewMode === "final") {
+      if (written?.doc !== doc || written.mode !== "final" || written.skeleton !== previewHtml) {
+        writeDocument(doc, previewHtml);
+        writtenRef.current = { doc, mode: "final", skeleton: previewHtml, blocks: {} };
       }
     }
-  }, [previewHtml]);
+  }, [previewMode, render, previewHtml, displayedHtml, selectedBlockId, divergence]);
 
   const handleRefresh = useCallback(() => {
     refreshPreview();
   }, [refreshPreview]);
 
   const handleOpenInNewTab = useCallback(() => {
-    if (previewHtml) {
-      const blob = new Blob([previewHtml], { type: "text/html" });
+    if (displayedHtml) {
+      const blob = new Blob([displayedHtml], { type: "text/html" });
       const url = URL.createObjectURL(blob);
       window.open(url, "_blank");
       // 延迟释放 URL
       setTimeout(() => URL.revokeObjectURL(url), 1000);
     }
-  }, [previewHtml]);
+  }, [displayedHtml]);
 
   const devicePreset = DEVICE_PRESETS[previewDevice];
 
+  // 即时预览与最终渲染的一致性
+  const syncStatus = previewError ? (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground" title={previewError}>
+      <CloudOff size={12} />
+      Final render unavailable
+    </span>
+  ) : divergence ? (
+    <span
+      className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+      title={`Not yet in the final render: ${describeDivergence(divergence)}`}
+    >
+      <AlertTriangle size={12} />
+      Differs from final
+    </span>
+  ) : previewContent ? (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground" title="Matches the last final render">
+      <CheckCircle2 size={12} />
+      In sync
+    </span>
+  ) : null;
+
   return (
     <div className={cn("flex h-full flex-col bg-muted/20", className)}>
       {/* Header */}
       <div className="flex h-12 flex-shrink-0 items-center justify-between border-b border-border bg-muted/30 px-4">
-        <div className="flex items-center gap-2">
+        <div className="flex min-w-0 items-center gap-2">
           <span className="text-sm font-medium text-foreground">Preview</span>
           <span className="text-xs text-muted-foreground">
             {devicePreset.label}
           </span>
+          {syncStatus}
         </div>
 
         <div className="flex items-center gap-1">
+          {/* Mode Selector */}
+          <div className="flex rounded-md border border-border bg-background">
+            {PREVIEW_MODES.map(({ mode, label, title }) => (
+              <Button
+                key={mode}
+                variant="ghost"
+                size="sm"
+                onClick={() => setPreviewMode(mode)}
+                className={cn(
+                  "h-7 px-2 text-xs first:rounded-r-none last:rounded-l-none",
+                  previewMode === mode && "bg-muted"
+                )}
+                title={title}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
           {/* Device Selector */}
           <div className="flex rounded-md border border-border bg-background">
             {(Object.keys(DEVICE_PRESETS) as DeviceType[]).map((device) => (
@@ -107,7 +243,7 @@ export const PreviewPanel = React.memo<PreviewPanelProps>(({ className }) => {
             onClick={handleRefresh}
             disabled={isPreviewLoading}
             className="h-7 w-7 p-0"
-            title="Refresh Preview"
+            title="Refresh Final Render"
           >
             {isPreviewLoading ? (
               <Loader2 size={14} className="animate-spin" />
@@ -119,7 +255,7 @@ export const PreviewPanel = React.memo<PreviewPanelProps>(({ className }) => {
             variant="ghost"
             size="sm"
             onClick={handleOpenInNewTab}
-            disabled={!previewHtml}
+            disabled={!displayedHtml}
             className="h-7 w-7 p-0"
             title="Open in New Tab"
           >
@@ -128,34 +264,70 @@ export const PreviewPanel = React.memo<PreviewPanelProps>(({ className }) => {
         </div>
       </div>
 
+      {/* Final render is out of date */}
+      {previewMode === "final" && previewHtml && divergence && (
+        <div className="flex flex-shrink-0 items-center gap-2 border-b border-border bg-amber-50 px-4 py-2 text-xs text-amber-800 dark:bg-amber-950 dark:text-amber-200">
+          <AlertTriangle size={14} className="flex-shrink-0" />
+          <span className="flex-1">
+            This render is out of date ({describeDivergence(divergence)}). Save your changes to update it.
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setPreviewMode("instant")}>
+            Show instant preview
+          </Button>
+        </div>
+      )}
+
       {/* Preview Container */}
       <div
         ref={containerRef}
         className="flex flex-1 items-center justify-center overflow-auto p-4"
       >
-        {isPreviewLoading && !previewHtml ? (
+        {previewMode === "final" && isPreviewLoading && !previewHtml ? (
           <div className="text-center">
             <Loader2 className="mx-auto mb-4 h-8 w-8 animate-spin text-muted-foreground" />
             <p className="text-sm text-muted-foreground">Loading preview...</p>
           </div>
-        ) : !previewHtml ? (
+        ) : previewMode === "final" && !previewHtml && previewError ? (
+          <div className="text-center">
+            <CloudOff className="mx-auto mb-4 h-12 w-12 text-muted-foreground/50" />
+            <p className="mb-2 text-sm font-medium text-muted-foreground">
+              Final Render Unavailable
+            </p>
+            <p className="text-xs text-muted-foreground">
+              The server could not render this page. The instant preview still works offline.
+            </p>
+            <div className="mt-4 flex justify-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleRefresh}>
+                <RefreshCw size={14} className="mr-1.5" />
+                Retry
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPreviewMode("instant")}>
+                Show Instant Preview
+              </Button>
+            </div>
+          </div>
+        ) : !displayedHtml ? (
           <div className="text-center">
             <Monitor className="mx-auto mb-4 h-12 w-12 text-muted-foreground/50" />
             <p className="mb-2 text-sm font-medium text-muted-foreground">
               No Preview Available
             </p>
             <p className="text-xs text-muted-foreground">
-              Save your changes to generate a preview
+              {previewMode === "final"
+                ? "Save your changes to generate a preview"
+                : "Add blocks to see them rendered here"}
             </p>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleRefresh}
-              className="mt-4"
-            >
-              <RefreshCw size={14} className="mr-1.5" />
-              Load Preview
-            </Button>
+            {previewMode === "final" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRefresh}
+                className="mt-4"
+              >
+                <RefreshCw size={14} className="mr-1.5" />
+                Load Preview
+              </Button>
+            )}
           </div>
         ) : (
           <div
@@ -191,8 +363,8 @@ export const PreviewPanel = React.memo<PreviewPanelProps>(({ className }) => {
               sandbox="allow-same-origin allow-scripts"
             />
 
-            {/* Loading Overlay */}
-            {isPreviewLoading && previewHtml && (
+            {/* Loading Overlay（只在最终渲染中显示，即时预览不等待后端） */}
+            {previewMode === "final" && isPreviewLoading && previewHtml && (
               <div className="absolute inset-0 flex items-center justify-center bg-white/80">
                 <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
               </div>
@@ -207,4 +379,3 @@ export const PreviewPanel = React.memo<PreviewPanelProps>(({ className }) => {
 PreviewPanel.displayName = "PreviewPanel";
 
 export default PreviewPanel;
-
@@ -7,11 +7,13 @@
  * 使用 editors/ 目录下的专用编辑器。
  */
 
-import React, { useCallback } from "react";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
 import { Settings } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useEditorStore, useSelectedBlock } from "./stores/editorStore";
 import { getBlockEditor, type BlockEditorProps } from "./editors";
+import { CollaboratorAvatars } from "./CollaboratorAvatars";
+import { RemoteCursors } from "./RemoteCursors";
 import type { ContentBlock, BlockType } from "./types";
 
 /** Block 类型标签映射 */
@@ -36,26 +38,59 @@ const BLOCK_TYPE_LABELS: Record<BlockType, string> = {
 
 export const PropertyPanel = React.memo(() => {
   const selectedBlock = useSelectedBlock();
-  const { updateBlock, pushHistory } = useEditorStore();
+  const updateBlock = useEditorStore((state) => state.updateBlock);
+  const setLocalCursor = useEditorStore((state) => state.setLocalCursor);
+  const collaborators = useEditorStore((state) => state.collaborators);
+  const editorRef = useRef<HTMLDivElement>(null);
 
-  // 处理 Block 变更
+  const selectedBlockId = selectedBlock?.meta.id ?? null;
+  const blockCollaborators = useMemo(
+    () => Object.values(collaborators).filter((c) => c.block_id === selectedBlockId),
+    [collaborators, selectedBlockId]
+  );
+
+  // 跟踪本地光标（输入框 id + 选区），通过在线状态发送给其他编辑者
+  useEffect(() => {
+    const container = editorRef.current;
+    if (!container) return;
+
+    const getField = (target: EventTarget | null) =>
+      (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) && target.id ? target : null;
+
+    const handleCursor = (e: Event) => {
+      const field = getField(e.target);
+      if (!field) return;
+      const hasSelection = field.selectionStart !== null && field.selectionEnd !== null;
+      setLocalCursor({
+        field: field.id,
+        selection: hasSelection ? { start: field.selectionStart as number, end: field.selectionEnd as number } : null,
+      });
+    };
+    const handleBlur = (e: FocusEvent) => {
+      if (getField(e.target)) setLocalCursor(null);
+    };
+
+    const cursorEvents = ["focusin", "input", "keyup", "mouseup", "select"];
+    cursorEvents.forEach((type) => container.addEventListener(type, handleCursor));
+    container.addEventListener("focusout", handleBlur);
+    return () => {
+      cursorEvents.forEach((type) => container.removeEventListener(type, handleCursor));
+      container.removeEventListener("focusout", handleBlur);
+    };
+  }, [selectedBlockId, setLocalCursor]);
+
+  // 处理 Block 变更（只有变化的字段会生成协同操作并记录到历史）
   const handleBlockChange = useCallback(
     (updatedBlock: ContentBlock) => {
       if (selectedBlock) {
-        // 推送历史记录（用于撤销/重做）
-        pushHistory();
-        
         // 更新 Block（保留 meta 信息）
         updateBlock(selectedBlock.meta.id, {
           ...updatedBlock,
-          meta: {
-            ...selectedBlock.meta,
-            last_edited_at: new Date().toISOString(),
-          },
+          meta: selectedBlock.meta,
         });
       }
     },
-    [selectedBlock, updateBlock, pushHistory]
+    [selectedBlock, updateBlock]
   );
 
   // 无选中 Block 时的空状态
@@ -91,20 +126,25 @@ export const PropertyPanel = React.memo(() => {
             {BLOCK_TYPE_LABELS[selectedBlock.meta.type] || "Block"} Properties
           </span>
         </div>
-        {/* Block ID 提示（用于调试） */}
-        <span className="text-xs text-muted-foreground/50 font-mono">
-          #{selectedBlock.meta.order + 1}
-        </span>
+        <div className="flex items-center gap-2">
+          {/* 同时编辑该 Block 的协作者 */}
+          <CollaboratorAvatars collaborators={blockCollaborators} max={3} />
+          {/* Block ID 提示（用于调试） */}
+          <span className="text-xs text-muted-foreground/50 font-mono">
+            #{selectedBlock.meta.order + 1}
+          </span>
+        </div>
       </div>
 
       {/* Editor Content */}
       <ScrollArea className="flex-1">
-        <div className="p-4">
+        <div ref={editorRef} className="relative p-4">
           <EditorComponent
             block={selectedBlock}
             onChange={handleBlockChange}
             disabled={false}
           />
+          <RemoteCursors containerRef={editorRef} collaborators={blockCollaborators} />
         </div>
       </ScrollArea>
 
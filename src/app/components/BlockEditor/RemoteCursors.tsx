@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useCallback, useLayoutEffect, useMemo, useState } from "react";
+import { getCaretCoordinates, type Collaborator } from "./collab";
+
+interface RemoteCursorsProps {
+  /** 编辑器容器（输入框通过 id 在其中查找，光标相对它定位） */
+  containerRef: React.RefObject<HTMLElement | null>;
+  /** 当前 Block 的协作者 */
+  collaborators: Collaborator[];
+}
+
+interface CursorLayout {
+  siteId: string;
+  name: string;
+  color: string;
+  /** 字段输入框的位置 */
+  field: { top: number; left: number; width: number; height: number };
+  /** 光标位置（光标在输入框可见区域外时为 null） */
+  caret: { top: number; left: number; height: number } | null;
+}
+
+/**
+ * 其他编辑者在属性面板输入框中的光标
+ * 根据在线状态中的字段（输入框 id）和选区，在输入框上叠加彩色边框、光标和名字
+ */
+export const RemoteCursors = React.memo<RemoteCursorsProps>(({ containerRef, collaborators }) => {
+  const [layouts, setLayouts] = useState<CursorLayout[]>([]);
+
+  const editing = useMemo(
+    () => collaborators.filter((c) => c.field),
+    [collaborators]
+  );
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const next: CursorLayout[] = [];
+
+    for (const collaborator of editing) {
+      const element = container.querySelector(`#${CSS.escape(collaborator.field as string)}`);
+      if (!(element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) continue;
+
+      const rect = element.getBoundingClientRect();
+      const field = {
+        top: rect.top - containerRect.top,
+        left: rect.left - containerRect.left,
+        width: rect.width,
+        height: rect.height,
+      };
+
+      let caret: CursorLayout["caret"] = null;
+      if (collaborator.selection) {
+        const coordinates = getCaretCoordinates(element, collaborator.selection.end);
+        const visible =
+          coordinates.top >= 0 &&
+          coordinates.top + coordinates.height <= rect.height + 1 &&
+          coordinates.left >= 0 &&
+          coordinates.left <= rect.width;
+        if (visible) {
+          caret = {
+            top: field.top + coordinates.top,
+            left: field.left + coordinates.left,
+            height: coordinates.height,
+          };
+        }
+      }
+
+      next.push({
+        siteId: collaborator.site_id,
+        name: collaborator.user.name,
+        color: collaborator.color,
+        field,
+        caret,
+      });
+    }
+
+    setLayouts(next);
+  }, [containerRef, editing]);
+
+  // 在线状态变化、输入框滚动或内容变化、面板尺寸变化时重新测量
+  useLayoutEffect(() => {
+    measure();
+
+    const container = containerRef.current;
+    if (!container || editing.length === 0) return;
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    container.addEventListener("scroll", measure, true);
+    container.addEventListener("input", measure);
+
+    return () => {
+      observer.disconnect();
+      container.removeEventListener("scroll", measure, true);
+      container.removeEventListener("input", measure);
+    };
+  }, [containerRef, editing, measure]);
+
+  if (layouts.length === 0) return null;
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-10" aria-hidden>
+      {layouts.map(({ siteId, name, color, field, caret }) => (
+        <React.Fragment key={siteId}>
+          <div
+            className="absolute rounded-md border-2 opacity-60"
+            style={{ ...field, borderColor: color }}
+          />
+          {caret ? (
+            <div
+              className="absolute w-0.5"
+              style={{ top: caret.top, left: caret.left, height: caret.height, backgroundColor: color }}
+            >
+              <span
+                className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 py-px text-[10px] font-medium text-white"
+                style={{ backgroundColor: color }}
+              >
+                {name}
+              </span>
+            </div>
+          ) : (
+            <span
+              className="absolute whitespace-nowrap rounded px-1 py-px text-[10px] font-medium text-white"
+              style={{ top: field.top, left: field.left + field.width, backgroundColor: color, transform: "translate(-100%, -100%)" }}
+            >
+              {name}
+            </span>
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+});
+
+RemoteCursors.displayName = "RemoteCursors";
+
+export default RemoteCursors;
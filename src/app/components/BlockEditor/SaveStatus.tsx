@@ -0,0 +1,70 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, Check, HardDrive, Loader2 } from "lucide-react";
+import { useEditorStore } from "./stores/editorStore";
+
+/**
+ * 保存状态
+ * 已保存 / 正在保存 / 未保存（并显示是否已写入本地草稿）
+ */
+export const SaveStatus = React.memo(() => {
+  const isDirty = useEditorStore((state) => state.isDirty);
+  const isSaving = useEditorStore((state) => state.isSaving);
+  const draftStatus = useEditorStore((state) => state.draftStatus);
+  const contentVersion = useEditorStore((state) => state.contentVersion);
+
+  if (isSaving) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Loader2 size={12} className="animate-spin" />
+        Saving…
+      </span>
+    );
+  }
+
+  if (!isDirty) {
+    return (
+      <span
+        className="flex items-center gap-1 text-xs text-muted-foreground"
+        title={`All changes saved (v${contentVersion})`}
+      >
+        <Check size={12} className="text-green-600 dark:text-green-400" />
+        Saved
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1.5">
+      <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+        Unsaved
+      </span>
+      {draftStatus === "saved" && (
+        <span
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+          title="Your changes are kept in this browser and can be recovered if the tab closes"
+        >
+          <HardDrive size={12} />
+          Draft saved locally
+        </span>
+      )}
+      {(draftStatus === "pending" || draftStatus === "saving") && (
+        <span className="text-xs text-muted-foreground">Saving draft…</span>
+      )}
+      {draftStatus === "error" && (
+        <span
+          className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400"
+          title="Local drafts are unavailable; save to avoid losing changes"
+        >
+          <AlertTriangle size={12} />
+          Draft not saved
+        </span>
+      )}
+    </span>
+  );
+});
+
+SaveStatus.displayName = "SaveStatus";
+
+export default SaveStatus;
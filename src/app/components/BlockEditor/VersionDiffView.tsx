@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ArrowUpDown, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { BLOCK_LABELS, getBlockTitle } from "./blockLabels";
+import { diffText, fieldToText, type BlockDiff, type FieldChange, type VersionDiff } from "./versions";
+import type { StructuredContent } from "./types";
+
+/** 可以从中恢复 Block 的版本 */
+export interface RestoreSource {
+  label: string;
+  content: StructuredContent;
+}
+
+const STATUS_STYLES: Record<BlockDiff["status"], { label: string; className: string } | null> = {
+  added: { label: "Added", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" },
+  removed: { label: "Removed", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
+  modified: { label: "Modified", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400" },
+  unchanged: null,
+};
+
+/** 新增、删除的 Block 显示全部字段 */
+function getBlockFields(block: BlockDiff): FieldChange[] {
+  if (block.status === "added" && block.after) {
+    return Object.entries(block.after)
+      .filter(([field]) => field !== "meta")
+      .map(([field, after]) => ({ field, before: undefined, after }));
+  }
+  if (block.status === "removed" && block.before) {
+    return Object.entries(block.before)
+      .filter(([field]) => field !== "meta")
+      .map(([field, before]) => ({ field, before, after: undefined }));
+  }
+  return block.fields;
+}
+
+/** 单个字段的词级 diff */
+const FieldDiff = React.memo<{ change: FieldChange }>(({ change }) => {
+  const segments = useMemo(
+    () => diffText(fieldToText(change.before), fieldToText(change.after)),
+    [change.before, change.after]
+  );
+
+  return (
+    <div className="space-y-0.5">
+      <div className="font-mono text-[11px] text-muted-foreground">{change.field}</div>
+      <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words rounded bg-muted/40 px-2 py-1 font-sans text-xs leading-relaxed">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.type === "added" && "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+              segment.type === "removed" && "bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300"
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </pre>
+    </div>
+  );
+});
+
+FieldDiff.displayName = "FieldDiff";
+
+interface BlockDiffItemProps {
+  block: BlockDiff;
+  sources: RestoreSource[];
+  onRestoreBlock: (blockId: string, source: StructuredContent) => void;
+}
+
+const BlockDiffItem = React.memo<BlockDiffItemProps>(({ block, sources, onRestoreBlock }) => {
+  const status = STATUS_STYLES[block.status];
+  const fields = getBlockFields(block);
+  const displayBlock = block.after ?? block.before;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-1.5">
+            {status && (
+              <span className={cn("rounded px-1.5 py-0.5 text-[10px] font-medium", status.className)}>
+                {status.label}
+              </span>
+            )}
+            {block.moved && (
+              <span className="flex items-center gap-0.5 rounded bg-blue-100 px-1.5 py-0.5 text-[10px] font-medium text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">
+                <ArrowUpDown size={10} />
+                Moved
+              </span>
+            )}
+            <span className="text-xs font-medium uppercase text-muted-foreground">
+              {BLOCK_LABELS[block.type] || block.type}
+            </span>
+          </div>
+          {displayBlock && (
+            <div className="truncate text-sm font-medium text-foreground">{getBlockTitle(displayBlock)}</div>
+          )}
+        </div>
+
+        <div className="flex flex-shrink-0 gap-1">
+          {sources.map((source) => (
+            <Button
+              key={source.label}
+              variant="ghost"
+              size="sm"
+              onClick={() => onRestoreBlock(block.blockId, source.content)}
+              className="h-7 px-2 text-xs"
+              title={`Put this block back into the draft as it was in ${source.label}`}
+            >
+              <RotateCcw size={12} className="mr-1" />
+              Use {source.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {fields.length > 0 && (
+        <div className="space-y-2">
+          {fields.map((change) => (
+            <FieldDiff key={change.field} change={change} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+BlockDiffItem.displayName = "BlockDiffItem";
+
+interface VersionDiffViewProps {
+  diff: VersionDiff;
+  /** 可以从中恢复单个 Block 的版本（不包括当前草稿） */
+  sources: RestoreSource[];
+  onRestoreBlock: (blockId: string, source: StructuredContent) => void;
+}
+
+/**
+ * 按 Block 显示两个版本的差异
+ * 新增、删除、移动的 Block 以及字段级文本修改，每个 Block 可以单独恢复到草稿
+ */
+export const VersionDiffView = React.memo<VersionDiffViewProps>(({ diff, sources, onRestoreBlock }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { summary } = diff;
+
+  const blocks = useMemo(
+    () => (showUnchanged ? diff.blocks : diff.blocks.filter((b) => b.status !== "unchanged" || b.moved)),
+    [diff.blocks, showUnchanged]
+  );
+  const hasChanges = blocks.some((b) => b.status !== "unchanged" || b.moved) || diff.pageFields.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <div className="flex flex-wrap items-center gap-3 text-muted-foreground">
+          <span className="text-green-600 dark:text-green-400">+{summary.added} added</span>
+          <span className="text-red-600 dark:text-red-400">-{summary.removed} removed</span>
+          <span className="text-amber-600 dark:text-amber-400">~{summary.modified} modified</span>
+          <span className="text-blue-600 dark:text-blue-400">{summary.moved} moved</span>
+        </div>
+        <label className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+            className="h-3 w-3"
+          />
+          Show unchanged
+        </label>
+      </div>
+
+      {diff.pageFields.length > 0 && (
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <div className="text-xs font-medium uppercase text-muted-foreground">Page settings</div>
+          {diff.pageFields.map((change) => (
+            <FieldDiff key={change.field} change={change} />
+          ))}
+        </div>
+      )}
+
+      {blocks.map((block) => (
+        <BlockDiffItem key={block.blockId} block={block} sources={sources} onRestoreBlock={onRestoreBlock} />
+      ))}
+
+      {!hasChanges && !showUnchanged && (
+        <p className="py-6 text-center text-sm text-muted-foreground">No differences between these versions</p>
+      )}
+    </div>
+  );
+});
+
+VersionDiffView.displayName = "VersionDiffView";
+
+export default VersionDiffView;
@@ -0,0 +1,251 @@
+"use client";
+
+import React, { useCallback, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Bot, History, Loader2, RotateCcw, User, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiClient, type ContentVersionSummary } from "@/lib/api/client";
+import { cn } from "@/lib/utils";
+import { useEditorStore } from "./stores/editorStore";
+import { useContentVersion, useContentVersions } from "./hooks/useContentVersions";
+import { VersionDiffView, type RestoreSource } from "./VersionDiffView";
+import { diffVersions } from "./versions";
+import { fromContentData } from "./contentData";
+import type { StructuredContent } from "./types";
+
+/** 对比目标：当前草稿或某个版本 */
+const DRAFT = "draft";
+
+interface VersionRowProps {
+  version: ContentVersionSummary;
+  isSelected: boolean;
+  isRestoring: boolean;
+  onSelect: (version: number) => void;
+  onRestore: (version: number) => void;
+}
+
+const VersionRow = React.memo<VersionRowProps>(({ version, isSelected, isRestoring, onSelect, onRestore }) => {
+  const createdAt = new Date(version.created_at);
+  const isAgent = version.source === "agent";
+
+  return (
+    <div
+      className={cn(
+        "group flex cursor-pointer items-center gap-3 rounded-md px-3 py-2 transition-colors",
+        isSelected ? "bg-primary/10" : "hover:bg-muted/50"
+      )}
+      onClick={() => onSelect(version.content_version)}
+    >
+      <span
+        className={cn(
+          "flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full",
+          isAgent ? "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300" : "bg-muted text-muted-foreground"
+        )}
+        title={isAgent ? "Generated by the agent" : "Saved by a person"}
+      >
+        {isAgent ? <Bot size={14} /> : <User size={14} />}
+      </span>
+
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-1.5">
+          <span className="text-sm font-medium text-foreground">v{version.content_version}</span>
+          {version.action === "publish" && (
+            <span className="rounded bg-green-100 px-1.5 py-0.5 text-[10px] font-medium text-green-700 dark:bg-green-900/30 dark:text-green-400">
+              Published
+            </span>
+          )}
+          <span className="truncate text-xs text-muted-foreground">
+            {version.author?.name ?? (isAgent ? "Agent" : "Unknown")}
+          </span>
+        </div>
+        <div className="text-xs text-muted-foreground" title={createdAt.toLocaleString()}>
+          {formatDistanceToNow(createdAt, { addSuffix: true })} · {version.block_count} blocks
+        </div>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRestore(version.content_version);
+        }}
+        disabled={isRestoring}
+        className={cn("h-7 px-2 text-xs", !isSelected && "opacity-0 group-hover:opacity-100")}
+        title="Replace the draft with this version (undo with Cmd+Z)"
+      >
+        {isRestoring ? <Loader2 size={12} className="mr-1 animate-spin" /> : <RotateCcw size={12} className="mr-1" />}
+        Restore
+      </Button>
+    </div>
+  );
+});
+
+VersionRow.displayName = "VersionRow";
+
+/**
+ * 版本历史抽屉
+ * 列出保存、发布产生的版本，对比任意两个版本（或与当前草稿），
+ * 可以把整个版本或单个 Block 恢复到当前草稿
+ */
+export const VersionHistoryDrawer = React.memo(() => {
+  const itemId = useEditorStore((state) => state.itemId);
+  const draft = useEditorStore((state) => state.content);
+  const contentVersion = useEditorStore((state) => state.contentVersion);
+  const isDirty = useEditorStore((state) => state.isDirty);
+  const restoreVersion = useEditorStore((state) => state.restoreVersion);
+  const restoreBlock = useEditorStore((state) => state.restoreBlock);
+  const toggleVersionHistory = useEditorStore((state) => state.toggleVersionHistory);
+
+  const { versions, isAvailable, error, isLoading } = useContentVersions(itemId, contentVersion);
+
+  // 默认对比最新版本和当前草稿（即未保存的修改）
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | typeof DRAFT>(DRAFT);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const fromVersion = selected ?? versions[0]?.content_version ?? null;
+  const toVersion = compareTo === DRAFT ? null : compareTo;
+
+  const from = useContentVersion(itemId, fromVersion);
+  const to = useContentVersion(itemId, toVersion);
+  const toContent = compareTo === DRAFT ? draft : to.content;
+
+  const diff = useMemo(
+    () => (from.content && toContent ? diffVersions(from.content, toContent) : null),
+    [from.content, toContent]
+  );
+
+  const sources = useMemo(() => {
+    const result: RestoreSource[] = [];
+    if (from.content && fromVersion !== null) result.push({ label: `v${fromVersion}`, content: from.content });
+    if (to.content && toVersion !== null && toVersion !== fromVersion) {
+      result.push({ label: `v${toVersion}`, content: to.content });
+    }
+    return result;
+  }, [from.content, fromVersion, to.content, toVersion]);
+
+  const handleRestore = useCallback(
+    async (version: number) => {
+      if (!itemId) return;
+      setRestoring(version);
+      try {
+        const response = await apiClient.getContentVersion(itemId, version);
+        restoreVersion(fromContentData(response.structured_content));
+        toast.success(`Restored v${version} into the draft`, {
+          description: "Save to keep it, or undo with Cmd+Z.",
+        });
+      } catch (err) {
+        toast.error("Failed to restore version", {
+          description: err instanceof Error ? err.message : "Please try again",
+        });
+      } finally {
+        setRestoring(null);
+      }
+    },
+    [itemId, restoreVersion]
+  );
+
+  const handleRestoreBlock = useCallback(
+    (blockId: string, source: StructuredContent) => {
+      restoreBlock(blockId, source);
+      toast.success("Block restored into the draft", { description: "Undo with Cmd+Z." });
+    },
+    [restoreBlock]
+  );
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-20 flex w-[560px] max-w-full flex-col border-l border-border bg-background shadow-xl animate-in slide-in-from-right duration-200">
+      <header className="flex h-12 flex-shrink-0 items-center justify-between border-b border-border px-4">
+        <div className="flex items-center gap-2">
+          <History size={16} className="text-muted-foreground" />
+          <h3 className="text-sm font-semibold text-foreground">Version history</h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={toggleVersionHistory} className="h-8 w-8 p-0" title="Close">
+          <X size={16} />
+        </Button>
+      </header>
+
+      {!isAvailable ? (
+        <div className="flex flex-1 items-center justify-center p-6 text-center text-sm text-muted-foreground">
+          Version history isn&apos;t available for demo content.
+        </div>
+      ) : (
+        <>
+          {/* 版本列表 */}
+          <div className="max-h-[40%] flex-shrink-0 overflow-y-auto border-b border-border p-2">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 size={16} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="py-6 text-center text-sm text-red-600 dark:text-red-400">Failed to load versions</p>
+            ) : versions.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No saved versions yet</p>
+            ) : (
+              versions.map((version) => (
+                <VersionRow
+                  key={version.content_version}
+                  version={version}
+                  isSelected={version.content_version === fromVersion}
+                  isRestoring={restoring === version.content_version}
+                  onSelect={setSelected}
+                  onRestore={handleRestore}
+                />
+              ))
+            )}
+          </div>
+
+          {/* 对比 */}
+          {fromVersion !== null && (
+            <div className="flex flex-shrink-0 items-center gap-2 border-b border-border px-4 py-2 text-xs text-muted-foreground">
+              <span>
+                Changes from <span className="font-medium text-foreground">v{fromVersion}</span> to
+              </span>
+              <Select
+                value={String(compareTo)}
+                onValueChange={(value) => setCompareTo(value === DRAFT ? DRAFT : Number(value))}
+              >
+                <SelectTrigger className="h-7 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DRAFT}>Current draft{isDirty ? " (unsaved)" : ""}</SelectItem>
+                  {versions.map((version) => (
+                    <SelectItem key={version.content_version} value={String(version.content_version)}>
+                      v{version.content_version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="min-h-0 flex-1 overflow-y-auto p-4">
+            {diff ? (
+              <VersionDiffView diff={diff} sources={sources} onRestoreBlock={handleRestoreBlock} />
+            ) : from.error || to.error ? (
+              <p className="py-6 text-center text-sm text-red-600 dark:text-red-400">Failed to load version content</p>
+            ) : fromVersion !== null ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 size={16} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : null}
+          </div>
+        </>
+      )}
+    </aside>
+  );
+});
+
+VersionHistoryDrawer.displayName = "VersionHistoryDrawer";
+
+export default VersionHistoryDrawer;
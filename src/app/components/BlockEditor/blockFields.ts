@@ -0,0 +1,63 @@
+/**
+ * 按字段名读写 Block 和页面级字段
+ * 协同编辑操作、三方合并和版本对比以字段名处理内容，字段名可能不属于当前 Block 类型
+ */
+
+import type { ContentBlock, StructuredContent } from "./types";
+
+/** 按字段访问的 Block 数据（协同状态中插入到达前的 Block 只有部分字段） */
+export type BlockData = Partial<ContentBlock>;
+
+/** 页面级字段（不含 Block 列表） */
+export type PageData = Omit<StructuredContent, "blocks">;
+
+// ============ 辅助函数 ============
+
+function readField(target: object, field: string): unknown {
+  return Object.prototype.hasOwnProperty.call(target, field) ? Reflect.get(target, field) : undefined;
+}
+
+function writeField<T extends object>(target: T, field: string, value: unknown): T {
+  const next = { ...target };
+  if (value === undefined) {
+    Reflect.deleteProperty(next, field);
+  } else {
+    Reflect.set(next, field, value);
+  }
+  return next;
+}
+
+// ============ Block 字段 ============
+
+/** 读取 Block 字段（字段不属于该 Block 时为 undefined） */
+export function getBlockField<B extends BlockData, K extends keyof B & string>(block: B, field: K): B[K];
+export function getBlockField(block: BlockData, field: string): unknown;
+export function getBlockField(block: BlockData, field: string): unknown {
+  return readField(block, field);
+}
+
+/** 写入一个字段后的 Block 副本（value 为 undefined 时删除该字段） */
+export function setBlockField<B extends BlockData>(block: B, field: string, value: unknown): B {
+  return writeField(block, field, value);
+}
+
+// ============ 页面级字段 ============
+
+/** 读取页面级字段 */
+export function getPageField(page: PageData, field: string): unknown {
+  return readField(page, field);
+}
+
+/** 写入一个页面级字段后的副本（value 为 undefined 时删除该字段） */
+export function setPageField<P extends PageData>(page: P, field: string, value: unknown): P {
+  return writeField(page, field, value);
+}
+
+/** 一组 Block 或页面的全部字段名（去重） */
+export function getFieldNames(...values: (object | null | undefined)[]): string[] {
+  const fields = new Set<string>();
+  for (const value of values) {
+    if (value) Object.keys(value).forEach((field) => fields.add(field));
+  }
+  return Array.from(fields);
+}
@@ -0,0 +1,43 @@
+/**
+ * Block 的显示名称（Block 列表、合并对话框共用）
+ */
+
+import type { BlockType, ContentBlock } from "./types";
+
+/** Block 类型标签映射 */
+export const BLOCK_LABELS: Record<BlockType, string> = {
+  intro: "Intro",
+  product_card: "Product Card",
+  step: "Step",
+  feature: "Feature",
+  text_section: "Text Section",
+  blog_section: "Blog Section",
+  conclusion: "Conclusion",
+  hero: "Hero",
+  quote: "Quote",
+  image: "Image",
+  video: "Video",
+  call_to_action: "CTA",
+  testimonial: "Testimonial",
+  pricing: "Pricing",
+  faq: "FAQ",
+  comparison_row: "Comparison",
+};
+
+/** 获取 Block 标题 */
+export function getBlockTitle(block: ContentBlock): string {
+  // 尝试从不同字段获取标题
+  if ("headline" in block && block.headline) return block.headline;
+  if ("title" in block && block.title) return block.title;
+  if ("name" in block && block.name) return block.name;
+  if ("question" in block && block.question) return block.question;
+  if ("quote" in block && block.quote) {
+    const quote = block.quote as string;
+    return quote.length > 50 ? quote.substring(0, 50) + "..." : quote;
+  }
+  if ("content" in block && block.content) {
+    const content = block.content as string;
+    return content.length > 50 ? content.substring(0, 50) + "..." : content;
+  }
+  return BLOCK_LABELS[block.meta.type] || "Untitled Block";
+}
@@ -0,0 +1,84 @@
+/**
+ * 输入框光标位置计算
+ * 用与输入框样式相同的隐藏镜像元素排版文本，测量第 position 个字符处的坐标
+ */
+
+/** 影响文本排版的样式属性 */
+const MIRRORED_PROPERTIES = [
+  'boxSizing',
+  'width',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'borderStyle',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'fontStyle',
+  'fontVariant',
+  'fontWeight',
+  'fontStretch',
+  'fontSize',
+  'fontFamily',
+  'lineHeight',
+  'letterSpacing',
+  'wordSpacing',
+  'textAlign',
+  'textTransform',
+  'textIndent',
+  'tabSize',
+] as const;
+
+export interface CaretCoordinates {
+  /** 相对输入框左上角（已扣除滚动） */
+  top: number;
+  left: number;
+  height: number;
+}
+
+/**
+ * 计算输入框中第 position 个字符处的光标坐标
+ */
+export function getCaretCoordinates(
+  element: HTMLInputElement | HTMLTextAreaElement,
+  position: number
+): CaretCoordinates {
+  const isInput = element.nodeName === 'INPUT';
+  const computed = window.getComputedStyle(element);
+  const mirror = document.createElement('div');
+  const style = mirror.style;
+
+  for (const property of MIRRORED_PROPERTIES) {
+    style[property] = computed[property];
+  }
+  style.position = 'absolute';
+  style.visibility = 'hidden';
+  style.top = '0';
+  style.left = '-9999px';
+  style.overflow = 'hidden';
+  style.whiteSpace = isInput ? 'pre' : 'pre-wrap';
+  style.overflowWrap = isInput ? 'normal' : 'break-word';
+  if (isInput) style.height = computed.height;
+
+  const value = element.value;
+  const offset = Math.max(0, Math.min(position, value.length));
+  mirror.textContent = value.slice(0, offset);
+
+  const marker = document.createElement('span');
+  // 空 span 没有高度，用剩余文本（或占位符）撑开
+  marker.textContent = value.slice(offset) || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const lineHeight = parseFloat(computed.lineHeight);
+  const coordinates: CaretCoordinates = {
+    top: marker.offsetTop + parseFloat(computed.borderTopWidth) - element.scrollTop,
+    left: marker.offsetLeft + parseFloat(computed.borderLeftWidth) - element.scrollLeft,
+    height: Number.isNaN(lineHeight) ? parseFloat(computed.fontSize) * 1.2 : lineHeight,
+  };
+  document.body.removeChild(mirror);
+
+  return coordinates;
+}
@@ -0,0 +1,32 @@
+/**
+ * 协同编辑
+ *
+ * 用法:
+ * import { applyOperations, getCollaboratorColor } from './collab';
+ */
+
+export {
+  ZERO_STAMP,
+  compareStamps,
+  stampOperation,
+  isSameFieldValue,
+  createCollabState,
+  materializeBlocks,
+  positionAt,
+  applyOperation,
+  applyOperations,
+  mergeCollabState,
+  invertOperation,
+  isOperationCurrent,
+  rebaseOperation,
+  diffBlocks,
+  type CollabOperationDraft,
+} from './operations';
+export {
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_TIMEOUT_MS,
+  getCollaboratorColor,
+  getInitials,
+  type Collaborator,
+} from './presence';
+export { getCaretCoordinates, type CaretCoordinates } from './caret';
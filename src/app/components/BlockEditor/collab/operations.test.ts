@@ -0,0 +1,258 @@
+import { describe, expect, it } from 'vitest';
+import type { CollabOperation, CollabStamp, CollabState, ContentBlock, TextSectionBlock } from '../types';
+import {
+  applyOperation,
+  applyOperations,
+  createCollabState,
+  diffBlocks,
+  invertOperation,
+  isOperationCurrent,
+  materializeBlocks,
+  mergeCollabState,
+  positionAt,
+  rebaseOperation,
+  stampOperation,
+  type CollabOperationDraft,
+} from './operations';
+
+// ============ 测试数据 ============
+
+function section(id: string, order: number, fields: Partial<Omit<TextSectionBlock, 'meta'>> = {}): TextSectionBlock {
+  return {
+    meta: { id, type: 'text_section', order },
+    heading: `Heading ${id}`,
+    content: `Content ${id}`,
+    ...fields,
+  };
+}
+
+function stamp(clock: number, site = 'site-a'): CollabStamp {
+  return { clock, site };
+}
+
+function ids(state: CollabState): string[] {
+  return materializeBlocks(state).map((block) => block.meta.id);
+}
+
+function initial(): CollabState {
+  return createCollabState([section('a', 0), section('b', 1), section('c', 2)]);
+}
+
+/** 应用 draft 后的状态（时间戳为 clock） */
+function applyDraft(state: CollabState, draft: CollabOperationDraft, clock: number): CollabState {
+  return applyOperation(state, stampOperation(draft, stamp(clock)));
+}
+
+// ============ 测试 ============
+
+describe('createCollabState / materializeBlocks', () => {
+  it('round-trips the initial blocks', () => {
+    const blocks: ContentBlock[] = [section('a', 0), section('b', 1)];
+    expect(materializeBlocks(createCollabState(blocks))).toEqual(blocks);
+  });
+
+  it('renumbers meta.order by visible position', () => {
+    const state = applyOperation(initial(), { kind: 'delete_block', block_id: 'a', stamp: stamp(1) });
+    expect(materializeBlocks(state).map((block) => [block.meta.id, block.meta.order])).toEqual([
+      ['b', 0],
+      ['c', 1],
+    ]);
+  });
+});
+
+describe('applyOperations', () => {
+  const ops: CollabOperation[] = [
+    { kind: 'set_field', block_id: 'a', field: 'heading', value: 'From A', stamp: stamp(1, 'site-a') },
+    { kind: 'set_field', block_id: 'a', field: 'heading', value: 'From B', stamp: stamp(1, 'site-b') },
+    { kind: 'insert_block', block_id: 'n', block: section('n', 0), position: 0.5, stamp: stamp(2, 'site-a') },
+    { kind: 'set_field', block_id: 'n', field: 'content', value: 'Edited', stamp: stamp(3, 'site-b') },
+    { kind: 'move_block', block_id: 'c', position: -1, stamp: stamp(2, 'site-b') },
+    { kind: 'delete_block', block_id: 'b', stamp: stamp(4, 'site-a') },
+  ];
+
+  it('applies newer writes over older ones', () => {
+    const blocks = materializeBlocks(applyOperations(initial(), ops));
+
+    expect(blocks.map((block) => block.meta.id)).toEqual(['c', 'a', 'n']);
+    expect(blocks[1]).toMatchObject({ heading: 'From B' });
+    expect(blocks[2]).toMatchObject({ content: 'Edited' });
+  });
+
+  it('converges regardless of order and duplicates', () => {
+    const expected = materializeBlocks(applyOperations(initial(), ops));
+    const reversed = [...ops].reverse();
+    const duplicated = [...ops.slice(2), ...ops, ...ops.slice(0, 3)];
+
+    expect(materializeBlocks(applyOperations(initial(), reversed))).toEqual(expected);
+    expect(materializeBlocks(applyOperations(initial(), duplicated))).toEqual(expected);
+  });
+
+  it('returns the same state for stale or repeated operations', () => {
+    const op: CollabOperation = { kind: 'move_block', block_id: 'a', position: 5, stamp: stamp(1) };
+    const state = applyOperation(initial(), op);
+
+    expect(applyOperation(state, op)).toBe(state);
+    expect(applyOperation(state, { ...op, position: 7, stamp: stamp(0, 'site-0') })).toBe(state);
+  });
+
+  it('hides blocks until their insert arrives', () => {
+    const edit: CollabOperation = { kind: 'set_field', block_id: 'n', field: 'heading', value: 'Early', stamp: stamp(3) };
+    const insert: CollabOperation = { kind: 'insert_block', block_id: 'n', block: section('n', 0), position: 3, stamp: stamp(2) };
+
+    const early = applyOperation(initial(), edit);
+    expect(ids(early)).toEqual(['a', 'b', 'c']);
+
+    const blocks = materializeBlocks(applyOperation(early, insert));
+    expect(blocks.map((block) => block.meta.id)).toEqual(['a', 'b', 'c', 'n']);
+    expect(blocks[3]).toMatchObject({ heading: 'Early', content: 'Content n' });
+  });
+
+  it('does not let field writes change the block id', () => {
+    const op: CollabOperation = {
+      kind: 'set_field',
+      block_id: 'a',
+      field: 'meta',
+      value: { id: 'other', type: 'text_section', order: 0 },
+      stamp: stamp(1),
+    };
+
+    expect(ids(applyOperation(initial(), op))).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('mergeCollabState', () => {
+  it('matches applying the same operations directly', () => {
+    const local: CollabOperation[] = [
+      { kind: 'set_field', block_id: 'a', field: 'heading', value: 'Local', stamp: stamp(1, 'site-a') },
+    ];
+    const remote: CollabOperation[] = [
+      { kind: 'set_field', block_id: 'a', field: 'heading', value: 'Remote', stamp: stamp(2, 'site-b') },
+      { kind: 'insert_block', block_id: 'n', block: section('n', 0), position: 10, stamp: stamp(1, 'site-b') },
+    ];
+
+    const merged = mergeCollabState(applyOperations(initial(), local), applyOperations(initial(), remote));
+
+    expect(materializeBlocks(merged)).toEqual(materializeBlocks(applyOperations(initial(), [...local, ...remote])));
+  });
+});
+
+describe('positionAt', () => {
+  it('returns positions between neighbouring blocks', () => {
+    const state = initial();
+
+    expect(positionAt(state, 0)).toBe(-1);
+    expect(positionAt(state, 1)).toBe(0.5);
+    expect(positionAt(state, 3)).toBe(3);
+    expect(positionAt(createCollabState([]), 0)).toBe(0);
+  });
+
+  it('ignores the moving block', () => {
+    expect(positionAt(initial(), 2, 'a')).toBe(3);
+  });
+});
+
+describe('diffBlocks', () => {
+  it('returns no operations for unchanged content', () => {
+    const state = initial();
+    expect(diffBlocks(state, materializeBlocks(state))).toEqual([]);
+  });
+
+  it('produces operations that reach the target', () => {
+    const state = initial();
+    const target = [section('c', 0), section('n', 1), section('a', 2, { heading: 'Changed' })];
+
+    const drafts = diffBlocks(state, target);
+    const next = drafts.reduce((current, draft, index) => applyDraft(current, draft, index + 1), state);
+
+    expect(drafts).toContainEqual({ kind: 'delete_block', block_id: 'b' });
+    expect(drafts).toContainEqual({ kind: 'set_field', block_id: 'a', field: 'heading', value: 'Changed' });
+    expect(materializeBlocks(next)).toEqual(target);
+  });
+
+  it('writes undefined for removed fields', () => {
+    const state = createCollabState([section('a', 0, { image_url: 'a.png' })]);
+
+    expect(diffBlocks(state, [section('a', 0)])).toEqual([
+      { kind: 'set_field', block_id: 'a', field: 'image_url', value: undefined },
+    ]);
+  });
+});
+
+describe('invertOperation', () => {
+  const drafts: CollabOperationDraft[] = [
+    { kind: 'set_field', block_id: 'a', field: 'heading', value: 'Changed' },
+    { kind: 'move_block', block_id: 'a', position: 10 },
+    { kind: 'delete_block', block_id: 'b' },
+    { kind: 'insert_block', block_id: 'n', block: section('n', 0), position: 1.5 },
+  ];
+
+  it.each(drafts)('undoes $kind', (draft) => {
+    const state = initial();
+    const inverse = invertOperation(state, draft);
+    expect(inverse).not.toBeNull();
+
+    const undone = applyDraft(applyDraft(state, draft, 1), inverse!, 2);
+    expect(materializeBlocks(undone)).toEqual(materializeBlocks(state));
+  });
+
+  it('returns null when there is nothing to undo', () => {
+    expect(invertOperation(initial(), { kind: 'delete_block', block_id: 'missing' })).toBeNull();
+    expect(invertOperation(initial(), { kind: 'set_field', block_id: 'missing', field: 'heading', value: '' })).toBeNull();
+  });
+});
+
+describe('isOperationCurrent', () => {
+  it('is true until another write overrides the operation', () => {
+    const op: CollabOperation = { kind: 'set_field', block_id: 'a', field: 'heading', value: 'Mine', stamp: stamp(1) };
+    const applied = applyOperation(initial(), op);
+
+    expect(isOperationCurrent(applied, op)).toBe(true);
+
+    const overridden = applyOperation(applied, { ...op, value: 'Other', stamp: stamp(2, 'site-b') });
+    expect(isOperationCurrent(overridden, op)).toBe(false);
+  });
+
+  it('tracks insert and delete through the deleted register', () => {
+    const remove: CollabOperation = { kind: 'delete_block', block_id: 'a', stamp: stamp(1) };
+    const insert: CollabOperation = { kind: 'insert_block', block_id: 'a', block: section('a', 0), position: 0, stamp: stamp(2) };
+
+    const removed = applyOperation(initial(), remove);
+    expect(isOperationCurrent(removed, remove)).toBe(true);
+
+    const restored = applyOperation(removed, insert);
+    expect(isOperationCurrent(restored, remove)).toBe(false);
+    expect(isOperationCurrent(restored, insert)).toBe(true);
+  });
+});
+
+describe('rebaseOperation', () => {
+  it('takes the register stamp when the value still matches', () => {
+    const op: CollabOperation = { kind: 'set_field', block_id: 'a', field: 'heading', value: 'Heading a', stamp: stamp(5) };
+    const rebased = rebaseOperation(initial(), op);
+
+    expect(rebased).toEqual({ ...op, stamp: { clock: 0, site: '' } });
+    expect(isOperationCurrent(initial(), rebased!)).toBe(true);
+  });
+
+  it('returns null when the value differs or the block is missing', () => {
+    const state = initial();
+
+    expect(rebaseOperation(state, { kind: 'set_field', block_id: 'a', field: 'heading', value: 'Other', stamp: stamp(5) })).toBeNull();
+    expect(rebaseOperation(state, { kind: 'move_block', block_id: 'a', position: 3, stamp: stamp(5) })).toBeNull();
+    expect(rebaseOperation(state, { kind: 'delete_block', block_id: 'a', stamp: stamp(5) })).toBeNull();
+    expect(rebaseOperation(state, { kind: 'delete_block', block_id: 'missing', stamp: stamp(5) })).toBeNull();
+  });
+
+  it('maps insert and delete to the current deleted register', () => {
+    const removed = applyOperation(initial(), { kind: 'delete_block', block_id: 'b', stamp: stamp(3, 'site-b') });
+
+    expect(rebaseOperation(removed, { kind: 'delete_block', block_id: 'b', stamp: stamp(9) })).toEqual({
+      kind: 'delete_block',
+      block_id: 'b',
+      stamp: stamp(3, 'site-b'),
+    });
+    expect(
+      rebaseOperation(removed, { kind: 'insert_block', block_id: 'b', block: section('b', 1), position: 1, stamp: stamp(9) })
+    ).toBeNull();
+  });
+});
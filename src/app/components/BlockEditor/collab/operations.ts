@@ -0,0 +1,384 @@
+/**
+ * 协同编辑操作的应用与合并
+ *
+ * 内容拆成一组最后写入者胜出（LWW）的寄存器：每个 Block 的位置、删除标记和各个字段。
+ * 操作携带 Lamport 时间戳，只有更新的时间戳才能覆盖寄存器，
+ * 因此各客户端以任意顺序、重复接收同一批操作后都会收敛到相同内容
+ */
+
+import { getBlockField, getFieldNames, setBlockField, type BlockData } from '../blockFields';
+import type {
+  CollabBlockRegisters,
+  CollabOperation,
+  CollabStamp,
+  CollabState,
+  ContentBlock,
+} from '../types';
+
+// ============ 类型定义 ============
+
+type WithoutStamp<T> = T extends unknown ? Omit<T, 'stamp'> : never;
+
+/** 尚未分配时间戳的操作 */
+export type CollabOperationDraft = WithoutStamp<CollabOperation>;
+
+/** 对寄存器的一组写入 */
+interface RegisterWrites {
+  position?: { value: number; stamp: CollabStamp };
+  deleted?: { value: boolean; stamp: CollabStamp };
+  fields?: Record<string, { value: unknown; stamp: CollabStamp }>;
+}
+
+/** 初始内容的时间戳（任何操作都比它新） */
+export const ZERO_STAMP: CollabStamp = { clock: 0, site: '' };
+
+// ============ 时间戳 ============
+
+/** 比较时间戳：时钟优先，相同时按站点 ID */
+export function compareStamps(a: CollabStamp, b: CollabStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  if (a.site === b.site) return 0;
+  return a.site < b.site ? -1 : 1;
+}
+
+function isSameStamp(a: CollabStamp, b: CollabStamp): boolean {
+  return compareStamps(a, b) === 0;
+}
+
+/** 给操作分配时间戳 */
+export function stampOperation(draft: CollabOperationDraft, stamp: CollabStamp): CollabOperation {
+  return { ...draft, stamp } as CollabOperation;
+}
+
+// ============ 辅助函数 ============
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function fieldStamp(registers: CollabBlockRegisters, field: string): CollabStamp {
+  return registers.fields[field] ?? ZERO_STAMP;
+}
+
+/** 字段比较用的值（meta 中的顺序和编辑时间不参与比较） */
+function comparableValue(field: string, value: unknown): string | undefined {
+  if (field === 'meta' && value && typeof value === 'object') {
+    const meta = { ...(value as Record<string, unknown>) };
+    delete meta.order;
+    delete meta.last_edited_at;
+    return JSON.stringify(meta);
+  }
+  return JSON.stringify(value);
+}
+
+/** 字段值是否相同 */
+export function isSameFieldValue(field: string, a: unknown, b: unknown): boolean {
+  return comparableValue(field, a) === comparableValue(field, b);
+}
+
+function emptyRegisters(position: number): CollabBlockRegisters {
+  return {
+    position,
+    position_stamp: ZERO_STAMP,
+    deleted: false,
+    deleted_stamp: ZERO_STAMP,
+    fields: {},
+  };
+}
+
+/** Block 数据是否完整（操作先于插入到达时只有部分字段，暂不显示） */
+function isComplete(block: BlockData | undefined): block is ContentBlock {
+  return !!block?.meta;
+}
+
+/**
+ * 写入一个 Block 的寄存器（只有更新的时间戳生效）
+ * base 为 Block 的初始数据（插入、同步时提供）；不存在的 Block 先记录寄存器，等插入到达后显示
+ */
+function writeRegisters(
+  state: CollabState,
+  blockId: string,
+  writes: RegisterWrites,
+  base?: BlockData
+): CollabState {
+  const existing = state.blocks[blockId];
+  const current = state.registers[blockId] ?? emptyRegisters(0);
+  const registers: CollabBlockRegisters = { ...current, fields: { ...current.fields } };
+  // 已写入的字段时间戳都比 base 新，覆盖在 base 之上
+  let next: BlockData = isComplete(existing) || !base ? { ...existing } : clone(base);
+  if (!isComplete(existing) && base && existing) {
+    for (const field of getFieldNames(existing)) {
+      next = setBlockField(next, field, getBlockField(existing, field));
+    }
+  }
+  let changed = !state.registers[blockId] || (!isComplete(existing) && !!base);
+
+  if (writes.position && compareStamps(writes.position.stamp, registers.position_stamp) > 0) {
+    registers.position = writes.position.value;
+    registers.position_stamp = writes.position.stamp;
+    changed = true;
+  }
+
+  if (writes.deleted && compareStamps(writes.deleted.stamp, registers.deleted_stamp) > 0) {
+    registers.deleted = writes.deleted.value;
+    registers.deleted_stamp = writes.deleted.stamp;
+    changed = true;
+  }
+
+  for (const [field, write] of Object.entries(writes.fields ?? {})) {
+    if (compareStamps(write.stamp, fieldStamp(registers, field)) <= 0) continue;
+    // meta.id 是 Block 的标识，不允许被字段写入改变
+    if (field === 'meta' && !write.value) continue;
+    registers.fields[field] = write.stamp;
+    const value = field === 'meta' ? { ...clone(write.value as Record<string, unknown>), id: blockId } : clone(write.value);
+    next = setBlockField(next, field, value);
+    changed = true;
+  }
+
+  if (!changed) return state;
+
+  return {
+    blocks: { ...state.blocks, [blockId]: next },
+    registers: { ...state.registers, [blockId]: registers },
+  };
+}
+
+// ============ 协同状态 ============
+
+/**
+ * 从内容创建协同状态
+ * 初始寄存器使用 ZERO_STAMP，从同一内容开始的各客户端状态一致
+ */
+export function createCollabState(blocks: ContentBlock[]): CollabState {
+  const state: CollabState = { blocks: {}, registers: {} };
+  blocks.forEach((block, index) => {
+    state.blocks[block.meta.id] = block;
+    state.registers[block.meta.id] = emptyRegisters(index);
+  });
+  return state;
+}
+
+/** 可见 Block 的 ID（按位置排序，位置相同时按 ID） */
+function visibleBlockIds(state: CollabState, excludeId?: string): string[] {
+  return Object.keys(state.registers)
+    .filter((id) => id !== excludeId && !state.registers[id].deleted && isComplete(state.blocks[id]))
+    .sort((a, b) => {
+      const diff = state.registers[a].position - state.registers[b].position;
+      if (diff !== 0) return diff;
+      return a < b ? -1 : a > b ? 1 : 0;
+    });
+}
+
+/** 按当前状态生成 Block 列表（meta.order 为列表中的位置） */
+export function materializeBlocks(state: CollabState): ContentBlock[] {
+  const blocks = visibleBlockIds(state).map((id) => state.blocks[id]).filter(isComplete);
+  return blocks.map((block, index) => {
+    if (block.meta.order === index) return block;
+    return { ...block, meta: { ...block.meta, order: index } } as ContentBlock;
+  });
+}
+
+/**
+ * 把 Block 放到可见列表第 index 个位置时应使用的分数位置
+ * movingId 为正在移动的 Block（计算时先从列表中移除）
+ */
+export function positionAt(state: CollabState, index: number, movingId?: string): number {
+  const ids = visibleBlockIds(state, movingId);
+  const before = index > 0 ? state.registers[ids[index - 1]]?.position : undefined;
+  const after = state.registers[ids[index]]?.position;
+
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return (after as number) - 1;
+  if (after === undefined) return before + 1;
+  return (before + after) / 2;
+}
+
+// ============ 操作 ============
+
+/** 应用一个操作（重复应用或旧操作不会改变状态） */
+export function applyOperation(state: CollabState, op: CollabOperation): CollabState {
+  switch (op.kind) {
+    case 'insert_block': {
+      // 插入写入整个 Block：位置、删除标记和所有字段（新 Block 中不存在的字段视为删除）
+      const fields: RegisterWrites['fields'] = {};
+      for (const field of getFieldNames(op.block, state.blocks[op.block_id])) {
+        fields[field] = { value: getBlockField(op.block, field), stamp: op.stamp };
+      }
+      return writeRegisters(
+        state,
+        op.block_id,
+        {
+          position: { value: op.position, stamp: op.stamp },
+          deleted: { value: false, stamp: op.stamp },
+          fields,
+        },
+        setBlockField({}, 'meta', op.block.meta)
+      );
+    }
+
+    case 'delete_block':
+      return writeRegisters(state, op.block_id, { deleted: { value: true, stamp: op.stamp } });
+
+    case 'move_block':
+      return writeRegisters(state, op.block_id, { position: { value: op.position, stamp: op.stamp } });
+
+    case 'set_field':
+      return writeRegisters(state, op.block_id, {
+        fields: { [op.field]: { value: op.value, stamp: op.stamp } },
+      });
+  }
+}
+
+/** 依次应用一组操作 */
+export function applyOperations(state: CollabState, ops: CollabOperation[]): CollabState {
+  return ops.reduce(applyOperation, state);
+}
+
+/**
+ * 合并另一客户端的完整协同状态（新加入编辑时使用）
+ * 逐个寄存器比较时间戳，和逐个应用操作的结果一致
+ */
+export function mergeCollabState(state: CollabState, remote: CollabState): CollabState {
+  let merged = state;
+  for (const [blockId, registers] of Object.entries(remote.registers)) {
+    const block = remote.blocks[blockId];
+    if (!block) continue;
+
+    const fields: RegisterWrites['fields'] = {};
+    for (const field of getFieldNames(block, merged.blocks[blockId])) {
+      fields[field] = { value: getBlockField(block, field), stamp: fieldStamp(registers, field) };
+    }
+
+    merged = writeRegisters(
+      merged,
+      blockId,
+      {
+        position: { value: registers.position, stamp: registers.position_stamp },
+        deleted: { value: registers.deleted, stamp: registers.deleted_stamp },
+        fields,
+      },
+      block
+    );
+  }
+  return merged;
+}
+
+/**
+ * 生成撤销操作：在应用 draft 之前的状态上计算
+ * 无法撤销（如删除不存在的 Block）时返回 null
+ */
+export function invertOperation(state: CollabState, draft: CollabOperationDraft): CollabOperationDraft | null {
+  const registers = state.registers[draft.block_id];
+  const block = state.blocks[draft.block_id];
+
+  switch (draft.kind) {
+    case 'insert_block':
+      if (!registers || registers.deleted || !isComplete(block)) {
+        return { kind: 'delete_block', block_id: draft.block_id };
+      }
+      return { kind: 'insert_block', block_id: draft.block_id, block: clone(block), position: registers.position };
+
+    case 'delete_block':
+      if (!registers || registers.deleted || !isComplete(block)) return null;
+      return { kind: 'insert_block', block_id: draft.block_id, block: clone(block), position: registers.position };
+
+    case 'move_block':
+      if (!registers) return null;
+      return { kind: 'move_block', block_id: draft.block_id, position: registers.position };
+
+    case 'set_field':
+      if (!block) return null;
+      return {
+        kind: 'set_field',
+        block_id: draft.block_id,
+        field: draft.field,
+        value: clone(getBlockField(block, draft.field)),
+      };
+  }
+}
+
+/**
+ * 操作的写入是否仍然生效（之后没有被其他编辑者覆盖）
+ * 撤销只回退仍然生效的操作，不会覆盖别人之后的修改
+ */
+export function isOperationCurrent(state: CollabState, op: CollabOperation): boolean {
+  const registers = state.registers[op.block_id];
+  if (!registers) return false;
+
+  switch (op.kind) {
+    case 'insert_block':
+      return !registers.deleted && isSameStamp(registers.deleted_stamp, op.stamp);
+    case 'delete_block':
+      return registers.deleted && isSameStamp(registers.deleted_stamp, op.stamp);
+    case 'move_block':
+      return isSameStamp(registers.position_stamp, op.stamp);
+    case 'set_field':
+      return isSameStamp(fieldStamp(registers, op.field), op.stamp);
+  }
+}
+
+/**
+ * 把之前应用的操作对应到另一个协同状态（恢复本地草稿时重建撤销历史）
+ * 寄存器当前的值与操作写入的值相同时，返回带有寄存器当前时间戳的操作；否则返回 null
+ */
+export function rebaseOperation(state: CollabState, op: CollabOperation): CollabOperation | null {
+  const registers = state.registers[op.block_id];
+  const block = state.blocks[op.block_id];
+  if (!registers || !block) return null;
+
+  switch (op.kind) {
+    case 'insert_block':
+      return registers.deleted ? null : { ...op, stamp: registers.deleted_stamp };
+    case 'delete_block':
+      return registers.deleted ? { ...op, stamp: registers.deleted_stamp } : null;
+    case 'move_block':
+      return registers.position === op.position ? { ...op, stamp: registers.position_stamp } : null;
+    case 'set_field': {
+      const value = getBlockField(block, op.field);
+      return isSameFieldValue(op.field, value, op.value) ? { ...op, stamp: fieldStamp(registers, op.field) } : null;
+    }
+  }
+}
+
+/**
+ * 计算把当前内容变为目标 Block 列表所需的操作
+ * 顺序变化或有新增 Block 时，所有 Block 按目标列表重新分配整数位置
+ */
+export function diffBlocks(state: CollabState, target: ContentBlock[]): CollabOperationDraft[] {
+  const drafts: CollabOperationDraft[] = [];
+  const currentIds = visibleBlockIds(state);
+  const targetIds = target.map((block) => block.meta.id);
+  const targetIdSet = new Set(targetIds);
+
+  for (const id of currentIds) {
+    if (!targetIdSet.has(id)) drafts.push({ kind: 'delete_block', block_id: id });
+  }
+
+  const keptIds = currentIds.filter((id) => targetIdSet.has(id));
+  const reposition =
+    keptIds.length !== targetIds.length || keptIds.some((id, index) => id !== targetIds[index]);
+
+  target.forEach((block, index) => {
+    const id = block.meta.id;
+    const registers = state.registers[id];
+    const current = state.blocks[id];
+
+    if (!registers || registers.deleted || !current) {
+      drafts.push({ kind: 'insert_block', block_id: id, block: clone(block), position: index });
+      return;
+    }
+
+    if (reposition && registers.position !== index) {
+      drafts.push({ kind: 'move_block', block_id: id, position: index });
+    }
+
+    for (const field of getFieldNames(block, current)) {
+      const value = getBlockField(block, field);
+      if (!isSameFieldValue(field, value, getBlockField(current, field))) {
+        drafts.push({ kind: 'set_field', block_id: id, field, value: clone(value) });
+      }
+    }
+  });
+
+  return drafts;
+}
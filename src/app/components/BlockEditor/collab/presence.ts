@@ -0,0 +1,47 @@
+/**
+ * 协同编辑的在线状态
+ */
+
+import type { CollabPresence } from '../types';
+
+/** 在线的协作者（其他编辑会话） */
+export interface Collaborator extends CollabPresence {
+  /** 头像、光标使用的颜色 */
+  color: string;
+  /** 最近一次收到在线状态的时间 */
+  last_seen: number;
+}
+
+/** 在线状态心跳间隔 (ms) */
+export const PRESENCE_HEARTBEAT_MS = 15_000;
+
+/** 超过该时间没有心跳视为离开 (ms) */
+export const PRESENCE_TIMEOUT_MS = 45_000;
+
+const COLLABORATOR_COLORS = [
+  '#e11d48',
+  '#2563eb',
+  '#16a34a',
+  '#d97706',
+  '#9333ea',
+  '#0891b2',
+  '#db2777',
+  '#65a30d',
+];
+
+/** 按编辑会话 ID 分配固定颜色 */
+export function getCollaboratorColor(siteId: string): string {
+  let hash = 0;
+  for (let i = 0; i < siteId.length; i++) {
+    hash = (hash * 31 + siteId.charCodeAt(i)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/** 头像缩写 */
+export function getInitials(name: string): string {
+  const parts = name.trim().split(/[\s@._-]+/).filter(Boolean);
+  if (parts.length === 0) return '?';
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[1][0]).toUpperCase();
+}
@@ -0,0 +1,28 @@
+/**
+ * 编辑器内容与 API 结构化内容数据的转换
+ * API 只约定 Block 的 meta，具体字段由编辑器按 Block 类型解释
+ */
+
+import type { StructuredContentData } from "@/lib/api/client";
+import type { ContentBlock, StructuredContent } from "./types";
+
+/** 是否为可编辑的 Block（有 ID 和类型） */
+function isContentBlock(value: unknown): value is ContentBlock {
+  if (!value || typeof value !== "object" || !("meta" in value)) return false;
+  const meta = value.meta;
+  return !!meta && typeof meta === "object" && "id" in meta && typeof meta.id === "string" && "type" in meta && typeof meta.type === "string";
+}
+
+/** API 返回的结构化内容 → 编辑器内容（跳过缺少 ID 或类型的 Block） */
+export function fromContentData(data: StructuredContentData): StructuredContent {
+  const blocks: ContentBlock[] = [];
+  for (const block of data.blocks ?? []) {
+    if (isContentBlock(block)) blocks.push(block);
+  }
+  return { ...data, blocks };
+}
+
+/** 编辑器内容 → 保存到 API 的结构化内容 */
+export function toContentData(content: StructuredContent): StructuredContentData {
+  return { ...content, blocks: content.blocks.map((block) => ({ ...block })) };
+}
@@ -0,0 +1,59 @@
+/**
+ * Block Editor - 非组件导出
+ *
+ * hooks 和工具函数（客户端渲染、协同编辑、版本冲突合并、版本对比、本地草稿）。
+ * 与组件入口 index.tsx 分开：组件入口只导出组件，不影响 Fast Refresh
+ */
+
+// Hooks
+export { useInstantPreview, type UseInstantPreviewReturn } from './hooks/useInstantPreview';
+export {
+  useCollaboration,
+  type UseCollaborationOptions,
+  type UseCollaborationReturn,
+} from './hooks/useCollaboration';
+export { useContentVersions, useContentVersion } from './hooks/useContentVersions';
+export { useDraftPersistence } from './hooks/useDraftPersistence';
+
+// 本地草稿
+export { editorDrafts, DraftStorage, type EditorDraft } from './stores/drafts';
+
+// 协同编辑
+export {
+  applyOperations,
+  mergeCollabState,
+  diffBlocks,
+  getCollaboratorColor,
+  type CollabOperationDraft,
+  type Collaborator,
+} from './collab';
+
+// 版本冲突合并
+export {
+  mergeContent,
+  resolveContentMerge,
+  type MergeSide,
+  type BlockConflict,
+  type ContentMerge,
+} from './merge';
+
+// 版本对比
+export {
+  diffVersions,
+  diffText,
+  type VersionDiff,
+  type BlockDiff,
+  type FieldChange,
+  type TextDiffSegment,
+} from './versions';
+
+// 客户端渲染
+export {
+  renderContentPreview,
+  renderContentHtml,
+  renderBlock,
+  getPreviewDivergence,
+  type ContentPreviewRender,
+  type BlockRenderContext,
+  type PreviewDivergence,
+} from './render';
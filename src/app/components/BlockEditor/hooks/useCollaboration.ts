@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useEditorStore } from "../stores/editorStore";
+import { PRESENCE_HEARTBEAT_MS } from "../collab";
+import type {
+  CollabPresence,
+  EditorContentUpdateEvent,
+  EditorPresenceEvent,
+  EditorSyncEvent,
+} from "../types";
+import type { EditorClientMessageType } from "@/lib/stream/websocket";
+import type { StreamEvent } from "@/app/types/types";
+
+// ============ 配置 ============
+
+/** 光标变化后发送在线状态的延迟 (ms) */
+const PRESENCE_THROTTLE_DELAY = 80;
+
+/** 回复新加入编辑者时，发送给所有人的目标 ID */
+const SYNC_TARGET_ALL = "*";
+
+// ============ Hook ============
+
+export interface UseCollaborationOptions {
+  /** 发送编辑器事件（未提供时只在本地编辑） */
+  sendEditorEvent?: (type: EditorClientMessageType, data: unknown) => Promise<void>;
+  /** 当前用户 */
+  user: CollabPresence["user"] | null;
+}
+
+export interface UseCollaborationReturn {
+  /** 协同编辑是否可用（事件能发送给其他编辑者） */
+  isLive: boolean;
+}
+
+/**
+ * 协同编辑 Hook
+ * - 把本地操作通过 editor.content_update 发送给编辑同一内容的其他编辑者，并应用对方的操作
+ * - 定时发送在线状态（选中的 Block、正在编辑的字段和光标）
+ * - 加入或恢复连接时与其他编辑者交换完整协同状态，补齐断线期间丢失的操作
+ */
+export function useCollaboration({ sendEditorEvent, user }: UseCollaborationOptions): UseCollaborationReturn {
+  const itemId = useEditorStore((state) => state.itemId);
+  const hasContent = useEditorStore((state) => state.content !== null);
+  const [isLive, setIsLive] = useState(false);
+
+  const isLiveRef = useRef(false);
+  const userRef = useRef(user);
+  userRef.current = user;
+
+  /** 发送事件；失败时标记为不可用，下次心跳重新加入 */
+  const send = useCallback(
+    async (type: EditorClientMessageType, data: unknown): Promise<boolean> => {
+      if (!sendEditorEvent) return false;
+      try {
+        await sendEditorEvent(type, data);
+        return true;
+      } catch (error) {
+        if (isLiveRef.current) {
+          console.warn("[Collaboration] Failed to send editor event:", error);
+        }
+        isLiveRef.current = false;
+        setIsLive(false);
+        return false;
+      }
+    },
+    [sendEditorEvent]
+  );
+
+  const sendPresence = useCallback(
+    (status: CollabPresence["status"]) => {
+      const { itemId: currentItemId, siteId, selectedBlockId, localCursor } = useEditorStore.getState();
+      const currentUser = userRef.current;
+      if (!currentItemId || !currentUser) return Promise.resolve(false);
+
+      const presence: CollabPresence = {
+        item_id: currentItemId,
+        site_id: siteId,
+        status,
+        user: currentUser,
+        block_id: selectedBlockId,
+        field: localCursor?.field ?? null,
+        selection: localCursor?.selection ?? null,
+      };
+      return send("editor.presence", presence);
+    },
+    [send]
+  );
+
+  const sendState = useCallback(
+    (targetSiteId: string) => {
+      const { itemId: currentItemId, siteId, collab } = useEditorStore.getState();
+      if (!currentItemId || !collab) return;
+
+      const data: EditorSyncEvent["data"] = {
+        item_id: currentItemId,
+        site_id: siteId,
+        target_site_id: targetSiteId,
+        state: collab,
+      };
+      void send("editor.sync", data);
+    },
+    [send]
+  );
+
+  /** 加入编辑：发送在线状态和完整协同状态（其他编辑者据此补齐并回复各自的状态） */
+  const join = useCallback(async () => {
+    if (await sendPresence("join")) {
+      isLiveRef.current = true;
+      setIsLive(true);
+      sendState(SYNC_TARGET_ALL);
+    }
+  }, [sendPresence, sendState]);
+
+  const enabled = !!itemId && hasContent && !!sendEditorEvent && !!user;
+
+  // 加入 / 离开、心跳
+  useEffect(() => {
+    if (!enabled) return;
+
+    void join();
+    const heartbeat = setInterval(() => {
+      useEditorStore.getState().pruneCollaborators();
+      if (isLiveRef.current) {
+        void sendPresence("update");
+      } else {
+        void join();
+      }
+    }, PRESENCE_HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      void sendPresence("leave");
+      isLiveRef.current = false;
+      setIsLive(false);
+    };
+  }, [enabled, itemId, join, sendPresence]);
+
+  // 发送本地操作
+  useEffect(() => {
+    if (!enabled) return;
+
+    const flush = () => {
+      const { itemId: currentItemId, siteId, takePendingOperations } = useEditorStore.getState();
+      const operations = takePendingOperations();
+      if (!currentItemId || operations.length === 0 || !isLiveRef.current) return;
+
+      const data: EditorContentUpdateEvent["data"] = {
+        item_id: currentItemId,
+        site_id: siteId,
+        operations,
+      };
+      void send("editor.content_update", data);
+    };
+
+    flush();
+    return useEditorStore.subscribe((state) => state.pendingOperations, flush);
+  }, [enabled, send]);
+
+  // 选中的 Block、光标变化时发送在线状态
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = useEditorStore.subscribe(
+      (state) => [state.selectedBlockId, state.localCursor] as const,
+      () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          if (isLiveRef.current) void sendPresence("update");
+        }, PRESENCE_THROTTLE_DELAY);
+      },
+      { equalityFn: (a, b) => a[0] === b[0] && a[1] === b[1] }
+    );
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [enabled, sendPresence]);
+
+  // 接收其他编辑者的事件
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleEditorEvent = (e: CustomEvent<StreamEvent>) => {
+      const store = useEditorStore.getState();
+      const event = e.detail as unknown as EditorContentUpdateEvent | EditorPresenceEvent | EditorSyncEvent;
+      if (event.data?.item_id !== store.itemId || event.data.site_id === store.siteId) return;
+
+      switch (event.type) {
+        case "editor.content_update":
+          if (event.data.operations?.length) {
+            store.applyRemoteOperations(event.data.operations);
+          }
+          break;
+
+        case "editor.presence":
+          store.updateCollaborator(event.data);
+          // 新加入的编辑者：回复自己的在线状态和完整协同状态
+          if (event.data.status === "join" && isLiveRef.current) {
+            void sendPresence("update");
+            sendState(event.data.site_id);
+          }
+          break;
+
+        case "editor.sync":
+          if (event.data.target_site_id === store.siteId || event.data.target_site_id === SYNC_TARGET_ALL) {
+            store.mergeRemoteState(event.data.state);
+          }
+          break;
+      }
+    };
+
+    window.addEventListener("seenos:editor_event", handleEditorEvent as EventListener);
+    return () => {
+      window.removeEventListener("seenos:editor_event", handleEditorEvent as EventListener);
+    };
+  }, [enabled, sendPresence, sendState]);
+
+  return { isLive };
+}
+
+export default useCollaboration;
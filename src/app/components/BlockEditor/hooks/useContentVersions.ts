@@ -0,0 +1,45 @@
+"use client";
+
+import useSWR from "swr";
+import { apiClient, type ContentVersionSummary } from "@/lib/api/client";
+import { fromContentData } from "../contentData";
+
+const EMPTY_VERSIONS: ContentVersionSummary[] = [];
+
+/** Demo 内容只在本地保存，没有版本历史 */
+function hasVersionHistory(itemId: string | null): itemId is string {
+  return !!itemId && !itemId.startsWith("demo-");
+}
+
+/**
+ * 内容的版本历史（按版本号降序）
+ * contentVersion 变化（保存、发布、重新生成）时重新获取
+ */
+export function useContentVersions(itemId: string | null, contentVersion: number) {
+  const { data, error, isLoading } = useSWR(
+    hasVersionHistory(itemId) ? ["content-versions", itemId, contentVersion] : null,
+    () => apiClient.getContentVersions(itemId!),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    versions: data?.versions ?? EMPTY_VERSIONS,
+    isAvailable: hasVersionHistory(itemId),
+    error,
+    isLoading,
+  };
+}
+
+/** 某个版本的内容（版本内容不会变化，只获取一次） */
+export function useContentVersion(itemId: string | null, version: number | null) {
+  const { data, error, isLoading } = useSWR(
+    hasVersionHistory(itemId) && version !== null ? ["content-version", itemId, version] : null,
+    async () => {
+      const response = await apiClient.getContentVersion(itemId!, version!);
+      return fromContentData(response.structured_content);
+    },
+    { revalidateOnFocus: false, revalidateOnReconnect: false, revalidateIfStale: false }
+  );
+
+  return { content: data ?? null, error, isLoading };
+}
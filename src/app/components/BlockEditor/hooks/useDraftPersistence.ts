@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect } from "react";
+import { useEditorStore, type EditorState } from "../stores/editorStore";
+import { editorDrafts, type EditorDraft } from "../stores/drafts";
+
+// ============ 配置 ============
+
+/** 修改后写入本地草稿的防抖延迟 (ms) */
+const DRAFT_SAVE_DELAY = 1000;
+
+// ============ 辅助函数 ============
+
+/** 当前状态的草稿快照（没有未保存修改时为 null） */
+function createDraft(state: EditorState): EditorDraft | null {
+  const { itemId, content, originalContent, isDirty } = state;
+  if (!itemId || !content || !originalContent || !isDirty) return null;
+
+  return {
+    itemId,
+    baseVersion: state.contentVersion,
+    base: originalContent,
+    content,
+    history: state.history,
+    historyIndex: state.historyIndex,
+    savedAt: Date.now(),
+  };
+}
+
+// ============ Hook ============
+
+/**
+ * 本地草稿持久化 Hook
+ * - 有未保存修改时，防抖写入 IndexedDB（内容、基础版本和撤销历史）
+ * - 保存成功或放弃修改后删除草稿
+ * - 关闭编辑器、页面隐藏或卸载时立即写入尚未保存的草稿
+ */
+export function useDraftPersistence(): void {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let pending: EditorDraft | null = null;
+    // 写入和删除按顺序执行：保存成功后的删除不会被仍在进行的写入覆盖
+    let queue: Promise<void> = Promise.resolve();
+
+    const enqueue = (task: () => Promise<void>): Promise<void> => {
+      const run = queue.then(task);
+      queue = run.catch(() => undefined);
+      return run;
+    };
+
+    const write = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      const draft = pending;
+      pending = null;
+      if (!draft) return;
+
+      const isCurrent = () => useEditorStore.getState().itemId === draft.itemId;
+      if (isCurrent()) useEditorStore.setState({ draftStatus: "saving" });
+
+      enqueue(() => editorDrafts.save(draft))
+        .then(() => {
+          // 写入期间又有新的修改时保持 pending；已保存或放弃修改时保持 none
+          if (isCurrent() && useEditorStore.getState().isDirty && !pending) {
+            useEditorStore.setState({ draftStatus: "saved" });
+          }
+        })
+        .catch((error) => {
+          console.warn("[Drafts] Failed to save draft:", error);
+          if (isCurrent() && useEditorStore.getState().isDirty) useEditorStore.setState({ draftStatus: "error" });
+        });
+    };
+
+    const unsubscribe = useEditorStore.subscribe(
+      (state) =>
+        [
+          state.itemId,
+          state.content,
+          state.contentVersion,
+          state.historyIndex,
+          state.isDirty,
+          state.recoverableDraft,
+        ] as const,
+      ([itemId], [previousItemId]) => {
+        const state = useEditorStore.getState();
+
+        // 关闭或切换内容：立即写入上一个内容尚未保存的草稿
+        if (itemId !== previousItemId) {
+          write();
+        }
+
+        // 加载中或等待用户选择是否恢复草稿时，不覆盖已有草稿
+        if (!itemId || !state.content || state.isLoading || state.recoverableDraft) return;
+
+        if (!state.isDirty) {
+          pending = null;
+          if (timer) {
+            clearTimeout(timer);
+            timer = null;
+          }
+          if (state.draftStatus !== "none") {
+            useEditorStore.setState({ draftStatus: "none" });
+            void enqueue(() => editorDrafts.remove(itemId)).catch((error) => {
+              console.warn("[Drafts] Failed to remove draft:", error);
+            });
+          }
+          return;
+        }
+
+        pending = createDraft(state);
+        if (state.draftStatus !== "pending") useEditorStore.setState({ draftStatus: "pending" });
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(write, DRAFT_SAVE_DELAY);
+      },
+      {
+        equalityFn: (a, b) => a.length === b.length && a.every((value, index) => value === b[index]),
+      }
+    );
+
+    // 页面隐藏（切换标签页、关闭页面）时立即写入
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") write();
+    };
+    window.addEventListener("pagehide", write);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("pagehide", write);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      write();
+    };
+  }, []);
+}
+
+export default useDraftPersistence;
@@ -52,7 +52,6 @@ export function useEditorEffects({
     saveContent,
     undo,
     redo,
-    loadContent,
     refreshPreview,
   } = useEditorStore();
 
@@ -127,8 +126,8 @@ export function useEditorEffects({
     autoSaveTimerRef.current = setInterval(() => {
       const store = useEditorStore.getState();
       
-      // 只在有未保存更改且不在保存中时触发
-      if (store.isDirty && !store.isSaving) {
+      // 只在有未保存更改、不在保存中且没有待解决的冲突时触发
+      if (store.isDirty && !store.isSaving && !store.conflict) {
         // 避免过于频繁的保存（至少间隔 10 秒）
         const now = Date.now();
         if (now - lastSaveAttemptRef.current >= 10000) {
@@ -176,18 +175,8 @@ export function useEditorEffects({
     // 监听 content_saved 事件（来自其他会话的保存）
     const handleContentSaved = (e: CustomEvent<ContentSavedEventData>) => {
       if (e.detail.item_id === itemId) {
-        const store = useEditorStore.getState();
-        
-        // 如果远程版本更高，且本地没有未保存更改，则刷新内容
-        if (e.detail.content_version > store.contentVersion && !store.isDirty) {
-          console.log("[useEditorEffects] Remote content updated, reloading...");
-          loadContent(itemId);
-        } else if (e.detail.content_version > store.contentVersion && store.isDirty) {
-          // 如果有本地更改，显示警告
-          console.warn(
-            "[useEditorEffects] Remote content updated but local changes exist. Version conflict possible."
-          );
-        }
+        // 没有本地修改时刷新内容，否则保存时三方合并
+        useEditorStore.getState().handleRemoteSave(e.detail.content_version);
       }
     };
 
@@ -202,7 +191,7 @@ export function useEditorEffects({
         handleContentSaved as EventListener
       );
     };
-  }, [isEditorOpen, itemId, loadContent]);
+  }, [isEditorOpen, itemId]);
 
   // ============ 返回状态和方法 ============
 
@@ -79,6 +79,7 @@ export function useEditorSync(options: UseEditorSyncOptions = {}) {
     contentVersion,
     isDirty,
     isEditorOpen,
+    conflict,
     saveContent,
   } = useEditorStore();
 
@@ -143,8 +144,11 @@ export function useEditorSync(options: UseEditorSyncOptions = {}) {
         if (item_id !== storeItemId) return;
 
         if (update_type === "full" && full_html) {
+          const { content: currentContent } = useEditorStore.getState();
           useEditorStore.setState({
             previewHtml: full_html,
+            previewContent: currentContent ? JSON.parse(JSON.stringify(currentContent)) : null,
+            previewError: null,
             isPreviewLoading: false,
           });
         } else if (
@@ -177,11 +181,8 @@ export function useEditorSync(options: UseEditorSyncOptions = {}) {
 
         if (item_id !== storeItemId) return;
 
-        useEditorStore.setState({
-          contentVersion: content_version,
-          isDirty: false,
-          isSaving: false,
-        });
+        // 自己的保存已由保存响应更新版本号；更新的版本来自其他会话或 Agent 重新生成
+        useEditorStore.getState().handleRemoteSave(content_version);
         break;
       }
     }
@@ -191,7 +192,8 @@ export function useEditorSync(options: UseEditorSyncOptions = {}) {
    * 自动保存逻辑
    */
   useEffect(() => {
-    if (!enableAutoSave || !isEditorOpen || !isDirty) return;
+    // 有待解决的冲突时暂停自动保存
+    if (!enableAutoSave || !isEditorOpen || !isDirty || conflict) return;
 
     // 清除之前的定时器
     if (autoSaveDebounceRef.current) {
@@ -208,7 +210,7 @@ export function useEditorSync(options: UseEditorSyncOptions = {}) {
         clearTimeout(autoSaveDebounceRef.current);
       }
     };
-  }, [enableAutoSave, isEditorOpen, isDirty, content, saveContent]);
+  }, [enableAutoSave, isEditorOpen, isDirty, conflict, content, saveContent]);
 
   /**
    * 内容变化时请求预览更新
@@ -0,0 +1,36 @@
+"use client";
+
+import { useMemo } from "react";
+import { useEditorStore } from "../stores/editorStore";
+import {
+  getPreviewDivergence,
+  renderContentPreview,
+  type ContentPreviewRender,
+  type PreviewDivergence,
+} from "../render";
+
+export interface UseInstantPreviewReturn {
+  /** 当前内容的客户端渲染（没有内容时为 null） */
+  render: ContentPreviewRender | null;
+  /** 与最终渲染（后端）的差异；一致或还没有最终渲染时为 null */
+  divergence: PreviewDivergence | null;
+}
+
+/**
+ * 即时预览 Hook
+ * 内容变化时在客户端重新渲染（不请求后端），并与最终渲染对应的内容快照比较
+ */
+export function useInstantPreview(): UseInstantPreviewReturn {
+  const content = useEditorStore((state) => state.content);
+  const previewContent = useEditorStore((state) => state.previewContent);
+
+  const render = useMemo(() => (content ? renderContentPreview(content) : null), [content]);
+  const divergence = useMemo(
+    () => (content && previewContent ? getPreviewDivergence(content, previewContent) : null),
+    [content, previewContent]
+  );
+
+  return { render, divergence };
+}
+
+export default useInstantPreview;
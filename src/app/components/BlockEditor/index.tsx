@@ -6,10 +6,16 @@
  * - BlockList: 可拖拽的 Block 列表
  * - BlockItem: 单个 Block 渲染
  * - PropertyPanel: 属性编辑面板
- * - PreviewPanel: HTML 实时预览
+ * - PreviewPanel: HTML 实时预览（客户端即时渲染 + 后端最终渲染）
+ * - CollaboratorAvatars / RemoteCursors: 协同编辑的在线状态和远程光标
+ * - MergeConflictDialog: 保存时版本冲突的三方合并
+ * - VersionHistoryDrawer / VersionDiffView: 版本历史、按 Block 对比和恢复
+ * - SaveStatus / DraftRecoveryBanner: 保存状态和本地草稿恢复
  * 
  * 状态管理:
  * - useEditorStore: Zustand store
+ *
+ * 非组件的 hooks 和工具函数见 core.ts
  */
 
 // 主组件
@@ -19,6 +25,13 @@ export { BlockItem } from './BlockItem';
 export { PropertyPanel } from './PropertyPanel';
 export { PreviewPanel } from './PreviewPanel';
 export { BlockTypeMenu } from './BlockTypeMenu';
+export { CollaboratorAvatar, CollaboratorAvatars } from './CollaboratorAvatars';
+export { RemoteCursors } from './RemoteCursors';
+export { MergeConflictDialog } from './MergeConflictDialog';
+export { VersionHistoryDrawer } from './VersionHistoryDrawer';
+export { VersionDiffView, type RestoreSource } from './VersionDiffView';
+export { SaveStatus } from './SaveStatus';
+export { DraftRecoveryBanner } from './DraftRecoveryBanner';
 
 // Store
 export { 
@@ -32,6 +45,10 @@ export {
   type EditorStore,
   type EditorMode,
   type DeviceType,
+  type PreviewMode,
+  type LocalCursor,
+  type ContentConflict,
+  type DraftStatus,
 } from './stores/editorStore';
 
 // Hooks
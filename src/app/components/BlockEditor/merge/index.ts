@@ -0,0 +1,14 @@
+/**
+ * 版本冲突时的三方合并
+ *
+ * 用法:
+ * import { mergeContent, resolveContentMerge } from './merge';
+ */
+
+export {
+  mergeContent,
+  resolveContentMerge,
+  type MergeSide,
+  type BlockConflict,
+  type ContentMerge,
+} from './threeWay';
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import type { ContentBlock, StructuredContent, TextSectionBlock } from '../types';
+import { mergeContent, resolveContentMerge } from './threeWay';
+
+// ============ 测试数据 ============
+
+function section(id: string, order: number, fields: Partial<Omit<TextSectionBlock, 'meta'>> = {}): TextSectionBlock {
+  return {
+    meta: { id, type: 'text_section', order },
+    heading: `Heading ${id}`,
+    content: `Content ${id}`,
+    ...fields,
+  };
+}
+
+function content(blocks: ContentBlock[], title = 'Page'): StructuredContent {
+  return {
+    page_type: 'blog',
+    meta: { title },
+    global_settings: {},
+    blocks,
+  };
+}
+
+function ids(value: StructuredContent): string[] {
+  return value.blocks.map((block) => block.meta.id);
+}
+
+const base = content([section('a', 0), section('b', 1), section('c', 2)]);
+
+// ============ 测试 ============
+
+describe('mergeContent', () => {
+  it('adopts changes made by only one side', () => {
+    const mine = content([section('a', 0, { heading: 'Mine' }), section('b', 1), section('c', 2)]);
+    const theirs = content([section('a', 0), section('b', 1, { content: 'Theirs' }), section('c', 2)]);
+
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.resolved.a).toMatchObject({ heading: 'Mine' });
+    expect(merge.resolved.b).toMatchObject({ content: 'Theirs' });
+  });
+
+  it('merges different fields changed by both sides', () => {
+    const mine = content([section('a', 0, { heading: 'Mine' }), section('b', 1), section('c', 2)]);
+    const theirs = content([section('a', 0, { content: 'Theirs' }), section('b', 1), section('c', 2)]);
+
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.resolved.a).toMatchObject({ heading: 'Mine', content: 'Theirs' });
+  });
+
+  it('merges a field removed by one side', () => {
+    const withImage = content([section('a', 0, { image_url: 'a.png' }), section('b', 1), section('c', 2)]);
+    const mine = content([section('a', 0, { heading: 'Mine', image_url: 'a.png' }), section('b', 1), section('c', 2)]);
+    const theirs = content([section('a', 0), section('b', 1), section('c', 2)]);
+
+    const merge = mergeContent(withImage, mine, theirs);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.resolved.a).toMatchObject({ heading: 'Mine' });
+    expect(merge.resolved.a).not.toHaveProperty('image_url');
+  });
+
+  it('reports a conflict when both sides change the same field', () => {
+    const mine = content([section('a', 0, { heading: 'Mine', content: 'Both' }), section('b', 1), section('c', 2)]);
+    const theirs = content([section('a', 0, { heading: 'Theirs', content: 'Both' }), section('b', 1), section('c', 2)]);
+
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(merge.conflicts).toHaveLength(1);
+    expect(merge.conflicts[0]).toMatchObject({
+      blockId: 'a',
+      type: 'text_section',
+      fields: ['heading'],
+      base: { heading: 'Heading a' },
+      mine: { heading: 'Mine' },
+      theirs: { heading: 'Theirs' },
+    });
+    expect(merge.resolved).not.toHaveProperty('a');
+  });
+
+  it('does not report a conflict when both sides make the same change', () => {
+    const mine = content([section('a', 0, { heading: 'Same' }), section('b', 1), section('c', 2)]);
+    const theirs = content([section('a', 0, { heading: 'Same' }), section('b', 1), section('c', 2)]);
+
+    expect(mergeContent(base, mine, theirs).conflicts).toEqual([]);
+  });
+
+  it('ignores block order and edit time in meta', () => {
+    const mine = content([section('b', 0), section('a', 1), section('c', 2)]);
+    const edited = section('a', 0);
+    edited.meta.last_edited_at = '2024-01-01T00:00:00Z';
+    const theirs = content([edited, section('b', 1), section('c', 2)]);
+
+    expect(mergeContent(base, mine, theirs).conflicts).toEqual([]);
+  });
+
+  it('reports delete-vs-modify as a conflict without fields', () => {
+    const mine = content([section('a', 0), section('c', 1)]);
+    const theirs = content([section('a', 0), section('b', 1, { heading: 'Theirs' }), section('c', 2)]);
+
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(merge.conflicts).toHaveLength(1);
+    expect(merge.conflicts[0]).toMatchObject({ blockId: 'b', mine: null, theirs: { heading: 'Theirs' }, fields: [] });
+  });
+
+  it('drops a block deleted by one side and unchanged by the other', () => {
+    const mine = content([section('a', 0), section('c', 1)]);
+    const theirs = content([section('a', 0), section('b', 1), section('c', 2)]);
+
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.resolved.b).toBeNull();
+    expect(ids(resolveContentMerge(merge))).toEqual(['a', 'c']);
+  });
+
+  it('keeps blocks added by either side after their previous block', () => {
+    const mine = content([section('a', 0), section('m', 1), section('b', 2), section('c', 3)]);
+    const theirs = content([section('a', 0), section('b', 1), section('c', 2), section('t', 3)]);
+
+    expect(mergeContent(base, mine, theirs).order).toEqual(['a', 'm', 'b', 'c', 't']);
+  });
+
+  it('uses my order only when the server did not reorder', () => {
+    const reordered = content([section('c', 0), section('a', 1), section('b', 2)]);
+    const serverReordered = content([section('b', 0), section('a', 1), section('c', 2)]);
+
+    expect(mergeContent(base, reordered, base).order).toEqual(['c', 'a', 'b']);
+    expect(mergeContent(base, reordered, serverReordered).order).toEqual(['b', 'a', 'c']);
+  });
+
+  it('takes page fields changed by either side and prefers the server on conflict', () => {
+    const mine = { ...content(base.blocks, 'Mine'), global_settings: { show_toc: true } };
+    const theirs = content(base.blocks, 'Theirs');
+
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(merge.page.meta.title).toBe('Theirs');
+    expect(merge.page.global_settings).toEqual({ show_toc: true });
+    expect(merge.page).not.toHaveProperty('blocks');
+  });
+});
+
+describe('resolveContentMerge', () => {
+  const mine = content([section('a', 0, { heading: 'Mine' }), section('b', 1), section('c', 2)]);
+  const theirs = content([section('a', 0, { heading: 'Theirs' }), section('b', 1), section('c', 2, { content: 'Theirs' })]);
+
+  it('keeps my version of conflicting blocks by default', () => {
+    const resolved = resolveContentMerge(mergeContent(base, mine, theirs));
+
+    expect(resolved.blocks[0]).toMatchObject({ heading: 'Mine' });
+    expect(resolved.blocks[2]).toMatchObject({ content: 'Theirs' });
+  });
+
+  it('applies the chosen side for each conflict', () => {
+    const merge = mergeContent(base, mine, theirs);
+
+    expect(resolveContentMerge(merge, { a: 'theirs' }).blocks[0]).toMatchObject({ heading: 'Theirs' });
+    expect(resolveContentMerge(merge, { a: 'base' }).blocks[0]).toMatchObject({ heading: 'Heading a' });
+  });
+
+  it('removes a conflicting block when the chosen side deleted it', () => {
+    const deleted = content([section('a', 0), section('c', 1)]);
+    const modified = content([section('a', 0), section('b', 1, { heading: 'Theirs' }), section('c', 2)]);
+    const merge = mergeContent(base, deleted, modified);
+
+    expect(ids(resolveContentMerge(merge, { b: 'mine' }))).toEqual(['a', 'c']);
+    expect(ids(resolveContentMerge(merge, { b: 'theirs' }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('renumbers meta.order and keeps page fields', () => {
+    const added = content([section('a', 0), section('n', 1), section('b', 2), section('c', 3)]);
+    const removed = content([section('b', 0), section('c', 1)], 'Theirs');
+
+    const resolved = resolveContentMerge(mergeContent(base, added, removed));
+
+    expect(resolved.blocks.map((block) => [block.meta.id, block.meta.order])).toEqual([
+      ['n', 0],
+      ['b', 1],
+      ['c', 2],
+    ]);
+    expect(resolved.meta.title).toBe('Theirs');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * 结构化内容的三方合并
+ *
+ * 保存时版本冲突（服务器上的内容已被 Agent 重新生成或其他会话修改），
+ * 以上次加载/保存的内容为基础版本，逐个 Block 比较自己的修改和服务器上的修改：
+ * 只有一方修改的直接采用，双方修改了不同字段的按字段合并，
+ * 双方修改同一字段（或一方删除、另一方修改）的 Block 作为冲突交给用户选择
+ */
+
+import { getBlockField, getFieldNames, getPageField, setBlockField, setPageField, type PageData } from '../blockFields';
+import { isSameFieldValue } from '../collab';
+import type { BlockType, ContentBlock, StructuredContent } from '../types';
+
+// ============ 类型定义 ============
+
+/** 冲突 Block 采用的版本 */
+export type MergeSide = 'mine' | 'theirs' | 'base';
+
+/** 冲突 Block（某一方不存在时为 null） */
+export interface BlockConflict {
+  blockId: string;
+  type: BlockType;
+  base: ContentBlock | null;
+  mine: ContentBlock | null;
+  theirs: ContentBlock | null;
+  /** 双方都修改且值不同的字段（一方删除时为空） */
+  fields: string[];
+}
+
+/** 三方合并结果 */
+export interface ContentMerge {
+  /** 合并后的页面级字段 */
+  page: PageData;
+  /** 合并后的 Block 顺序（包含冲突 Block） */
+  order: string[];
+  /** 自动合并的 Block，按 ID 索引（合并结果为删除时为 null） */
+  resolved: Record<string, ContentBlock | null>;
+  conflicts: BlockConflict[];
+}
+
+type BlockMergeResult =
+  | { block: ContentBlock | null; fields?: undefined }
+  | { block?: undefined; fields: string[] };
+
+// ============ 辅助函数 ============
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function indexBlocks(content: StructuredContent): Map<string, ContentBlock> {
+  return new Map(content.blocks.map((block) => [block.meta.id, block]));
+}
+
+function isSameBlock(a: ContentBlock | null, b: ContentBlock | null): boolean {
+  if (!a || !b) return a === b;
+  return getFieldNames(a, b).every((field) => isSameFieldValue(field, getBlockField(a, field), getBlockField(b, field)));
+}
+
+/** 单个值的三方合并：conflict 为 true 表示双方修改且值不同 */
+function mergeValue(
+  field: string,
+  base: unknown,
+  mine: unknown,
+  theirs: unknown
+): { value: unknown; conflict: boolean } {
+  if (isSameFieldValue(field, mine, theirs)) return { value: mine, conflict: false };
+  if (isSameFieldValue(field, mine, base)) return { value: theirs, conflict: false };
+  if (isSameFieldValue(field, theirs, base)) return { value: mine, conflict: false };
+  return { value: mine, conflict: true };
+}
+
+/** 单个 Block 的三方合并：先整体比较，双方都修改时再按字段合并 */
+function mergeBlock(
+  base: ContentBlock | null,
+  mine: ContentBlock | null,
+  theirs: ContentBlock | null
+): BlockMergeResult {
+  if (isSameBlock(mine, theirs)) return { block: mine };
+  if (isSameBlock(mine, base)) return { block: theirs };
+  if (isSameBlock(theirs, base)) return { block: mine };
+
+  // 一方删除、另一方修改
+  if (!mine || !theirs) return { fields: [] };
+
+  let merged = mine;
+  const conflicts: string[] = [];
+
+  for (const field of getFieldNames(base, mine, theirs)) {
+    const { value, conflict } = mergeValue(
+      field,
+      base ? getBlockField(base, field) : undefined,
+      getBlockField(mine, field),
+      getBlockField(theirs, field)
+    );
+    if (conflict) conflicts.push(field);
+    merged = setBlockField(merged, field, value);
+  }
+
+  return conflicts.length > 0 ? { fields: conflicts } : { block: merged };
+}
+
+/** 一方相对基础版本是否调整了 Block 顺序（只比较双方都存在的 Block） */
+function isReordered(baseIds: string[], sideIds: string[]): boolean {
+  const sideSet = new Set(sideIds);
+  const baseSet = new Set(baseIds);
+  const baseShared = baseIds.filter((id) => sideSet.has(id));
+  const sideShared = sideIds.filter((id) => baseSet.has(id));
+  return baseShared.some((id, index) => id !== sideShared[index]);
+}
+
+/**
+ * 合并 Block 顺序
+ * 只有自己调整了顺序时以自己的顺序为准，否则以服务器的顺序为准；
+ * 另一方独有的 Block 放在它在另一方中的前一个 Block 之后
+ */
+function mergeOrder(baseIds: string[], mineIds: string[], theirsIds: string[]): string[] {
+  const useMine = isReordered(baseIds, mineIds) && !isReordered(baseIds, theirsIds);
+  const primary = useMine ? mineIds : theirsIds;
+  const secondary = useMine ? theirsIds : mineIds;
+
+  const order = [...primary];
+  secondary.forEach((id, index) => {
+    if (order.includes(id)) return;
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const previous = order.indexOf(secondary[i]);
+      if (previous !== -1) {
+        at = previous + 1;
+        break;
+      }
+    }
+    order.splice(at, 0, id);
+  });
+  return order;
+}
+
+// ============ 合并 ============
+
+/**
+ * 三方合并结构化内容
+ * @param base 上次加载/保存时的内容（保存时提交的基础版本）
+ * @param mine 本地编辑后的内容
+ * @param theirs 服务器上的最新内容
+ */
+export function mergeContent(
+  base: StructuredContent,
+  mine: StructuredContent,
+  theirs: StructuredContent
+): ContentMerge {
+  // 页面级字段：编辑器不修改这些字段，双方都变化时以服务器为准
+  const { blocks: _theirsBlocks, ...theirsPage } = theirs;
+  let page: PageData = theirsPage;
+  for (const field of getFieldNames(base, mine, theirs)) {
+    if (field === 'blocks') continue;
+    const theirsValue = getPageField(theirs, field);
+    const { value, conflict } = mergeValue(field, getPageField(base, field), getPageField(mine, field), theirsValue);
+    page = setPageField(page, field, clone(conflict ? theirsValue : value));
+  }
+
+  const baseBlocks = indexBlocks(base);
+  const mineBlocks = indexBlocks(mine);
+  const theirsBlocks = indexBlocks(theirs);
+
+  const order = mergeOrder(
+    base.blocks.map((block) => block.meta.id),
+    mine.blocks.map((block) => block.meta.id),
+    theirs.blocks.map((block) => block.meta.id)
+  );
+
+  const resolved: Record<string, ContentBlock | null> = {};
+  const conflicts: BlockConflict[] = [];
+
+  for (const id of order) {
+    const baseBlock = baseBlocks.get(id) ?? null;
+    const mineBlock = mineBlocks.get(id) ?? null;
+    const theirsBlock = theirsBlocks.get(id) ?? null;
+    const result = mergeBlock(baseBlock, mineBlock, theirsBlock);
+
+    if (result.fields) {
+      conflicts.push({
+        blockId: id,
+        type: (mineBlock ?? theirsBlock ?? baseBlock)!.meta.type,
+        base: clone(baseBlock),
+        mine: clone(mineBlock),
+        theirs: clone(theirsBlock),
+        fields: result.fields,
+      });
+    } else {
+      resolved[id] = clone(result.block);
+    }
+  }
+
+  return {
+    page,
+    order,
+    resolved,
+    conflicts,
+  };
+}
+
+/**
+ * 按用户的选择解决冲突，得到合并后的内容
+ * @param resolutions 冲突 Block 采用的版本（未指定时保留自己的版本）
+ */
+export function resolveContentMerge(
+  merge: ContentMerge,
+  resolutions: Record<string, MergeSide> = {}
+): StructuredContent {
+  const conflicts = new Map(merge.conflicts.map((conflict) => [conflict.blockId, conflict]));
+  const blocks: ContentBlock[] = [];
+
+  for (const id of merge.order) {
+    const conflict = conflicts.get(id);
+    const block = conflict ? conflict[resolutions[id] ?? 'mine'] : merge.resolved[id];
+    if (!block) continue;
+    blocks.push({ ...clone(block), meta: { ...block.meta, order: blocks.length } } as ContentBlock);
+  }
+
+  return { ...clone(merge.page), blocks } as StructuredContent;
+}
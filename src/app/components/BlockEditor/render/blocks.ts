@@ -0,0 +1,329 @@
+/**
+ * 预览渲染 - 单个 Block
+ *
+ * 每个 Block 渲染为一个带 data-block-id 的根元素，预览面板据此只替换有变化的 Block。
+ * 输出只取决于 Block 数据和渲染上下文（页面类型、排名），相同输入得到相同 HTML
+ */
+
+import type {
+  BlockType,
+  BlogSectionBlock,
+  ComparisonRowBlock,
+  ConclusionBlock,
+  ContentBlock,
+  CTABlock,
+  FAQBlock,
+  FeatureBlock,
+  HeroBlock,
+  ImageBlock,
+  IntroBlock,
+  PageType,
+  PricingBlock,
+  ProductCardBlock,
+  QuoteBlock,
+  StepBlock,
+  TestimonialBlock,
+  TextSectionBlock,
+  VideoBlock,
+} from '../types';
+import { escapeHtml, renderInlineMarkdown, renderMarkdown, sanitizeUrl } from './markdown';
+
+// ============ 类型定义 ============
+
+/** Block 渲染上下文 */
+export interface BlockRenderContext {
+  pageType: PageType;
+  /** 在同类 Block 中的序号（从 1 开始，Listicle 的产品排名等） */
+  rank?: number;
+  /** 对比表的列（Comparison 页面中产品名称） */
+  comparisonColumns?: string[];
+  /** 页面级标记（Listicle 的 best_overall / best_value，Comparison 的 winner），按产品名称 */
+  highlights?: Record<string, string>;
+}
+
+// ============ 辅助函数 ============
+
+/** Block 根元素的公共属性 */
+function blockAttrs(block: ContentBlock, extraClass = ''): string {
+  const className = ['block', `block-${block.meta.type.replace(/_/g, '-')}`, extraClass].filter(Boolean).join(' ');
+  const id = escapeHtml(block.meta.id);
+  return `id="block-${id}" class="${className}" data-block-id="${id}" data-block-type="${block.meta.type}"`;
+}
+
+function image(url: string | undefined, alt: string, className = ''): string {
+  if (!url) return '';
+  const classAttr = className ? ` class="${className}"` : '';
+  return `<img${classAttr} src="${escapeHtml(sanitizeUrl(url))}" alt="${escapeHtml(alt)}" loading="lazy">`;
+}
+
+function button(text: string | undefined, url: string | undefined, variant = 'primary'): string {
+  if (!text) return '';
+  return `<a class="button button-${variant}" href="${escapeHtml(sanitizeUrl(url))}">${escapeHtml(text)}</a>`;
+}
+
+function list(items: string[] | undefined, className = ''): string {
+  const filled = (items ?? []).filter((item) => item.trim());
+  if (filled.length === 0) return '';
+  const classAttr = className ? ` class="${className}"` : '';
+  return `<ul${classAttr}>${filled.map((item) => `<li>${renderInlineMarkdown(item)}</li>`).join('')}</ul>`;
+}
+
+/** 评分（0-5，保留一位小数） */
+function rating(value: number | undefined): string {
+  if (value === undefined || value === null || Number.isNaN(value)) return '';
+  const clamped = Math.max(0, Math.min(5, value));
+  const full = Math.round(clamped);
+  return `<span class="rating" aria-label="Rated ${clamped.toFixed(1)} out of 5">${'★'.repeat(full)}${'☆'.repeat(5 - full)} <span class="rating-value">${clamped.toFixed(1)}</span></span>`;
+}
+
+/** 视频地址转换为嵌入地址（YouTube / Vimeo），无法识别时返回 null */
+function getEmbedUrl(url: string, provider: VideoBlock['provider']): string | null {
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?v=|embed\/)|youtu\.be\/)([\w-]{6,})/);
+  if (youtube && provider !== 'vimeo' && provider !== 'custom') return `https://www.youtube.com/embed/${youtube[1]}`;
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeo && provider !== 'youtube' && provider !== 'custom') return `https://player.vimeo.com/video/${vimeo[1]}`;
+  return null;
+}
+
+// ============ 各类型 Block ============
+
+function renderIntro(block: IntroBlock): string {
+  return `<section ${blockAttrs(block)}>
+${block.hook ? `<p class="intro-hook">${renderInlineMarkdown(block.hook)}</p>` : ''}
+${block.headline ? `<h2>${escapeHtml(block.headline)}</h2>` : ''}
+${image(block.image_url, block.headline ?? '', 'block-image')}
+<div class="prose">${renderMarkdown(block.content)}</div>
+</section>`;
+}
+
+function renderProductCard(block: ProductCardBlock, context: BlockRenderContext): string {
+  const highlight = context.highlights?.[block.name];
+  const badge = block.award_badge ?? highlight;
+  const showRank = context.pageType === 'listicle' && context.rank !== undefined;
+  return `<article ${blockAttrs(block, highlight ? 'is-highlighted' : '')}>
+<header class="product-header">
+${showRank ? `<span class="product-rank">#${context.rank}</span>` : ''}
+<div class="product-title">
+${badge ? `<span class="badge">${escapeHtml(badge)}</span>` : ''}
+<h2>${escapeHtml(block.name)}</h2>
+${block.tagline ? `<p class="muted">${escapeHtml(block.tagline)}</p>` : ''}
+</div>
+<div class="product-summary">
+${rating(block.rating)}
+${block.price ? `<span class="product-price">${escapeHtml(block.price)}</span>` : ''}
+</div>
+</header>
+${image(block.image_url, block.name, 'block-image')}
+<div class="prose">${renderMarkdown(block.description)}</div>
+${block.best_for ? `<p class="product-best-for"><strong>Best for:</strong> ${escapeHtml(block.best_for)}</p>` : ''}
+${
+  block.pros?.length || block.cons?.length
+    ? `<div class="pros-cons">
+<div class="pros"><h3>Pros</h3>${list(block.pros)}</div>
+<div class="cons"><h3>Cons</h3>${list(block.cons)}</div>
+</div>`
+    : ''
+}
+${button(block.cta_text || `Visit ${block.name}`, block.cta_url)}
+</article>`;
+}
+
+function renderComparisonRow(block: ComparisonRowBlock, context: BlockRenderContext): string {
+  const columns = context.comparisonColumns ?? Object.keys(block.values ?? {});
+  const cells = columns.map((column) => {
+    const value = block.values?.[column];
+    const text =
+      value === true ? '<span class="yes">✓</span>'
+      : value === false ? '<span class="no">✗</span>'
+      : value === undefined || value === '' ? '<span class="muted">—</span>'
+      : escapeHtml(value);
+    return `<td>${text}</td>`;
+  });
+  return `<tr ${blockAttrs(block)}><th scope="row">${escapeHtml(block.feature)}</th>${cells.join('')}</tr>`;
+}
+
+function renderStep(block: StepBlock): string {
+  return `<section ${blockAttrs(block)}>
+<header class="step-header">
+<span class="step-number">${escapeHtml(block.step_number)}</span>
+<h2>${escapeHtml(block.title)}</h2>
+${block.estimated_time ? `<span class="muted">${escapeHtml(block.estimated_time)}</span>` : ''}
+</header>
+${image(block.image_url, block.title, 'block-image')}
+<div class="prose">${renderMarkdown(block.instructions)}</div>
+${list(block.checklist, 'checklist')}
+${block.pro_tip ? `<aside class="callout callout-tip"><strong>Pro tip:</strong> ${renderInlineMarkdown(block.pro_tip)}</aside>` : ''}
+${block.warning ? `<aside class="callout callout-warning"><strong>Warning:</strong> ${renderInlineMarkdown(block.warning)}</aside>` : ''}
+</section>`;
+}
+
+function renderFeature(block: FeatureBlock): string {
+  return `<div ${blockAttrs(block)}>
+${block.icon ? `<span class="feature-icon">${escapeHtml(block.icon)}</span>` : ''}
+${image(block.image_url, block.title, 'block-image')}
+<h3>${escapeHtml(block.title)}</h3>
+<p>${renderInlineMarkdown(block.description)}</p>
+</div>`;
+}
+
+function renderTextSection(block: TextSectionBlock): string {
+  const position = block.image_url ? block.image_position ?? 'top' : null;
+  const img = image(block.image_url, block.heading ?? '', 'block-image');
+  const body = `<div class="prose">${renderMarkdown(block.content)}</div>`;
+  return `<section ${blockAttrs(block, position ? `image-${position}` : '')}>
+${block.heading ? `<h2>${escapeHtml(block.heading)}</h2>` : ''}
+${position === 'left' || position === 'right'
+  ? `<div class="media-row">${position === 'left' ? img + body : body + img}</div>`
+  : position === 'bottom' ? body + img : img + body}
+</section>`;
+}
+
+function renderBlogSection(block: BlogSectionBlock): string {
+  return `<section ${blockAttrs(block)}>
+<h2>${escapeHtml(block.heading)}</h2>
+<div class="prose">${renderMarkdown(block.content)}</div>
+${block.key_points?.length ? `<aside class="callout"><strong>Key points</strong>${list(block.key_points)}</aside>` : ''}
+</section>`;
+}
+
+function renderConclusion(block: ConclusionBlock): string {
+  return `<section ${blockAttrs(block)}>
+<h2>Conclusion</h2>
+<div class="prose">${renderMarkdown(block.summary)}</div>
+${block.final_recommendation ? `<p class="recommendation">${renderInlineMarkdown(block.final_recommendation)}</p>` : ''}
+${button(block.cta_text, block.cta_url)}
+</section>`;
+}
+
+function renderHero(block: HeroBlock): string {
+  const background = block.background_image
+    ? ` style="background-image: url('${escapeHtml(sanitizeUrl(block.background_image))}')"`
+    : '';
+  return `<section ${blockAttrs(block, block.background_image ? 'has-background' : '')}${background}>
+<h1>${escapeHtml(block.headline)}</h1>
+${block.subheadline ? `<p class="hero-subheadline">${escapeHtml(block.subheadline)}</p>` : ''}
+${button(block.cta_text, block.cta_url)}
+</section>`;
+}
+
+function renderQuote(block: QuoteBlock | TestimonialBlock): string {
+  const attribution = [block.title, block.company].filter(Boolean).join(', ');
+  const testimonialRating = block.meta.type === 'testimonial' ? rating((block as TestimonialBlock).rating) : '';
+  return `<figure ${blockAttrs(block)}>
+${testimonialRating}
+<blockquote>${renderInlineMarkdown(block.quote)}</blockquote>
+${
+  block.author
+    ? `<figcaption>${image(block.avatar_url, block.author, 'avatar')}<span><strong>${escapeHtml(block.author)}</strong>${attribution ? `<span class="muted">${escapeHtml(attribution)}</span>` : ''}</span></figcaption>`
+    : ''
+}
+</figure>`;
+}
+
+function renderImage(block: ImageBlock): string {
+  if (!block.url) {
+    return `<figure ${blockAttrs(block, 'is-empty')}><div class="placeholder">No image selected</div></figure>`;
+  }
+  const size = [
+    block.width ? ` width="${escapeHtml(block.width)}"` : '',
+    block.height ? ` height="${escapeHtml(block.height)}"` : '',
+  ].join('');
+  return `<figure ${blockAttrs(block)}>
+<img src="${escapeHtml(sanitizeUrl(block.url))}" alt="${escapeHtml(block.alt)}"${size} loading="lazy">
+${block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : ''}
+</figure>`;
+}
+
+function renderVideo(block: VideoBlock): string {
+  if (!block.url) {
+    return `<figure ${blockAttrs(block, 'is-empty')}><div class="placeholder">No video selected</div></figure>`;
+  }
+  const embedUrl = getEmbedUrl(block.url, block.provider);
+  const title = escapeHtml(block.title ?? 'Video');
+  const player = embedUrl
+    ? `<div class="video-frame"><iframe src="${escapeHtml(embedUrl)}" title="${title}" allowfullscreen loading="lazy"></iframe></div>`
+    : `<video src="${escapeHtml(sanitizeUrl(block.url))}" controls${block.thumbnail_url ? ` poster="${escapeHtml(sanitizeUrl(block.thumbnail_url))}"` : ''}></video>`;
+  return `<figure ${blockAttrs(block)}>
+${player}
+${block.title ? `<figcaption>${title}</figcaption>` : ''}
+</figure>`;
+}
+
+function renderCTA(block: CTABlock): string {
+  const style = block.style ?? 'primary';
+  return `<section ${blockAttrs(block, `cta-${style}`)}>
+<h2>${escapeHtml(block.headline)}</h2>
+${block.description ? `<p>${renderInlineMarkdown(block.description)}</p>` : ''}
+${button(block.button_text, block.button_url, style === 'primary' ? 'inverse' : 'primary')}
+</section>`;
+}
+
+function renderPricing(block: PricingBlock): string {
+  return `<div ${blockAttrs(block, block.is_popular ? 'is-highlighted' : '')}>
+${block.is_popular ? '<span class="badge">Most popular</span>' : ''}
+<h3>${escapeHtml(block.plan_name)}</h3>
+<p class="pricing-price">${escapeHtml(block.price)}${block.billing_period ? `<span class="muted"> / ${escapeHtml(block.billing_period)}</span>` : ''}</p>
+${list(block.features, 'checklist')}
+${button(block.cta_text, block.cta_url)}
+</div>`;
+}
+
+function renderFAQ(block: FAQBlock): string {
+  return `<details ${blockAttrs(block)} open>
+<summary>${escapeHtml(block.question)}</summary>
+<div class="prose">${renderMarkdown(block.answer)}</div>
+</details>`;
+}
+
+// ============ 入口 ============
+
+/** 渲染单个 Block */
+export function renderBlock(block: ContentBlock, context: BlockRenderContext): string {
+  switch (block.meta.type) {
+    case 'intro':
+      return renderIntro(block as IntroBlock);
+    case 'product_card':
+      return renderProductCard(block as ProductCardBlock, context);
+    case 'comparison_row':
+      return renderComparisonRow(block as ComparisonRowBlock, context);
+    case 'step':
+      return renderStep(block as StepBlock);
+    case 'feature':
+      return renderFeature(block as FeatureBlock);
+    case 'text_section':
+      return renderTextSection(block as TextSectionBlock);
+    case 'blog_section':
+      return renderBlogSection(block as BlogSectionBlock);
+    case 'conclusion':
+      return renderConclusion(block as ConclusionBlock);
+    case 'image':
+      return renderImage(block as ImageBlock);
+    case 'video':
+      return renderVideo(block as VideoBlock);
+    case 'quote':
+    case 'testimonial':
+      return renderQuote(block as QuoteBlock | TestimonialBlock);
+    case 'call_to_action':
+      return renderCTA(block as CTABlock);
+    case 'hero':
+      return renderHero(block as HeroBlock);
+    case 'pricing':
+      return renderPricing(block as PricingBlock);
+    case 'faq':
+      return renderFAQ(block as FAQBlock);
+    default: {
+      // 未知类型（后端新增的 Block）显示占位
+      const unknownBlock = block as ContentBlock;
+      return `<div ${blockAttrs(unknownBlock, 'is-unknown')}><div class="placeholder">Unsupported block: ${escapeHtml(unknownBlock.meta.type)}</div></div>`;
+    }
+  }
+}
+
+/** 连续出现时合并到同一容器中渲染的 Block 类型（网格 / 表格） */
+export const GROUPED_BLOCK_TYPES: Partial<Record<BlockType, string>> = {
+  feature: 'feature-grid',
+  pricing: 'pricing-grid',
+  testimonial: 'testimonial-grid',
+  comparison_row: 'comparison-table',
+  faq: 'faq-list',
+};
@@ -0,0 +1,60 @@
+/**
+ * 预览渲染 - 即时预览与最终渲染的差异
+ *
+ * 后端渲染对应请求时的内容快照；之后的编辑只体现在即时预览中。
+ * 比较当前内容和快照，找出最终渲染中还没有体现的 Block 和页面设置
+ */
+
+import type { StructuredContent } from '../types';
+import { getRenderableBlocks } from './page';
+
+/** 最终渲染与当前内容的差异 */
+export interface PreviewDivergence {
+  /** 页面元数据、全局设置或页面类型不同 */
+  pageChanged: boolean;
+  /** 新增或修改过的 Block */
+  changedBlockIds: string[];
+  /** 删除的 Block 数量 */
+  removedCount: number;
+  /** Block 顺序不同 */
+  reordered: boolean;
+}
+
+/** 不含 Block 数据的页面部分（用于比较页面设置） */
+function getPageKey(content: StructuredContent): string {
+  const page: Partial<StructuredContent> = { ...content };
+  delete page.blocks;
+  delete page.intro;
+  delete page.conclusion;
+  return JSON.stringify(page);
+}
+
+/**
+ * 计算差异；rendered 为最终渲染对应的内容快照，没有差异时返回 null
+ * last_edited_at 不影响渲染结果、order 的变化由 reordered 表示，比较时忽略
+ */
+export function getPreviewDivergence(
+  current: StructuredContent,
+  rendered: StructuredContent
+): PreviewDivergence | null {
+  const serialize = (value: unknown) =>
+    JSON.stringify(value, (key, item) => (key === 'last_edited_at' || key === 'order' ? undefined : item));
+
+  const renderedBlocks = getRenderableBlocks(rendered);
+  const renderedById = new Map(renderedBlocks.map((block) => [block.meta.id, serialize(block)]));
+  const currentBlocks = getRenderableBlocks(current);
+  const currentIds = new Set(currentBlocks.map((block) => block.meta.id));
+
+  const changedBlockIds = currentBlocks
+    .filter((block) => renderedById.get(block.meta.id) !== serialize(block))
+    .map((block) => block.meta.id);
+  const removedCount = renderedBlocks.filter((block) => !currentIds.has(block.meta.id)).length;
+  const sharedOrder = (ids: string[], other: Set<string>) => ids.filter((id) => other.has(id)).join(',');
+  const reordered =
+    sharedOrder(currentBlocks.map((block) => block.meta.id), new Set(renderedById.keys())) !==
+    sharedOrder(renderedBlocks.map((block) => block.meta.id), currentIds);
+  const pageChanged = getPageKey(current) !== getPageKey(rendered);
+
+  if (!pageChanged && !reordered && removedCount === 0 && changedBlockIds.length === 0) return null;
+  return { pageChanged, changedBlockIds, removedCount, reordered };
+}
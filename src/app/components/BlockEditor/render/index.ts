@@ -0,0 +1,11 @@
+/**
+ * 结构化内容的客户端 HTML 渲染
+ *
+ * 用法:
+ * import { renderContentPreview } from './render';
+ */
+
+export { renderContentPreview, renderContentHtml, getRenderableBlocks, type ContentPreviewRender } from './page';
+export { renderBlock, type BlockRenderContext } from './blocks';
+export { escapeHtml, sanitizeUrl, renderMarkdown, renderInlineMarkdown } from './markdown';
+export { getPreviewDivergence, type PreviewDivergence } from './divergence';
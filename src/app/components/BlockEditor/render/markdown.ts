@@ -0,0 +1,151 @@
+/**
+ * 预览渲染 - HTML 转义和 Markdown 转换
+ *
+ * Block 中的 Markdown 字段（content / description / instructions 等）只支持常用语法：
+ * 标题、段落、列表、引用、代码块，以及行内代码、粗体、斜体和链接。
+ * 所有文本先转义再转换，链接只允许 http(s) / mailto / tel 和相对地址
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** 转义文本（同时用于元素内容和属性值） */
+export function escapeHtml(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/** 过滤不安全的链接（javascript: 等），不安全时返回 '#' */
+export function sanitizeUrl(url: string | undefined): string {
+  const trimmed = (url ?? '').trim();
+  if (!trimmed) return '#';
+  if (/^(https?:|mailto:|tel:)/i.test(trimmed)) return trimmed;
+  // 相对地址和锚点（不含协议）
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return trimmed;
+  return '#';
+}
+
+/** 行内 Markdown（输入为未转义的文本） */
+export function renderInlineMarkdown(text: string | undefined): string {
+  if (!text) return '';
+  // 行内代码中的内容不再处理其他语法
+  return text
+    .split(/(`[^`]+`)/g)
+    .map((part, index) => {
+      if (index % 2 === 1) return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      return escapeHtml(part)
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => {
+          // href 已被转义，还原后再过滤
+          const url = href.replace(/&amp;/g, '&');
+          return `<a href="${escapeHtml(sanitizeUrl(url))}">${label}</a>`;
+        })
+        .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/__([^_]+)__/g, '<strong>$1</strong>')
+        .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+        .replace(/(^|[^\w_])_([^_\s][^_]*)_(?!\w)/g, '$1<em>$2</em>');
+    })
+    .join('');
+}
+
+/**
+ * Markdown 转 HTML
+ * @param headingOffset 标题层级偏移（Block 内的 # 标题渲染为 h{1 + offset}，最多 h6）
+ */
+export function renderMarkdown(markdown: string | undefined, headingOffset = 2): string {
+  if (!markdown) return '';
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    html.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br>')}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (!list) return;
+    const tag = list.ordered ? 'ol' : 'ul';
+    html.push(`<${tag}>${list.items.map((item) => `<li>${renderInlineMarkdown(item)}</li>`).join('')}</${tag}>`);
+    list = null;
+  };
+  const flushQuote = () => {
+    if (quote.length === 0) return;
+    html.push(`<blockquote>${renderMarkdown(quote.join('\n'), headingOffset)}</blockquote>`);
+    quote = [];
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushList();
+    flushQuote();
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // 代码块
+    const fence = line.match(/^\s*```(\S*)/);
+    if (fence) {
+      flushAll();
+      const code: string[] = [];
+      for (i++; i < lines.length && !/^\s*```/.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      const language = fence[1] ? ` class="language-${escapeHtml(fence[1])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushAll();
+      continue;
+    }
+
+    const quoteLine = line.match(/^\s*>\s?(.*)$/);
+    if (quoteLine) {
+      flushParagraph();
+      flushList();
+      quote.push(quoteLine[1]);
+      continue;
+    }
+    flushQuote();
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const level = Math.min(heading[1].length + headingOffset, 6);
+      html.push(`<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push(listItem[2]);
+      continue;
+    }
+
+    // 列表项的续行
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+  flushAll();
+
+  return html.join('\n');
+}
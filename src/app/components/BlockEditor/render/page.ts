@@ -0,0 +1,292 @@
+/**
+ * 预览渲染 - 页面
+ *
+ * 将 StructuredContent（PageMeta、GlobalSettings 和全部 Block）渲染为完整的 HTML 文档，
+ * 按 PageType 添加页面级内容：Listicle 的排名和评选标准、Comparison 的对比表和胜出者、
+ * Guide 的前置条件和难度、Landing 的 Hero 布局、Blog 的要点总结。
+ *
+ * 这是编辑器的即时预览；后端渲染（getContentPreview）仍是发布前的最终效果
+ */
+
+import type {
+  BlogContent,
+  BlogSectionBlock,
+  ComparisonContent,
+  ComparisonRowBlock,
+  ContentBlock,
+  CTABlock,
+  GuideContent,
+  IntroBlock,
+  LandingContent,
+  ListicleContent,
+  ProductCardBlock,
+  StepBlock,
+  StructuredContent,
+  TextSectionBlock,
+} from '../types';
+import { renderBlock, GROUPED_BLOCK_TYPES, type BlockRenderContext } from './blocks';
+import { escapeHtml, renderInlineMarkdown } from './markdown';
+import { PREVIEW_CSS } from './styles';
+
+// ============ 类型定义 ============
+
+/** 预览渲染结果 */
+export interface ContentPreviewRender {
+  /** 完整 HTML 文档 */
+  html: string;
+  /** 文档骨架：Block 位置为 <!--block:id--> 占位符；骨架不变时只需替换有变化的 Block */
+  skeleton: string;
+  /** 各 Block 的 HTML（按 Block ID） */
+  blocks: Record<string, string>;
+}
+
+// ============ Block 收集 ============
+
+/**
+ * 页面中要渲染的 Block（按顺序）
+ * 编辑器只维护 blocks；后端返回的内容可能只有页面类型自己的字段（list_items / steps 等），此时从这些字段收集
+ */
+export function getRenderableBlocks(content: StructuredContent): ContentBlock[] {
+  const blocks = content.blocks?.length ? [...content.blocks] : collectPageTypeBlocks(content);
+  const ids = new Set(blocks.map((block) => block.meta.id));
+  if (content.intro && !ids.has(content.intro.meta.id)) blocks.unshift(content.intro);
+  if (content.conclusion && !ids.has(content.conclusion.meta.id)) blocks.push(content.conclusion);
+  return blocks;
+}
+
+function collectPageTypeBlocks(content: StructuredContent): ContentBlock[] {
+  switch (content.page_type) {
+    case 'listicle':
+      return [...((content as ListicleContent).list_items ?? [])];
+    case 'comparison': {
+      const comparison = content as ComparisonContent;
+      return [...(comparison.comparison_items ?? []), ...(comparison.features ?? [])];
+    }
+    case 'guide': {
+      const guide = content as GuideContent;
+      return [...(guide.steps ?? []), ...(guide.faq ?? [])];
+    }
+    case 'landing': {
+      const landing = content as LandingContent;
+      return [
+        ...(landing.hero ? [landing.hero] : []),
+        ...(landing.features ?? []),
+        ...(landing.testimonials ?? []),
+        ...(landing.pricing ?? []),
+        ...(landing.final_cta ? [landing.final_cta] : []),
+      ];
+    }
+    case 'blog':
+      return [...((content as BlogContent).sections ?? [])];
+    default:
+      return [];
+  }
+}
+
+/** 目录中显示的 Block 标题（没有标题的 Block 不进入目录） */
+function getBlockHeading(block: ContentBlock): string | undefined {
+  switch (block.meta.type) {
+    case 'intro':
+      return (block as IntroBlock).headline;
+    case 'product_card':
+      return (block as ProductCardBlock).name;
+    case 'step':
+      return (block as StepBlock).title;
+    case 'text_section':
+      return (block as TextSectionBlock).heading;
+    case 'blog_section':
+      return (block as BlogSectionBlock).heading;
+    case 'conclusion':
+      return 'Conclusion';
+    case 'call_to_action':
+      return (block as CTABlock).headline;
+    default:
+      return undefined;
+  }
+}
+
+// ============ 页面级内容 ============
+
+/** 产品名称 → 页面级标记（用于高亮对应的产品卡片） */
+function getHighlights(content: StructuredContent): Record<string, string> {
+  const highlights: Record<string, string> = {};
+  if (content.page_type === 'listicle') {
+    const listicle = content as ListicleContent;
+    if (listicle.best_value) highlights[listicle.best_value] = 'Best value';
+    if (listicle.best_overall) highlights[listicle.best_overall] = 'Best overall';
+  } else if (content.page_type === 'comparison') {
+    const winner = (content as ComparisonContent).winner;
+    if (winner) highlights[winner] = 'Winner';
+  }
+  return highlights;
+}
+
+function renderByline(content: StructuredContent): string {
+  const parts = [
+    content.meta.author ? `By ${escapeHtml(content.meta.author)}` : '',
+    content.meta.published_date ? `<time datetime="${escapeHtml(content.meta.published_date)}">${escapeHtml(content.meta.published_date)}</time>` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? `<p class="byline">${parts.join(' · ')}</p>` : '';
+}
+
+/** 标题之后、Block 之前的页面类型专属内容 */
+function renderPageTypeHeader(content: StructuredContent): string {
+  switch (content.page_type) {
+    case 'listicle': {
+      const criteria = (content as ListicleContent).ranking_criteria ?? [];
+      if (criteria.length === 0) return '';
+      return `<aside class="callout"><strong>How we ranked</strong><ul>${criteria
+        .map((item) => `<li>${renderInlineMarkdown(item)}</li>`)
+        .join('')}</ul></aside>`;
+    }
+    case 'guide': {
+      const guide = content as GuideContent;
+      const facts = [
+        guide.estimated_total_time ? `<span><strong>Time:</strong> ${escapeHtml(guide.estimated_total_time)}</span>` : '',
+        guide.difficulty_level ? `<span class="badge">${escapeHtml(guide.difficulty_level)}</span>` : '',
+      ].filter(Boolean);
+      const prerequisites = guide.prerequisites ?? [];
+      return [
+        facts.length > 0 ? `<div class="guide-facts">${facts.join('')}</div>` : '',
+        prerequisites.length > 0
+          ? `<aside class="callout"><strong>Before you start</strong><ul>${prerequisites
+              .map((item) => `<li>${renderInlineMarkdown(item)}</li>`)
+              .join('')}</ul></aside>`
+          : '',
+      ].join('\n');
+    }
+    case 'blog': {
+      const takeaways = (content as BlogContent).key_takeaways ?? [];
+      if (takeaways.length === 0) return '';
+      return `<aside class="callout"><strong>Key takeaways</strong><ul>${takeaways
+        .map((item) => `<li>${renderInlineMarkdown(item)}</li>`)
+        .join('')}</ul></aside>`;
+    }
+    default:
+      return '';
+  }
+}
+
+function renderToc(blocks: ContentBlock[]): string {
+  const entries = blocks
+    .map((block) => ({ id: block.meta.id, heading: getBlockHeading(block) }))
+    .filter((entry): entry is { id: string; heading: string } => !!entry.heading);
+  if (entries.length === 0) return '';
+  return `<nav class="toc"><strong>Contents</strong><ol>${entries
+    .map((entry) => `<li><a href="#block-${escapeHtml(entry.id)}">${escapeHtml(entry.heading)}</a></li>`)
+    .join('')}</ol></nav>`;
+}
+
+const SHARE_BUTTONS = `<div class="share-buttons"><span class="muted">Share:</span><a href="#">X</a><a href="#">LinkedIn</a><a href="#">Facebook</a><a href="#">Copy link</a></div>`;
+
+// ============ Block 分组 ============
+
+/** Block 占位符（骨架中的 Block 位置） */
+function placeholder(blockId: string): string {
+  return `<!--block:${blockId}-->`;
+}
+
+/**
+ * 按顺序输出 Block 占位符，连续的同类 Block（功能、价格、对比行等）放入同一个网格 / 表格容器
+ */
+function renderBlockSlots(blocks: ContentBlock[], comparisonColumns: string[]): string {
+  const html: string[] = [];
+  let index = 0;
+  while (index < blocks.length) {
+    const type = blocks[index].meta.type;
+    const groupClass = GROUPED_BLOCK_TYPES[type];
+    if (!groupClass) {
+      html.push(placeholder(blocks[index].meta.id));
+      index++;
+      continue;
+    }
+
+    const group: string[] = [];
+    while (index < blocks.length && blocks[index].meta.type === type) {
+      group.push(placeholder(blocks[index].meta.id));
+      index++;
+    }
+
+    if (type === 'comparison_row') {
+      html.push(`<div class="table-wrapper"><table class="${groupClass}"><thead><tr><th>Feature</th>${comparisonColumns
+        .map((column) => `<th>${escapeHtml(column)}</th>`)
+        .join('')}</tr></thead><tbody>${group.join('')}</tbody></table></div>`);
+    } else if (type === 'faq') {
+      html.push(`<section class="${groupClass}"><h2>Frequently asked questions</h2>${group.join('\n')}</section>`);
+    } else {
+      html.push(`<div class="${groupClass}">${group.join('\n')}</div>`);
+    }
+  }
+  return html.join('\n');
+}
+
+// ============ 入口 ============
+
+/** 渲染预览（完整文档、骨架和各 Block 的 HTML） */
+export function renderContentPreview(content: StructuredContent): ContentPreviewRender {
+  const blocks = getRenderableBlocks(content);
+  const settings = content.global_settings ?? {};
+  const highlights = getHighlights(content);
+
+  // 对比表的列：Comparison 页面中的产品；没有产品时使用各行 values 的键
+  const products = blocks.filter((block): block is ProductCardBlock => block.meta.type === 'product_card');
+  const comparisonColumns =
+    products.length > 0
+      ? products.map((product) => product.name)
+      : Array.from(
+          new Set(
+            blocks.flatMap((block) =>
+              block.meta.type === 'comparison_row' ? Object.keys((block as ComparisonRowBlock).values ?? {}) : []
+            )
+          )
+        );
+
+  // 各 Block 的 HTML；rank 为在同类 Block 中的序号
+  const typeCounts: Record<string, number> = {};
+  const blockHtml: Record<string, string> = {};
+  for (const block of blocks) {
+    typeCounts[block.meta.type] = (typeCounts[block.meta.type] ?? 0) + 1;
+    const context: BlockRenderContext = {
+      pageType: content.page_type,
+      rank: typeCounts[block.meta.type],
+      comparisonColumns,
+      highlights,
+    };
+    blockHtml[block.meta.id] = renderBlock(block, context);
+  }
+
+  const winner = content.page_type === 'comparison' ? (content as ComparisonContent).winner : undefined;
+  // Landing 页面由 Hero 充当标题
+  const hasHero = blocks.some((block) => block.meta.type === 'hero');
+  const title = content.meta.title || 'Untitled';
+
+  const skeleton = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(content.meta.seo_title || title)}</title>
+${content.meta.seo_description ? `<meta name="description" content="${escapeHtml(content.meta.seo_description)}">` : ''}
+<style>${PREVIEW_CSS}</style>
+</head>
+<body class="page page-${content.page_type}" data-layout="${escapeHtml(settings.layout ?? 'default')}"${settings.theme ? ` data-theme="${escapeHtml(settings.theme)}"` : ''}>
+<main class="container">
+${hasHero && content.page_type === 'landing' ? '' : `<header class="page-header"><h1>${escapeHtml(title)}</h1>${renderByline(content)}</header>`}
+${settings.show_share_buttons ? SHARE_BUTTONS : ''}
+${renderPageTypeHeader(content)}
+${settings.show_toc ? renderToc(blocks) : ''}
+${blocks.length > 0 ? renderBlockSlots(blocks, comparisonColumns) : '<p class="placeholder">This page has no blocks yet.</p>'}
+${winner ? `<aside class="callout callout-tip"><strong>Our pick:</strong> ${escapeHtml(winner)}</aside>` : ''}
+${settings.show_share_buttons ? SHARE_BUTTONS : ''}
+</main>
+</body>
+</html>`;
+
+  const html = skeleton.replace(/<!--block:([^>]*?)-->/g, (match, id: string) => blockHtml[id] ?? match);
+  return { html, skeleton, blocks: blockHtml };
+}
+
+/** 渲染完整 HTML 文档 */
+export function renderContentHtml(content: StructuredContent): string {
+  return renderContentPreview(content).html;
+}
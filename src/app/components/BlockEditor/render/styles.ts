@@ -0,0 +1,97 @@
+/**
+ * 预览渲染 - 样式
+ * 内联到预览文档中，不依赖外部资源（离线可用）
+ */
+
+export const PREVIEW_CSS = `
+*{box-sizing:border-box}
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;line-height:1.6;color:#1a202c;background:#fff}
+.container{max-width:800px;margin:0 auto;padding:2rem 1.5rem}
+body[data-layout="wide"] .container{max-width:1100px}
+body[data-layout="narrow"] .container{max-width:640px}
+h1,h2,h3,h4,h5,h6{line-height:1.25;margin:0 0 .75rem}
+h1{font-size:2.25rem}h2{font-size:1.5rem}h3{font-size:1.15rem}
+p{margin:0 0 1rem}
+a{color:#3182ce}
+img{max-width:100%;height:auto}
+code{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:.875em;background:#edf2f7;padding:.1rem .3rem;border-radius:4px}
+pre{background:#1a202c;color:#e2e8f0;padding:1rem;border-radius:8px;overflow-x:auto}
+pre code{background:none;padding:0;color:inherit}
+blockquote{margin:0 0 1rem;padding-left:1rem;border-left:4px solid #cbd5e0;color:#4a5568}
+.muted{color:#718096}
+.badge{display:inline-block;background:#f59e0b;color:#fff;font-size:.75rem;font-weight:600;padding:.15rem .5rem;border-radius:999px;margin-bottom:.5rem;text-transform:capitalize}
+.button{display:inline-block;padding:.65rem 1.25rem;border-radius:8px;font-weight:600;text-decoration:none}
+.button-primary{background:#3182ce;color:#fff}
+.button-secondary{background:#edf2f7;color:#1a202c}
+.button-minimal{color:#3182ce;padding-left:0}
+.button-inverse{background:#fff;color:#3182ce}
+.placeholder{padding:1.5rem;border:1px dashed #cbd5e0;border-radius:8px;color:#718096;text-align:center}
+.page-header{margin-bottom:1.5rem}
+.byline{color:#718096;font-size:.875rem}
+.toc{margin:0 0 2rem;padding:1rem 1.25rem;background:#f7fafc;border-radius:8px}
+.toc ol{margin:.5rem 0 0;padding-left:1.25rem}
+.share-buttons{display:flex;gap:.75rem;align-items:center;margin:0 0 1.5rem;font-size:.875rem}
+.callout{margin:0 0 1.5rem;padding:1rem 1.25rem;background:#ebf8ff;border-radius:8px}
+.callout ul{margin:.5rem 0 0;padding-left:1.25rem}
+.callout-tip{background:#c6f6d5;color:#22543d}
+.callout-warning{background:#fefcbf;color:#744210}
+.block{margin:0 0 2rem}
+.block-image{display:block;margin:0 0 1rem;border-radius:8px}
+.block-intro .intro-hook{font-style:italic;color:#4a5568}
+.block-product-card{padding:1.5rem;border:1px solid #e2e8f0;border-radius:12px}
+.block-product-card.is-highlighted{border-color:#f59e0b;box-shadow:0 0 0 1px #f59e0b}
+.product-header{display:flex;gap:1rem;align-items:flex-start;margin-bottom:1rem}
+.product-rank{font-size:1.5rem;font-weight:700;color:#a0aec0}
+.product-title{flex:1}
+.product-summary{text-align:right}
+.product-price{display:block;font-weight:700}
+.rating{color:#f59e0b;white-space:nowrap}
+.rating-value{color:#4a5568;font-size:.875rem}
+.pros-cons{display:grid;grid-template-columns:1fr 1fr;gap:1rem;margin-bottom:1rem}
+.pros h3{color:#38a169}.cons h3{color:#e53e3e}
+.pros ul,.cons ul{margin:0;padding-left:1.25rem}
+.step-header{display:flex;gap:.75rem;align-items:center;margin-bottom:1rem}
+.step-header h2{flex:1;margin:0}
+.step-number{display:flex;align-items:center;justify-content:center;width:2.25rem;height:2.25rem;border-radius:50%;background:#3182ce;color:#fff;font-weight:700;flex-shrink:0}
+.checklist{list-style:none;padding:0}
+.checklist li::before{content:'✓ ';color:#38a169}
+.guide-facts{display:flex;gap:1rem;align-items:center;margin-bottom:1rem}
+.media-row{display:flex;gap:1.5rem;align-items:flex-start}
+.media-row>*{flex:1}
+.recommendation{font-weight:600;padding:1rem;background:#f7fafc;border-radius:8px}
+.block-hero{padding:4rem 2rem;text-align:center;border-radius:12px;background:linear-gradient(135deg,#667eea 0%,#764ba2 100%);color:#fff;background-size:cover;background-position:center}
+.block-hero .hero-subheadline{font-size:1.25rem;opacity:.9}
+.block-hero .button-primary{background:#fff;color:#553c9a}
+.feature-grid,.pricing-grid,.testimonial-grid{display:grid;grid-template-columns:repeat(auto-fit,minmax(220px,1fr));gap:1.5rem;margin:0 0 2rem}
+.feature-grid .block,.pricing-grid .block,.testimonial-grid .block{margin:0}
+.feature-icon{display:inline-block;font-size:1.5rem;margin-bottom:.5rem}
+.block-pricing{padding:1.5rem;border:1px solid #e2e8f0;border-radius:12px}
+.block-pricing.is-highlighted{border-color:#3182ce;box-shadow:0 0 0 1px #3182ce}
+.pricing-price{font-size:1.75rem;font-weight:700}
+.block-quote blockquote,.block-testimonial blockquote{font-size:1.15rem}
+figure{margin:0 0 2rem}
+figcaption{display:flex;gap:.75rem;align-items:center;color:#718096;font-size:.875rem;margin-top:.5rem}
+figcaption .muted{display:block}
+.avatar{width:40px;height:40px;border-radius:50%;object-fit:cover}
+.video-frame{position:relative;padding-top:56.25%}
+.video-frame iframe{position:absolute;inset:0;width:100%;height:100%;border:0;border-radius:8px}
+video{width:100%;border-radius:8px}
+.block-call-to-action{padding:2rem;border-radius:12px;text-align:center}
+.cta-primary{background:#3182ce;color:#fff}
+.cta-secondary{background:#edf2f7}
+.cta-minimal{border:1px solid #e2e8f0}
+.table-wrapper{overflow-x:auto;margin:0 0 2rem}
+.comparison-table{width:100%;border-collapse:collapse}
+.comparison-table th,.comparison-table td{padding:.6rem .75rem;border-bottom:1px solid #e2e8f0;text-align:left}
+.comparison-table thead th{background:#f7fafc}
+.comparison-table .block{margin:0}
+.yes{color:#38a169}.no{color:#e53e3e}
+.faq-list{margin:0 0 2rem}
+.block-faq{margin:0 0 .75rem;padding:.75rem 1rem;border:1px solid #e2e8f0;border-radius:8px}
+.block-faq summary{font-weight:600;cursor:pointer}
+.block-faq .prose{margin-top:.5rem}
+body[data-theme="dark"]{background:#1a202c;color:#e2e8f0}
+body[data-theme="dark"] .toc,body[data-theme="dark"] .recommendation,body[data-theme="dark"] .comparison-table thead th{background:#2d3748}
+body[data-theme="dark"] .block-product-card,body[data-theme="dark"] .block-pricing,body[data-theme="dark"] .block-faq{border-color:#4a5568}
+@media (max-width:600px){.pros-cons,.media-row{display:block}.product-header{flex-wrap:wrap}}
+`;
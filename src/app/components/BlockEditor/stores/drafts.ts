@@ -0,0 +1,131 @@
+/**
+ * Block Editor 本地草稿（IndexedDB 持久化）
+ *
+ * 未保存的内容和撤销历史定时写入 IndexedDB，以内容 ID 和基础版本号为主键：
+ * - 标签页崩溃、刷新或误关编辑器后，重新打开时可以恢复
+ * - 每个内容只保留最新的一份草稿，保存成功或放弃修改后删除
+ *
+ * IndexedDB 不可用时（SSR、隐私模式）回退到内存存储。
+ */
+
+import type { StructuredContent } from '../types';
+import type { HistoryItem } from './editorStore';
+
+// ============ 类型定义 ============
+
+/** 本地草稿 */
+export interface EditorDraft {
+  itemId: string;
+  /** 基础版本号（草稿基于的服务器版本） */
+  baseVersion: number;
+  /** 基础版本的内容（恢复后用于三方合并） */
+  base: StructuredContent;
+  content: StructuredContent;
+  /** 撤销历史（恢复时重新对应到恢复后的操作） */
+  history: HistoryItem[];
+  historyIndex: number;
+  savedAt: number;
+}
+
+// ============ 常量 ============
+
+const DB_NAME = 'seenos_editor_drafts';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+// ============ IndexedDB 辅助函数 ============
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: ['itemId', 'baseVersion'] });
+        store.createIndex('itemId', 'itemId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============ 草稿存储 ============
+
+export class DraftStorage {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memoryStore = new Map<string, EditorDraft>();
+
+  /**
+   * 获取数据库连接，失败时返回 null（回退到内存存储）
+   */
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        this.dbPromise = Promise.resolve(null);
+      } else {
+        this.dbPromise = openDatabase().catch((error) => {
+          console.warn('[Drafts] IndexedDB unavailable, falling back to memory:', error);
+          return null;
+        });
+      }
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 获取内容的最新草稿
+   */
+  async get(itemId: string): Promise<EditorDraft | undefined> {
+    const db = await this.getDatabase();
+    if (!db) {
+      return this.memoryStore.get(itemId);
+    }
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const drafts = await promisifyRequest<EditorDraft[]>(store.index('itemId').getAll(itemId));
+    return drafts.sort((a, b) => b.savedAt - a.savedAt)[0];
+  }
+
+  /**
+   * 写入草稿，同时删除该内容基于其他版本的旧草稿
+   */
+  async save(draft: EditorDraft): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) {
+      this.memoryStore.set(draft.itemId, draft);
+      return;
+    }
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const keys = await promisifyRequest(store.index('itemId').getAllKeys(draft.itemId));
+    for (const key of keys) {
+      if ((key as [string, number])[1] !== draft.baseVersion) store.delete(key);
+    }
+    await promisifyRequest(store.put(draft));
+  }
+
+  /**
+   * 删除内容的所有草稿（保存成功或放弃修改）
+   */
+  async remove(itemId: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) {
+      this.memoryStore.delete(itemId);
+      return;
+    }
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const keys = await promisifyRequest(store.index('itemId').getAllKeys(itemId));
+    await Promise.all(keys.map((key) => promisifyRequest(store.delete(key))));
+  }
+}
+
+/** 全局草稿存储实例 */
+export const editorDrafts = new DraftStorage();
@@ -6,7 +6,30 @@
 import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { apiClient } from '@/lib/api/client';
+import { apiClient, type ApiError } from '@/lib/api/client';
+import { renderContentHtml } from '../render';
+import { getBlockField } from '../blockFields';
+import { fromContentData, toContentData } from '../contentData';
+import {
+  applyOperation,
+  applyOperations,
+  createCollabState,
+  diffBlocks,
+  getCollaboratorColor,
+  invertOperation,
+  isOperationCurrent,
+  isSameFieldValue,
+  materializeBlocks,
+  mergeCollabState,
+  positionAt,
+  rebaseOperation,
+  stampOperation,
+  PRESENCE_TIMEOUT_MS,
+  type CollabOperationDraft,
+  type Collaborator,
+} from '../collab';
+import { mergeContent, resolveContentMerge, type ContentMerge, type MergeSide } from '../merge';
+import { editorDrafts, type EditorDraft } from './drafts';
 import type {
   StructuredContent,
   ContentBlock,
@@ -14,6 +37,9 @@ import type {
   PageType,
   BlockMeta,
   BLOCK_CONFIGS,
+  CollabOperation,
+  CollabPresence,
+  CollabState,
 } from '../types';
 
 // ============ 类型定义 ============
@@ -24,10 +50,59 @@ export type EditorMode = 'view' | 'edit';
 /** 设备预设类型 */
 export type DeviceType = 'desktop' | 'tablet' | 'mobile';
 
-/** 撤销/重做历史项 */
-interface HistoryItem {
-  content: StructuredContent;
+/**
+ * 预览模式
+ * - instant: 客户端渲染，随编辑即时更新，离线可用
+ * - final: 后端渲染（发布效果），对应最近一次刷新时的内容
+ */
+export type PreviewMode = 'instant' | 'final';
+
+/**
+ * 历史项中的一个修改
+ * applied 为最近一次应用的操作（撤销后为撤销操作），被其他编辑者覆盖时为 null
+ */
+export interface HistoryChange {
+  redo: CollabOperationDraft;
+  undo: CollabOperationDraft;
+  applied: CollabOperation | null;
+}
+
+/**
+ * 撤销/重做历史项（只记录自己的操作）
+ * 撤销时只回退仍然生效的修改，不会覆盖其他编辑者之后的修改
+ */
+export interface HistoryItem {
+  changes: HistoryChange[];
   timestamp: number;
+  /** 连续编辑同一 Block 同一组字段时合并为一项 */
+  mergeKey?: string;
+}
+
+/** 本地光标：属性面板中正在编辑的字段及选区 */
+export interface LocalCursor {
+  field: string;
+  selection: { start: number; end: number } | null;
+}
+
+/**
+ * 本地草稿状态
+ * - none: 没有未保存的修改
+ * - pending: 有修改尚未写入本地草稿
+ * - saving: 正在写入
+ * - saved: 所有修改都已写入本地草稿
+ * - error: 写入失败
+ */
+export type DraftStatus = 'none' | 'pending' | 'saving' | 'saved' | 'error';
+
+/** 保存时的版本冲突（等待用户在合并对话框中解决） */
+export interface ContentConflict {
+  /** 服务器上的最新版本号 */
+  remoteVersion: number;
+  /** 服务器上的最新内容（解决后作为新的基础版本） */
+  remoteContent: StructuredContent;
+  merge: ContentMerge;
+  /** 恢复本地草稿时产生的冲突：解决后恢复草稿的撤销历史 */
+  draft?: EditorDraft;
 }
 
 /** 编辑器状态 */
@@ -35,8 +110,18 @@ export interface EditorState {
   // 内容数据
   itemId: string | null;
   content: StructuredContent | null;
+  /** 基础版本号（上次加载/保存时的版本，保存时作为前置条件提交） */
   contentVersion: number;
-  originalContent: StructuredContent | null; // 用于检测变更
+  originalContent: StructuredContent | null; // 基础版本的内容，用于检测变更和三方合并
+  /** 本地有未保存修改时，服务器上出现的更新版本号 */
+  remoteVersion: number | null;
+  /** 保存时的版本冲突 */
+  conflict: ContentConflict | null;
+
+  // 本地草稿
+  draftStatus: DraftStatus;
+  /** 加载内容时发现的本地草稿（等待用户选择恢复或放弃） */
+  recoverableDraft: EditorDraft | null;
 
   // 编辑状态
   selectedBlockId: string | null;
@@ -47,7 +132,13 @@ export interface EditorState {
   error: string | null;
 
   // 预览状态
+  previewMode: PreviewMode;
+  /** 最终渲染（后端）的 HTML */
   previewHtml: string;
+  /** 最终渲染对应的内容快照（用于判断即时预览与最终渲染是否一致） */
+  previewContent: StructuredContent | null;
+  /** 最终渲染失败的原因（后端不可用时即时预览仍可使用） */
+  previewError: string | null;
   previewDevice: DeviceType;
   isPreviewLoading: boolean;
 
@@ -56,9 +147,24 @@ export interface EditorState {
   historyIndex: number;
   maxHistoryLength: number;
 
+  // 协同编辑
+  /** 当前编辑会话 ID（Lamport 时间戳中的站点 ID） */
+  siteId: string;
+  /** Lamport 时钟（重新加载内容也不会回退） */
+  clock: number;
+  /** 协同状态（各寄存器的时间戳） */
+  collab: CollabState | null;
+  /** 尚未发送给其他编辑者的本地操作 */
+  pendingOperations: CollabOperation[];
+  /** 在线的其他编辑者，按编辑会话 ID 索引 */
+  collaborators: Record<string, Collaborator>;
+  /** 本地光标（通过在线状态发送给其他编辑者） */
+  localCursor: LocalCursor | null;
+
   // 面板状态
   isEditorOpen: boolean;
   showPropertyPanel: boolean;
+  showVersionHistory: boolean;
 }
 
 /** 编辑器操作 */
@@ -67,6 +173,20 @@ export interface EditorActions {
   loadContent: (itemId: string) => Promise<void>;
   saveContent: () => Promise<void>;
   resetContent: () => void;
+  /** 服务器上的内容已保存为新版本（Agent 重新生成或其他会话保存） */
+  handleRemoteSave: (version: number) => void;
+  /** 按选择的版本解决冲突 Block，合并后以服务器版本为基础重新保存 */
+  resolveConflict: (resolutions: Record<string, MergeSide>) => Promise<void>;
+  /** 关闭合并对话框（保留本地修改，下次保存时重新合并） */
+  dismissConflict: () => void;
+  /** 把某个历史版本的内容恢复到当前草稿（可撤销，保存后生成新版本） */
+  restoreVersion: (content: StructuredContent) => void;
+  /** 把某个历史版本中的单个 Block 恢复到当前草稿（该版本中没有此 Block 时从草稿中删除） */
+  restoreBlock: (blockId: string, source: StructuredContent) => void;
+  /** 以操作的形式恢复本地草稿和撤销历史（基于旧版本时与加载的内容三方合并，有冲突时打开合并对话框） */
+  recoverDraft: () => void;
+  /** 放弃本地草稿 */
+  discardDraft: () => void;
 
   // Block 操作
   selectBlock: (blockId: string | null) => void;
@@ -79,9 +199,21 @@ export interface EditorActions {
   // 历史操作
   undo: () => void;
   redo: () => void;
-  pushHistory: () => void;
+
+  // 协同编辑
+  /** 应用其他编辑者的操作 */
+  applyRemoteOperations: (operations: CollabOperation[]) => void;
+  /** 合并其他编辑者的完整协同状态 */
+  mergeRemoteState: (state: CollabState) => void;
+  /** 取出待发送的本地操作 */
+  takePendingOperations: () => CollabOperation[];
+  updateCollaborator: (presence: CollabPresence) => void;
+  /** 移除超时未发送心跳的编辑者 */
+  pruneCollaborators: () => void;
+  setLocalCursor: (cursor: LocalCursor | null) => void;
 
   // 预览操作
+  setPreviewMode: (mode: PreviewMode) => void;
   setPreviewDevice: (device: DeviceType) => void;
   refreshPreview: () => Promise<void>;
 
@@ -90,6 +222,7 @@ export interface EditorActions {
   openEditor: (itemId: string) => void;
   closeEditor: () => void;
   togglePropertyPanel: () => void;
+  toggleVersionHistory: () => void;
 
   // 错误处理
   setError: (error: string | null) => void;
@@ -105,6 +238,11 @@ const initialState: EditorState = {
   content: null,
   contentVersion: 0,
   originalContent: null,
+  remoteVersion: null,
+  conflict: null,
+
+  draftStatus: 'none',
+  recoverableDraft: null,
 
   selectedBlockId: null,
   mode: 'edit',
@@ -113,7 +251,10 @@ const initialState: EditorState = {
   isLoading: false,
   error: null,
 
+  previewMode: 'instant',
   previewHtml: '',
+  previewContent: null,
+  previewError: null,
   previewDevice: 'desktop',
   isPreviewLoading: false,
 
@@ -121,8 +262,16 @@ const initialState: EditorState = {
   historyIndex: -1,
   maxHistoryLength: 50,
 
+  siteId: uuidv4(),
+  clock: 0,
+  collab: null,
+  pendingOperations: [],
+  collaborators: {},
+  localCursor: null,
+
   isEditorOpen: false,
   showPropertyPanel: true,
+  showVersionHistory: false,
 };
 
 // ============ 辅助函数 ============
@@ -209,119 +358,190 @@ function createNewBlock(type: BlockType, order: number): ContentBlock {
   }
 }
 
-/** 重新计算 Block 顺序 */
-function reorderBlocks(blocks: ContentBlock[]): ContentBlock[] {
-  return blocks.map((block, index) => {
-    // Create a new block with updated order
-    const updatedBlock = {
-      ...block,
-      meta: {
-        ...block.meta,
-        order: index,
-      },
-    };
-    return updatedBlock as ContentBlock;
+/** 连续编辑合并为一个历史项的时间窗口 (ms) */
+const HISTORY_MERGE_WINDOW = 1000;
+
+/** 保存时版本冲突、合并无冲突后自动重新保存的最大次数 */
+const MAX_AUTO_REBASES = 2;
+
+/** 操作中最大的时钟（不小于当前时钟） */
+function maxClock(clock: number, operations: CollabOperation[]): number {
+  return operations.reduce((max, op) => Math.max(max, op.stamp.clock), clock);
+}
+
+/** 选中的 Block 被删除时取消选中 */
+function keepSelection(selectedBlockId: string | null, blocks: ContentBlock[]): string | null {
+  if (!selectedBlockId) return null;
+  return blocks.some((b) => b.meta.id === selectedBlockId) ? selectedBlockId : null;
+}
+
+/**
+ * 应用本地操作：分配时间戳、记录撤销信息并加入待发送队列
+ * 返回需要写入 store 的状态，没有可应用的操作时返回 null
+ */
+function commitOperations(
+  state: EditorState,
+  drafts: CollabOperationDraft[],
+  mergeKey?: string
+): Partial<EditorState> | null {
+  const { collab, content, siteId } = state;
+  if (!collab || !content || drafts.length === 0) return null;
+
+  let clock = state.clock;
+  let next = collab;
+  const operations: CollabOperation[] = [];
+  const changes: HistoryChange[] = [];
+
+  for (const draft of drafts) {
+    const undo = invertOperation(next, draft);
+    const op = stampOperation(draft, { clock: ++clock, site: siteId });
+    next = applyOperation(next, op);
+    operations.push(op);
+    if (undo) changes.push({ redo: draft, undo, applied: op });
+  }
+
+  // 截断历史到当前位置
+  const history = state.history.slice(0, state.historyIndex + 1);
+  const last = history[history.length - 1];
+  const now = Date.now();
+
+  if (mergeKey && last?.mergeKey === mergeKey && now - last.timestamp < HISTORY_MERGE_WINDOW) {
+    // 合并连续编辑：保留最早的撤销操作，更新重做操作
+    const merged = last.changes.map((change) => {
+      const latest = changes.find(
+        (c) => c.redo.kind === 'set_field' && change.redo.kind === 'set_field' && c.redo.field === change.redo.field
+      );
+      return latest ? { ...change, redo: latest.redo, applied: latest.applied } : change;
+    });
+    history[history.length - 1] = { changes: merged, timestamp: now, mergeKey };
+  } else if (changes.length > 0) {
+    history.push({ changes, timestamp: now, mergeKey });
+    // 限制历史长度
+    if (history.length > state.maxHistoryLength) {
+      history.shift();
+    }
+  }
+
+  const blocks = materializeBlocks(next);
+  return {
+    collab: next,
+    clock,
+    content: { ...content, blocks },
+    pendingOperations: [...state.pendingOperations, ...operations],
+    history,
+    historyIndex: history.length - 1,
+    isDirty: true,
+  };
+}
+
+/**
+ * 撤销或重做一个历史项
+ * 只处理仍然生效的修改（applied 未被其他编辑者覆盖），其余跳过
+ */
+function replayHistoryItem(state: EditorState, index: number, direction: 'undo' | 'redo'): Partial<EditorState> | null {
+  const { collab, content, siteId } = state;
+  const item = state.history[index];
+  if (!collab || !content || !item) return null;
+
+  let clock = state.clock;
+  let next = collab;
+  const operations: CollabOperation[] = [];
+  const ordered = direction === 'undo' ? [...item.changes].reverse() : item.changes;
+
+  const replayed = ordered.map((change): HistoryChange => {
+    if (!change.applied || !isOperationCurrent(next, change.applied)) {
+      return { ...change, applied: null };
+    }
+    const op = stampOperation(change[direction], { clock: ++clock, site: siteId });
+    next = applyOperation(next, op);
+    operations.push(op);
+    return { ...change, applied: op };
   });
+
+  const history = [...state.history];
+  history[index] = {
+    changes: direction === 'undo' ? replayed.reverse() : replayed,
+    timestamp: item.timestamp,
+  };
+
+  const blocks = materializeBlocks(next);
+  return {
+    collab: next,
+    clock,
+    content: { ...content, blocks },
+    pendingOperations: [...state.pendingOperations, ...operations],
+    history,
+    historyIndex: direction === 'undo' ? index - 1 : index,
+    selectedBlockId: keepSelection(state.selectedBlockId, blocks),
+    isDirty: true,
+  };
+}
+
+/**
+ * 把目标内容应用为本地修改
+ * Block 的变化以操作的形式提交，其他编辑者同步看到，也可以撤销
+ */
+function applyContent(state: EditorState, target: StructuredContent): Partial<EditorState> {
+  const update = state.collab ? commitOperations(state, diffBlocks(state.collab, target.blocks)) : null;
+  const blocks = update?.content?.blocks ?? state.content?.blocks ?? target.blocks;
+  const { blocks: _blocks, ...page } = target;
+
+  return {
+    ...update,
+    content: { ...page, blocks } as StructuredContent,
+    selectedBlockId: keepSelection(state.selectedBlockId, blocks),
+    isDirty: true,
+  };
 }
 
-/** 生成 Demo 预览 HTML */
-function generateDemoPreviewHtml(content: StructuredContent): string {
-  const blocksHtml = content.blocks.map((block) => {
-    switch (block.meta.type) {
-      case 'intro': {
-        const intro = block as { headline?: string; content?: string; hook?: string };
-        return `
-          <section class="intro" style="margin-bottom: 2rem; padding: 2rem; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; border-radius: 12px;">
-            ${intro.hook ? `<p style="font-style: italic; opacity: 0.9; margin-bottom: 1rem;">"${intro.hook}"</p>` : ''}
-            <h1 style="font-size: 2rem; font-weight: bold; margin-bottom: 1rem;">${intro.headline || 'Untitled'}</h1>
-            <p style="line-height: 1.6;">${intro.content || ''}</p>
-          </section>
-        `;
-      }
-      case 'product_card': {
-        const product = block as { name?: string; tagline?: string; rating?: number; price?: string; pros?: string[]; cons?: string[]; description?: string; award_badge?: string; cta_text?: string };
-        return `
-          <article class="product-card" style="margin-bottom: 1.5rem; padding: 1.5rem; border: 1px solid #e2e8f0; border-radius: 12px; background: white;">
-            <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 1rem;">
-              <div>
-                ${product.award_badge ? `<span style="display: inline-block; background: #f59e0b; color: white; font-size: 0.75rem; padding: 0.25rem 0.5rem; border-radius: 4px; margin-bottom: 0.5rem;">🏆 ${product.award_badge}</span>` : ''}
-                <h2 style="font-size: 1.5rem; font-weight: bold; color: #1a202c;">${product.name || 'Product'}</h2>
-                ${product.tagline ? `<p style="color: #718096;">${product.tagline}</p>` : ''}
-              </div>
-              <div style="text-align: right;">
-                ${product.rating ? `<div style="color: #f59e0b; font-size: 1.25rem;">★ ${product.rating}</div>` : ''}
-                ${product.price ? `<div style="font-weight: bold; color: #2d3748;">${product.price}</div>` : ''}
-              </div>
-            </div>
-            <p style="color: #4a5568; margin-bottom: 1rem;">${product.description || ''}</p>
-            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 1rem;">
-              <div>
-                <h4 style="color: #38a169; font-weight: 600; margin-bottom: 0.5rem;">✓ Pros</h4>
-                <ul style="list-style: none; padding: 0; margin: 0;">
-                  ${(product.pros || []).map(p => `<li style="color: #4a5568; margin-bottom: 0.25rem;">• ${p}</li>`).join('')}
-                </ul>
-              </div>
-              <div>
-                <h4 style="color: #e53e3e; font-weight: 600; margin-bottom: 0.5rem;">✗ Cons</h4>
-                <ul style="list-style: none; padding: 0; margin: 0;">
-                  ${(product.cons || []).map(c => `<li style="color: #4a5568; margin-bottom: 0.25rem;">• ${c}</li>`).join('')}
-                </ul>
-              </div>
-            </div>
-            ${product.cta_text ? `<button style="margin-top: 1rem; padding: 0.75rem 1.5rem; background: #4299e1; color: white; border: none; border-radius: 8px; font-weight: 600; cursor: pointer;">${product.cta_text}</button>` : ''}
-          </article>
-        `;
-      }
-      case 'step': {
-        const step = block as { step_number?: number; title?: string; instructions?: string; pro_tip?: string; estimated_time?: string };
-        return `
-          <div class="step" style="margin-bottom: 1.5rem; padding: 1.5rem; border-left: 4px solid #4299e1; background: #f7fafc;">
-            <div style="display: flex; align-items: center; gap: 1rem; margin-bottom: 1rem;">
-              <span style="display: flex; align-items: center; justify-content: center; width: 2.5rem; height: 2.5rem; background: #4299e1; color: white; border-radius: 50%; font-weight: bold;">${step.step_number || 1}</span>
-              <h3 style="font-size: 1.25rem; font-weight: bold; color: #1a202c;">${step.title || 'Step'}</h3>
-              ${step.estimated_time ? `<span style="font-size: 0.875rem; color: #718096;">⏱ ${step.estimated_time}</span>` : ''}
-            </div>
-            <p style="color: #4a5568; white-space: pre-line;">${step.instructions || ''}</p>
-            ${step.pro_tip ? `<div style="margin-top: 1rem; padding: 1rem; background: #c6f6d5; border-radius: 8px; color: #22543d;"><strong>💡 Pro Tip:</strong> ${step.pro_tip}</div>` : ''}
-          </div>
-        `;
-      }
-      case 'conclusion': {
-        const conclusion = block as { summary?: string; final_recommendation?: string; cta_text?: string };
-        return `
-          <section class="conclusion" style="margin-top: 2rem; padding: 2rem; background: #edf2f7; border-radius: 12px;">
-            <h2 style="font-size: 1.5rem; font-weight: bold; color: #1a202c; margin-bottom: 1rem;">Conclusion</h2>
-            <p style="color: #4a5568; margin-bottom: 1rem;">${conclusion.summary || ''}</p>
-            ${conclusion.final_recommendation ? `<p style="font-weight: 600; color: #2d3748; padding: 1rem; background: white; border-radius: 8px;">📌 ${conclusion.final_recommendation}</p>` : ''}
-            ${conclusion.cta_text ? `<button style="margin-top: 1rem; padding: 1rem 2rem; background: #48bb78; color: white; border: none; border-radius: 8px; font-weight: 600; font-size: 1rem; cursor: pointer;">${conclusion.cta_text}</button>` : ''}
-          </section>
-        `;
-      }
-      default:
-        return `<div style="padding: 1rem; border: 1px dashed #cbd5e0; margin-bottom: 1rem; color: #718096;">Block: ${block.meta.type}</div>`;
+/** 把合并结果应用为本地修改，并以服务器版本作为新的基础版本 */
+function rebaseContent(
+  state: EditorState,
+  remoteVersion: number,
+  remoteContent: StructuredContent,
+  merged: StructuredContent
+): Partial<EditorState> {
+  return {
+    ...applyContent(state, merged),
+    contentVersion: remoteVersion,
+    originalContent: JSON.parse(JSON.stringify(remoteContent)),
+    remoteVersion: null,
+    conflict: null,
+  };
+}
+
+/**
+ * 恢复本地草稿的撤销历史（替代恢复时提交的修改记录）
+ * 各修改最近一次应用的操作重新对应到恢复后的协同状态，合并时被服务器版本覆盖的修改不再撤销
+ */
+function restoreDraftHistory(update: Partial<EditorState>, draft: EditorDraft): Partial<EditorState> {
+  const { collab } = update;
+  if (!collab) return update;
+
+  const history = draft.history.map((item) => ({
+    ...item,
+    changes: item.changes.map((change) => ({
+      ...change,
+      applied: change.applied && rebaseOperation(collab, change.applied),
+    })),
+  }));
+  return { ...update, history, historyIndex: draft.historyIndex };
+}
+
+/** 加载内容时查找可恢复的本地草稿（与加载的内容相同时直接删除） */
+async function findRecoverableDraft(itemId: string, content: StructuredContent): Promise<EditorDraft | null> {
+  try {
+    const draft = await editorDrafts.get(itemId);
+    if (!draft) return null;
+    if (JSON.stringify(draft.content) === JSON.stringify(content)) {
+      await editorDrafts.remove(itemId);
+      return null;
     }
-  }).join('');
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${content.meta.title || 'Preview'}</title>
-      <style>
-        * { box-sizing: border-box; margin: 0; padding: 0; }
-        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.5; color: #1a202c; background: #fff; }
-        .container { max-width: 800px; margin: 0 auto; padding: 2rem; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        ${blocksHtml}
-      </div>
-    </body>
-    </html>
-  `;
+    return draft;
+  } catch (error) {
+    console.warn('[Drafts] Failed to read draft:', error);
+    return null;
+  }
 }
 
 /** 创建 Demo 内容（用于开发测试） */
@@ -433,14 +653,21 @@ export const useEditorStore = create<EditorStore>()(
           if (itemId.startsWith('demo-')) {
             // 使用 Demo 数据
             const demoContent = createDemoContent();
+            const recoverableDraft = await findRecoverableDraft(itemId, demoContent);
             set({
               content: demoContent,
               contentVersion: 1,
               originalContent: JSON.parse(JSON.stringify(demoContent)),
               isLoading: false,
               isDirty: false,
-              history: [{ content: JSON.parse(JSON.stringify(demoContent)), timestamp: Date.now() }],
-              historyIndex: 0,
+              history: [],
+              historyIndex: -1,
+              collab: createCollabState(demoContent.blocks),
+              pendingOperations: [],
+              remoteVersion: null,
+              conflict: null,
+              draftStatus: 'none',
+              recoverableDraft,
             });
             // 生成 Demo 预览
             setTimeout(() => get().refreshPreview(), 100);
@@ -448,7 +675,8 @@ export const useEditorStore = create<EditorStore>()(
           }
 
           const response = await apiClient.getStructuredContent(itemId);
-          const content = response.structured_content as unknown as StructuredContent;
+          const content = fromContentData(response.structured_content);
+          const recoverableDraft = await findRecoverableDraft(itemId, content);
 
           set({
             content,
@@ -456,8 +684,14 @@ export const useEditorStore = create<EditorStore>()(
             originalContent: JSON.parse(JSON.stringify(content)),
             isLoading: false,
             isDirty: false,
-            history: [{ content: JSON.parse(JSON.stringify(content)), timestamp: Date.now() }],
-            historyIndex: 0,
+            history: [],
+            historyIndex: -1,
+            collab: createCollabState(content.blocks),
+            pendingOperations: [],
+            remoteVersion: null,
+            conflict: null,
+            draftStatus: 'none',
+            recoverableDraft,
           });
 
           // 加载预览
@@ -490,76 +724,233 @@ export const useEditorStore = create<EditorStore>()(
           return;
         }
 
-        try {
-          const response = await apiClient.saveStructuredContent(
-            itemId,
-            content as unknown as Parameters<typeof apiClient.saveStructuredContent>[1],
-            contentVersion
-          );
+        // 409 且合并没有冲突时自动以服务器版本为基础重新保存，次数有限
+        for (let rebases = 0; ; rebases++) {
+          const { content, contentVersion } = get();
+          if (!content) {
+            set({ isSaving: false });
+            return;
+          }
 
-          set({
-            contentVersion: response.content_version,
-            originalContent: JSON.parse(JSON.stringify(content)),
-            isDirty: false,
-            isSaving: false,
-          });
-        } catch (error) {
-          set({
-            isSaving: false,
-            error: error instanceof Error ? error.message : 'Failed to save content',
-          });
+          try {
+            const response = await apiClient.saveStructuredContent(
+              itemId,
+              toContentData(content),
+              contentVersion
+            );
+
+            // 保存期间的修改仍未保存
+            const current = get().content;
+            set({
+              contentVersion: response.content_version,
+              originalContent: JSON.parse(JSON.stringify(content)),
+              remoteVersion: null,
+              isDirty: current !== content,
+              isSaving: false,
+            });
+            // 刷新最终渲染
+            get().refreshPreview();
+            return;
+          } catch (error) {
+            if ((error as ApiError).status !== 409) {
+              set({
+                isSaving: false,
+                error: error instanceof Error ? error.message : 'Failed to save content',
+              });
+              return;
+            }
+          }
+
+          // 版本冲突：以基础版本、本地内容和服务器最新内容三方合并
+          try {
+            const remote = await apiClient.getStructuredContent(itemId);
+            const remoteContent = fromContentData(remote.structured_content);
+            const state = get();
+            if (!state.originalContent || !state.content) {
+              set({ isSaving: false });
+              return;
+            }
+
+            const merge = mergeContent(state.originalContent, state.content, remoteContent);
+            if (merge.conflicts.length > 0) {
+              set({
+                conflict: { remoteVersion: remote.content_version, remoteContent, merge },
+                isSaving: false,
+              });
+              return;
+            }
+
+            // 没有冲突：直接合并，以服务器版本为基础重新保存
+            set(rebaseContent(state, remote.content_version, remoteContent, resolveContentMerge(merge)));
+          } catch (fetchError) {
+            set({
+              isSaving: false,
+              error: fetchError instanceof Error ? fetchError.message : 'Failed to load latest content',
+            });
+            return;
+          }
+
+          // 服务器内容持续变化（如 Agent 正在重新生成）：保留合并结果，由用户稍后再保存
+          if (rebases >= MAX_AUTO_REBASES) {
+            set({
+              isSaving: false,
+              error: 'The content keeps changing on the server. Your changes were merged with the latest version; save again when it settles.',
+            });
+            return;
+          }
         }
       },
 
       resetContent: () => {
-        const { originalContent } = get();
-        if (originalContent) {
-          set({
-            content: JSON.parse(JSON.stringify(originalContent)),
-            isDirty: false,
-            selectedBlockId: null,
-          });
+        const state = get();
+        if (!state.originalContent || !state.collab) return;
+
+        // 以操作的形式还原，其他编辑者同步看到，也可以撤销
+        const update = commitOperations(state, diffBlocks(state.collab, state.originalContent.blocks));
+        set({
+          ...update,
+          isDirty: false,
+          selectedBlockId: null,
+        });
+      },
+
+      handleRemoteSave: (version: number) => {
+        const { itemId, contentVersion, isDirty, isSaving } = get();
+        // 自己的保存（版本号已由保存响应更新）或过期的通知
+        if (!itemId || version <= contentVersion) return;
+
+        if (!isDirty && !isSaving) {
+          // 没有本地修改：直接加载新版本
+          get().loadContent(itemId);
+        } else {
+          // 有本地修改：保留基础版本，保存时由服务器检测冲突并合并
+          set({ remoteVersion: Math.max(version, get().remoteVersion ?? 0) });
         }
       },
 
-      // ============ Block 操作 ============
+      resolveConflict: async (resolutions: Record<string, MergeSide>) => {
+        const state = get();
+        if (!state.conflict) return;
 
-      selectBlock: (blockId: string | null) => {
-        set({ selectedBlockId: blockId });
+        const { remoteVersion, remoteContent, merge, draft } = state.conflict;
+        const update = rebaseContent(state, remoteVersion, remoteContent, resolveContentMerge(merge, resolutions));
+        set(draft ? restoreDraftHistory(update, draft) : update);
+        await get().saveContent();
       },
 
-      updateBlock: (blockId: string, updates: Partial<ContentBlock>) => {
-        const { content } = get();
-        if (!content) return;
+      dismissConflict: () => {
+        set({ conflict: null });
+      },
 
-        const blockIndex = content.blocks.findIndex((b) => b.meta.id === blockId);
-        if (blockIndex === -1) return;
+      recoverDraft: () => {
+        const state = get();
+        const { recoverableDraft: draft, content, contentVersion } = state;
+        if (!draft || !content) return;
 
-        // 保存历史
-        get().pushHistory();
+        // 草稿基于旧版本：以草稿的基础版本、草稿和加载的最新内容三方合并
+        let target = draft.content;
+        if (draft.baseVersion < contentVersion) {
+          const merge = mergeContent(draft.base, draft.content, content);
+          if (merge.conflicts.length > 0) {
+            set({
+              conflict: { remoteVersion: contentVersion, remoteContent: content, merge, draft },
+              recoverableDraft: null,
+            });
+            return;
+          }
+          target = resolveContentMerge(merge);
+        }
 
-        const updatedBlocks = [...content.blocks];
-        updatedBlocks[blockIndex] = {
-          ...updatedBlocks[blockIndex],
-          ...updates,
-          meta: {
-            ...updatedBlocks[blockIndex].meta,
-            ...(updates.meta || {}),
-            last_edited_at: new Date().toISOString(),
-          },
-        } as ContentBlock;
+        // 以操作的形式应用，其他编辑者同步看到；撤销历史沿用草稿中的记录
+        set({ ...restoreDraftHistory(applyContent(state, target), draft), recoverableDraft: null });
+      },
 
-        set({
-          content: { ...content, blocks: updatedBlocks },
-          isDirty: true,
+      discardDraft: () => {
+        const { recoverableDraft: draft } = get();
+        if (!draft) return;
+
+        set({ recoverableDraft: null });
+        void editorDrafts.remove(draft.itemId).catch((error) => {
+          console.warn('[Drafts] Failed to remove draft:', error);
         });
       },
 
-      addBlock: (type: BlockType, afterBlockId?: string) => {
-        const { content } = get();
-        if (!content) return;
+      restoreVersion: (content: StructuredContent) => {
+        const state = get();
+        if (!state.content) return;
+        set(applyContent(state, content));
+      },
+
+      restoreBlock: (blockId: string, source: StructuredContent) => {
+        const state = get();
+        if (!state.content || !state.collab) return;
+
+        const current = state.content.blocks;
+        const sourceIndex = source.blocks.findIndex((b) => b.meta.id === blockId);
+        let target: ContentBlock[];
+
+        if (sourceIndex === -1) {
+          target = current.filter((b) => b.meta.id !== blockId);
+        } else if (current.some((b) => b.meta.id === blockId)) {
+          target = current.map((b) => (b.meta.id === blockId ? source.blocks[sourceIndex] : b));
+        } else {
+          // 草稿中已删除：放回它在该版本中的前一个 Block 之后
+          let at = 0;
+          for (let i = sourceIndex - 1; i >= 0; i--) {
+            const previous = current.findIndex((b) => b.meta.id === source.blocks[i].meta.id);
+            if (previous !== -1) {
+              at = previous + 1;
+              break;
+            }
+          }
+          target = [...current.slice(0, at), source.blocks[sourceIndex], ...current.slice(at)];
+        }
+
+        const update = commitOperations(state, diffBlocks(state.collab, target));
+        if (update) {
+          set({ ...update, selectedBlockId: keepSelection(state.selectedBlockId, update.content!.blocks) });
+        }
+      },
+
+      // ============ Block 操作 ============
 
-        get().pushHistory();
+      selectBlock: (blockId: string | null) => {
+        set({ selectedBlockId: blockId, localCursor: null });
+      },
+
+      updateBlock: (blockId: string, updates: Partial<ContentBlock>) => {
+        const state = get();
+        const block = state.content?.blocks.find((b) => b.meta.id === blockId);
+        if (!block) return;
+
+        // 只为变化的字段生成操作
+        const drafts: CollabOperationDraft[] = [];
+        for (const [field, value] of Object.entries(updates)) {
+          if (field === 'meta') continue;
+          if (!isSameFieldValue(field, value, getBlockField(block, field))) {
+            drafts.push({ kind: 'set_field', block_id: blockId, field, value });
+          }
+        }
+
+        const meta = { ...block.meta, ...(updates.meta || {}) };
+        if (drafts.length > 0 || !isSameFieldValue('meta', meta, block.meta)) {
+          drafts.push({
+            kind: 'set_field',
+            block_id: blockId,
+            field: 'meta',
+            value: { ...meta, last_edited_at: new Date().toISOString() },
+          });
+        }
+
+        const mergeKey = `${blockId}:${drafts.map((d) => (d.kind === 'set_field' ? d.field : '')).sort().join(',')}`;
+        const update = commitOperations(state, drafts, mergeKey);
+        if (update) set(update);
+      },
+
+      addBlock: (type: BlockType, afterBlockId?: string) => {
+        const state = get();
+        const { content, collab } = state;
+        if (!content || !collab) return;
 
         let insertIndex = content.blocks.length;
         if (afterBlockId) {
@@ -570,59 +961,51 @@ export const useEditorStore = create<EditorStore>()(
         }
 
         const newBlock = createNewBlock(type, insertIndex);
-        const updatedBlocks = [...content.blocks];
-        updatedBlocks.splice(insertIndex, 0, newBlock);
-
-        set({
-          content: { ...content, blocks: reorderBlocks(updatedBlocks) },
-          isDirty: true,
-          selectedBlockId: newBlock.meta.id,
-        });
+        const update = commitOperations(state, [
+          {
+            kind: 'insert_block',
+            block_id: newBlock.meta.id,
+            block: newBlock,
+            position: positionAt(collab, insertIndex),
+          },
+        ]);
+        if (update) set({ ...update, selectedBlockId: newBlock.meta.id });
       },
 
       deleteBlock: (blockId: string) => {
-        const { content, selectedBlockId } = get();
-        if (!content) return;
-
-        get().pushHistory();
-
-        const updatedBlocks = content.blocks.filter((b) => b.meta.id !== blockId);
+        const state = get();
+        const update = commitOperations(state, [{ kind: 'delete_block', block_id: blockId }]);
+        if (!update) return;
 
         set({
-          content: { ...content, blocks: reorderBlocks(updatedBlocks) },
-          isDirty: true,
-          selectedBlockId: selectedBlockId === blockId ? null : selectedBlockId,
+          ...update,
+          selectedBlockId: state.selectedBlockId === blockId ? null : state.selectedBlockId,
         });
       },
 
       moveBlock: (fromIndex: number, toIndex: number) => {
-        const { content } = get();
-        if (!content) return;
+        const state = get();
+        const { content, collab } = state;
+        if (!content || !collab) return;
         if (fromIndex === toIndex) return;
         if (fromIndex < 0 || fromIndex >= content.blocks.length) return;
         if (toIndex < 0 || toIndex >= content.blocks.length) return;
 
-        get().pushHistory();
-
-        const updatedBlocks = [...content.blocks];
-        const [movedBlock] = updatedBlocks.splice(fromIndex, 1);
-        updatedBlocks.splice(toIndex, 0, movedBlock);
-
-        set({
-          content: { ...content, blocks: reorderBlocks(updatedBlocks) },
-          isDirty: true,
-        });
+        const blockId = content.blocks[fromIndex].meta.id;
+        const update = commitOperations(state, [
+          { kind: 'move_block', block_id: blockId, position: positionAt(collab, toIndex, blockId) },
+        ]);
+        if (update) set(update);
       },
 
       duplicateBlock: (blockId: string) => {
-        const { content } = get();
-        if (!content) return;
+        const state = get();
+        const { content, collab } = state;
+        if (!content || !collab) return;
 
         const blockIndex = content.blocks.findIndex((b) => b.meta.id === blockId);
         if (blockIndex === -1) return;
 
-        get().pushHistory();
-
         const originalBlock = content.blocks[blockIndex];
         const duplicatedBlock: ContentBlock = {
           ...JSON.parse(JSON.stringify(originalBlock)),
@@ -634,72 +1017,128 @@ export const useEditorStore = create<EditorStore>()(
           },
         };
 
-        const updatedBlocks = [...content.blocks];
-        updatedBlocks.splice(blockIndex + 1, 0, duplicatedBlock);
-
-        set({
-          content: { ...content, blocks: reorderBlocks(updatedBlocks) },
-          isDirty: true,
-          selectedBlockId: duplicatedBlock.meta.id,
-        });
+        const update = commitOperations(state, [
+          {
+            kind: 'insert_block',
+            block_id: duplicatedBlock.meta.id,
+            block: duplicatedBlock,
+            position: positionAt(collab, blockIndex + 1),
+          },
+        ]);
+        if (update) set({ ...update, selectedBlockId: duplicatedBlock.meta.id });
       },
 
       // ============ 历史操作 ============
 
-      pushHistory: () => {
-        const { content, history, historyIndex, maxHistoryLength } = get();
-        if (!content) return;
+      undo: () => {
+        const state = get();
+        if (state.historyIndex < 0) return;
 
-        // 截断历史到当前位置
-        const newHistory = history.slice(0, historyIndex + 1);
+        const update = replayHistoryItem(state, state.historyIndex, 'undo');
+        if (update) set(update);
+      },
 
-        // 添加新历史项
-        newHistory.push({
-          content: JSON.parse(JSON.stringify(content)),
-          timestamp: Date.now(),
-        });
+      redo: () => {
+        const state = get();
+        if (state.historyIndex >= state.history.length - 1) return;
+
+        const update = replayHistoryItem(state, state.historyIndex + 1, 'redo');
+        if (update) set(update);
+      },
+
+      // ============ 协同编辑 ============
+
+      applyRemoteOperations: (operations: CollabOperation[]) => {
+        const { collab, content, clock, selectedBlockId } = get();
+        if (!collab || !content || operations.length === 0) return;
 
-        // 限制历史长度
-        if (newHistory.length > maxHistoryLength) {
-          newHistory.shift();
+        const next = applyOperations(collab, operations);
+        if (next === collab) {
+          set({ clock: maxClock(clock, operations) });
+          return;
         }
 
+        // 远程修改由对方保存，不标记为本地未保存更改
+        const blocks = materializeBlocks(next);
         set({
-          history: newHistory,
-          historyIndex: newHistory.length - 1,
+          collab: next,
+          clock: maxClock(clock, operations),
+          content: { ...content, blocks },
+          selectedBlockId: keepSelection(selectedBlockId, blocks),
         });
       },
 
-      undo: () => {
-        const { history, historyIndex } = get();
-        if (historyIndex <= 0) return;
+      mergeRemoteState: (remote: CollabState) => {
+        const { collab, content, clock, selectedBlockId } = get();
+        if (!collab || !content) return;
+
+        let remoteClock = clock;
+        for (const registers of Object.values(remote.registers)) {
+          const stamps = [registers.position_stamp, registers.deleted_stamp, ...Object.values(registers.fields)];
+          remoteClock = stamps.reduce((max, stamp) => Math.max(max, stamp.clock), remoteClock);
+        }
 
-        const newIndex = historyIndex - 1;
-        const historyItem = history[newIndex];
+        const next = mergeCollabState(collab, remote);
+        if (next === collab) {
+          set({ clock: remoteClock });
+          return;
+        }
 
+        const blocks = materializeBlocks(next);
         set({
-          content: JSON.parse(JSON.stringify(historyItem.content)),
-          historyIndex: newIndex,
-          isDirty: true,
+          collab: next,
+          clock: remoteClock,
+          content: { ...content, blocks },
+          selectedBlockId: keepSelection(selectedBlockId, blocks),
         });
       },
 
-      redo: () => {
-        const { history, historyIndex } = get();
-        if (historyIndex >= history.length - 1) return;
+      takePendingOperations: () => {
+        const { pendingOperations } = get();
+        if (pendingOperations.length > 0) {
+          set({ pendingOperations: [] });
+        }
+        return pendingOperations;
+      },
 
-        const newIndex = historyIndex + 1;
-        const historyItem = history[newIndex];
+      updateCollaborator: (presence: CollabPresence) => {
+        const { siteId, collaborators } = get();
+        if (presence.site_id === siteId) return;
+
+        const next = { ...collaborators };
+        if (presence.status === 'leave') {
+          delete next[presence.site_id];
+        } else {
+          next[presence.site_id] = {
+            ...presence,
+            color: getCollaboratorColor(presence.site_id),
+            last_seen: Date.now(),
+          };
+        }
+        set({ collaborators: next });
+      },
 
-        set({
-          content: JSON.parse(JSON.stringify(historyItem.content)),
-          historyIndex: newIndex,
-          isDirty: true,
-        });
+      pruneCollaborators: () => {
+        const { collaborators } = get();
+        const now = Date.now();
+        const expired = Object.values(collaborators).filter((c) => now - c.last_seen > PRESENCE_TIMEOUT_MS);
+        if (expired.length === 0) return;
+
+        const next = { ...collaborators };
+        expired.forEach((c) => delete next[c.site_id]);
+        set({ collaborators: next });
+      },
+
+      setLocalCursor: (cursor: LocalCursor | null) => {
+        set({ localCursor: cursor });
       },
 
       // ============ 预览操作 ============
 
+      setPreviewMode: (mode: PreviewMode) => {
+        set({ previewMode: mode });
+      },
+
       setPreviewDevice: (device: DeviceType) => {
         set({ previewDevice: device });
       },
@@ -708,22 +1147,29 @@ export const useEditorStore = create<EditorStore>()(
         const { itemId, content } = get();
         if (!itemId) return;
 
+        // 记录请求时的内容，用于和之后的编辑比较
+        const snapshot: StructuredContent | null = content ? JSON.parse(JSON.stringify(content)) : null;
         set({ isPreviewLoading: true });
 
-        // Demo 模式：生成本地预览
-        if (itemId.startsWith('demo-') && content) {
-          const demoHtml = generateDemoPreviewHtml(content);
-          set({ previewHtml: demoHtml, isPreviewLoading: false });
+        // Demo 模式：没有后端，最终渲染也使用客户端渲染
+        if (itemId.startsWith('demo-') && snapshot) {
+          set({
+            previewHtml: renderContentHtml(snapshot),
+            previewContent: snapshot,
+            previewError: null,
+            isPreviewLoading: false,
+          });
           return;
         }
 
         try {
           const html = await apiClient.getContentPreview(itemId);
-          set({ previewHtml: html, isPreviewLoading: false });
+          set({ previewHtml: html, previewContent: snapshot, previewError: null, isPreviewLoading: false });
         } catch (error) {
+          // 不设置 error：即时预览不依赖后端，编辑可以继续
           set({
             isPreviewLoading: false,
-            error: error instanceof Error ? error.message : 'Failed to load preview',
+            previewError: error instanceof Error ? error.message : 'Failed to load preview',
           });
         }
       },
@@ -742,14 +1188,16 @@ export const useEditorStore = create<EditorStore>()(
       closeEditor: () => {
         const { isDirty } = get();
 
-        // 如果有未保存的更改，可以在这里添加确认逻辑
+        // 未保存的修改已写入本地草稿，重新打开时可以恢复
         if (isDirty) {
-          // 暂时直接关闭，可以后续添加确认对话框
           console.warn('Closing editor with unsaved changes');
         }
 
+        // 保留编辑会话 ID 和时钟，重新打开后的操作仍然比之前的新
         set({
           ...initialState,
+          siteId: get().siteId,
+          clock: get().clock,
           isEditorOpen: false,
         });
       },
@@ -758,6 +1206,10 @@ export const useEditorStore = create<EditorStore>()(
         set((state) => ({ showPropertyPanel: !state.showPropertyPanel }));
       },
 
+      toggleVersionHistory: () => {
+        set((state) => ({ showVersionHistory: !state.showVersionHistory }));
+      },
+
       // ============ 错误处理 ============
 
       setError: (error: string | null) => {
@@ -784,7 +1236,7 @@ export const useSelectedBlock = () => {
 
 /** 获取是否可以撤销 */
 export const useCanUndo = () => {
-  return useEditorStore((state) => state.historyIndex > 0);
+  return useEditorStore((state) => state.historyIndex >= 0);
 };
 
 /** 获取是否可以重做 */
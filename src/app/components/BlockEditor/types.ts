@@ -374,17 +374,27 @@ export type EditorWebSocketEvent =
   | EditorPreviewRequestEvent
   | EditorPreviewUpdateEvent
   | EditorGenerationProgressEvent
-  | EditorContentSavedEvent;
+  | EditorContentSavedEvent
+  | EditorPresenceEvent
+  | EditorSyncEvent;
 
-/** 内容更新事件 (客户端 → 服务器) */
+/**
+ * 内容更新事件 (客户端 ↔ 服务器)
+ * 服务器把带 operations 的更新转发给编辑同一内容的其他客户端
+ */
 export interface EditorContentUpdateEvent {
   type: 'editor.content_update';
   data: {
     item_id: string;
-    update: {
+    /** 发送方的编辑会话 ID（用于忽略自己的回显） */
+    site_id?: string;
+    /** 单个字段更新（触发预览刷新） */
+    update?: {
       path: string;
       value: unknown;
     };
+    /** 协同编辑操作 */
+    operations?: CollabOperation[];
   };
 }
 
@@ -428,6 +438,78 @@ export interface EditorContentSavedEvent {
   };
 }
 
+/** 在线状态 (客户端 ↔ 服务器) */
+export interface EditorPresenceEvent {
+  type: 'editor.presence';
+  data: CollabPresence;
+}
+
+/** 完整协同状态，回复新加入的编辑者 (客户端 ↔ 服务器) */
+export interface EditorSyncEvent {
+  type: 'editor.sync';
+  data: {
+    item_id: string;
+    site_id: string;
+    /** 接收方编辑会话 ID */
+    target_site_id: string;
+    state: CollabState;
+  };
+}
+
+// ============ 协同编辑 ============
+
+/** Lamport 时间戳（时钟相同时按站点 ID 比较，保证全序） */
+export interface CollabStamp {
+  clock: number;
+  site: string;
+}
+
+/**
+ * 协同编辑操作
+ * - insert_block: 写入整个 Block（新增或恢复已删除的 Block）
+ * - delete_block: 标记删除
+ * - move_block: 修改位置（分数位置，按位置 + Block ID 排序）
+ * - set_field: 修改单个字段（value 为 undefined 表示删除字段）
+ */
+export type CollabOperation =
+  | { kind: 'insert_block'; block_id: string; block: ContentBlock; position: number; stamp: CollabStamp }
+  | { kind: 'delete_block'; block_id: string; stamp: CollabStamp }
+  | { kind: 'move_block'; block_id: string; position: number; stamp: CollabStamp }
+  | { kind: 'set_field'; block_id: string; field: string; value: unknown; stamp: CollabStamp };
+
+/** 单个 Block 的协同寄存器（每个寄存器最后写入者胜出） */
+export interface CollabBlockRegisters {
+  position: number;
+  position_stamp: CollabStamp;
+  deleted: boolean;
+  deleted_stamp: CollabStamp;
+  fields: Record<string, CollabStamp>;
+}
+
+/** 协同状态：所有 Block（包括已删除的）及其寄存器；插入尚未到达的 Block 只有部分字段 */
+export interface CollabState {
+  blocks: Record<string, Partial<ContentBlock>>;
+  registers: Record<string, CollabBlockRegisters>;
+}
+
+/** 编辑者在线状态 */
+export interface CollabPresence {
+  item_id: string;
+  site_id: string;
+  status: 'join' | 'update' | 'leave';
+  user: {
+    id: string;
+    name: string;
+    avatar?: string | null;
+  };
+  /** 正在编辑的 Block */
+  block_id: string | null;
+  /** 正在编辑的字段（属性面板中输入框的 id） */
+  field: string | null;
+  /** 字段中的光标/选区 */
+  selection: { start: number; end: number } | null;
+}
+
 // ============ 编辑器状态 ============
 
 /** 编辑器模式 */
@@ -0,0 +1,158 @@
+/**
+ * 按 Block 对比两个版本的结构化内容
+ * 以 Block ID 对应：识别新增、删除、移动的 Block，以及修改的字段
+ */
+
+import { getBlockField, getFieldNames, getPageField } from '../blockFields';
+import { isSameFieldValue } from '../collab';
+import type { BlockType, ContentBlock, StructuredContent } from '../types';
+
+// ============ 类型定义 ============
+
+/** 字段修改（新增字段 before 为 undefined，删除字段 after 为 undefined） */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** 单个 Block 的变化 */
+export interface BlockDiff {
+  blockId: string;
+  type: BlockType;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  /** 相对顺序是否变化（新增、删除的 Block 为 false） */
+  moved: boolean;
+  before: ContentBlock | null;
+  after: ContentBlock | null;
+  /** 修改的字段（meta 中的顺序和编辑时间不计入） */
+  fields: FieldChange[];
+}
+
+/** 两个版本的对比结果 */
+export interface VersionDiff {
+  /** 按新版本的顺序排列，删除的 Block 放在它原来的前一个 Block 之后 */
+  blocks: BlockDiff[];
+  /** 修改的页面级字段（标题、SEO 等） */
+  pageFields: FieldChange[];
+  summary: { added: number; removed: number; modified: number; moved: number };
+}
+
+// ============ 辅助函数 ============
+
+/** 对比两个 Block 或页面的字段 */
+function diffFields<T extends object>(
+  before: T,
+  after: T,
+  read: (value: T, field: string) => unknown,
+  skip?: string
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of getFieldNames(before, after)) {
+    if (field === skip) continue;
+    const beforeValue = read(before, field);
+    const afterValue = read(after, field);
+    if (!isSameFieldValue(field, beforeValue, afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * 相对顺序不变的 Block（双方共有 Block 顺序的最长公共子序列），
+ * 其余共有 Block 视为移动
+ */
+function stableBlockIds(beforeIds: string[], afterIds: string[]): Set<string> {
+  const m = beforeIds.length;
+  const n = afterIds.length;
+  const dp: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      dp[i][j] = beforeIds[i] === afterIds[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+
+  const stable = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (beforeIds[i] === afterIds[j]) {
+      stable.add(beforeIds[i]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return stable;
+}
+
+// ============ 公开方法 ============
+
+/** 对比两个版本（before 为旧版本，after 为新版本） */
+export function diffVersions(before: StructuredContent, after: StructuredContent): VersionDiff {
+  const beforeBlocks = new Map(before.blocks.map((block) => [block.meta.id, block]));
+  const afterBlocks = new Map(after.blocks.map((block) => [block.meta.id, block]));
+  const beforeIds = before.blocks.map((block) => block.meta.id);
+  const afterIds = after.blocks.map((block) => block.meta.id);
+
+  const stable = stableBlockIds(
+    beforeIds.filter((id) => afterBlocks.has(id)),
+    afterIds.filter((id) => beforeBlocks.has(id))
+  );
+
+  const blocks: BlockDiff[] = afterIds.map((id) => {
+    const afterBlock = afterBlocks.get(id)!;
+    const beforeBlock = beforeBlocks.get(id) ?? null;
+    if (!beforeBlock) {
+      return { blockId: id, type: afterBlock.meta.type, status: 'added', moved: false, before: null, after: afterBlock, fields: [] };
+    }
+    const fields = diffFields(beforeBlock, afterBlock, getBlockField);
+    return {
+      blockId: id,
+      type: afterBlock.meta.type,
+      status: fields.length > 0 ? 'modified' : 'unchanged',
+      moved: !stable.has(id),
+      before: beforeBlock,
+      after: afterBlock,
+      fields,
+    };
+  });
+
+  // 删除的 Block 放在它原来的前一个 Block 之后
+  beforeIds.forEach((id, index) => {
+    if (afterBlocks.has(id)) return;
+    const beforeBlock = beforeBlocks.get(id)!;
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const previous = blocks.findIndex((block) => block.blockId === beforeIds[i]);
+      if (previous !== -1) {
+        at = previous + 1;
+        break;
+      }
+    }
+    blocks.splice(at, 0, {
+      blockId: id,
+      type: beforeBlock.meta.type,
+      status: 'removed',
+      moved: false,
+      before: beforeBlock,
+      after: null,
+      fields: [],
+    });
+  });
+
+  return {
+    blocks,
+    pageFields: diffFields(before, after, getPageField, 'blocks'),
+    summary: {
+      added: blocks.filter((block) => block.status === 'added').length,
+      removed: blocks.filter((block) => block.status === 'removed').length,
+      modified: blocks.filter((block) => block.status === 'modified').length,
+      moved: blocks.filter((block) => block.moved).length,
+    },
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * 内容版本对比
+ *
+ * 用法:
+ * import { diffVersions, diffText } from './versions';
+ */
+
+export { diffVersions, type VersionDiff, type BlockDiff, type FieldChange } from './diff';
+export { diffText, fieldToText, type TextDiffSegment } from './textDiff';
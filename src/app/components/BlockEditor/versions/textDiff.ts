@@ -0,0 +1,95 @@
+/**
+ * 字段级文本 diff
+ * 按词（含空白）做最长公共子序列，用于版本对比中逐字段显示修改
+ */
+
+// ============ 类型定义 ============
+
+/** diff 片段 */
+export interface TextDiffSegment {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+// ============ 辅助函数 ============
+
+/** 拆分为词和空白，保留所有字符 */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '');
+}
+
+/** 追加片段，相邻同类型片段合并 */
+function pushSegment(segments: TextDiffSegment[], type: TextDiffSegment['type'], text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+// ============ 公开方法 ============
+
+/**
+ * 字段值转为用于比较的文本
+ * 字符串原样；字符串数组每项一行；其他值格式化为 JSON
+ */
+export function fieldToText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value.join('\n');
+  return JSON.stringify(value, null, 2);
+}
+
+/** 计算两段文本的词级 diff */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // 去掉公共前后缀，减少 LCS 表的大小
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const m = midA.length;
+  const n = midB.length;
+
+  // LCS 表（从后往前，便于正向回溯）
+  const dp: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      dp[i][j] = midA[i] === midB[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  if (start > 0) pushSegment(segments, 'unchanged', a.slice(0, start).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < m || j < n) {
+    if (i < m && j < n && midA[i] === midB[j]) {
+      pushSegment(segments, 'unchanged', midA[i]);
+      i++;
+      j++;
+    } else if (i < m && (j === n || dp[i + 1][j] >= dp[i][j + 1])) {
+      // 删除的内容显示在新增的内容之前
+      pushSegment(segments, 'removed', midA[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'added', midB[j]);
+      j++;
+    }
+  }
+
+  if (endA < a.length) pushSegment(segments, 'unchanged', a.slice(endA).join(''));
+  return segments;
+}
@@ -8,7 +8,7 @@ import React, {
   FormEvent,
   useEffect,
 } from "react";
-import { ArrowUp, Square, RefreshCw, Copy, MessageCircle, MessagesSquare, Plus, Check, Wrench, Sparkles } from "lucide-react";
+import { ArrowUp, Square, RefreshCw, Copy, Download, Share2, MessageCircle, MessagesSquare, Plus, Check, Wrench, Sparkles, X } from "lucide-react";
 import { ChatMessage } from "@/app/components/ChatMessage";
 import { ImageUploadArea } from "@/app/components/ImageUploadArea";
 import type {
@@ -30,6 +30,28 @@ import {
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { ConversationList } from "@/app/components/ConversationList";
+import { SlashCommandPalette } from "@/app/components/SlashCommandPalette";
+import { useSlashCommands } from "@/hooks/useSlashCommands";
+import { MentionPalette } from "@/app/components/MentionPalette";
+import { useMentions } from "@/hooks/useMentions";
+import { getMessageVersions, type MessageVersions } from "@/lib/stream/branches";
+import {
+  getMessageVariantsState,
+  getVariantGroupId,
+  getVariantMessage,
+  type MessageVariantsState,
+} from "@/lib/stream/variants";
+import { VariantCompareDialog } from "@/app/components/ResponseVariants";
+import { ConversationExportDialog } from "@/app/components/ConversationExportDialog";
+import { ConversationShareDialog } from "@/app/components/ConversationShareDialog";
+import { ConversationUsageSummary } from "@/app/components/TokenUsage";
+import { apiClient } from "@/lib/api/client";
+import {
+  createTemplateFromConversation,
+  createTemplateFromExport,
+  parseConversationExport,
+  type ConversationTemplate,
+} from "@/lib/templates";
 
 // 兼容 LangGraph 和自定义消息格式
 type MessageLike = Message | {
@@ -55,11 +77,14 @@ export const ChatInterface = React.memo(() => {
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const allChatsButtonRef = useRef<HTMLButtonElement | null>(null);
   const chatContainerRef = useRef<HTMLDivElement | null>(null);
+  const composerRef = useRef<HTMLFormElement | null>(null);
 
   const [input, setInput] = useState("");
   const [_visibleSuggestions, setVisibleSuggestions] = useState(4);
   const [copySuccess, setCopySuccess] = useState(false);
   const [showAllChats, setShowAllChats] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   const [position, setPosition] = useState({ top: 0, left: 0 });
   const [chatContainerHeight, setChatContainerHeight] = useState(600);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
@@ -80,11 +105,26 @@ export const ChatInterface = React.memo(() => {
     startNewChat,
     switchConversation,
     setCid,
+    createConversationFromTemplate,
     // 新增：分页和重试 (WEBSOCKET_FRONTEND_GUIDE.md)
     pagination,
     loadMoreMessages,
     retryMessage,
     retryingTurnId,
+    // 发件箱（离线消息）
+    outbox,
+    sendOutboxMessageNow,
+    discardOutboxMessage,
+    // 会话分支
+    branches,
+    editMessage,
+    switchBranch,
+    // 回复版本
+    messageVariants,
+    regenerateMessage,
+    loadMessageVariants,
+    showVariant,
+    selectVariant,
     // 新增：工具进度状态 (PROGRESS_EVENTS_FRONTEND_GUIDE.md)
     toolProgress,
     toolProgressByName,
@@ -109,8 +149,130 @@ export const ChatInterface = React.memo(() => {
 
   // 检查是否可以提交
   // 如果没有 cid，允许发送（发送时会自动创建会话）
-  // 如果有 cid 但没有连接，禁止发送
-  const submitDisabled = isLoading || (!!cid && !isConnected);
+  // 如果有 cid 但没有连接，消息会进入发件箱，重连后自动发送
+  const submitDisabled = isLoading;
+
+  // 发件箱条目按 clientMessageId 索引（即用户消息 ID）
+  const outboxById = useMemo(
+    () => new Map(outbox.map((entry) => [entry.clientMessageId, entry])),
+    [outbox]
+  );
+
+  // @ 引用（输入 @ 搜索上下文、文件、内容和子代理）
+  const mentions = useMentions({ input, setInput, textareaRef });
+  const { takeMentions, handleKeyDown: handleMentionKeyDown } = mentions;
+
+  // 被编辑过的用户消息的版本信息（按消息 ID 索引）
+  const versionsById = useMemo(() => {
+    const result = new Map<string, MessageVersions>();
+    if (branches.length === 0) return result;
+    for (const message of messages) {
+      if (message.role !== "user") continue;
+      const versions = getMessageVersions(message.id, branches);
+      if (versions) result.set(message.id, versions);
+    }
+    return result;
+  }, [messages, branches]);
+
+  const handleEditMessage = useCallback(
+    (messageId: string, content: string) => {
+      editMessage(messageId, content).catch((error: unknown) => {
+        toast.error(error instanceof Error ? error.message : "Failed to edit message");
+      });
+    },
+    [editMessage]
+  );
+
+  const handleSwitchBranch = useCallback(
+    (branchId: string) => {
+      switchBranch(branchId).catch((error: unknown) => {
+        toast.error(error instanceof Error ? error.message : "Failed to switch branch");
+      });
+    },
+    [switchBranch]
+  );
+
+  // 重新生成过的助手回复的版本信息（按消息 ID 索引）
+  const variantsById = useMemo(() => {
+    const result = new Map<string, MessageVariantsState>();
+    for (const message of messages) {
+      if (message.role !== "assistant") continue;
+      const variants = getMessageVariantsState(message, messageVariants);
+      if (variants) result.set(message.id, variants);
+    }
+    return result;
+  }, [messages, messageVariants]);
+
+  const handleRegenerate = useCallback(
+    (messageId: string, model?: string) => {
+      regenerateMessage(messageId, model).catch((error: unknown) => {
+        toast.error(error instanceof Error ? error.message : "Failed to regenerate response");
+      });
+    },
+    [regenerateMessage]
+  );
+
+  const handleShowVariant = useCallback(
+    (groupId: string, index: number) => {
+      showVariant(groupId, index).catch((error: unknown) => {
+        toast.error(error instanceof Error ? error.message : "Failed to load responses");
+      });
+    },
+    [showVariant]
+  );
+
+  const handleSelectVariant = useCallback(
+    (groupId: string, variantId: string) => {
+      selectVariant(groupId, variantId).catch((error: unknown) => {
+        toast.error(error instanceof Error ? error.message : "Failed to select response");
+      });
+    },
+    [selectVariant]
+  );
+
+  // 版本对比：打开前确保所有版本已加载
+  const [compareGroupId, setCompareGroupId] = useState<string | null>(null);
+  const handleCompareVariants = useCallback(
+    (groupId: string) => {
+      if (messageVariants[groupId]?.loaded) {
+        setCompareGroupId(groupId);
+        return;
+      }
+      loadMessageVariants(groupId)
+        .then(() => setCompareGroupId(groupId))
+        .catch((error: unknown) => {
+          toast.error(error instanceof Error ? error.message : "Failed to load responses");
+        });
+    },
+    [messageVariants, loadMessageVariants]
+  );
+
+  // 对比的版本列表；默认对比当前显示的版本和正在使用的版本（两者相同时取相邻版本）
+  const compareData = useMemo(() => {
+    const group = compareGroupId ? messageVariants[compareGroupId] : undefined;
+    if (!compareGroupId || !group) return null;
+    const variants = group.variantIds
+      .map((id) => getVariantMessage(id, group, messages))
+      .filter((message): message is Message => !!message);
+    const displayed = messages.find((message) => getVariantGroupId(message) === compareGroupId);
+    const displayedIndex = displayed ? group.variantIds.indexOf(displayed.id) : -1;
+    if (!displayed || displayedIndex === -1) return { variants, canonicalId: group.canonicalId };
+    const otherId = displayed.id !== group.canonicalId
+      ? group.canonicalId
+      : group.variantIds[displayedIndex > 0 ? displayedIndex - 1 : displayedIndex + 1];
+    return {
+      variants,
+      canonicalId: group.canonicalId,
+      initialIds: otherId ? ([otherId, displayed.id] as [string, string]) : undefined,
+    };
+  }, [compareGroupId, messageVariants, messages]);
+
+  // 模板新建的会话中待发送的提示词（第一条填入输入框，发送后填入下一条）
+  const [templatePrompts, setTemplatePrompts] = useState<{
+    cid: string;
+    prompts: string[];
+    total: number;
+  } | null>(null);
 
   const handleSubmit = useCallback(
     (e?: FormEvent) => {
@@ -131,11 +293,9 @@ export const ChatInterface = React.memo(() => {
         return;
       }
       
-      // 检查连接状态（如果有 cid 且未连接，需要等待）
-      // 但如果没有 cid，允许发送（会自动创建会话）
+      // 未连接时消息进入发件箱，重连后自动发送
       if (cid && !isConnected) {
-        toast.warning("连接中，请稍候...");
-        return;
+        toast.info("连接中断，消息将在重新连接后发送");
       }
       
       // 检查是否有待上传的图片
@@ -145,17 +305,37 @@ export const ChatInterface = React.memo(() => {
       }
       
       // 发送消息
-      sendMessage(messageText, hasReadyAttachments ? readyAttachments : undefined);
+      const messageMentions = takeMentions(messageText);
+      sendMessage(
+        messageText,
+        hasReadyAttachments ? readyAttachments : undefined,
+        messageMentions.length > 0 ? messageMentions : undefined
+      );
       
       // 清空输入和附件
       setInput("");
       imageUpload.clearAll();
+
+      // 模板提示词：发送后填入下一条
+      setTemplatePrompts((prev) =>
+        prev && prev.cid === cid
+          ? prev.prompts.length > 1 ? { ...prev, prompts: prev.prompts.slice(1) } : null
+          : prev
+      );
     },
-    [input, isLoading, sendMessage, setInput, cid, isConnected, imageUpload]
+    [input, isLoading, sendMessage, setInput, cid, isConnected, imageUpload, takeMentions]
   );
 
+  // 斜杠命令面板（输入 / 打开）
+  const focusInput = useCallback(() => textareaRef.current?.focus(), []);
+  const slashCommands = useSlashCommands({ input, setInput, focusInput });
+  const handleSlashKeyDown = slashCommands.handleKeyDown;
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // 命令面板打开时由面板处理方向键、Enter 和 Esc
+      if (handleSlashKeyDown(e)) return;
+      if (handleMentionKeyDown(e)) return;
       if (submitDisabled) return;
       // 检查 isComposing 防止中文输入法输入时回车确认拼音导致提前发送
       if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
@@ -163,7 +343,7 @@ export const ChatInterface = React.memo(() => {
         handleSubmit();
       }
     },
-    [handleSubmit, submitDisabled]
+    [handleSubmit, submitDisabled, handleSlashKeyDown, handleMentionKeyDown]
   );
 
   // Reset input, suggestions, and attachments when cid changes
@@ -173,6 +353,13 @@ export const ChatInterface = React.memo(() => {
     imageUpload.clearAll();
   }, [cid]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // 填入模板的下一条提示词（在上面的重置之后执行）
+  useEffect(() => {
+    if (templatePrompts && templatePrompts.cid === cid) {
+      setInput(templatePrompts.prompts[0]);
+    }
+  }, [cid, templatePrompts]);
+
   // Handle suggestion click - use full prompt
   const _handleSuggestionClick = useCallback((fullPrompt: string) => {
     setInput(fullPrompt);
@@ -210,6 +397,56 @@ export const ChatInterface = React.memo(() => {
     }
   }, [pagination, isLoadingMore, loadMoreMessages]);
 
+  // 搜索结果跳转（SearchPalette 发出 seenos:jump_to_message）
+  // 消息不在已加载的范围内时向前分页加载，找到后滚动到该消息并短暂高亮
+  const [jumpTarget, setJumpTarget] = useState<{ cid: string; messageId: string } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleJump = (e: Event) => {
+      setJumpTarget((e as CustomEvent<{ cid: string; messageId: string }>).detail);
+    };
+    window.addEventListener("seenos:jump_to_message", handleJump);
+    return () => window.removeEventListener("seenos:jump_to_message", handleJump);
+  }, []);
+
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.cid !== cid || isLoadingHistory || isLoadingMore) return;
+    // 等待会话历史加载
+    if (!messages.some((message) => message.cid === cid)) return;
+
+    const { messageId } = jumpTarget;
+    if (messages.some((message) => message.id === messageId)) {
+      setJumpTarget(null);
+      setHighlightedMessageId(messageId);
+      scrollRef.current
+        ?.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`)
+        ?.scrollIntoView({ block: "center", behavior: "smooth" });
+      return;
+    }
+
+    if (!pagination?.hasMore) {
+      setJumpTarget(null);
+      toast.error("This message is not in the current branch of the conversation");
+      return;
+    }
+    setIsLoadingMore(true);
+    loadMoreMessages()
+      .then((loaded) => {
+        if (!loaded) {
+          setJumpTarget(null);
+          toast.error("Failed to load the message");
+        }
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [jumpTarget, cid, messages, isLoadingHistory, isLoadingMore, pagination, loadMoreMessages, scrollRef]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // 新增：滚动加载更多（当滚动到顶部时）
   const handleScroll = useCallback(() => {
     const scrollElement = scrollRef.current;
@@ -234,6 +471,61 @@ export const ChatInterface = React.memo(() => {
     }
   }, [messages]);
 
+  // 导出对话框（/export 命令发出 seenos:open_export）
+  useEffect(() => {
+    const handleOpenExport = () => setShowExport(true);
+    window.addEventListener("seenos:open_export", handleOpenExport);
+    return () => window.removeEventListener("seenos:open_export", handleOpenExport);
+  }, []);
+
+  // 分享对话框（/share 命令发出 seenos:open_share）
+  useEffect(() => {
+    const handleOpenShare = () => setShowShare(true);
+    window.addEventListener("seenos:open_share", handleOpenShare);
+    return () => window.removeEventListener("seenos:open_share", handleOpenShare);
+  }, []);
+
+  // 用模板新建会话（复制已有会话 / 导入 JSON）
+  const startFromTemplate = useCallback(
+    async (template: ConversationTemplate) => {
+      const newCid = await createConversationFromTemplate(template);
+      setTemplatePrompts(
+        template.prompts.length > 0
+          ? { cid: newCid, prompts: template.prompts, total: template.prompts.length }
+          : null
+      );
+      setShowAllChats(false);
+      toast.success(`Created "${template.title}"`);
+    },
+    [createConversationFromTemplate]
+  );
+
+  const handleDuplicateConversation = useCallback(
+    async (sourceCid: string) => {
+      try {
+        const conversation = await apiClient.getConversation(sourceCid);
+        await startFromTemplate(createTemplateFromConversation(conversation));
+      } catch (error) {
+        console.error("Failed to duplicate conversation:", error);
+        toast.error("Failed to duplicate conversation");
+      }
+    },
+    [startFromTemplate]
+  );
+
+  const handleImportConversation = useCallback(
+    async (file: File) => {
+      try {
+        const exported = parseConversationExport(await file.text());
+        await startFromTemplate(createTemplateFromExport(exported));
+      } catch (error) {
+        console.error("Failed to import conversation:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to import conversation");
+      }
+    },
+    [startFromTemplate]
+  );
+
   const handleNewChat = useCallback(() => {
     if (startNewChat) {
       startNewChat();
@@ -496,9 +788,10 @@ export const ChatInterface = React.memo(() => {
           <div className="flex items-center gap-2 text-sm font-medium text-foreground">
             <MessageCircle size={16} />
             <span>Chat</span>
+            <ConversationUsageSummary messages={messages} />
           </div>
 
-          {/* Right: Copy, All Chats, +New Chat buttons */}
+          {/* Right: Copy, Export, All Chats, +New Chat buttons */}
           <div className="flex items-center gap-1">
             {/* Copy Chat button with text */}
             <button
@@ -516,6 +809,30 @@ export const ChatInterface = React.memo(() => {
               <span>Copy</span>
             </button>
 
+            {/* Export button */}
+            <button
+              type="button"
+              onClick={() => setShowExport(true)}
+              disabled={messages.length === 0}
+              className="flex items-center gap-1.5 rounded-md px-2 py-1 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:opacity-50 disabled:hover:bg-transparent"
+              title="Export chat as Markdown, HTML, PDF or JSON"
+            >
+              <Download size={16} />
+              <span>Export</span>
+            </button>
+
+            {/* Share button */}
+            <button
+              type="button"
+              onClick={() => setShowShare(true)}
+              disabled={!cid || messages.length === 0}
+              className="flex items-center gap-1.5 rounded-md px-2 py-1 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:opacity-50 disabled:hover:bg-transparent"
+              title="Share a read-only link to this conversation"
+            >
+              <Share2 size={16} />
+              <span>Share</span>
+            </button>
+
             {/* All Chats button */}
             <button
               ref={allChatsButtonRef}
@@ -640,6 +957,18 @@ export const ChatInterface = React.memo(() => {
                     animate={isLoadingHistory}
                     toolProgress={toolProgress}
                     toolProgressByName={toolProgressByName}
+                    outboxEntry={data.message.id ? outboxById.get(data.message.id) : undefined}
+                    onSendNow={sendOutboxMessageNow}
+                    onDiscard={discardOutboxMessage}
+                    versions={data.message.id ? versionsById.get(data.message.id) : undefined}
+                    onSwitchBranch={handleSwitchBranch}
+                    onEdit={cid ? handleEditMessage : undefined}
+                    variants={data.message.id ? variantsById.get(data.message.id) : undefined}
+                    onRegenerate={cid && isAssistant && !(data.message as Message).parentMessageId ? handleRegenerate : undefined}
+                    onShowVariant={handleShowVariant}
+                    onSelectVariant={handleSelectVariant}
+                    onCompareVariants={handleCompareVariants}
+                    isHighlighted={!!data.message.id && data.message.id === highlightedMessageId}
                   />
                 );
               })}
@@ -746,13 +1075,43 @@ export const ChatInterface = React.memo(() => {
                 </div>
               </div>
 
+              <SlashCommandPalette palette={slashCommands} anchorRef={composerRef} />
+              <MentionPalette palette={mentions} anchorRef={composerRef} />
               <form
+                ref={composerRef}
                 onSubmit={handleSubmit}
                 className={cn(
                   "flex flex-1 flex-col overflow-hidden rounded-lg border border-border bg-background",
                   "transition-colors duration-200 ease-in-out focus-within:border-primary/50"
                 )}
               >
+                {/* 模板提示词进度 */}
+                {templatePrompts && templatePrompts.cid === cid && (
+                  <div className="flex flex-shrink-0 items-center gap-2 border-b border-border px-4 py-1.5 text-xs text-muted-foreground">
+                    <span>
+                      Template prompt {templatePrompts.total - templatePrompts.prompts.length + 1} of {templatePrompts.total}
+                    </span>
+                    {templatePrompts.prompts.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setTemplatePrompts((prev) => prev && { ...prev, prompts: prev.prompts.slice(1) })
+                        }
+                        className="rounded px-1.5 py-0.5 hover:bg-accent hover:text-foreground"
+                      >
+                        Skip
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setTemplatePrompts(null)}
+                      className="ml-auto rounded p-0.5 hover:bg-accent hover:text-foreground"
+                      title="Stop using template prompts"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                )}
                 {/* 图片上传预览区 (IMAGE_UPLOAD_FRONTEND_GUIDE.md) */}
                 {imageUpload.attachments.length > 0 && (
                   <div className="flex-shrink-0 border-b border-border px-4 pt-3">
@@ -769,9 +1128,13 @@ export const ChatInterface = React.memo(() => {
                 <textarea
                   ref={textareaRef}
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
+                  onChange={(e) => {
+                    setInput(e.target.value);
+                    mentions.syncCaret(e.target);
+                  }}
+                  onSelect={(e) => mentions.syncCaret(e.currentTarget)}
                   onKeyDown={handleKeyDown}
-                  placeholder={isLoading ? "Running..." : "Write your message..."}
+                  placeholder={isLoading ? "Running..." : "Write your message, type / for commands or @ to reference..."}
                   className="font-inherit flex-1 resize-none border-0 bg-transparent px-4 py-4 text-sm leading-6 text-foreground outline-none placeholder:text-muted-foreground"
                 />
                 <div className="flex flex-shrink-0 items-center justify-between gap-2 px-4 py-3">
@@ -809,12 +1172,8 @@ export const ChatInterface = React.memo(() => {
                     type={isLoading ? "button" : "submit"}
                     onClick={isLoading ? stopStream : handleSubmit}
                     disabled={
-                      !isLoading && (
-                        // 没有内容也没有准备好的附件
-                        (!input.trim() && imageUpload.getReadyAttachments().length === 0) ||
-                        // 有 cid 但未连接
-                        (!!cid && !isConnected)
-                      )
+                      // 没有内容也没有准备好的附件
+                      !isLoading && !input.trim() && imageUpload.getReadyAttachments().length === 0
                     }
                     className={cn(
                       "flex items-center gap-1.5 rounded border border-border bg-background px-3 py-1.5 text-xs font-medium text-foreground transition-colors hover:border-primary/50 hover:bg-accent",
@@ -840,6 +1199,22 @@ export const ChatInterface = React.memo(() => {
         </ResizablePanelGroup>
       </div>
 
+      {/* 回复版本对比 */}
+      <VariantCompareDialog
+        open={!!compareData}
+        onOpenChange={(open) => {
+          if (!open) setCompareGroupId(null);
+        }}
+        variants={compareData?.variants ?? []}
+        canonicalId={compareData?.canonicalId ?? ""}
+        initialIds={compareData?.initialIds}
+        onSelect={(variantId) => compareGroupId && handleSelectVariant(compareGroupId, variantId)}
+      />
+
+      {/* 会话导出 */}
+      <ConversationExportDialog open={showExport} onOpenChange={setShowExport} />
+      <ConversationShareDialog open={showShare} onOpenChange={setShowShare} />
+
       {/* All Chats Overlay - positioned as dropdown from All Chats button */}
       {showAllChats && (
         <>
@@ -866,6 +1241,8 @@ export const ChatInterface = React.memo(() => {
                 onClose={() => setShowAllChats(false)}
                 onDeleteSuccess={handleNewChat}
                 onDeleteCurrentConversation={handleDeleteCurrentConversation}
+                onDuplicate={handleDuplicateConversation}
+                onImport={handleImportConversation}
               />
             </div>
           </div>
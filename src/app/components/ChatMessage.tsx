@@ -1,17 +1,24 @@
 "use client";
 
-import React, { useMemo, useState, useEffect } from "react";
-import { Bot, User, FileText, ChevronDown, ChevronUp, Coins } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { Bot, User, FileText, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Clock, Loader2, Pencil, X } from "lucide-react";
 import { MarkdownContent } from "@/app/components/MarkdownContent";
 import { ContentBlocksRenderer, AttachmentRefBlockView } from "@/app/components/ContentBlocks";
 import { FeedbackButtons } from "@/app/components/FeedbackButtons";
+import { OutboxMessageBanner } from "@/app/components/FailedMessageBanner";
+import { MessageMentionChips } from "@/app/components/MentionPalette";
+import { RegenerateSelect, VariantControls } from "@/app/components/ResponseVariants";
+import { TokenUsageDisplay } from "@/app/components/TokenUsage";
+import { useShowTokenUsage } from "@/hooks/useTokenUsage";
+import type { OutboxEntry } from "@/lib/stream/outbox";
+import type { MessageVersions } from "@/lib/stream/branches";
+import type { MessageVariantsState } from "@/lib/stream/variants";
 import type {
   ToolCall,
   ActionRequest,
   ReviewConfig,
   Message,
   ContextSearchResult,
-  TokenUsageSummary,
   ContentBlock,
   AttachmentRefBlock,
   ToolProgress,
@@ -90,44 +97,137 @@ const CitationsSection = React.memo<{ citations: ContextSearchResult[] }>(({ cit
 });
 CitationsSection.displayName = "CitationsSection";
 
-// Token Usage 组件 - 显示 token 使用量
-// 兼容两种格式：
-// 1. 后端历史消息格式: { promptTokens, completionTokens, totalCost }
-// 2. 前端完整格式: { totalTokens, promptTokens, completionTokens, totalCost, callCount }
-const TokenUsageDisplay = React.memo<{ usage: TokenUsageSummary | { promptTokens?: number; completionTokens?: number; totalCost?: number } }>(({ usage }) => {
-  if (!usage) return null;
-
-  // 计算 totalTokens：优先使用 totalTokens，否则用 promptTokens + completionTokens
-  const promptTokens = (usage as TokenUsageSummary).promptTokens ?? 0;
-  const completionTokens = (usage as TokenUsageSummary).completionTokens ?? 0;
-  const totalTokens = (usage as TokenUsageSummary).totalTokens ?? (promptTokens + completionTokens);
-  
-  // 如果没有任何 token 数据，不显示
-  if (totalTokens === 0) return null;
-
-  const totalCost = (usage as TokenUsageSummary).totalCost ?? 0;
-  const callCount = (usage as TokenUsageSummary).callCount ?? 1;
+// 发件箱状态组件 - 显示用户消息的发送状态（排队中/发送中/失败）
+const OutboxStatusDisplay = React.memo<{
+  entry: OutboxEntry;
+  onSendNow?: (clientMessageId: string) => void;
+  onDiscard?: (clientMessageId: string) => void;
+}>(({ entry, onSendNow, onDiscard }) => {
+  if (entry.status === "failed" && onSendNow && onDiscard) {
+    return (
+      <OutboxMessageBanner
+        entry={entry}
+        onSendNow={onSendNow}
+        onDiscard={onDiscard}
+        className="w-full max-w-md"
+      />
+    );
+  }
 
   return (
-    <div className="mt-2 flex items-center gap-2 text-[10px] text-muted-foreground">
-      <Coins className="h-3 w-3" />
-      <span>{totalTokens.toLocaleString()} tokens</span>
-      {totalCost > 0 && (
+    <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+      {entry.status === "sending" ? (
         <>
-          <span>•</span>
-          <span>${totalCost.toFixed(4)}</span>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          <span>Sending...</span>
         </>
-      )}
-      {callCount > 1 && (
+      ) : (
         <>
-          <span>•</span>
-          <span>{callCount} calls</span>
+          <Clock className="h-3 w-3" />
+          <span>Waiting for connection</span>
+          {onDiscard && (
+            <button
+              type="button"
+              onClick={() => onDiscard(entry.clientMessageId)}
+              className="ml-1 rounded p-0.5 hover:bg-accent hover:text-foreground"
+              title="Discard"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
         </>
       )}
     </div>
   );
 });
-TokenUsageDisplay.displayName = "TokenUsageDisplay";
+OutboxStatusDisplay.displayName = "OutboxStatusDisplay";
+
+// 用户消息的版本切换（‹ 2/3 ›），每个版本对应一个分支
+const BranchNavigator = React.memo<{
+  versions: MessageVersions;
+  disabled?: boolean;
+  onSwitch: (branchId: string) => void;
+}>(({ versions, disabled, onSwitch }) => {
+  const { index } = versions;
+  const total = versions.versions.length;
+  return (
+    <div className="flex items-center gap-0.5 text-[11px] tabular-nums text-muted-foreground">
+      <button
+        type="button"
+        onClick={() => onSwitch(versions.versions[index - 1].branchId)}
+        disabled={disabled || index === 0}
+        className="rounded p-0.5 hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+        title="Previous version"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </button>
+      <span>
+        {index + 1}/{total}
+      </span>
+      <button
+        type="button"
+        onClick={() => onSwitch(versions.versions[index + 1].branchId)}
+        disabled={disabled || index === total - 1}
+        className="rounded p-0.5 hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+        title="Next version"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+});
+
+BranchNavigator.displayName = "BranchNavigator";
+
+// 编辑用户消息：保存后从该消息处分叉出新分支并重新生成回复
+const UserMessageEditor = React.memo<{
+  initialContent: string;
+  onSave: (content: string) => void;
+  onCancel: () => void;
+}>(({ initialContent, onSave, onCancel }) => {
+  const [value, setValue] = useState(initialContent);
+  const canSave = value.trim() !== "" && value.trim() !== initialContent.trim();
+
+  return (
+    <div className="w-full rounded-2xl border border-border bg-background p-3 shadow-sm">
+      <textarea
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            e.preventDefault();
+            onCancel();
+          } else if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing && canSave) {
+            e.preventDefault();
+            onSave(value.trim());
+          }
+        }}
+        rows={Math.min(10, Math.max(2, value.split("\n").length))}
+        className="w-full resize-none bg-transparent text-sm leading-relaxed text-foreground outline-none"
+      />
+      <div className="mt-2 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full px-3 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-foreground"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(value.trim())}
+          disabled={!canSave}
+          className="rounded-full bg-foreground px-3 py-1 text-xs text-background disabled:opacity-50"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+});
+
+UserMessageEditor.displayName = "UserMessageEditor";
 
 // 兼容 LangGraph 和自定义消息格式
 type MessageLike = Message | {
@@ -161,6 +261,32 @@ interface ChatMessageProps {
   toolProgress?: Map<string, ToolProgress>;
   /** 工具进度信息 (toolName -> ToolProgress) - 用于处理后端 toolCallId 不一致的问题 */
   toolProgressByName?: Map<string, ToolProgress>;
+  /** 发件箱条目 - 用户消息尚未发送成功时提供 */
+  outboxEntry?: OutboxEntry;
+  /** 立即发送发件箱中的消息 */
+  onSendNow?: (clientMessageId: string) => void;
+  /** 丢弃发件箱中的消息 */
+  onDiscard?: (clientMessageId: string) => void;
+  /** 用户消息的版本（被编辑过的位置才有） */
+  versions?: MessageVersions | null;
+  /** 切换到某个版本所在的分支 */
+  onSwitchBranch?: (branchId: string) => void;
+  /** 编辑用户消息并从该处分叉；不提供时不可编辑 */
+  onEdit?: (messageId: string, content: string) => void;
+  /** 助手回复的版本（重新生成过的位置才有） */
+  variants?: MessageVariantsState | null;
+  /** 重新生成助手回复；不提供时不可重新生成 */
+  onRegenerate?: (messageId: string, model?: string) => void;
+  /** 显示第 index 个版本 */
+  onShowVariant?: (groupId: string, index: number) => void;
+  /** 设为后续对话基于的版本 */
+  onSelectVariant?: (groupId: string, variantId: string) => void;
+  /** 打开版本对比 */
+  onCompareVariants?: (groupId: string) => void;
+  /** 搜索跳转到该消息后短暂高亮 */
+  isHighlighted?: boolean;
+  /** 只读模式（分享页面）：不显示编辑、反馈、重新生成等操作 */
+  readOnly?: boolean;
 }
 
 export const ChatMessage = React.memo<ChatMessageProps>(
@@ -178,52 +304,21 @@ export const ChatMessage = React.memo<ChatMessageProps>(
     animate = false,
     toolProgress,
     toolProgressByName,
+    outboxEntry,
+    onSendNow,
+    onDiscard,
+    versions,
+    onSwitchBranch,
+    onEdit,
+    variants,
+    onRegenerate,
+    onShowVariant,
+    onSelectVariant,
+    onCompareVariants,
+    isHighlighted,
+    readOnly = false,
   }) => {
-    // 从 localStorage 读取 showTokenUsage 设置
-    // AuthProvider 在登录和更新设置时会同步更新 localStorage
-    // 默认开启 token 显示
-    const SETTINGS_KEY = "deep_agents_settings";
-    const [showTokenUsage, setShowTokenUsage] = useState(true);
-    
-    useEffect(() => {
-      // 从 localStorage 读取设置
-      const loadSettings = () => {
-        try {
-          const settings = localStorage.getItem(SETTINGS_KEY);
-          if (settings) {
-            const parsed = JSON.parse(settings);
-            // 只有明确设置为 false 时才关闭
-            setShowTokenUsage(parsed.showTokenUsage !== false);
-          }
-        } catch {
-          // 忽略解析错误，保持默认开启
-        }
-      };
-      
-      // 初始加载
-      loadSettings();
-      
-      // 监听 storage 变化（当设置在其他地方更新时，如设置页面）
-      const handleStorageChange = (e: StorageEvent) => {
-        if (e.key === SETTINGS_KEY) {
-          loadSettings();
-        }
-      };
-      
-      // 监听自定义事件（同一页面内的设置更新）
-      const handleSettingsUpdate = () => {
-        loadSettings();
-      };
-      
-
-      window.addEventListener("storage", handleStorageChange);
-      window.addEventListener("settings-updated", handleSettingsUpdate);
-      
-      return () => {
-        window.removeEventListener("storage", handleStorageChange);
-        window.removeEventListener("settings-updated", handleSettingsUpdate);
-      };
-    }, []);
+    const showTokenUsage = useShowTokenUsage();
     
     // 兼容 type 和 role 两种格式
     const messageType = (message as { type?: string }).type || (message as { role?: string }).role;
@@ -248,13 +343,18 @@ export const ChatMessage = React.memo<ChatMessageProps>(
     
     const hasContent = messageContent && messageContent.trim() !== "";
     const hasToolCalls = toolCalls.length > 0;
+    const [isEditing, setIsEditing] = useState(false);
+    // 发件箱中尚未发送的消息不能编辑
+    const canEdit = isUser && !readOnly && !!onEdit && !!message.id && !outboxEntry;
 
     return (
       <div
+        data-message-id={message.id}
         className={cn(
-          "group flex w-full max-w-full gap-3 overflow-x-hidden py-3",
+          "group flex w-full max-w-full gap-3 overflow-x-hidden rounded-lg py-3 transition-colors duration-500",
           isUser ? "flex-row-reverse" : "flex-row",
-          animate && "animate-message-fade-in"
+          animate && "animate-message-fade-in",
+          isHighlighted && "bg-accent/60"
         )}
       >
         {/* Avatar */}
@@ -344,14 +444,57 @@ export const ChatMessage = React.memo<ChatMessageProps>(
                 }
                 return null;
               })()}
-              {/* 文本内容 */}
-              {hasContent && (
+              {/* @ 引用 */}
+              {(message as Message).metadata?.mentions && (
+                <MessageMentionChips
+                  mentions={(message as Message).metadata!.mentions!}
+                  className="justify-end"
+                />
+              )}
+              {/* 文本内容（编辑时显示编辑框） */}
+              {isEditing ? (
+                <UserMessageEditor
+                  initialContent={messageContent}
+                  onSave={(content) => {
+                    setIsEditing(false);
+                    onEdit?.(message.id!, content);
+                  }}
+                  onCancel={() => setIsEditing(false)}
+                />
+              ) : hasContent && (
                 <div className="overflow-hidden break-words rounded-2xl rounded-tr-sm bg-foreground px-4 py-3 text-sm font-normal leading-[160%] text-background shadow-sm dark:bg-foreground dark:text-background">
                   <p className="m-0 whitespace-pre-wrap break-words text-sm leading-relaxed">
                     {messageContent}
                   </p>
                 </div>
               )}
+              {/* 编辑 / 版本切换 */}
+              {!isEditing && (canEdit || versions) && (
+                <div className="flex items-center gap-1">
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => setIsEditing(true)}
+                      disabled={isLoading}
+                      className="rounded p-1 text-muted-foreground opacity-0 transition-opacity hover:bg-accent hover:text-foreground group-hover:opacity-100 disabled:pointer-events-none disabled:opacity-0"
+                      title="Edit and resend"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {versions && onSwitchBranch && (
+                    <BranchNavigator versions={versions} disabled={isLoading} onSwitch={onSwitchBranch} />
+                  )}
+                </div>
+              )}
+              {/* 发送状态（仅发件箱中尚未发送成功的消息） */}
+              {outboxEntry && (
+                <OutboxStatusDisplay
+                  entry={outboxEntry}
+                  onSendNow={onSendNow}
+                  onDiscard={onDiscard}
+                />
+              )}
             </div>
           )}
 
@@ -366,6 +509,7 @@ export const ChatMessage = React.memo<ChatMessageProps>(
                   isStreaming={isLoading}
                   toolProgress={toolProgress}
                   toolProgressByName={toolProgressByName}
+                  readOnly={readOnly}
                 />
               )}
               
@@ -390,21 +534,37 @@ export const ChatMessage = React.memo<ChatMessageProps>(
                 <CitationsSection citations={(message as Message).metadata!.citations!} />
               )}
               
-              {/* Token Usage - 显示 token 使用量（需要用户开启设置） */}
-              {showTokenUsage && (message as Message).metadata?.usage && (
-                <div className="mt-2">
-                  <TokenUsageDisplay usage={(message as Message).metadata!.usage!} />
-                </div>
+              {/* Token Usage - 显示 token 使用量（需要用户开启设置；分享页不显示） */}
+              {showTokenUsage && !readOnly && (message as Message).metadata?.usage && (
+                <TokenUsageDisplay
+                  usage={(message as Message).metadata!.usage}
+                  model={(message as Message).metadata?.model}
+                  className="mt-2"
+                />
               )}
               
               {/* Feedback Buttons - 反馈按钮（点赞/踩） */}
-              {!isLoading && (message as Message).cid && (message as Message).id && (
+              {!readOnly && !isLoading && (message as Message).cid && (message as Message).id && (
                 <div className="mt-2 flex items-center justify-between">
                   <FeedbackButtons
                     messageId={(message as Message).id}
                     conversationId={(message as Message).cid!}
                     initialFeedback={(message as Message).metadata?.feedback as Feedback | null | undefined}
                   />
+                  <div className="flex items-center gap-2">
+                    {variants && onShowVariant && onSelectVariant && onCompareVariants && (
+                      <VariantControls
+                        messageId={(message as Message).id}
+                        variants={variants}
+                        onShow={onShowVariant}
+                        onSelect={onSelectVariant}
+                        onCompare={onCompareVariants}
+                      />
+                    )}
+                    {onRegenerate && (
+                      <RegenerateSelect onRegenerate={(model) => onRegenerate((message as Message).id, model)} />
+                    )}
+                  </div>
                 </div>
               )}
             </div>
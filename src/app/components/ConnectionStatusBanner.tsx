@@ -6,8 +6,16 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useChatContext } from "@/providers/ChatProvider";
 import type { MaxReconnectReachedData } from "@/lib/stream/websocket";
+import type { TransportKind } from "@/lib/stream/transport";
 import { toast } from "sonner";
 
+/** 传输方式显示名称 */
+const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  websocket: "WebSocket",
+  sse: "SSE",
+  polling: "长轮询",
+};
+
 interface ConnectionStatusBannerProps {
   className?: string;
 }
@@ -19,10 +27,11 @@ interface ConnectionStatusBannerProps {
  * - reconnecting: 使用轻量级 toast 提示，不打扰用户
  * - server_restarting: 显示小型底部提示条
  * - failed: 显示完整的顶部横幅，带手动重连按钮
+ * - 回退到 SSE / 长轮询时：显示切换提示，并在底部显示当前传输方式
  */
 export const ConnectionStatusBanner = React.memo<ConnectionStatusBannerProps>(
   ({ className }) => {
-    const { connectionState, manualReconnect } = useChatContext();
+    const { connectionState, manualReconnect, activeTransport } = useChatContext();
     
     // 是否显示最大重连次数到达的提示
     const [showMaxReconnectReached, setShowMaxReconnectReached] = useState(false);
@@ -34,6 +43,7 @@ export const ConnectionStatusBanner = React.memo<ConnectionStatusBannerProps>(
     // 用于防止重复显示 toast
     const lastToastRef = useRef<string | null>(null);
     const reconnectingToastId = useRef<string | number | null>(null);
+    const lastTransportRef = useRef<TransportKind | null>(null);
 
     // 监听全局事件
     useEffect(() => {
@@ -109,6 +119,19 @@ export const ConnectionStatusBanner = React.memo<ConnectionStatusBannerProps>(
       }
     }, [connectionState, isManualReconnecting]);
 
+    // 传输方式回退时提示用户
+    useEffect(() => {
+      if (!activeTransport) return;
+      const previousTransport = lastTransportRef.current;
+      lastTransportRef.current = activeTransport;
+      if (previousTransport && previousTransport !== activeTransport) {
+        toast.info(`已切换到 ${TRANSPORT_LABELS[activeTransport]} 连接`, {
+          id: 'transport-fallback',
+          description: '当前网络不支持 WebSocket，已自动切换连接方式',
+        });
+      }
+    }, [activeTransport]);
+
     const handleManualReconnect = useCallback(() => {
       setIsManualReconnecting(true);
       setShowMaxReconnectReached(false);
@@ -128,7 +151,26 @@ export const ConnectionStatusBanner = React.memo<ConnectionStatusBannerProps>(
     // 只在连接失败时显示完整横幅
     const shouldShowBanner = showMaxReconnectReached || connectionState === 'failed';
 
+    // 使用回退传输方式时，在底部显示当前传输方式
+    const isFallbackTransport = !!activeTransport && activeTransport !== "websocket";
+
     if (!shouldShowBanner) {
+      if (isFallbackTransport && connectionState === "connected") {
+        return (
+          <div
+            className={cn(
+              "fixed bottom-3 left-3 z-40",
+              "flex items-center gap-1.5 rounded-full border px-2.5 py-1",
+              "bg-background/90 text-xs text-muted-foreground shadow-sm backdrop-blur",
+              className
+            )}
+            title="WebSocket 不可用，已自动切换连接方式"
+          >
+            <Wifi className="h-3 w-3" />
+            兼容模式 · {TRANSPORT_LABELS[activeTransport]}
+          </div>
+        );
+      }
       return null;
     }
 
@@ -151,6 +193,11 @@ export const ConnectionStatusBanner = React.memo<ConnectionStatusBannerProps>(
               <div className="min-w-0">
                 <p className="text-sm font-medium text-red-800 dark:text-red-200">
                   连接已断开
+                  {isFallbackTransport && (
+                    <span className="ml-2 text-xs font-normal text-red-600/80 dark:text-red-300/70">
+                      ({TRANSPORT_LABELS[activeTransport]})
+                    </span>
+                  )}
                   {maxReconnectData && (
                     <span className="ml-2 text-xs font-normal text-red-600/80 dark:text-red-300/70">
                       (已尝试 {maxReconnectData.attempts} 次)
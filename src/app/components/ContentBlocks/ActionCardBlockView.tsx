@@ -8,6 +8,8 @@ import { cn } from "@/lib/utils";
 
 interface ActionCardBlockViewProps {
   block: ActionCardBlock;
+  /** 只读模式（分享页面）：内容项不可选择 */
+  readOnly?: boolean;
 }
 
 // 页面类型显示名称
@@ -43,7 +45,7 @@ const ROLE_COLORS: Record<string, string> = {
  * - 后端自动激活对应的 Writer Skill
  */
 export const ActionCardBlockView = React.memo<ActionCardBlockViewProps>(
-  ({ block }) => {
+  ({ block, readOnly = false }) => {
     // 使用可选的 context，避免在没有 ChatProvider 时抛出错误
     const chatContext = useContext(ChatContext);
     const sendMessage = chatContext?.sendMessage;
@@ -109,7 +111,7 @@ export const ActionCardBlockView = React.memo<ActionCardBlockViewProps>(
         <div className="space-y-2">
           {block.items.map((item) => {
             const isSelected = selectedItemId === item.id;
-            const isDisabled = isLoading || (selectedItemId !== null && !isSelected);
+            const isDisabled = readOnly || isLoading || (selectedItemId !== null && !isSelected);
 
             return (
               <button
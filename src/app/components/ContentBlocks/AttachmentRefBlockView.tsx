@@ -1,11 +1,13 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useContext, useState } from "react";
 import { ImageIcon, FileText, Music, Video, Database, File, Loader2, AlertCircle, Download } from "lucide-react";
 import type { AttachmentRefBlock } from "@/types";
-import { useChatContext } from "@/providers/ChatProvider";
+import { ChatContext, type ChatContextType } from "@/providers/ChatProvider";
 import { cn } from "@/lib/utils";
 
+const EMPTY_FILES: ChatContextType["files"] = {};
+
 interface AttachmentRefBlockViewProps {
   block: AttachmentRefBlock;
 }
@@ -21,7 +23,8 @@ interface AttachmentRefBlockViewProps {
 export const AttachmentRefBlockView = React.memo<AttachmentRefBlockViewProps>(
   ({ block }) => {
     const { attachmentType, mimeType, filename, fileSize, previewUrl, metadata, attachmentId } = block;
-    const { files } = useChatContext(); // Use context to resolve files
+    // 使用可选的 context（分享页面没有 ChatProvider），用于解析文件地址
+    const files = useContext(ChatContext)?.files ?? EMPTY_FILES;
 
     // Resolve URL: priority previewUrl -> files map -> attachmentId (if http)
     const effectivePreviewUrl = React.useMemo(() => {
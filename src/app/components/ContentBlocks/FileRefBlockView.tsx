@@ -24,6 +24,8 @@ import { oneLight, oneDark } from "react-syntax-highlighter/dist/esm/styles/pris
 
 interface FileRefBlockViewProps {
   block: FileRefBlock;
+  /** 只读模式（分享页面）：只显示路径和内容预览，不能展开或打开文件 */
+  readOnly?: boolean;
 }
 
 // 支持的语言到 Prism 语言的映射
@@ -53,9 +55,10 @@ const LANGUAGE_MAP: Record<string, string> = {
  * - 支持 create/edit/read/delete/write 操作
  * - 点击可展开查看完整内容
  * - 支持 Markdown 预览
+ * - 只读模式下不可交互
  */
 export const FileRefBlockView = React.memo<FileRefBlockViewProps>(
-  ({ block }) => {
+  ({ block, readOnly = false }) => {
     const { path, operation, language, contentPreview } = block;
     // 使用可选的 context，避免在没有 ChatProvider 时抛出错误
     const chatContext = useContext(ChatContext);
@@ -145,6 +148,7 @@ export const FileRefBlockView = React.memo<FileRefBlockViewProps>(
     }, [operation]);
 
     const Icon = operationConfig.icon;
+    const canExpand = !readOnly && !!(fileContent || contentPreview);
 
     // 处理点击语言标签
     const handleLanguageClick = useCallback((e: React.MouseEvent) => {
@@ -178,9 +182,9 @@ export const FileRefBlockView = React.memo<FileRefBlockViewProps>(
           className={cn(
             "file-ref-block rounded-lg overflow-hidden transition-all",
             operationConfig.bgClass,
-            (fileContent || contentPreview) && "cursor-pointer hover:ring-2 hover:ring-primary/30"
+            canExpand && "cursor-pointer hover:ring-2 hover:ring-primary/30"
           )}
-          onClick={handleCardClick}
+          onClick={canExpand ? handleCardClick : undefined}
         >
           {/* Header */}
           <div className="flex items-center gap-2 p-3">
@@ -188,7 +192,10 @@ export const FileRefBlockView = React.memo<FileRefBlockViewProps>(
             <span className="font-mono text-sm truncate flex-1">
               {path}
             </span>
-            {language && (
+            {language && readOnly && (
+              <span className="px-2 text-xs text-muted-foreground">{language}</span>
+            )}
+            {language && !readOnly && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -207,7 +214,7 @@ export const FileRefBlockView = React.memo<FileRefBlockViewProps>(
             >
               {operationConfig.label}
             </span>
-            {(fileContent || contentPreview) && (
+            {canExpand && (
               <span className="text-muted-foreground">
                 {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
               </span>
@@ -1,11 +1,13 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useContext, useState } from "react";
 import { ImageIcon, Loader2, AlertCircle } from "lucide-react";
 import type { ImageBlock } from "@/types";
-import { useChatContext } from "@/providers/ChatProvider";
+import { ChatContext, type ChatContextType } from "@/providers/ChatProvider";
 import { cn } from "@/lib/utils";
 
+const EMPTY_FILES: ChatContextType["files"] = {};
+
 interface ImageBlockViewProps {
   block: ImageBlock;
 }
@@ -21,7 +23,8 @@ interface ImageBlockViewProps {
 export const ImageBlockView = React.memo<ImageBlockViewProps>(
   ({ block }) => {
     const { url, alt, width, height } = block;
-    const { files } = useChatContext(); // Use context to resolve files
+    // 使用可选的 context（分享页面没有 ChatProvider），用于解析文件地址
+    const files = useContext(ChatContext)?.files ?? EMPTY_FILES;
     const [isLoading, setIsLoading] = useState(true);
     const [hasError, setHasError] = useState(false);
 
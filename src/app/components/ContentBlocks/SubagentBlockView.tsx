@@ -11,6 +11,7 @@ import {
 } from "lucide-react";
 import type { SubagentBlock, ContentBlock } from "@/types";
 import { cn } from "@/lib/utils";
+import { TokenUsageDisplay } from "@/app/components/TokenUsage";
 
 // 导入自身用于递归渲染
 import { ContentBlocksRenderer } from "./index";
@@ -18,6 +19,12 @@ import { ContentBlocksRenderer } from "./index";
 interface SubagentBlockViewProps {
   block: SubagentBlock;
   cid?: string;
+  /** 默认是否展开（默认展开） */
+  defaultExpanded?: boolean;
+  /** 嵌套的工具调用默认是否展开 */
+  expandToolCalls?: boolean;
+  /** 只读模式（分享页面） */
+  readOnly?: boolean;
 }
 
 /**
@@ -26,13 +33,14 @@ interface SubagentBlockViewProps {
  * 基于 WEBSOCKET_FRONTEND_GUIDE.md 新架构：
  * - 显示子代理名称、任务描述、状态
  * - 可展开查看嵌套的 childBlocks（工具调用等）
+ * - 显示本次运行的 token 使用量（subagent_end 的 usage；标题栏显示总数，展开后显示明细）
  * - 支持递归渲染嵌套内容
  */
 export const SubagentBlockView = React.memo<SubagentBlockViewProps>(
-  ({ block, cid }) => {
-    const [isExpanded, setIsExpanded] = useState(true); // 默认展开
+  ({ block, cid, defaultExpanded = true, expandToolCalls, readOnly }) => {
+    const [isExpanded, setIsExpanded] = useState(defaultExpanded);
 
-    const { subagentName, subagentDisplayName, taskDescription, status, durationMs, childBlocks } = block;
+    const { subagentName, subagentDisplayName, taskDescription, taskRedacted, status, durationMs, childBlocks, usage } = block;
 
     const statusIcon = useMemo(() => {
       switch (status) {
@@ -96,11 +104,20 @@ export const SubagentBlockView = React.memo<SubagentBlockViewProps>(
               {taskDescription}
             </span>
           )}
+          {/* 分享快照中隐藏了任务描述 */}
+          {taskRedacted && (
+            <span className="text-xs italic text-muted-foreground truncate flex-1 ml-2">
+              Task hidden by the person who shared this conversation
+            </span>
+          )}
           {formattedDuration && (
             <span className="text-xs text-muted-foreground ml-auto">
               {formattedDuration}
             </span>
           )}
+          {usage && !readOnly && (
+            <TokenUsageDisplay usage={usage} compact className={cn(!formattedDuration && "ml-auto")} />
+          )}
           {isExpanded ? (
             <ChevronUp size={14} className="text-muted-foreground flex-shrink-0" />
           ) : (
@@ -111,10 +128,20 @@ export const SubagentBlockView = React.memo<SubagentBlockViewProps>(
         {/* Child Blocks (嵌套内容) */}
         {isExpanded && childBlocks && childBlocks.length > 0 && (
           <div className="subagent-content pl-4 border-l border-dashed border-border/50 ml-2 mt-2 mb-2">
-            <ContentBlocksRenderer blocks={childBlocks} cid={cid} />
+            <ContentBlocksRenderer
+              blocks={childBlocks}
+              cid={cid}
+              expandToolCalls={expandToolCalls}
+              readOnly={readOnly}
+            />
           </div>
         )}
 
+        {/* Token Usage 明细 */}
+        {isExpanded && usage && !readOnly && (
+          <TokenUsageDisplay usage={usage} className="ml-2 mb-2" />
+        )}
+
         {/* Empty State */}
         {isExpanded && (!childBlocks || childBlocks.length === 0) && status === "running" && (
           <div className="pl-4 py-2 text-xs text-muted-foreground italic">
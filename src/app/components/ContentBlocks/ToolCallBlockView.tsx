@@ -237,6 +237,8 @@ interface ToolCallBlockViewProps {
   block: ToolCallBlock;
   /** 实时进度信息（来自 useProgressStore） */
   progress?: ToolProgress;
+  /** 默认是否展开（默认折叠） */
+  defaultExpanded?: boolean;
 }
 
 /**
@@ -249,10 +251,10 @@ interface ToolCallBlockViewProps {
  * - 支持实时进度显示（PROGRESS_EVENTS_FRONTEND_GUIDE.md）
  */
 export const ToolCallBlockView = React.memo<ToolCallBlockViewProps>(
-  ({ block, progress }) => {
-    const [isExpanded, setIsExpanded] = useState(false);
+  ({ block, progress, defaultExpanded = false }) => {
+    const [isExpanded, setIsExpanded] = useState(defaultExpanded);
 
-    const { toolName, toolDisplayName, status, durationMs, args, result, error, toolCallId } = block;
+    const { toolName, toolDisplayName, status, durationMs, args, argsRedacted, result, error, toolCallId } = block;
     
     // 调试日志 - 检查 displayName 和 progress
     console.log(`[ToolCallBlockView] ${toolName}:`, {
@@ -467,6 +469,13 @@ export const ToolCallBlockView = React.memo<ToolCallBlockViewProps>(
               </div>
             )}
 
+            {/* 分享快照中隐藏了参数 */}
+            {argsRedacted && (
+              <div className="px-4 py-3 border-b border-border/20 text-xs italic text-muted-foreground">
+                Arguments hidden by the person who shared this conversation
+              </div>
+            )}
+
             {/* Result */}
             {result !== undefined && (
               <div className="px-4 py-3">
@@ -19,6 +19,12 @@ interface ContentBlocksRendererProps {
   toolProgress?: Map<string, ToolProgress>;
   /** 工具进度信息 (toolName -> ToolProgress) - 用于处理后端 toolCallId 不一致的问题 */
   toolProgressByName?: Map<string, ToolProgress>;
+  /** 工具调用默认是否展开（默认折叠） */
+  expandToolCalls?: boolean;
+  /** 子代理默认是否展开（默认展开） */
+  expandSubagents?: boolean;
+  /** 只读模式（分享页面）：文件引用和内容选择卡片不可交互 */
+  readOnly?: boolean;
 }
 
 /**
@@ -31,7 +37,7 @@ interface ContentBlocksRendererProps {
  * - 支持实时进度显示 (PROGRESS_EVENTS_FRONTEND_GUIDE.md)
  */
 export const ContentBlocksRenderer = React.memo<ContentBlocksRendererProps>(
-  ({ blocks, cid, isStreaming, toolProgress, toolProgressByName }) => {
+  ({ blocks, cid, isStreaming, toolProgress, toolProgressByName, expandToolCalls, expandSubagents, readOnly }) => {
     if (!blocks || blocks.length === 0) {
       return null;
     }
@@ -46,6 +52,9 @@ export const ContentBlocksRenderer = React.memo<ContentBlocksRendererProps>(
             isStreaming={isStreaming}
             toolProgress={toolProgress}
             toolProgressByName={toolProgressByName}
+            expandToolCalls={expandToolCalls}
+            expandSubagents={expandSubagents}
+            readOnly={readOnly}
           />
         ))}
       </div>
@@ -62,13 +71,16 @@ interface ContentBlockItemProps {
   toolProgress?: Map<string, ToolProgress>;
   /** 工具进度信息 (toolName -> ToolProgress) - 用于处理后端 toolCallId 不一致的问题 */
   toolProgressByName?: Map<string, ToolProgress>;
+  expandToolCalls?: boolean;
+  expandSubagents?: boolean;
+  readOnly?: boolean;
 }
 
 /**
  * ContentBlockItem - 根据块类型渲染对应组件
  */
 const ContentBlockItem = React.memo<ContentBlockItemProps>(
-  ({ block, cid, isStreaming, toolProgress, toolProgressByName }) => {
+  ({ block, cid, isStreaming, toolProgress, toolProgressByName, expandToolCalls, expandSubagents, readOnly }) => {
     switch (block.type) {
       case "text":
         return <TextBlockView block={block} cid={cid} isStreaming={isStreaming} />;
@@ -77,18 +89,26 @@ const ContentBlockItem = React.memo<ContentBlockItemProps>(
         // 优先按 toolCallId 查找，找不到再按 toolName 查找（处理后端 ID 不一致问题）
         const toolBlock = block as ToolCallBlock;
         const progress = toolProgress?.get(toolBlock.toolCallId) || toolProgressByName?.get(toolBlock.toolName);
-        return <ToolCallBlockView block={toolBlock} progress={progress} />;
+        return <ToolCallBlockView block={toolBlock} progress={progress} defaultExpanded={expandToolCalls} />;
       }
       case "subagent":
-        return <SubagentBlockView block={block} cid={cid} />;
+        return (
+          <SubagentBlockView
+            block={block}
+            cid={cid}
+            defaultExpanded={expandSubagents}
+            expandToolCalls={expandToolCalls}
+            readOnly={readOnly}
+          />
+        );
       case "file_ref":
-        return <FileRefBlockView block={block} />;
+        return <FileRefBlockView block={block} readOnly={readOnly} />;
       case "image":
         return <ImageBlockView block={block} />;
       case "citation":
         return <CitationBlockView block={block} />;
       case "action_card":
-        return <ActionCardBlockView block={block} />;
+        return <ActionCardBlockView block={block} readOnly={readOnly} />;
       case "attachment_ref":
         return <AttachmentRefBlockView block={block as AttachmentRefBlock} />;
       default:
@@ -506,8 +506,8 @@ export function ContextEditDialog({
 
     try {
       const all = await apiClient.getContextAll();
-      const offsiteKols = (all as any)?.offsite?.persons?.kols || [];
-      const onsiteLeadership = (all as any)?.onsite?.persons?.leadership_team || [];
+      const offsiteKols = all.offsite.persons.kols || [];
+      const onsiteLeadership = all.onsite.persons.leadership_team || [];
       const mergedPool: any[] = [...offsiteKols, ...onsiteLeadership];
 
       const byId = new Map<string, any>();
@@ -519,28 +519,28 @@ export function ContextEditDialog({
         const raw = byId.get(p.id);
         if (!raw) return p;
 
-        // raw 是 data.json 形态（camelCase），p 是 /context/persons 形态（snake_case）
+        // raw 是 /context/all 形态（camelCase），p 是 /context/persons 形态（snake_case）
         const merged: any = {
           id: p.id,
-          user_id: p.user_id || raw.user_id || raw.userId || "",
+          user_id: p.user_id || raw.userId || "",
           category: p.category || raw.category,
           section: p.section || raw.section,
           name: p.name || raw.name || "",
           title: p.title ?? raw.title ?? null,
           bio: p.bio ?? raw.bio ?? null,
-          photo_url: p.photo_url ?? raw.photo_url ?? raw.photoUrl ?? raw.extra?.image_url ?? null,
+          photo_url: p.photo_url ?? raw.photoUrl ?? raw.extra?.imageUrl ?? null,
           platform: p.platform ?? raw.platform ?? raw.extra?.platform ?? null,
           handle: p.handle ?? raw.handle ?? raw.extra?.handle ?? null,
           url: p.url ?? raw.url ?? raw.extra?.url ?? null,
           role: p.role ?? raw.role ?? raw.extra?.role ?? null,
-          social_links: (p.social_links?.length ? p.social_links : (raw.social_links ?? raw.socialLinks)) ?? [],
+          social_links: (p.social_links?.length ? p.social_links : raw.socialLinks) ?? [],
           notes: p.notes ?? raw.notes ?? raw.extra?.notes ?? null,
           extra: { ...(raw.extra || {}), ...(p.extra || {}) },
           sequence: p.sequence ?? raw.sequence ?? 0,
           version: p.version ?? raw.version ?? 1,
-          created_at: p.created_at ?? raw.created_at ?? raw.createdAt ?? new Date().toISOString(),
-          updated_at: p.updated_at ?? raw.updated_at ?? raw.updatedAt ?? new Date().toISOString(),
-          deleted_at: p.deleted_at ?? raw.deleted_at ?? raw.deletedAt ?? null,
+          created_at: p.created_at ?? raw.createdAt ?? new Date().toISOString(),
+          updated_at: p.updated_at ?? raw.updatedAt ?? new Date().toISOString(),
+          deleted_at: p.deleted_at ?? raw.deletedAt ?? null,
         };
 
         return normalizeContextPerson(merged);
@@ -558,7 +558,7 @@ export function ContextEditDialog({
 
     try {
       const all = await apiClient.getContextAll();
-      const pool = (all as any)?.offsite?.entities?.[section] || [];
+      const pool = all.offsite.entities[section] || [];
       const byId = new Map<string, any>();
       for (const raw of pool) {
         if (raw?.id) byId.set(raw.id, raw);
@@ -570,23 +570,23 @@ export function ContextEditDialog({
 
         const merged: any = {
           id: e.id,
-          user_id: e.user_id || raw.user_id || raw.userId || "",
+          user_id: e.user_id || raw.userId || "",
           category: e.category || raw.category,
           section: e.section || raw.section,
           name: e.name || raw.name || "",
           platform: e.platform ?? raw.platform ?? null,
           handle: e.handle ?? raw.handle ?? null,
           url: e.url ?? raw.url ?? null,
-          entity_type: e.entity_type ?? raw.entity_type ?? raw.entityType ?? null,
-          event_date: e.event_date ?? raw.event_date ?? raw.eventDate ?? null,
+          entity_type: e.entity_type ?? raw.entityType ?? null,
+          event_date: e.event_date ?? raw.eventDate ?? null,
           location: e.location ?? raw.location ?? null,
           notes: e.notes ?? raw.notes ?? null,
           extra: { ...(raw.extra || {}), ...(e.extra || {}) },
           sequence: e.sequence ?? raw.sequence ?? 0,
           version: e.version ?? raw.version ?? 1,
-          created_at: e.created_at ?? raw.created_at ?? raw.createdAt ?? new Date().toISOString(),
-          updated_at: e.updated_at ?? raw.updated_at ?? raw.updatedAt ?? new Date().toISOString(),
-          deleted_at: e.deleted_at ?? raw.deleted_at ?? raw.deletedAt ?? null,
+          created_at: e.created_at ?? raw.createdAt ?? new Date().toISOString(),
+          updated_at: e.updated_at ?? raw.updatedAt ?? new Date().toISOString(),
+          deleted_at: e.deleted_at ?? raw.deletedAt ?? null,
         };
 
         return normalizeContextEntity(merged);
@@ -638,11 +638,11 @@ export function ContextEditDialog({
           try {
             const all = await apiClient.getContextAll();
             if (section === "hero_headline" || section === "hero_subheadline") {
-              raw = (all as any)?.onsite?.singletons?.hero_section || raw;
+              raw = all.onsite.singletons.hero_section || raw;
             } else if (section === "brand_assets") {
               // Always merge brand_assets singleton with meta_info from onsite
-              const brandAssetsData = (all as any)?.onsite?.singletons?.brand_assets || raw;
-              const metaInfo = (all as any)?.onsite?.singletons?.meta_info || {};
+              const brandAssetsData = all.onsite.singletons.brand_assets || raw;
+              const metaInfo = all.onsite.singletons.meta_info || {};
               // Merge meta_info into raw data for proper field mapping
               raw = {
                 ...brandAssetsData,
@@ -650,7 +650,7 @@ export function ContextEditDialog({
               };
             } else if (section === "monitoring_scope") {
               // Check if monitoring_scope exists in offsite singletons
-              const monitoringScopeData = (all as any)?.offsite?.singletons?.monitoring_scope;
+              const monitoringScopeData = all.offsite.singletons.monitoring_scope;
               if (monitoringScopeData && Object.keys(monitoringScopeData).length > 0) {
                 raw = monitoringScopeData;
                 // If we found data in /context/all but getSingleton returned 404,
@@ -693,7 +693,8 @@ export function ContextEditDialog({
             if (response.items.length === 0) {
               try {
                 const all = await apiClient.getContextAll();
-                const ctas = (all as any)?.onsite?.singletons?.hero_section?.ctas || [];
+                const heroCtas = all.onsite.singletons.hero_section?.ctas;
+                const ctas = Array.isArray(heroCtas) ? heroCtas : [];
                 
                 // Convert singleton ctas format to items format
                 const ctaItems: ContextItem[] = ctas.map((cta: any, index: number) => ({
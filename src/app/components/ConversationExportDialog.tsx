@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { createRoot } from "react-dom/client";
+import { flushSync } from "react-dom";
+import { FileCode, FileJson, FileText, Loader2, Printer } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ContentBlocksRenderer, AttachmentRefBlockView } from "@/app/components/ContentBlocks";
+import { ChatContext, useChatContext, type ChatContextType } from "@/providers/ChatProvider";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  buildHtmlDocument,
+  buildJsonExport,
+  buildMarkdownExport,
+  collectDocumentCss,
+  downloadTextFile,
+  getConversationTitle,
+  getExportBlocks,
+  getExportFileName,
+  getExportMessages,
+  getMessagePlainText,
+  getRoleLabel,
+  printHtml,
+  type ConversationExportData,
+  type ConversationExportFormat,
+  type ConversationExportOptions,
+} from "@/lib/export";
+import type { AttachmentRefBlock } from "@/app/types/types";
+import { cn } from "@/lib/utils";
+
+const FORMATS: Array<{
+  value: ConversationExportFormat;
+  label: string;
+  description: string;
+  icon: React.ElementType;
+}> = [
+  { value: "markdown", label: "Markdown", description: "Plain text, easy to edit", icon: FileText },
+  { value: "html", label: "HTML", description: "Standalone page, same look as the chat", icon: FileCode },
+  { value: "pdf", label: "PDF", description: "Print dialog, choose Save as PDF", icon: Printer },
+  { value: "json", label: "JSON", description: "Complete data, can be imported back", icon: FileJson },
+];
+
+// ============ HTML 正文 ============
+
+interface ExportDocumentProps {
+  data: ConversationExportData;
+  options: ConversationExportOptions;
+}
+
+/**
+ * ExportDocument - 导出的 HTML 正文
+ *
+ * 与聊天界面使用相同的 ContentBlocksRenderer / MarkdownContent 渲染，
+ * 工具调用和子代理按选项决定初始展开状态（导出后的静态页面无法再切换）
+ */
+function ExportDocument({ data, options }: ExportDocumentProps) {
+  const files = Object.values(data.files);
+
+  return (
+    <article className="export-document flex flex-col gap-6 text-sm">
+      <header className="border-b border-border pb-4">
+        <h1 className="text-2xl font-semibold text-foreground">{data.title}</h1>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Exported {new Date(data.exportedAt).toLocaleString()}
+        </p>
+      </header>
+
+      {getExportMessages(data.messages, options).map((message) => {
+        const blocks = getExportBlocks(message);
+        const isUser = message.role === "user";
+        return (
+          <section key={message.id} className="export-message flex flex-col gap-2">
+            <div className="text-xs font-medium text-muted-foreground">
+              {getRoleLabel(message)}
+              {message.createdAt && ` · ${new Date(message.createdAt).toLocaleString()}`}
+            </div>
+            {isUser ? (
+              <>
+                {blocks
+                  .filter((b): b is AttachmentRefBlock => b.type === "attachment_ref")
+                  .map((block) => (
+                    <AttachmentRefBlockView key={block.id} block={block} />
+                  ))}
+                <div className="whitespace-pre-wrap break-words rounded-lg bg-muted px-4 py-3 leading-relaxed text-foreground">
+                  {getMessagePlainText(message)}
+                </div>
+              </>
+            ) : (
+              <ContentBlocksRenderer
+                blocks={blocks}
+                cid={message.cid}
+                expandToolCalls={options.toolCalls === "expanded"}
+                expandSubagents={options.subagents === "expanded"}
+              />
+            )}
+          </section>
+        );
+      })}
+
+      {data.todos.length > 0 && (
+        <section className="export-message border-t border-border pt-4">
+          <h2 className="mb-2 text-base font-semibold text-foreground">Tasks</h2>
+          <ul className="flex flex-col gap-1">
+            {data.todos.map((todo) => (
+              <li key={todo.id} className={cn(todo.status === "completed" && "text-muted-foreground line-through")}>
+                {todo.content}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {files.length > 0 && (
+        <section className="border-t border-border pt-4">
+          <h2 className="mb-2 text-base font-semibold text-foreground">Files</h2>
+          <div className="flex flex-col gap-3">
+            {files.map((file) => (
+              <div key={file.path}>
+                <div className="font-mono text-xs text-muted-foreground">{file.path}</div>
+                {options.includeFiles && file.content && !file.isBinary && (
+                  <pre className="mt-1 overflow-x-auto whitespace-pre-wrap break-words rounded-md bg-muted p-3 text-xs">
+                    {file.content}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </article>
+  );
+}
+
+/**
+ * 渲染导出的 HTML 正文
+ * 在脱离文档的节点上同步渲染后读取 innerHTML；块组件依赖 ChatContext，沿用当前会话的 context
+ */
+function renderExportBody(
+  chat: ChatContextType,
+  data: ConversationExportData,
+  options: ConversationExportOptions
+): string {
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  try {
+    flushSync(() => {
+      root.render(
+        <ChatContext.Provider value={chat}>
+          <ExportDocument data={data} options={options} />
+        </ChatContext.Provider>
+      );
+    });
+    return container.innerHTML;
+  } finally {
+    root.unmount();
+  }
+}
+
+// ============ 对话框 ============
+
+interface ConversationExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * ConversationExportDialog - 导出当前会话（Markdown / HTML / PDF / JSON）
+ *
+ * 可选择展开或折叠工具调用和子代理对话、是否附带生成的文件内容；JSON 始终导出完整数据
+ */
+export function ConversationExportDialog({ open, onOpenChange }: ConversationExportDialogProps) {
+  const chat = useChatContext();
+  const [format, setFormat] = useState<ConversationExportFormat>("markdown");
+  const [options, setOptions] = useState<ConversationExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  // 导出前正在加载尚未分页加载的历史消息
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const exportConversation = useCallback(() => {
+    const data: ConversationExportData = {
+      cid: chat.cid,
+      title: getConversationTitle(chat.messages),
+      messages: chat.messages,
+      todos: chat.todos,
+      files: chat.files,
+      exportedAt: new Date().toISOString(),
+    };
+
+    try {
+      switch (format) {
+        case "markdown":
+          downloadTextFile(getExportFileName(data.title, "md"), buildMarkdownExport(data, options), "text/markdown");
+          break;
+        case "json":
+          downloadTextFile(getExportFileName(data.title, "json"), buildJsonExport(data), "application/json");
+          break;
+        case "html":
+        case "pdf": {
+          const isDark = format === "html" && document.documentElement.classList.contains("dark");
+          const html = buildHtmlDocument(
+            data.title,
+            renderExportBody(chat, data, options),
+            collectDocumentCss(),
+            isDark
+          );
+          if (format === "html") {
+            downloadTextFile(getExportFileName(data.title, "html"), html, "text/html");
+          } else {
+            printHtml(html);
+          }
+          break;
+        }
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error("[ConversationExportDialog] Export failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export conversation");
+    }
+  }, [chat, format, options, onOpenChange]);
+
+  // 分页加载的会话只包含已加载的消息：逐页加载更早的消息，全部加载后再导出
+  // renderExportBody 依赖 flushSync，不能在 effect 中同步执行，推迟到下一个任务
+  const { pagination, loadMoreMessages } = chat;
+  useEffect(() => {
+    if (!isPreparing || isLoadingMore) return;
+
+    if (!pagination?.hasMore) {
+      setIsPreparing(false);
+      setTimeout(exportConversation, 0);
+      return;
+    }
+
+    setIsLoadingMore(true);
+    loadMoreMessages()
+      .then((loaded) => {
+        if (!loaded) {
+          setIsPreparing(false);
+          toast.error("Failed to load the full conversation history");
+        }
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [isPreparing, isLoadingMore, pagination, loadMoreMessages, exportConversation]);
+
+  // 关闭对话框时取消等待中的导出
+  useEffect(() => {
+    if (!open) setIsPreparing(false);
+  }, [open]);
+
+  const handleExport = useCallback(() => {
+    if (pagination?.hasMore) {
+      setIsPreparing(true);
+    } else {
+      exportConversation();
+    }
+  }, [pagination, exportConversation]);
+
+  const isJson = format === "json";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export conversation</DialogTitle>
+          <DialogDescription>Download this conversation to share or archive it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {FORMATS.map((option) => {
+            const Icon = option.icon;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setFormat(option.value)}
+                className={cn(
+                  "flex items-start gap-2 rounded-lg border border-border p-3 text-left transition-colors hover:bg-accent",
+                  format === option.value && "border-primary bg-accent"
+                )}
+              >
+                <Icon size={16} className="mt-0.5 flex-shrink-0 text-muted-foreground" />
+                <span>
+                  <span className="block text-sm font-medium text-foreground">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className={cn("space-y-3", isJson && "opacity-50")}>
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-foreground">Expand tool calls</label>
+              <p className="text-xs text-muted-foreground">Include tool inputs and outputs</p>
+            </div>
+            <Switch
+              checked={options.toolCalls === "expanded"}
+              disabled={isJson}
+              onCheckedChange={(checked) =>
+                setOptions((prev) => ({ ...prev, toolCalls: checked ? "expanded" : "collapsed" }))
+              }
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-foreground">Expand subagents</label>
+              <p className="text-xs text-muted-foreground">Include subagent transcripts</p>
+            </div>
+            <Switch
+              checked={options.subagents === "expanded"}
+              disabled={isJson}
+              onCheckedChange={(checked) =>
+                setOptions((prev) => ({ ...prev, subagents: checked ? "expanded" : "collapsed" }))
+              }
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-foreground">Include file contents</label>
+              <p className="text-xs text-muted-foreground">Append files created in this conversation</p>
+            </div>
+            <Switch
+              checked={options.includeFiles}
+              disabled={isJson}
+              onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, includeFiles: checked }))}
+            />
+          </div>
+          {isJson && (
+            <p className="text-xs text-muted-foreground">JSON always contains the complete conversation.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={chat.messages.length === 0 || isPreparing}>
+            {isPreparing ? (
+              <>
+                <Loader2 size={14} className="mr-1.5 animate-spin" />
+                Loading history…
+              </>
+            ) : format === "pdf" ? (
+              "Print"
+            ) : (
+              "Export"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useMemo, useState, useRef, useCallback } from "react";
 import { format } from "date-fns";
-import { Loader2, MessageSquare, X, Trash2, Pencil, Check } from "lucide-react";
+import { Loader2, MessageSquare, X, Trash2, Pencil, Check, CopyPlus, Upload, Archive, ListChecks, Tags } from "lucide-react";
 import { useQueryState } from "nuqs";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -21,13 +21,31 @@ import {
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { cn } from "@/lib/utils";
 import { useConversations, type ConversationItem, useDeleteConversation } from "@/hooks/useConversations";
+import { useConversationStreamStore } from "@/hooks/useConversationStreamStore";
 import { useAuth } from "@/providers/AuthProvider";
 import { apiClient } from "@/lib/api/client";
 import type { Conversation } from "@/app/types/types";
+import { useConversationOrganizationStore } from "@/hooks/useConversationOrganizationStore";
+import { getConversationOrganization } from "@/lib/organization";
+import { useProject } from "@/providers/ProjectProvider";
+import {
+  BulkActionBar,
+  ClearFilterButton,
+  ConversationQuickActions,
+  ConversationTagBadge,
+  OrganizeDialog,
+} from "@/app/components/ConversationOrganizer";
 
 type StatusFilter = "all" | "idle" | "busy" | "interrupted" | "error";
 
+/** 文件夹筛选：全部 / 未归入文件夹 / 文件夹 ID */
+const ALL_FOLDERS = "all";
+const UNFILED = "unfiled";
+/** 标签筛选：全部 / 标签 ID */
+const ALL_TAGS = "all";
+
 const GROUP_LABELS = {
+  pinned: "Pinned",
   interrupted: "Requiring Attention",
   today: "Today",
   yesterday: "Yesterday",
@@ -99,11 +117,13 @@ function LoadingState() {
   );
 }
 
-function EmptyState() {
+function EmptyState({ archived }: { archived?: boolean }) {
   return (
     <div className="flex flex-col items-center justify-center p-8 text-center">
       <MessageSquare className="mb-2 h-12 w-12 text-muted-foreground/50" />
-      <p className="text-sm text-muted-foreground">No conversations found</p>
+      <p className="text-sm text-muted-foreground">
+        {archived ? "No archived conversations" : "No conversations found"}
+      </p>
     </div>
   );
 }
@@ -114,6 +134,10 @@ interface ConversationListProps {
   onClose?: () => void;
   onDeleteSuccess?: () => void;
   onDeleteCurrentConversation?: () => void;
+  /** 以会话为模板新建会话（复制文件和提示词） */
+  onDuplicate?: (cid: string) => Promise<void>;
+  /** 导入导出的 JSON 会话 */
+  onImport?: (file: File) => Promise<void>;
 }
 
 export function ConversationList({
@@ -122,6 +146,8 @@ export function ConversationList({
   onClose,
   onDeleteSuccess,
   onDeleteCurrentConversation,
+  onDuplicate,
+  onImport,
 }: ConversationListProps) {
   const [currentCid, setCurrentCid] = useQueryState("cid");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
@@ -134,11 +160,53 @@ export function ConversationList({
   const [isSavingTitle, setIsSavingTitle] = useState(false);
   const editInputRef = useRef<HTMLInputElement>(null);
 
+  // 复制 / 导入状态
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // 整理：视图、筛选和批量选择
+  const [showArchived, setShowArchived] = useState(false);
+  const [folderFilter, setFolderFilter] = useState<string>(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string>(ALL_TAGS);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedCids, setSelectedCids] = useState<string[]>([]);
+  const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
+  const [showOrganize, setShowOrganize] = useState(false);
+
   // 从 AuthProvider 获取认证状态
   const { token, isAuthenticated } = useAuth();
 
   const { deleteConversation } = useDeleteConversation();
 
+  // 会话整理信息（置顶、标签、文件夹、归档）
+  const { currentProject } = useProject();
+  const projectId = currentProject?.id ?? null;
+  const organization = useConversationOrganizationStore((state) => state.conversations);
+  const tags = useConversationOrganizationStore((state) => state.tags);
+  const allFolders = useConversationOrganizationStore((state) => state.folders);
+  const isOrganizationLoaded = useConversationOrganizationStore((state) => state.isLoaded);
+  const forgetConversations = useConversationOrganizationStore((state) => state.forgetConversations);
+  const folders = useMemo(
+    () => allFolders.filter((folder) => folder.projectId === projectId),
+    [allFolders, projectId]
+  );
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+
+  useEffect(() => {
+    if (isAuthenticated && !isOrganizationLoaded) {
+      useConversationOrganizationStore.getState().load();
+    }
+  }, [isAuthenticated, isOrganizationLoaded]);
+
+  // 切换项目后文件夹筛选不再有效
+  useEffect(() => {
+    setFolderFilter(ALL_FOLDERS);
+  }, [projectId]);
+
+  // 后台会话的活动状态（生成中 / 未读）
+  const activity = useConversationStreamStore((state) => state.activity);
+
   const {
     conversations,
     isLoading,
@@ -155,12 +223,26 @@ export function ConversationList({
     token,
   });
 
-  const isEmpty = !isLoading && conversations.length === 0;
+  // 按归档视图、文件夹和标签筛选
+  const visibleConversations = useMemo(() => {
+    return conversations.filter((conv) => {
+      const entry = getConversationOrganization(organization, conv.cid);
+      if (entry.archived !== showArchived) return false;
+      if (folderFilter === UNFILED && entry.folderId) return false;
+      if (folderFilter !== ALL_FOLDERS && folderFilter !== UNFILED && entry.folderId !== folderFilter) return false;
+      if (tagFilter !== ALL_TAGS && !entry.tagIds.includes(tagFilter)) return false;
+      return true;
+    });
+  }, [conversations, organization, showArchived, folderFilter, tagFilter]);
+
+  const isFiltered = folderFilter !== ALL_FOLDERS || tagFilter !== ALL_TAGS;
+  const isEmpty = !isLoading && visibleConversations.length === 0;
 
   // Group conversations by time and status
   const grouped = useMemo(() => {
     const now = new Date();
     const groups: Record<keyof typeof GROUP_LABELS, ConversationItem[]> = {
+      pinned: [],
       interrupted: [],
       today: [],
       yesterday: [],
@@ -168,7 +250,12 @@ export function ConversationList({
       older: [],
     };
 
-    conversations.forEach((conv) => {
+    visibleConversations.forEach((conv) => {
+      if (getConversationOrganization(organization, conv.cid).pinned && !showArchived) {
+        groups.pinned.push(conv);
+        return;
+      }
+
       if (conv.status === "interrupted") {
         groups.interrupted.push(conv);
         return;
@@ -189,7 +276,7 @@ export function ConversationList({
     });
 
     return groups;
-  }, [conversations]);
+  }, [visibleConversations, organization, showArchived]);
 
   const interruptedCount = useMemo(() => {
     return conversations.filter((c) => c.status === "interrupted").length;
@@ -251,6 +338,7 @@ export function ConversationList({
 
         // 调用删除 API
         await deleteConversation(cidToDelete);
+        forgetConversations([cidToDelete]);
         
         // 删除成功后，立即重新验证以确保数据一致性
         // 这样可以确保删除的对话不会在后续操作中重新出现
@@ -295,9 +383,44 @@ export function ConversationList({
         setConfirmDeleteId(null);
       }
     },
-    [confirmDeleteId, deletingId, currentCid, data, deleteConversation, mutate, onClose, onDeleteSuccess, onDeleteCurrentConversation, setCurrentCid]
+    [confirmDeleteId, deletingId, currentCid, data, deleteConversation, forgetConversations, mutate, onClose, onDeleteSuccess, onDeleteCurrentConversation, setCurrentCid]
   );
 
+  // 批量选择
+  const toggleSelected = useCallback((cid: string) => {
+    setSelectedCids((prev) => (prev.includes(cid) ? prev.filter((id) => id !== cid) : [...prev, cid]));
+  }, []);
+
+  const exitSelectMode = useCallback(() => {
+    setSelectMode(false);
+    setSelectedCids([]);
+  }, []);
+
+  // 批量删除（逐个调用删除 API，部分失败时保留失败的会话）
+  const handleConfirmBulkDelete = useCallback(async () => {
+    const cids = selectedCids;
+    const results = await Promise.allSettled(cids.map((cid) => deleteConversation(cid)));
+    const deleted = cids.filter((_, index) => results[index].status === "fulfilled");
+    const failedCount = cids.length - deleted.length;
+
+    forgetConversations(deleted);
+    setConfirmBulkDelete(false);
+    setSelectedCids(cids.filter((cid) => !deleted.includes(cid)));
+    const updatedData = await mutate();
+
+    if (failedCount > 0) {
+      console.error(`Failed to delete ${failedCount} conversation(s)`);
+    }
+
+    if (currentCid && deleted.includes(currentCid)) {
+      await setCurrentCid(null);
+      onDeleteCurrentConversation?.();
+    }
+    if (deleted.length > 0 && (updatedData ? updatedData.flat() : []).length === 0) {
+      onDeleteSuccess?.();
+    }
+  }, [selectedCids, deleteConversation, forgetConversations, mutate, currentCid, setCurrentCid, onDeleteCurrentConversation, onDeleteSuccess]);
+
   // Handle edit title
   const handleStartEdit = useCallback(
     (e: React.MouseEvent, conv: ConversationItem) => {
@@ -346,6 +469,42 @@ export function ConversationList({
     [editingId, editingTitle, isSavingTitle, mutate, handleCancelEdit]
   );
 
+  // 复制会话（作为模板）
+  const handleDuplicate = useCallback(
+    async (e: React.MouseEvent, cid: string) => {
+      e.stopPropagation();
+      if (!onDuplicate || duplicatingId) return;
+
+      setDuplicatingId(cid);
+      try {
+        await onDuplicate(cid);
+        mutate();
+      } finally {
+        setDuplicatingId(null);
+      }
+    },
+    [onDuplicate, duplicatingId, mutate]
+  );
+
+  // 导入 JSON 会话
+  const handleImportFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // 允许再次选择同一个文件
+      e.target.value = "";
+      if (!file || !onImport) return;
+
+      setIsImporting(true);
+      try {
+        await onImport(file);
+        mutate();
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [onImport, mutate]
+  );
+
   const handleEditKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === "Enter") {
@@ -374,6 +533,17 @@ export function ConversationList({
         onConfirm={handleConfirmDelete}
         variant="destructive"
       />
+      <ConfirmDialog
+        open={confirmBulkDelete}
+        onOpenChange={setConfirmBulkDelete}
+        title="Delete Conversations"
+        description={`Are you sure you want to delete ${selectedCids.length} conversation${selectedCids.length === 1 ? "" : "s"}? This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={handleConfirmBulkDelete}
+        variant="destructive"
+      />
+      <OrganizeDialog open={showOrganize} onOpenChange={setShowOrganize} projectId={projectId} />
       <div className="absolute inset-0 flex flex-col">
         {/* Header */}
       <div className="grid flex-shrink-0 grid-cols-[1fr_auto] items-center gap-3 border-b border-border p-4">
@@ -414,6 +584,27 @@ export function ConversationList({
               </SelectGroup>
             </SelectContent>
           </Select>
+          {onImport && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="h-8 w-8"
+                title="Import conversation from JSON"
+              >
+                {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              </Button>
+            </>
+          )}
           {onClose && (
             <Button
               variant="ghost"
@@ -428,14 +619,99 @@ export function ConversationList({
         </div>
       </div>
 
+      {/* 整理：归档视图、文件夹和标签筛选、批量选择 */}
+      {selectMode ? (
+        <BulkActionBar
+          selectedCids={selectedCids}
+          archivedView={showArchived}
+          folders={folders}
+          onClear={exitSelectMode}
+          onDelete={() => setConfirmBulkDelete(true)}
+        />
+      ) : (
+        <div className="flex flex-shrink-0 items-center gap-1 border-b border-border px-4 py-2">
+          {folders.length > 0 && (
+            <Select value={folderFilter} onValueChange={setFolderFilter}>
+              <SelectTrigger className="h-7 w-auto max-w-[130px] gap-1 px-2 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FOLDERS} className="text-xs">All folders</SelectItem>
+                <SelectItem value={UNFILED} className="text-xs">Not in a folder</SelectItem>
+                <SelectSeparator />
+                {folders.map((folder) => (
+                  <SelectItem key={folder.id} value={folder.id} className="text-xs">
+                    {folder.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {tags.length > 0 && (
+            <Select value={tagFilter} onValueChange={setTagFilter}>
+              <SelectTrigger className="h-7 w-auto max-w-[130px] gap-1 px-2 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TAGS} className="text-xs">All tags</SelectItem>
+                <SelectSeparator />
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id} className="text-xs">
+                    <ConversationTagBadge tag={tag} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isFiltered && (
+            <ClearFilterButton
+              onClick={() => {
+                setFolderFilter(ALL_FOLDERS);
+                setTagFilter(ALL_TAGS);
+              }}
+            />
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            <Button
+              variant={showArchived ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setShowArchived((prev) => !prev)}
+              title={showArchived ? "Show active conversations" : "Show archived conversations"}
+            >
+              <Archive className="h-3.5 w-3.5" />
+              {showArchived && "Archived"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setShowOrganize(true)}
+              title="Manage tags and folders"
+            >
+              <Tags className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setSelectMode(true)}
+              title="Select conversations"
+            >
+              <ListChecks className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+
       <ScrollArea className="h-0 flex-1">
         {error && <ErrorState message={error.message} />}
 
         {!error && isLoading && <LoadingState />}
 
-        {!error && !isLoading && isEmpty && <EmptyState />}
+        {!error && !isLoading && isEmpty && <EmptyState archived={showArchived} />}
 
-        {!error && !isEmpty && (
+        {!error && !isLoading && (!isEmpty || hasMore) && (
           <div className="w-full px-3 py-2">
             {(Object.keys(GROUP_LABELS) as Array<keyof typeof GROUP_LABELS>).map(
               (group) => {
@@ -451,16 +727,22 @@ export function ConversationList({
                       {groupConversations.map((conv, index) => {
                         const isSelected = currentCid === conv.cid;
                         const isLast = index === groupConversations.length - 1;
+                        const convActivity = isSelected ? undefined : activity[conv.cid];
+                        const convTags = getConversationOrganization(organization, conv.cid).tagIds
+                          .map((tagId) => tagsById.get(tagId))
+                          .filter((tag) => tag !== undefined);
+                        // 选择模式下点击切换选中
+                        const handleActivate = () => (selectMode ? toggleSelected(conv.cid) : onSelect(conv.cid));
                         return (
                           <div
                             key={conv.cid}
                             role="button"
                             tabIndex={0}
-                            onClick={() => onSelect(conv.cid)}
+                            onClick={handleActivate}
                             onKeyDown={(e) => {
                               if (e.key === "Enter" || e.key === " ") {
                                 e.preventDefault();
-                                onSelect(conv.cid);
+                                handleActivate();
                               }
                             }}
                             className={cn(
@@ -482,14 +764,31 @@ export function ConversationList({
                               {/* Title + Status Row */}
                               <div className="mb-1.5 flex items-center justify-between gap-3">
                                 <div className="flex min-w-0 flex-1 items-center gap-2 overflow-hidden">
-                                  {/* 状态指示器 */}
-                                  <div
-                                    className={cn(
-                                      "h-2 w-2 flex-shrink-0 rounded-full",
-                                      getStatusColor(conv.status)
-                                    )}
-                                    title={conv.status}
-                                  />
+                                  {selectMode && (
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedCids.includes(conv.cid)}
+                                      onChange={() => toggleSelected(conv.cid)}
+                                      onClick={(e) => e.stopPropagation()}
+                                      className="h-3.5 w-3.5 flex-shrink-0 accent-primary"
+                                      aria-label={`Select ${conv.title}`}
+                                    />
+                                  )}
+                                  {/* 状态指示器（后台生成中的会话显示加载动画） */}
+                                  {convActivity?.busy ? (
+                                    <Loader2
+                                      className="h-3 w-3 flex-shrink-0 animate-spin text-blue-500 dark:text-blue-400"
+                                      aria-label="Generating in background"
+                                    />
+                                  ) : (
+                                    <div
+                                      className={cn(
+                                        "h-2 w-2 flex-shrink-0 rounded-full",
+                                        getStatusColor(conv.status)
+                                      )}
+                                      title={conv.status}
+                                    />
+                                  )}
                                   {/* 编辑模式或显示模式 */}
                                   {editingId === conv.cid ? (
                                     <form 
@@ -538,12 +837,23 @@ export function ConversationList({
                                     </h3>
                                   )}
                                 </div>
-                                {/* 操作按钮 - 只在非编辑模式显示 */}
-                                {editingId !== conv.cid && (
+                                {/* 操作按钮 - 只在非编辑模式、非选择模式显示 */}
+                                {editingId !== conv.cid && !selectMode && (
                                   <div className="flex flex-shrink-0 items-center gap-1 whitespace-nowrap">
+                                    {/* 后台完成的未读回复 */}
+                                    {convActivity && convActivity.unread > 0 && (
+                                      <span
+                                        className="inline-flex min-w-[18px] items-center justify-center rounded-full bg-primary px-1.5 py-0.5 text-[10px] font-bold leading-none text-primary-foreground"
+                                        title={`${convActivity.unread} unread`}
+                                      >
+                                        {convActivity.unread}
+                                      </span>
+                                    )}
                                     <span className="whitespace-nowrap text-[11px] text-muted-foreground">
                                       {formatTime(conv.updatedAt)}
                                     </span>
+                                    {/* 置顶 / 归档按钮 */}
+                                    <ConversationQuickActions cid={conv.cid} archivedView={showArchived} />
                                     {/* 编辑按钮 */}
                                     <button
                                       type="button"
@@ -557,6 +867,26 @@ export function ConversationList({
                                     >
                                       <Pencil className="h-3.5 w-3.5" />
                                     </button>
+                                    {/* 复制为模板按钮 */}
+                                    {onDuplicate && (
+                                      <button
+                                        type="button"
+                                        onClick={(e) => handleDuplicate(e, conv.cid)}
+                                        disabled={duplicatingId !== null}
+                                        className={cn(
+                                          "flex h-6 w-6 items-center justify-center rounded opacity-0 transition-all",
+                                          "group-hover:opacity-100",
+                                          "hover:bg-primary/10 text-muted-foreground hover:text-primary"
+                                        )}
+                                        title="Duplicate as template"
+                                      >
+                                        {duplicatingId === conv.cid ? (
+                                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                        ) : (
+                                          <CopyPlus className="h-3.5 w-3.5" />
+                                        )}
+                                      </button>
+                                    )}
                                     {/* 删除按钮 */}
                                     <button
                                       type="button"
@@ -582,6 +912,14 @@ export function ConversationList({
                               <p className="line-clamp-1 overflow-hidden break-all pl-4 text-xs text-muted-foreground">
                                 {conv.description}
                               </p>
+                              {/* Tags Row */}
+                              {convTags.length > 0 && (
+                                <div className="mt-1 flex flex-wrap gap-1 pl-4">
+                                  {convTags.map((tag) => (
+                                    <ConversationTagBadge key={tag.id} tag={tag} />
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         );
@@ -0,0 +1,401 @@
+"use client";
+
+import React, { useState } from "react";
+import { Archive, ArchiveRestore, Check, Pin, PinOff, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useConversationOrganizationStore } from "@/hooks/useConversationOrganizationStore";
+import { TAG_COLOR_NAMES, getTagColorClasses } from "@/lib/organization";
+import type { ConversationFolder, ConversationTag } from "@/lib/api/client";
+import { cn } from "@/lib/utils";
+
+/** Select 的值：移出文件夹 */
+const NO_FOLDER = "__none__";
+
+/** 操作失败时提示 */
+function reportError(action: string) {
+  return (error: unknown) => {
+    console.error(`[ConversationOrganizer] Failed to ${action}:`, error);
+    toast.error(`Failed to ${action}`);
+  };
+}
+
+// ============ 标签 ============
+
+/** 会话标签 */
+export function ConversationTagBadge({ tag, className }: { tag: ConversationTag; className?: string }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex max-w-[120px] items-center truncate rounded-full px-1.5 py-px text-[10px] font-medium leading-4",
+        getTagColorClasses(tag.color).badge,
+        className
+      )}
+    >
+      {tag.name}
+    </span>
+  );
+}
+
+/** 颜色选择 */
+function TagColorPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      {TAG_COLOR_NAMES.map((color) => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className={cn(
+            "flex h-4 w-4 items-center justify-center rounded-full",
+            getTagColorClasses(color).swatch,
+            value === color && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+          )}
+          title={color}
+        />
+      ))}
+    </div>
+  );
+}
+
+// ============ 管理标签和文件夹 ============
+
+/** 可编辑名称的一行（失焦或回车时保存） */
+function EditableRow({
+  name,
+  onRename,
+  onDelete,
+  children,
+}: {
+  name: string;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  children?: React.ReactNode;
+}) {
+  const [value, setValue] = useState(name);
+
+  const save = () => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      setValue(name);
+    } else if (trimmed !== name) {
+      onRename(trimmed);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className="h-8 flex-1 text-sm"
+      />
+      {children}
+      <button
+        type="button"
+        onClick={onDelete}
+        className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+        title="Delete"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+interface OrganizeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 当前项目（文件夹按项目区分） */
+  projectId: string | null;
+}
+
+/**
+ * OrganizeDialog - 管理标签（名称、颜色）和当前项目的文件夹
+ */
+export function OrganizeDialog({ open, onOpenChange, projectId }: OrganizeDialogProps) {
+  const tags = useConversationOrganizationStore((state) => state.tags);
+  const allFolders = useConversationOrganizationStore((state) => state.folders);
+  const source = useConversationOrganizationStore((state) => state.source);
+  const { createTag, updateTag, deleteTag, createFolder, renameFolder, deleteFolder } =
+    useConversationOrganizationStore.getState();
+  const folders = allFolders.filter((folder) => folder.projectId === projectId);
+
+  const [newTagName, setNewTagName] = useState("");
+  const [newTagColor, setNewTagColor] = useState(TAG_COLOR_NAMES[5]);
+  const [newFolderName, setNewFolderName] = useState("");
+
+  const handleCreateTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTagName.trim();
+    if (!name) return;
+    createTag(name, newTagColor).then(() => setNewTagName(""), reportError("create tag"));
+  };
+
+  const handleCreateFolder = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newFolderName.trim();
+    if (!name) return;
+    createFolder(name, projectId).then(() => setNewFolderName(""), reportError("create folder"));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Organize conversations</DialogTitle>
+          <DialogDescription>
+            {source === "local"
+              ? "Tags and folders are saved in this browser."
+              : "Tags are shared across projects. Folders belong to the current project."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-foreground">Tags</h3>
+          {tags.map((tag) => (
+            <EditableRow
+              key={tag.id}
+              name={tag.name}
+              onRename={(name) => updateTag(tag.id, { name }).catch(reportError("rename tag"))}
+              onDelete={() => deleteTag(tag.id).catch(reportError("delete tag"))}
+            >
+              <TagColorPicker
+                value={tag.color}
+                onChange={(color) => updateTag(tag.id, { color }).catch(reportError("update tag"))}
+              />
+            </EditableRow>
+          ))}
+          <form onSubmit={handleCreateTag} className="flex items-center gap-2">
+            <Input
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              placeholder="New tag"
+              className="h-8 flex-1 text-sm"
+            />
+            <TagColorPicker value={newTagColor} onChange={setNewTagColor} />
+            <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!newTagName.trim()}>
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          </form>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-foreground">Folders</h3>
+          {folders.map((folder) => (
+            <EditableRow
+              key={folder.id}
+              name={folder.name}
+              onRename={(name) => renameFolder(folder.id, name).catch(reportError("rename folder"))}
+              onDelete={() => deleteFolder(folder.id).catch(reportError("delete folder"))}
+            />
+          ))}
+          <form onSubmit={handleCreateFolder} className="flex items-center gap-2">
+            <Input
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              placeholder="New folder"
+              className="h-8 flex-1 text-sm"
+            />
+            <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!newFolderName.trim()}>
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          </form>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============ 批量操作 ============
+
+interface BulkActionBarProps {
+  selectedCids: string[];
+  /** 是否在已归档视图中（归档按钮改为取消归档） */
+  archivedView: boolean;
+  folders: ConversationFolder[];
+  onClear: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * BulkActionBar - 选中会话后的批量操作：置顶、归档、添加 / 移除标签、移动到文件夹、删除
+ */
+export function BulkActionBar({ selectedCids, archivedView, folders, onClear, onDelete }: BulkActionBarProps) {
+  const tags = useConversationOrganizationStore((state) => state.tags);
+  const conversations = useConversationOrganizationStore((state) => state.conversations);
+  const updateConversations = useConversationOrganizationStore((state) => state.updateConversations);
+
+  const count = selectedCids.length;
+  const allPinned = count > 0 && selectedCids.every((cid) => conversations[cid]?.pinned);
+
+  const update = (...args: Parameters<typeof updateConversations>) =>
+    updateConversations(...args).catch(reportError("update conversations"));
+
+  const handleTag = (value: string) => {
+    const [action, tagId] = value.split(":");
+    update(selectedCids, action === "add" ? { addTagIds: [tagId] } : { removeTagIds: [tagId] });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 border-b border-border bg-muted/40 px-4 py-2 text-xs">
+      <span className="mr-1 font-medium text-foreground">{count} selected</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs"
+        disabled={count === 0}
+        onClick={() => update(selectedCids, { pinned: !allPinned })}
+        title={allPinned ? "Unpin" : "Pin"}
+      >
+        {allPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs"
+        disabled={count === 0}
+        onClick={() => update(selectedCids, { archived: !archivedView }).then(onClear)}
+        title={archivedView ? "Unarchive" : "Archive"}
+      >
+        {archivedView ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+      </Button>
+      {tags.length > 0 && (
+        <Select value="" onValueChange={handleTag} disabled={count === 0}>
+          <SelectTrigger className="h-7 w-auto gap-1 px-2 text-xs">
+            <SelectValue placeholder="Tag" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">Add tag</SelectLabel>
+              {tags.map((tag) => (
+                <SelectItem key={`add:${tag.id}`} value={`add:${tag.id}`} className="text-xs">
+                  <ConversationTagBadge tag={tag} />
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            <SelectGroup>
+              <SelectLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">Remove tag</SelectLabel>
+              {tags.map((tag) => (
+                <SelectItem key={`remove:${tag.id}`} value={`remove:${tag.id}`} className="text-xs">
+                  <ConversationTagBadge tag={tag} />
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      )}
+      {folders.length > 0 && (
+        <Select
+          value=""
+          onValueChange={(value) => update(selectedCids, { folderId: value === NO_FOLDER ? null : value })}
+          disabled={count === 0}
+        >
+          <SelectTrigger className="h-7 w-auto gap-1 px-2 text-xs">
+            <SelectValue placeholder="Move to" />
+          </SelectTrigger>
+          <SelectContent>
+            {folders.map((folder) => (
+              <SelectItem key={folder.id} value={folder.id} className="text-xs">
+                {folder.name}
+              </SelectItem>
+            ))}
+            <SelectItem value={NO_FOLDER} className="text-xs">
+              Remove from folder
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+        disabled={count === 0}
+        onClick={onDelete}
+        title="Delete"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+      <Button variant="ghost" size="sm" className="ml-auto h-7 px-2 text-xs" onClick={onClear} title="Done">
+        <Check className="h-3.5 w-3.5" />
+        Done
+      </Button>
+    </div>
+  );
+}
+
+/** 行内置顶 / 归档按钮 */
+export function ConversationQuickActions({ cid, archivedView }: { cid: string; archivedView: boolean }) {
+  const pinned = useConversationOrganizationStore((state) => !!state.conversations[cid]?.pinned);
+  const updateConversations = useConversationOrganizationStore((state) => state.updateConversations);
+
+  const buttonClass = cn(
+    "flex h-6 w-6 items-center justify-center rounded opacity-0 transition-all",
+    "group-hover:opacity-100",
+    "hover:bg-primary/10 text-muted-foreground hover:text-primary"
+  );
+
+  return (
+    <>
+      {!archivedView && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            updateConversations([cid], { pinned: !pinned }).catch(reportError("update conversation"));
+          }}
+          className={cn(buttonClass, pinned && "text-primary opacity-100")}
+          title={pinned ? "Unpin" : "Pin"}
+        >
+          {pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          updateConversations([cid], { archived: !archivedView }).catch(reportError("update conversation"));
+        }}
+        className={buttonClass}
+        title={archivedView ? "Unarchive" : "Archive"}
+      >
+        {archivedView ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+      </button>
+    </>
+  );
+}
+
+/** 清除筛选的按钮 */
+export function ClearFilterButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex h-5 w-5 items-center justify-center rounded text-muted-foreground hover:bg-accent hover:text-foreground"
+      title="Clear filters"
+    >
+      <X className="h-3 w-3" />
+    </button>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import React, { useState } from "react";
+import useSWR from "swr";
+import { Copy, EyeOff, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useChatContext } from "@/providers/ChatProvider";
+import { apiClient, type ConversationShare } from "@/lib/api/client";
+import { getConversationTitle } from "@/lib/export";
+import {
+  DEFAULT_SHARE_EXPIRY,
+  SHARE_EXPIRY_OPTIONS,
+  buildShareSnapshot,
+  getShareExpiresAt,
+  getShareStatus,
+  getShareUrl,
+  type ShareStatus,
+} from "@/lib/share";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<ShareStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-500/15 text-green-700 dark:text-green-400" },
+  expired: { label: "Expired", className: "bg-muted text-muted-foreground" },
+  revoked: { label: "Revoked", className: "bg-destructive/15 text-destructive" },
+};
+
+function formatExpiry(share: ConversationShare): string {
+  if (share.revokedAt) return `Revoked ${new Date(share.revokedAt).toLocaleDateString()}`;
+  if (!share.expiresAt) return "Never expires";
+  const verb = getShareStatus(share) === "expired" ? "Expired" : "Expires";
+  return `${verb} ${new Date(share.expiresAt).toLocaleString()}`;
+}
+
+async function copyShareLink(share: ConversationShare) {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(share.token));
+    toast.success("Link copied");
+  } catch {
+    toast.error("Failed to copy link");
+  }
+}
+
+// ============ 已有链接 ============
+
+interface ShareRowProps {
+  share: ConversationShare;
+  onChangeExpiry: (share: ConversationShare, value: string) => void;
+  onRevoke: (share: ConversationShare) => void;
+}
+
+function ShareRow({ share, onChangeExpiry, onRevoke }: ShareRowProps) {
+  const status = getShareStatus(share);
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-border p-3">
+      <div className="flex items-center gap-2">
+        <Link2 size={14} className="flex-shrink-0 text-muted-foreground" />
+        <span className="min-w-0 flex-1 truncate font-mono text-xs text-foreground">{getShareUrl(share.token)}</span>
+        <span className={cn("rounded px-1.5 py-0.5 text-[10px] font-medium", style.className)}>{style.label}</span>
+      </div>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>Created {new Date(share.createdAt).toLocaleDateString()}</span>
+        <span>·</span>
+        <span>{formatExpiry(share)}</span>
+        {share.redactToolArgs && (
+          <span className="flex items-center gap-1" title="Tool call arguments and subagent tasks are hidden">
+            <EyeOff size={12} />
+            Arguments hidden
+          </span>
+        )}
+      </div>
+      {status !== "revoked" && (
+        <div className="flex items-center justify-end gap-2">
+          <Select value="" onValueChange={(value) => onChangeExpiry(share, value)}>
+            <SelectTrigger className="h-7 w-auto gap-1 px-2 text-xs">
+              <SelectValue placeholder={status === "expired" ? "Reactivate for" : "Change expiry"} />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARE_EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.days === null ? "Never expire" : option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {status === "active" && (
+            <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => copyShareLink(share)}>
+              <Copy size={12} />
+              Copy
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs text-destructive hover:text-destructive"
+            onClick={() => onRevoke(share)}
+          >
+            Revoke
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============ 对话框 ============
+
+interface ConversationShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * ConversationShareDialog - 创建和管理当前会话的只读分享链接
+ *
+ * 链接指向创建时的会话快照（见 lib/share），可设置有效期、隐藏工具调用参数，
+ * 已有链接可修改有效期或撤销
+ */
+export function ConversationShareDialog({ open, onOpenChange }: ConversationShareDialogProps) {
+  const chat = useChatContext();
+  const { cid } = chat;
+  const [expiry, setExpiry] = useState(DEFAULT_SHARE_EXPIRY);
+  const [redactToolArgs, setRedactToolArgs] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdShareId, setCreatedShareId] = useState<string | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<ConversationShare | null>(null);
+
+  const { data: shares, isLoading, mutate } = useSWR(
+    open && cid ? ["conversation-shares", cid] : null,
+    () => apiClient.getConversationShares(cid!),
+    { revalidateOnFocus: false }
+  );
+
+  const replaceShare = (updated: ConversationShare) => {
+    mutate((current) => current?.map((share) => (share.id === updated.id ? updated : share)), {
+      revalidate: false,
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!cid) return;
+    setIsCreating(true);
+    try {
+      const snapshot = buildShareSnapshot(
+        { title: getConversationTitle(chat.messages), messages: chat.messages, todos: chat.todos },
+        { redactToolArgs }
+      );
+      const share = await apiClient.createConversationShare(cid, {
+        snapshot,
+        expiresAt: getShareExpiresAt(expiry),
+        redactToolArgs,
+      });
+      mutate((current) => [share, ...(current ?? [])], { revalidate: false });
+      setCreatedShareId(share.id);
+      await copyShareLink(share);
+    } catch (error) {
+      console.error("[ConversationShareDialog] Failed to create share:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create link");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleChangeExpiry = async (share: ConversationShare, value: string) => {
+    try {
+      replaceShare(await apiClient.updateConversationShare(share.cid, share.id, { expiresAt: getShareExpiresAt(value) }));
+    } catch (error) {
+      console.error("[ConversationShareDialog] Failed to update share:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update link");
+    }
+  };
+
+  const handleRevoke = async (share: ConversationShare) => {
+    try {
+      replaceShare(await apiClient.revokeConversationShare(share.cid, share.id));
+      if (createdShareId === share.id) setCreatedShareId(null);
+      toast.success("Link revoked");
+    } catch (error) {
+      console.error("[ConversationShareDialog] Failed to revoke share:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke link");
+    }
+  };
+
+  const createdShare = shares?.find((share) => share.id === createdShareId);
+
+  return (
+    <>
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          if (!next) setCreatedShareId(null);
+          onOpenChange(next);
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Share conversation</DialogTitle>
+            <DialogDescription>
+              Anyone with the link can view a read-only copy of this conversation as it is now, without signing in.
+              Later messages are not included.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-foreground">Link expires after</label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="h-8 w-32 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-foreground">Hide tool call arguments</label>
+                <p className="text-xs text-muted-foreground">Viewers see which tools and subagents ran and their results only</p>
+              </div>
+              <Switch checked={redactToolArgs} onCheckedChange={setRedactToolArgs} />
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleCreate}
+              disabled={!cid || chat.messages.length === 0 || isCreating}
+            >
+              {isCreating ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Link2 size={14} className="mr-2" />}
+              Create link
+            </Button>
+
+            {createdShare && (
+              <div className="flex items-center gap-2">
+                <Input readOnly value={getShareUrl(createdShare.token)} className="h-8 font-mono text-xs" />
+                <Button variant="outline" size="sm" className="h-8 gap-1" onClick={() => copyShareLink(createdShare)}>
+                  <Copy size={14} />
+                  Copy
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-foreground">Links</h3>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 size={16} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : shares && shares.length > 0 ? (
+              <div className="flex max-h-64 flex-col gap-2 overflow-y-auto">
+                {shares.map((share) => (
+                  <ShareRow
+                    key={share.id}
+                    share={share}
+                    onChangeExpiry={handleChangeExpiry}
+                    onRevoke={setRevokeTarget}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">This conversation has not been shared yet.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={revokeTarget !== null}
+        onOpenChange={(next) => {
+          if (!next) setRevokeTarget(null);
+        }}
+        title="Revoke link"
+        description="People with this link will no longer be able to view the conversation. This cannot be undone."
+        confirmText="Revoke"
+        onConfirm={() => {
+          if (revokeTarget) handleRevoke(revokeTarget);
+        }}
+        variant="destructive"
+      />
+    </>
+  );
+}
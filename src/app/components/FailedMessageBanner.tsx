@@ -1,9 +1,10 @@
 "use client";
 
 import React from "react";
-import { AlertTriangle, RefreshCw, Loader2, X } from "lucide-react";
+import { AlertTriangle, RefreshCw, Loader2, X, Send, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import type { TurnResponse } from "@/types";
+import { MAX_AUTO_FLUSH_ATTEMPTS, type OutboxEntry } from "@/lib/stream/outbox";
 import { cn } from "@/lib/utils";
 
 interface FailedMessageBannerProps {
@@ -194,3 +195,81 @@ export const FailedMessagesList = React.memo<FailedMessagesListProps>(
 );
 FailedMessagesList.displayName = "FailedMessagesList";
 
+/**
+ * OutboxMessageBanner - Unsent message banner
+ *
+ * Shown for user messages that failed to leave the outbox:
+ * - Display failure reason and attempt count
+ * - Support "send now" (bypasses the automatic flush limit)
+ * - Support discard (removes the message from the outbox and the chat)
+ */
+interface OutboxMessageBannerProps {
+  entry: OutboxEntry;
+  onSendNow: (clientMessageId: string) => void;
+  onDiscard: (clientMessageId: string) => void;
+  className?: string;
+}
+
+export const OutboxMessageBanner = React.memo<OutboxMessageBannerProps>(
+  ({ entry, onSendNow, onDiscard, className }) => {
+    const isSending = entry.status === "sending";
+    const willAutoRetry = entry.attempts < MAX_AUTO_FLUSH_ATTEMPTS;
+
+    return (
+      <div
+        className={cn(
+          "flex items-start gap-3 rounded-lg border p-3",
+          "border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30",
+          className
+        )}
+      >
+        <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0 text-amber-600 dark:text-amber-400" />
+
+        <div className="flex-1 min-w-0 text-left">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Message not sent
+          </p>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            {entry.error || "Connection lost"}
+            {willAutoRetry && (
+              <span className="ml-2 italic">(will retry when reconnected)</span>
+            )}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSendNow(entry.clientMessageId)}
+            disabled={isSending}
+            className="h-8 border-amber-300 hover:bg-amber-100 dark:border-amber-700 dark:hover:bg-amber-900/50"
+          >
+            {isSending ? (
+              <>
+                <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <Send className="h-3.5 w-3.5 mr-1.5" />
+                Send now
+              </>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onDiscard(entry.clientMessageId)}
+            disabled={isSending}
+            title="Discard"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+);
+OutboxMessageBanner.displayName = "OutboxMessageBanner";
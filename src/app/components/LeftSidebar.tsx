@@ -45,6 +45,8 @@ import {
   Upload,
   Cloud,
   Save,
+  Loader2,
+  Radio,
 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -58,12 +60,84 @@ import { useContextMenu } from "@/providers/ContextProvider";
 import { ContextWizard } from "@/app/components/ContextWizard";
 import { ContextEditDialog } from "@/app/components/ContextEditDialog";
 import { getSectionConfig, type SectionConfig } from "@/lib/context/section-mapping";
+import { useConversationStreamStore } from "@/hooks/useConversationStreamStore";
+import { useConversations } from "@/hooks/useConversations";
+import { useAuth } from "@/providers/AuthProvider";
 
 interface LeftSidebarProps {
   todos: TodoItem[];
   onAddContext?: () => void;
+  onSelectConversation?: (cid: string) => void;
 }
 
+// Background conversations: still generating, or finished with unread replies
+const BackgroundConversations = ({
+  onSelect,
+}: {
+  onSelect?: (cid: string) => void;
+}) => {
+  const activity = useConversationStreamStore((state) => state.activity);
+  const { token, isAuthenticated } = useAuth();
+
+  const entries = useMemo(
+    () => Object.entries(activity).sort(([, a], [, b]) => b.updatedAt - a.updatedAt),
+    [activity]
+  );
+
+  // Shares the SWR cache with ConversationList; only fetched while there are background conversations
+  const { conversations } = useConversations({
+    limit: 20,
+    isAuthenticated: isAuthenticated && entries.length > 0,
+    token,
+  });
+
+  if (entries.length === 0) return null;
+
+  const busyCount = entries.filter(([, a]) => a.busy).length;
+
+  return (
+    <div className="flex-shrink-0 border-b border-border">
+      <div className="flex h-10 items-center gap-2 px-4 bg-muted/30">
+        <Radio size={16} className="text-muted-foreground" />
+        <span className="text-sm font-semibold tracking-wide">
+          Background
+        </span>
+        {busyCount > 0 && (
+          <span className="ml-auto rounded-full bg-blue-500/10 px-2 py-0.5 text-xs font-medium text-blue-600 dark:text-blue-400">
+            {busyCount} running
+          </span>
+        )}
+      </div>
+      <div className="space-y-0.5 p-2">
+        {entries.map(([cid, item]) => {
+          const title = conversations.find((c) => c.cid === cid)?.title || "Untitled Conversation";
+          return (
+            <button
+              key={cid}
+              type="button"
+              onClick={() => onSelect?.(cid)}
+              disabled={!onSelect}
+              className="flex w-full items-center gap-2 rounded-md p-1.5 text-left text-sm transition-colors hover:bg-accent/50 disabled:cursor-default"
+            >
+              {item.busy ? (
+                <Loader2 size={14} className="flex-shrink-0 animate-spin text-blue-500" />
+              ) : (
+                <CheckCircle size={14} className="flex-shrink-0 text-emerald-500" />
+              )}
+              <span className="min-w-0 flex-1 truncate">{title}</span>
+              {item.unread > 0 && (
+                <span className="inline-flex min-w-[18px] items-center justify-center rounded-full bg-primary px-1.5 py-0.5 text-[10px] font-bold leading-none text-primary-foreground">
+                  {item.unread}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 const getStatusIcon = (status: TodoItem["status"], className?: string) => {
   switch (status) {
     case "completed":
@@ -179,7 +253,7 @@ const TreeItem = ({
 };
 
 export const LeftSidebar = React.memo<LeftSidebarProps>(
-  ({ todos, onAddContext }) => {
+  ({ todos, onAddContext, onSelectConversation }) => {
     const { contextData, isContextEmpty, wizardOpen, setWizardOpen } = useContextMenu();
     const [defaultWizardTab, setDefaultWizardTab] = useState<"onSite" | "offSite" | "knowledge">("onSite");
     
@@ -348,6 +422,7 @@ export const LeftSidebar = React.memo<LeftSidebarProps>(
 
         <div className="flex h-full flex-col p-2 pr-0">
           <div className="flex h-full flex-col overflow-hidden rounded-xl border border-border bg-background">
+            <BackgroundConversations onSelect={onSelectConversation} />
             <ResizablePanelGroup direction="vertical" autoSaveId="left-sidebar">
               {/* Context Module - Top Section */}
               <ResizablePanel
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { Bot, Building2, FileCode, FileText, Loader2, Tag, User } from "lucide-react";
+import { HighlightedTitle } from "@/app/components/SlashCommandPalette";
+import type { UseMentionsReturn } from "@/hooks/useMentions";
+import type { MessageMention, MessageMentionType } from "@/app/types/types";
+import { cn } from "@/lib/utils";
+
+const TYPE_ICONS: Record<MessageMentionType, React.ComponentType<{ size?: number; className?: string }>> = {
+  item: Tag,
+  person: User,
+  entity: Building2,
+  file: FileCode,
+  content: FileText,
+  subagent: Bot,
+};
+
+const TYPE_LABELS: Record<MessageMentionType, string> = {
+  item: "Context",
+  person: "Person",
+  entity: "Entity",
+  file: "File",
+  content: "Content",
+  subagent: "Agent",
+};
+
+interface MentionPaletteProps {
+  palette: UseMentionsReturn;
+  /** 列表对齐的元素（输入框），列表显示在其上方 */
+  anchorRef: React.RefObject<HTMLElement | null>;
+}
+
+/**
+ * MentionPalette - 输入框上方的 @ 引用候选列表
+ *
+ * 键盘操作由输入框转发（见 useMentions.handleKeyDown）
+ */
+export function MentionPalette({ palette, anchorRef }: MentionPaletteProps) {
+  const { isOpen, isLoading, matches, activeIndex, setActiveIndex, select } = palette;
+  const listRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: 0, width: 0, bottom: 0 });
+
+  // 与斜杠命令面板相同，使用 fixed 定位避免被面板裁剪
+  useLayoutEffect(() => {
+    if (!isOpen) return;
+    const updatePosition = () => {
+      const rect = anchorRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setPosition({ left: rect.left, width: rect.width, bottom: window.innerHeight - rect.top + 8 });
+    };
+    updatePosition();
+    window.addEventListener("resize", updatePosition);
+    return () => window.removeEventListener("resize", updatePosition);
+  }, [isOpen, anchorRef]);
+
+  // 保持选中项可见
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed z-50 overflow-hidden rounded-lg border border-border bg-popover shadow-lg"
+      style={position}
+    >
+      <div ref={listRef} role="listbox" className="max-h-72 overflow-y-auto py-1">
+        {matches.map(({ mention, labelIndices }, index) => {
+          const Icon = TYPE_ICONS[mention.type];
+          return (
+            <button
+              key={`${mention.type}:${mention.id}`}
+              type="button"
+              role="option"
+              data-index={index}
+              aria-selected={index === activeIndex}
+              // 阻止输入框失焦
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => select(mention)}
+              className={cn(
+                "flex w-full items-center gap-3 px-3 py-2 text-left text-sm",
+                index === activeIndex && "bg-accent"
+              )}
+            >
+              <Icon size={14} className="flex-shrink-0 text-muted-foreground" />
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-muted-foreground">
+                  <HighlightedTitle title={mention.label} indices={labelIndices} />
+                </span>
+                {mention.description && (
+                  <span className="block truncate text-xs text-muted-foreground/80">{mention.description}</span>
+                )}
+              </span>
+              <span className="w-14 text-right text-[10px] uppercase tracking-wide text-muted-foreground">
+                {TYPE_LABELS[mention.type]}
+              </span>
+            </button>
+          );
+        })}
+        {isLoading && (
+          <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+            <Loader2 size={12} className="animate-spin" />
+            Loading context, content and agents...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * MessageMentionChips - 消息中的 @ 引用标签
+ */
+export function MessageMentionChips({ mentions, className }: { mentions: MessageMention[]; className?: string }) {
+  if (mentions.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1.5", className)}>
+      {mentions.map((mention) => {
+        const Icon = TYPE_ICONS[mention.type] ?? Tag;
+        return (
+          <span
+            key={`${mention.type}:${mention.id}`}
+            title={mention.description ? `${TYPE_LABELS[mention.type]}: ${mention.description}` : TYPE_LABELS[mention.type]}
+            className="inline-flex max-w-[240px] items-center gap-1 rounded-full border border-border bg-muted/50 px-2 py-0.5 text-xs text-muted-foreground"
+          >
+            <Icon size={12} className="flex-shrink-0" />
+            <span className="truncate">{mention.label}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
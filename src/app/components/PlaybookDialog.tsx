@@ -23,7 +23,7 @@ import {
 import { Play, Zap, CheckCircle2, ArrowLeft, BarChart, Settings2, Loader2 } from "lucide-react";
 import { Playbook, PlaybookCategory } from "@/data/playbooks";
 import { usePlaybooks } from "@/hooks/usePlaybooks";
-import { getSkillFormConfig, type FormField } from "@/data/skillForms";
+import { getInitialSkillFormData, getSkillFormConfig, type FormField } from "@/data/skillForms";
 import { useContextMenu } from "@/providers/ContextProvider";
 
 interface PlaybookDialogProps {
@@ -133,7 +133,6 @@ export function PlaybookDialog({
   
   const hasOnboardingDomain = !!onboardingDomain;
   const hasCompetitorData = competitorDomains.length > 0;
-  const hasNicheIndustry = !!nicheIndustry;
 
   // Reset state when dialog closes or category changes
   useEffect(() => {
@@ -167,36 +166,10 @@ export function PlaybookDialog({
         filteredTags
       );
       if (formConfig) {
-        const initialData: Record<string, string> = {};
-        formConfig.fields.forEach((field) => {
-          if (field.autoFill === 'domain') {
-            // Get domain from localStorage (saved during onboarding)
-            if (onboardingDomain) {
-              initialData[field.key] = onboardingDomain;
-            } else {
-              initialData[field.key] = '';
-            }
-          } else if (field.autoFill === 'competitorDomains') {
-            // Get competitor domains from localStorage if available
-            if (hasCompetitorData && competitorDomains.length > 0) {
-              initialData[field.key] = competitorDomains.join(', ');
-            } else {
-              initialData[field.key] = '';
-            }
-          } else if (field.autoFill === 'niche') {
-            // Get niche/industry from localStorage if available
-            if (hasNicheIndustry && nicheIndustry) {
-              initialData[field.key] = nicheIndustry;
-            } else {
-              initialData[field.key] = '';
-            }
-          } else if (field.type === 'select' && field.defaultValue) {
-            // For select fields, use defaultValue if provided
-            initialData[field.key] = field.defaultValue;
-          } else {
-            // For fields without autoFill, start with empty
-            initialData[field.key] = '';
-          }
+        const initialData = getInitialSkillFormData(formConfig.fields, {
+          domain: onboardingDomain,
+          competitorDomains,
+          niche: nicheIndustry,
         });
         // Always update formData with initialData to ensure auto-fill works
         // This will fill empty fields or fields that should be auto-filled
@@ -234,7 +207,7 @@ export function PlaybookDialog({
       // Reset formData when no playbook is selected
       setFormData({});
     }
-  }, [selectedPlaybook, onboardingDomain, competitorDomains, hasCompetitorData, nicheIndustry, hasNicheIndustry]);
+  }, [selectedPlaybook, onboardingDomain, competitorDomains, nicheIndustry]);
 
   // Get playbooks data
   const { playbooks: allPlaybooks, isLoading } = usePlaybooks({
@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import useSWR from "swr";
+import { diffWords } from "diff";
+import { Check, ChevronLeft, ChevronRight, Columns2, Loader2, RefreshCw } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { MarkdownContent } from "@/app/components/MarkdownContent";
+import { apiClient } from "@/lib/api/client";
+import { getMessageText, type MessageVariantsState } from "@/lib/stream/variants";
+import type { Message } from "@/app/types/types";
+import { cn } from "@/lib/utils";
+
+/** 使用原模型重新生成 */
+const SAME_MODEL = "__same__";
+
+const SWR_OPTIONS = {
+  revalidateOnFocus: false,
+  revalidateOnReconnect: false,
+  dedupingInterval: 60000,
+};
+
+// ============ 重新生成 ============
+
+interface RegenerateSelectProps {
+  disabled?: boolean;
+  onRegenerate: (model?: string) => void;
+}
+
+/**
+ * RegenerateSelect - 重新生成回复，可选择其他模型
+ *
+ * 模型列表在第一次展开时加载
+ */
+export const RegenerateSelect = React.memo<RegenerateSelectProps>(({ disabled, onRegenerate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hasOpened, setHasOpened] = useState(false);
+
+  const { data, isLoading } = useSWR(
+    hasOpened ? ["models", "grouped"] : null,
+    () => apiClient.getModelsGrouped(),
+    SWR_OPTIONS
+  );
+
+  return (
+    <Select
+      value=""
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) setHasOpened(true);
+      }}
+      onValueChange={(value) => onRegenerate(value === SAME_MODEL ? undefined : value)}
+      disabled={disabled}
+    >
+      <SelectTrigger
+        className="h-7 w-auto gap-1 border-none bg-transparent px-2 text-xs text-muted-foreground shadow-none hover:bg-accent hover:text-foreground focus:ring-0 focus:ring-offset-0"
+        title="Regenerate response"
+      >
+        <RefreshCw className="h-3.5 w-3.5" />
+        <SelectValue placeholder="Regenerate" />
+      </SelectTrigger>
+      <SelectContent align="start" className="max-h-80 min-w-[220px]">
+        <SelectItem value={SAME_MODEL} className="text-xs">
+          Same model
+        </SelectItem>
+        {data?.providers
+          .filter((provider) => provider.models.length > 0)
+          .map((provider) => (
+            <SelectGroup key={provider.providerId}>
+              <SelectLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                {provider.providerName}
+              </SelectLabel>
+              {provider.models.map((model) => (
+                <SelectItem key={model.id} value={model.id} className="text-xs">
+                  {model.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        {isLoading && (
+          <div className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading models...
+          </div>
+        )}
+      </SelectContent>
+    </Select>
+  );
+});
+
+RegenerateSelect.displayName = "RegenerateSelect";
+
+// ============ 版本切换 ============
+
+interface VariantControlsProps {
+  messageId: string;
+  variants: MessageVariantsState;
+  disabled?: boolean;
+  onShow: (groupId: string, index: number) => void;
+  onSelect: (groupId: string, variantId: string) => void;
+  onCompare: (groupId: string) => void;
+}
+
+/**
+ * VariantControls - 回复版本切换（‹ 2/3 ›）、设为后续对话基于的版本、对比
+ */
+export const VariantControls = React.memo<VariantControlsProps>(
+  ({ messageId, variants, disabled, onShow, onSelect, onCompare }) => {
+    const { groupId, index, count } = variants;
+    const isCanonical = variants.canonicalId === messageId;
+
+    return (
+      <div className="flex items-center gap-1 text-[11px] text-muted-foreground">
+        <div className="flex items-center gap-0.5 tabular-nums">
+          <button
+            type="button"
+            onClick={() => onShow(groupId, index - 1)}
+            disabled={disabled || index === 0}
+            className="rounded p-0.5 hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+            title="Previous response"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </button>
+          <span>
+            {index + 1}/{count}
+          </span>
+          <button
+            type="button"
+            onClick={() => onShow(groupId, index + 1)}
+            disabled={disabled || index === count - 1}
+            className="rounded p-0.5 hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+            title="Next response"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+
+        {isCanonical ? (
+          <span
+            className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5"
+            title="Follow-up messages build on this response"
+          >
+            <Check className="h-3 w-3" />
+            In use
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onSelect(groupId, messageId)}
+            disabled={disabled}
+            className="rounded-full border border-border px-2 py-0.5 hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+            title="Follow-up messages will build on this response"
+          >
+            Use this response
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={() => onCompare(groupId)}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+          title="Compare responses side by side"
+        >
+          <Columns2 className="h-3.5 w-3.5" />
+          Compare
+        </button>
+      </div>
+    );
+  }
+);
+
+VariantControls.displayName = "VariantControls";
+
+// ============ 版本对比 ============
+
+interface VariantCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 按生成顺序排列的版本 */
+  variants: Message[];
+  canonicalId: string;
+  /** 默认对比的两个版本（左 / 右） */
+  initialIds?: [string, string];
+  onSelect: (variantId: string) => void;
+}
+
+/** 版本下拉框中的名称 */
+function getVariantLabel(message: Message, index: number): string {
+  const model = message.metadata?.model;
+  return model ? `Response ${index + 1} · ${model}` : `Response ${index + 1}`;
+}
+
+/**
+ * VariantCompareDialog - 两个回复版本并排对比
+ *
+ * 差异模式下按词对比纯文本（左侧标出删除，右侧标出新增），也可切换为渲染后的 Markdown
+ */
+export function VariantCompareDialog({
+  open,
+  onOpenChange,
+  variants,
+  canonicalId,
+  initialIds,
+  onSelect,
+}: VariantCompareDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<[string, string] | null>(null);
+  const [showDiff, setShowDiff] = useState(true);
+
+  // 每次打开时回到默认的两个版本
+  const [lastOpen, setLastOpen] = useState(open);
+  if (open !== lastOpen) {
+    setLastOpen(open);
+    if (open) setSelectedIds(null);
+  }
+
+  const [leftId, rightId] = selectedIds ?? initialIds ?? [variants[0]?.id ?? "", variants[1]?.id ?? ""];
+  const left = variants.find((v) => v.id === leftId);
+  const right = variants.find((v) => v.id === rightId);
+
+  const changes = useMemo(() => {
+    if (!left || !right || !showDiff) return null;
+    return diffWords(getMessageText(left), getMessageText(right));
+  }, [left, right, showDiff]);
+
+  const renderSide = (side: 0 | 1) => {
+    const message = side === 0 ? left : right;
+    const id = side === 0 ? leftId : rightId;
+    return (
+      <div className="flex min-h-0 min-w-0 flex-1 flex-col rounded-lg border border-border">
+        <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+          <Select
+            value={id}
+            onValueChange={(value) =>
+              setSelectedIds(side === 0 ? [value, rightId] : [leftId, value])
+            }
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {variants.map((variant, index) => (
+                <SelectItem key={variant.id} value={variant.id} className="text-xs">
+                  {getVariantLabel(variant, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {message && message.id === canonicalId ? (
+            <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-[11px] text-muted-foreground">
+              <Check className="h-3 w-3" />
+              In use
+            </span>
+          ) : (
+            message && (
+              <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => onSelect(message.id)}>
+                Use this response
+              </Button>
+            )
+          )}
+        </div>
+        <div className="min-h-0 flex-1 overflow-y-auto px-4 py-3 text-sm">
+          {message && changes ? (
+            <div className="whitespace-pre-wrap break-words leading-relaxed">
+              {changes.map((change, index) => {
+                // 左侧不显示新增，右侧不显示删除
+                if (side === 0 && change.added) return null;
+                if (side === 1 && change.removed) return null;
+                return (
+                  <span
+                    key={index}
+                    className={cn(
+                      change.removed && "rounded-sm bg-red-500/15 text-red-700 line-through dark:text-red-400",
+                      change.added && "rounded-sm bg-green-500/15 text-green-700 dark:text-green-400"
+                    )}
+                  >
+                    {change.value}
+                  </span>
+                );
+              })}
+            </div>
+          ) : (
+            message && <MarkdownContent content={getMessageText(message)} />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[80vh] max-h-[80vh] w-[90vw] !max-w-6xl flex-col gap-4 sm:!max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare responses</DialogTitle>
+          <DialogDescription>
+            Pick the response that follow-up messages should build on.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2 text-xs">
+          <Button
+            size="sm"
+            variant={showDiff ? "secondary" : "ghost"}
+            className="h-7 text-xs"
+            onClick={() => setShowDiff(true)}
+          >
+            Differences
+          </Button>
+          <Button
+            size="sm"
+            variant={showDiff ? "ghost" : "secondary"}
+            className="h-7 text-xs"
+            onClick={() => setShowDiff(false)}
+          >
+            Rendered
+          </Button>
+        </div>
+        <div className="flex min-h-0 flex-1 gap-4">
+          {renderSide(0)}
+          {renderSide(1)}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useMemo, useContext } from "react";
+import React, { useState, useCallback, useMemo, useContext, useEffect } from "react";
 import { 
   FileText, 
   BookOpen, 
@@ -22,7 +22,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import type { FileItem } from "@/app/types/types";
 import { FileViewDialog } from "@/app/components/FileViewDialog";
 import { PlaybookDialog } from "@/app/components/PlaybookDialog";
-import { type Playbook, type PlaybookCategory } from "@/data/playbooks";
+import { buildPlaybookPrompt, type Playbook, type PlaybookCategory } from "@/data/playbooks";
 import { ChatContext } from "@/providers/ChatProvider";
 import { useEditorStore } from "@/app/components/BlockEditor";
 import { ContentLibraryPanel } from "@/app/components/ContentLibrary";
@@ -107,37 +107,7 @@ export const RightSidebar = React.memo<RightSidebarProps>(
       formData?: Record<string, string>, 
       customInstructions?: string
     ) => {
-      // Build form data section if provided
-      let formDataSection = '';
-      if (formData && Object.keys(formData).length > 0) {
-        const formEntries = Object.entries(formData)
-          .filter(([_, value]) => value && value.trim()) // Only include non-empty values
-          .map(([key, value]) => {
-            // Format field names to be more readable
-            const fieldName = key
-              .replace(/([A-Z])/g, ' $1')
-              .replace(/^./, str => str.toUpperCase())
-              .trim();
-            return `${fieldName}: ${value.trim()}`;
-          });
-        
-        if (formEntries.length > 0) {
-          formDataSection = `\nInput Parameters:\n${formEntries.join('\n')}`;
-        }
-      }
-
-      const prompt = `Run the "${playbook.title}" agent (${playbook.agentName}).
-        
-Category: ${playbook.category}
-Task: ${playbook.description}
-
-Auto Actions:
-${playbook.autoActions.map(a => `- ${a}`).join('\n')}
-
-Expected Outputs:
-${playbook.outputs.map(o => `- ${o}`).join('\n')}${formDataSection}
-
-${customInstructions ? `Custom Instructions:\n${customInstructions}` : ''}`;
+      const prompt = buildPlaybookPrompt(playbook, formData, customInstructions);
       
       if (sendMessage) {
         sendMessage(prompt);
@@ -236,6 +206,13 @@ ${customInstructions ? `Custom Instructions:\n${customInstructions}` : ''}`;
     // 当前 Tab 状态
     const [activeTab, setActiveTab] = useState<"content" | "artifacts">("content");
 
+    // 斜杠命令 /library 打开内容库
+    useEffect(() => {
+      const handleOpenContentLibrary = () => setActiveTab("content");
+      window.addEventListener("seenos:open_content_library", handleOpenContentLibrary);
+      return () => window.removeEventListener("seenos:open_content_library", handleOpenContentLibrary);
+    }, []);
+
     return (
       <div className="flex h-full flex-col p-2 pl-0">
         <div className="flex h-full flex-col overflow-hidden rounded-xl border border-border bg-background">
@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Bot, FileCode, Loader2, Search, User, Wrench } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useConversationSearch,
+  SEARCH_DATE_RANGES,
+  type ConversationSearchFilters,
+  type SearchDateRange,
+} from "@/hooks/useConversationSearch";
+import { useChatContext } from "@/providers/ChatProvider";
+import { useProject } from "@/providers/ProjectProvider";
+import type { Conversation, ConversationSearchHit, SearchMatchSource } from "@/lib/api/client";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<SearchMatchSource, string> = {
+  message: "Message",
+  tool_args: "Tool input",
+  tool_result: "Tool result",
+  file: "File",
+};
+
+const STATUS_OPTIONS: Array<{ value: Conversation["status"]; label: string }> = [
+  { value: "idle", label: "Idle" },
+  { value: "busy", label: "Running" },
+  { value: "interrupted", label: "Waiting for approval" },
+  { value: "error", label: "Error" },
+];
+
+/** Select 不支持空值，用 all 表示不过滤 */
+const ALL = "all";
+
+/** 命中的图标：文件 / 工具 / 用户 / 助手 */
+function HitIcon({ hit }: { hit: ConversationSearchHit }) {
+  const className = "mt-0.5 flex-shrink-0 text-muted-foreground";
+  if (hit.source === "file") return <FileCode size={14} className={className} />;
+  if (hit.source !== "message") return <Wrench size={14} className={className} />;
+  return hit.role === "user" ? <User size={14} className={className} /> : <Bot size={14} className={className} />;
+}
+
+/** 高亮片段中的命中区间 */
+function HighlightedSnippet({ snippet, highlights }: Pick<ConversationSearchHit, "snippet" | "highlights">) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  [...highlights]
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, end }, index) => {
+      if (start < cursor || end <= start) return;
+      if (start > cursor) parts.push(snippet.slice(cursor, start));
+      parts.push(
+        <mark key={index} className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground dark:bg-yellow-500/30">
+          {snippet.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+  if (cursor < snippet.length) parts.push(snippet.slice(cursor));
+  return <>{parts}</>;
+}
+
+/**
+ * SearchPalette - 全局搜索（Ctrl+K / Cmd+K）
+ *
+ * 搜索所有会话的消息、工具调用参数 / 结果和生成的文件名，可按日期、状态、项目过滤。
+ * 选中结果后切换到对应会话，并通过 seenos:jump_to_message 通知 ChatInterface 定位到消息
+ * （消息不在已加载的范围内时向前分页加载）
+ */
+export function SearchPalette() {
+  const { cid, switchConversation } = useChatContext();
+  const { projects } = useProject();
+
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<ConversationSearchFilters>({ dateRange: "any" });
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const search = useConversationSearch({ query, filters, enabled: open });
+  const { hits } = search;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("seenos:open_search", handleOpen);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("seenos:open_search", handleOpen);
+    };
+  }, []);
+
+  // 结果变化时回到第一项
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [search.query, filters]);
+
+  // 保持选中项可见
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const openHit = useCallback(
+    (hit: ConversationSearchHit) => {
+      setOpen(false);
+      if (hit.cid !== cid) {
+        switchConversation(hit.cid);
+      }
+      if (hit.messageId) {
+        window.dispatchEvent(
+          new CustomEvent("seenos:jump_to_message", { detail: { cid: hit.cid, messageId: hit.messageId } })
+        );
+      }
+    },
+    [cid, switchConversation]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, hits.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter" && hits[activeIndex]) {
+      e.preventDefault();
+      openHit(hits[activeIndex]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="top-[15%] flex max-h-[70vh] translate-y-0 flex-col gap-0 overflow-hidden p-0 sm:max-w-2xl" showCloseButton={false}>
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        <div className="flex items-center gap-2 border-b border-border px-3">
+          <Search size={16} className="flex-shrink-0 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search messages, tool calls and files..."
+            className="h-12 border-none bg-transparent px-0 shadow-none focus-visible:ring-0 dark:bg-transparent"
+          />
+          {search.isSearching && <Loader2 size={14} className="flex-shrink-0 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+          <Select
+            value={filters.dateRange}
+            onValueChange={(value) => setFilters((prev) => ({ ...prev, dateRange: value as SearchDateRange }))}
+          >
+            <SelectTrigger className="h-7 w-auto gap-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEARCH_DATE_RANGES.map((option) => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.status ?? ALL}
+            onValueChange={(value) =>
+              setFilters((prev) => ({ ...prev, status: value === ALL ? undefined : (value as Conversation["status"]) }))
+            }
+          >
+            <SelectTrigger className="h-7 w-auto gap-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL} className="text-xs">Any status</SelectItem>
+              {STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {projects.length > 0 && (
+            <Select
+              value={filters.projectId ?? ALL}
+              onValueChange={(value) => setFilters((prev) => ({ ...prev, projectId: value === ALL ? undefined : value }))}
+            >
+              <SelectTrigger className="h-7 w-auto max-w-[200px] gap-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} className="text-xs">All projects</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id} className="text-xs">
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {search.query && !search.isSearching && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              {search.total} {search.total === 1 ? "result" : "results"}
+            </span>
+          )}
+        </div>
+
+        <div ref={listRef} role="listbox" className="min-h-0 flex-1 overflow-y-auto py-1">
+          {hits.map((hit, index) => (
+            <button
+              key={`${hit.cid}:${hit.messageId ?? hit.filePath}:${hit.source}:${index}`}
+              type="button"
+              role="option"
+              data-index={index}
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => openHit(hit)}
+              className={cn(
+                "flex w-full items-start gap-3 px-3 py-2 text-left text-sm",
+                index === activeIndex && "bg-accent"
+              )}
+            >
+              <HitIcon hit={hit} />
+              <span className="min-w-0 flex-1">
+                <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="truncate font-medium text-foreground">
+                    {hit.conversationTitle || "Untitled conversation"}
+                  </span>
+                  <span className="flex-shrink-0">
+                    {SOURCE_LABELS[hit.source]}
+                    {hit.toolName && ` · ${hit.toolName}`}
+                    {hit.filePath && ` · ${hit.filePath}`}
+                  </span>
+                  <span className="ml-auto flex-shrink-0">{new Date(hit.createdAt).toLocaleDateString()}</span>
+                </span>
+                <span className="mt-0.5 line-clamp-2 break-words text-muted-foreground">
+                  <HighlightedSnippet snippet={hit.snippet} highlights={hit.highlights} />
+                </span>
+              </span>
+            </button>
+          ))}
+
+          {search.hasMore && (
+            <button
+              type="button"
+              onClick={search.loadMore}
+              disabled={search.isLoadingMore}
+              className="flex w-full items-center justify-center gap-2 px-3 py-2 text-xs text-muted-foreground hover:text-foreground"
+            >
+              {search.isLoadingMore && <Loader2 size={12} className="animate-spin" />}
+              Load more results
+            </button>
+          )}
+
+          {search.query && !search.isSearching && hits.length === 0 && (
+            <div className="px-3 py-8 text-center text-sm text-muted-foreground">
+              {search.error ? "Search failed. Please try again." : `No results for "${search.query}"`}
+            </div>
+          )}
+          {!search.query && (
+            <div className="px-3 py-8 text-center text-sm text-muted-foreground">
+              Search across all conversations
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { ArrowLeft, BookOpen, Command, Play, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FormField } from "@/data/skillForms";
+import type { SlashCommandKind } from "@/lib/slash-commands";
+import type { UseSlashCommandsReturn } from "@/hooks/useSlashCommands";
+import { cn } from "@/lib/utils";
+
+const KIND_ICONS: Record<SlashCommandKind, React.ReactNode> = {
+  builtin: <Command size={14} />,
+  playbook: <BookOpen size={14} />,
+  skill: <Wand2 size={14} />,
+};
+
+const KIND_LABELS: Record<SlashCommandKind, string> = {
+  builtin: "Action",
+  playbook: "Playbook",
+  skill: "Skill",
+};
+
+/** 高亮命中的字符 */
+export function HighlightedTitle({ title, indices }: { title: string; indices: number[] }) {
+  if (indices.length === 0) return <>{title}</>;
+  const hits = new Set(indices);
+  return (
+    <>
+      {Array.from(title).map((char, index) =>
+        hits.has(index) ? (
+          <span key={index} className="font-semibold text-foreground">{char}</span>
+        ) : (
+          <React.Fragment key={index}>{char}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+interface SlashCommandPaletteProps {
+  palette: UseSlashCommandsReturn;
+  /** 面板对齐的元素（输入框），面板显示在其上方 */
+  anchorRef: React.RefObject<HTMLElement | null>;
+}
+
+/**
+ * SlashCommandPalette - 输入框上方的斜杠命令面板
+ *
+ * 命令列表模式下键盘操作由输入框转发（见 useSlashCommands.handleKeyDown）；
+ * 参数模式下按命令的 FormField 生成内联表单，Enter 提交、Esc 返回列表
+ */
+export function SlashCommandPalette({ palette, anchorRef }: SlashCommandPaletteProps) {
+  const { isOpen, matches, activeIndex, setActiveIndex, pending, select } = palette;
+  const listRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: 0, width: 0, bottom: 0 });
+
+  // 输入区域所在的面板会裁剪溢出内容，面板使用 fixed 定位到输入框上方
+  useLayoutEffect(() => {
+    if (!isOpen) return;
+    const updatePosition = () => {
+      const rect = anchorRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setPosition({ left: rect.left, width: rect.width, bottom: window.innerHeight - rect.top + 8 });
+    };
+    updatePosition();
+    window.addEventListener("resize", updatePosition);
+    return () => window.removeEventListener("resize", updatePosition);
+  }, [isOpen, anchorRef]);
+
+  // 保持选中项可见
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed z-50 overflow-hidden rounded-lg border border-border bg-popover shadow-lg"
+      style={position}
+    >
+      {pending ? (
+        <SlashCommandArguments palette={palette} />
+      ) : (
+        <div ref={listRef} role="listbox" className="max-h-72 overflow-y-auto py-1">
+          {matches.map(({ command, titleIndices }, index) => (
+            <button
+              key={command.id}
+              type="button"
+              role="option"
+              data-index={index}
+              aria-selected={index === activeIndex}
+              aria-disabled={command.disabled}
+              // 阻止输入框失焦
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => select(command)}
+              className={cn(
+                "flex w-full items-center gap-3 px-3 py-2 text-left text-sm",
+                index === activeIndex && "bg-accent",
+                command.disabled && "cursor-not-allowed opacity-50"
+              )}
+            >
+              <span className="text-muted-foreground">{KIND_ICONS[command.kind]}</span>
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-muted-foreground">
+                  <HighlightedTitle title={command.title} indices={titleIndices} />
+                </span>
+                <span className="block truncate text-xs text-muted-foreground/80">{command.description}</span>
+              </span>
+              <span className="font-mono text-xs text-muted-foreground">/{command.name}</span>
+              <span className="w-14 text-right text-[10px] uppercase tracking-wide text-muted-foreground">
+                {KIND_LABELS[command.kind]}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** 命令参数表单 */
+function SlashCommandArguments({ palette }: { palette: UseSlashCommandsReturn }) {
+  const { pending, setArgument, submitArguments, cancelArguments } = palette;
+  const formRef = useRef<HTMLFormElement>(null);
+
+  // 打开时聚焦第一个空字段（已自动填充的跳过）
+  useEffect(() => {
+    const inputs = formRef.current?.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>("input, textarea");
+    if (!inputs || inputs.length === 0) return;
+    const firstEmpty = Array.from(inputs).find((input) => !input.value);
+    (firstEmpty ?? inputs[0]).focus();
+  }, [pending?.command.id]);
+
+  if (!pending) return null;
+  const { command, values, missing } = pending;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLFormElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      cancelArguments();
+    }
+  };
+
+  const renderField = (field: FormField) => {
+    const value = values[field.key] ?? "";
+    const id = `slash-arg-${field.key}`;
+
+    if (field.type === "select") {
+      return (
+        <Select value={value} onValueChange={(next) => setArgument(field.key, next)}>
+          <SelectTrigger id={id} className="h-8 text-sm">
+            <SelectValue placeholder={field.placeholder} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (field.type === "textarea") {
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          placeholder={field.placeholder}
+          onChange={(e) => setArgument(field.key, e.target.value)}
+          onKeyDown={(e) => {
+            // Enter 提交，Shift+Enter 换行
+            if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              submitArguments();
+            }
+          }}
+          className="min-h-[60px] text-sm"
+        />
+      );
+    }
+
+    return (
+      <Input
+        id={id}
+        type="text"
+        value={value}
+        placeholder={field.placeholder}
+        onChange={(e) => setArgument(field.key, e.target.value)}
+        className="h-8 text-sm"
+      />
+    );
+  };
+
+  return (
+    <form
+      ref={formRef}
+      onSubmit={(e) => {
+        e.preventDefault();
+        submitArguments();
+      }}
+      onKeyDown={handleKeyDown}
+      className="flex max-h-96 flex-col"
+    >
+      <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+        <button
+          type="button"
+          onClick={cancelArguments}
+          className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+          title="Back (Esc)"
+        >
+          <ArrowLeft size={14} />
+        </button>
+        <span className="text-muted-foreground">{KIND_ICONS[command.kind]}</span>
+        <span className="truncate text-sm font-medium">{command.title}</span>
+        <span className="font-mono text-xs text-muted-foreground">/{command.name}</span>
+      </div>
+
+      <div className="space-y-2 overflow-y-auto px-3 py-2">
+        {command.fields?.map((field) => (
+          <div key={field.key} className="grid grid-cols-[180px_1fr] items-start gap-2">
+            <label htmlFor={`slash-arg-${field.key}`} className="pt-1.5 text-xs text-muted-foreground">
+              {field.label}
+              {field.required && <span className="ml-0.5 text-destructive">*</span>}
+            </label>
+            <div>
+              {renderField(field)}
+              {field.helpText && <p className="mt-0.5 text-[11px] text-muted-foreground">{field.helpText}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-border px-3 py-2">
+        <span className="text-xs text-destructive">
+          {missing.length > 0 && `Please fill in: ${missing.join(", ")}`}
+        </span>
+        <Button type="submit" size="sm">
+          <Play />
+          Run
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ChevronFirst,
+  ChevronLast,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useChatContext } from "@/providers/ChatProvider";
+import { useStreamRecorderStore, useStreamRecording } from "@/hooks/useStreamRecorderStore";
+import {
+  diffStreamSnapshots,
+  parseStreamRecording,
+  serializeStreamRecording,
+  snapshotStreamState,
+  streamRecordingFileName,
+  type StreamRecording,
+  type StreamStateChange,
+} from "@/lib/stream/recording";
+import { cn } from "@/lib/utils";
+
+/** 单个值在面板中最多显示的字符数 */
+const MAX_VALUE_LENGTH = 2000;
+
+const ENTITY_LABELS: Record<StreamStateChange["entity"], string> = {
+  message: "Message",
+  toolCall: "ToolCall",
+  subagent: "SubAgent",
+};
+
+const CHANGE_STYLES: Record<StreamStateChange["kind"], string> = {
+  added: "text-green-600 dark:text-green-400",
+  removed: "text-red-600 dark:text-red-400",
+  changed: "text-amber-600 dark:text-amber-400",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "undefined";
+  const text = typeof value === "string" ? value : JSON.stringify(value, null, 2);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}… (${text.length} chars)` : text;
+}
+
+/**
+ * StreamDebugPanel - 流式事件录制与重放调试面板
+ *
+ * Ctrl+Shift+E（或 seenos:open_stream_debugger 事件）打开：
+ * - 开关事件录制，导出当前会话的录制 / 导入用户提供的录制文件
+ * - 用与实时事件相同的处理逻辑逐条重放，显示每个事件派发的 action
+ *   以及处理后 Message / ToolCall / 子代理的状态变化
+ */
+export function StreamDebugPanel() {
+  const { cid, replayRecording } = useChatContext();
+  const enabled = useStreamRecorderStore((state) => state.enabled);
+  const setEnabled = useStreamRecorderStore((state) => state.setEnabled);
+  const clearRecording = useStreamRecorderStore((state) => state.clear);
+  const liveRecording = useStreamRecording(cid);
+
+  const [open, setOpen] = useState(false);
+  const [imported, setImported] = useState<StreamRecording | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // 当前查看的步骤：0 为录制基线，n 为处理第 n 个事件后
+  const [step, setStep] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === "e") {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("seenos:open_stream_debugger", handleOpen);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("seenos:open_stream_debugger", handleOpen);
+    };
+  }, []);
+
+  const recording = imported ?? liveRecording ?? null;
+
+  // 面板关闭时不重放，避免录制过程中的重复计算
+  const replay = useMemo(
+    () => (open && recording ? replayRecording(recording) : null),
+    [open, recording, replayRecording]
+  );
+  const stepCount = replay?.steps.length ?? 0;
+
+  // 切换录制来源时回到起点；实时录制追加事件时保持当前步骤
+  useEffect(() => {
+    setStep(0);
+  }, [imported, cid]);
+
+  const current = step > 0 ? replay?.steps[step - 1] : undefined;
+
+  const changes = useMemo(() => {
+    if (!replay || !current) return [];
+    const before = step > 1 ? replay.steps[step - 2].state : replay.initialState;
+    return diffStreamSnapshots(snapshotStreamState(before), snapshotStreamState(current.state));
+  }, [replay, current, step]);
+
+  const goTo = useCallback(
+    (next: number) => setStep(Math.max(0, Math.min(stepCount, next))),
+    [stepCount]
+  );
+
+  const handleExport = useCallback(() => {
+    if (!recording) return;
+    const blob = new Blob([serializeStreamRecording(recording)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = streamRecordingFileName(recording);
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [recording]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setImported(parseStreamRecording(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Failed to read recording");
+    }
+  }, []);
+
+  const handleClear = useCallback(() => {
+    if (imported) {
+      setImported(null);
+    } else if (cid) {
+      clearRecording(cid);
+    }
+    setStep(0);
+  }, [imported, cid, clearRecording]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="flex h-[85vh] max-h-[85vh] w-[90vw] !max-w-6xl flex-col gap-3 sm:!max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Stream debugger</DialogTitle>
+          <DialogDescription>
+            {imported
+              ? `Imported recording of ${imported.cid} (${imported.events.length} events, started ${imported.startedAt})`
+              : liveRecording
+                ? `Live recording of ${liveRecording.cid} (${liveRecording.events.length} events)`
+                : enabled
+                  ? "Recording is on. Events for the current conversation will appear here."
+                  : "Turn on recording to capture stream events, or import a recording file."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="mr-2 flex items-center gap-2 text-sm">
+            <Switch checked={enabled} onCheckedChange={setEnabled} />
+            Record events
+          </label>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!recording}>
+            <Download />
+            Export
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={!recording}>
+            <Trash2 />
+            {imported ? "Close import" : "Clear"}
+          </Button>
+          {importError && <span className="text-sm text-destructive">{importError}</span>}
+
+          <div className="ml-auto flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => goTo(0)} disabled={step === 0} title="Baseline">
+              <ChevronFirst />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => goTo(step - 1)} disabled={step === 0} title="Previous event">
+              <ChevronLeft />
+            </Button>
+            <span className="min-w-20 text-center text-sm tabular-nums text-muted-foreground">
+              {step} / {stepCount}
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => goTo(step + 1)} disabled={step >= stepCount} title="Next event">
+              <ChevronRight />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => goTo(stepCount)} disabled={step >= stepCount} title="Last event">
+              <ChevronLast />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid min-h-0 flex-1 grid-cols-[260px_1fr] gap-3">
+          {/* Event list */}
+          <div className="overflow-y-auto rounded-md border border-border text-xs">
+            <button
+              type="button"
+              onClick={() => goTo(0)}
+              className={cn(
+                "flex w-full items-center gap-2 border-b border-border px-2 py-1.5 text-left hover:bg-accent",
+                step === 0 && "bg-accent"
+              )}
+            >
+              <span className="w-8 text-muted-foreground">0</span>
+              <span className="italic">
+                {recording?.baseline ? `baseline (${recording.baseline.messages.length} messages)` : "empty state"}
+              </span>
+            </button>
+            {recording?.events.map((entry, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => goTo(index + 1)}
+                className={cn(
+                  "flex w-full items-center gap-2 border-b border-border px-2 py-1.5 text-left font-mono hover:bg-accent",
+                  step === index + 1 && "bg-accent"
+                )}
+              >
+                <span className="w-8 text-muted-foreground">{index + 1}</span>
+                <span className="flex-1 truncate">{entry.event.type}</span>
+                <span className="text-muted-foreground">
+                  +{entry.receivedAt - recording.events[0].receivedAt}ms
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Step details */}
+          <div className="min-w-0 space-y-3 overflow-y-auto pr-1 text-xs">
+            {!current ? (
+              <p className="text-sm text-muted-foreground">
+                {stepCount > 0
+                  ? "Replay starts from the recorded baseline. Step forward to apply events one at a time."
+                  : "No events recorded yet."}
+              </p>
+            ) : (
+              <>
+                <section>
+                  <h3 className="mb-1 text-sm font-medium">
+                    Event <span className="font-mono">{current.event.type}</span>
+                    {current.event.seq !== undefined && (
+                      <span className="ml-2 text-muted-foreground">seq {current.event.seq}</span>
+                    )}
+                  </h3>
+                  <pre className="max-h-60 overflow-auto rounded-md bg-muted p-2">
+                    {formatValue(current.event.data)}
+                  </pre>
+                </section>
+
+                <section>
+                  <h3 className="mb-1 text-sm font-medium">Actions</h3>
+                  {current.actions.length === 0 ? (
+                    <p className="text-muted-foreground">No reducer actions (side effects only)</p>
+                  ) : (
+                    <p className="font-mono">{current.actions.map((action) => action.type).join(" → ")}</p>
+                  )}
+                </section>
+
+                <section>
+                  <h3 className="mb-1 text-sm font-medium">State changes</h3>
+                  {changes.length === 0 ? (
+                    <p className="text-muted-foreground">No Message, ToolCall or SubAgent changes</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {changes.map((change) => (
+                        <div key={`${change.entity}:${change.id}`} className="rounded-md border border-border p-2">
+                          <div className="mb-1 flex items-center gap-2">
+                            <span className={cn("font-medium uppercase", CHANGE_STYLES[change.kind])}>
+                              {change.kind}
+                            </span>
+                            <span className="font-medium">{ENTITY_LABELS[change.entity]}</span>
+                            <span className="truncate font-mono text-muted-foreground">{change.id}</span>
+                          </div>
+                          {change.fields.map((field) => (
+                            <div key={field.name} className="mt-1">
+                              <div className="font-mono text-muted-foreground">{field.name}</div>
+                              <div className="grid grid-cols-2 gap-2">
+                                <pre className="max-h-40 overflow-auto rounded bg-red-500/5 p-1.5">
+                                  {change.kind === "added" ? "" : formatValue(field.before)}
+                                </pre>
+                                <pre className="max-h-40 overflow-auto rounded bg-green-500/5 p-1.5">
+                                  {change.kind === "removed" ? "" : formatValue(field.after)}
+                                </pre>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useMemo } from "react";
+import Link from "next/link";
+import { AlertTriangle, Coins } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useModelPricing, useProjectUsage, useShowTokenUsage } from "@/hooks/useTokenUsage";
+import { useProject } from "@/providers/ProjectProvider";
+import type { Message, TokenUsageSummary } from "@/app/types/types";
+import {
+  formatCost,
+  formatTokenCount,
+  getBudgetStatus,
+  getConversationUsage,
+  getUsageCost,
+} from "@/lib/usage";
+import { cn } from "@/lib/utils";
+
+/** 成本文本（估算值加 ~ 前缀） */
+function CostText({ usage, model }: { usage: TokenUsageSummary; model?: string }) {
+  const { pricing } = useModelPricing();
+  const { cost, estimated } = getUsageCost(usage, pricing, model);
+  if (cost === null || cost === 0) return null;
+  return (
+    <span title={estimated ? "Estimated from model pricing" : undefined}>
+      {estimated && "~"}
+      {formatCost(cost)}
+    </span>
+  );
+}
+
+interface TokenUsageDisplayProps {
+  /** 消息 metadata.usage 或子代理运行的 usage */
+  usage: TokenUsageSummary | undefined;
+  /** 消息使用的模型（没有按模型明细时用于估算成本） */
+  model?: string;
+  /** 紧凑模式：只显示总数和成本（子代理标题栏） */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * TokenUsageDisplay - 单条消息 / 单次子代理运行的 token 使用量
+ * 显示输入（其中缓存命中）、输出 token 数和成本，受 showTokenUsage 设置控制
+ */
+export const TokenUsageDisplay = React.memo<TokenUsageDisplayProps>(({ usage, model, compact, className }) => {
+  const showTokenUsage = useShowTokenUsage();
+  if (!showTokenUsage || !usage) return null;
+
+  const cachedTokens = usage.cachedTokens ?? 0;
+
+  return (
+    <div className={cn("flex items-center gap-2 text-[10px] text-muted-foreground", className)}>
+      <Coins className="h-3 w-3 flex-shrink-0" />
+      <span>{formatTokenCount(usage.totalTokens)} tokens</span>
+      {!compact && (
+        <>
+          <span>•</span>
+          <span>
+            {formatTokenCount(usage.promptTokens)} in
+            {cachedTokens > 0 && ` (${formatTokenCount(cachedTokens)} cached)`}
+          </span>
+          <span>•</span>
+          <span>{formatTokenCount(usage.completionTokens)} out</span>
+        </>
+      )}
+      <CostText usage={usage} model={model} />
+      {!compact && usage.callCount > 1 && (
+        <>
+          <span>•</span>
+          <span>{usage.callCount} calls</span>
+        </>
+      )}
+    </div>
+  );
+});
+TokenUsageDisplay.displayName = "TokenUsageDisplay";
+
+/**
+ * ConversationUsageSummary - 会话标题栏中的总使用量
+ * 悬停显示输入 / 输出 / 缓存和按模型的明细；当前项目本月预算快用完或已超出时显示警告
+ */
+export function ConversationUsageSummary({ messages }: { messages: Message[] }) {
+  const showTokenUsage = useShowTokenUsage();
+  const { pricing } = useModelPricing(showTokenUsage);
+  const { currentProject } = useProject();
+  const { usage: projectUsage } = useProjectUsage(showTokenUsage ? currentProject?.id : null, 30);
+  const usage = useMemo(() => getConversationUsage(messages), [messages]);
+
+  if (!showTokenUsage) return null;
+
+  const budget = projectUsage?.budget;
+  const budgetStatus = budget ? getBudgetStatus(budget.monthToDateCost, budget.monthlyLimitUsd) : "ok";
+  if (!usage && budgetStatus === "ok") return null;
+
+  const { cost, estimated } = usage ? getUsageCost(usage, pricing) : { cost: null, estimated: false };
+
+  return (
+    <div className="flex items-center gap-2">
+      {usage && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="flex cursor-default items-center gap-1 rounded-md px-1.5 py-0.5 text-xs font-normal text-muted-foreground hover:bg-accent">
+              <Coins size={12} />
+              {formatTokenCount(usage.totalTokens)}
+              {cost !== null && cost > 0 && ` · ${estimated ? "~" : ""}${formatCost(cost)}`}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="max-w-xs">
+            <div className="space-y-1">
+              <div className="font-medium">Conversation usage</div>
+              <div>Input: {usage.promptTokens.toLocaleString()} tokens</div>
+              <div>Cached input: {(usage.cachedTokens ?? 0).toLocaleString()} tokens</div>
+              <div>Output: {usage.completionTokens.toLocaleString()} tokens</div>
+              <div>LLM calls: {usage.callCount}</div>
+              {usage.byModel &&
+                Object.entries(usage.byModel).map(([model, modelUsage]) => (
+                  <div key={model} className="opacity-80">
+                    {model}: {formatTokenCount(modelUsage.totalTokens)} tokens
+                  </div>
+                ))}
+              {estimated && <div className="opacity-80">Cost estimated from model pricing</div>}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {budget && budgetStatus !== "ok" && (
+        <Link
+          href="/usage"
+          className={cn(
+            "flex items-center gap-1 rounded-md px-1.5 py-0.5 text-xs font-normal hover:bg-accent",
+            budgetStatus === "exceeded" ? "text-destructive" : "text-amber-600 dark:text-amber-400"
+          )}
+          title={`${formatCost(budget.monthToDateCost)} of ${formatCost(budget.monthlyLimitUsd ?? 0)} monthly budget used`}
+        >
+          <AlertTriangle size={12} />
+          {budgetStatus === "exceeded" ? "Budget exceeded" : "Budget almost used"}
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef, Suspense } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef, Suspense } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
-import { Sun, Moon, LogOut, User, ArrowLeft } from "lucide-react";
+import { Sun, Moon, LogOut, User, ArrowLeft, Search, BarChart3 } from "lucide-react";
 import { ChatProvider, useChatContext } from "@/providers/ChatProvider";
 import { useAuth } from "@/providers/AuthProvider";
 import { useContextMenu } from "@/providers/ContextProvider";
@@ -19,6 +19,8 @@ import { SessionReplacedListener } from "@/app/components/SessionReplacedListene
 import { SessionExpiredBanner } from "@/app/components/SessionExpiredBanner";
 import { ConnectionStatusBanner } from "@/app/components/ConnectionStatusBanner";
 import { ProgressEventsListener } from "@/app/components/ProgressEventsListener";
+import { StreamDebugPanel } from "@/app/components/StreamDebugPanel";
+import { SearchPalette } from "@/app/components/SearchPalette";
 import { useConversations } from "@/hooks/useConversations";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -68,9 +70,16 @@ function useTheme() {
 
 // ============ 主内容组件 ============
 function MainContent() {
-  const { todos, files, setFiles, isLoading, interrupt } = useChatContext();
+  const { todos, files, setFiles, isLoading, interrupt, switchConversation, sendEditorEvent } = useChatContext();
+  const { user } = useAuth();
   const isEditorOpen = useEditorStore((state) => state.isEditorOpen);
 
+  // 协同编辑时显示给其他编辑者的身份
+  const editorUser = useMemo(
+    () => (user ? { id: user.id, name: user.name || user.email, avatar: user.avatar } : null),
+    [user]
+  );
+
   return (
     <ResizablePanelGroup
       direction="horizontal"
@@ -86,7 +95,7 @@ function MainContent() {
             defaultSize={20}
             minSize={15}
           >
-            <LeftSidebar todos={todos} />
+            <LeftSidebar todos={todos} onSelectConversation={switchConversation} />
           </ResizablePanel>
 
           <ResizableHandle className="relative w-2 bg-transparent hover:bg-border/10 transition-colors cursor-col-resize after:absolute after:inset-y-0 after:left-1/2 after:w-[1px] after:-translate-x-1/2 after:bg-transparent hover:after:bg-border/60" />
@@ -115,7 +124,7 @@ function MainContent() {
             defaultSize={70}
             minSize={50}
           >
-            <BlockEditorPanel />
+            <BlockEditorPanel sendEditorEvent={sendEditorEvent} user={editorUser} />
           </ResizablePanel>
         </>
       ) : (
@@ -354,6 +363,20 @@ function AuthenticatedHome() {
               </div>
             )}
 
+            <button
+              onClick={() => window.dispatchEvent(new CustomEvent("seenos:open_search"))}
+              className="rounded-md p-2 hover:bg-accent"
+              title="Search conversations (Ctrl+K)"
+            >
+              <Search size={18} className="text-muted-foreground" />
+            </button>
+            <button
+              onClick={() => router.push("/usage")}
+              className="rounded-md p-2 hover:bg-accent"
+              title="Usage and budget"
+            >
+              <BarChart3 size={18} className="text-muted-foreground" />
+            </button>
             <button
               onClick={() => router.push("/onboarding")}
               className="rounded-md p-2 hover:bg-accent"
@@ -418,6 +441,10 @@ function AuthenticatedHome() {
             <SessionReplacedListener />
             {/* 监听工具/模型重试事件 (PROGRESS_EVENTS_FRONTEND_GUIDE.md) */}
             <ProgressEventsListener />
+            {/* 流式事件录制与重放调试面板（Ctrl+Shift+E） */}
+            <StreamDebugPanel />
+            {/* 全局搜索（Ctrl+K） */}
+            <SearchPalette />
             <MainContent />
           </ChatProvider>
         </div>
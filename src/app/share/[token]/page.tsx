@@ -0,0 +1,118 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import useSWR from "swr";
+import { EyeOff, Link2Off, Loader2 } from "lucide-react";
+import { ChatMessage } from "@/app/components/ChatMessage";
+import { apiClient, type ApiError } from "@/lib/api/client";
+import type { Message, TodoItem, ToolCall } from "@/app/types/types";
+import { cn } from "@/lib/utils";
+
+const NO_TOOL_CALLS: ToolCall[] = [];
+
+/** 打开失败时显示的说明 */
+function getErrorMessage(error: unknown): { title: string; description: string } {
+  const status = (error as ApiError | undefined)?.status;
+  if (status === 410) {
+    return {
+      title: "This link is no longer available",
+      description: "The person who shared this conversation has revoked the link or it has expired.",
+    };
+  }
+  if (status === 404) {
+    return {
+      title: "Link not found",
+      description: "Check that you copied the whole link.",
+    };
+  }
+  return {
+    title: "Failed to load the conversation",
+    description: "Please try again later.",
+  };
+}
+
+/**
+ * 分享页面 - 只读查看会话快照（无需登录）
+ *
+ * 快照由分享者创建（见 ConversationShareDialog / lib/share），这里不连接聊天服务，
+ * 消息以只读模式渲染：没有编辑、反馈、重新生成等操作，文件引用只显示预览
+ */
+export default function SharedConversationPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data, error, isLoading } = useSWR(
+    token ? ["shared-conversation", token] : null,
+    () => apiClient.getSharedConversation(token),
+    { revalidateOnFocus: false, shouldRetryOnError: false }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    const message = getErrorMessage(error);
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-2 px-6 text-center">
+        <Link2Off className="mb-2 h-8 w-8 text-muted-foreground" />
+        <h1 className="text-lg font-semibold text-foreground">{message.title}</h1>
+        <p className="text-sm text-muted-foreground">{message.description}</p>
+      </div>
+    );
+  }
+
+  const messages = data.messages as Message[];
+  const todos = data.todos as TodoItem[];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur">
+        <div className="mx-auto flex max-w-3xl items-center justify-between gap-4 px-6 py-3">
+          <div className="min-w-0">
+            <h1 className="truncate text-base font-semibold text-foreground">
+              {data.title || "Shared conversation"}
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              Read-only snapshot from {new Date(data.createdAt).toLocaleString()}
+              {data.expiresAt && ` · available until ${new Date(data.expiresAt).toLocaleString()}`}
+            </p>
+          </div>
+          <span className="flex-shrink-0 text-sm font-semibold text-muted-foreground">SeenOS</span>
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-3xl flex-col gap-2 px-6 py-6">
+        {data.redactToolArgs && (
+          <div className="mb-2 flex items-center gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2 text-xs text-muted-foreground">
+            <EyeOff size={14} className="flex-shrink-0" />
+            Tool call arguments and subagent tasks were hidden by the person who shared this conversation.
+          </div>
+        )}
+
+        {messages.map((message, index) => (
+          <ChatMessage key={message.id || index} message={message} toolCalls={NO_TOOL_CALLS} readOnly />
+        ))}
+
+        {todos.length > 0 && (
+          <section className="mt-4 border-t border-border pt-4 text-sm">
+            <h2 className="mb-2 text-base font-semibold text-foreground">Tasks</h2>
+            <ul className="flex flex-col gap-1">
+              {todos.map((todo) => (
+                <li
+                  key={todo.id}
+                  className={cn(todo.status === "completed" && "text-muted-foreground line-through")}
+                >
+                  {todo.content}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -72,11 +72,13 @@ export interface WebsiteContent {
   type:
   | "home"
   | "about"
+  | "contact"
   | "pricing"
   | "faq"
   | "case_study"
   | "testimonial"
   | "documentation"
+  | "product"
   | "career"
   | "legal"
   | "other";
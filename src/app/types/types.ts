@@ -204,6 +204,7 @@ export interface ToolCallBlock {
   toolType: "tool" | "subagent";
   args: Record<string, unknown>;
   argsPreview: string;                // Short preview for collapsed display
+  argsRedacted?: boolean;             // Args hidden in a shared snapshot
   result?: unknown;                   // Tool result (may be large)
   resultPreview?: string;             // Short preview for collapsed display
   status: "pending" | "running" | "success" | "error";
@@ -230,11 +231,13 @@ export interface SubagentBlock {
   subagentName: string;               // e.g., "researcher", "coder"
   subagentDisplayName: string;        // e.g., "Researcher", "Coder"
   taskDescription: string;
+  taskRedacted?: boolean;             // Task description hidden in a shared snapshot
   status: "running" | "success" | "error";
   durationMs?: number;
   startedAt?: string;
   endedAt?: string;
   childBlocks: ContentBlock[];        // Nested tool calls within subagent
+  usage?: TokenUsageSummary;          // Token usage of this subagent run (from subagent_end)
 }
 
 export interface PresignedUploadResponse {
@@ -326,6 +329,29 @@ export interface ToolCallSummary {
   subagentName?: string;
 }
 
+// ============ @ 引用 ============
+
+/** 引用来源：上下文条目 / 人物 / 实体、会话文件、内容库条目、子代理 */
+export type MessageMentionType = 'item' | 'person' | 'entity' | 'file' | 'content' | 'subagent';
+
+/** 用户消息中的 @ 引用（随消息发送，并保存在 metadata.mentions 中） */
+export interface MessageMention {
+  type: MessageMentionType;
+  id: string;              // 条目 ID；文件为路径，子代理为名称
+  label: string;           // 插入输入框的文本（不含 @）
+  description?: string;    // 分类、状态等补充信息，仅用于显示
+}
+
+// ============ 回复版本 ============
+
+/** 助手消息的版本信息（重新生成过的消息才有，保存在 metadata.variants 中） */
+export interface MessageVariantsInfo {
+  groupId: string;         // 最初回复的消息 ID，同一位置的所有版本共享
+  count: number;           // 版本总数
+  index: number;           // 该消息在版本中的序号（从 0 开始）
+  canonicalId: string;     // 后续对话基于的版本
+}
+
 export interface Message {
   id: string;
   cid?: string;                    // 所属会话
@@ -376,6 +402,8 @@ export interface Message {
     citations?: ContextSearchResult[];  // 引用来源 (RAG)
     usage?: TokenUsageSummary;          // Token 使用量统计
     feedback?: Feedback | null;         // 用户反馈（点赞/踩）
+    mentions?: MessageMention[];        // 用户消息中的 @ 引用
+    variants?: MessageVariantsInfo;     // 助手消息的版本信息（重新生成）
     [key: string]: unknown;
   };
   // AI 消息可能包含工具调用
@@ -578,6 +606,10 @@ export type StreamEventType =
   | 'content_saved'      // 结构化内容已保存
   | 'content_rendered'   // 预览 HTML 已生成
   | 'content_published'  // 内容已发布
+  // Block Editor 协同编辑（其他编辑者的事件，由服务器转发）
+  | 'editor.content_update' // 协同编辑操作
+  | 'editor.presence'    // 在线状态
+  | 'editor.sync'        // 完整协同状态
   // 中断和错误
   | 'interrupt'          // 中断（人机交互）
   | 'error'              // 错误
@@ -587,6 +619,9 @@ export interface StreamEvent<T = unknown> {
   type: StreamEventType;
   data: T;
   timestamp?: number;
+  // 断线续传 (Resumable streams)
+  seq?: number;          // 会话内单调递增的事件序号（用于去重和断线重放）
+  cid?: string;          // 事件所属会话（未提供时视为当前绑定的会话）
 }
 
 // 具体事件数据类型
@@ -631,6 +666,15 @@ export interface MessageEndEventData {
   message?: Message;
 }
 
+// 请求完成
+export interface DoneEventData {
+  reason?: 'cancelled' | 'error' | 'stopped';
+  /** 本轮的助手消息 ID */
+  messageId?: string;
+  /** 本轮的 token 使用量（message_end 没有带 usage 时记到本轮的助手消息上） */
+  usage?: TokenUsageSummary;
+}
+
 export interface ToolCallStartEventData {
   /** Associated message ID */
   messageId?: string;
@@ -699,6 +743,8 @@ export interface SubAgentEndEventData {
   messageId?: string;
   subagentName: string;
   status: 'success' | 'error';
+  /** 子代理本次运行的 token 使用量 */
+  usage?: TokenUsageSummary;
 }
 
 // 兼容旧格式
@@ -773,6 +819,8 @@ export interface StateUpdateEventData {
   todos?: TodoItem[];
   files?: Record<string, string | FileItem>;
   pagination?: PaginationInfo;  // 分页信息 (WEBSOCKET_FRONTEND_GUIDE.md)
+  branches?: ConversationBranch[];  // 会话分支
+  activeBranchId?: string;          // 当前分支
 }
 
 // 重试开始事件数据 (WEBSOCKET_FRONTEND_GUIDE.md)
@@ -911,15 +959,31 @@ export interface PaginatedResponse<T> {
 export interface LoginResponse {
   token: string;
   sessionToken?: string;
+  refreshToken?: string;
   user: User;
   settings: UserSettings;
   isAdmin?: boolean;  // 是否是管理员
 }
 
+/**
+ * 会话分支
+ * 编辑历史用户消息并重新发送时，从该消息处分叉出新分支；同一位置的各个版本共享 rootMessageId
+ */
+export interface ConversationBranch {
+  id: string;
+  parentBranchId: string | null;        // 来源分支；主分支为 null
+  forkedFromMessageId: string | null;   // 来源分支中被编辑的用户消息
+  rootMessageId: string | null;         // 该位置最初版本的用户消息
+  messageId: string | null;             // 本分支中编辑后的用户消息
+  createdAt: string;
+}
+
 export interface ConversationDetailResponse extends Conversation {
   messages: Message[];
   todos?: TodoItem[];
   files?: Record<string, string>;
+  branches?: ConversationBranch[];      // 会话分支（不含主分支）
+  activeBranchId?: string;              // 当前分支，缺省为主分支
 }
 
 // ============ Context (RAG) 相关 ============
@@ -958,6 +1022,7 @@ export interface TokenUsageSummary {
   totalTokens: number;           // 总 token 数
   promptTokens: number;          // 输入 token 数
   completionTokens: number;      // 输出 token 数
+  cachedTokens?: number;         // 命中缓存的输入 token 数（包含在 promptTokens 中）
   totalCost: number;             // 总成本（USD）
   callCount: number;             // LLM 调用次数
   byModel?: Record<string, ModelUsage>;   // 按模型分组
@@ -967,6 +1032,7 @@ export interface TokenUsageSummary {
 export interface ModelUsage {
   promptTokens: number;
   completionTokens: number;
+  cachedTokens?: number;
   totalTokens: number;
   cost: number;
   callCount: number;
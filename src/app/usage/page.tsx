@@ -0,0 +1,366 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/providers/AuthProvider";
+import { useProject } from "@/providers/ProjectProvider";
+import { useModelPricing, useProjectUsage } from "@/hooks/useTokenUsage";
+import { apiClient, type ProjectUsageDay } from "@/lib/api/client";
+import { BUDGET_WARNING_RATIO, formatCost, formatTokenCount, getBudgetStatus } from "@/lib/usage";
+import { cn } from "@/lib/utils";
+
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+type ChartMetric = "tokens" | "cost";
+
+function SummaryCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-foreground">{value}</p>
+      {hint && <p className="mt-1 text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+/** 每日用量柱状图（token 数按输入 / 输出堆叠） */
+function DailyUsageChart({ days, metric }: { days: ProjectUsageDay[]; metric: ChartMetric }) {
+  const max = Math.max(...days.map((day) => (metric === "tokens" ? day.totalTokens : day.cost)), 0);
+
+  if (max === 0) {
+    return (
+      <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+        No usage in this period
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-48 items-end gap-[2px]">
+      {days.map((day) => {
+        const value = metric === "tokens" ? day.totalTokens : day.cost;
+        const height = (value / max) * 100;
+        const promptShare = day.totalTokens > 0 ? day.promptTokens / day.totalTokens : 0;
+        const label =
+          metric === "tokens"
+            ? `${day.date}: ${day.totalTokens.toLocaleString()} tokens (${day.promptTokens.toLocaleString()} in, ${day.completionTokens.toLocaleString()} out)`
+            : `${day.date}: ${formatCost(day.cost)}`;
+        return (
+          <div key={day.date} className="flex h-full flex-1 flex-col justify-end" title={label}>
+            <div className="flex w-full flex-col overflow-hidden rounded-t-sm" style={{ height: `${height}%` }}>
+              {metric === "tokens" ? (
+                <>
+                  <div className="w-full bg-primary/50" style={{ height: `${(1 - promptShare) * 100}%` }} />
+                  <div className="w-full flex-1 bg-primary" />
+                </>
+              ) : (
+                <div className="h-full w-full bg-primary" />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * 用量页面 - 当前项目的 token 使用量和成本
+ *
+ * 显示每日用量图表、按模型的用量和价格表，以及月度预算（达到 80% 时提示，超出时警告）
+ */
+export default function UsagePage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { currentProject } = useProject();
+  const [days, setDays] = useState<number>(30);
+  const [metric, setMetric] = useState<ChartMetric>("tokens");
+  const [budgetInput, setBudgetInput] = useState("");
+  const [savingBudget, setSavingBudget] = useState(false);
+
+  const { usage, error, isLoading, mutate } = useProjectUsage(currentProject?.id, days);
+  const { models, pricing } = useModelPricing(isAuthenticated);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push("/login?redirect=/usage");
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  const budget = usage?.budget;
+  useEffect(() => {
+    setBudgetInput(budget?.monthlyLimitUsd != null ? String(budget.monthlyLimitUsd) : "");
+  }, [budget?.monthlyLimitUsd]);
+
+  const totals = useMemo(() => {
+    const result = { promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0, cost: 0, callCount: 0 };
+    for (const day of usage?.days ?? []) {
+      result.promptTokens += day.promptTokens;
+      result.completionTokens += day.completionTokens;
+      result.cachedTokens += day.cachedTokens;
+      result.totalTokens += day.totalTokens;
+      result.cost += day.cost;
+      result.callCount += day.callCount;
+    }
+    return result;
+  }, [usage?.days]);
+
+  const modelNames = useMemo(() => new Map(models.map((model) => [model.id, model.name])), [models]);
+  const pricedModels = useMemo(() => models.filter((model) => model.pricing), [models]);
+
+  const handleSaveBudget = async () => {
+    if (!currentProject) return;
+    const trimmed = budgetInput.trim();
+    const limit = trimmed ? Number(trimmed) : null;
+    if (limit !== null && (!Number.isFinite(limit) || limit <= 0)) {
+      toast.error("Enter a positive amount, or leave empty for no budget");
+      return;
+    }
+
+    setSavingBudget(true);
+    try {
+      const updated = await apiClient.updateProjectBudget(currentProject.id, limit);
+      await mutate((current) => (current ? { ...current, budget: updated } : current), { revalidate: false });
+      toast.success(limit === null ? "Monthly budget removed" : "Monthly budget saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save budget");
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
+  const budgetStatus = budget ? getBudgetStatus(budget.monthToDateCost, budget.monthlyLimitUsd) : "ok";
+  const budgetRatio =
+    budget?.monthlyLimitUsd ? Math.min(budget.monthToDateCost / budget.monthlyLimitUsd, 1) : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="mx-auto flex max-w-5xl items-center gap-3 px-6 py-3">
+          <button onClick={() => router.push("/")} className="rounded-md p-2 hover:bg-accent" title="Back to chat">
+            <ArrowLeft size={18} className="text-muted-foreground" />
+          </button>
+          <div className="min-w-0">
+            <h1 className="text-base font-semibold text-foreground">Usage</h1>
+            <p className="truncate text-xs text-muted-foreground">
+              {currentProject ? currentProject.name : "No project selected"}
+            </p>
+          </div>
+          <div className="ml-auto flex items-center gap-1 rounded-md border border-border p-0.5">
+            {RANGE_OPTIONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setDays(option)}
+                className={cn(
+                  "rounded px-2 py-1 text-xs",
+                  days === option ? "bg-accent font-medium text-foreground" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {option}d
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-5xl flex-col gap-6 px-6 py-6">
+        {!currentProject ? (
+          <p className="text-sm text-muted-foreground">Select a project to see its usage.</p>
+        ) : isLoading ? (
+          <div className="flex h-64 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !usage ? (
+          <p className="text-sm text-destructive">Failed to load usage. Please try again later.</p>
+        ) : (
+          <>
+            {budget && budgetStatus !== "ok" && (
+              <div
+                className={cn(
+                  "flex items-center gap-2 rounded-lg border px-4 py-3 text-sm",
+                  budgetStatus === "exceeded"
+                    ? "border-destructive bg-destructive/10 text-destructive"
+                    : "border-amber-500/50 bg-amber-50 text-amber-800 dark:bg-amber-950 dark:text-amber-200"
+                )}
+              >
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                {budgetStatus === "exceeded"
+                  ? `This project has exceeded its monthly budget: ${formatCost(budget.monthToDateCost)} of ${formatCost(budget.monthlyLimitUsd ?? 0)}.`
+                  : `This project has used over ${Math.round(BUDGET_WARNING_RATIO * 100)}% of its monthly budget: ${formatCost(budget.monthToDateCost)} of ${formatCost(budget.monthlyLimitUsd ?? 0)}.`}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              <SummaryCard label="Total tokens" value={formatTokenCount(totals.totalTokens)} hint={`${totals.callCount.toLocaleString()} LLM calls`} />
+              <SummaryCard
+                label="Input tokens"
+                value={formatTokenCount(totals.promptTokens)}
+                hint={`${formatTokenCount(totals.cachedTokens)} cached`}
+              />
+              <SummaryCard label="Output tokens" value={formatTokenCount(totals.completionTokens)} />
+              <SummaryCard label="Cost" value={formatCost(totals.cost)} hint={`Last ${days} days`} />
+            </div>
+
+            <section className="rounded-lg border border-border bg-card p-4">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-foreground">Daily usage</h2>
+                <div className="flex items-center gap-1 rounded-md border border-border p-0.5">
+                  {(["tokens", "cost"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setMetric(option)}
+                      className={cn(
+                        "rounded px-2 py-1 text-xs capitalize",
+                        metric === option ? "bg-accent font-medium text-foreground" : "text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <DailyUsageChart days={usage.days} metric={metric} />
+              <div className="mt-2 flex justify-between text-[10px] text-muted-foreground">
+                <span>{usage.days[0]?.date}</span>
+                {metric === "tokens" && (
+                  <span className="flex items-center gap-3">
+                    <span className="flex items-center gap-1">
+                      <span className="h-2 w-2 rounded-sm bg-primary" /> Input
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <span className="h-2 w-2 rounded-sm bg-primary/50" /> Output
+                    </span>
+                  </span>
+                )}
+                <span>{usage.days[usage.days.length - 1]?.date}</span>
+              </div>
+            </section>
+
+            <section className="rounded-lg border border-border bg-card p-4">
+              <h2 className="mb-3 text-sm font-semibold text-foreground">By model</h2>
+              {usage.byModel.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No usage in this period</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                      <th className="pb-2 font-medium">Model</th>
+                      <th className="pb-2 text-right font-medium">Input</th>
+                      <th className="pb-2 text-right font-medium">Cached</th>
+                      <th className="pb-2 text-right font-medium">Output</th>
+                      <th className="pb-2 text-right font-medium">Calls</th>
+                      <th className="pb-2 text-right font-medium">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.byModel.map((row) => (
+                      <tr key={row.model} className="border-b border-border/50 last:border-0">
+                        <td className="py-2">{modelNames.get(row.model) ?? row.model}</td>
+                        <td className="py-2 text-right">{formatTokenCount(row.promptTokens)}</td>
+                        <td className="py-2 text-right">{formatTokenCount(row.cachedTokens)}</td>
+                        <td className="py-2 text-right">{formatTokenCount(row.completionTokens)}</td>
+                        <td className="py-2 text-right">{row.callCount.toLocaleString()}</td>
+                        <td className="py-2 text-right">{formatCost(row.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <section className="rounded-lg border border-border bg-card p-4">
+                <h2 className="mb-3 text-sm font-semibold text-foreground">Monthly budget</h2>
+                {budget?.monthlyLimitUsd ? (
+                  <div className="mb-4">
+                    <div className="mb-1 flex justify-between text-xs text-muted-foreground">
+                      <span>{formatCost(budget.monthToDateCost)} used this month</span>
+                      <span>{formatCost(budget.monthlyLimitUsd)}</span>
+                    </div>
+                    <div className="h-2 overflow-hidden rounded-full bg-muted">
+                      <div
+                        className={cn(
+                          "h-full rounded-full",
+                          budgetStatus === "exceeded"
+                            ? "bg-destructive"
+                            : budgetStatus === "warning"
+                              ? "bg-amber-500"
+                              : "bg-primary"
+                        )}
+                        style={{ width: `${budgetRatio * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mb-4 text-xs text-muted-foreground">
+                    {formatCost(budget?.monthToDateCost ?? 0)} used this month. No budget set.
+                  </p>
+                )}
+                <Label htmlFor="monthly-budget" className="text-xs">
+                  Monthly limit (USD)
+                </Label>
+                <div className="mt-1 flex gap-2">
+                  <Input
+                    id="monthly-budget"
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="No budget"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    disabled={savingBudget}
+                  />
+                  <Button onClick={handleSaveBudget} disabled={savingBudget}>
+                    {savingBudget ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+                <p className="mt-2 text-xs text-muted-foreground">
+                  You will be warned in the chat header at {Math.round(BUDGET_WARNING_RATIO * 100)}% and when the budget is exceeded.
+                </p>
+              </section>
+
+              <section className="rounded-lg border border-border bg-card p-4">
+                <h2 className="mb-3 text-sm font-semibold text-foreground">Pricing</h2>
+                {pricedModels.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No pricing available</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                        <th className="pb-2 font-medium">Model</th>
+                        <th className="pb-2 text-right font-medium">Input</th>
+                        <th className="pb-2 text-right font-medium">Cached</th>
+                        <th className="pb-2 text-right font-medium">Output</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pricedModels.map((model) => {
+                        const modelPricing = pricing[model.id];
+                        return (
+                          <tr key={model.id} className="border-b border-border/50 last:border-0">
+                            <td className="py-2">{model.name}</td>
+                            <td className="py-2 text-right">${modelPricing.input}</td>
+                            <td className="py-2 text-right">
+                              {modelPricing.cachedInput !== null ? `$${modelPricing.cachedInput}` : "—"}
+                            </td>
+                            <td className="py-2 text-right">${modelPricing.output}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+                <p className="mt-2 text-xs text-muted-foreground">USD per 1M tokens</p>
+              </section>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
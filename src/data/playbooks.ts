@@ -20,3 +20,54 @@ export interface Playbook {
 
 export const playbooks: Playbook[] = [];
 
+
+/**
+ * Format filled-in form fields as an "Input Parameters" section (empty values are skipped)
+ */
+export function formatFormDataSection(formData?: Record<string, string>): string {
+  if (!formData || Object.keys(formData).length === 0) return '';
+
+  const formEntries = Object.entries(formData)
+    .filter(([_, value]) => value && value.trim()) // Only include non-empty values
+    .map(([key, value]) => {
+      // Format field names to be more readable
+      const fieldName = key
+        .replace(/([A-Z])/g, ' $1')
+        .replace(/^./, str => str.toUpperCase())
+        .trim();
+      return `${fieldName}: ${value.trim()}`;
+    });
+
+  return formEntries.length > 0 ? `\nInput Parameters:\n${formEntries.join('\n')}` : '';
+}
+
+/**
+ * Build the chat message that runs a playbook
+ */
+export function buildPlaybookPrompt(
+  playbook: Playbook,
+  formData?: Record<string, string>,
+  customInstructions?: string
+): string {
+  const formDataSection = formatFormDataSection(formData);
+
+  return `Run the "${playbook.title}" agent (${playbook.agentName}).
+        
+Category: ${playbook.category}
+Task: ${playbook.description}
+
+Auto Actions:
+${playbook.autoActions.map(a => `- ${a}`).join('\n')}
+
+Expected Outputs:
+${playbook.outputs.map(o => `- ${o}`).join('\n')}${formDataSection}
+
+${customInstructions ? `Custom Instructions:\n${customInstructions}` : ''}`;
+}
+
+/**
+ * Build the chat message that runs a skill directly (skills without a playbook)
+ */
+export function buildSkillPrompt(skillName: string, skillKey: string, formData?: Record<string, string>): string {
+  return `Run the "${skillName}" skill (${skillKey}).${formatFormDataSection(formData)}`;
+}
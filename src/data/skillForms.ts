@@ -824,3 +824,73 @@ export function getSkillFormConfig(
   return defaultFormConfig;
 }
 
+
+/**
+ * Values used to pre-fill fields marked with `autoFill`
+ */
+export interface SkillAutoFillValues {
+  domain: string | null;
+  competitorDomains: string[];
+  niche: string | null;
+}
+
+/**
+ * Read auto-fill values saved during onboarding / context sync (see PlaybookDialog)
+ * The current project's domain takes precedence over the onboarding domain when provided
+ */
+export function getSkillAutoFillValues(project?: { domain?: string; websiteUrl?: string } | null): SkillAutoFillValues {
+  if (typeof window === 'undefined') {
+    return { domain: null, competitorDomains: [], niche: null };
+  }
+
+  const projectDomain = project?.domain || project?.websiteUrl?.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+
+  let competitorDomains: string[] = [];
+  try {
+    const stored = localStorage.getItem('seenos_onboarding_competitors');
+    const parsed = stored ? JSON.parse(stored) : [];
+    competitorDomains = Array.isArray(parsed) ? parsed.filter(Boolean) : [];
+  } catch {
+    competitorDomains = [];
+  }
+
+  return {
+    domain: projectDomain || localStorage.getItem('seenos_onboarding_domain'),
+    competitorDomains,
+    niche: localStorage.getItem('seenos_onboarding_niche'),
+  };
+}
+
+/**
+ * Build the initial form values for a skill: auto-filled fields first, then select defaults, otherwise empty
+ */
+export function getInitialSkillFormData(
+  fields: FormField[],
+  autoFill: SkillAutoFillValues
+): Record<string, string> {
+  const initialData: Record<string, string> = {};
+  fields.forEach((field) => {
+    if (field.autoFill === 'domain') {
+      initialData[field.key] = autoFill.domain || '';
+    } else if (field.autoFill === 'competitorDomains') {
+      initialData[field.key] = autoFill.competitorDomains.join(', ');
+    } else if (field.autoFill === 'niche') {
+      initialData[field.key] = autoFill.niche || '';
+    } else if (field.type === 'select' && field.defaultValue) {
+      initialData[field.key] = field.defaultValue;
+    } else {
+      initialData[field.key] = '';
+    }
+  });
+  return initialData;
+}
+
+/**
+ * Human readable name for a skill key, e.g. "keyword-research" -> "Keyword Research"
+ */
+export function getSkillDisplayName(skillKey: string): string {
+  return skillKey
+    .split('-')
+    .map((word) => (word === 'seo' || word === 'geo' || word === 'serp' ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+}
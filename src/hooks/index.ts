@@ -1,5 +1,26 @@
 export { useChat, type UseChatOptions, type ChatState, type ChatContextType } from './useChat';
-export { useStream, type StreamTransport, type UseStreamReturn } from './useStream';
+export {
+  useStream,
+  type StreamTransport,
+  type StreamReplay,
+  type StreamReplayStep,
+  type UseStreamReturn,
+} from './useStream';
+export {
+  useConversationStreamStore,
+  useConversationActivity,
+  type ConversationActivity,
+} from './useConversationStreamStore';
+export {
+  useStreamRecorderStore,
+  useStreamRecording,
+  type StreamRecorderStore,
+} from './useStreamRecorderStore';
+export {
+  useConversationOrganizationStore,
+  type ConversationOrganizationStore,
+  type OrganizationSource,
+} from './useConversationOrganizationStore';
 export {
   useConversations,
   useConversation,
@@ -10,8 +31,22 @@ export {
 } from './useConversations';
 export { useSuggestions, type Suggestion } from './useSuggestions';
 export { usePlaybooks } from './usePlaybooks';
+export {
+  useSlashCommands,
+  type PendingSlashCommand,
+  type UseSlashCommandsReturn,
+} from './useSlashCommands';
+export { useMentions, type UseMentionsReturn } from './useMentions';
+export {
+  useConversationSearch,
+  SEARCH_DATE_RANGES,
+  type ConversationSearchFilters,
+  type SearchDateRange,
+  type UseConversationSearchReturn,
+} from './useConversationSearch';
 export { useMessageRetry, type UseMessageRetryReturn } from './useMessageRetry';
 export { useFeedback, type UseFeedbackReturn } from './useFeedback';
+export { useShowTokenUsage, useModelPricing, useProjectUsage } from './useTokenUsage';
 export {
   useStructuredContent,
   type UseStructuredContentOptions,
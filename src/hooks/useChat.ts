@@ -5,6 +5,7 @@ import { useQueryState } from "nuqs";
 import { useStream, type StreamTransport } from "./useStream";
 import { useProgressStore } from "./useProgressStore";
 import { apiClient } from "@/lib/api/client";
+import type { ConversationTemplate } from "@/lib/templates";
 import type {
   Message,
   TodoItem,
@@ -16,6 +17,7 @@ import type {
   PaginationInfo,
   ToolProgress,
   AttachmentRef,
+  MessageMention,
 } from "@/types";
 
 // ============ 类型定义 ============
@@ -54,7 +56,7 @@ const PROGRESSIVE_LOAD_THRESHOLD = 3;  // 超过 3 条消息才启用渐进式
 export function useChat(options: UseChatOptions = {}) {
   const { 
     onHistoryRevalidate, 
-    transport = "websocket",
+    transport = "auto",
     token = null,
     sessionToken = null,
     isAuthenticated = false,
@@ -188,6 +190,8 @@ export function useChat(options: UseChatOptions = {}) {
 
   // 跟踪当前正在加载的 cid，避免重复加载
   const loadingCidRef = useRef<string | null>(null);
+  // 从后台恢复的 cid（URL 变化时跳过历史加载）
+  const restoredCidRef = useRef<string | null>(null);
 
   // 加载会话历史
   useEffect(() => {
@@ -198,13 +202,21 @@ export function useChat(options: UseChatOptions = {}) {
       return;
     }
 
+    // 已从后台恢复的会话（由 switchConversation 切换），无需重新加载
+    if (restoredCidRef.current === urlCid) {
+      restoredCidRef.current = null;
+      return;
+    }
+
     loadingCidRef.current = urlCid;
     cancelProgressiveLoad();
 
     const loadConversation = async () => {
       try {
-        // 绑定到会话
-        stream.connectToCid(urlCid);
+        // 绑定到会话（仍在后台生成的会话直接恢复其状态）
+        if (stream.connectToCid(urlCid)) {
+          return;
+        }
         
         const data = await apiClient.get<ConversationDetailResponse>(
           `/conversations/${urlCid}`
@@ -215,6 +227,7 @@ export function useChat(options: UseChatOptions = {}) {
           return;
         }
 
+        stream.setBranches(data.branches || [], data.activeBranchId);
         await loadMessagesProgressively(
           data.messages || [],
           data.todos || [],
@@ -254,16 +267,14 @@ export function useChat(options: UseChatOptions = {}) {
       const newCid = response.cid;
       console.log("[useChat] Created conversation:", newCid);
       
-      // 只重置会话状态，保留 WebSocket 连接
+      // 连接到新会话（当前会话仍在生成时转入后台），再重置会话状态
+      stream.connectToCid(newCid);
       stream.resetConversation();
       
       // 更新状态
       await setUrlCid(newCid);
       setActiveCid(newCid);
       
-      // 连接到新会话
-      stream.connectToCid(newCid);
-      
       onHistoryRevalidate?.();
       
       return newCid;
@@ -277,8 +288,9 @@ export function useChat(options: UseChatOptions = {}) {
 
   // 发送消息（优化版：自动创建会话并发送）
   // attachments: 可选参数，用于发送附件 (IMAGE_UPLOAD_FRONTEND_GUIDE.md)
+  // mentions: 可选参数，输入框中 @ 引用的条目
   const sendMessage = useCallback(
-    async (content: string, attachments?: AttachmentRef[]) => {
+    async (content: string, attachments?: AttachmentRef[], mentions?: MessageMention[]) => {
       let currentCid = cid;
 
       // 如果没有会话，先创建
@@ -324,7 +336,7 @@ export function useChat(options: UseChatOptions = {}) {
       // 传入 currentCid 确保使用正确的会话 ID（解决新会话创建时的时序问题）
       console.log("[useChat] Sending message to cid:", currentCid, "attachments:", attachments?.length || 0);
       try {
-        await stream.sendMessage(content, currentCid || undefined, attachments);
+        await stream.sendMessage(content, currentCid || undefined, attachments, mentions);
         onHistoryRevalidate?.();
       } catch (error) {
         console.error("Failed to send message:", error);
@@ -343,14 +355,23 @@ export function useChat(options: UseChatOptions = {}) {
       // 取消当前加载
       cancelProgressiveLoad();
       
-      // 重置会话状态（清空消息等）
-      stream.resetConversation();
+      // 主动连接到新的 cid（不依赖 useEffect）
+      // 当前会话仍在生成时转入后台；目标会话仍在后台生成时直接恢复其状态
+      const restored = stream.connectToCid(newCid);
       
       // 重置进度状态 (PROGRESS_EVENTS_FRONTEND_GUIDE.md)
       progressStore.reset();
       
-      // 主动连接到新的 cid（不依赖 useEffect）
-      stream.connectToCid(newCid);
+      if (restored) {
+        loadingCidRef.current = null;
+        restoredCidRef.current = newCid;
+        setUrlCid(newCid);
+        setActiveCid(newCid);
+        return;
+      }
+      
+      // 重置会话状态（清空消息等）
+      stream.resetConversation();
       
       // 更新 URL 和状态
       setUrlCid(newCid);
@@ -364,6 +385,7 @@ export function useChat(options: UseChatOptions = {}) {
           if (loadingCidRef.current !== newCid) {
             return;
           }
+          stream.setBranches(data.branches || [], data.activeBranchId);
           await loadMessagesProgressively(
             data.messages || [],
             data.todos || [],
@@ -390,6 +412,7 @@ export function useChat(options: UseChatOptions = {}) {
     async (targetCid: string) => {
       try {
         await apiClient.delete(`/conversations/${targetCid}`);
+        stream.releaseBackgroundStream(targetCid);
 
         if (targetCid === cid) {
           await setUrlCid(null);
@@ -469,6 +492,18 @@ export function useChat(options: UseChatOptions = {}) {
     }
   }, [cid]);
 
+  // 用模板新建会话：创建会话并写入模板中的文件（提示词由输入框依次填入）
+  const createConversationFromTemplate = useCallback(async (template: ConversationTemplate): Promise<string> => {
+    const newCid = await createConversation(template.title);
+
+    if (Object.keys(template.files).length > 0) {
+      await apiClient.updateConversationFiles(newCid, template.files);
+      stream.setInitialState({ messages: [], todos: [], files: template.files });
+    }
+
+    return newCid;
+  }, [createConversation, stream]);
+
   // 返回值
   return {
     // 状态
@@ -486,6 +521,15 @@ export function useChat(options: UseChatOptions = {}) {
     // 新增：重试状态 (WEBSOCKET_FRONTEND_GUIDE.md)
     retryingTurnId: stream.retryingTurnId,
     retryAttempt: stream.retryAttempt,
+    // 会话分支
+    branches: stream.branches,
+    activeBranchId: stream.activeBranchId,
+    // 回复版本
+    messageVariants: stream.messageVariants,
+    // 发件箱中尚未发送成功的用户消息
+    outbox: stream.outbox,
+    // 当前实际使用的传输方式
+    activeTransport: stream.activeTransport,
     // 新增：工具进度状态 (PROGRESS_EVENTS_FRONTEND_GUIDE.md)
     toolProgress: progressStore.toolProgress,
     toolProgressByName: progressStore.toolProgressByName,
@@ -509,11 +553,26 @@ export function useChat(options: UseChatOptions = {}) {
     // 新增方法 (WEBSOCKET_FRONTEND_GUIDE.md)
     loadMoreMessages: stream.loadMoreMessages,
     retryMessage: stream.retryMessage,
+    sendOutboxMessageNow: stream.sendOutboxMessageNow,
+    discardOutboxMessage: stream.discardOutboxMessage,
+    // Block Editor 事件（协同编辑）
+    sendEditorEvent: stream.sendEditorEvent,
+    // 编辑历史消息并分叉 / 切换分支
+    editMessage: stream.editMessage,
+    switchBranch: stream.switchBranch,
+    // 重新生成回复 / 切换和选择版本
+    regenerateMessage: stream.regenerateMessage,
+    loadMessageVariants: stream.loadMessageVariants,
+    showVariant: stream.showVariant,
+    selectVariant: stream.selectVariant,
+    // 重放录制的事件（流式调试面板）
+    replayRecording: stream.replayRecording,
     // 新增方法：进度状态管理 (PROGRESS_EVENTS_FRONTEND_GUIDE.md)
     getToolProgress: progressStore.getToolProgress,
 
     // 会话管理
     createConversation,
+    createConversationFromTemplate,
     switchConversation,
     deleteConversation,
     startNewChat,
@@ -7,8 +7,8 @@
  * Based on STRUCTURED_CONTENT_FRONTEND_GUIDE.md specification.
  */
 
-import { useState, useCallback, useEffect, useMemo } from "react";
-import { apiClient } from "@/lib/api/client";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { apiClient, isAbortError } from "@/lib/api/client";
 import type {
   Project,
   TopicClusterResponse,
@@ -79,11 +79,16 @@ export function useContentLibrary({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
+  // Requests started outside effects (refresh, item detail); cancelled when superseded or on unmount
+  const refreshRequestRef = useRef<AbortController | null>(null);
+  const itemsRequestRef = useRef<AbortController | null>(null);
+  const detailRequestRef = useRef<AbortController | null>(null);
+
   // ============ Load Projects ============
 
-  const loadProjects = useCallback(async () => {
+  const loadProjects = useCallback(async (signal?: AbortSignal) => {
     try {
-      const data = await apiClient.getProjects();
+      const data = await apiClient.getProjects(signal);
       setProjects(data.projects);
       
       // If no project selected, auto-select the first one
@@ -91,6 +96,7 @@ export function useContentLibrary({
         setSelectedProject(data.projects[0].id);
       }
     } catch (e) {
+      if (isAbortError(e)) return;
       const err = e instanceof Error ? e : new Error("Failed to load projects");
       setError(err);
       onError?.(err);
@@ -99,16 +105,17 @@ export function useContentLibrary({
 
   // ============ Load Clusters ============
 
-  const loadClusters = useCallback(async () => {
+  const loadClusters = useCallback(async (signal?: AbortSignal) => {
     if (!selectedProject) {
       setClusters([]);
       return;
     }
 
     try {
-      const data = await apiClient.getProjectClusters(selectedProject);
+      const data = await apiClient.getProjectClusters(selectedProject, signal);
       setClusters(data.clusters);
     } catch (e) {
+      if (isAbortError(e)) return;
       const err = e instanceof Error ? e : new Error("Failed to load clusters");
       setError(err);
       onError?.(err);
@@ -117,7 +124,7 @@ export function useContentLibrary({
 
   // ============ Load Content Items ============
 
-  const loadItems = useCallback(async () => {
+  const loadItems = useCallback(async (signal?: AbortSignal) => {
     if (!selectedProject) {
       setItems([]);
       return;
@@ -127,13 +134,14 @@ export function useContentLibrary({
       let data;
       if (selectedCluster) {
         // Load specific cluster items
-        data = await apiClient.getClusterItems(selectedProject, selectedCluster);
+        data = await apiClient.getClusterItems(selectedProject, selectedCluster, {}, signal);
       } else {
         // Load all project items
-        data = await apiClient.getProjectItems(selectedProject);
+        data = await apiClient.getProjectItems(selectedProject, {}, signal);
       }
       setItems(data.items);
     } catch (e) {
+      if (isAbortError(e)) return;
       const err = e instanceof Error ? e : new Error("Failed to load items");
       setError(err);
       onError?.(err);
@@ -145,10 +153,15 @@ export function useContentLibrary({
   const loadItemDetail = useCallback(async (itemId: string) => {
     if (!selectedProject) return;
 
+    detailRequestRef.current?.abort();
+    const controller = new AbortController();
+    detailRequestRef.current = controller;
+
     try {
-      const detail = await apiClient.getContentItemDetail(selectedProject, itemId);
+      const detail = await apiClient.getContentItemDetail(selectedProject, itemId, controller.signal);
       setSelectedItem(detail);
     } catch (e) {
+      if (isAbortError(e)) return;
       const err = e instanceof Error ? e : new Error("Failed to load item detail");
       setError(err);
       onError?.(err);
@@ -158,24 +171,42 @@ export function useContentLibrary({
   // ============ Full Refresh ============
 
   const refresh = useCallback(async () => {
+    refreshRequestRef.current?.abort();
+    const controller = new AbortController();
+    refreshRequestRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      await loadProjects();
+      await loadProjects(controller.signal);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [loadProjects]);
 
   // ============ Refresh Items ============
 
   const refreshItems = useCallback(async () => {
-    await loadItems();
+    itemsRequestRef.current?.abort();
+    const controller = new AbortController();
+    itemsRequestRef.current = controller;
+    await loadItems(controller.signal);
   }, [loadItems]);
 
   // ============ Auto Load ============
 
+  // Cancel pending requests on unmount
+  useEffect(() => {
+    return () => {
+      refreshRequestRef.current?.abort();
+      itemsRequestRef.current?.abort();
+      detailRequestRef.current?.abort();
+    };
+  }, []);
+
   // Initial load projects
   useEffect(() => {
     if (autoLoad) {
@@ -185,18 +216,22 @@ export function useContentLibrary({
 
   // Load clusters when project changes
   useEffect(() => {
-    if (selectedProject) {
-      loadClusters();
-      // Reset cluster selection
-      setSelectedCluster(null);
-    }
+    if (!selectedProject) return;
+
+    const controller = new AbortController();
+    loadClusters(controller.signal);
+    // Reset cluster selection
+    setSelectedCluster(null);
+    return () => controller.abort();
   }, [selectedProject, loadClusters]);
 
   // Load items when project or cluster changes
   useEffect(() => {
-    if (selectedProject) {
-      loadItems();
-    }
+    if (!selectedProject) return;
+
+    const controller = new AbortController();
+    loadItems(controller.signal);
+    return () => controller.abort();
   }, [selectedProject, selectedCluster, loadItems]);
 
   // ============ Handle Project Selection ============
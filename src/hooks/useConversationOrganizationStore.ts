@@ -0,0 +1,200 @@
+/**
+ * 会话整理（置顶、标签、文件夹、归档）
+ *
+ * 整理信息与会话列表分开加载：load() 获取全部标签、文件夹和各会话的设置，
+ * 修改时先更新本地状态再请求服务端，失败时恢复并抛出错误（由调用方提示）。
+ * 服务端没有会话整理端点（404）时切换为本地模式，之后的修改只保存到 localStorage（见 lib/organization）
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import {
+  apiClient,
+  type ApiError,
+  type ConversationFolder,
+  type ConversationOrganization,
+  type ConversationOrganizationUpdate,
+  type ConversationTag,
+} from '@/lib/api/client';
+import {
+  applyOrganizationUpdate,
+  createLocalId,
+  loadLocalOrganization,
+  removeFolderFromConversations,
+  removeTagFromConversations,
+  saveLocalOrganization,
+} from '@/lib/organization';
+
+// ============ 类型定义 ============
+
+/** 整理信息的保存位置 */
+export type OrganizationSource = 'remote' | 'local';
+
+export interface ConversationOrganizationState {
+  tags: ConversationTag[];
+  folders: ConversationFolder[];
+  /** 各会话的整理信息（按 cid，默认值不保存） */
+  conversations: Record<string, ConversationOrganization>;
+  source: OrganizationSource;
+  isLoaded: boolean;
+}
+
+export interface ConversationOrganizationActions {
+  /** 加载整理信息（服务端不支持时改用本地数据） */
+  load: () => Promise<void>;
+  /** 批量更新会话（置顶、归档、移动到文件夹、添加 / 移除标签） */
+  updateConversations: (cids: string[], update: ConversationOrganizationUpdate) => Promise<void>;
+  /** 会话已删除，移除其整理信息（只更新本地状态） */
+  forgetConversations: (cids: string[]) => void;
+  createTag: (name: string, color: string) => Promise<ConversationTag>;
+  updateTag: (tagId: string, data: { name?: string; color?: string }) => Promise<void>;
+  deleteTag: (tagId: string) => Promise<void>;
+  createFolder: (name: string, projectId: string | null) => Promise<ConversationFolder>;
+  renameFolder: (folderId: string, name: string) => Promise<void>;
+  deleteFolder: (folderId: string) => Promise<void>;
+}
+
+export type ConversationOrganizationStore = ConversationOrganizationState & ConversationOrganizationActions;
+
+type OrganizationData = Pick<ConversationOrganizationState, 'tags' | 'folders' | 'conversations'>;
+
+function isNotFoundError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as ApiError).status === 404;
+}
+
+// ============ Store ============
+
+export const useConversationOrganizationStore = create<ConversationOrganizationStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => {
+      /**
+       * 先应用本地修改，再执行服务端请求
+       * 本地模式下只保存到 localStorage；请求失败时恢复修改前的状态
+       */
+      const commit = async (next: OrganizationData, remote: () => Promise<unknown>) => {
+        const { tags, folders, conversations, source } = get();
+        const data = { tags: next.tags, folders: next.folders, conversations: next.conversations };
+        set(data);
+
+        if (source === 'local') {
+          saveLocalOrganization(data);
+          return;
+        }
+
+        try {
+          await remote();
+        } catch (error) {
+          set({ tags, folders, conversations });
+          throw error;
+        }
+      };
+
+      return {
+        tags: [],
+        folders: [],
+        conversations: {},
+        source: 'remote',
+        isLoaded: false,
+
+        load: async () => {
+          try {
+            const data = await apiClient.getConversationOrganization();
+            set({ ...data, source: 'remote', isLoaded: true });
+          } catch (error) {
+            if (!isNotFoundError(error)) {
+              console.error('[ConversationOrganization] Failed to load:', error);
+              set({ isLoaded: true });
+              return;
+            }
+            // 服务端不支持会话整理，改用本地数据
+            set({ ...loadLocalOrganization(), source: 'local', isLoaded: true });
+          }
+        },
+
+        updateConversations: async (cids, update) => {
+          if (cids.length === 0) return;
+          const state = get();
+          await commit(
+            { ...state, conversations: applyOrganizationUpdate(state.conversations, cids, update) },
+            () => apiClient.updateConversationOrganization(cids, update)
+          );
+        },
+
+        forgetConversations: (cids) => {
+          const conversations = { ...get().conversations };
+          cids.forEach((cid) => delete conversations[cid]);
+          set({ conversations });
+          const { tags, folders, source } = get();
+          if (source === 'local') saveLocalOrganization({ tags, folders, conversations });
+        },
+
+        createTag: async (name, color) => {
+          if (get().source === 'local') {
+            const tag: ConversationTag = { id: createLocalId('tag'), name, color };
+            const state = get();
+            await commit({ ...state, tags: [...state.tags, tag] }, async () => undefined);
+            return tag;
+          }
+          const tag = await apiClient.createConversationTag({ name, color });
+          set((state) => ({ tags: [...state.tags, tag] }));
+          return tag;
+        },
+
+        updateTag: async (tagId, data) => {
+          const state = get();
+          await commit(
+            { ...state, tags: state.tags.map((tag) => (tag.id === tagId ? { ...tag, ...data } : tag)) },
+            () => apiClient.updateConversationTag(tagId, data)
+          );
+        },
+
+        deleteTag: async (tagId) => {
+          const state = get();
+          await commit(
+            {
+              ...state,
+              tags: state.tags.filter((tag) => tag.id !== tagId),
+              conversations: removeTagFromConversations(state.conversations, tagId),
+            },
+            () => apiClient.deleteConversationTag(tagId)
+          );
+        },
+
+        createFolder: async (name, projectId) => {
+          if (get().source === 'local') {
+            const folder: ConversationFolder = { id: createLocalId('folder'), name, projectId };
+            const state = get();
+            await commit({ ...state, folders: [...state.folders, folder] }, async () => undefined);
+            return folder;
+          }
+          const folder = await apiClient.createConversationFolder({ name, projectId });
+          set((state) => ({ folders: [...state.folders, folder] }));
+          return folder;
+        },
+
+        renameFolder: async (folderId, name) => {
+          const state = get();
+          await commit(
+            { ...state, folders: state.folders.map((folder) => (folder.id === folderId ? { ...folder, name } : folder)) },
+            () => apiClient.updateConversationFolder(folderId, { name })
+          );
+        },
+
+        deleteFolder: async (folderId) => {
+          const state = get();
+          await commit(
+            {
+              ...state,
+              folders: state.folders.filter((folder) => folder.id !== folderId),
+              conversations: removeFolderFromConversations(state.conversations, folderId),
+            },
+            () => apiClient.deleteConversationFolder(folderId)
+          );
+        },
+      };
+    }),
+    { name: 'conversation-organization-store' }
+  )
+);
+
+export default useConversationOrganizationStore;
@@ -0,0 +1,99 @@
+"use client";
+
+/**
+ * 全文搜索 Hook
+ *
+ * 搜索所有会话的消息正文、工具调用参数 / 结果和生成的文件名（apiClient.searchConversations），
+ * 输入停止后再请求，结果按页加载（SWR Infinite 缓存相同查询）
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import useSWRInfinite from "swr/infinite";
+import { apiClient, type Conversation, type ConversationSearchHit } from "@/lib/api/client";
+
+/** 输入防抖时间 */
+const DEBOUNCE_MS = 250;
+/** 每页结果数 */
+const PAGE_SIZE = 20;
+
+// ============ 类型定义 ============
+
+/** 日期范围 */
+export type SearchDateRange = "any" | "day" | "week" | "month" | "year";
+
+export const SEARCH_DATE_RANGES: Array<{ value: SearchDateRange; label: string; days?: number }> = [
+  { value: "any", label: "Any time" },
+  { value: "day", label: "Past 24 hours", days: 1 },
+  { value: "week", label: "Past week", days: 7 },
+  { value: "month", label: "Past month", days: 30 },
+  { value: "year", label: "Past year", days: 365 },
+];
+
+export interface ConversationSearchFilters {
+  dateRange: SearchDateRange;
+  status?: Conversation["status"];
+  projectId?: string;
+}
+
+interface UseConversationSearchOptions {
+  query: string;
+  filters: ConversationSearchFilters;
+  /** 关闭时不请求 */
+  enabled?: boolean;
+}
+
+// ============ Hook ============
+
+export function useConversationSearch({ query, filters, enabled = true }: UseConversationSearchOptions) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { dateRange, status, projectId } = filters;
+
+  const { data, error, isLoading, isValidating, size, setSize } = useSWRInfinite(
+    (pageIndex, previous: { nextCursor: string | null } | null) => {
+      if (!enabled || !debouncedQuery) return null;
+      if (previous && !previous.nextCursor) return null;
+      return ["search", debouncedQuery, dateRange, status ?? "", projectId ?? "", previous?.nextCursor ?? ""];
+    },
+    ([, q, range, statusFilter, project, cursor]) => {
+      const days = SEARCH_DATE_RANGES.find((option) => option.value === range)?.days;
+      return apiClient.searchConversations({
+        query: q,
+        status: (statusFilter || undefined) as Conversation["status"] | undefined,
+        projectId: project || undefined,
+        from: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+        limit: PAGE_SIZE,
+        cursor: cursor || undefined,
+      });
+    },
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      revalidateFirstPage: false,
+      dedupingInterval: 60000,
+    }
+  );
+
+  const hits = useMemo<ConversationSearchHit[]>(() => data?.flatMap((page) => page.hits) ?? [], [data]);
+  const lastPage = data?.[data.length - 1];
+
+  return {
+    /** 实际请求的查询（防抖后） */
+    query: debouncedQuery,
+    hits,
+    total: data?.[0]?.total ?? 0,
+    error: error as Error | undefined,
+    /** 输入尚未生效或第一页加载中 */
+    isSearching: query.trim() !== debouncedQuery || isLoading,
+    isLoadingMore: isValidating && size > (data?.length ?? 0),
+    hasMore: !!lastPage?.nextCursor,
+    loadMore: () => setSize(size + 1),
+  };
+}
+
+export type UseConversationSearchReturn = ReturnType<typeof useConversationSearch>;
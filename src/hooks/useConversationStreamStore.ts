@@ -0,0 +1,157 @@
+/**
+ * 多会话流式状态管理
+ * 使用 Zustand 保存后台会话（已切换离开但仍在生成）的 reducer 状态，
+ * 以及各会话的活动状态（生成中 / 未读消息数），供会话列表和侧边栏显示
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import type { StreamState } from './useStream';
+
+// ============ 类型定义 ============
+
+/** 会话活动状态 */
+export interface ConversationActivity {
+  /** 是否正在后台生成 */
+  busy: boolean;
+  /** 在后台完成的回复（及等待确认的中断）数量 */
+  unread: number;
+  updatedAt: number;
+}
+
+/** 会话流状态 */
+export interface ConversationStreamState {
+  /** 后台会话的流状态（按 cid） */
+  streams: Record<string, StreamState>;
+  /** 会话活动状态（按 cid），只包含后台会话 */
+  activity: Record<string, ConversationActivity>;
+}
+
+/** 会话流操作 */
+export interface ConversationStreamActions {
+  /** 保存转入后台的会话流状态 */
+  setStream: (cid: string, state: StreamState) => void;
+  /** 更新后台会话的流状态（不在后台的会话忽略） */
+  updateStream: (cid: string, updater: (state: StreamState) => StreamState) => void;
+  /** 取出后台会话的流状态（切回前台时调用），同时清除其活动状态 */
+  takeStream: (cid: string) => StreamState | null;
+  /** 移除后台会话的流状态（生成结束或连接关闭），保留未读数 */
+  removeStream: (cid: string) => void;
+  /** 增加未读数 */
+  incrementUnread: (cid: string) => void;
+  /** 标记为已读 */
+  markRead: (cid: string) => void;
+}
+
+export type ConversationStreamStore = ConversationStreamState & ConversationStreamActions;
+
+// ============ Store ============
+
+export const useConversationStreamStore = create<ConversationStreamStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      streams: {},
+      activity: {},
+
+      setStream: (cid, state) => {
+        set((prev) => ({
+          streams: { ...prev.streams, [cid]: state },
+          activity: {
+            ...prev.activity,
+            [cid]: {
+              busy: state.isLoading,
+              unread: prev.activity[cid]?.unread ?? 0,
+              updatedAt: Date.now(),
+            },
+          },
+        }));
+      },
+
+      updateStream: (cid, updater) => {
+        const current = get().streams[cid];
+        if (!current) return;
+
+        const next = updater(current);
+        if (next === current) return;
+
+        set((prev) => ({
+          streams: { ...prev.streams, [cid]: next },
+          activity: {
+            ...prev.activity,
+            [cid]: {
+              busy: next.isLoading,
+              unread: prev.activity[cid]?.unread ?? 0,
+              updatedAt: Date.now(),
+            },
+          },
+        }));
+      },
+
+      takeStream: (cid) => {
+        const stream = get().streams[cid] ?? null;
+        set((prev) => {
+          const streams = { ...prev.streams };
+          const activity = { ...prev.activity };
+          delete streams[cid];
+          delete activity[cid];
+          return { streams, activity };
+        });
+        return stream;
+      },
+
+      removeStream: (cid) => {
+        set((prev) => {
+          const streams = { ...prev.streams };
+          const activity = { ...prev.activity };
+          delete streams[cid];
+
+          const unread = activity[cid]?.unread ?? 0;
+          if (unread > 0) {
+            activity[cid] = { busy: false, unread, updatedAt: Date.now() };
+          } else {
+            delete activity[cid];
+          }
+          return { streams, activity };
+        });
+      },
+
+      incrementUnread: (cid) => {
+        set((prev) => ({
+          activity: {
+            ...prev.activity,
+            [cid]: {
+              busy: prev.activity[cid]?.busy ?? false,
+              unread: (prev.activity[cid]?.unread ?? 0) + 1,
+              updatedAt: Date.now(),
+            },
+          },
+        }));
+      },
+
+      markRead: (cid) => {
+        const current = get().activity[cid];
+        if (!current || current.unread === 0) return;
+
+        set((prev) => {
+          const activity = { ...prev.activity };
+          if (current.busy) {
+            activity[cid] = { ...current, unread: 0 };
+          } else {
+            delete activity[cid];
+          }
+          return { activity };
+        });
+      },
+    })),
+    { name: 'conversation-stream-store' }
+  )
+);
+
+// ============ 选择器 ============
+
+/** 获取单个会话的活动状态 */
+export const useConversationActivity = (cid: string | null) => {
+  return useConversationStreamStore((state) => (cid ? state.activity[cid] : undefined));
+};
+
+export default useConversationStreamStore;
@@ -0,0 +1,271 @@
+"use client";
+
+/**
+ * @ 引用 Hook
+ *
+ * 光标前为 `@xxx` 时打开候选列表，候选来源：
+ * - 上下文条目 / 人物 / 实体（getItems / getPersons / getEntities）
+ * - 当前会话的文件（与 TasksFilesSidebar 相同的 files）
+ * - 当前项目内容库中的条目（getProjectItems）
+ * - 子代理（getSubAgents）
+ *
+ * 远程候选在第一次输入 `@` 时才加载，之后由 SWR 缓存。
+ * 选中后插入 `@名称`，引用保存在 Hook 中，发送时通过 takeMentions() 取出仍在文本中的引用
+ */
+
+import { useCallback, useEffect, useMemo, useState, type KeyboardEvent, type RefObject } from "react";
+import useSWR from "swr";
+import { apiClient } from "@/lib/api/client";
+import {
+  collectMentions,
+  filterMentions,
+  insertMention,
+  isSameMention,
+  parseMentionQuery,
+  type MentionMatch,
+} from "@/lib/mentions";
+import { useAuth } from "@/providers/AuthProvider";
+import { useChatContext } from "@/providers/ChatProvider";
+import { useProject } from "@/providers/ProjectProvider";
+import type { MessageMention } from "@/types";
+
+/** 每类上下文候选最多加载的条数 */
+const CONTEXT_LIMIT = 100;
+/** 内容库候选最多加载的条数 */
+const CONTENT_LIMIT = 100;
+
+const SWR_OPTIONS = {
+  revalidateOnFocus: false,
+  revalidateOnReconnect: false,
+  dedupingInterval: 60000,
+};
+
+// ============ 类型定义 ============
+
+interface UseMentionsOptions {
+  /** 输入框内容 */
+  input: string;
+  setInput: (value: string) => void;
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+}
+
+// ============ 候选加载 ============
+
+const formatSection = (section: string) => section.replace(/[_-]+/g, " ");
+
+/** 加载上下文条目、人物和实体，单个来源失败不影响其他来源 */
+async function loadContextMentions(): Promise<MessageMention[]> {
+  const [items, persons, entities] = await Promise.allSettled([
+    apiClient.getItems({ limit: CONTEXT_LIMIT }),
+    apiClient.getPersons({ limit: CONTEXT_LIMIT }),
+    apiClient.getEntities({ limit: CONTEXT_LIMIT }),
+  ]);
+  const mentions: MessageMention[] = [];
+
+  if (items.status === "fulfilled") {
+    for (const item of items.value.items) {
+      const label = item.title || item.url;
+      if (!label) continue;
+      mentions.push({ type: "item", id: item.id, label, description: formatSection(item.section) });
+    }
+  }
+  if (persons.status === "fulfilled") {
+    for (const person of persons.value.items) {
+      mentions.push({
+        type: "person",
+        id: person.id,
+        label: person.name,
+        description: person.role || person.title || formatSection(person.section),
+      });
+    }
+  }
+  if (entities.status === "fulfilled") {
+    for (const entity of entities.value.items) {
+      mentions.push({
+        type: "entity",
+        id: entity.id,
+        label: entity.name,
+        description: entity.entity_type || formatSection(entity.section),
+      });
+    }
+  }
+  return mentions;
+}
+
+// ============ Hook ============
+
+export function useMentions({ input, setInput, textareaRef }: UseMentionsOptions) {
+  const { isAuthenticated, token } = useAuth();
+  const { files } = useChatContext();
+  const { currentProject } = useProject();
+
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  // 第一次输入 @ 后才开始加载远程候选
+  const [activated, setActivated] = useState(false);
+  const [mentions, setMentions] = useState<MessageMention[]>([]);
+
+  const query = useMemo(() => parseMentionQuery(input, caret), [input, caret]);
+  const canLoad = activated && isAuthenticated && !!token;
+
+  useEffect(() => {
+    if (query) setActivated(true);
+  }, [query]);
+
+  // 查询变化时重新打开列表并回到第一项
+  useEffect(() => {
+    setDismissed(false);
+    setActiveIndex(0);
+  }, [query?.query, query?.start]);
+
+  // 输入框清空（发送、切换会话）时丢弃已选引用
+  useEffect(() => {
+    if (!input) setMentions([]);
+  }, [input]);
+
+  const { data: contextMentions, isLoading: isLoadingContext } = useSWR(
+    canLoad ? ["mentions", "context"] : null,
+    loadContextMentions,
+    SWR_OPTIONS
+  );
+
+  const { data: contentMentions, isLoading: isLoadingContent } = useSWR(
+    canLoad && currentProject ? ["mentions", "content", currentProject.id] : null,
+    async (): Promise<MessageMention[]> => {
+      const response = await apiClient.getProjectItems(currentProject!.id, { limit: CONTENT_LIMIT });
+      return response.items.map((item) => ({
+        type: "content",
+        id: item.id,
+        label: item.title,
+        description: item.target_keyword || item.status,
+      }));
+    },
+    SWR_OPTIONS
+  );
+
+  const { data: subagentMentions, isLoading: isLoadingSubagents } = useSWR(
+    canLoad ? ["mentions", "subagents"] : null,
+    async (): Promise<MessageMention[]> => {
+      const response = await apiClient.getSubAgents();
+      return response.subagents.map((subagent) => ({
+        type: "subagent",
+        id: subagent.name,
+        label: subagent.name,
+        description: subagent.description,
+      }));
+    },
+    SWR_OPTIONS
+  );
+
+  const candidates = useMemo((): MessageMention[] => {
+    const fileMentions = Object.keys(files).map((path): MessageMention => ({
+      type: "file",
+      id: path,
+      label: path.split("/").pop() || path,
+      description: path,
+    }));
+    return [
+      ...fileMentions,
+      ...(contextMentions ?? []),
+      ...(contentMentions ?? []),
+      ...(subagentMentions ?? []),
+    ];
+  }, [files, contextMentions, contentMentions, subagentMentions]);
+
+  const matches: MentionMatch[] = useMemo(
+    () => (query ? filterMentions(candidates, query.query) : []),
+    [candidates, query]
+  );
+
+  const isLoading = isLoadingContext || isLoadingContent || isLoadingSubagents;
+  const isOpen = query !== null && !dismissed && (matches.length > 0 || isLoading);
+
+  /** 输入框内容或光标变化时同步光标位置 */
+  const syncCaret = useCallback((element: HTMLTextAreaElement) => {
+    setCaret(element.selectionStart ?? element.value.length);
+  }, []);
+
+  // 选中候选：替换查询文本并记录引用
+  const select = useCallback(
+    (mention: MessageMention) => {
+      if (!query) return;
+      const next = insertMention(input, query, mention.label);
+      setInput(next.text);
+      setCaret(next.caret);
+      setMentions((prev) => (prev.some((existing) => isSameMention(existing, mention)) ? prev : [...prev, mention]));
+
+      // 等待输入框更新后再恢复焦点和光标
+      requestAnimationFrame(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(next.caret, next.caret);
+      });
+    },
+    [input, query, setInput, textareaRef]
+  );
+
+  const close = useCallback(() => setDismissed(true), []);
+
+  /** 取出要随消息发送的引用（只保留文本中仍然存在的），并清空已选引用 */
+  const takeMentions = useCallback(
+    (text: string): MessageMention[] => {
+      const result = collectMentions(text, mentions);
+      setMentions([]);
+      return result;
+    },
+    [mentions]
+  );
+
+  /**
+   * 输入框按键处理
+   * @returns 按键已被列表处理时返回 true，输入框不应再处理（如发送消息）
+   */
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+      if (!isOpen || matches.length === 0 || e.nativeEvent.isComposing) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          e.preventDefault();
+          setActiveIndex((index) => (index + 1) % matches.length);
+          return true;
+        case "ArrowUp":
+          e.preventDefault();
+          setActiveIndex((index) => (index - 1 + matches.length) % matches.length);
+          return true;
+        case "Enter":
+        case "Tab":
+          if (e.shiftKey) return false;
+          e.preventDefault();
+          if (matches[activeIndex]) select(matches[activeIndex].mention);
+          return true;
+        case "Escape":
+          e.preventDefault();
+          close();
+          return true;
+        default:
+          return false;
+      }
+    },
+    [isOpen, matches, activeIndex, select, close]
+  );
+
+  return {
+    isOpen,
+    isLoading,
+    query: query?.query ?? null,
+    matches,
+    activeIndex,
+    setActiveIndex,
+    mentions,
+    select,
+    close,
+    syncCaret,
+    takeMentions,
+    handleKeyDown,
+  };
+}
+
+export type UseMentionsReturn = ReturnType<typeof useMentions>;
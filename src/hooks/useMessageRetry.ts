@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useEffect } from "react";
 import { apiClient } from "@/lib/api/client";
-import type { TurnResponse, FailedTurnsResponse } from "@/types";
+import type { TurnResponse } from "@/types";
 
 interface UseMessageRetryOptions {
   cid: string | null;
@@ -44,12 +44,10 @@ export function useMessageRetry({
     setError(null);
 
     try {
-      const response = await apiClient.get<FailedTurnsResponse>(
-        `/sessions/turns/conversation/${cid}/failed?retryable_only=true`
-      );
+      const response = await apiClient.getFailedTurns(cid);
 
-      setFailedTurns(response.turns || []);
-      setRetryableCount(response.retryableCount || 0);
+      setFailedTurns(response.turns);
+      setRetryableCount(response.retryableCount);
     } catch (err) {
       const error = err instanceof Error ? err : new Error("Failed to fetch failed turns");
       setError(error);
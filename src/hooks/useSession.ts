@@ -12,6 +12,10 @@
  * - 绝对过期: Session 超过最大有效期（24 小时）
  * - 主动登出: 用户在其他设备登出
  * - 会话数量限制: 超过最大并发会话数（5 个）
+ *
+ * 与 access token 刷新的协调：
+ * - ApiClient 刷新 token 时服务端可能轮换 session token，通过 seenos:auth_token_refreshed 同步
+ * - refresh token 失效（seenos:auth_expired）时由 AuthProvider 登出，这里清除过期提示
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
@@ -50,6 +54,12 @@ class SessionService {
   constructor() {
     if (typeof window !== 'undefined') {
       this.sessionToken = localStorage.getItem('deep_agents_session_token');
+
+      // ApiClient 已保存新的 session token，这里只同步本地副本
+      window.addEventListener('seenos:auth_token_refreshed', (event) => {
+        const { sessionToken } = (event as CustomEvent<{ sessionToken: string | null }>).detail;
+        this.sessionToken = sessionToken;
+      });
     }
   }
 
@@ -185,6 +195,17 @@ export function useSession(): UseSessionReturn {
     return () => window.removeEventListener('session:expired', handleExpired);
   }, [isExpired]);
 
+  // 登录已失效（refresh token 无效），AuthProvider 会登出，不再提示 session 过期
+  useEffect(() => {
+    const handleAuthExpired = () => {
+      setIsExpired(false);
+      setExpiredMessage(null);
+    };
+
+    window.addEventListener('seenos:auth_expired', handleAuthExpired);
+    return () => window.removeEventListener('seenos:auth_expired', handleAuthExpired);
+  }, []);
+
   const refresh = useCallback(async (): Promise<boolean> => {
     if (isRefreshing) {
       return false;
@@ -0,0 +1,315 @@
+"use client";
+
+/**
+ * 斜杠命令面板 Hook
+ *
+ * 输入框内容为 `/xxx` 时打开面板，按模糊匹配列出内置操作、Playbooks 和技能：
+ * - ↑/↓ 选择，Enter/Tab 确认，Esc 关闭
+ * - 有参数的命令（Playbook / 技能）先进入参数填写，参数按 FormField 生成并从项目上下文自动填充
+ * - 选中后清空输入框；Playbook / 技能以消息形式发送
+ */
+
+import { useCallback, useEffect, useMemo, useState, type KeyboardEvent } from "react";
+import { toast } from "sonner";
+import { apiClient } from "@/lib/api/client";
+import {
+  filterSlashCommands,
+  parseSlashQuery,
+  type SlashCommand,
+  type SlashCommandMatch,
+} from "@/lib/slash-commands";
+import { buildPlaybookPrompt, buildSkillPrompt } from "@/data/playbooks";
+import {
+  getInitialSkillFormData,
+  getSkillAutoFillValues,
+  getSkillDisplayName,
+  getSkillFormConfig,
+  skillFormConfigs,
+} from "@/data/skillForms";
+import { usePlaybooks } from "./usePlaybooks";
+import { useChatContext } from "@/providers/ChatProvider";
+import { useContextMenu } from "@/providers/ContextProvider";
+import { useProject } from "@/providers/ProjectProvider";
+
+// ============ 类型定义 ============
+
+interface UseSlashCommandsOptions {
+  /** 输入框内容 */
+  input: string;
+  setInput: (value: string) => void;
+  /** 命令执行或取消后把焦点还给输入框 */
+  focusInput: () => void;
+}
+
+/** 正在填写参数的命令 */
+export interface PendingSlashCommand {
+  command: SlashCommand;
+  values: Record<string, string>;
+  /** 未填写的必填项标签 */
+  missing: string[];
+}
+
+// ============ Hook ============
+
+export function useSlashCommands({ input, setInput, focusInput }: UseSlashCommandsOptions) {
+  const { cid, isLoading, sendMessage, stopStream, startNewChat, retryMessage } = useChatContext();
+  const { setWizardOpen } = useContextMenu();
+  const { currentProject } = useProject();
+  const { playbooks } = usePlaybooks({ active_only: true });
+
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [pending, setPending] = useState<PendingSlashCommand | null>(null);
+
+  const query = parseSlashQuery(input);
+
+  // 内容变化时重新打开面板并回到第一项
+  useEffect(() => {
+    setDismissed(false);
+    setActiveIndex(0);
+  }, [input]);
+
+  // 重试最近一次可重试的失败回合
+  const retryLastTurn = useCallback(async () => {
+    if (!cid) return;
+    try {
+      const response = await apiClient.getFailedTurns(cid);
+      const latest = [...response.turns]
+        .filter((turn) => turn.canRetry)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+      if (!latest) {
+        toast.info("No failed turn to retry");
+        return;
+      }
+      await retryMessage(latest.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to retry message");
+    }
+  }, [cid, retryMessage]);
+
+  const commands = useMemo((): SlashCommand[] => {
+    const builtins: SlashCommand[] = [
+      {
+        id: "builtin:new",
+        kind: "builtin",
+        name: "new",
+        title: "New chat",
+        description: "Start a new conversation",
+        keywords: ["clear", "reset"],
+        run: () => startNewChat?.(),
+      },
+      {
+        id: "builtin:stop",
+        kind: "builtin",
+        name: "stop",
+        title: "Stop generating",
+        description: "Stop the current response",
+        keywords: ["cancel", "abort"],
+        disabled: !isLoading,
+        run: () => stopStream(),
+      },
+      {
+        id: "builtin:retry",
+        kind: "builtin",
+        name: "retry",
+        title: "Retry last turn",
+        description: "Retry the most recent failed turn",
+        keywords: ["regenerate"],
+        disabled: !cid || isLoading,
+        run: retryLastTurn,
+      },
+      {
+        id: "builtin:context",
+        kind: "builtin",
+        name: "context",
+        title: "Open context",
+        description: "Edit brand, site and market context",
+        keywords: ["brand", "wizard"],
+        run: () => setWizardOpen(true),
+      },
+      {
+        id: "builtin:library",
+        kind: "builtin",
+        name: "library",
+        title: "Open content library",
+        description: "Browse generated content",
+        keywords: ["content", "articles"],
+        run: () => window.dispatchEvent(new CustomEvent("seenos:open_content_library")),
+      },
+      {
+        id: "builtin:search",
+        kind: "builtin",
+        name: "search",
+        title: "Search conversations",
+        description: "Search messages, tool calls and files across all conversations",
+        keywords: ["find", "history"],
+        run: () => window.dispatchEvent(new CustomEvent("seenos:open_search")),
+      },
+      {
+        id: "builtin:export",
+        kind: "builtin",
+        name: "export",
+        title: "Export conversation",
+        description: "Download this conversation as Markdown, HTML, PDF or JSON",
+        keywords: ["download", "pdf"],
+        run: () => window.dispatchEvent(new CustomEvent("seenos:open_export")),
+      },
+      {
+        id: "builtin:share",
+        kind: "builtin",
+        name: "share",
+        title: "Share conversation",
+        description: "Create a read-only link to this conversation",
+        keywords: ["link", "public", "snapshot"],
+        run: () => window.dispatchEvent(new CustomEvent("seenos:open_share")),
+      },
+    ];
+
+    const playbookCommands = playbooks.map((playbook): SlashCommand => {
+      const config = getSkillFormConfig(playbook.agentName, playbook.id, playbook.title, playbook.tags);
+      return {
+        id: `playbook:${playbook.id}`,
+        kind: "playbook",
+        name: playbook.agentName,
+        title: playbook.title,
+        description: playbook.description,
+        keywords: [playbook.category, ...playbook.tags],
+        fields: config.fields,
+        disabled: isLoading,
+        run: (args) => sendMessage(buildPlaybookPrompt(playbook, args)),
+      };
+    });
+
+    // 已有对应 Playbook 的技能不重复列出
+    const playbookSkills = new Set(playbooks.map((playbook) => playbook.agentName.toLowerCase()));
+    const skillCommands = Object.entries(skillFormConfigs)
+      .filter(([key]) => !playbookSkills.has(key))
+      .map(([key, config]): SlashCommand => {
+        const title = getSkillDisplayName(key);
+        return {
+          id: `skill:${key}`,
+          kind: "skill",
+          name: key,
+          title,
+          description: `Run the ${title} skill`,
+          fields: config.fields,
+          disabled: isLoading,
+          run: (args) => sendMessage(buildSkillPrompt(title, key, args)),
+        };
+      });
+
+    return [...builtins, ...playbookCommands, ...skillCommands];
+  }, [cid, isLoading, playbooks, sendMessage, stopStream, startNewChat, retryLastTurn, setWizardOpen]);
+
+  const matches: SlashCommandMatch[] = useMemo(
+    () => (query === null ? [] : filterSlashCommands(commands, query)),
+    [commands, query]
+  );
+
+  const isOpen = (query !== null && !dismissed && matches.length > 0) || pending !== null;
+
+  const execute = useCallback(
+    (command: SlashCommand, args: Record<string, string> = {}) => {
+      setPending(null);
+      setInput("");
+      focusInput();
+      void command.run(args);
+    },
+    [setInput, focusInput]
+  );
+
+  // 选中命令：有参数时进入参数填写，否则直接执行
+  const select = useCallback(
+    (command: SlashCommand) => {
+      if (command.disabled) return;
+      if (command.fields && command.fields.length > 0) {
+        setPending({
+          command,
+          values: getInitialSkillFormData(command.fields, getSkillAutoFillValues(currentProject)),
+          missing: [],
+        });
+        return;
+      }
+      execute(command);
+    },
+    [execute, currentProject]
+  );
+
+  const setArgument = useCallback((key: string, value: string) => {
+    setPending((prev) => (prev ? { ...prev, values: { ...prev.values, [key]: value } } : prev));
+  }, []);
+
+  // 提交参数，必填项未填写时提示
+  const submitArguments = useCallback(() => {
+    if (!pending) return;
+    const missing = (pending.command.fields ?? [])
+      .filter((field) => field.required && !pending.values[field.key]?.trim())
+      .map((field) => field.label);
+    if (missing.length > 0) {
+      setPending({ ...pending, missing });
+      return;
+    }
+    execute(pending.command, pending.values);
+  }, [pending, execute]);
+
+  const cancelArguments = useCallback(() => {
+    setPending(null);
+    focusInput();
+  }, [focusInput]);
+
+  const close = useCallback(() => {
+    setDismissed(true);
+    setPending(null);
+  }, []);
+
+  /**
+   * 输入框按键处理
+   * @returns 按键已被面板处理时返回 true，输入框不应再处理（如发送消息）
+   */
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+      if (!isOpen || pending || e.nativeEvent.isComposing) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          e.preventDefault();
+          setActiveIndex((index) => (index + 1) % matches.length);
+          return true;
+        case "ArrowUp":
+          e.preventDefault();
+          setActiveIndex((index) => (index - 1 + matches.length) % matches.length);
+          return true;
+        case "Enter":
+        case "Tab":
+          if (e.shiftKey) return false;
+          e.preventDefault();
+          if (matches[activeIndex]) select(matches[activeIndex].command);
+          return true;
+        case "Escape":
+          e.preventDefault();
+          close();
+          return true;
+        default:
+          return false;
+      }
+    },
+    [isOpen, pending, matches, activeIndex, select, close]
+  );
+
+  return {
+    isOpen,
+    query,
+    matches,
+    activeIndex,
+    setActiveIndex,
+    pending,
+    select,
+    setArgument,
+    submitArguments,
+    cancelArguments,
+    close,
+    handleKeyDown,
+  };
+}
+
+export type UseSlashCommandsReturn = ReturnType<typeof useSlashCommands>;
@@ -1,11 +1,35 @@
 "use client";
 
-import { useEffect, useCallback, useRef, useMemo, useReducer } from "react";
-import { WebSocketStream, type InterruptDecision, type ConnectionState } from "@/lib/stream/websocket";
+import { useEffect, useCallback, useRef, useMemo, useReducer, useState } from "react";
+import {
+  WebSocketStream,
+  type InterruptDecision,
+  type ConnectionState,
+  type EditorClientMessageType,
+  type StreamConnection,
+} from "@/lib/stream/websocket";
+import { SSEStream } from "@/lib/stream/sse";
+import { LongPollingStream } from "@/lib/stream/polling";
+import {
+  TransportManager,
+  TRANSPORT_FALLBACK_ORDER,
+  getApiOrigin,
+  type TransportKind,
+} from "@/lib/stream/transport";
+import { messageOutbox, createClientMessageId, type OutboxEntry } from "@/lib/stream/outbox";
 import { apiClient } from "@/lib/api/client";
+import { useConversationStreamStore } from "./useConversationStreamStore";
+import { useStreamRecorderStore } from "./useStreamRecorderStore";
+import type { StreamRecording } from "@/lib/stream/recording";
+import { MAIN_BRANCH_ID, createBranchId, getRootMessageId, type BranchSnapshot } from "@/lib/stream/branches";
+import { createVariantId, getVariantGroupId, type MessageVariantGroup } from "@/lib/stream/variants";
+import { collectMentions } from "@/lib/mentions";
+import { normalizeMessageUsage, normalizeTokenUsage } from "@/lib/stream/usage";
 import type {
+  ConversationBranch,
   Message,
   MessageContent,
+  MessageMention,
   ToolCall,
   TodoItem,
   FileItem,
@@ -28,6 +52,8 @@ import type {
   ToolCallSummary,
   SubAgentStartEventData,
   SubAgentEndEventData,
+  DoneEventData,
+  TokenUsageSummary,
   ActionCardBlock,
   ActionCardResult,
   ContentItemOption,
@@ -57,9 +83,18 @@ function getWsUrl(): string {
   return `${wsUrl}/ws/chat`;
 }
 
+function getSseUrl(): string {
+  if (process.env.NEXT_PUBLIC_SSE_URL) {
+    return process.env.NEXT_PUBLIC_SSE_URL;
+  }
+
+  return `${apiClient.getBaseUrl()}/chat/stream`;
+}
+
 // ============ 类型定义 ============
 
-export type StreamTransport = "websocket" | "sse";
+/** 传输方式，auto 表示按 WebSocket → SSE → 长轮询自动协商 */
+export type StreamTransport = "auto" | TransportKind;
 
 interface UseStreamOptions {
   cid: string | null;
@@ -82,7 +117,7 @@ interface UseStreamOptions {
 
 // ============ State 类型 ============
 
-interface StreamState {
+export interface StreamState {
   messages: Message[];
   toolCalls: Map<string, ToolCall>;
   todos: TodoItem[];
@@ -97,6 +132,12 @@ interface StreamState {
   // 新增：重试相关 (WEBSOCKET_FRONTEND_GUIDE.md)
   retryingTurnId: string | null;
   retryAttempt: number;
+  // 会话分支：当前分支的状态即上面的 messages / todos / files / pagination，其他分支保存为快照
+  activeBranchId: string;
+  branches: ConversationBranch[];
+  branchSnapshots: Record<string, BranchSnapshot>;
+  // 回复版本：key 为版本组 ID（最初回复的消息 ID）
+  messageVariants: Record<string, MessageVariantGroup>;
 }
 
 const initialState: StreamState = {
@@ -112,27 +153,59 @@ const initialState: StreamState = {
   pagination: null,
   retryingTurnId: null,
   retryAttempt: 0,
+  activeBranchId: MAIN_BRANCH_ID,
+  branches: [],
+  branchSnapshots: {},
+  messageVariants: {},
 };
 
+/** 重放录制时单个事件的处理结果 */
+export interface StreamReplayStep {
+  event: StreamEvent;
+  /** 该事件派发的 action */
+  actions: StreamAction[];
+  /** 处理该事件后的状态 */
+  state: StreamState;
+}
+
+/** 录制的重放结果 */
+export interface StreamReplay {
+  /** 重放起点（录制基线） */
+  initialState: StreamState;
+  steps: StreamReplayStep[];
+}
+
 // ============ Actions ============
 
-type StreamAction =
+export type StreamAction =
   | { type: 'SET_CONNECTION_STATE'; state: ConnectionState }
   | { type: 'SET_SERVER_READY'; isReady: boolean }
   | { type: 'SET_ERROR'; error: Error | null }
   | { type: 'SET_LOADING'; isLoading: boolean }
   | { type: 'RESET' }
   | { type: 'RESET_CONVERSATION' }  // 只重置会话，保留连接
+  | { type: 'RESTORE_STATE'; state: StreamState }  // 恢复后台会话的完整状态
   | { type: 'SET_INITIAL_STATE'; messages: Message[]; todos: TodoItem[]; files: Record<string, string | FileItem>; pagination?: PaginationInfo | null }
-  | { type: 'PREPEND_MESSAGES'; messages: Message[]; pagination: PaginationInfo }
-  | { type: 'ADD_USER_MESSAGE'; messageId: string; content: string; cid: string; attachments?: Array<{ type: 'image' | 'file'; s3Key: string; mimeType: string; purpose?: string; previewUrl?: string; attachmentId?: string }> }
+  | { type: 'PREPEND_MESSAGES'; messages: Message[]; pagination: PaginationInfo; branchId?: string }
+  | { type: 'SET_BRANCHES'; branches: ConversationBranch[]; activeBranchId?: string; replace?: boolean }  // replace: 加载会话历史时整体替换
+  | { type: 'FORK_BRANCH'; branch: ConversationBranch; content: string; mentions?: MessageMention[] }
+  | { type: 'SWITCH_BRANCH'; branchId: string }
+  | { type: 'DISCARD_BRANCH'; branchId: string }
+  | { type: 'REGENERATE_START'; messageId: string; variantId: string; model?: string }
+  | { type: 'SET_VARIANTS'; groupId: string; variants: Message[]; canonicalId: string }
+  | { type: 'SHOW_VARIANT'; groupId: string; variantId: string }
+  | { type: 'SELECT_VARIANT'; groupId: string; variantId: string }
+  | { type: 'DISCARD_VARIANT'; groupId: string; variantId: string; previousId: string }
+  | { type: 'ADD_USER_MESSAGE'; messageId: string; content: string; cid: string; attachments?: Array<{ type: 'image' | 'file'; s3Key: string; mimeType: string; purpose?: string; previewUrl?: string; attachmentId?: string }>; mentions?: MessageMention[] }
+  | { type: 'REMOVE_MESSAGE'; messageId: string }
   | { type: 'MESSAGE_START'; messageId: string; cid: string; role: string; parentMessageId?: string; subagentName?: string }
   | { type: 'MESSAGE_DELTA'; messageId: string; delta: string }
   | { type: 'MESSAGE_END'; messageId: string; content?: string; message?: Message }
   | { type: 'TOOL_CALL_START'; toolCall: ToolCall; messageId?: string; toolDisplayName?: string }
   | { type: 'TOOL_CALL_END'; toolCallId: string; messageId?: string; result: unknown; status: ToolCall['status']; endedAt?: string; durationMs?: number; error?: string }
   | { type: 'SUBAGENT_START'; messageId?: string; subagentName: string; subagentDisplayName?: string; taskDescription: string }
-  | { type: 'SUBAGENT_END'; messageId?: string; subagentName: string; status: 'success' | 'error'; durationMs?: number }
+  | { type: 'SUBAGENT_END'; messageId?: string; subagentName: string; status: 'success' | 'error'; durationMs?: number; usage?: TokenUsageSummary }
+  | { type: 'MESSAGE_USAGE'; messageId?: string; usage: TokenUsageSummary }
   | { type: 'TODOS_UPDATE'; todos: TodoItem[] }
   | {
     type: 'FILE_OPERATION';
@@ -158,6 +231,49 @@ type StreamAction =
 
 // ============ 辅助函数 ============
 
+/** 当前分支的状态快照（切换或分叉前保存） */
+function takeBranchSnapshot(state: StreamState): BranchSnapshot {
+  return {
+    messages: state.messages,
+    todos: state.todos,
+    files: state.files,
+    pagination: state.pagination,
+  };
+}
+
+/**
+ * 规范化分页或按需加载的历史消息：补全 toolCalls 状态，为助手消息构建 contentBlocks，统一 usage 格式
+ */
+function normalizeHistoryMessage(msg: Message): Message {
+  const rawToolCalls = (msg as { tool_calls?: ToolCall[] }).tool_calls || msg.toolCalls;
+  const toolCalls = rawToolCalls?.map(tc => ({
+    ...tc,
+    status: tc.status || 'completed',
+    args: tc.args || {},
+  })) || [];
+
+  const role = msg.role || (msg as { type?: string }).type || 'assistant';
+  const contentStr = typeof msg.content === 'string' ? msg.content :
+    Array.isArray(msg.content) ? msg.content.map(c => c.text || '').join('') : '';
+
+  // 构建 contentBlocks（如果没有）
+  let contentBlocks = msg.contentBlocks;
+  if (!contentBlocks || contentBlocks.length === 0) {
+    // 只有 assistant/ai 消息需要 contentBlocks
+    if (role === 'assistant' || (role as string) === 'ai') {
+      contentBlocks = buildContentBlocksFromMessage(msg.id, contentStr, toolCalls);
+    }
+  }
+
+  return normalizeMessageUsage({
+    ...msg,
+    role,
+    content: contentStr,
+    toolCalls,
+    contentBlocks,
+  });
+}
+
 /**
  * 从 toolCalls 和 content 构建 contentBlocks
  * 用于将旧格式消息转换为新的 contentBlocks 格式
@@ -313,9 +429,17 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
         pagination: null,
         retryingTurnId: null,
         retryAttempt: 0,
+        activeBranchId: MAIN_BRANCH_ID,
+        branches: [],
+        branchSnapshots: {},
+        messageVariants: {},
         // 保留 connectionState 和 isServerReady
       };
 
+    case 'RESTORE_STATE':
+      // 后台会话切回前台，直接使用其在后台累积的状态
+      return action.state;
+
     case 'SET_INITIAL_STATE': {
       // 规范化消息格式，包括 tool_calls -> toolCalls 的转换
       const normalizedMessages = action.messages.map(msg => {
@@ -373,13 +497,13 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
           }
         }
 
-        return {
+        return normalizeMessageUsage({
           ...msg,
           role,
           content: contentStr,
           toolCalls,
           contentBlocks,
-        };
+        });
       });
 
       // 从最新消息提取 todos
@@ -529,36 +653,29 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
 
     // 新增：加载历史消息（分页）
     case 'PREPEND_MESSAGES': {
-      // 将旧消息添加到列表开头，并构建 contentBlocks
-      const normalizedOldMessages = action.messages.map(msg => {
-        const rawToolCalls = (msg as { tool_calls?: ToolCall[] }).tool_calls || msg.toolCalls;
-        const toolCalls = rawToolCalls?.map(tc => ({
-          ...tc,
-          status: tc.status || 'completed',
-          args: tc.args || {},
-        })) || [];
-
-        const role = msg.role || (msg as { type?: string }).type || 'assistant';
-        const contentStr = typeof msg.content === 'string' ? msg.content :
-          Array.isArray(msg.content) ? msg.content.map(c => c.text || '').join('') : '';
+      // 分页请求发出后切换了分支：旧消息属于请求时的分支，写入其快照（快照不存在时丢弃）
+      const targetBranchId = action.branchId ?? state.activeBranchId;
+      const targetSnapshot = targetBranchId === state.activeBranchId ? null : state.branchSnapshots[targetBranchId];
+      if (targetBranchId !== state.activeBranchId && !targetSnapshot) {
+        return state;
+      }
 
-        // 构建 contentBlocks（如果没有）
-        let contentBlocks = msg.contentBlocks;
-        if (!contentBlocks || contentBlocks.length === 0) {
-          // 只有 assistant/ai 消息需要 contentBlocks
-          if (role === 'assistant' || (role as string) === 'ai') {
-            contentBlocks = buildContentBlocksFromMessage(msg.id, contentStr, toolCalls);
-          }
-        }
+      // 将旧消息添加到列表开头，并构建 contentBlocks
+      const normalizedOldMessages = action.messages.map(normalizeHistoryMessage);
 
+      if (targetSnapshot) {
         return {
-          ...msg,
-          role,
-          content: contentStr,
-          toolCalls,
-          contentBlocks,
+          ...state,
+          branchSnapshots: {
+            ...state.branchSnapshots,
+            [targetBranchId]: {
+              ...targetSnapshot,
+              messages: [...normalizedOldMessages, ...targetSnapshot.messages],
+              pagination: action.pagination,
+            },
+          },
         };
-      });
+      }
 
       return {
         ...state,
@@ -567,7 +684,251 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
       };
     }
 
+    case 'SET_BRANCHES': {
+      if (action.replace) {
+        return {
+          ...state,
+          branches: action.branches,
+          activeBranchId: action.activeBranchId ?? MAIN_BRANCH_ID,
+          branchSnapshots: {},
+        };
+      }
+      // 服务端返回的分支列表为准，保留本地尚未被服务端确认的分支
+      const known = new Set(action.branches.map(b => b.id));
+      const pending = state.branches.filter(b => !known.has(b.id));
+      return {
+        ...state,
+        branches: [...action.branches, ...pending],
+        activeBranchId: action.activeBranchId ?? state.activeBranchId,
+      };
+    }
+
+    case 'FORK_BRANCH': {
+      const { branch } = action;
+      const index = state.messages.findIndex(m => m.id === branch.forkedFromMessageId);
+      if (index === -1 || !branch.messageId) {
+        return state;
+      }
+
+      // 编辑后的消息沿用原消息的附件
+      const original = state.messages[index];
+      const attachmentBlocks = original.contentBlocks?.filter(b => b.type === 'attachment_ref') ?? [];
+      const textBlock: TextBlock = {
+        id: `text-${branch.messageId}`,
+        type: 'text',
+        content: action.content,
+      };
+      const userMessage: Message = {
+        id: branch.messageId,
+        cid: original.cid,
+        role: 'user',
+        content: action.content,
+        contentBlocks: [textBlock, ...attachmentBlocks],
+        createdAt: new Date(),
+        metadata: action.mentions && action.mentions.length > 0 ? { mentions: action.mentions } : undefined,
+      };
+
+      // 当前分支保存为快照；新分支沿用文件，todos 由新的回复生成
+      return {
+        ...state,
+        branchSnapshots: {
+          ...state.branchSnapshots,
+          [state.activeBranchId]: takeBranchSnapshot(state),
+        },
+        branches: [...state.branches, branch],
+        activeBranchId: branch.id,
+        messages: [...state.messages.slice(0, index), userMessage],
+        toolCalls: new Map(),
+        todos: [],
+        interrupt: null,
+        error: null,
+      };
+    }
+
+    case 'SWITCH_BRANCH': {
+      if (action.branchId === state.activeBranchId) {
+        return state;
+      }
+      // 目标分支没有快照时先清空，由调用方随后用服务端返回的状态填充（SET_INITIAL_STATE）
+      const { [action.branchId]: target, ...snapshots } = state.branchSnapshots;
+      return {
+        ...state,
+        branchSnapshots: {
+          ...snapshots,
+          [state.activeBranchId]: takeBranchSnapshot(state),
+        },
+        activeBranchId: action.branchId,
+        messages: target?.messages ?? [],
+        todos: target?.todos ?? [],
+        files: target?.files ?? {},
+        pagination: target?.pagination ?? null,
+        toolCalls: new Map(),
+        interrupt: null,
+        error: null,
+      };
+    }
+
+    case 'DISCARD_BRANCH': {
+      // 分叉请求失败：移除分支，当前正在显示时回到来源分支
+      const branch = state.branches.find(b => b.id === action.branchId);
+      if (!branch) {
+        return state;
+      }
+      const { [action.branchId]: _discarded, ...snapshots } = state.branchSnapshots;
+      const next = { ...state, branches: state.branches.filter(b => b.id !== action.branchId), branchSnapshots: snapshots };
+      if (state.activeBranchId !== action.branchId) {
+        return next;
+      }
+      const parentId = branch.parentBranchId ?? MAIN_BRANCH_ID;
+      const parent = snapshots[parentId];
+      const { [parentId]: _restored, ...rest } = snapshots;
+      return {
+        ...next,
+        branchSnapshots: rest,
+        activeBranchId: parentId,
+        messages: parent?.messages ?? [],
+        todos: parent?.todos ?? [],
+        files: parent?.files ?? {},
+        pagination: parent?.pagination ?? null,
+        toolCalls: new Map(),
+        isLoading: false,
+      };
+    }
+
+    case 'REGENERATE_START': {
+      // 新版本在原位置替换当前显示的回复，随后的 message_start 使用同一 ID（已存在则不再追加）
+      const index = state.messages.findIndex(m => m.id === action.messageId);
+      if (index === -1) {
+        return state;
+      }
+      const current = state.messages[index];
+      const groupId = getVariantGroupId(current);
+      const group: MessageVariantGroup = state.messageVariants[groupId] ?? {
+        variantIds: [current.id],
+        canonicalId: current.metadata?.variants?.canonicalId ?? current.id,
+        stored: {},
+        loaded: !current.metadata?.variants,
+      };
+      const variantIds = [...group.variantIds, action.variantId];
+      const placeholder: Message = {
+        id: action.variantId,
+        cid: current.cid,
+        role: 'assistant',
+        content: '',
+        contentBlocks: [],
+        createdAt: new Date(),
+        metadata: {
+          model: action.model,
+          variants: { groupId, count: variantIds.length, index: variantIds.length - 1, canonicalId: group.canonicalId },
+        },
+      };
+      return {
+        ...state,
+        isLoading: true,
+        error: null,
+        messages: [...state.messages.slice(0, index), placeholder, ...state.messages.slice(index + 1)],
+        messageVariants: {
+          ...state.messageVariants,
+          [groupId]: { ...group, variantIds, stored: { ...group.stored, [current.id]: current } },
+        },
+      };
+    }
+
+    case 'SET_VARIANTS': {
+      // 服务端返回的版本列表为准，保留本地尚未被服务端确认的版本
+      const existing = state.messageVariants[action.groupId];
+      const displayed = state.messages.find(m => getVariantGroupId(m) === action.groupId);
+      const known = new Set(action.variants.map(v => v.id));
+      const pendingIds = existing?.variantIds.filter(id => !known.has(id)) ?? [];
+      const stored: Record<string, Message> = {};
+      for (const variant of action.variants) {
+        if (variant.id !== displayed?.id) {
+          stored[variant.id] = existing?.stored[variant.id] ?? normalizeHistoryMessage(variant);
+        }
+      }
+      for (const id of pendingIds) {
+        if (existing?.stored[id]) stored[id] = existing.stored[id];
+      }
+      return {
+        ...state,
+        messageVariants: {
+          ...state.messageVariants,
+          [action.groupId]: {
+            variantIds: [...action.variants.map(v => v.id), ...pendingIds],
+            canonicalId: action.canonicalId,
+            stored,
+            loaded: true,
+          },
+        },
+      };
+    }
+
+    case 'SHOW_VARIANT': {
+      const group = state.messageVariants[action.groupId];
+      const target = group?.stored[action.variantId];
+      const index = state.messages.findIndex(m => getVariantGroupId(m) === action.groupId);
+      if (!group || !target || index === -1) {
+        return state;
+      }
+      const current = state.messages[index];
+      const { [action.variantId]: _shown, ...stored } = group.stored;
+      return {
+        ...state,
+        messages: [...state.messages.slice(0, index), target, ...state.messages.slice(index + 1)],
+        messageVariants: {
+          ...state.messageVariants,
+          [action.groupId]: { ...group, stored: { ...stored, [current.id]: current } },
+        },
+      };
+    }
+
+    case 'SELECT_VARIANT': {
+      const group = state.messageVariants[action.groupId];
+      if (!group) {
+        return state;
+      }
+      return {
+        ...state,
+        messageVariants: {
+          ...state.messageVariants,
+          [action.groupId]: { ...group, canonicalId: action.variantId },
+        },
+      };
+    }
+
+    case 'DISCARD_VARIANT': {
+      // 重新生成请求失败：移除新版本，恢复之前显示的回复
+      const group = state.messageVariants[action.groupId];
+      if (!group) {
+        return state;
+      }
+      const variantIds = group.variantIds.filter(id => id !== action.variantId);
+      const index = state.messages.findIndex(m => m.id === action.variantId);
+      const previous = group.stored[action.previousId];
+      if (index === -1 || !previous) {
+        return {
+          ...state,
+          messageVariants: { ...state.messageVariants, [action.groupId]: { ...group, variantIds } },
+        };
+      }
+      const { [action.previousId]: _restored, ...stored } = group.stored;
+      return {
+        ...state,
+        isLoading: false,
+        messages: [...state.messages.slice(0, index), previous, ...state.messages.slice(index + 1)],
+        messageVariants: {
+          ...state.messageVariants,
+          [action.groupId]: { ...group, variantIds, stored },
+        },
+      };
+    }
+
     case 'ADD_USER_MESSAGE': {
+      // 同一 clientMessageId 只添加一次（发件箱补发时去重）
+      if (state.messages.some(m => m.id === action.messageId)) {
+        return state;
+      }
+
       // 构建 contentBlocks：文本 + 附件
       const contentBlocks: ContentBlock[] = [];
 
@@ -614,6 +975,7 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
         content: action.content,
         contentBlocks: contentBlocks.length > 0 ? contentBlocks : undefined,
         createdAt: new Date(),
+        metadata: action.mentions && action.mentions.length > 0 ? { mentions: action.mentions } : undefined,
       };
       return {
         ...state,
@@ -621,8 +983,18 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
       };
     }
 
+    case 'REMOVE_MESSAGE':
+      return {
+        ...state,
+        messages: state.messages.filter(m => m.id !== action.messageId),
+      };
+
     case 'MESSAGE_START': {
       console.log('[Reducer] MESSAGE_START:', action.messageId);
+      // 断线重放时可能再次收到同一消息的开始事件，已存在则保持不变
+      if (state.messages.some(m => m.id === action.messageId)) {
+        return { ...state, isLoading: true };
+      }
       const newMessage: Message = {
         id: action.messageId,
         cid: action.cid,
@@ -785,6 +1157,8 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
                 ...msg,
                 ...finalMessage,
                 content: finalContent,
+                // 合并 metadata：保留本地设置的字段（如重新生成时的版本信息）
+                metadata: finalMessage.metadata ? { ...msg.metadata, ...finalMessage.metadata } : msg.metadata,
                 // 使用合并后的 toolCalls
                 toolCalls: mergedToolCalls.length > 0 ? mergedToolCalls : undefined,
                 // 保留实时构建的 contentBlocks
@@ -1153,6 +1527,7 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
           status: action.status,
           endedAt: new Date().toISOString(),
           durationMs: action.durationMs,
+          usage: action.usage ?? block.usage,
         };
 
         return {
@@ -1168,6 +1543,21 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
       return { ...state, messages: updatedMessages };
     }
 
+    case 'MESSAGE_USAGE': {
+      // done 事件带来的本轮使用量：只补充 message_end 没有带 usage 的助手消息
+      const target = action.messageId
+        ? state.messages.find((msg) => msg.id === action.messageId)
+        : [...state.messages].reverse().find((msg) => msg.role === 'assistant' && !msg.parentMessageId && !msg.subagentName);
+      if (!target || target.metadata?.usage) return state;
+
+      return {
+        ...state,
+        messages: state.messages.map((msg) =>
+          msg.id === target.id ? { ...msg, metadata: { ...msg.metadata, usage: action.usage } } : msg
+        ),
+      };
+    }
+
     case 'TODOS_UPDATE':
       return { ...state, todos: action.todos };
 
@@ -1262,6 +1652,47 @@ function streamReducer(state: StreamState, action: StreamAction): StreamState {
   }
 }
 
+// ============ 后台会话 ============
+
+/** 同时在后台接收事件的会话数上限（超出时关闭最早转入后台的会话） */
+const MAX_BACKGROUND_STREAMS = 3;
+
+/**
+ * 事件处理目标
+ * 前台会话使用组件内的 reducer 状态；后台会话的状态保存在会话流状态 store 中
+ */
+interface StreamEventTarget {
+  cid: string;
+  dispatch: (action: StreamAction) => void;
+  messageIdRef: { current: string | null };
+  /** 调试面板重放录制：不录制、不发送全局事件 */
+  replay?: boolean;
+}
+
+/** 后台会话：切换离开时仍在生成的会话，保留其连接继续接收事件 */
+interface BackgroundStream {
+  connection: TransportManager;
+  target: StreamEventTarget;
+}
+
+/**
+ * 创建后台会话的事件处理目标
+ * 新的助手回复完成或出现待确认的中断时计为未读
+ */
+function createBackgroundTarget(cid: string, messageId: string | null): StreamEventTarget {
+  return {
+    cid,
+    messageIdRef: { current: messageId },
+    dispatch: (action) => {
+      const store = useConversationStreamStore.getState();
+      store.updateStream(cid, (state) => streamReducer(state, action));
+      if (action.type === 'MESSAGE_END' || (action.type === 'SET_INTERRUPT' && action.interrupt)) {
+        store.incrementUnread(cid);
+      }
+    },
+  };
+}
+
 // ============ Hook ============
 
 export function useStream(options: UseStreamOptions) {
@@ -1269,6 +1700,7 @@ export function useStream(options: UseStreamOptions) {
     cid,
     token,
     sessionToken = null,
+    transport = "auto",
     wsUrl,
     enabled = true,
     onConnect,
@@ -1284,21 +1716,39 @@ export function useStream(options: UseStreamOptions) {
   } = options;
 
   const [state, dispatch] = useReducer(streamReducer, initialState);
+  // 当前会话发件箱中尚未发送成功的用户消息
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  // 当前实际使用的传输方式（自动协商时可能回退）
+  const [activeTransport, setActiveTransport] = useState<TransportKind | null>(null);
 
   // Refs
-  const wsRef = useRef<WebSocketStream | null>(null);
+  const wsRef = useRef<TransportManager | null>(null);
   const currentMessageIdRef = useRef<string | null>(null);
   const cidRef = useRef<string | null>(cid);
   const callbacksRef = useRef({
     onConnect, onDisconnect, onError, onMessageComplete, onFileOperation, onDone,
     onToolProgress, onToolRetry, onModelRetry,
   });
+  // 后台会话连接池（按转入后台的先后顺序）
+  const backgroundStreamsRef = useRef(new Map<string, BackgroundStream>());
+  // 创建连接（由连接管理 effect 设置，切换会话时用于新建前台连接）
+  const createConnectionRef = useRef<((cid: string | null) => TransportManager) | null>(null);
+  // 最新的前台状态（在回调中读取，避免依赖变化）
+  const stateRef = useRef(state);
+  // 最新的认证凭证（token 刷新后更新，不重建连接）
+  const credentialsRef = useRef({ token, sessionToken });
+  // 最近一次切换分支的请求序号（只应用最后一次切换的结果）
+  const branchRequestRef = useRef(0);
 
   // 更新 refs
   useEffect(() => {
     cidRef.current = cid;
   }, [cid]);
 
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
   useEffect(() => {
     callbacksRef.current = {
       onConnect, onDisconnect, onError, onMessageComplete, onFileOperation, onDone,
@@ -1307,26 +1757,42 @@ export function useStream(options: UseStreamOptions) {
   }, [onConnect, onDisconnect, onError, onMessageComplete, onFileOperation, onDone, onToolProgress, onToolRetry, onModelRetry]);
 
   // 事件处理 (基于 WEBSOCKET_FRONTEND_GUIDE.md)
-  const handleEvent = useCallback((event: StreamEvent) => {
-    const currentCid = cidRef.current;
+  const handleEvent = useCallback((event: StreamEvent, target?: StreamEventTarget) => {
+    // 后台会话的事件写入会话流状态 store，不触发前台回调和进度通知
+    const currentCid = target ? target.cid : cidRef.current;
+    const dispatchEvent = target ? target.dispatch : dispatch;
+    const messageIdRef = target ? target.messageIdRef : currentMessageIdRef;
+    const callbacks: Partial<typeof callbacksRef.current> = target ? {} : callbacksRef.current;
+
+    // 录制原始事件（默认关闭，见 useStreamRecorderStore）
+    if (currentCid && !target?.replay) {
+      useStreamRecorderStore.getState().record(currentCid, event, () => {
+        const current = target
+          ? useConversationStreamStore.getState().streams[target.cid]
+          : stateRef.current;
+        return current ? { messages: current.messages, todos: current.todos, files: current.files } : null;
+      });
+    }
 
     switch (event.type) {
       // 连接确认
       case 'connected': {
-        dispatch({ type: 'SET_SERVER_READY', isReady: true });
+        dispatchEvent({ type: 'SET_SERVER_READY', isReady: true });
         break;
       }
 
       // 完整会话状态（连接后推送）- 兼容 state 和 state_update
       case 'state':
       case 'state_update': {
-        dispatch({ type: 'SET_SERVER_READY', isReady: true });
+        dispatchEvent({ type: 'SET_SERVER_READY', isReady: true });
 
         const data = event.data as {
           messages?: Message[];
           todos?: TodoItem[];
           files?: Record<string, unknown>;
           pagination?: PaginationInfo;  // 新增：分页信息 (WEBSOCKET_FRONTEND_GUIDE.md)
+          branches?: ConversationBranch[];
+          activeBranchId?: string;
         };
 
         if (data.messages) {
@@ -1380,7 +1846,7 @@ export function useStream(options: UseStreamOptions) {
             }
           }
 
-          dispatch({
+          dispatchEvent({
             type: 'SET_INITIAL_STATE',
             messages: data.messages,
             todos: data.todos || [],
@@ -1388,14 +1854,17 @@ export function useStream(options: UseStreamOptions) {
             pagination: data.pagination || null,
           });
         }
+        if (data.branches) {
+          dispatchEvent({ type: 'SET_BRANCHES', branches: data.branches, activeBranchId: data.activeBranchId });
+        }
         break;
       }
 
       // 新消息开始
       case 'message_start': {
         const data = event.data as MessageStartEventData;
-        currentMessageIdRef.current = data.messageId;
-        dispatch({
+        messageIdRef.current = data.messageId;
+        dispatchEvent({
           type: 'MESSAGE_START',
           messageId: data.messageId,
           cid: currentCid || '',
@@ -1412,7 +1881,7 @@ export function useStream(options: UseStreamOptions) {
         const data = event.data as { messageId: string; delta: string };
         // 调试日志：跟踪事件顺序
         console.log('[useStream] message_delta - delta length:', data.delta?.length || 0);
-        dispatch({ type: 'MESSAGE_DELTA', messageId: data.messageId, delta: data.delta || '' });
+        dispatchEvent({ type: 'MESSAGE_DELTA', messageId: data.messageId, delta: data.delta || '' });
         break;
       }
 
@@ -1467,16 +1936,23 @@ export function useStream(options: UseStreamOptions) {
             metadata: data.metadata as Message['metadata'],
           };
         }
+        // 统一 usage 字段格式（prompt / completion / cached）
+        if (finalMessage.metadata?.usage) {
+          finalMessage = {
+            ...finalMessage,
+            metadata: { ...finalMessage.metadata, usage: normalizeTokenUsage(finalMessage.metadata.usage) },
+          };
+        }
 
-        dispatch({
+        dispatchEvent({
           type: 'MESSAGE_END',
           messageId: data.messageId,
           content: data.content,
           message: finalMessage,
         });
-        currentMessageIdRef.current = null;
+        messageIdRef.current = null;
 
-        callbacksRef.current.onMessageComplete?.(finalMessage);
+        callbacks.onMessageComplete?.(finalMessage);
         break;
       }
 
@@ -1536,10 +2012,10 @@ export function useStream(options: UseStreamOptions) {
           targetSubagent: data.targetSubagent,
           sequence,
         };
-        dispatch({
+        dispatchEvent({
           type: 'TOOL_CALL_START',
           toolCall,
-          messageId: data.messageId || currentMessageIdRef.current || undefined,
+          messageId: data.messageId || messageIdRef.current || undefined,
           toolDisplayName,
         });
         break;
@@ -1550,10 +2026,10 @@ export function useStream(options: UseStreamOptions) {
       case 'tool_call_result': {
         const data = event.data as ToolCallResultEventData & { toolName?: string };
         const status: ToolCall['status'] = data.error ? 'error' : (data.status as ToolCall['status']) || 'completed';
-        dispatch({
+        dispatchEvent({
           type: 'TOOL_CALL_END',
           toolCallId: data.toolCallId,
-          messageId: data.messageId || currentMessageIdRef.current || undefined,
+          messageId: data.messageId || messageIdRef.current || undefined,
           result: data.result,
           status,
           endedAt: data.endedAt,
@@ -1566,10 +2042,10 @@ export function useStream(options: UseStreamOptions) {
       // Subagent start
       case 'subagent_start': {
         const data = event.data as SubAgentStartEventData & { messageId?: string };
-        const messageId = data.messageId || currentMessageIdRef.current || undefined;
+        const messageId = data.messageId || messageIdRef.current || undefined;
 
         // Use new SUBAGENT_START action to add SubagentBlock
-        dispatch({
+        dispatchEvent({
           type: 'SUBAGENT_START',
           messageId,
           subagentName: data.subagentName,
@@ -1581,14 +2057,15 @@ export function useStream(options: UseStreamOptions) {
       // Subagent end
       case 'subagent_end': {
         const data = event.data as SubAgentEndEventData & { messageId?: string };
-        const messageId = data.messageId || currentMessageIdRef.current || undefined;
+        const messageId = data.messageId || messageIdRef.current || undefined;
 
         // 使用新的 SUBAGENT_END action 更新 SubagentBlock
-        dispatch({
+        dispatchEvent({
           type: 'SUBAGENT_END',
           messageId,
           subagentName: data.subagentName,
           status: data.status,
+          usage: normalizeTokenUsage(data.usage),
         });
         break;
       }
@@ -1611,7 +2088,7 @@ export function useStream(options: UseStreamOptions) {
             : data.todos?.items || data.items;
 
         if (todos && Array.isArray(todos)) {
-          dispatch({ type: 'TODOS_UPDATE', todos });
+          dispatchEvent({ type: 'TODOS_UPDATE', todos });
         }
         break;
       }
@@ -1625,9 +2102,9 @@ export function useStream(options: UseStreamOptions) {
           fileSize?: number;
         };
         console.log('[useStream] file_operation event:', JSON.stringify(data, null, 2));
-        dispatch({
+        dispatchEvent({
           type: 'FILE_OPERATION',
-          messageId: data.messageId || currentMessageIdRef.current || undefined,
+          messageId: data.messageId || messageIdRef.current || undefined,
           operation: data.operation,
           path: data.path,
           content: data.content,
@@ -1642,14 +2119,14 @@ export function useStream(options: UseStreamOptions) {
           downloadUrl: data.downloadUrl,
           fileSize: data.fileSize,
         });
-        callbacksRef.current.onFileOperation?.(data);
+        callbacks.onFileOperation?.(data);
         break;
       }
 
       // 中断（人机交互）
       case 'interrupt': {
         const data = event.data as InterruptData;
-        dispatch({ type: 'SET_INTERRUPT', interrupt: data });
+        dispatchEvent({ type: 'SET_INTERRUPT', interrupt: data });
         break;
       }
 
@@ -1657,7 +2134,7 @@ export function useStream(options: UseStreamOptions) {
       case 'retry_started': {
         const data = event.data as RetryStartedEventData;
         console.log(`[useStream] Retrying turn ${data.turnId}, attempt ${data.attempt}/${data.maxRetries}`);
-        dispatch({
+        dispatchEvent({
           type: 'RETRY_STARTED',
           turnId: data.turnId,
           attempt: data.attempt,
@@ -1688,10 +2165,12 @@ export function useStream(options: UseStreamOptions) {
           console.log(`[useStream] Tool ${data.displayName || data.toolName} running for ${data.elapsed_ms}ms`);
         }
         // 通过回调通知上层组件
-        console.log('[useStream] Calling onToolProgress callback, has callback:', !!callbacksRef.current.onToolProgress);
-        callbacksRef.current.onToolProgress?.(data);
+        console.log('[useStream] Calling onToolProgress callback, has callback:', !!callbacks.onToolProgress);
+        callbacks.onToolProgress?.(data);
         // 发送全局事件（供 Toast 等全局组件使用）
-        window.dispatchEvent(new CustomEvent('seenos:tool_progress', { detail: data }));
+        if (!target) {
+          window.dispatchEvent(new CustomEvent('seenos:tool_progress', { detail: data }));
+        }
         break;
       }
 
@@ -1700,9 +2179,11 @@ export function useStream(options: UseStreamOptions) {
         const data = event.data as ToolRetryEventData;
         console.warn(`[useStream] Tool ${data.displayName || data.toolName} retrying (${data.attempt}/${data.maxRetries}): ${data.error}`);
         // 通过回调通知上层组件
-        callbacksRef.current.onToolRetry?.(data);
+        callbacks.onToolRetry?.(data);
         // 发送全局事件（供 Toast 组件显示通知）
-        window.dispatchEvent(new CustomEvent('seenos:tool_retry', { detail: data }));
+        if (!target) {
+          window.dispatchEvent(new CustomEvent('seenos:tool_retry', { detail: data }));
+        }
         break;
       }
 
@@ -1711,9 +2192,11 @@ export function useStream(options: UseStreamOptions) {
         const data = event.data as ModelRetryEventData;
         console.warn(`[useStream] Model retrying (${data.attempt}/${data.maxRetries}): ${data.error}`);
         // 通过回调通知上层组件
-        callbacksRef.current.onModelRetry?.(data);
+        callbacks.onModelRetry?.(data);
         // 发送全局事件（供全局 loading 指示器使用）
-        window.dispatchEvent(new CustomEvent('seenos:model_retry', { detail: data }));
+        if (!target) {
+          window.dispatchEvent(new CustomEvent('seenos:model_retry', { detail: data }));
+        }
         break;
       }
 
@@ -1724,7 +2207,9 @@ export function useStream(options: UseStreamOptions) {
         const data = event.data as ContentSavedEventData;
         console.log(`[useStream] Content saved: ${data.title} (${data.page_type}), version ${data.content_version}`);
         // 通知编辑器刷新内容 - 通过全局事件或状态管理
-        window.dispatchEvent(new CustomEvent('seenos:content_saved', { detail: data }));
+        if (!target?.replay) {
+          window.dispatchEvent(new CustomEvent('seenos:content_saved', { detail: data }));
+        }
         break;
       }
 
@@ -1733,7 +2218,9 @@ export function useStream(options: UseStreamOptions) {
         const data = event.data as ContentRenderedEventData;
         console.log(`[useStream] Content rendered: ${data.title}, preview URL: ${data.preview_url}`);
         // 通知预览面板刷新 - 通过全局事件
-        window.dispatchEvent(new CustomEvent('seenos:content_rendered', { detail: data }));
+        if (!target?.replay) {
+          window.dispatchEvent(new CustomEvent('seenos:content_rendered', { detail: data }));
+        }
         break;
       }
 
@@ -1742,7 +2229,19 @@ export function useStream(options: UseStreamOptions) {
         const data = event.data as ContentPublishedEventData;
         console.log(`[useStream] Content published: ${data.title} at ${data.published_at}`);
         // 通知 UI 更新发布状态 - 通过全局事件
-        window.dispatchEvent(new CustomEvent('seenos:content_published', { detail: data }));
+        if (!target?.replay) {
+          window.dispatchEvent(new CustomEvent('seenos:content_published', { detail: data }));
+        }
+        break;
+      }
+
+      // 其他编辑者的协同编辑事件 - 通过全局事件交给 Block Editor
+      case 'editor.content_update':
+      case 'editor.presence':
+      case 'editor.sync': {
+        if (!target) {
+          window.dispatchEvent(new CustomEvent('seenos:editor_event', { detail: event }));
+        }
         break;
       }
 
@@ -1750,10 +2249,12 @@ export function useStream(options: UseStreamOptions) {
       case 'session_replaced': {
         const data = event.data as { reason?: string; message?: string };
         console.warn('[useStream] Session replaced:', data.message || 'Another session started');
-        dispatch({ type: 'SET_CONNECTION_STATE', state: 'kicked' });
-        dispatch({ type: 'SET_SERVER_READY', isReady: false });
+        dispatchEvent({ type: 'SET_CONNECTION_STATE', state: 'kicked' });
+        dispatchEvent({ type: 'SET_SERVER_READY', isReady: false });
         // 通知 UI 显示被踢提示
-        window.dispatchEvent(new CustomEvent('seenos:session_replaced', { detail: data }));
+        if (!target?.replay) {
+          window.dispatchEvent(new CustomEvent('seenos:session_replaced', { detail: data }));
+        }
         break;
       }
 
@@ -1761,10 +2262,12 @@ export function useStream(options: UseStreamOptions) {
       case 'force_logout': {
         const data = event.data as { reason?: string; message?: string };
         console.warn('[useStream] Force logout:', data.message || 'You have been logged out');
-        dispatch({ type: 'SET_CONNECTION_STATE', state: 'failed' });
-        dispatch({ type: 'SET_SERVER_READY', isReady: false });
+        dispatchEvent({ type: 'SET_CONNECTION_STATE', state: 'failed' });
+        dispatchEvent({ type: 'SET_SERVER_READY', isReady: false });
         // 通知 UI 处理登出
-        window.dispatchEvent(new CustomEvent('seenos:force_logout', { detail: data }));
+        if (!target?.replay) {
+          window.dispatchEvent(new CustomEvent('seenos:force_logout', { detail: data }));
+        }
         break;
       }
 
@@ -1772,13 +2275,15 @@ export function useStream(options: UseStreamOptions) {
       case 'rate_limited': {
         const data = event.data as { message?: string; retry_after?: number };
         console.warn('[useStream] Rate limited:', data.message || 'Too many connection attempts');
-        dispatch({ type: 'SET_CONNECTION_STATE', state: 'failed' });
-        dispatch({ type: 'SET_SERVER_READY', isReady: false });
+        dispatchEvent({ type: 'SET_CONNECTION_STATE', state: 'failed' });
+        dispatchEvent({ type: 'SET_SERVER_READY', isReady: false });
         const error = new Error(data.message || 'Connection rate limited, please try again later');
-        dispatch({ type: 'SET_ERROR', error });
-        callbacksRef.current.onError?.(error);
+        dispatchEvent({ type: 'SET_ERROR', error });
+        callbacks.onError?.(error);
         // 通知 UI 显示限流提示
-        window.dispatchEvent(new CustomEvent('seenos:rate_limited', { detail: data }));
+        if (!target?.replay) {
+          window.dispatchEvent(new CustomEvent('seenos:rate_limited', { detail: data }));
+        }
         break;
       }
 
@@ -1791,24 +2296,28 @@ export function useStream(options: UseStreamOptions) {
         if (data.code === 'RETRY_LIMIT_EXCEEDED' ||
           data.code === 'RETRY_FAILED' ||
           data.code === 'MESSAGE_NOT_FOUND') {
-          dispatch({ type: 'RETRY_FAILED', error });
+          dispatchEvent({ type: 'RETRY_FAILED', error });
         } else {
-          dispatch({ type: 'SET_ERROR', error });
+          dispatchEvent({ type: 'SET_ERROR', error });
         }
-        callbacksRef.current.onError?.(error);
+        callbacks.onError?.(error);
         break;
       }
 
       // 请求完成
       case 'done': {
-        const data = event.data as { reason?: 'cancelled' | 'error' } | null;
-        dispatch({ type: 'SET_LOADING', isLoading: false });
+        const data = event.data as DoneEventData | null;
+        const usage = normalizeTokenUsage(data?.usage);
+        if (usage) {
+          dispatchEvent({ type: 'MESSAGE_USAGE', messageId: data?.messageId, usage });
+        }
+        dispatchEvent({ type: 'SET_LOADING', isLoading: false });
         // 如果正在重试，标记重试完成
-        dispatch({ type: 'RETRY_COMPLETED' });
+        dispatchEvent({ type: 'RETRY_COMPLETED' });
         if (data?.reason === 'error') {
           console.warn('[useStream] Request completed with errors');
         }
-        callbacksRef.current.onDone?.();
+        callbacks.onDone?.();
         break;
       }
     }
@@ -1820,60 +2329,178 @@ export function useStream(options: UseStreamOptions) {
     handleEventRef.current = handleEvent;
   }, [handleEvent]);
 
-  // WebSocket 连接管理 - 只在 enabled/token 变化时重建
+  // 重放录制的事件（流式调试面板）：与实时事件使用同一套处理逻辑，但只作用于独立的 reducer 状态
+  const replayRecording = useCallback((recording: StreamRecording): StreamReplay => {
+    const replayInitialState = recording.baseline
+      ? streamReducer(initialState, { type: 'SET_INITIAL_STATE', ...recording.baseline })
+      : initialState;
+
+    let replayState = replayInitialState;
+    let actions: StreamAction[] = [];
+    const target: StreamEventTarget = {
+      cid: recording.cid,
+      messageIdRef: { current: null },
+      replay: true,
+      dispatch: (action) => {
+        actions.push(action);
+        replayState = streamReducer(replayState, action);
+      },
+    };
+
+    const steps = recording.events.map(({ event }): StreamReplayStep => {
+      actions = [];
+      handleEvent(event, target);
+      return { event, actions, state: replayState };
+    });
+
+    return { initialState: replayInitialState, steps };
+  }, [handleEvent]);
+
+  // 关闭后台会话连接（生成结束、无法恢复连接或超出上限），流状态从 store 中移除
+  const releaseBackgroundStream = useCallback((backgroundCid: string) => {
+    const background = backgroundStreamsRef.current.get(backgroundCid);
+    if (!background) return;
+
+    console.log('[useStream] Releasing background stream:', backgroundCid);
+    backgroundStreamsRef.current.delete(backgroundCid);
+    background.connection.destroy();
+    useConversationStreamStore.getState().removeStream(backgroundCid);
+  }, []);
+
+  // 流式连接管理 - 只在 enabled/登录状态/transport 变化时重建
+  // token 刷新只更新凭证（见下方 effect），不重建连接
+  const hasToken = !!token;
   useEffect(() => {
-    if (!enabled || !token) {
+    if (!enabled || !hasToken) {
       return;
     }
 
-    const url = wsUrl || getWsUrl();
+    const backgroundStreams = backgroundStreamsRef.current;
+    // 本次创建的所有连接（前台及转入后台的），清理时统一销毁
+    const connections = new Set<TransportManager>();
 
-    // 创建 WebSocket 实例，使用 ref 来调用 handleEvent
-    const ws = new WebSocketStream({
-      url,
-      token,
-      sessionToken: sessionToken || undefined,
-      cid: cidRef.current || undefined, // 使用 ref 获取当前 cid
-      onEvent: (event) => handleEventRef.current(event),
-      onConnect: () => {
-        dispatch({ type: 'SET_CONNECTION_STATE', state: 'connected' });
-        callbacksRef.current.onConnect?.();
-      },
-      onDisconnect: () => {
-        dispatch({ type: 'SET_CONNECTION_STATE', state: 'disconnected' });
-        dispatch({ type: 'SET_SERVER_READY', isReady: false });
-        callbacksRef.current.onDisconnect?.();
-      },
-      onError: (error) => {
-        dispatch({ type: 'SET_ERROR', error });
-        callbacksRef.current.onError?.(error);
-      },
-      onConnectionStateChange: (connectionState) => {
-        dispatch({ type: 'SET_CONNECTION_STATE', state: connectionState });
-        // 如果断开连接或失败状态，重置服务端就绪状态
-        if (connectionState === 'disconnected' || connectionState === 'kicked' || connectionState === 'failed') {
+    const findBackgroundCid = (connection: TransportManager): string | null => {
+      for (const [backgroundCid, background] of backgroundStreams) {
+        if (background.connection === connection) return backgroundCid;
+      }
+      return null;
+    };
+
+    // 后台会话的事件写入 store，生成结束后关闭连接
+    const handleBackgroundEvent = (connection: TransportManager, event: StreamEvent) => {
+      const backgroundCid = findBackgroundCid(connection);
+      const background = backgroundCid ? backgroundStreams.get(backgroundCid) : undefined;
+      if (!backgroundCid || !background) return;
+
+      handleEventRef.current(event, background.target);
+      if (event.type === 'done') {
+        // 等当前事件处理完成后再关闭连接（期间可能已切回前台）
+        setTimeout(() => {
+          if (backgroundStreams.get(backgroundCid)?.connection === connection) {
+            releaseBackgroundStream(backgroundCid);
+          }
+        }, 0);
+      }
+    };
+
+    // 创建传输协商实例，使用 ref 来调用 handleEvent
+    // 连接可能转入后台，前台状态相关的回调只在其仍为前台连接时生效
+    const createConnection = (initialCid: string | null): TransportManager => {
+      const isForeground = () => wsRef.current === connection;
+
+      const connection = new TransportManager({
+        transports: transport === "auto" ? TRANSPORT_FALLBACK_ORDER : [transport],
+        origin: getApiOrigin(),
+        // SSE 和长轮询通过 ApiClient 请求头认证，不需要在 URL 中传递 token
+        createConnection: (kind, connectionOptions): StreamConnection => {
+          switch (kind) {
+            case "sse":
+              return new SSEStream({ ...connectionOptions, url: getSseUrl() });
+            case "polling":
+              return new LongPollingStream(connectionOptions);
+            default:
+              return new WebSocketStream({
+                ...connectionOptions,
+                url: wsUrl || getWsUrl(),
+                token: credentialsRef.current.token,
+                sessionToken: credentialsRef.current.sessionToken || undefined,
+                // 握手认证失败时刷新 token（与 HTTP 请求共享同一次刷新），失败由 AuthProvider 登出
+                onAuthFailed: async (failedToken) =>
+                  (await apiClient.recoverFromUnauthorized(failedToken, true)) ? apiClient.getToken() : null,
+              });
+          }
+        },
+        onTransportChange: (kind) => {
+          if (isForeground()) setActiveTransport(kind);
+        },
+        cid: initialCid || undefined,
+        outbox: messageOutbox,
+        onEvent: (event) => {
+          if (isForeground()) {
+            handleEventRef.current(event);
+          } else {
+            handleBackgroundEvent(connection, event);
+          }
+        },
+        onConnect: () => {
+          if (!isForeground()) return;
+          dispatch({ type: 'SET_CONNECTION_STATE', state: 'connected' });
+          callbacksRef.current.onConnect?.();
+        },
+        onDisconnect: () => {
+          if (!isForeground()) return;
+          dispatch({ type: 'SET_CONNECTION_STATE', state: 'disconnected' });
           dispatch({ type: 'SET_SERVER_READY', isReady: false });
-        }
-      },
-      onServerUnavailable: () => {
-        // 服务器不可用（可能正在重启），触发全局事件
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new CustomEvent('seenos:server_unavailable', {
-            detail: { message: '服务器正在重启中，请稍候...' }
-          }));
-        }
-      },
-      onMaxReconnectReached: (data) => {
-        // 达到最大重连次数，触发全局事件
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new CustomEvent('seenos:max_reconnect_reached', {
-            detail: data
-          }));
-        }
-      },
-    });
+          callbacksRef.current.onDisconnect?.();
+        },
+        onError: (error) => {
+          if (!isForeground()) {
+            console.warn('[useStream] Background stream error:', error);
+            return;
+          }
+          dispatch({ type: 'SET_ERROR', error });
+          callbacksRef.current.onError?.(error);
+        },
+        onConnectionStateChange: (connectionState) => {
+          if (!isForeground()) return;
+          dispatch({ type: 'SET_CONNECTION_STATE', state: connectionState });
+          // 如果断开连接或失败状态，重置服务端就绪状态
+          if (connectionState === 'disconnected' || connectionState === 'kicked' || connectionState === 'failed') {
+            dispatch({ type: 'SET_SERVER_READY', isReady: false });
+          }
+        },
+        onServerUnavailable: () => {
+          // 服务器不可用（可能正在重启），触发全局事件
+          if (isForeground() && typeof window !== 'undefined') {
+            window.dispatchEvent(new CustomEvent('seenos:server_unavailable', {
+              detail: { message: '服务器正在重启中，请稍候...' }
+            }));
+          }
+        },
+        onMaxReconnectReached: (data) => {
+          if (!isForeground()) {
+            // 后台会话无法恢复连接，切回时通过 REST 重新加载
+            const backgroundCid = findBackgroundCid(connection);
+            if (backgroundCid) releaseBackgroundStream(backgroundCid);
+            return;
+          }
+          // 达到最大重连次数，触发全局事件
+          if (typeof window !== 'undefined') {
+            window.dispatchEvent(new CustomEvent('seenos:max_reconnect_reached', {
+              detail: data
+            }));
+          }
+        },
+      });
 
+      connections.add(connection);
+      return connection;
+    };
+
+    createConnectionRef.current = createConnection;
+    const ws = createConnection(cidRef.current);
     wsRef.current = ws;
+    setActiveTransport(ws.transport);
 
     // 如果有 cid，立即连接
     const currentCid = cidRef.current;
@@ -1882,20 +2509,87 @@ export function useStream(options: UseStreamOptions) {
     }
 
     return () => {
-      // 使用 destroy 而不是 close，确保清理所有资源
-      ws.destroy();
+      // 使用 destroy 而不是 close，确保清理所有资源（包括后台会话的连接）
+      for (const connection of connections) {
+        connection.destroy();
+      }
+      const store = useConversationStreamStore.getState();
+      for (const backgroundCid of backgroundStreams.keys()) {
+        store.removeStream(backgroundCid);
+      }
+      backgroundStreams.clear();
+      createConnectionRef.current = null;
       wsRef.current = null;
+      setActiveTransport(null);
     };
-  }, [enabled, token, sessionToken, wsUrl]);
+  }, [enabled, hasToken, wsUrl, transport, releaseBackgroundStream]);
+
+  // token 刷新后更新所有连接的凭证（前台及后台），进行中的生成不受影响
+  useEffect(() => {
+    credentialsRef.current = { token, sessionToken };
+    if (!token) return;
+
+    wsRef.current?.updateCredentials(token, sessionToken);
+    for (const background of backgroundStreamsRef.current.values()) {
+      background.connection.updateCredentials(token, sessionToken);
+    }
+  }, [token, sessionToken]);
 
   // 同步 cid 到 ref（不触发 WebSocket 操作，由 connectToCid 手动控制）
   useEffect(() => {
     cidRef.current = cid || null;
   }, [cid]);
 
+  // 订阅当前会话的发件箱
+  useEffect(() => {
+    if (!cid) {
+      setOutbox([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = () => {
+      messageOutbox.list(cid)
+        .then((entries) => {
+          if (!cancelled) setOutbox(entries);
+        })
+        .catch((error) => console.error('[useStream] Failed to load outbox:', error));
+    };
+
+    load();
+    const unsubscribe = messageOutbox.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [cid]);
+
+  // 发件箱中的消息（例如页面刷新前未发送的消息）也显示在会话中
+  useEffect(() => {
+    for (const entry of outbox) {
+      if (state.messages.some(m => m.id === entry.clientMessageId)) continue;
+      dispatch({
+        type: 'ADD_USER_MESSAGE',
+        messageId: entry.clientMessageId,
+        content: entry.data.content,
+        cid: entry.cid,
+        attachments: entry.data.attachments?.map(att => ({
+          type: att.type,
+          s3Key: att.s3Key,
+          mimeType: att.mimeType,
+          purpose: att.purpose,
+          previewUrl: att.publicUrl,
+          attachmentId: att.attachmentId,
+        })),
+        mentions: entry.data.mentions,
+      });
+    }
+  }, [outbox, state.messages]);
+
   // 发送消息
   // overrideCid: 可选参数，用于确保使用正确的 cid（解决新会话创建时的时序问题）
   // attachments: 可选参数，用于发送附件 (IMAGE_UPLOAD_FRONTEND_GUIDE.md)
+  // mentions: 可选参数，输入框中 @ 引用的条目
   const sendMessage = useCallback(async (
     content: string,
     overrideCid?: string,
@@ -1906,7 +2600,8 @@ export function useStream(options: UseStreamOptions) {
       purpose?: 'reference_image' | 'context' | 'other';
       previewUrl?: string;  // 本地预览 URL，用于即时显示
       attachmentId?: string; // 新增：附件 ID
-    }>
+    }>,
+    mentions?: MessageMention[]
   ) => {
     if (!wsRef.current) {
       // 触发全局事件，让 UI 处理
@@ -1916,7 +2611,7 @@ export function useStream(options: UseStreamOptions) {
       return;
     }
 
-    // 检查是否被踢或失败状态（不应该发送消息）
+    // 检查是否被踢（不应该发送消息）
     const currentState = wsRef.current.state;
     if (currentState === 'kicked') {
       // 触发 session_replaced 事件（如果还没触发过）
@@ -1925,13 +2620,6 @@ export function useStream(options: UseStreamOptions) {
       }));
       return; // 不抛出错误，优雅返回
     }
-    if (currentState === 'failed') {
-      // 触发连接失败事件
-      window.dispatchEvent(new CustomEvent('seenos:connection_error', {
-        detail: { message: '连接失败，请刷新页面重试', canRetry: true }
-      }));
-      return; // 不抛出错误，优雅返回
-    }
 
     // 优先使用传入的 overrideCid，否则使用 cidRef.current
     const currentCid = overrideCid || cidRef.current;
@@ -1942,31 +2630,13 @@ export function useStream(options: UseStreamOptions) {
       cidRef.current = overrideCid;
     }
 
-    // 检查连接状态
-    if (currentState === 'disconnected') {
-      if (currentCid) {
-        console.log('[useStream] WebSocket disconnected, reconnecting...');
-        wsRef.current.connect(currentCid);
-
-        // 等待连接就绪
-        const maxWait = 5000;
-        const checkInterval = 50;
-        let waited = 0;
-        while (!wsRef.current.isReady && waited < maxWait) {
-          await new Promise(resolve => setTimeout(resolve, checkInterval));
-          waited += checkInterval;
-        }
-
-        if (!wsRef.current.isReady) {
-          throw new Error('WebSocket connection timeout');
-        }
-      } else {
-        throw new Error('No conversation ID available');
-      }
+    if ((currentState === 'disconnected' || currentState === 'failed') && !currentCid) {
+      throw new Error('No conversation ID available');
     }
 
     // 立即添加用户消息到本地状态（乐观更新）
-    const userMessageId = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    // 消息 ID 同时作为发件箱的 clientMessageId，用于去重
+    const userMessageId = createClientMessageId();
     console.log('[useStream] Adding user message with cid:', currentCid, 'attachments:', attachments?.length || 0);
     dispatch({
       type: 'ADD_USER_MESSAGE',
@@ -1981,23 +2651,69 @@ export function useStream(options: UseStreamOptions) {
         previewUrl: att.previewUrl,
         attachmentId: att.attachmentId,
       })),
+      mentions,
     });
+
+    // 提取 attachmentIds
+    const attachmentIds = attachments?.map(att => att.attachmentId!).filter(Boolean);
+
+    if (currentState === 'failed') {
+      // 连接已失败：只写入发件箱，用户手动重连后自动补发
+      if (currentCid) {
+        wsRef.current.bindCid(currentCid);
+      }
+      await wsRef.current.enqueueUserMessage(content, attachments, attachmentIds, userMessageId, mentions);
+      window.dispatchEvent(new CustomEvent('seenos:connection_error', {
+        detail: { message: '连接失败，消息将在重新连接后发送', canRetry: true }
+      }));
+      return;
+    }
+
+    if (currentState === 'disconnected' && currentCid) {
+      console.log('[useStream] WebSocket disconnected, reconnecting...');
+      wsRef.current.connect(currentCid);
+    }
+
     dispatch({ type: 'SET_LOADING', isLoading: true });
     dispatch({ type: 'SET_ERROR', error: null });
 
     try {
-      // sendUserMessage 会自动处理 isReady 状态
+      // sendUserMessage 会先写入发件箱，再发送
       // 如果 WebSocket 已连接但服务端未确认，消息会被加入队列
-      // 提取 attachmentIds
-      const attachmentIds = attachments?.map(att => att.attachmentId!).filter(Boolean);
-      await wsRef.current.sendUserMessage(content, attachments, attachmentIds);
+      await wsRef.current.sendUserMessage(content, attachments, attachmentIds, userMessageId, mentions);
     } catch (error) {
-      dispatch({ type: 'SET_ERROR', error: error instanceof Error ? error : new Error('Failed to send message') });
       dispatch({ type: 'SET_LOADING', isLoading: false });
+      // 消息仍在发件箱中，重连后自动补发，不视为错误
+      if (await messageOutbox.get(userMessageId)) {
+        console.warn('[useStream] Message kept in outbox for later delivery:', userMessageId);
+        return;
+      }
+      dispatch({ type: 'SET_ERROR', error: error instanceof Error ? error : new Error('Failed to send message') });
       throw error;
     }
   }, []);
 
+  // 立即发送发件箱中的消息（手动重发）
+  const sendOutboxMessageNow = useCallback(async (clientMessageId: string) => {
+    if (!wsRef.current) return;
+
+    dispatch({ type: 'SET_LOADING', isLoading: true });
+    try {
+      await wsRef.current.sendOutboxMessageNow(clientMessageId);
+    } catch (error) {
+      console.error('[useStream] Failed to send outbox message:', error);
+      dispatch({ type: 'SET_LOADING', isLoading: false });
+    }
+  }, []);
+
+  // 丢弃发件箱中的消息（同时从会话中移除）
+  const discardOutboxMessage = useCallback(async (clientMessageId: string) => {
+    await messageOutbox.remove(clientMessageId);
+    // 发件箱异步重新加载，先同步移除本地条目，避免上面的 effect 把消息重新加回会话
+    setOutbox(prev => prev.filter(entry => entry.clientMessageId !== clientMessageId));
+    dispatch({ type: 'REMOVE_MESSAGE', messageId: clientMessageId });
+  }, []);
+
   // 恢复中断
   const resumeInterrupt = useCallback(async (decision: InterruptDecision) => {
     if (!wsRef.current || !state.interrupt) {
@@ -2033,6 +2749,8 @@ export function useStream(options: UseStreamOptions) {
     console.log('[useStream] Resetting all state');
     dispatch({ type: 'RESET' });
     currentMessageIdRef.current = null;
+    // 本地状态已清空，重连时需要完整快照而非增量重放
+    wsRef.current?.clearSequence();
   }, []);
 
   // 只重置会话状态（保留连接）
@@ -2040,6 +2758,7 @@ export function useStream(options: UseStreamOptions) {
     console.log('[useStream] Resetting conversation state (keeping connection)');
     dispatch({ type: 'RESET_CONVERSATION' });
     currentMessageIdRef.current = null;
+    wsRef.current?.clearSequence();
   }, []);
 
   // 设置初始状态
@@ -2069,37 +2788,98 @@ export function useStream(options: UseStreamOptions) {
   // 连接到新的 cid（同步操作，不阻塞）
   // 注意：后端要求 cid 必须在连接 URL 中，不支持 bind_cid 消息
   // 因此切换 cid 时需要断开并重新连接
-  const connectToCid = useCallback((newCid: string): void => {
+  // 当前会话仍在生成时，其连接转入后台继续接收事件，前台改用新连接
+  // 返回 true 表示从后台恢复了目标会话的状态（无需重新加载历史）
+  const connectToCid = useCallback((newCid: string): boolean => {
     console.log('[useStream] Connecting to cid:', newCid);
     // 更新 ref
     cidRef.current = newCid;
+    useConversationStreamStore.getState().markRead(newCid);
 
-    if (wsRef.current) {
-      const currentWsCid = wsRef.current.cid;
-
-      if (wsRef.current.state === 'disconnected') {
-        // 未连接，直接连接到新 cid
-        console.log('[useStream] WebSocket disconnected, connecting to:', newCid);
-        wsRef.current.connect(newCid);
-      } else if (wsRef.current.state === 'connected') {
-        // 已连接，检查是否需要切换 cid
-        if (currentWsCid === newCid) {
-          // 已经连接到正确的 cid，标记为就绪
-          console.log('[useStream] Already connected to cid:', newCid);
-          dispatch({ type: 'SET_SERVER_READY', isReady: true });
-        } else {
-          // 需要切换 cid，断开并重新连接到新 cid
-          console.log('[useStream] Switching from cid:', currentWsCid, 'to:', newCid);
-          wsRef.current.reconnect(newCid);
+    const current = wsRef.current;
+    const createConnection = createConnectionRef.current;
+    if (!current || !createConnection) {
+      console.warn('[useStream] WebSocket not initialized');
+      return false;
+    }
+
+    const backgroundStreams = backgroundStreamsRef.current;
+    const background = backgroundStreams.get(newCid);
+    const currentWsCid = current.cid;
+    const keepCurrent = stateRef.current.isLoading && !!currentWsCid && currentWsCid !== newCid;
+
+    if (keepCurrent || background) {
+      if (keepCurrent && currentWsCid) {
+        // 当前会话转入后台
+        console.log('[useStream] Moving conversation to background:', currentWsCid);
+        backgroundStreams.delete(currentWsCid);
+        backgroundStreams.set(currentWsCid, {
+          connection: current,
+          target: createBackgroundTarget(currentWsCid, currentMessageIdRef.current),
+        });
+        useConversationStreamStore.getState().setStream(currentWsCid, stateRef.current);
+
+        // 超出上限时关闭最早转入后台的会话
+        while (backgroundStreams.size > MAX_BACKGROUND_STREAMS) {
+          const oldestCid = backgroundStreams.keys().next().value;
+          if (!oldestCid) break;
+          releaseBackgroundStream(oldestCid);
         }
       } else {
-        // 正在连接中（connecting 或 reconnecting），断开并重新连接到新 cid
-        wsRef.current.reconnect(newCid);
+        current.destroy();
+      }
+
+      if (background) {
+        // 目标会话仍在后台接收事件：接管其连接并恢复状态
+        console.log('[useStream] Restoring conversation from background:', newCid);
+        backgroundStreams.delete(newCid);
+        const restored = useConversationStreamStore.getState().takeStream(newCid);
+        const connection = background.connection;
+        wsRef.current = connection;
+        currentMessageIdRef.current = background.target.messageIdRef.current;
+        dispatch({
+          type: 'RESTORE_STATE',
+          state: {
+            ...(restored ?? initialState),
+            connectionState: connection.state,
+            isServerReady: connection.isReady,
+          },
+        });
+        setActiveTransport(connection.transport);
+        return true;
+      }
+
+      const connection = createConnection(newCid);
+      wsRef.current = connection;
+      currentMessageIdRef.current = null;
+      dispatch({ type: 'SET_CONNECTION_STATE', state: connection.state });
+      dispatch({ type: 'SET_SERVER_READY', isReady: false });
+      setActiveTransport(connection.transport);
+      connection.connect(newCid);
+      return false;
+    }
+
+    if (current.state === 'disconnected') {
+      // 未连接，直接连接到新 cid
+      console.log('[useStream] WebSocket disconnected, connecting to:', newCid);
+      current.connect(newCid);
+    } else if (current.state === 'connected') {
+      // 已连接，检查是否需要切换 cid
+      if (currentWsCid === newCid) {
+        // 已经连接到正确的 cid，标记为就绪
+        console.log('[useStream] Already connected to cid:', newCid);
+        dispatch({ type: 'SET_SERVER_READY', isReady: true });
+      } else {
+        // 需要切换 cid，断开并重新连接到新 cid
+        console.log('[useStream] Switching from cid:', currentWsCid, 'to:', newCid);
+        current.reconnect(newCid);
       }
     } else {
-      console.warn('[useStream] WebSocket not initialized');
+      // 正在连接中（connecting 或 reconnecting），断开并重新连接到新 cid
+      current.reconnect(newCid);
     }
-  }, []);
+    return false;
+  }, [releaseBackgroundStream]);
 
   // 获取 WebSocket 是否就绪（直接检查 WebSocket 实例状态）
   // 这个方法可以在异步代码中调用，获取最新状态
@@ -2108,23 +2888,28 @@ export function useStream(options: UseStreamOptions) {
   }, []);
 
   // 新增：加载历史消息（分页）(WEBSOCKET_FRONTEND_GUIDE.md)
+  // 有分支时按当前分支加载；响应返回前切换了分支时写入原分支的快照
+  const hasBranches = state.branches.length > 0;
   const loadMoreMessages = useCallback(async (): Promise<boolean> => {
     const currentCid = cidRef.current;
     if (!currentCid || !state.pagination?.hasMore || !state.pagination?.nextCursor) {
       return false;
     }
+    const branchId = state.activeBranchId;
+    const branchParam = hasBranches ? `&branch_id=${encodeURIComponent(branchId)}` : '';
 
     try {
       const response = await apiClient.get<{
         messages: Message[];
         pagination: PaginationInfo;
-      }>(`/conversations/${currentCid}/messages?cursor=${state.pagination.nextCursor}&limit=20&direction=older`);
+      }>(`/conversations/${currentCid}/messages?cursor=${state.pagination.nextCursor}&limit=20&direction=older${branchParam}`);
 
       if (response.messages && response.messages.length > 0) {
         dispatch({
           type: 'PREPEND_MESSAGES',
           messages: response.messages,
           pagination: response.pagination,
+          branchId,
         });
         return true;
       }
@@ -2133,7 +2918,197 @@ export function useStream(options: UseStreamOptions) {
       console.error('[useStream] Failed to load more messages:', error);
       return false;
     }
-  }, [state.pagination]);
+  }, [state.pagination, state.activeBranchId, hasBranches]);
+
+  // 设置会话分支（加载会话历史后调用，替换之前会话的分支和快照）
+  const setBranches = useCallback((branches: ConversationBranch[], activeBranchId?: string) => {
+    dispatch({ type: 'SET_BRANCHES', branches, activeBranchId, replace: true });
+  }, []);
+
+  // 编辑历史用户消息并从该处分叉：先在本地切换到新分支，服务端随后在新分支上生成回复
+  const editMessage = useCallback(async (messageId: string, content: string): Promise<void> => {
+    const currentCid = cidRef.current;
+    const current = stateRef.current;
+    if (!wsRef.current || !currentCid) {
+      throw new Error('No conversation ID available');
+    }
+    if (current.isLoading) {
+      throw new Error('Please wait for the current response to finish');
+    }
+    const original = current.messages.find(m => m.id === messageId);
+    if (!original) {
+      throw new Error('Message not found');
+    }
+
+    const branch: ConversationBranch = {
+      id: createBranchId(),
+      parentBranchId: current.activeBranchId,
+      forkedFromMessageId: messageId,
+      rootMessageId: getRootMessageId(messageId, current.branches),
+      messageId: createClientMessageId(),
+      createdAt: new Date().toISOString(),
+    };
+    // 沿用原消息的附件，以及编辑后仍然存在的 @ 引用
+    const mentions = collectMentions(content, original.metadata?.mentions ?? []);
+    const attachmentIds = original.contentBlocks
+      ?.filter((b): b is AttachmentRefBlock => b.type === 'attachment_ref')
+      .map(b => b.attachmentId)
+      .filter(Boolean);
+
+    const connectionState = wsRef.current.state;
+    if (connectionState === 'disconnected' || connectionState === 'failed') {
+      wsRef.current.connect(currentCid);
+    }
+
+    dispatch({ type: 'FORK_BRANCH', branch, content, mentions });
+    dispatch({ type: 'SET_LOADING', isLoading: true });
+    try {
+      await apiClient.editMessage(currentCid, messageId, {
+        branchId: branch.id,
+        clientMessageId: branch.messageId!,
+        content,
+        attachmentIds: attachmentIds && attachmentIds.length > 0 ? attachmentIds : undefined,
+        mentions: mentions.length > 0 ? mentions : undefined,
+      });
+    } catch (error) {
+      dispatch({ type: 'DISCARD_BRANCH', branchId: branch.id });
+      throw error;
+    }
+  }, []);
+
+  // 切换分支：本地有快照时立即切换，否则等服务端返回该分支的状态
+  // 服务端同时将其设为当前分支，之后的消息追加到该分支
+  const switchBranch = useCallback(async (branchId: string): Promise<void> => {
+    const currentCid = cidRef.current;
+    const current = stateRef.current;
+    if (!currentCid || branchId === current.activeBranchId) {
+      return;
+    }
+    if (current.isLoading) {
+      throw new Error('Please wait for the current response to finish');
+    }
+
+    const requestId = ++branchRequestRef.current;
+    const previousBranchId = current.activeBranchId;
+    const cached = branchId in current.branchSnapshots;
+    if (cached) {
+      dispatch({ type: 'SWITCH_BRANCH', branchId });
+    }
+
+    try {
+      const data = await apiClient.activateBranch(currentCid, branchId);
+      if (requestId !== branchRequestRef.current || cidRef.current !== currentCid) {
+        return;
+      }
+      if (cached) {
+        if (data.branches) {
+          dispatch({ type: 'SET_BRANCHES', branches: data.branches, activeBranchId: branchId });
+        }
+        return;
+      }
+      // 没有快照：按完整状态事件处理（规范化消息和文件格式）
+      dispatch({ type: 'SWITCH_BRANCH', branchId });
+      handleEvent({
+        type: 'state_update',
+        cid: currentCid,
+        data: {
+          messages: data.messages,
+          todos: data.todos,
+          files: data.files,
+          branches: data.branches,
+          activeBranchId: branchId,
+        },
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      if (cached && requestId === branchRequestRef.current) {
+        dispatch({ type: 'SWITCH_BRANCH', branchId: previousBranchId });
+      }
+      throw error;
+    }
+  }, [handleEvent]);
+
+  // 加载助手回复的全部版本（从历史加载的消息只有版本数），返回版本 ID 列表
+  const loadMessageVariants = useCallback(async (groupId: string): Promise<string[]> => {
+    const currentCid = cidRef.current;
+    if (!currentCid) {
+      throw new Error('No conversation ID available');
+    }
+    const response = await apiClient.getMessageVariants(currentCid, groupId);
+    const variantIds = response.variants.map(v => v.id);
+    if (cidRef.current !== currentCid) {
+      return variantIds;
+    }
+    dispatch({
+      type: 'SET_VARIANTS',
+      groupId,
+      variants: response.variants,
+      canonicalId: response.canonicalId,
+    });
+    const pendingIds = stateRef.current.messageVariants[groupId]?.variantIds.filter(id => !variantIds.includes(id)) ?? [];
+    return [...variantIds, ...pendingIds];
+  }, []);
+
+  // 重新生成助手回复（可指定其他模型）：新版本在原位置流式生成，原回复保留为另一个版本
+  const regenerateMessage = useCallback(async (messageId: string, model?: string): Promise<void> => {
+    const currentCid = cidRef.current;
+    if (!wsRef.current || !currentCid) {
+      throw new Error('No conversation ID available');
+    }
+    if (stateRef.current.isLoading) {
+      throw new Error('Please wait for the current response to finish');
+    }
+    const original = stateRef.current.messages.find(m => m.id === messageId);
+    if (!original || original.role !== 'assistant') {
+      throw new Error('Message not found');
+    }
+
+    // 先加载已有版本，保证新版本排在最后
+    const groupId = getVariantGroupId(original);
+    if (original.metadata?.variants && !stateRef.current.messageVariants[groupId]?.loaded) {
+      await loadMessageVariants(groupId);
+    }
+
+    const connectionState = wsRef.current.state;
+    if (connectionState === 'disconnected' || connectionState === 'failed') {
+      wsRef.current.connect(currentCid);
+    }
+
+    const variantId = createVariantId();
+    dispatch({ type: 'REGENERATE_START', messageId, variantId, model });
+    try {
+      await apiClient.regenerateMessage(currentCid, messageId, { variantId, model });
+    } catch (error) {
+      dispatch({ type: 'DISCARD_VARIANT', groupId, variantId, previousId: messageId });
+      throw error;
+    }
+  }, [loadMessageVariants]);
+
+  // 显示第 index 个版本（版本尚未加载时先加载）
+  const showVariant = useCallback(async (groupId: string, index: number): Promise<void> => {
+    const group = stateRef.current.messageVariants[groupId];
+    const variantIds = group?.loaded ? group.variantIds : await loadMessageVariants(groupId);
+    const variantId = variantIds[index];
+    if (variantId) {
+      dispatch({ type: 'SHOW_VARIANT', groupId, variantId });
+    }
+  }, [loadMessageVariants]);
+
+  // 选择后续对话基于的版本，失败时恢复
+  const selectVariant = useCallback(async (groupId: string, variantId: string): Promise<void> => {
+    const currentCid = cidRef.current;
+    const group = stateRef.current.messageVariants[groupId];
+    if (!currentCid || !group || group.canonicalId === variantId) {
+      return;
+    }
+    dispatch({ type: 'SELECT_VARIANT', groupId, variantId });
+    try {
+      await apiClient.selectMessageVariant(currentCid, groupId, variantId);
+    } catch (error) {
+      dispatch({ type: 'SELECT_VARIANT', groupId, variantId: group.canonicalId });
+      throw error;
+    }
+  }, []);
 
   // 新增：重试失败的消息 (WEBSOCKET_FRONTEND_GUIDE.md)
   const retryMessage = useCallback(async (turnId: string): Promise<void> => {
@@ -2152,6 +3127,14 @@ export function useStream(options: UseStreamOptions) {
     }
   }, []);
 
+  // 发送 Block Editor 事件（协同编辑、预览请求）
+  const sendEditorEvent = useCallback(async (type: EditorClientMessageType, data: unknown): Promise<void> => {
+    if (!wsRef.current) {
+      throw new Error('WebSocket not initialized');
+    }
+    await wsRef.current.sendEditorEvent(type, data);
+  }, []);
+
   // 返回值
   return useMemo(() => ({
     // 状态
@@ -2171,6 +3154,15 @@ export function useStream(options: UseStreamOptions) {
     // 新增：重试状态 (WEBSOCKET_FRONTEND_GUIDE.md)
     retryingTurnId: state.retryingTurnId,
     retryAttempt: state.retryAttempt,
+    // 会话分支
+    branches: state.branches,
+    activeBranchId: state.activeBranchId,
+    // 回复版本
+    messageVariants: state.messageVariants,
+    // 发件箱中尚未发送成功的用户消息
+    outbox,
+    // 当前实际使用的传输方式
+    activeTransport,
 
     // 方法
     sendMessage,
@@ -2183,11 +3175,29 @@ export function useStream(options: UseStreamOptions) {
     manualReconnect,
     connectToCid,
     checkIsReady,
+    // 关闭后台会话连接
+    releaseBackgroundStream,
+    // 重放录制的事件（流式调试面板）
+    replayRecording,
     // 新增方法 (WEBSOCKET_FRONTEND_GUIDE.md)
     loadMoreMessages,
     retryMessage,
+    sendOutboxMessageNow,
+    discardOutboxMessage,
+    sendEditorEvent,
+    // 会话分支
+    setBranches,
+    editMessage,
+    switchBranch,
+    // 回复版本
+    regenerateMessage,
+    loadMessageVariants,
+    showVariant,
+    selectVariant,
   }), [
     state,
+    outbox,
+    activeTransport,
     sendMessage,
     resumeInterrupt,
     stop,
@@ -2198,8 +3208,20 @@ export function useStream(options: UseStreamOptions) {
     manualReconnect,
     connectToCid,
     checkIsReady,
+    releaseBackgroundStream,
+    replayRecording,
     loadMoreMessages,
     retryMessage,
+    sendOutboxMessageNow,
+    discardOutboxMessage,
+    sendEditorEvent,
+    setBranches,
+    editMessage,
+    switchBranch,
+    regenerateMessage,
+    loadMessageVariants,
+    showVariant,
+    selectVariant,
   ]);
 }
 
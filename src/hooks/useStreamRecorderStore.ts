@@ -0,0 +1,99 @@
+/**
+ * 流式事件录制
+ * 开启后 useStream 在处理每个事件前调用 record()，按会话保存原始事件和接收时间（前台和后台会话都会录制），
+ * 供流式调试面板导出和逐步重放。默认关闭，开关保存在 localStorage（见 getStreamRecorderConfig）
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import { getStreamRecorderConfig, saveStreamRecorderConfig } from '@/lib/config';
+import {
+  createStreamRecording,
+  type StreamRecording,
+  type StreamRecordingBaseline,
+} from '@/lib/stream/recording';
+import type { StreamEvent } from '@/app/types/types';
+
+// ============ 类型定义 ============
+
+/** 录制状态 */
+export interface StreamRecorderState {
+  enabled: boolean;
+  /** 每个会话保留的事件数（开始录制时从配置读取） */
+  maxEvents: number;
+  /** 各会话的录制（按 cid） */
+  recordings: Record<string, StreamRecording>;
+}
+
+/** 录制操作 */
+export interface StreamRecorderActions {
+  /** 开启或关闭录制（关闭时保留已录制的事件） */
+  setEnabled: (enabled: boolean) => void;
+  /**
+   * 记录一个事件；未开启时忽略
+   * getBaseline 只在该会话开始新录制时调用，返回当时的会话状态
+   */
+  record: (cid: string, event: StreamEvent, getBaseline: () => StreamRecordingBaseline | null) => void;
+  /** 清除录制（不传 cid 时清除全部） */
+  clear: (cid?: string) => void;
+}
+
+export type StreamRecorderStore = StreamRecorderState & StreamRecorderActions;
+
+// ============ Store ============
+
+export const useStreamRecorderStore = create<StreamRecorderStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      ...getStreamRecorderConfig(),
+      recordings: {},
+
+      setEnabled: (enabled) => {
+        saveStreamRecorderConfig({ enabled });
+        set(enabled ? { ...getStreamRecorderConfig(), enabled } : { enabled });
+      },
+
+      record: (cid, event, getBaseline) => {
+        const { enabled, maxEvents, recordings } = get();
+        if (!enabled) return;
+
+        // 不修改已发布的录制：订阅者持有的快照保持不变
+        const current = recordings[cid] ?? createStreamRecording(cid, getBaseline());
+        const events = [...current.events, { receivedAt: Date.now(), event }];
+        // 超出上限时丢弃最早的事件，基线已不再对应剩余事件的起点
+        const overflow = events.length - maxEvents;
+
+        set((prev) => ({
+          recordings: {
+            ...prev.recordings,
+            [cid]: overflow > 0
+              ? { ...current, events: events.slice(overflow), baseline: null }
+              : { ...current, events },
+          },
+        }));
+      },
+
+      clear: (cid) => {
+        if (!cid) {
+          set({ recordings: {} });
+          return;
+        }
+        set((prev) => {
+          const recordings = { ...prev.recordings };
+          delete recordings[cid];
+          return { recordings };
+        });
+      },
+    })),
+    { name: 'stream-recorder-store' }
+  )
+);
+
+// ============ 选择器 ============
+
+/** 获取单个会话的录制 */
+export const useStreamRecording = (cid: string | null) => {
+  return useStreamRecorderStore((state) => (cid ? state.recordings[cid] : undefined));
+};
+
+export default useStreamRecorderStore;
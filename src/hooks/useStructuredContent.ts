@@ -15,7 +15,7 @@
  */
 
 import { useState, useCallback, useEffect, useRef, useMemo } from "react";
-import { apiClient } from "@/lib/api/client";
+import { apiClient, type ApiError } from "@/lib/api/client";
 import type {
   StructuredContentData,
   ContentPageType,
@@ -98,6 +98,15 @@ export class VersionConflictError extends Error {
   }
 }
 
+/** 是否为版本冲突（服务器返回 409，旧版本服务器只在错误信息中说明） */
+function isVersionConflict(error: Error): boolean {
+  return (
+    (error as ApiError).status === 409 ||
+    error.message.includes("conflict") ||
+    error.message.includes("version")
+  );
+}
+
 // ============ 防抖函数 ============
 
 function useDebouncedCallback<T extends (...args: unknown[]) => unknown>(
@@ -236,7 +245,7 @@ export function useStructuredContent({
         const err = e instanceof Error ? e : new Error("保存失败");
 
         // 检查是否是版本冲突
-        if (err.message.includes("conflict") || err.message.includes("version")) {
+        if (isVersionConflict(err)) {
           // 尝试获取远程版本
           try {
             const remote = await apiClient.getStructuredContent(itemId);
@@ -286,7 +295,7 @@ export function useStructuredContent({
         const err = e instanceof Error ? e : new Error("更新失败");
         
         // 检查是否是版本冲突
-        if (err.message.includes("conflict") || err.message.includes("version")) {
+        if (isVersionConflict(err)) {
           onVersionConflict?.(0, versionRef.current);
         }
         
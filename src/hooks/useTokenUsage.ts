@@ -0,0 +1,91 @@
+"use client";
+
+/**
+ * Token 使用量相关 Hooks
+ *
+ * - useShowTokenUsage：是否显示使用量（UserSettings.showTokenUsage，从 localStorage 读取）
+ * - useModelPricing：模型价格表（ModelOption.pricing），用于估算后端没有给出的成本
+ * - useProjectUsage：项目每日用量和月度预算
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import useSWR from "swr";
+import { apiClient, type ModelOption, type ModelPricing } from "@/lib/api/client";
+
+// AuthProvider 在登录和更新设置时会同步更新 localStorage
+const SETTINGS_KEY = "deep_agents_settings";
+
+/**
+ * 是否显示 token 使用量（默认开启，只有明确设置为 false 时才关闭）
+ * 设置在其他标签页（storage）或设置页面（settings-updated）更新时同步
+ */
+export function useShowTokenUsage(): boolean {
+  const [showTokenUsage, setShowTokenUsage] = useState(true);
+
+  useEffect(() => {
+    const loadSettings = () => {
+      try {
+        const settings = localStorage.getItem(SETTINGS_KEY);
+        if (settings) {
+          const parsed = JSON.parse(settings);
+          setShowTokenUsage(parsed.showTokenUsage !== false);
+        }
+      } catch {
+        // 忽略解析错误，保持默认开启
+      }
+    };
+
+    loadSettings();
+
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === SETTINGS_KEY) {
+        loadSettings();
+      }
+    };
+
+    window.addEventListener("storage", handleStorageChange);
+    window.addEventListener("settings-updated", loadSettings);
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      window.removeEventListener("settings-updated", loadSettings);
+    };
+  }, []);
+
+  return showTokenUsage;
+}
+
+const EMPTY_MODELS: ModelOption[] = [];
+
+/** 模型列表和价格表（按模型 ID） */
+export function useModelPricing(enabled = true): {
+  models: ModelOption[];
+  pricing: Record<string, ModelPricing>;
+} {
+  const { data } = useSWR(enabled ? ["models", "pricing"] : null, () => apiClient.getModels(), {
+    revalidateOnFocus: false,
+    revalidateOnReconnect: false,
+    dedupingInterval: 5 * 60 * 1000,
+  });
+  const models = data?.models ?? EMPTY_MODELS;
+
+  const pricing = useMemo(() => {
+    const result: Record<string, ModelPricing> = {};
+    for (const model of models) {
+      if (model.pricing) result[model.id] = model.pricing;
+    }
+    return result;
+  }, [models]);
+
+  return { models, pricing };
+}
+
+/** 项目最近 days 天的用量和月度预算 */
+export function useProjectUsage(projectId: string | null | undefined, days: number) {
+  const { data, error, isLoading, mutate } = useSWR(
+    projectId ? ["project-usage", projectId, days] : null,
+    () => apiClient.getProjectUsage(projectId!, days),
+    { revalidateOnFocus: false, dedupingInterval: 60000 }
+  );
+
+  return { usage: data, error, isLoading, mutate };
+}
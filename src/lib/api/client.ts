@@ -1,5 +1,25 @@
 
 
+import { schema, validateResponse, type Schema } from './schema';
+import * as schemas from './schemas';
+import type { FailedTurnsResponse, Message as AppMessage, MessageMention } from '@/app/types/types';
+import {
+  DEFAULT_REQUEST_POLICY,
+  backoffDelay,
+  canRetryMethod,
+  createAbortError,
+  createIdempotencyKey,
+  isAbortError,
+  isRetryableStatus,
+  isTimeoutError,
+  parseRetryAfter,
+  sleep,
+  withTimeout,
+  type RequestPolicy,
+} from './retry';
+
+export { isAbortError, isTimeoutError, type RequestPolicy } from './retry';
+
 // ============ 配置 ============
 const getApiBaseUrl = (): string => {
   if (process.env.NEXT_PUBLIC_API_URL) {
@@ -54,10 +74,22 @@ export interface UserSettings {
 export interface LoginResponse {
   token: string;
   sessionToken?: string;
+  refreshToken?: string;
   user: User;
   settings: UserSettings;
 }
 
+/** 刷新 token 响应 */
+export interface RefreshTokenResponse {
+  token: string;
+  /** 服务端轮换 refresh token 时返回新值 */
+  refreshToken?: string;
+  sessionToken?: string;
+}
+
+/** 刷新 token 结果：refreshed 成功；rejected refresh token 无效（需重新登录）；unavailable 网络或服务端错误（可稍后重试） */
+export type TokenRefreshResult = 'refreshed' | 'rejected' | 'unavailable';
+
 /** 注册请求 */
 export interface RegisterRequest {
   email: string;
@@ -99,6 +131,116 @@ export interface ConversationListResponse {
   hasMore: boolean;
 }
 
+/** 搜索命中的位置：消息正文、工具调用参数、工具调用结果、生成的文件名 */
+export type SearchMatchSource = 'message' | 'tool_args' | 'tool_result' | 'file';
+
+/** 搜索命中 */
+export interface ConversationSearchHit {
+  cid: string;
+  conversationTitle: string;
+  conversationStatus: Conversation['status'];
+  /** 命中所在的消息（文件名命中时为生成该文件的消息，可能为空） */
+  messageId: string | null;
+  role: 'user' | 'assistant' | 'system' | 'tool' | null;
+  source: SearchMatchSource;
+  toolName: string | null;
+  filePath: string | null;
+  /** 命中附近的文本片段 */
+  snippet: string;
+  /** 片段中命中的区间 [start, end) */
+  highlights: Array<{ start: number; end: number }>;
+  createdAt: string;
+}
+
+/** 搜索响应 */
+export interface ConversationSearchResponse {
+  hits: ConversationSearchHit[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/** 会话标签 */
+export interface ConversationTag {
+  id: string;
+  name: string;
+  /** 颜色名（见 lib/organization 的 TAG_COLORS） */
+  color: string;
+}
+
+/** 会话文件夹（属于某个项目，projectId 为空表示不属于任何项目） */
+export interface ConversationFolder {
+  id: string;
+  name: string;
+  projectId: string | null;
+}
+
+/** 单个会话的整理信息 */
+export interface ConversationOrganization {
+  pinned: boolean;
+  archived: boolean;
+  tagIds: string[];
+  folderId: string | null;
+}
+
+/** 全部整理信息（标签、文件夹和各会话的设置，按 cid） */
+export interface ConversationOrganizationResponse {
+  tags: ConversationTag[];
+  folders: ConversationFolder[];
+  conversations: Record<string, ConversationOrganization>;
+}
+
+/** 批量更新会话整理信息（只更新传入的字段） */
+export interface ConversationOrganizationUpdate {
+  pinned?: boolean;
+  archived?: boolean;
+  folderId?: string | null;
+  addTagIds?: string[];
+  removeTagIds?: string[];
+}
+
+/** 会话分享链接（只读快照） */
+export interface ConversationShare {
+  id: string;
+  cid: string;
+  /** 公开访问令牌，链接为 /share/{token} */
+  token: string;
+  createdAt: string;
+  /** 过期时间，null 表示永不过期 */
+  expiresAt: string | null;
+  /** 撤销时间，撤销后链接立即失效 */
+  revokedAt: string | null;
+  /** 快照中的工具调用参数是否已隐藏 */
+  redactToolArgs: boolean;
+}
+
+/**
+ * 分享快照内容
+ * 消息是创建分享时前端整理好的界面消息（带 contentBlocks），服务端原样保存和返回
+ */
+export interface SharedConversationSnapshot {
+  title: string;
+  messages: unknown[];
+  todos: unknown[];
+}
+
+/** 创建分享链接 */
+export interface CreateConversationShareRequest {
+  snapshot: SharedConversationSnapshot;
+  /** 过期时间，null 表示永不过期 */
+  expiresAt: string | null;
+  redactToolArgs: boolean;
+}
+
+/** 公开访问分享链接的响应 */
+export interface SharedConversationResponse {
+  title: string;
+  messages: unknown[];
+  todos: unknown[];
+  createdAt: string;
+  expiresAt: string | null;
+  redactToolArgs: boolean;
+}
+
 /** 消息 */
 export interface Message {
   id: string;
@@ -145,11 +287,49 @@ export interface FeedbackResponse {
   createdAt: string;
 }
 
+/** 会话分支 */
+export interface ConversationBranch {
+  id: string;
+  parentBranchId: string | null;
+  forkedFromMessageId: string | null;
+  rootMessageId: string | null;
+  messageId: string | null;
+  createdAt: string;
+}
+
+/** 编辑消息的响应：编辑后新建的分支 */
+export interface EditMessageResponse {
+  branch: ConversationBranch;
+}
+
+/** 助手消息的全部版本（完整的前端消息结构） */
+export interface MessageVariantsResponse {
+  variants: AppMessage[];
+  canonicalId: string;
+}
+
+/** 选择版本的结果 */
+export interface MessageVariantSelection {
+  canonicalId: string;
+}
+
+/** 会话文件对象（二进制文件没有文本内容，只有下载地址） */
+export interface ConversationFile {
+  path?: string;
+  content?: string;
+  isBinary?: boolean;
+  downloadUrl?: string;
+  [key: string]: unknown;
+}
+
 /** 对话详情响应 */
 export interface ConversationDetailResponse extends Conversation {
   messages: Message[];
   todos: Todo[];
-  files: Record<string, string>;
+  /** 文件路径 -> 文本内容或文件对象 */
+  files: Record<string, string | ConversationFile>;
+  branches?: ConversationBranch[];
+  activeBranchId?: string;
 }
 
 /** 模型选项 */
@@ -161,6 +341,16 @@ export interface ModelOption {
   context_window: number | null;
   supports_vision: boolean;
   supports_tools: boolean;
+  /** 价格（未提供时无法估算成本） */
+  pricing?: ModelPricing;
+}
+
+/** 模型价格（USD / 百万 token） */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** 命中缓存的输入价格，未提供时按 input 计算 */
+  cachedInput: number | null;
 }
 
 /** 提供商模型分组 */
@@ -240,15 +430,57 @@ export interface OrchestratorConfigUpdate {
 }
 
 // ============ 请求选项 ============
-interface RequestOptions extends RequestInit {
+
+/** 单次调用选项（未提供的字段使用全局请求策略） */
+export interface CallOptions<T = unknown> {
+  /** 响应 schema，提供时校验并规范化响应数据 */
+  schema?: Schema<T>;
+  /** 取消信号（组件卸载时取消请求） */
+  signal?: AbortSignal;
+  /** 单次尝试的超时时间（毫秒），0 表示不限制 */
+  timeoutMs?: number;
+  /** 最大重试次数 */
+  retries?: number;
+  /** 是否与相同的并发 GET 请求合并 */
+  dedupe?: boolean;
+  /** 幂等键，作为 Idempotency-Key 请求头发送；POST / PATCH 提供后才会重试 */
+  idempotencyKey?: string;
+}
+
+interface RequestOptions<T = unknown> extends Omit<RequestInit, 'signal'>, CallOptions<T> {
   params?: Record<string, string>;
+  /** 401 时不再刷新 token（刷新后的重放请求） */
+  skipAuthRefresh?: boolean;
+}
+
+/** 合并中的 GET 请求 */
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** 仍在等待结果的调用方数量，全部取消时中止底层请求 */
+  waiters: number;
 }
 
+/** 单次尝试的结果 */
+type AttemptResult =
+  | { ok: true; data: unknown }
+  | { ok: false; response: Response; error: ApiError };
+
 // ============ API 客户端 ============
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
   private sessionToken: string | null = null;
+  private refreshToken: string | null = null;
+
+  // 进行中的 token 刷新（并发的 401 请求共享同一次刷新）
+  private refreshPromise: Promise<TokenRefreshResult> | null = null;
+
+  // 全局请求策略
+  private policy: RequestPolicy = { ...DEFAULT_REQUEST_POLICY };
+
+  // 合并中的 GET 请求（按 token + URL）
+  private inflightGets = new Map<string, InflightRequest>();
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
@@ -264,6 +496,16 @@ class ApiClient {
     this.baseUrl = url;
   }
 
+  /** 获取全局请求策略 */
+  getRequestPolicy(): RequestPolicy {
+    return { ...this.policy };
+  }
+
+  /** 更新全局请求策略（单次调用的选项优先） */
+  setRequestPolicy(policy: Partial<RequestPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
   /** 设置认证 token */
   setToken(token: string | null): void {
     this.token = token;
@@ -285,6 +527,16 @@ class ApiClient {
     }
   }
 
+  /** 设置 refresh token */
+  setRefreshToken(refreshToken: string | null): void {
+    this.refreshToken = refreshToken;
+    if (refreshToken) {
+      localStorage.setItem('deep_agents_refresh_token', refreshToken);
+    } else {
+      localStorage.removeItem('deep_agents_refresh_token');
+    }
+  }
+
   /** 获取当前 token */
   getToken(): string | null {
     return this.token;
@@ -300,6 +552,7 @@ class ApiClient {
     if (typeof window !== 'undefined') {
       // Use the same key as AuthProvider
       this.token = localStorage.getItem('deep_agents_token');
+      this.refreshToken = localStorage.getItem('deep_agents_refresh_token');
     }
   }
 
@@ -307,10 +560,12 @@ class ApiClient {
   clearToken(): void {
     this.token = null;
     this.sessionToken = null;
+    this.refreshToken = null;
     if (typeof window !== 'undefined') {
       // Use the same key as AuthProvider
       localStorage.removeItem('deep_agents_token');
       localStorage.removeItem('deep_agents_session_token');
+      localStorage.removeItem('deep_agents_refresh_token');
       // Also clear user and settings to force AuthProvider to re-initialize
       localStorage.removeItem('deep_agents_user');
       localStorage.removeItem('deep_agents_settings');
@@ -331,9 +586,101 @@ class ApiClient {
     return headers;
   }
 
-  /** 发送请求 */
-  async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
-    const { params, ...fetchOptions } = options;
+  // ============ Token 刷新 ============
+
+  /**
+   * 使用 refresh token 换取新的 access token
+   * 并发调用共享同一次刷新请求；成功后派发 seenos:auth_token_refreshed 事件
+   */
+  refreshAccessToken(): Promise<TokenRefreshResult> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefreshAccessToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async doRefreshAccessToken(): Promise<TokenRefreshResult> {
+    if (!this.refreshToken) {
+      return 'rejected';
+    }
+
+    let response: Response;
+    try {
+      // 不经过 request()，避免刷新请求本身触发 401 处理
+      response = await fetch(`${this.baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ refreshToken: this.refreshToken }),
+      });
+    } catch (error) {
+      console.warn('[ApiClient] Token refresh failed (network):', error);
+      return 'unavailable';
+    }
+
+    if (!response.ok) {
+      console.warn(`[ApiClient] Token refresh failed: HTTP ${response.status}`);
+      return response.status >= 500 || response.status === 429 ? 'unavailable' : 'rejected';
+    }
+
+    const data = validateResponse('/auth/refresh', schemas.refreshTokenResponseSchema, await response.json());
+    this.setToken(data.token);
+    if (data.refreshToken) {
+      this.setRefreshToken(data.refreshToken);
+    }
+    if (data.sessionToken) {
+      this.setSessionToken(data.sessionToken);
+    }
+    console.log('[ApiClient] Access token refreshed');
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('seenos:auth_token_refreshed', {
+        detail: { token: data.token, sessionToken: this.sessionToken },
+      }));
+    }
+    return 'refreshed';
+  }
+
+  /**
+   * 处理 401 响应，返回是否可以重放请求
+   * - 请求发出后 token 已被其他请求刷新：直接重放
+   * - 刷新成功：重放
+   * - refresh token 无效：清除登录状态，派发 seenos:auth_expired 事件由 AuthProvider 登出
+   * - 刷新服务暂不可用：保留登录状态，本次请求失败
+   * 也供不经过 request() 的连接（如 WebSocket 握手认证失败）使用
+   * @param requestToken 被拒绝的请求所携带的 token
+   * @param canRefresh 是否允许刷新（重放的请求再次 401 时不再刷新）
+   */
+  async recoverFromUnauthorized(requestToken: string | null, canRefresh: boolean): Promise<boolean> {
+    if (canRefresh && requestToken) {
+      if (this.token && this.token !== requestToken) {
+        return true;
+      }
+      const result = await this.refreshAccessToken();
+      if (result === 'refreshed') return true;
+      if (result === 'unavailable') return false;
+    }
+
+    this.clearToken();
+    // Don't use window.location.href - it causes page reload loops
+    // Let AuthProvider and React Router handle navigation
+    console.warn('[ApiClient] 401 Unauthorized - token cleared');
+    if (requestToken && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('seenos:auth_expired'));
+    }
+    return false;
+  }
+
+  /**
+   * 发送请求
+   * - 每次尝试受超时限制，429 / 5xx / 网络错误按策略重试（POST / PATCH 需提供 idempotencyKey）
+   * - 401 时刷新 token 后重放，不占用重试次数
+   * - 相同的并发 GET 请求合并为一次，每个调用方可单独取消
+   */
+  async request<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<T> {
+    const { params, schema, signal, dedupe, ...rest } = options;
+    const method = (rest.method ?? 'GET').toUpperCase();
 
     let url = `${this.baseUrl}${endpoint}`;
     if (params) {
@@ -341,13 +688,159 @@ class ApiClient {
       url += `?${searchParams.toString()}`;
     }
 
-    const response = await fetch(url, {
-      ...fetchOptions,
-      headers: {
-        ...this.getHeaders(),
-        ...fetchOptions.headers,
-      },
+    let data: unknown;
+    if (method === 'GET' && (dedupe ?? this.policy.dedupeGets)) {
+      const key = `${this.token ?? ''} ${url}`;
+      data = await this.dedupeGet(key, (sharedSignal) => this.send(url, method, rest, sharedSignal), signal);
+    } else {
+      data = await this.send(url, method, rest, signal);
+    }
+    return schema ? validateResponse(endpoint, schema, data) : (data as T);
+  }
+
+  /**
+   * 合并相同的并发 GET 请求
+   * 底层请求使用独立的取消信号，只有所有调用方都取消时才中止
+   */
+  private dedupeGet(
+    key: string,
+    run: (signal: AbortSignal) => Promise<unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    let entry = this.inflightGets.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest = {
+        controller,
+        waiters: 0,
+        promise: run(controller.signal).finally(() => {
+          if (this.inflightGets.get(key) === created) {
+            this.inflightGets.delete(key);
+          }
+        }),
+      };
+      this.inflightGets.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.waiters += 1;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiters -= 1;
+        if (shared.waiters === 0) {
+          if (this.inflightGets.get(key) === shared) {
+            this.inflightGets.delete(key);
+          }
+          shared.controller.abort();
+        }
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      shared.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
     });
+  }
+
+  /**
+   * 发送请求并按策略重试，返回解析后的响应数据
+   */
+  private async send(
+    url: string,
+    method: string,
+    options: Omit<RequestOptions, 'params' | 'schema' | 'signal' | 'dedupe'>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const { timeoutMs, retries, idempotencyKey, skipAuthRefresh: noRefresh, ...fetchOptions } = options;
+    let skipAuthRefresh = noRefresh;
+
+    const policy = this.policy;
+    const maxRetries = canRetryMethod(method, idempotencyKey) ? retries ?? policy.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const requestToken = this.token;
+      let result: AttemptResult;
+      try {
+        result = await withTimeout(
+          (attemptSignal) => this.attempt(url, fetchOptions, idempotencyKey, attemptSignal),
+          timeoutMs ?? policy.timeoutMs,
+          signal
+        );
+      } catch (error) {
+        // 取消和超时不重试；网络错误按退避策略重试
+        if (isAbortError(error) || isTimeoutError(error) || attempt >= maxRetries) {
+          throw error;
+        }
+        console.warn(`[ApiClient] ${method} ${url} failed (network), retrying:`, error);
+        await sleep(backoffDelay(attempt, policy), signal);
+        continue;
+      }
+
+      if (result.ok) {
+        return result.data;
+      }
+
+      const { response, error } = result;
+
+      // Token 过期处理：刷新 token 后透明重放请求（不占用重试次数）
+      if (response.status === 401) {
+        if (await this.recoverFromUnauthorized(requestToken, !skipAuthRefresh)) {
+          skipAuthRefresh = true;
+          attempt--;
+          continue;
+        }
+        throw error;
+      }
+
+      if (isRetryableStatus(response.status) && attempt < maxRetries) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        // 服务端要求的等待时间超过上限时直接失败，交给调用方决定
+        if (retryAfter === null || retryAfter <= policy.maxRetryDelayMs) {
+          const delay = retryAfter ?? backoffDelay(attempt, policy);
+          console.warn(`[ApiClient] ${method} ${url} returned HTTP ${response.status}, retrying in ${delay}ms`);
+          await sleep(delay, signal);
+          continue;
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * 执行一次请求尝试（读取完整响应体，超时覆盖整个过程）
+   */
+  private async attempt(
+    url: string,
+    fetchOptions: RequestInit,
+    idempotencyKey: string | undefined,
+    signal: AbortSignal
+  ): Promise<AttemptResult> {
+    const headers: Record<string, string> = {
+      ...(this.getHeaders() as Record<string, string>),
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      ...(fetchOptions.headers as Record<string, string> | undefined),
+    };
+    // FormData 由浏览器设置 multipart Content-Type（含 boundary）
+    if (typeof FormData !== 'undefined' && fetchOptions.body instanceof FormData) {
+      delete headers['Content-Type'];
+    }
+
+    const response = await fetch(url, { ...fetchOptions, headers, signal });
 
     // 检查 Session 过期响应头 (SESSION_EXPIRATION_FRONTEND_GUIDE.md)
     const sessionStatus = response.headers.get('x-session-status');
@@ -362,14 +855,6 @@ class ApiClient {
     }
 
     if (!response.ok) {
-      // Token 过期处理
-      if (response.status === 401) {
-        this.clearToken();
-        // Don't use window.location.href - it causes page reload loops
-        // Let AuthProvider and React Router handle navigation
-        console.warn('[ApiClient] 401 Unauthorized - token cleared');
-      }
-
       let errorData: { error?: { code?: string; message?: string }; message?: string; detail?: string } = {};
       try {
         errorData = await response.json();
@@ -381,14 +866,14 @@ class ApiClient {
       const error: ApiError = new Error(errorMessage);
       error.code = errorData.error?.code;
       error.status = response.status;
-      throw error;
+      return { ok: false, response, error };
     }
 
     const contentType = response.headers.get('content-type');
     if (contentType && contentType.includes('application/json')) {
-      return response.json();
+      return { ok: true, data: await response.json() };
     }
-    return {} as T;
+    return { ok: true, data: {} };
   }
 
   /** 是否为 404 Not Found（用于新旧端点回退） */
@@ -397,37 +882,40 @@ class ApiClient {
   }
 
   /** GET 请求 */
-  get<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET', params });
+  get<T>(endpoint: string, params?: Record<string, string>, options?: CallOptions<T>): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'GET', params });
   }
 
   /** POST 请求 */
-  post<T>(endpoint: string, data?: unknown): Promise<T> {
+  post<T>(endpoint: string, data?: unknown, options?: CallOptions<T>): Promise<T> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
   /** PUT 请求 */
-  put<T>(endpoint: string, data?: unknown): Promise<T> {
+  put<T>(endpoint: string, data?: unknown, options?: CallOptions<T>): Promise<T> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
   /** PATCH 请求 */
-  patch<T>(endpoint: string, data?: unknown): Promise<T> {
+  patch<T>(endpoint: string, data?: unknown, options?: CallOptions<T>): Promise<T> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'PATCH',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
   /** DELETE 请求 */
-  delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
+  delete<T>(endpoint: string, options?: CallOptions<T>): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
 
   // ============ 健康检查 API ============
@@ -462,15 +950,16 @@ class ApiClient {
 
   /** 用户登录 */
   async login(email: string, password: string): Promise<LoginResponse> {
-    const data = await this.post<LoginResponse>('/auth/login', { email, password });
+    const data = await this.post('/auth/login', { email, password }, { schema: schemas.loginResponseSchema });
     this.setToken(data.token);
     this.setSessionToken(data.sessionToken ?? null);
+    this.setRefreshToken(data.refreshToken ?? null);
     return data;
   }
 
   /** 用户注册 */
   async register(request: RegisterRequest): Promise<RegisterResponse> {
-    return this.post<RegisterResponse>('/auth/register', request);
+    return this.post('/auth/register', request, { schema: schemas.registerResponseSchema });
   }
 
   /** 退出登录 */
@@ -481,12 +970,12 @@ class ApiClient {
 
   /** 获取当前用户 */
   async getCurrentUser(): Promise<AuthMeResponse> {
-    return this.get<AuthMeResponse>('/auth/me');
+    return this.get('/auth/me', undefined, { schema: schemas.authMeResponseSchema });
   }
 
   /** 更新用户资料 */
   async updateProfile(data: { name?: string; avatar?: string }): Promise<User> {
-    return this.put<User>('/auth/profile', data);
+    return this.put('/auth/profile', data, { schema: schemas.userSchema });
   }
 
   /** 修改密码 */
@@ -501,12 +990,13 @@ class ApiClient {
 
   /** Google OAuth 回调 */
   async googleOAuthCallback(code: string, redirectUri: string): Promise<LoginResponse & { isNewUser: boolean }> {
-    const data = await this.post<LoginResponse & { isNewUser: boolean }>('/auth/oauth/google', {
+    const data = await this.post('/auth/oauth/google', {
       code,
       redirect_uri: redirectUri,
-    });
+    }, { schema: schemas.oauthLoginResponseSchema });
     this.setToken(data.token);
     this.setSessionToken(data.sessionToken ?? null);
+    this.setRefreshToken(data.refreshToken ?? null);
     return data;
   }
 
@@ -517,27 +1007,86 @@ class ApiClient {
     offset?: number;
     limit?: number;
     status?: 'idle' | 'busy' | 'interrupted' | 'error';
+    signal?: AbortSignal;
   }): Promise<ConversationListResponse> {
     const params: Record<string, string> = {};
     if (options?.offset !== undefined) params.offset = String(options.offset);
     if (options?.limit !== undefined) params.limit = String(options.limit);
     if (options?.status) params.status = options.status;
-    return this.get<ConversationListResponse>('/conversations', params);
+    return this.get('/conversations', params, {
+      schema: schemas.conversationListResponseSchema,
+      signal: options?.signal,
+    });
+  }
+
+  /**
+   * 全文搜索所有对话
+   * 搜索消息正文、工具调用参数和结果、生成的文件名；日期为 ISO 时间，按消息时间过滤
+   */
+  async searchConversations(options: {
+    query: string;
+    status?: Conversation['status'];
+    projectId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    cursor?: string;
+    signal?: AbortSignal;
+  }): Promise<ConversationSearchResponse> {
+    const params: Record<string, string> = { q: options.query };
+    if (options.status) params.status = options.status;
+    if (options.projectId) params.project_id = options.projectId;
+    if (options.from) params.from = options.from;
+    if (options.to) params.to = options.to;
+    if (options.limit !== undefined) params.limit = String(options.limit);
+    if (options.cursor) params.cursor = options.cursor;
+    return this.get('/search', params, {
+      schema: schemas.conversationSearchResponseSchema,
+      signal: options.signal,
+    });
   }
 
   /** 创建对话 */
   async createConversation(title?: string): Promise<{ cid: string; conversation: Conversation }> {
-    return this.post<{ cid: string; conversation: Conversation }>('/conversations', { title });
+    return this.post('/conversations', { title }, {
+      schema: schemas.createConversationResponseSchema,
+      idempotencyKey: createIdempotencyKey(),
+    });
   }
 
   /** 获取对话详情 */
-  async getConversation(cid: string): Promise<ConversationDetailResponse> {
-    return this.get<ConversationDetailResponse>(`/conversations/${cid}`);
+  async getConversation(cid: string, signal?: AbortSignal): Promise<ConversationDetailResponse> {
+    return this.get(`/conversations/${cid}`, undefined, { schema: schemas.conversationDetailResponseSchema, signal });
+  }
+
+  /**
+   * 长轮询对话状态（长轮询传输）
+   * 服务端在状态更新或等待超时后返回；不支持等待参数的服务端会立即返回当前状态
+   * @param since 上次收到的 updatedAt，服务端只在状态晚于该时间时返回
+   * @param waitSeconds 服务端最长等待时间
+   */
+  async pollConversationState(
+    cid: string,
+    options: { since?: string; waitSeconds?: number; signal?: AbortSignal } = {}
+  ): Promise<ConversationDetailResponse> {
+    const params: Record<string, string> = {};
+    if (options.since) params.since = options.since;
+    if (options.waitSeconds !== undefined) params.wait = String(options.waitSeconds);
+    return this.request<ConversationDetailResponse>(`/conversations/${cid}`, {
+      method: 'GET',
+      params,
+      signal: options.signal,
+      schema: schemas.conversationDetailResponseSchema,
+      // 服务端最长挂起 waitSeconds；重连由长轮询连接自行处理
+      timeoutMs: ((options.waitSeconds ?? 0) + 10) * 1000,
+      retries: 0,
+      dedupe: false,
+    });
   }
 
   /** 更新对话 */
   async updateConversation(cid: string, data: { title?: string; status?: string }): Promise<Conversation> {
-    return this.patch<Conversation>(`/conversations/${cid}`, data);
+    return this.patch(`/conversations/${cid}`, data, { schema: schemas.conversationSchema });
   }
 
   /** 删除对话 */
@@ -602,9 +1151,59 @@ class ApiClient {
 
   // ============ 聊天 API (SSE 模式) ============
 
-  /** 发送消息 (SSE 模式) */
-  async sendMessage(cid: string, content: string, attachments?: unknown[], attachmentIds?: string[]): Promise<void> {
-    return this.post(`/chat/${cid}/messages`, { content, attachments, attachmentIds });
+  /**
+   * 打开 SSE 事件流 (SSE 模式)
+   * 通过请求头认证，避免 token 出现在 URL 中
+   * @param url 完整的 SSE URL（含查询参数）
+   */
+  async openEventStream(url: string, signal?: AbortSignal, skipAuthRefresh = false): Promise<Response> {
+    const requestToken = this.token;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        ...this.getHeaders(),
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      if (response.status === 401 && await this.recoverFromUnauthorized(requestToken, !skipAuthRefresh)) {
+        return this.openEventStream(url, signal, true);
+      }
+
+      let errorData: { error?: { code?: string; message?: string }; message?: string; detail?: string } = {};
+      try {
+        errorData = await response.json();
+      } catch {
+        // 忽略 JSON 解析错误
+      }
+      const errorMessage = errorData.error?.message || errorData.message || errorData.detail || `HTTP ${response.status}`;
+      const error: ApiError = new Error(errorMessage);
+      error.code = errorData.error?.code;
+      error.status = response.status;
+      throw error;
+    }
+
+    return response;
+  }
+
+  /**
+   * 发送消息 (SSE 模式)
+   * clientMessageId 同时作为幂等键，重试或离线重发不会产生重复消息
+   */
+  async sendMessage(
+    cid: string,
+    content: string,
+    attachments?: unknown[],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: MessageMention[]
+  ): Promise<void> {
+    return this.post(`/chat/${cid}/messages`, { content, attachments, attachmentIds, clientMessageId, mentions }, {
+      idempotencyKey: clientMessageId ?? createIdempotencyKey(),
+    });
   }
 
   /** 停止生成 (SSE 模式) */
@@ -617,6 +1216,177 @@ class ApiClient {
     return this.post(`/chat/${cid}/interrupt/resume`, { interruptId, decision });
   }
 
+  /** 重试失败的消息 (SSE 模式) */
+  async retryMessage(cid: string, turnId: string): Promise<void> {
+    return this.post(`/chat/${cid}/retry`, { turn_id: turnId });
+  }
+
+  /** 获取会话中可重试的失败回合 */
+  async getFailedTurns(cid: string): Promise<FailedTurnsResponse> {
+    return this.get(`/sessions/turns/conversation/${cid}/failed`, { retryable_only: 'true' }, {
+      schema: schemas.failedTurnsResponseSchema,
+    });
+  }
+
+  // ============ 会话分支 API ============
+
+  /**
+   * 编辑用户消息并从该处分叉
+   * 分支 ID 和新消息 ID 由客户端生成，服务端在新分支上生成回复（通过当前流式连接推送）
+   */
+  async editMessage(
+    cid: string,
+    messageId: string,
+    data: {
+      branchId: string;
+      clientMessageId: string;
+      content: string;
+      attachmentIds?: string[];
+      mentions?: MessageMention[];
+    }
+  ): Promise<EditMessageResponse> {
+    return this.post(`/chat/${cid}/messages/${messageId}/edit`, data, {
+      schema: schemas.editMessageResponseSchema,
+      idempotencyKey: data.clientMessageId,
+    });
+  }
+
+  /** 切换会话的当前分支，返回该分支的会话状态 */
+  async activateBranch(cid: string, branchId: string): Promise<ConversationDetailResponse> {
+    return this.post(`/conversations/${cid}/branches/${branchId}/activate`, undefined, {
+      schema: schemas.conversationDetailResponseSchema,
+    });
+  }
+
+  // ============ 会话整理 API ============
+
+  /** 获取标签、文件夹和各会话的置顶 / 归档 / 标签 / 文件夹设置 */
+  async getConversationOrganization(signal?: AbortSignal): Promise<ConversationOrganizationResponse> {
+    return this.get('/conversation-organization', undefined, {
+      schema: schemas.conversationOrganizationResponseSchema,
+      signal,
+    });
+  }
+
+  /** 批量更新会话的整理信息 */
+  async updateConversationOrganization(cids: string[], update: ConversationOrganizationUpdate): Promise<void> {
+    return this.patch('/conversation-organization/conversations', { cids, ...update });
+  }
+
+  /** 创建标签 */
+  async createConversationTag(data: { name: string; color: string }): Promise<ConversationTag> {
+    return this.post('/conversation-organization/tags', data, {
+      schema: schemas.conversationTagSchema,
+      idempotencyKey: createIdempotencyKey(),
+    });
+  }
+
+  /** 更新标签名称或颜色 */
+  async updateConversationTag(tagId: string, data: { name?: string; color?: string }): Promise<ConversationTag> {
+    return this.patch(`/conversation-organization/tags/${tagId}`, data, { schema: schemas.conversationTagSchema });
+  }
+
+  /** 删除标签（同时从所有会话中移除） */
+  async deleteConversationTag(tagId: string): Promise<void> {
+    return this.delete(`/conversation-organization/tags/${tagId}`);
+  }
+
+  /** 创建文件夹 */
+  async createConversationFolder(data: { name: string; projectId: string | null }): Promise<ConversationFolder> {
+    return this.post('/conversation-organization/folders', data, {
+      schema: schemas.conversationFolderSchema,
+      idempotencyKey: createIdempotencyKey(),
+    });
+  }
+
+  /** 重命名文件夹 */
+  async updateConversationFolder(folderId: string, data: { name: string }): Promise<ConversationFolder> {
+    return this.patch(`/conversation-organization/folders/${folderId}`, data, {
+      schema: schemas.conversationFolderSchema,
+    });
+  }
+
+  /** 删除文件夹（其中的会话移出文件夹，不删除会话） */
+  async deleteConversationFolder(folderId: string): Promise<void> {
+    return this.delete(`/conversation-organization/folders/${folderId}`);
+  }
+
+  // ============ 会话分享 API ============
+
+  /** 获取会话的分享链接（包括已过期和已撤销的） */
+  async getConversationShares(cid: string, signal?: AbortSignal): Promise<ConversationShare[]> {
+    const response = await this.get<{ shares: ConversationShare[] }>(`/conversations/${cid}/shares`, undefined, {
+      schema: schemas.conversationSharesResponseSchema,
+      signal,
+    });
+    return response.shares;
+  }
+
+  /** 创建只读分享链接（保存当前会话的快照） */
+  async createConversationShare(cid: string, data: CreateConversationShareRequest): Promise<ConversationShare> {
+    return this.post(`/conversations/${cid}/shares`, data, {
+      schema: schemas.conversationShareSchema,
+      idempotencyKey: createIdempotencyKey(),
+    });
+  }
+
+  /** 修改分享链接的过期时间 */
+  async updateConversationShare(
+    cid: string,
+    shareId: string,
+    data: { expiresAt: string | null }
+  ): Promise<ConversationShare> {
+    return this.patch(`/conversations/${cid}/shares/${shareId}`, data, { schema: schemas.conversationShareSchema });
+  }
+
+  /** 撤销分享链接 */
+  async revokeConversationShare(cid: string, shareId: string): Promise<ConversationShare> {
+    return this.post(`/conversations/${cid}/shares/${shareId}/revoke`, undefined, {
+      schema: schemas.conversationShareSchema,
+    });
+  }
+
+  /**
+   * 打开分享链接（公开端点，无需登录）
+   * 链接不存在、已过期或已撤销时返回 404 / 410
+   */
+  async getSharedConversation(token: string, signal?: AbortSignal): Promise<SharedConversationResponse> {
+    return this.get(`/shares/${encodeURIComponent(token)}`, undefined, {
+      schema: schemas.sharedConversationResponseSchema,
+      signal,
+    });
+  }
+
+  // ============ 回复版本 API ============
+
+  /**
+   * 重新生成助手回复，可指定其他模型
+   * 新版本的消息 ID 由客户端生成，服务端通过当前流式连接推送；原回复作为另一个版本保留
+   */
+  async regenerateMessage(
+    cid: string,
+    messageId: string,
+    data: { variantId: string; model?: string }
+  ): Promise<void> {
+    return this.post(`/chat/${cid}/messages/${messageId}/regenerate`, data, {
+      idempotencyKey: data.variantId,
+    });
+  }
+
+  /** 获取助手消息的全部版本（按生成顺序） */
+  async getMessageVariants(cid: string, messageId: string): Promise<MessageVariantsResponse> {
+    return this.get(`/chat/${cid}/messages/${messageId}/variants`, undefined, {
+      schema: schemas.messageVariantsResponseSchema,
+    });
+  }
+
+  /** 选择后续对话基于的版本 */
+  async selectMessageVariant(cid: string, messageId: string, variantId: string): Promise<MessageVariantSelection> {
+    return this.post(`/chat/${cid}/messages/${messageId}/variants/${variantId}/select`, undefined, {
+      schema: schemas.messageVariantSelectionSchema,
+    });
+  }
+
   // ============ 消息反馈 API (FEEDBACK_API_FRONTEND_GUIDE.md) ============
 
   /** 获取消息反馈状态 */
@@ -647,17 +1417,19 @@ class ApiClient {
 
   /** 创建消息反馈 */
   async createFeedback(cid: string, messageId: string, data: FeedbackCreateRequest): Promise<FeedbackResponse> {
-    return this.post<FeedbackResponse>(
+    return this.post(
       `/conversations/${cid}/messages/${messageId}/feedback`,
-      data
+      data,
+      { schema: schemas.feedbackResponseSchema }
     );
   }
 
   /** 更新消息反馈 */
   async updateFeedback(cid: string, messageId: string, data: FeedbackCreateRequest): Promise<FeedbackResponse> {
-    return this.put<FeedbackResponse>(
+    return this.put(
       `/conversations/${cid}/messages/${messageId}/feedback`,
-      data
+      data,
+      { schema: schemas.feedbackResponseSchema }
     );
   }
 
@@ -684,63 +1456,63 @@ class ApiClient {
 
   /** 获取模型列表 (扁平) */
   async getModels(): Promise<{ models: ModelOption[] }> {
-    return this.get<{ models: ModelOption[] }>('/models');
+    return this.get('/models', undefined, { schema: schemas.modelsResponseSchema });
   }
 
   /** 获取模型列表 (按提供商分组) */
   async getModelsGrouped(): Promise<{ providers: ProviderModels[] }> {
-    return this.get<{ providers: ProviderModels[] }>('/models/grouped');
+    return this.get('/models/grouped', undefined, { schema: schemas.groupedModelsResponseSchema });
   }
 
   /** 获取默认模型 */
   async getDefaultModels(): Promise<{ orchestratorModel: string; defaultSubagentModel: string }> {
-    return this.get<{ orchestratorModel: string; defaultSubagentModel: string }>('/models/defaults');
+    return this.get('/models/defaults', undefined, { schema: schemas.defaultModelsSchema });
   }
 
   /** 获取子代理列表 */
   async getSubAgents(): Promise<{ subagents: SubAgent[] }> {
-    return this.get<{ subagents: SubAgent[] }>('/models/subagents');
+    return this.get('/models/subagents', undefined, { schema: schemas.subAgentsResponseSchema });
   }
 
   // ============ 工具 API ============
 
   /** 获取工具列表 */
   async getTools(): Promise<{ tools: ToolOption[] }> {
-    return this.get<{ tools: ToolOption[] }>('/tools');
+    return this.get('/tools', undefined, { schema: schemas.toolsResponseSchema });
   }
 
   // ============ 设置 API ============
 
   /** 获取用户设置 */
   async getSettings(): Promise<UserSettings> {
-    return this.get<UserSettings>('/settings');
+    return this.get('/settings', undefined, { schema: schemas.userSettingsSchema });
   }
 
   /** 更新用户设置 */
   async updateSettings(settings: Partial<UserSettings>): Promise<UserSettings> {
-    return this.put<UserSettings>('/settings', settings);
+    return this.put('/settings', settings, { schema: schemas.userSettingsSchema });
   }
 
   // ============ 配置 API (管理员) ============
 
   /** 获取所有子代理配置 */
   async getAgentConfigs(): Promise<AgentConfig[]> {
-    return this.get<AgentConfig[]>('/config/agents');
+    return this.get('/config/agents', undefined, { schema: schema.array(schemas.agentConfigSchema) });
   }
 
   /** 获取单个子代理配置 */
   async getAgentConfig(agentName: string): Promise<AgentConfig> {
-    return this.get<AgentConfig>(`/config/agents/${agentName}`);
+    return this.get(`/config/agents/${agentName}`, undefined, { schema: schemas.agentConfigSchema });
   }
 
   /** 更新子代理配置 (管理员) */
   async updateAgentConfig(agentName: string, config: Partial<AgentConfig>): Promise<AgentConfig> {
-    return this.put<AgentConfig>(`/config/agents/${agentName}`, config);
+    return this.put(`/config/agents/${agentName}`, config, { schema: schemas.agentConfigSchema });
   }
 
   /** 切换子代理启用状态 (管理员) - 简化的启用/禁用 API */
   async toggleAgentEnabled(agentName: string, isEnabled: boolean): Promise<AgentConfig> {
-    return this.patch<AgentConfig>(`/config/agents/${agentName}/toggle`, { isEnabled });
+    return this.patch(`/config/agents/${agentName}/toggle`, { isEnabled }, { schema: schemas.agentConfigSchema });
   }
 
   /** 重置子代理配置 (管理员) */
@@ -750,12 +1522,12 @@ class ApiClient {
 
   /** 获取主代理配置 */
   async getOrchestratorConfig(): Promise<OrchestratorConfig> {
-    return this.get<OrchestratorConfig>('/config/orchestrator');
+    return this.get('/config/orchestrator', undefined, { schema: schemas.orchestratorConfigSchema });
   }
 
   /** 更新主代理配置 (管理员) */
   async updateOrchestratorConfig(config: OrchestratorConfigUpdate): Promise<OrchestratorConfig> {
-    return this.put<OrchestratorConfig>('/config/orchestrator', config);
+    return this.put('/config/orchestrator', config, { schema: schemas.orchestratorConfigSchema });
   }
 
   /** 重置主代理配置 (管理员) */
@@ -764,8 +1536,8 @@ class ApiClient {
   }
 
   /** 获取工具配置 */
-  async getToolConfigs(): Promise<unknown[]> {
-    return this.get<unknown[]>('/config/tools');
+  async getToolConfigs(): Promise<ToolOption[]> {
+    return this.get('/config/tools', undefined, { schema: schema.array(schemas.toolOptionSchema) });
   }
 
   /** 更新工具配置 (管理员) */
@@ -775,17 +1547,17 @@ class ApiClient {
 
   /** 切换工具启用状态 (管理员) - 简化的启用/禁用 API */
   async toggleToolEnabled(toolName: string, isEnabled: boolean): Promise<ToolOption> {
-    return this.patch<ToolOption>(`/config/tools/${toolName}/toggle`, { isEnabled });
+    return this.patch(`/config/tools/${toolName}/toggle`, { isEnabled }, { schema: schemas.toolOptionSchema });
   }
 
   /** 获取默认提示词模板 */
   async getDefaultPrompts(): Promise<Array<{ name: string; content: string }>> {
-    return this.get<Array<{ name: string; content: string }>>('/config/prompts/defaults');
+    return this.get('/config/prompts/defaults', undefined, { schema: schemas.defaultPromptsSchema });
   }
 
   /** 获取管理员列表 (管理员) */
   async getAdmins(): Promise<User[]> {
-    return this.get<User[]>('/config/admins');
+    return this.get('/config/admins', undefined, { schema: schema.array(schemas.userSchema) });
   }
 
   // ============ Context API (RAG) ============
@@ -794,34 +1566,30 @@ class ApiClient {
   async getContextFiles(): Promise<ContextListResponse> {
     // 优先使用 FRONTEND_API_GUIDE.md 的新端点：GET /context
     try {
-      return await this.get<ContextListResponse>('/context');
+      return await this.get('/context', undefined, { schema: schemas.contextListResponseSchema });
     } catch (error) {
       // 旧后端没有该端点时，回退到 /context/all 的解析逻辑
       if (!this.isNotFoundError(error)) throw error;
     }
 
     // 回退：从 /context/all 获取所有数据，然后提取 knowledge 部分的文件信息
-    const allData = await this.getContextAll();
-    const knowledge = allData?.knowledge || {};
-    const sources = knowledge.sources || [];
-
-    // 过滤出文件类型的 sources（根据 by_type 中的 file 类型，或 source.type === 'file'）
-    const fileSources = sources.filter((source: any) => {
-      if (source.type === 'file' || source.sourceType === 'file') return true;
-      if (source.fileType) return true;
-      return false;
-    });
+    const { knowledge } = await this.getContextAll();
 
-    const contexts: ContextFile[] = fileSources.map((source: any) => ({
+    // 过滤出文件类型的 sources（source.type === 'file'，或带有 fileType）
+    const fileSources = knowledge.sources.filter(
+      (source) => source.type === 'file' || source.sourceType === 'file' || !!source.fileType
+    );
+
+    const contexts: ContextFile[] = fileSources.map((source) => ({
       id: source.id || source.contextId || '',
       filename: source.filename || source.name || source.title || '',
-      fileType: (source.fileType || source.sourceType || 'txt') as 'txt' | 'md' | 'pdf' | 'docx',
+      fileType: (source.fileType || source.sourceType || 'txt') as ContextFile['fileType'],
       fileSize: source.fileSize || 0,
       chunkCount: source.chunkCount || 0,
-      status: (source.status || 'ready') as 'pending' | 'processing' | 'ready' | 'error',
+      status: (source.status || 'ready') as ContextFile['status'],
       errorMessage: source.errorMessage || undefined,
-      createdAt: source.createdAt || source.created_at || source.addedAt || new Date().toISOString(),
-      downloadUrl: source.downloadUrl || source.url || source.download_url || undefined,
+      createdAt: source.createdAt || source.addedAt || new Date().toISOString(),
+      downloadUrl: source.downloadUrl || source.url || undefined,
     }));
 
     const totalSize = contexts.reduce((sum, file) => sum + file.fileSize, 0);
@@ -836,92 +1604,56 @@ class ApiClient {
 
   /** 获取 Presigned Upload URL */
   async getPresignedUploadUrl(filename: string, contentType: string): Promise<PresignedUploadResponse> {
-    return this.post('/storage/presigned-upload', { filename, contentType });
+    return this.post('/storage/presigned-upload', { filename, contentType }, {
+      schema: schemas.presignedUploadResponseSchema,
+    });
   }
 
   /** 
    * Proxy Upload - 通过后端代理上传到 S3（解决 CORS 问题）
    * 返回值包含 s3Key 和可选的 publicUrl
    */
-  async proxyUploadImage(file: File): Promise<{
+  async proxyUploadImage(file: File, signal?: AbortSignal): Promise<{
     s3Key: string;
     publicUrl?: string;
   }> {
     const formData = new FormData();
     formData.append('file', file);
 
-    const headers: HeadersInit = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
-    const response = await fetch(`${this.baseUrl}/storage/proxy-upload`, {
+    return this.request('/storage/proxy-upload', {
       method: 'POST',
-      headers,
       body: formData,
+      signal,
+      schema: schemas.proxyUploadResponseSchema,
     });
-
-    if (!response.ok) {
-      let errorData: { error?: { code?: string; message?: string }; message?: string; detail?: string } = {};
-      try {
-        errorData = await response.json();
-      } catch {
-        // 忽略 JSON 解析错误
-      }
-      const errorMessage = errorData.error?.message || errorData.message || errorData.detail || `HTTP ${response.status}`;
-      const error: ApiError = new Error(errorMessage);
-      error.code = errorData.error?.code;
-      error.status = response.status;
-      throw error;
-    }
-
-    return response.json();
   }
 
   /** 上传上下文文件 */
-  async uploadContextFile(file: File, filename?: string): Promise<ContextFile> {
+  async uploadContextFile(file: File, filename?: string, signal?: AbortSignal): Promise<ContextFile> {
     const formData = new FormData();
     formData.append('file', file);
     if (filename) {
       formData.append('filename', filename);
     }
 
-    const headers: HeadersInit = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
-    // 优先新端点：POST /context/upload（FRONTEND_API_GUIDE.md）
-    let response = await fetch(`${this.baseUrl}/context/upload`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-
-    // 旧端点回退：POST /context/files/upload
-    if (response.status === 404) {
-      response = await fetch(`${this.baseUrl}/context/files/upload`, {
+    try {
+      // 优先新端点：POST /context/upload（FRONTEND_API_GUIDE.md）
+      return await this.request('/context/upload', {
         method: 'POST',
-        headers,
         body: formData,
+        signal,
+        schema: schemas.contextFileSchema,
+      });
+    } catch (error) {
+      if (!this.isNotFoundError(error)) throw error;
+      // 旧端点回退：POST /context/files/upload
+      return this.request('/context/files/upload', {
+        method: 'POST',
+        body: formData,
+        signal,
+        schema: schemas.contextFileSchema,
       });
     }
-
-    if (!response.ok) {
-      let errorData: { error?: { code?: string; message?: string }; message?: string; detail?: string } = {};
-      try {
-        errorData = await response.json();
-      } catch {
-        // 忽略 JSON 解析错误
-      }
-      const errorMessage = errorData.error?.message || errorData.message || errorData.detail || `HTTP ${response.status}`;
-      const error: ApiError = new Error(errorMessage);
-      error.code = errorData.error?.code;
-      error.status = response.status;
-      throw error;
-    }
-
-    return response.json();
   }
 
   /** 删除上下文文件 */
@@ -940,10 +1672,10 @@ class ApiClient {
   async getContextFileContent(contextId: string): Promise<ContextContentResponse> {
     try {
       // 新端点：GET /context/{id}/content
-      return await this.get<ContextContentResponse>(`/context/${contextId}/content`);
+      return await this.get(`/context/${contextId}/content`, undefined, { schema: schemas.contextContentResponseSchema });
     } catch (error) {
       if (!this.isNotFoundError(error)) throw error;
-      return this.get<ContextContentResponse>(`/context/files/${contextId}/content`);
+      return this.get(`/context/files/${contextId}/content`, undefined, { schema: schemas.contextContentResponseSchema });
     }
   }
 
@@ -951,10 +1683,10 @@ class ApiClient {
   async getContextFileChunks(contextId: string): Promise<ContextChunksResponse> {
     try {
       // 新端点：GET /context/{id}/chunks
-      return await this.get<ContextChunksResponse>(`/context/${contextId}/chunks`);
+      return await this.get(`/context/${contextId}/chunks`, undefined, { schema: schemas.contextChunksResponseSchema });
     } catch (error) {
       if (!this.isNotFoundError(error)) throw error;
-      return this.get<ContextChunksResponse>(`/context/files/${contextId}/chunks`);
+      return this.get(`/context/files/${contextId}/chunks`, undefined, { schema: schemas.contextChunksResponseSchema });
     }
   }
 
@@ -1050,35 +1782,33 @@ class ApiClient {
   }): Promise<{ results: ContextSearchResult[] }> {
     try {
       // 新端点：POST /context/search
-      return await this.post<{ results: ContextSearchResult[] }>('/context/search', {
-        query,
-        ...options,
+      return await this.post('/context/search', { query, ...options }, {
+        schema: schemas.contextSearchResponseSchema,
       });
     } catch (error) {
       if (!this.isNotFoundError(error)) throw error;
       // 旧端点回退：POST /context/files/search
-      return this.post<{ results: ContextSearchResult[] }>('/context/files/search', {
-        query,
-        ...options,
+      return this.post('/context/files/search', { query, ...options }, {
+        schema: schemas.contextSearchResponseSchema,
       });
     }
   }
 
   /** 获取所有 Context 数据 */
-  async getContextAll(): Promise<any> {
-    return this.get<any>('/context/all');
+  async getContextAll(): Promise<ContextAllResponse> {
+    return this.get('/context/all', undefined, { schema: schemas.contextAllResponseSchema });
   }
 
   /** 获取 Context 统计数据 */
   async getContextStats(useCache: boolean = true): Promise<ContextStatsResponse> {
-    return this.get<ContextStatsResponse>('/context/stats', { use_cache: useCache.toString() });
+    return this.get('/context/stats', { use_cache: useCache.toString() }, { schema: schemas.contextStatsResponseSchema });
   }
 
   // ============ Singleton 操作 ============
 
   /** 获取 Singleton */
   async getSingleton(section: string): Promise<ContextSingleton> {
-    return this.get<ContextSingleton>(`/context/singletons/${section}`);
+    return this.get(`/context/singletons/${section}`, undefined, { schema: schemas.contextSingletonSchema });
   }
 
   /** 创建/更新 Singleton (Upsert) */
@@ -1087,7 +1817,7 @@ class ApiClient {
     if (expectedVersion !== undefined) {
       body.expected_version = expectedVersion;
     }
-    return this.put<ContextSingleton>(`/context/singletons/${section}`, body);
+    return this.put(`/context/singletons/${section}`, body, { schema: schemas.contextSingletonSchema });
   }
 
   /** 删除 Singleton */
@@ -1111,17 +1841,17 @@ class ApiClient {
     if (params?.limit !== undefined) queryParams.limit = params.limit.toString();
     if (params?.offset !== undefined) queryParams.offset = params.offset.toString();
     if (params?.include_deleted !== undefined) queryParams.include_deleted = params.include_deleted.toString();
-    return this.get<ContextItemsResponse>('/context/items', Object.keys(queryParams).length > 0 ? queryParams : undefined);
+    return this.get('/context/items', Object.keys(queryParams).length > 0 ? queryParams : undefined, { schema: schemas.contextItemsResponseSchema });
   }
 
   /** 获取单个 Item */
   async getItem(itemId: string): Promise<ContextItem> {
-    return this.get<ContextItem>(`/context/items/${itemId}`);
+    return this.get(`/context/items/${itemId}`, undefined, { schema: schemas.contextItemSchema });
   }
 
   /** 创建 Item */
   async createItem(data: ContextItemCreate): Promise<ContextItem> {
-    return this.post<ContextItem>('/context/items', data);
+    return this.post('/context/items', data, { schema: schemas.contextItemSchema, idempotencyKey: createIdempotencyKey() });
   }
 
   /** 更新 Item */
@@ -1130,7 +1860,7 @@ class ApiClient {
     if (expectedVersion !== undefined) {
       body.expected_version = expectedVersion;
     }
-    return this.put<ContextItem>(`/context/items/${itemId}`, body);
+    return this.put(`/context/items/${itemId}`, body, { schema: schemas.contextItemSchema });
   }
 
   /** 删除 Item */
@@ -1140,12 +1870,12 @@ class ApiClient {
 
   /** 恢复 Item */
   async restoreItem(itemId: string): Promise<ContextItem> {
-    return this.post<ContextItem>(`/context/items/${itemId}/restore`);
+    return this.post(`/context/items/${itemId}/restore`, undefined, { schema: schemas.contextItemSchema });
   }
 
   /** 批量删除 Items */
   async bulkDeleteItems(ids: string[]): Promise<{ deleted: number; failed: string[] }> {
-    return this.post<{ deleted: number; failed: string[] }>('/context/items/bulk-delete', { ids });
+    return this.post('/context/items/bulk-delete', { ids }, { schema: schemas.bulkDeleteResponseSchema });
   }
 
   /** 重新排序 Items */
@@ -1167,12 +1897,12 @@ class ApiClient {
     if (params?.section) queryParams.section = params.section;
     if (params?.limit !== undefined) queryParams.limit = params.limit.toString();
     if (params?.offset !== undefined) queryParams.offset = params.offset.toString();
-    return this.get<ContextPersonsResponse>('/context/persons', Object.keys(queryParams).length > 0 ? queryParams : undefined);
+    return this.get('/context/persons', Object.keys(queryParams).length > 0 ? queryParams : undefined, { schema: schemas.contextPersonsResponseSchema });
   }
 
   /** 创建 Person */
   async createPerson(data: ContextPersonCreate): Promise<ContextPerson> {
-    return this.post<ContextPerson>('/context/persons', data);
+    return this.post('/context/persons', data, { schema: schemas.contextPersonSchema, idempotencyKey: createIdempotencyKey() });
   }
 
   /** 更新 Person */
@@ -1181,7 +1911,7 @@ class ApiClient {
     if (expectedVersion !== undefined) {
       body.expected_version = expectedVersion;
     }
-    return this.put<ContextPerson>(`/context/persons/${personId}`, body);
+    return this.put(`/context/persons/${personId}`, body, { schema: schemas.contextPersonSchema });
   }
 
   /** 删除 Person */
@@ -1205,12 +1935,12 @@ class ApiClient {
     if (params?.limit !== undefined) queryParams.limit = params.limit.toString();
     if (params?.offset !== undefined) queryParams.offset = params.offset.toString();
     if (params?.include_deleted !== undefined) queryParams.include_deleted = params.include_deleted.toString();
-    return this.get<ContextEntitiesResponse>('/context/entities', Object.keys(queryParams).length > 0 ? queryParams : undefined);
+    return this.get('/context/entities', Object.keys(queryParams).length > 0 ? queryParams : undefined, { schema: schemas.contextEntitiesResponseSchema });
   }
 
   /** 创建 Entity */
   async createEntity(data: ContextEntityCreate): Promise<ContextEntity> {
-    return this.post<ContextEntity>('/context/entities', data);
+    return this.post('/context/entities', data, { schema: schemas.contextEntitySchema, idempotencyKey: createIdempotencyKey() });
   }
 
   /** 更新 Entity */
@@ -1219,7 +1949,7 @@ class ApiClient {
     if (expectedVersion !== undefined) {
       body.expected_version = expectedVersion;
     }
-    return this.put<ContextEntity>(`/context/entities/${entityId}`, body);
+    return this.put(`/context/entities/${entityId}`, body, { schema: schemas.contextEntitySchema });
   }
 
   /** 删除 Entity */
@@ -1240,27 +1970,9 @@ class ApiClient {
     if (finalProjectId) {
       params.project_id = finalProjectId;
     }
-    const response = await this.get<any>('/onboarding/status', Object.keys(params).length > 0 ? params : undefined);
-    return {
-      status: response.status,
-      currentStep: response.current_step,
-      completedSteps: response.completed_steps || [],
-      message: response.message,
-      navigationStats: response.navigation_stats ? {
-        sitemapTotal: response.navigation_stats.sitemap_total,
-        sitemapFiltered: response.navigation_stats.sitemap_filtered,
-        headerLinks: response.navigation_stats.header_links,
-        footerLinks: response.navigation_stats.footer_links,
-      } : undefined,
-      error: response.error,
-      researchInteractionId: response.research_interaction_id,
-      researchStatus: response.research_status,
-      researchUrl: response.research_url,
-      researchData: response.research_data,
-      startedAt: response.started_at,
-      completedAt: response.completed_at,
-      lastUpdatedAt: response.last_updated_at,
-    } as OnboardingStatus;
+    return this.get('/onboarding/status', Object.keys(params).length > 0 ? params : undefined, {
+      schema: schemas.onboardingStatusSchema,
+    });
   }
 
   /** 启动 Deep Research（品牌分析） */
@@ -1272,15 +1984,16 @@ class ApiClient {
       offsite_mode?: 'search' | 'deep' | 'hybrid';
     }
   ): Promise<DeepResearchResponse> {
-    return this.post<DeepResearchResponse>('/onboarding/research', {
-      url,
-      ...(options || {}),
+    return this.post('/onboarding/research', { url, ...(options || {}) }, {
+      schema: schemas.deepResearchResponseSchema,
     });
   }
 
   /** 获取 Deep Research 结果 */
   async getDeepResearchResult(interactionId: string): Promise<DeepResearchResult> {
-    return this.get<DeepResearchResult>(`/onboarding/research/${interactionId}`);
+    return this.get(`/onboarding/research/${interactionId}`, undefined, {
+      schema: schemas.deepResearchResultSchema,
+    });
   }
 
   /** 搜索品牌数据 */
@@ -1288,48 +2001,48 @@ class ApiClient {
     const params: Record<string, string> = {};
     if (query) params.query = query;
     params.scope = scope;
-    return this.get<OnboardingSearchResponse>('/onboarding/search', params);
+    return this.get('/onboarding/search', params, { schema: schemas.onboardingSearchResponseSchema });
   }
 
   /** 获取品牌摘要 */
   async getOnboardingSummary(): Promise<OnboardingSummary> {
-    return this.get<OnboardingSummary>('/onboarding/summary');
+    return this.get('/onboarding/summary', undefined, { schema: schemas.onboardingSummarySchema });
   }
 
   /** 重置用户 Onboarding 状态 (管理员) */
   async resetOnboardingStatus(userId: string, projectId?: string): Promise<{ status: string; message: string }> {
-    const body: any = {};
+    const body: { project_id?: string } = {};
     if (projectId) {
       body.project_id = projectId;
     }
-    return this.post<{ status: string; message: string }>(`/onboarding/admin/${userId}/reset`, body);
+    return this.post(`/onboarding/admin/${userId}/reset`, body, { schema: schemas.statusMessageSchema });
   }
 
   // ============ Projects API ============
 
   /** 获取项目列表 */
-  async getProjects(): Promise<ProjectListResponse> {
-    return this.get<ProjectListResponse>('/projects');
+  async getProjects(signal?: AbortSignal): Promise<ProjectListResponse> {
+    return this.get('/projects', undefined, { schema: schemas.projectListResponseSchema, signal });
   }
 
   /** 创建项目 */
   async createProject(data: CreateProjectRequest): Promise<Project> {
-    return this.post<Project>('/projects', data);
+    return this.post('/projects', data, { schema: schemas.projectSchema, idempotencyKey: createIdempotencyKey() });
   }
 
   /** 获取项目详情 */
   async getProject(projectId: string): Promise<Project> {
-    return this.get<Project>(`/projects/${projectId}`);
+    return this.get(`/projects/${projectId}`, undefined, { schema: schemas.projectSchema });
   }
 
   /** 更新项目 */
   async updateProject(projectId: string, data: UpdateProjectRequest): Promise<Project> {
-    return this.put<Project>(`/projects/${projectId}`, data);
+    return this.put(`/projects/${projectId}`, data, { schema: schemas.projectSchema });
   }
 
   /** 验证项目 URL */
   async validateProjectUrl(url: string): Promise<ValidateUrlResponse> {
-    return this.post<ValidateUrlResponse>('/projects/validate-url', { url });
+    return this.post('/projects/validate-url', { url }, { schema: schemas.validateUrlResponseSchema });
   }
 
   /** 清除项目上下文 (管理员) - 通过本地API路由代理以避免CORS问题 */
@@ -1364,12 +2077,28 @@ class ApiClient {
     return { message: 'Project context cleared successfully' };
   }
 
+  /** 获取项目最近若干天的 token 用量和成本 */
+  async getProjectUsage(projectId: string, days: number, signal?: AbortSignal): Promise<ProjectUsageResponse> {
+    return this.get(`/projects/${projectId}/usage`, { days: String(days) }, {
+      schema: schemas.projectUsageResponseSchema,
+      signal,
+    });
+  }
+
+  /** 设置项目的月度预算（null 取消预算） */
+  async updateProjectBudget(projectId: string, monthlyLimitUsd: number | null): Promise<ProjectBudget> {
+    return this.put(`/projects/${projectId}/usage/budget`, { monthlyLimitUsd }, {
+      schema: schemas.projectBudgetSchema,
+    });
+  }
+
   // ============ Playbooks API ============
 
   /** 获取 Playbooks 列表（按类别分组） */
   async getPlaybooks(options?: {
     category?: 'research' | 'build' | 'optimize' | 'monitor';
     active_only?: boolean;
+    signal?: AbortSignal;
   }): Promise<PlaybooksResponse> {
     const params: Record<string, string> = {};
     if (options?.category) {
@@ -1379,14 +2108,17 @@ class ApiClient {
     if (options?.active_only !== undefined) {
       params.active_only = String(options.active_only);
     }
-    return this.get<PlaybooksResponse>('/playbooks', Object.keys(params).length > 0 ? params : undefined);
+    return this.get('/playbooks', Object.keys(params).length > 0 ? params : undefined, {
+      schema: schemas.playbooksResponseSchema,
+      signal: options?.signal,
+    });
   }
 
   // ============ Content API (Block Editor) ============
 
   /** 获取结构化内容 */
   async getStructuredContent(itemId: string): Promise<ContentItemResponse> {
-    return this.get<ContentItemResponse>(`/content/${itemId}/structured`);
+    return this.get(`/content/${itemId}/structured`, undefined, { schema: schemas.contentItemResponseSchema });
   }
 
   /** 保存结构化内容 (全量更新) */
@@ -1401,7 +2133,7 @@ class ApiClient {
     if (expectedVersion !== undefined) {
       body.expected_version = expectedVersion;
     }
-    return this.put<SaveContentResponse>(`/content/${itemId}/structured`, body);
+    return this.put(`/content/${itemId}/structured`, body, { schema: schemas.saveContentResponseSchema });
   }
 
   /** 部分更新结构化内容 */
@@ -1415,7 +2147,7 @@ class ApiClient {
     if (expectedVersion !== undefined) {
       body.expected_version = expectedVersion;
     }
-    return this.patch<PatchContentResponse>(`/content/${itemId}/structured`, body);
+    return this.patch(`/content/${itemId}/structured`, body, { schema: schemas.patchContentResponseSchema });
   }
 
   /** 获取 HTML 预览 */
@@ -1439,7 +2171,9 @@ class ApiClient {
     itemId: string,
     sectionIndex: number
   ): Promise<PreviewSectionResponse> {
-    return this.get<PreviewSectionResponse>(`/content/${itemId}/preview/section/${sectionIndex}`);
+    return this.get(`/content/${itemId}/preview/section/${sectionIndex}`, undefined, {
+      schema: schemas.previewSectionResponseSchema,
+    });
   }
 
   /** 发布内容 */
@@ -1447,7 +2181,23 @@ class ApiClient {
     itemId: string,
     force: boolean = false
   ): Promise<PublishContentResponse> {
-    return this.post<PublishContentResponse>(`/content/${itemId}/publish`, { force });
+    return this.post(`/content/${itemId}/publish`, { force }, { schema: schemas.publishContentResponseSchema });
+  }
+
+  /** 获取内容的版本历史（每次保存、发布生成一个版本，按版本号降序） */
+  async getContentVersions(itemId: string, signal?: AbortSignal): Promise<ContentVersionsResponse> {
+    return this.get(`/content/${itemId}/versions`, undefined, {
+      schema: schemas.contentVersionsResponseSchema,
+      signal,
+    });
+  }
+
+  /** 获取某个版本的结构化内容 */
+  async getContentVersion(itemId: string, version: number, signal?: AbortSignal): Promise<ContentVersionResponse> {
+    return this.get(`/content/${itemId}/versions/${version}`, undefined, {
+      schema: schemas.contentVersionResponseSchema,
+      signal,
+    });
   }
 
   /** 创建内容项 */
@@ -1455,7 +2205,7 @@ class ApiClient {
     title: string;
     page_type: ContentPageType;
   }): Promise<ContentItemResponse> {
-    return this.post<ContentItemResponse>('/content', data);
+    return this.post('/content', data, { schema: schemas.contentItemResponseSchema });
   }
 
   /** 获取内容列表 */
@@ -1470,7 +2220,9 @@ class ApiClient {
     if (options?.status) params.status = options.status;
     if (options?.limit !== undefined) params.limit = String(options.limit);
     if (options?.offset !== undefined) params.offset = String(options.offset);
-    return this.get<ContentListResponse>('/content', Object.keys(params).length > 0 ? params : undefined);
+    return this.get('/content', Object.keys(params).length > 0 ? params : undefined, {
+      schema: schemas.contentListResponseSchema,
+    });
   }
 
   /** 删除内容项 */
@@ -1484,22 +2236,24 @@ class ApiClient {
   async getAllClusters(projectId?: string): Promise<TopicClusterListResponse> {
     const params: Record<string, string> = {};
     if (projectId) params.project_id = projectId;
-    return this.get<TopicClusterListResponse>(
-      '/content-library/clusters',
-      Object.keys(params).length > 0 ? params : undefined
-    );
+    return this.get('/content-library/clusters', Object.keys(params).length > 0 ? params : undefined, {
+      schema: schemas.topicClusterListResponseSchema,
+    });
   }
 
   /** 获取项目下的集群 */
-  async getProjectClusters(projectId: string): Promise<TopicClusterListResponse> {
-    return this.get<TopicClusterListResponse>(`/content-library/projects/${projectId}/clusters`);
+  async getProjectClusters(projectId: string, signal?: AbortSignal): Promise<TopicClusterListResponse> {
+    return this.get(`/content-library/projects/${projectId}/clusters`, undefined, {
+      schema: schemas.topicClusterListResponseSchema,
+      signal,
+    });
   }
 
   /** 获取集群详情 */
   async getClusterDetail(projectId: string, clusterId: string): Promise<TopicClusterResponse> {
-    return this.get<TopicClusterResponse>(
-      `/content-library/projects/${projectId}/clusters/${clusterId}`
-    );
+    return this.get(`/content-library/projects/${projectId}/clusters/${clusterId}`, undefined, {
+      schema: schemas.topicClusterSchema,
+    });
   }
 
   /** 获取所有内容项（跨项目） */
@@ -1512,16 +2266,16 @@ class ApiClient {
     if (params.limit !== undefined) searchParams.limit = String(params.limit);
     if (params.offset !== undefined) searchParams.offset = String(params.offset);
 
-    return this.get<ContentItemListResponse>(
-      '/content-library/items',
-      Object.keys(searchParams).length > 0 ? searchParams : undefined
-    );
+    return this.get('/content-library/items', Object.keys(searchParams).length > 0 ? searchParams : undefined, {
+      schema: schemas.contentItemListResponseSchema,
+    });
   }
 
   /** 获取项目下的内容项 */
   async getProjectItems(
     projectId: string,
-    params: Omit<ListItemsParams, 'projectId'> = {}
+    params: Omit<ListItemsParams, 'projectId'> = {},
+    signal?: AbortSignal
   ): Promise<ContentItemListResponse> {
     const searchParams: Record<string, string> = {};
     if (params.topicClusterId) searchParams.topic_cluster_id = params.topicClusterId;
@@ -1530,9 +2284,10 @@ class ApiClient {
     if (params.limit !== undefined) searchParams.limit = String(params.limit);
     if (params.offset !== undefined) searchParams.offset = String(params.offset);
 
-    return this.get<ContentItemListResponse>(
+    return this.get(
       `/content-library/projects/${projectId}/items`,
-      Object.keys(searchParams).length > 0 ? searchParams : undefined
+      Object.keys(searchParams).length > 0 ? searchParams : undefined,
+      { schema: schemas.contentItemListResponseSchema, signal }
     );
   }
 
@@ -1540,7 +2295,8 @@ class ApiClient {
   async getClusterItems(
     projectId: string,
     clusterId: string,
-    params: { status?: string; pageType?: string; limit?: number; offset?: number } = {}
+    params: { status?: string; pageType?: string; limit?: number; offset?: number } = {},
+    signal?: AbortSignal
   ): Promise<ContentItemListResponse> {
     const searchParams: Record<string, string> = {};
     if (params.status) searchParams.status = params.status;
@@ -1548,17 +2304,23 @@ class ApiClient {
     if (params.limit !== undefined) searchParams.limit = String(params.limit);
     if (params.offset !== undefined) searchParams.offset = String(params.offset);
 
-    return this.get<ContentItemListResponse>(
+    return this.get(
       `/content-library/projects/${projectId}/clusters/${clusterId}/items`,
-      Object.keys(searchParams).length > 0 ? searchParams : undefined
+      Object.keys(searchParams).length > 0 ? searchParams : undefined,
+      { schema: schemas.contentItemListResponseSchema, signal }
     );
   }
 
   /** 获取内容项详情 */
-  async getContentItemDetail(projectId: string, itemId: string): Promise<ContentItemDetailResponse> {
-    return this.get<ContentItemDetailResponse>(
-      `/content-library/projects/${projectId}/items/${itemId}`
-    );
+  async getContentItemDetail(
+    projectId: string,
+    itemId: string,
+    signal?: AbortSignal
+  ): Promise<ContentItemDetailResponse> {
+    return this.get(`/content-library/projects/${projectId}/items/${itemId}`, undefined, {
+      schema: schemas.contentItemDetailResponseSchema,
+      signal,
+    });
   }
 }
 
@@ -1633,6 +2395,60 @@ export interface ContextStatsResponse {
   };
 }
 
+/** /context/all 中的 item / person / entity 记录（键名已统一为 camelCase，其余字段原样保留） */
+export interface ContextAllRecord {
+  id?: string;
+  name?: string;
+  title?: string;
+  description?: string;
+  url?: string;
+  extra: Record<string, unknown>;
+  createdAt?: string;
+  /** 其他字段（随 section 不同） */
+  [key: string]: unknown;
+}
+
+/** /context/all 中的 onsite / offsite 分区 */
+export interface ContextAllSection {
+  /** singleton 数据（已解包 { data }，保留原始键名，与 getSingleton 一致），按 section 索引 */
+  singletons: Record<string, Record<string, unknown>>;
+  items: Record<string, ContextAllRecord[]>;
+  persons: Record<string, ContextAllRecord[]>;
+  entities: Record<string, ContextAllRecord[]>;
+}
+
+/** /context/all 中的知识库来源 */
+export interface ContextAllKnowledgeSource {
+  id?: string;
+  contextId?: string;
+  type?: string;
+  sourceType?: string;
+  filename?: string;
+  name?: string;
+  title?: string;
+  fileType?: string;
+  fileSize?: number;
+  chunkCount?: number;
+  status?: string;
+  errorMessage?: string;
+  createdAt?: string;
+  addedAt?: string;
+  downloadUrl?: string;
+  url?: string;
+}
+
+/** 所有 Context 数据响应 */
+export interface ContextAllResponse {
+  /** 品牌概要（brand / hero / contact），键名为 camelCase */
+  brand: Record<string, Record<string, unknown>>;
+  onsite: ContextAllSection;
+  offsite: ContextAllSection;
+  knowledge: {
+    sources: ContextAllKnowledgeSource[];
+    maxSize?: number;
+  };
+}
+
 /** Singleton 响应 */
 export interface ContextSingleton {
   user_id: string;
@@ -1796,7 +2612,7 @@ export interface OnboardingStatus {
     sitemapFiltered: number;
     headerLinks: number;
     footerLinks: number;
-    [key: string]: any;
+    [key: string]: number;
   };
   error?: string;
   researchInteractionId?: string;
@@ -1889,7 +2705,7 @@ export interface OnboardingSearchResult {
   section: string;
   title?: string;
   description?: string;
-  data: Record<string, any>;
+  data: Record<string, unknown>;
   relevance: number;
 }
 
@@ -1910,8 +2726,8 @@ export interface OnboardingSummary {
   brandName?: string;
   tagline?: string;
   description?: string;
-  onsite: Record<string, any>;
-  offsite: Record<string, any>;
+  onsite: Record<string, unknown>;
+  offsite: Record<string, unknown>;
   stats: Record<string, number>;
   researchReport?: string;
 }
@@ -1949,6 +2765,46 @@ export interface UpdateProjectRequest {
   settings?: Record<string, unknown>;
 }
 
+/** 项目每日用量 */
+export interface ProjectUsageDay {
+  /** 日期（YYYY-MM-DD，UTC） */
+  date: string;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  /** 成本（USD） */
+  cost: number;
+  callCount: number;
+}
+
+/** 项目按模型汇总的用量 */
+export interface ProjectModelUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  cost: number;
+  callCount: number;
+}
+
+/** 项目月度预算 */
+export interface ProjectBudget {
+  /** 每月预算（USD），null 表示不限制 */
+  monthlyLimitUsd: number | null;
+  /** 本月（UTC）已用成本 */
+  monthToDateCost: number;
+}
+
+/** 项目用量响应 */
+export interface ProjectUsageResponse {
+  /** 按日期升序，没有用量的日期也包含在内 */
+  days: ProjectUsageDay[];
+  byModel: ProjectModelUsage[];
+  budget: ProjectBudget;
+}
+
 /** URL 验证响应 */
 export interface ValidateUrlResponse {
   inputUrl: string;       // 原始输入
@@ -2102,6 +2958,31 @@ export interface PreviewSectionResponse {
   html: string;
 }
 
+/** 内容版本摘要 */
+export interface ContentVersionSummary {
+  content_version: number;
+  /** 生成该版本的操作 */
+  action: 'save' | 'publish';
+  /** agent: Agent 生成或重新生成；human: 用户在编辑器中保存 */
+  source: 'agent' | 'human';
+  /** 保存者（Agent 保存时为 null） */
+  author: { id: string; name: string } | null;
+  block_count: number;
+  created_at: string;
+}
+
+/** 内容版本历史响应 */
+export interface ContentVersionsResponse {
+  item_id: string;
+  versions: ContentVersionSummary[];
+}
+
+/** 内容版本详情响应 */
+export interface ContentVersionResponse extends ContentVersionSummary {
+  item_id: string;
+  structured_content: StructuredContentData;
+}
+
 // ============ Content Library 类型定义 (STRUCTURED_CONTENT_FRONTEND_GUIDE.md) ============
 
 /** Topic Cluster 响应 */
@@ -0,0 +1,176 @@
+/**
+ * API 请求策略：超时、重试与取消
+ *
+ * 由 ApiClient.request() 统一使用：
+ * - 每次尝试有独立超时，超时抛出 code 为 REQUEST_TIMEOUT 的 ApiError（不重试）
+ * - 429 / 5xx 和网络错误按退避策略重试，优先使用 Retry-After 响应头
+ * - 只重试幂等请求；POST / PATCH 需要携带 Idempotency-Key 才会重试
+ * - 调用方通过 AbortSignal 取消请求，取消抛出 AbortError（可用 isAbortError 判断）
+ */
+
+// ============ 类型定义 ============
+
+/** 全局请求策略（可被单次调用的选项覆盖） */
+export interface RequestPolicy {
+  /** 单次尝试的超时时间（毫秒），0 表示不限制 */
+  timeoutMs: number;
+  /** 最大重试次数（不含首次请求） */
+  retries: number;
+  /** 退避基础延迟（毫秒），按 2^n 递增并加入随机抖动 */
+  retryBaseDelayMs: number;
+  /** 单次重试的最长等待时间；Retry-After 超过该值时不再重试 */
+  maxRetryDelayMs: number;
+  /** 是否合并相同的并发 GET 请求 */
+  dedupeGets: boolean;
+}
+
+/** 默认请求策略 */
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30000,
+  retries: 2,
+  retryBaseDelayMs: 500,
+  maxRetryDelayMs: 10000,
+  dedupeGets: true,
+};
+
+/** 可重试的 HTTP 状态码 */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** 幂等的 HTTP 方法（无需 Idempotency-Key 即可重试） */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** 请求超时错误码 */
+export const REQUEST_TIMEOUT_CODE = 'REQUEST_TIMEOUT';
+
+// ============ 判断 ============
+
+/** 状态码是否可重试 */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/** 请求方法是否可以安全重试 */
+export function canRetryMethod(method: string, idempotencyKey?: string): boolean {
+  return IDEMPOTENT_METHODS.has(method) || Boolean(idempotencyKey);
+}
+
+/** 是否为取消错误（调用方 abort） */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as Error).name === 'AbortError';
+}
+
+/** 是否为请求超时错误 */
+export function isTimeoutError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === REQUEST_TIMEOUT_CODE;
+}
+
+// ============ 错误构造 ============
+
+/** 创建取消错误 */
+export function createAbortError(): Error {
+  return new DOMException('Request aborted', 'AbortError');
+}
+
+/** 创建超时错误 */
+function createTimeoutError(timeoutMs: number): Error & { code: string } {
+  const error = new Error(`Request timed out after ${timeoutMs}ms`) as Error & { code: string };
+  error.code = REQUEST_TIMEOUT_CODE;
+  return error;
+}
+
+// ============ 延迟计算 ============
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+/**
+ * 计算第 attempt 次重试前的退避延迟（指数退避 + 随机抖动）
+ */
+export function backoffDelay(attempt: number, policy: RequestPolicy): number {
+  const exponential = Math.min(policy.maxRetryDelayMs, policy.retryBaseDelayMs * 2 ** attempt);
+  return Math.round(exponential * (0.5 + Math.random() / 2));
+}
+
+// ============ 异步辅助 ============
+
+/**
+ * 等待指定时间，取消时立即抛出 AbortError
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 在超时和调用方取消的约束下执行一次尝试
+ * run 收到的 signal 在超时或调用方取消时触发；超时抛出 REQUEST_TIMEOUT 错误，取消抛出 AbortError
+ */
+export async function withTimeout<R>(
+  run: (signal: AbortSignal) => Promise<R>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<R> {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timeoutId = timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (timedOut) throw createTimeoutError(timeoutMs);
+    if (signal?.aborted) throw createAbortError();
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * 生成幂等键（同一次调用的所有重试共用）
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
@@ -0,0 +1,306 @@
+/**
+ * API 响应运行时校验
+ *
+ * 每个端点方法声明响应的 schema，由 ApiClient.request() 在解析 JSON 后统一校验：
+ * - 字段命名在这里统一规范化：按 schema 声明的字段名读取，缺失时回退到 snake_case / camelCase 的另一种写法，
+ *   输出始终使用声明的字段名；自由结构的数据（如 extra、singleton data）键名递归转换为 camelCase
+ * - 校验失败不中断请求：记录端点和字段路径，并派发 seenos:api_schema_mismatch 事件，返回尽量规范化后的数据
+ */
+
+// ============ 类型定义 ============
+
+/** 校验问题 */
+export interface SchemaIssue {
+  /** 字段路径，例如 items[0].createdAt */
+  path: string;
+  /** 期望的类型 */
+  expected: string;
+  /** 实际收到的类型 */
+  received: string;
+}
+
+/** schema 不匹配详情（seenos:api_schema_mismatch 事件的 detail） */
+export interface SchemaMismatch {
+  endpoint: string;
+  issues: SchemaIssue[];
+}
+
+/** 解析上下文 */
+interface ParseContext {
+  path: string;
+  issues: SchemaIssue[];
+}
+
+/** 响应 schema */
+export interface Schema<T> {
+  /** 期望类型描述（用于问题报告） */
+  readonly expected: string;
+  /** 校验并规范化数据，问题记录到 ctx.issues */
+  parse(value: unknown, ctx: ParseContext): T;
+}
+
+/** 从 schema 推导数据类型 */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** 对象字段 schema：必须覆盖接口的所有字段 */
+type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// ============ 命名规范化 ============
+
+/** snake_case → camelCase */
+export function toCamelCase(key: string): string {
+  return key.replace(/_+([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/** camelCase → snake_case */
+export function toSnakeCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * 递归将对象键名转换为 camelCase
+ */
+export function camelizeKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(camelizeKeys);
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[toCamelCase(key)] = camelizeKeys(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * 按声明的字段名读取值，缺失时回退到另一种命名写法
+ */
+function readField(obj: Record<string, unknown>, key: string): unknown {
+  if (obj[key] !== undefined) return obj[key];
+  const camel = toCamelCase(key);
+  if (camel !== key && obj[camel] !== undefined) return obj[camel];
+  const snake = toSnakeCase(key);
+  if (snake !== key && obj[snake] !== undefined) return obj[snake];
+  return undefined;
+}
+
+// ============ 辅助函数 ============
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function report(ctx: ParseContext, expected: string, value: unknown): void {
+  ctx.issues.push({ path: ctx.path || '(root)', expected, received: describe(value) });
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    parse(value, ctx) {
+      if (!check(value)) report(ctx, expected, value);
+      return value as T;
+    },
+  };
+}
+
+// ============ Schema 构造 ============
+
+export const schema = {
+  string: (): Schema<string> => primitive('string', (v) => typeof v === 'string'),
+
+  number: (): Schema<number> => primitive('number', (v) => typeof v === 'number' && !Number.isNaN(v)),
+
+  boolean: (): Schema<boolean> => primitive('boolean', (v) => typeof v === 'boolean'),
+
+  /** 任意值（不校验） */
+  unknown: <T = unknown>(): Schema<T> => primitive('unknown', () => true),
+
+  /** 枚举字面量 */
+  enumOf: <const V extends readonly (string | number)[]>(values: V): Schema<V[number]> =>
+    primitive(values.map((v) => JSON.stringify(v)).join(' | '), (v) => values.includes(v as V[number])),
+
+  /** 可选字段：undefined / null 返回 undefined */
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+    expected: `${inner.expected} | undefined`,
+    parse(value, ctx) {
+      if (value === undefined || value === null) return undefined;
+      return inner.parse(value, ctx);
+    },
+  }),
+
+  /** 可空字段：undefined / null 返回 null */
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    expected: `${inner.expected} | null`,
+    parse(value, ctx) {
+      if (value === undefined || value === null) return null;
+      return inner.parse(value, ctx);
+    },
+  }),
+
+  /** 缺失时使用默认值（不视为问题） */
+  withDefault: <T>(inner: Schema<T>, fallback: () => T): Schema<T> => ({
+    expected: inner.expected,
+    parse(value, ctx) {
+      if (value === undefined || value === null) return fallback();
+      return inner.parse(value, ctx);
+    },
+  }),
+
+  /** 数组：非数组时报告问题并返回空数组 */
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    expected: `${item.expected}[]`,
+    parse(value, ctx) {
+      if (!Array.isArray(value)) {
+        report(ctx, `${item.expected}[]`, value);
+        return [];
+      }
+      const parentPath = ctx.path;
+      const result = value.map((entry, index) => {
+        ctx.path = childPath(parentPath, index);
+        return item.parse(entry, ctx);
+      });
+      ctx.path = parentPath;
+      return result;
+    },
+  }),
+
+  /**
+   * 对象：按声明的字段读取（兼容 snake_case / camelCase），未声明的字段原样保留
+   */
+  object: <T>(shape: ObjectShape<T>): Schema<T> => ({
+    expected: 'object',
+    parse(value, ctx) {
+      if (!isPlainObject(value)) {
+        report(ctx, 'object', value);
+        return value as T;
+      }
+
+      const parentPath = ctx.path;
+      const result: Record<string, unknown> = {};
+      const consumed = new Set<string>();
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        consumed.add(key).add(toCamelCase(key)).add(toSnakeCase(key));
+        ctx.path = childPath(parentPath, key);
+        const parsed = shape[key].parse(readField(value, key), ctx);
+        if (parsed !== undefined) {
+          result[key] = parsed;
+        }
+      }
+      ctx.path = parentPath;
+
+      for (const [key, item] of Object.entries(value)) {
+        if (!consumed.has(key)) result[key] = item;
+      }
+      return result as T;
+    },
+  }),
+
+  /** 以任意字符串为键的对象（键名保持不变，如文件路径、section 名称） */
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+    expected: `Record<string, ${item.expected}>`,
+    parse(value, ctx) {
+      if (!isPlainObject(value)) {
+        report(ctx, `Record<string, ${item.expected}>`, value);
+        return {};
+      }
+      const parentPath = ctx.path;
+      const result: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        ctx.path = childPath(parentPath, key);
+        result[key] = item.parse(entry, ctx);
+      }
+      ctx.path = parentPath;
+      return result;
+    },
+  }),
+
+  /** 自由结构的对象：只校验是对象，内容原样保留 */
+  plainObject: <T = Record<string, unknown>>(): Schema<T> => ({
+    expected: 'object',
+    parse(value, ctx) {
+      if (!isPlainObject(value)) {
+        report(ctx, 'object', value);
+        return {} as T;
+      }
+      return value as T;
+    },
+  }),
+
+  /** 自由结构的对象：不校验字段，键名递归转换为 camelCase */
+  loose: <T = Record<string, unknown>>(): Schema<T> => ({
+    expected: 'object',
+    parse(value, ctx) {
+      if (!isPlainObject(value)) {
+        report(ctx, 'object', value);
+        return {} as T;
+      }
+      return camelizeKeys(value) as T;
+    },
+  }),
+
+  /** 联合类型：返回第一个没有问题的分支结果 */
+  union: <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> => ({
+    expected: `${a.expected} | ${b.expected}`,
+    parse(value, ctx) {
+      for (const candidate of [a, b] as Array<Schema<A | B>>) {
+        const trial: ParseContext = { path: ctx.path, issues: [] };
+        const parsed = candidate.parse(value, trial);
+        if (trial.issues.length === 0) return parsed;
+      }
+      report(ctx, `${a.expected} | ${b.expected}`, value);
+      return value as A | B;
+    },
+  }),
+
+  /** 校验前先转换原始数据（例如解包 { data } 包装） */
+  preprocess: <T>(transform: (value: unknown) => unknown, inner: Schema<T>): Schema<T> => ({
+    expected: inner.expected,
+    parse(value, ctx) {
+      return inner.parse(transform(value), ctx);
+    },
+  }),
+};
+
+// ============ 校验入口 ============
+
+/**
+ * 校验端点响应
+ * 问题只报告不抛出，避免后端字段变化导致页面不可用
+ */
+export function validateResponse<T>(endpoint: string, responseSchema: Schema<T>, data: unknown): T {
+  const ctx: ParseContext = { path: '', issues: [] };
+  const result = responseSchema.parse(data, ctx);
+
+  if (ctx.issues.length > 0) {
+    reportSchemaMismatch({ endpoint, issues: ctx.issues });
+  }
+  return result;
+}
+
+/**
+ * 报告响应与 schema 不匹配
+ */
+function reportSchemaMismatch(mismatch: SchemaMismatch): void {
+  const lines = mismatch.issues.map(
+    (issue) => `  ${issue.path}: expected ${issue.expected}, received ${issue.received}`
+  );
+  console.warn(`[ApiClient] Response schema mismatch for ${mismatch.endpoint}:\n${lines.join('\n')}`);
+
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent<SchemaMismatch>('seenos:api_schema_mismatch', { detail: mismatch }));
+  }
+}
@@ -0,0 +1,1091 @@
+/**
+ * API 端点响应 schema
+ * 与 client.ts 中的响应类型一一对应，由各端点方法传给 ApiClient.request() 做运行时校验
+ */
+
+import { schema, camelizeKeys, type Schema } from './schema';
+import type {
+  AgentConfig,
+  ApiPlaybook,
+  AuthMeResponse,
+  ContentItemDetailResponse,
+  ContentItemListResponse,
+  ContentItemResponse,
+  ContentItemSummary,
+  ContentListResponse,
+  ContentVersionResponse,
+  ContentVersionSummary,
+  ContentVersionsResponse,
+  ContextAllKnowledgeSource,
+  ContextAllRecord,
+  ContextAllResponse,
+  ContextAllSection,
+  ContextChunksResponse,
+  ContextContentResponse,
+  ContextEntitiesResponse,
+  ContextEntity,
+  ContextExtractionData,
+  ContextFile,
+  ContextItem,
+  ContextItemsResponse,
+  ContextListResponse,
+  ContextPerson,
+  ContextPersonsResponse,
+  ContextSearchResult,
+  ContextSingleton,
+  ContextStatsResponse,
+  Conversation,
+  ConversationBranch,
+  ConversationDetailResponse,
+  ConversationFile,
+  ConversationFolder,
+  ConversationListResponse,
+  ConversationOrganization,
+  ConversationOrganizationResponse,
+  ConversationSearchHit,
+  ConversationSearchResponse,
+  ConversationShare,
+  ConversationTag,
+  DeepResearchResponse,
+  DeepResearchResult,
+  EditMessageResponse,
+  FeedbackResponse,
+  LoginResponse,
+  Message,
+  MessageVariantSelection,
+  MessageVariantsResponse,
+  ModelOption,
+  ModelPricing,
+  OffsiteData,
+  OnboardingSearchResponse,
+  OnboardingSearchResult,
+  OnboardingStatus,
+  OnboardingSummary,
+  OnsiteData,
+  OrchestratorConfig,
+  PatchContentResponse,
+  PlaybookCategoryGroup,
+  PlaybooksResponse,
+  PresignedUploadResponse,
+  PreviewSectionResponse,
+  Project,
+  ProjectBudget,
+  ProjectListResponse,
+  ProjectModelUsage,
+  ProjectUsageDay,
+  ProjectUsageResponse,
+  ProviderModels,
+  PublishContentResponse,
+  RefreshTokenResponse,
+  RegisterResponse,
+  SaveContentResponse,
+  SharedConversationResponse,
+  StructuredContentData,
+  SubAgent,
+  SubagentSummary,
+  Todo,
+  ToolCall,
+  ToolOption,
+  TopicClusterListResponse,
+  TopicClusterResponse,
+  User,
+  UserSettings,
+  ValidateUrlResponse,
+} from './client';
+import type {
+  ContentBlock,
+  FailedTurnsResponse,
+  Message as AppMessage,
+  MessageContent,
+  ToolCall as AppToolCall,
+  TurnResponse,
+} from '@/app/types/types';
+
+const { string, number, boolean, optional, nullable, withDefault, array, object, record, plainObject } = schema;
+
+// ============ 认证 ============
+
+export const userSchema = object<User>({
+  id: string(),
+  email: string(),
+  name: nullable(string()),
+  avatar: nullable(string()),
+  created_at: string(),
+});
+
+export const userSettingsSchema = object<UserSettings>({
+  orchestratorModel: string(),
+  defaultSubagentModel: string(),
+  subagentModels: withDefault(record(string()), () => ({})),
+  enabledTools: withDefault(array(string()), () => []),
+  theme: schema.enumOf(['light', 'dark']),
+  contextEnabled: optional(boolean()),
+  contextMaxChunks: optional(number()),
+  contextSimilarityThreshold: optional(number()),
+  showTokenUsage: optional(boolean()),
+});
+
+export const loginResponseSchema = object<LoginResponse>({
+  token: string(),
+  sessionToken: optional(string()),
+  refreshToken: optional(string()),
+  user: userSchema,
+  settings: userSettingsSchema,
+});
+
+export const oauthLoginResponseSchema = object<LoginResponse & { isNewUser: boolean }>({
+  token: string(),
+  sessionToken: optional(string()),
+  refreshToken: optional(string()),
+  user: userSchema,
+  settings: userSettingsSchema,
+  isNewUser: withDefault(boolean(), () => false),
+});
+
+export const refreshTokenResponseSchema = object<RefreshTokenResponse>({
+  token: string(),
+  refreshToken: optional(string()),
+  sessionToken: optional(string()),
+});
+
+export const registerResponseSchema = object<RegisterResponse>({
+  success: withDefault(boolean(), () => true),
+  message: withDefault(string(), () => ''),
+});
+
+export const authMeResponseSchema = object<AuthMeResponse>({
+  user: userSchema,
+  settings: userSettingsSchema,
+  isAdmin: withDefault(boolean(), () => false),
+});
+
+// ============ 对话 ============
+
+const conversationStatusSchema = schema.enumOf(['idle', 'busy', 'interrupted', 'error']);
+
+export const conversationSchema = object<Conversation>({
+  cid: string(),
+  title: withDefault(string(), () => ''),
+  status: conversationStatusSchema,
+  messageCount: withDefault(number(), () => 0),
+  lastMessage: nullable(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+export const conversationListResponseSchema = object<ConversationListResponse>({
+  items: array(conversationSchema),
+  total: number(),
+  page: withDefault(number(), () => 1),
+  pageSize: withDefault(number(), () => 0),
+  hasMore: withDefault(boolean(), () => false),
+});
+
+export const createConversationResponseSchema = object<{ cid: string; conversation: Conversation }>({
+  cid: string(),
+  conversation: conversationSchema,
+});
+
+const conversationSearchHitSchema = object<ConversationSearchHit>({
+  cid: string(),
+  conversationTitle: withDefault(string(), () => ''),
+  conversationStatus: conversationStatusSchema,
+  messageId: nullable(string()),
+  role: nullable(schema.enumOf(['user', 'assistant', 'system', 'tool'])),
+  source: schema.enumOf(['message', 'tool_args', 'tool_result', 'file']),
+  toolName: nullable(string()),
+  filePath: nullable(string()),
+  snippet: string(),
+  highlights: withDefault(array(object<{ start: number; end: number }>({ start: number(), end: number() })), () => []),
+  createdAt: string(),
+});
+
+export const conversationSearchResponseSchema = object<ConversationSearchResponse>({
+  hits: withDefault(array(conversationSearchHitSchema), () => []),
+  total: withDefault(number(), () => 0),
+  nextCursor: nullable(string()),
+});
+
+export const conversationTagSchema = object<ConversationTag>({
+  id: string(),
+  name: string(),
+  color: withDefault(string(), () => 'gray'),
+});
+
+export const conversationFolderSchema = object<ConversationFolder>({
+  id: string(),
+  name: string(),
+  projectId: nullable(string()),
+});
+
+const conversationOrganizationSchema = object<ConversationOrganization>({
+  pinned: withDefault(boolean(), () => false),
+  archived: withDefault(boolean(), () => false),
+  tagIds: withDefault(array(string()), () => []),
+  folderId: nullable(string()),
+});
+
+export const conversationOrganizationResponseSchema = object<ConversationOrganizationResponse>({
+  tags: withDefault(array(conversationTagSchema), () => []),
+  folders: withDefault(array(conversationFolderSchema), () => []),
+  conversations: withDefault(record(conversationOrganizationSchema), () => ({})),
+});
+
+export const conversationShareSchema = object<ConversationShare>({
+  id: string(),
+  cid: string(),
+  token: string(),
+  createdAt: string(),
+  expiresAt: nullable(string()),
+  revokedAt: nullable(string()),
+  redactToolArgs: withDefault(boolean(), () => false),
+});
+
+export const conversationSharesResponseSchema = object<{ shares: ConversationShare[] }>({
+  shares: withDefault(array(conversationShareSchema), () => []),
+});
+
+export const sharedConversationResponseSchema = object<SharedConversationResponse>({
+  title: withDefault(string(), () => ''),
+  messages: withDefault(array(schema.unknown()), () => []),
+  todos: withDefault(array(schema.unknown()), () => []),
+  createdAt: string(),
+  expiresAt: nullable(string()),
+  redactToolArgs: withDefault(boolean(), () => false),
+});
+
+const toolCallSchema = object<ToolCall>({
+  id: string(),
+  name: string(),
+  args: withDefault(plainObject(), () => ({})),
+});
+
+export const messageSchema = object<Message>({
+  id: string(),
+  cid: string(),
+  role: schema.enumOf(['user', 'assistant', 'system', 'tool']),
+  content: nullable(string()),
+  metadata: nullable(plainObject()),
+  toolCalls: nullable(array(toolCallSchema)),
+  toolCallId: nullable(string()),
+  createdAt: string(),
+});
+
+export const todoSchema = object<Todo>({
+  id: string(),
+  content: string(),
+  status: schema.enumOf(['pending', 'in_progress', 'completed']),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+export const conversationBranchSchema = object<ConversationBranch>({
+  id: string(),
+  parentBranchId: nullable(string()),
+  forkedFromMessageId: nullable(string()),
+  rootMessageId: nullable(string()),
+  messageId: nullable(string()),
+  createdAt: string(),
+});
+
+const turnResponseSchema = object<TurnResponse>({
+  id: string(),
+  cid: string(),
+  userMessageId: nullable(string()),
+  assistantMessageId: nullable(string()),
+  userInputPreview: nullable(string()),
+  status: schema.enumOf(['pending', 'processing', 'completed', 'failed', 'cancelled']),
+  errorCode: nullable(
+    schema.enumOf([
+      'rate_limit',
+      'context_overflow',
+      'content_filter',
+      'auth_error',
+      'quota_exceeded',
+      'bad_request',
+      'internal_server_error',
+      'api_connection_error',
+      'api_timeout_error',
+      'database_error',
+      'unknown',
+    ])
+  ),
+  errorMessage: nullable(string()),
+  partialContent: nullable(string()),
+  contentPreserved: withDefault(boolean(), () => false),
+  retryCount: withDefault(number(), () => 0),
+  maxRetries: withDefault(number(), () => 3),
+  canRetry: withDefault(boolean(), () => false),
+  startedAt: string(),
+  completedAt: nullable(string()),
+  durationMs: nullable(number()),
+  tokensUsed: nullable(record(number())),
+  createdAt: string(),
+});
+
+export const failedTurnsResponseSchema = object<FailedTurnsResponse>({
+  turns: withDefault(array(turnResponseSchema), () => []),
+  retryableCount: withDefault(number(), () => 0),
+});
+
+export const editMessageResponseSchema = object<EditMessageResponse>({
+  branch: conversationBranchSchema,
+});
+
+export const conversationDetailResponseSchema = object<ConversationDetailResponse>({
+  cid: string(),
+  title: withDefault(string(), () => ''),
+  status: conversationStatusSchema,
+  messageCount: withDefault(number(), () => 0),
+  lastMessage: nullable(string()),
+  createdAt: string(),
+  updatedAt: string(),
+  messages: withDefault(array(messageSchema), () => []),
+  todos: withDefault(array(todoSchema), () => []),
+  // 文件内容可能是字符串或 FileItem 对象，由 stream 层统一处理
+  files: withDefault(record(schema.union(string(), schema.loose<ConversationFile>())), () => ({})),
+  branches: optional(array(conversationBranchSchema)),
+  activeBranchId: optional(string()),
+});
+
+/** 版本接口返回完整的前端消息结构（内容块、工具调用和 metadata） */
+const variantMessageSchema = object<AppMessage>({
+  id: string(),
+  cid: optional(string()),
+  role: schema.enumOf(['user', 'assistant', 'system', 'tool']),
+  contentBlocks: optional(array(plainObject<ContentBlock>())),
+  contentType: optional(schema.enumOf(['json', 'markdown', 'text', 'mixed'])),
+  blockCount: optional(number()),
+  toolCallCount: optional(number()),
+  fileRefCount: optional(number()),
+  subagentCount: optional(number()),
+  content: nullable(schema.union(string(), array(plainObject<MessageContent>()))),
+  createdAt: optional(string()),
+  updatedAt: optional(string()),
+  parentMessageId: optional(string()),
+  subagentName: optional(string()),
+  metadata: optional(plainObject<NonNullable<AppMessage['metadata']>>()),
+  toolCalls: optional(array(plainObject<AppToolCall>())),
+  tool_calls: optional(array(plainObject<NonNullable<AppMessage['tool_calls']>[number]>())),
+});
+
+export const messageVariantsResponseSchema = object<MessageVariantsResponse>({
+  variants: withDefault(array(variantMessageSchema), () => []),
+  canonicalId: string(),
+});
+
+export const messageVariantSelectionSchema = object<MessageVariantSelection>({
+  canonicalId: string(),
+});
+
+export const feedbackResponseSchema = object<FeedbackResponse>({
+  id: string(),
+  messageId: string(),
+  feedbackType: schema.enumOf(['like', 'dislike']),
+  reason: string(),
+  createdAt: string(),
+});
+
+// ============ 模型 / 工具 ============
+
+export const modelOptionSchema = object<ModelOption>({
+  id: string(),
+  name: string(),
+  provider: string(),
+  description: nullable(string()),
+  context_window: nullable(number()),
+  supports_vision: withDefault(boolean(), () => false),
+  supports_tools: withDefault(boolean(), () => false),
+  pricing: optional(
+    object<ModelPricing>({
+      input: number(),
+      output: number(),
+      cachedInput: nullable(number()),
+    })
+  ),
+});
+
+export const modelsResponseSchema = object<{ models: ModelOption[] }>({
+  models: array(modelOptionSchema),
+});
+
+export const providerModelsSchema = object<ProviderModels>({
+  providerId: string(),
+  providerName: string(),
+  icon: withDefault(string(), () => ''),
+  models: array(modelOptionSchema),
+});
+
+export const groupedModelsResponseSchema = object<{ providers: ProviderModels[] }>({
+  providers: array(providerModelsSchema),
+});
+
+export const defaultModelsSchema = object<{ orchestratorModel: string; defaultSubagentModel: string }>({
+  orchestratorModel: string(),
+  defaultSubagentModel: string(),
+});
+
+export const subAgentSchema = object<SubAgent>({
+  name: string(),
+  description: withDefault(string(), () => ''),
+  category: withDefault(string(), () => ''),
+  tools: withDefault(array(string()), () => []),
+  defaultModel: string(),
+});
+
+export const subAgentsResponseSchema = object<{ subagents: SubAgent[] }>({
+  subagents: array(subAgentSchema),
+});
+
+export const toolOptionSchema = object<ToolOption>({
+  id: string(),
+  name: string(),
+  displayName: optional(string()),
+  description: nullable(string()),
+  category: nullable(string()),
+  isEnabled: boolean(),
+  enabled: optional(boolean()),
+  settings: optional(nullable(plainObject<object>())),
+  usedByAgents: withDefault(array(string()), () => []),
+  usedByOrchestrator: withDefault(boolean(), () => false),
+});
+
+export const toolsResponseSchema = object<{ tools: ToolOption[] }>({
+  tools: array(toolOptionSchema),
+});
+
+// ============ 代理配置 ============
+
+export const agentConfigSchema = object<AgentConfig>({
+  name: string(),
+  description: withDefault(string(), () => ''),
+  modelId: string(),
+  systemPrompt: withDefault(string(), () => ''),
+  tools: withDefault(array(string()), () => []),
+  toolCount: withDefault(number(), () => 0),
+  isEnabled: boolean(),
+  category: withDefault(string(), () => ''),
+  isModelOverridden: withDefault(boolean(), () => false),
+  isPromptOverridden: withDefault(boolean(), () => false),
+  isToolsOverridden: withDefault(boolean(), () => false),
+  isDescriptionOverridden: withDefault(boolean(), () => false),
+});
+
+export const subagentSummarySchema = object<SubagentSummary>({
+  name: string(),
+  description: withDefault(string(), () => ''),
+  isEnabled: boolean(),
+  category: withDefault(string(), () => ''),
+  toolCount: withDefault(number(), () => 0),
+});
+
+export const orchestratorConfigSchema = object<OrchestratorConfig>({
+  modelId: string(),
+  systemPrompt: withDefault(string(), () => ''),
+  tools: withDefault(array(string()), () => []),
+  subagents: withDefault(array(subagentSummarySchema), () => []),
+  enabledSubagentCount: withDefault(number(), () => 0),
+  hasSubagents: withDefault(boolean(), () => false),
+  isModelOverridden: withDefault(boolean(), () => false),
+  isPromptOverridden: withDefault(boolean(), () => false),
+  isToolsOverridden: withDefault(boolean(), () => false),
+});
+
+export const defaultPromptsSchema = array(
+  object<{ name: string; content: string }>({
+    name: string(),
+    content: string(),
+  })
+);
+
+// ============ Context 文件 (RAG) ============
+
+export const contextFileSchema = object<ContextFile>({
+  id: string(),
+  filename: string(),
+  fileType: schema.enumOf(['txt', 'md', 'pdf', 'docx']),
+  fileSize: withDefault(number(), () => 0),
+  chunkCount: withDefault(number(), () => 0),
+  status: schema.enumOf(['pending', 'processing', 'ready', 'error']),
+  errorMessage: optional(string()),
+  createdAt: string(),
+  downloadUrl: optional(string()),
+});
+
+export const contextListResponseSchema = object<ContextListResponse>({
+  contexts: withDefault(array(contextFileSchema), () => []),
+  totalSize: withDefault(number(), () => 0),
+  maxSize: number(),
+});
+
+export const contextContentResponseSchema = object<ContextContentResponse>({
+  id: string(),
+  filename: string(),
+  fileType: string(),
+  content: withDefault(string(), () => ''),
+});
+
+export const contextChunksResponseSchema = object<ContextChunksResponse>({
+  id: string(),
+  filename: string(),
+  chunkCount: withDefault(number(), () => 0),
+  chunks: withDefault(array(object<{ index: number; content: string }>({ index: number(), content: string() })), () => []),
+});
+
+export const contextSearchResponseSchema = object<{ results: ContextSearchResult[] }>({
+  results: withDefault(
+    array(
+      object<ContextSearchResult>({
+        contextId: string(),
+        filename: string(),
+        chunkIndex: number(),
+        content: string(),
+        similarity: number(),
+      })
+    ),
+    () => []
+  ),
+});
+
+// ============ 上传 ============
+
+export const presignedUploadResponseSchema = object<PresignedUploadResponse>({
+  url: string(),
+  s3Key: string(),
+  fields: withDefault(record(string()), () => ({})),
+  publicUrl: optional(string()),
+  attachmentId: string(),
+});
+
+export const proxyUploadResponseSchema = object<{ s3Key: string; publicUrl?: string }>({
+  s3Key: string(),
+  publicUrl: optional(string()),
+});
+
+// ============ Context ============
+
+const contextCategorySchema = schema.enumOf(['onsite', 'offsite']);
+
+const contextStatsSectionSchema = object<ContextStatsResponse['onsite']>({
+  total: number(),
+  sections: withDefault(
+    record(object<{ count: number; has_data: boolean }>({ count: number(), has_data: boolean() })),
+    () => ({})
+  ),
+});
+
+export const contextStatsResponseSchema = object<ContextStatsResponse>({
+  onsite: contextStatsSectionSchema,
+  offsite: contextStatsSectionSchema,
+  knowledge: contextStatsSectionSchema,
+});
+
+export const contextSingletonSchema = object<ContextSingleton>({
+  user_id: string(),
+  section: string(),
+  data: withDefault(plainObject(), () => ({})),
+  version: withDefault(number(), () => 0),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: nullable(string()),
+});
+
+export const contextItemSchema = object<ContextItem>({
+  id: string(),
+  user_id: string(),
+  category: contextCategorySchema,
+  section: string(),
+  title: nullable(string()),
+  description: nullable(string()),
+  url: nullable(string()),
+  image_url: nullable(string()),
+  notes: nullable(string()),
+  extra: withDefault(plainObject(), () => ({})),
+  sequence: withDefault(number(), () => 0),
+  version: withDefault(number(), () => 1),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: nullable(string()),
+});
+
+export const contextItemsResponseSchema = object<ContextItemsResponse>({
+  items: array(contextItemSchema),
+  total: number(),
+  limit: number(),
+  offset: number(),
+  has_more: withDefault(boolean(), () => false),
+});
+
+const socialLinkSchema = object<{ platform: string; url: string }>({
+  platform: string(),
+  url: string(),
+});
+
+export const contextPersonSchema = object<ContextPerson>({
+  id: string(),
+  user_id: string(),
+  category: contextCategorySchema,
+  section: string(),
+  name: string(),
+  title: nullable(string()),
+  bio: nullable(string()),
+  photo_url: nullable(string()),
+  platform: nullable(string()),
+  handle: nullable(string()),
+  url: nullable(string()),
+  role: nullable(string()),
+  social_links: withDefault(array(socialLinkSchema), () => []),
+  notes: nullable(string()),
+  extra: withDefault(plainObject(), () => ({})),
+  sequence: withDefault(number(), () => 0),
+  version: withDefault(number(), () => 1),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: nullable(string()),
+});
+
+export const contextPersonsResponseSchema = object<ContextPersonsResponse>({
+  items: array(contextPersonSchema),
+  total: number(),
+  limit: number(),
+  offset: number(),
+  has_more: withDefault(boolean(), () => false),
+});
+
+export const contextEntitySchema = object<ContextEntity>({
+  id: string(),
+  user_id: string(),
+  category: contextCategorySchema,
+  section: string(),
+  name: string(),
+  platform: nullable(string()),
+  handle: nullable(string()),
+  url: nullable(string()),
+  entity_type: nullable(string()),
+  event_date: nullable(string()),
+  location: nullable(string()),
+  notes: nullable(string()),
+  extra: withDefault(plainObject(), () => ({})),
+  sequence: withDefault(number(), () => 0),
+  version: withDefault(number(), () => 1),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: nullable(string()),
+});
+
+export const contextEntitiesResponseSchema = object<ContextEntitiesResponse>({
+  items: array(contextEntitySchema),
+  total: number(),
+  limit: number(),
+  offset: number(),
+  has_more: withDefault(boolean(), () => false),
+});
+
+export const bulkDeleteResponseSchema = object<{ deleted: number; failed: string[] }>({
+  deleted: withDefault(number(), () => 0),
+  failed: withDefault(array(string()), () => []),
+});
+
+// ============ Context 汇总（/context/all） ============
+
+/**
+ * singleton 可能是 { data, version, ... } 包装，也可能直接是数据
+ */
+function unwrapSingleton(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'data' in value) {
+    return (value as { data: unknown }).data;
+  }
+  return value;
+}
+
+/** /context/all 的记录：整体键名转换为 camelCase 后校验 */
+const contextAllRecordSchema: Schema<ContextAllRecord> = schema.preprocess(
+  camelizeKeys,
+  object<ContextAllRecord>({
+    id: optional(string()),
+    name: optional(string()),
+    title: optional(string()),
+    description: optional(string()),
+    url: optional(string()),
+    extra: withDefault(plainObject(), () => ({})),
+    createdAt: optional(string()),
+  })
+);
+
+const contextAllRecordsSchema = withDefault(record(array(contextAllRecordSchema)), () => ({}));
+
+const contextAllSectionSchema = object<ContextAllSection>({
+  // singleton data 是前端写入的自由结构，保留原始键名（与 contextSingletonSchema 一致，可原样写回）
+  singletons: withDefault(record(schema.preprocess(unwrapSingleton, plainObject())), () => ({})),
+  items: contextAllRecordsSchema,
+  persons: contextAllRecordsSchema,
+  entities: contextAllRecordsSchema,
+});
+
+const contextAllKnowledgeSourceSchema: Schema<ContextAllKnowledgeSource> = schema.preprocess(
+  camelizeKeys,
+  object<ContextAllKnowledgeSource>({
+    id: optional(string()),
+    contextId: optional(string()),
+    type: optional(string()),
+    sourceType: optional(string()),
+    filename: optional(string()),
+    name: optional(string()),
+    title: optional(string()),
+    fileType: optional(string()),
+    fileSize: optional(number()),
+    chunkCount: optional(number()),
+    status: optional(string()),
+    errorMessage: optional(string()),
+    createdAt: optional(string()),
+    addedAt: optional(string()),
+    downloadUrl: optional(string()),
+    url: optional(string()),
+  })
+);
+
+const emptySection = (): ContextAllSection => ({ singletons: {}, items: {}, persons: {}, entities: {} });
+
+export const contextAllResponseSchema = object<ContextAllResponse>({
+  brand: withDefault(record(schema.loose()), () => ({})),
+  onsite: withDefault(contextAllSectionSchema, emptySection),
+  offsite: withDefault(contextAllSectionSchema, emptySection),
+  knowledge: withDefault(
+    object<ContextAllResponse['knowledge']>({
+      sources: withDefault(array(contextAllKnowledgeSourceSchema), () => []),
+      maxSize: optional(number()),
+    }),
+    () => ({ sources: [] })
+  ),
+});
+
+// ============ Onboarding ============
+
+const researchStatusSchema = schema.enumOf(['pending', 'running', 'completed', 'failed']);
+
+export const onboardingStatusSchema = object<OnboardingStatus>({
+  status: schema.enumOf(['not_started', 'in_progress', 'researching', 'completed', 'failed']),
+  currentStep: optional(string()),
+  completedSteps: withDefault(array(string()), () => []),
+  message: optional(string()),
+  navigationStats: optional(
+    object<NonNullable<OnboardingStatus['navigationStats']>>({
+      sitemapTotal: withDefault(number(), () => 0),
+      sitemapFiltered: withDefault(number(), () => 0),
+      headerLinks: withDefault(number(), () => 0),
+      footerLinks: withDefault(number(), () => 0),
+    })
+  ),
+  error: optional(string()),
+  researchInteractionId: optional(string()),
+  researchStatus: optional(researchStatusSchema),
+  researchUrl: optional(string()),
+  // 研究结果是 Agent 生成的自由结构，键名统一为 camelCase
+  researchData: optional(schema.loose<ContextExtractionData>()),
+  startedAt: optional(string()),
+  completedAt: optional(string()),
+  lastUpdatedAt: optional(string()),
+});
+
+export const deepResearchResponseSchema = object<DeepResearchResponse>({
+  interactionId: string(),
+  status: string(),
+  message: optional(string()),
+  stage: optional(string()),
+});
+
+export const deepResearchResultSchema = object<DeepResearchResult>({
+  interactionId: string(),
+  status: string(),
+  onsite: optional(schema.loose<OnsiteData>()),
+  offsite: optional(schema.loose<OffsiteData>()),
+  citations: withDefault(
+    array(
+      object<DeepResearchResult['citations'][number]>({
+        title: withDefault(string(), () => ''),
+        url: string(),
+        snippet: optional(string()),
+      })
+    ),
+    () => []
+  ),
+  error: optional(string()),
+});
+
+const onboardingSearchResultSchema = object<OnboardingSearchResult>({
+  id: string(),
+  type: schema.enumOf(['singleton', 'item', 'person', 'entity']),
+  category: string(),
+  section: string(),
+  title: optional(string()),
+  description: optional(string()),
+  data: withDefault(plainObject(), () => ({})),
+  relevance: withDefault(number(), () => 0),
+});
+
+export const onboardingSearchResponseSchema = object<OnboardingSearchResponse>({
+  status: onboardingStatusSchema,
+  query: optional(string()),
+  scope: string(),
+  totalResults: withDefault(number(), () => 0),
+  results: withDefault(array(onboardingSearchResultSchema), () => []),
+  onsite: withDefault(record(array(onboardingSearchResultSchema)), () => ({})),
+  offsite: withDefault(record(array(onboardingSearchResultSchema)), () => ({})),
+});
+
+export const onboardingSummarySchema = object<OnboardingSummary>({
+  status: onboardingStatusSchema,
+  brandName: optional(string()),
+  tagline: optional(string()),
+  description: optional(string()),
+  onsite: withDefault(plainObject(), () => ({})),
+  offsite: withDefault(plainObject(), () => ({})),
+  stats: withDefault(record(number()), () => ({})),
+  researchReport: optional(string()),
+});
+
+export const statusMessageSchema = object<{ status: string; message: string }>({
+  status: string(),
+  message: withDefault(string(), () => ''),
+});
+
+// ============ 项目 ============
+
+export const projectSchema = object<Project>({
+  id: string(),
+  name: string(),
+  domain: optional(string()),
+  websiteUrl: string(),
+  settings: optional(plainObject()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+export const projectListResponseSchema = object<ProjectListResponse>({
+  projects: array(projectSchema),
+  total: number(),
+});
+
+export const validateUrlResponseSchema = object<ValidateUrlResponse>({
+  inputUrl: string(),
+  normalizedUrl: string(),
+  isValid: boolean(),
+  reachable: withDefault(boolean(), () => false),
+  statusCode: withDefault(number(), () => 0),
+  finalUrl: withDefault(string(), () => ''),
+  error: optional(string()),
+});
+
+const usageCountsFields = {
+  promptTokens: withDefault(number(), () => 0),
+  completionTokens: withDefault(number(), () => 0),
+  cachedTokens: withDefault(number(), () => 0),
+  totalTokens: withDefault(number(), () => 0),
+  cost: withDefault(number(), () => 0),
+  callCount: withDefault(number(), () => 0),
+};
+
+const projectUsageDaySchema = object<ProjectUsageDay>({ date: string(), ...usageCountsFields });
+
+const projectModelUsageSchema = object<ProjectModelUsage>({ model: string(), ...usageCountsFields });
+
+export const projectBudgetSchema = object<ProjectBudget>({
+  monthlyLimitUsd: nullable(number()),
+  monthToDateCost: withDefault(number(), () => 0),
+});
+
+export const projectUsageResponseSchema = object<ProjectUsageResponse>({
+  days: withDefault(array(projectUsageDaySchema), () => []),
+  byModel: withDefault(array(projectModelUsageSchema), () => []),
+  budget: withDefault(projectBudgetSchema, () => ({ monthlyLimitUsd: null, monthToDateCost: 0 })),
+});
+
+// ============ Playbooks ============
+
+const apiPlaybookSchema = object<ApiPlaybook>({
+  id: string(),
+  skill_id: string(),
+  name: string(),
+  description: withDefault(string(), () => ''),
+  difficulty: withDefault(string(), () => ''),
+  tags: withDefault(array(string()), () => []),
+  auto_actions: withDefault(array(string()), () => []),
+  artifacts: withDefault(array(string()), () => []),
+  has_configure: withDefault(boolean(), () => false),
+  category: string(),
+});
+
+export const playbooksResponseSchema = object<PlaybooksResponse>({
+  categories: withDefault(
+    array(
+      object<PlaybookCategoryGroup>({
+        category: string(),
+        category_name: string(),
+        playbooks: withDefault(array(apiPlaybookSchema), () => []),
+      })
+    ),
+    () => []
+  ),
+});
+
+// ============ 内容 (Block Editor) ============
+
+const contentPageTypeSchema = schema.enumOf(['listicle', 'comparison', 'guide', 'landing', 'blog']);
+
+export const contentItemResponseSchema = object<ContentItemResponse>({
+  item_id: string(),
+  title: withDefault(string(), () => ''),
+  page_type: contentPageTypeSchema,
+  status: schema.enumOf(['draft', 'published', 'archived']),
+  content_version: withDefault(number(), () => 0),
+  // Block 结构由编辑器按类型解释，这里只校验外层
+  structured_content: plainObject<StructuredContentData>(),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const contentListResponseSchema = object<ContentListResponse>({
+  items: withDefault(array(contentItemResponseSchema), () => []),
+  total: withDefault(number(), () => 0),
+  page: withDefault(number(), () => 1),
+  page_size: withDefault(number(), () => 0),
+  has_more: withDefault(boolean(), () => false),
+});
+
+export const saveContentResponseSchema = object<SaveContentResponse>({
+  success: withDefault(boolean(), () => true),
+  item_id: string(),
+  content_version: number(),
+  updated_at: string(),
+});
+
+export const patchContentResponseSchema = object<PatchContentResponse>({
+  success: withDefault(boolean(), () => true),
+  path: string(),
+  content_version: number(),
+});
+
+export const publishContentResponseSchema = object<PublishContentResponse>({
+  success: withDefault(boolean(), () => true),
+  item_id: string(),
+  status: schema.enumOf(['published']),
+  html_length: withDefault(number(), () => 0),
+  published_at: string(),
+  validation_warnings: withDefault(array(string()), () => []),
+});
+
+export const previewSectionResponseSchema = object<PreviewSectionResponse>({
+  section_index: number(),
+  block_type: schema.enumOf([
+    'intro',
+    'product_card',
+    'comparison_row',
+    'step',
+    'feature',
+    'text_section',
+    'blog_section',
+    'conclusion',
+    'image',
+    'video',
+    'quote',
+    'call_to_action',
+    'hero',
+    'testimonial',
+    'pricing',
+    'faq',
+  ]),
+  html: withDefault(string(), () => ''),
+});
+
+// ============ 内容版本 ============
+
+const contentVersionFields = {
+  content_version: number(),
+  action: withDefault(schema.enumOf(['save', 'publish']), () => 'save' as const),
+  source: withDefault(schema.enumOf(['agent', 'human']), () => 'human' as const),
+  author: withDefault(nullable(object<{ id: string; name: string }>({ id: string(), name: string() })), () => null),
+  block_count: withDefault(number(), () => 0),
+  created_at: string(),
+};
+
+const contentVersionSummarySchema = object<ContentVersionSummary>(contentVersionFields);
+
+export const contentVersionsResponseSchema = object<ContentVersionsResponse>({
+  item_id: string(),
+  versions: withDefault(array(contentVersionSummarySchema), () => []),
+});
+
+export const contentVersionResponseSchema = object<ContentVersionResponse>({
+  ...contentVersionFields,
+  item_id: string(),
+  // Block 结构由编辑器按类型解释，这里只校验外层
+  structured_content: plainObject<StructuredContentData>(),
+});
+
+// ============ 内容库 ============
+
+export const topicClusterSchema = object<TopicClusterResponse>({
+  id: string(),
+  user_id: string(),
+  project_id: string(),
+  name: string(),
+  description: nullable(string()),
+  status: schema.enumOf(['draft', 'active', 'completed']),
+  item_count: withDefault(number(), () => 0),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const topicClusterListResponseSchema = object<TopicClusterListResponse>({
+  clusters: withDefault(array(topicClusterSchema), () => []),
+  total: withDefault(number(), () => 0),
+});
+
+const contentItemSummarySchema = object<ContentItemSummary>({
+  id: string(),
+  title: withDefault(string(), () => ''),
+  slug: withDefault(string(), () => ''),
+  page_type: contentPageTypeSchema,
+  target_keyword: withDefault(string(), () => ''),
+  status: schema.enumOf(['draft', 'ready', 'in_progress', 'review', 'published']),
+  priority: withDefault(number(), () => 3),
+  estimated_word_count: nullable(number()),
+  topic_cluster_id: nullable(string()),
+  topic_cluster_name: nullable(string()),
+  project_id: string(),
+  project_name: nullable(string()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const contentItemListResponseSchema = object<ContentItemListResponse>({
+  items: withDefault(array(contentItemSummarySchema), () => []),
+  total: withDefault(number(), () => 0),
+});
+
+export const contentItemDetailResponseSchema = object<ContentItemDetailResponse>({
+  id: string(),
+  user_id: string(),
+  project_id: string(),
+  topic_cluster_id: nullable(string()),
+  conversation_id: nullable(string()),
+  title: withDefault(string(), () => ''),
+  slug: withDefault(string(), () => ''),
+  page_type: contentPageTypeSchema,
+  target_keyword: withDefault(string(), () => ''),
+  seo_title: nullable(string()),
+  seo_description: nullable(string()),
+  outline: nullable(plainObject()),
+  keyword_data: nullable(plainObject()),
+  serp_insights: nullable(plainObject()),
+  reference_urls: nullable(array(string())),
+  internal_links: nullable(array(plainObject())),
+  estimated_word_count: nullable(number()),
+  priority: withDefault(number(), () => 3),
+  status: string(),
+  notes: nullable(string()),
+  generated_content: nullable(string()),
+  topic_cluster_name: nullable(string()),
+  created_at: string(),
+  updated_at: string(),
+});
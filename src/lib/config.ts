@@ -289,3 +289,87 @@ export function getAuthScheme(provider: ApiProvider): string {
       return "openai";
   }
 }
+
+// ============ Mock backend ============
+
+// Local stand-in for the REST API and WebSocket/SSE server (offline development, end-to-end tests)
+export interface MockBackendConfig {
+  enabled: boolean;
+  // Scenario replayed when a message is sent (see src/lib/mock/scenarios.ts)
+  scenario: string;
+  // Simulated latency for REST responses (ms)
+  latencyMs: number;
+}
+
+const MOCK_BACKEND_KEY = "seenos_mock_backend";
+
+const DEFAULT_MOCK_BACKEND_CONFIG: MockBackendConfig = {
+  enabled: process.env.NEXT_PUBLIC_MOCK_BACKEND === "true" || process.env.NEXT_PUBLIC_MOCK_BACKEND === "1",
+  scenario: process.env.NEXT_PUBLIC_MOCK_SCENARIO || "basic",
+  latencyMs: Number(process.env.NEXT_PUBLIC_MOCK_LATENCY_MS) || 150,
+};
+
+// Environment variables provide the defaults; localStorage overrides them (lets tests switch scenarios without a rebuild).
+// Development builds only: the mock replaces fetch/WebSocket and is not bundled into production builds
+export function getMockBackendConfig(): MockBackendConfig {
+  if (process.env.NODE_ENV === "production") return { ...DEFAULT_MOCK_BACKEND_CONFIG, enabled: false };
+  if (typeof window === "undefined") return DEFAULT_MOCK_BACKEND_CONFIG;
+
+  const stored = localStorage.getItem(MOCK_BACKEND_KEY);
+  if (!stored) return DEFAULT_MOCK_BACKEND_CONFIG;
+
+  try {
+    return { ...DEFAULT_MOCK_BACKEND_CONFIG, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_MOCK_BACKEND_CONFIG;
+  }
+}
+
+// Pass null to drop the override and fall back to the environment defaults (takes effect on next page load)
+export function saveMockBackendConfig(config: Partial<MockBackendConfig> | null): void {
+  if (typeof window === "undefined") return;
+  if (config) {
+    localStorage.setItem(MOCK_BACKEND_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(MOCK_BACKEND_KEY);
+  }
+}
+
+// ============ Stream recorder ============
+
+// Opt-in capture of raw stream events per conversation, replayed in the stream debugger (Ctrl+Shift+E)
+export interface StreamRecorderConfig {
+  enabled: boolean;
+  // Events kept per conversation; the oldest are dropped once the limit is reached
+  maxEvents: number;
+}
+
+const STREAM_RECORDER_KEY = "seenos_stream_recorder";
+
+const DEFAULT_STREAM_RECORDER_CONFIG: StreamRecorderConfig = {
+  enabled: process.env.NEXT_PUBLIC_STREAM_RECORDER === "true" || process.env.NEXT_PUBLIC_STREAM_RECORDER === "1",
+  maxEvents: 5000,
+};
+
+export function getStreamRecorderConfig(): StreamRecorderConfig {
+  if (typeof window === "undefined") return DEFAULT_STREAM_RECORDER_CONFIG;
+
+  const stored = localStorage.getItem(STREAM_RECORDER_KEY);
+  if (!stored) return DEFAULT_STREAM_RECORDER_CONFIG;
+
+  try {
+    return { ...DEFAULT_STREAM_RECORDER_CONFIG, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_STREAM_RECORDER_CONFIG;
+  }
+}
+
+// Pass null to drop the override and fall back to the environment defaults
+export function saveStreamRecorderConfig(config: Partial<StreamRecorderConfig> | null): void {
+  if (typeof window === "undefined") return;
+  if (config) {
+    localStorage.setItem(STREAM_RECORDER_KEY, JSON.stringify({ ...getStreamRecorderConfig(), ...config }));
+  } else {
+    localStorage.removeItem(STREAM_RECORDER_KEY);
+  }
+}
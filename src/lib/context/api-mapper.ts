@@ -1,59 +1,60 @@
 // 数据转换：将 Context API 响应格式转换为 ContextData 格式
 
 import { v4 as uuidv4 } from 'uuid';
-import type { ContextData, OnSiteContext, OffSiteContext, KnowledgeContext } from '@/app/types/context';
+import type {
+  ContextData,
+  OnSiteContext,
+  OffSiteContext,
+  KnowledgeContext,
+  LandingPage,
+  OfficialAccount,
+  PressRelease,
+  WebsiteContent,
+} from '@/app/types/context';
+import type { ContextAllResponse } from '@/lib/api/client';
 
-// API 响应类型
-interface ContextApiResponse {
-  brand?: {
-    brand?: { brand_name?: string; tagline?: string };
-    hero?: { headline?: string; subheadline?: string };
-    contact?: { email?: string; phone?: string; address?: string };
-  };
-  onsite?: {
-    singletons?: Record<string, any>;
-    items?: Record<string, any[]>;
-    persons?: Record<string, any[]>;
-  };
-  offsite?: {
-    singletons?: Record<string, any>;
-    items?: Record<string, any[]>;
-    persons?: Record<string, any[]>;
-    entities?: Record<string, any[]>;
-  };
-}
+/** 自由结构的原始数据 */
+type RawRecord = Record<string, unknown>;
 
 /**
  * 将 Context API 响应转换为 ContextData 格式
+ * 响应已由 contextAllResponseSchema 规范化：记录键名统一为 camelCase；singleton 已解包但保留原始键名，
+ * 历史数据可能是 camelCase 或 snake_case，读取时两种都要兼容
  */
-export function mapApiResponseToContextData(apiResponse: ContextApiResponse): ContextData {
-  const { brand = {}, onsite = {}, offsite = {} } = apiResponse;
+export function mapApiResponseToContextData(apiResponse: ContextAllResponse): ContextData {
+  const { brand, onsite, offsite } = apiResponse;
 
   // ============ Helpers ============
-  // 后端返回的 singleton 可能是 { data: {...}, version: ... } 或者直接是 {...}
-  const unwrapSingleton = (v: any) => {
-    if (!v || typeof v !== "object") return v;
-    if ("data" in v) return (v as any).data;
-    return v;
-  };
+  const getOnsiteSingleton = (section: string): RawRecord => onsite.singletons[section] || {};
+  const getOffsiteSingleton = (section: string): RawRecord => offsite.singletons[section] || {};
 
-  const getOnsiteSingleton = (section: string) =>
-    unwrapSingleton((onsite as any).singletons?.[section]) || {};
-  const getOffsiteSingleton = (section: string) =>
-    unwrapSingleton((offsite as any).singletons?.[section]) || {};
+  const asRecord = (v: unknown): RawRecord =>
+    v && typeof v === "object" && !Array.isArray(v) ? (v as RawRecord) : {};
+  const asArray = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
 
-  const ensureString = (v: any): string => (typeof v === "string" ? v : v == null ? "" : String(v));
-  const ensureStringArray = (v: any): string[] =>
+  const ensureString = (v: unknown): string => (typeof v === "string" ? v : v == null ? "" : String(v));
+  const ensureOptionalString = (v: unknown): string | undefined => ensureString(v) || undefined;
+  const ensureStringArray = (v: unknown): string[] =>
     Array.isArray(v) ? v.filter((x) => typeof x === "string").map((x) => x.trim()).filter(Boolean) : [];
 
+  // 字符串直接使用，对象取第一个非空的候选字段
+  const labelOf = (v: unknown, keys: string[]): string => {
+    if (typeof v === "string") return v;
+    const record = asRecord(v);
+    for (const key of keys) {
+      if (record[key]) return ensureString(record[key]);
+    }
+    return "";
+  };
+
   // Helper function to get field value from multiple possible paths (supports camelCase, snake_case, nested, flat)
-  const getFieldValue = (obj: any, paths: string[]): string => {
+  const getFieldValue = (obj: unknown, paths: string[]): string => {
     for (const path of paths) {
       const parts = path.split('.');
-      let value: any = obj;
+      let value: unknown = obj;
       for (const part of parts) {
         if (value == null) break;
-        value = value[part];
+        value = asRecord(value)[part];
       }
       if (value != null && value !== "") {
         return ensureString(value);
@@ -62,7 +63,7 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
     return "";
   };
 
-  const normalizeReviewPlatform = (platformOrName: any, profileUrl?: any): string => {
+  const normalizeReviewPlatform = (platformOrName: unknown, profileUrl?: unknown): string => {
     const raw = ensureString(platformOrName).trim();
     const rawLower = raw.toLowerCase();
     const urlLower = ensureString(profileUrl).toLowerCase();
@@ -112,27 +113,26 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
   // data.json / 部分后端字段兼容：
   // brand.brand.brandName 可能是 string，也可能是 { name, subtitle }
   const brandNameFromAssets =
-    typeof brandAssetsSingleton?.brandName === "string"
+    typeof brandAssetsSingleton.brandName === "string"
       ? brandAssetsSingleton.brandName
-      : brandAssetsSingleton?.brandName?.name;
+      : asRecord(brandAssetsSingleton.brandName).name;
 
   const brandNameFromBrand =
-    (brand as any)?.brand?.brand_name ||
-    (brand as any)?.brand?.brandName ||
-    (brand as any)?.brand?.name;
+    brand.brand?.brandName ||
+    brand.brand?.name;
 
   const brandTaglineFromBrand =
-    (brand as any)?.brand?.tagline ||
-    (brand as any)?.brand?.brandSubtitle ||
-    (brand as any)?.hero?.subheadline;
+    brand.brand?.tagline ||
+    brand.brand?.brandSubtitle ||
+    brand.hero?.subheadline;
 
   const heroHeadline =
-    ensureString((brand as any)?.hero?.headline) ||
+    ensureString(brand.hero?.headline) ||
     ensureString(heroSectionSingleton?.headline) ||
     ensureString(getOnsiteSingleton("hero_headline")?.headline);
 
   const heroSubheadline =
-    ensureString((brand as any)?.hero?.subheadline) ||
+    ensureString(brand.hero?.subheadline) ||
     ensureString(heroSectionSingleton?.subheadline) ||
     ensureString(getOnsiteSingleton("hero_subheadline")?.subheadline);
   
@@ -143,43 +143,46 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
       tagline: ensureString(brandTaglineFromBrand || heroSubheadline),
       mission: ensureString(getOnsiteSingleton("about_us")?.mission),
       vision: ensureString(getOnsiteSingleton("about_us")?.vision),
-      coreValues: Array.isArray(getOnsiteSingleton("about_us")?.coreValues) ? getOnsiteSingleton("about_us").coreValues : [],
+      coreValues: ensureStringArray(getOnsiteSingleton("about_us").coreValues),
       foundingStory: ensureString(getOnsiteSingleton("about_us")?.companyStory),
       uniqueSellingPoints: heroHeadline ? [heroHeadline] : [],
     },
     brandAssets: [],
-    productsServices: (onsite.items?.products_services || []).map((item: any) => ({
+    productsServices: (onsite.items.products_services || []).map((item) => ({
       id: uuidv4(),
       name: item.title || item.name || "",
       type: "product" as const,
       url: item.url || undefined,
       description: item.description || "",
-      features: (item.extra?.features || item.features || []).map((f: any) => typeof f === 'string' ? f : f.name || f.title || f),
-      benefits: (item.extra?.benefits || item.benefits || []).map((b: any) => typeof b === 'string' ? b : b.name || b.title || b),
-      howItWorks: (item.extra?.how_it_works || item.howItWorks || []).map((h: any) => typeof h === 'string' ? h : h.name || h.title || h),
-      pricingPlans: (item.extra?.pricing_plans || item.pricingPlans || []).map((p: any) => ({
-        name: p.name || "",
-        price: p.price || "",
-        features: (p.features || []).map((f: any) => typeof f === 'string' ? f : f.name || f.title || f),
-      })),
+      features: asArray(item.extra.features || item.features).map((f) => labelOf(f, ["name", "title"])),
+      benefits: asArray(item.extra.benefits || item.benefits).map((b) => labelOf(b, ["name", "title"])),
+      howItWorks: asArray(item.extra.howItWorks || item.howItWorks).map((h) => labelOf(h, ["name", "title"])),
+      pricingPlans: asArray(item.extra.pricingPlans || item.pricingPlans).map((plan) => {
+        const p = asRecord(plan);
+        return {
+          name: ensureString(p.name),
+          price: ensureString(p.price),
+          features: asArray(p.features).map((f) => labelOf(f, ["name", "title"])),
+        };
+      }),
     })),
-    landingPages: (onsite.items?.landing_pages || []).map((item: any) => ({
+    landingPages: (onsite.items.landing_pages || []).map((item) => ({
       id: uuidv4(),
       name: item.title || item.name || "",
       url: item.url || "",
-      type: (item.extra?.type || item.type || "other") as "product" | "campaign" | "event" | "signup" | "download" | "other",
+      type: ensureString(item.extra.type || item.type || "other") as LandingPage["type"],
       status: "active" as const,
       description: item.description || "",
-      createdAt: item.created_at || new Date().toISOString(),
+      createdAt: item.createdAt || new Date().toISOString(),
     })),
-    blogPosts: (onsite.items?.blog_posts || []).map((item: any) => ({
+    blogPosts: (onsite.items.blog_posts || []).map((item) => ({
       id: uuidv4(),
       title: item.title || item.name || "",
       url: item.url || "",
-      category: item.extra?.category || item.category || undefined,
+      category: ensureOptionalString(item.extra.category || item.category),
       status: "published" as const,
-      publishDate: item.extra?.publishDate || item.publishDate || item.created_at || undefined,
-      tags: item.extra?.tags || item.tags || undefined,
+      publishDate: ensureOptionalString(item.extra.publishDate || item.publishDate || item.createdAt),
+      tags: Array.isArray(item.extra.tags || item.tags) ? ensureStringArray(item.extra.tags || item.tags) : undefined,
     })),
     websiteContent: [
       // ============ Brand Assets -> WebsiteContent (用于 UI 渲染) ============
@@ -191,9 +194,9 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
         type: "other" as const,
       }] : []),
       // Meta Description: priority: meta_info.metaDescription > brandAssetsSingleton.metaDescription > brand.metaDescription
-      ...(ensureString(metaInfoSingleton?.metaDescription || (brandAssetsSingleton as any)?.metaDescription || (brand as any)?.brand?.metaDescription) ? [{
+      ...(ensureString(metaInfoSingleton?.metaDescription || brandAssetsSingleton?.metaDescription || brand.brand?.metaDescription) ? [{
         id: uuidv4(),
-        name: ensureString(metaInfoSingleton?.metaDescription || (brandAssetsSingleton as any)?.metaDescription || (brand as any)?.brand?.metaDescription),
+        name: ensureString(metaInfoSingleton?.metaDescription || brandAssetsSingleton?.metaDescription || brand.brand?.metaDescription),
         url: "#meta-description",
         type: "other" as const,
       }] : []),
@@ -290,59 +293,59 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
 
       // ============ Hero Section -> CTA / Metrics / Media ============
       // Hero CTAs - from singleton or items
-      ...(Array.isArray(heroSectionSingleton?.ctas) ? heroSectionSingleton.ctas.map((cta: any) => ({
+      ...asArray(heroSectionSingleton.ctas).map(asRecord).map((cta) => ({
         id: uuidv4(),
-        name: ensureString(cta?.text || cta?.title),
+        name: ensureString(cta.text || cta.title),
         url: "#cta",
         type: "other" as const,
-        description: ensureString(cta?.url || cta?.description),
-      })) : []),
+        description: ensureString(cta.url || cta.description),
+      })),
       // Hero CTAs from items
-      ...((onsite.items?.hero_ctas || []).map((cta: any) => ({
+      ...((onsite.items.hero_ctas || []).map((cta) => ({
         id: uuidv4(),
-        name: ensureString(cta?.title || cta?.text),
+        name: ensureString(cta.title || cta.text),
         url: "#cta",
         type: "other" as const,
-        description: ensureString(cta?.url || cta?.description),
+        description: ensureString(cta.url || cta.description),
       }))),
       // Hero Metrics - from singleton or items
-      ...(Array.isArray(heroSectionSingleton?.metrics) ? heroSectionSingleton.metrics.map((m: any) => ({
+      ...asArray(heroSectionSingleton.metrics).map(asRecord).map((m) => ({
         id: uuidv4(),
-        name: ensureString(m?.value && m?.label ? `${m.value} · ${m.label}` : (m?.value || m?.label || m?.title || m?.name)),
+        name: ensureString(m.value && m.label ? `${m.value} · ${m.label}` : (m.value || m.label || m.title || m.name)),
         url: "#metric",
         type: "other" as const,
-      })) : []),
+      })),
       // Hero Metrics from items
-      ...((onsite.items?.hero_metrics || []).map((m: any) => ({
+      ...((onsite.items.hero_metrics || []).map((m) => ({
         id: uuidv4(),
-        name: ensureString(m?.title || m?.name || m?.value || ""),
+        name: ensureString(m.title || m.name || m.value || ""),
         url: "#metric",
         type: "other" as const,
       }))),
       // Hero Media - from items
-      ...((onsite.items?.hero_media || []).map((m: any) => ({
+      ...((onsite.items.hero_media || []).map((m) => ({
         id: uuidv4(),
-        name: ensureString(m?.image_url || m?.imageUrl || m?.title || m?.url || ""),
+        name: ensureString(m.imageUrl || m.title || m.url || ""),
         url: "#hero-media",
         type: "other" as const,
       }))),
 
       // ============ Header/Footer/Sitemap Links（直接渲染入口） ============
-      ...(((onsite as any).items?.header_links || []) as any[]).map((item: any) => ({
+      ...(onsite.items.header_links || []).map((item) => ({
         id: uuidv4(),
         name: ensureString(item.title || item.name || item.url),
         url: "#header-link",
         type: "other" as const,
         description: ensureString(item.url),
       })),
-      ...(((onsite as any).items?.footer_links || []) as any[]).map((item: any) => ({
+      ...(onsite.items.footer_links || []).map((item) => ({
         id: uuidv4(),
         name: ensureString(item.title || item.name || item.url),
         url: "#footer-link",
         type: "other" as const,
         description: ensureString(item.url),
       })),
-      ...(((onsite as any).items?.sitemap_urls || []) as any[]).map((item: any) => ({
+      ...(onsite.items.sitemap_urls || []).map((item) => ({
         id: uuidv4(),
         name: ensureString(item.title || item.name || item.url),
         url: "#sitemap-url",
@@ -352,10 +355,10 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
 
       // ============ Core Pages / Key Pages ============
       // Map core_pages and key_pages to websiteContent with proper type based on pageType
-      ...(((onsite as any).items?.core_pages || (onsite as any).items?.key_pages || []) as any[]).map((item: any) => {
-        const pageType = item.extra?.pageType || item.pageType || "other";
+      ...(onsite.items.core_pages || onsite.items.key_pages || []).map((item) => {
+        const pageType = item.extra.pageType || item.pageType || "other";
         // Map pageType to websiteContent type
-        let type: string = "other";
+        let type: WebsiteContent["type"] = "other";
         if (pageType === "home") type = "home";
         else if (pageType === "about") type = "about";
         else if (pageType === "contact") type = "contact";
@@ -371,7 +374,7 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
           id: item.id || uuidv4(),
           name: ensureString(item.title || item.name || ""),
           url: ensureString(item.url || ""),
-          type: type as any,
+          type,
           description: ensureString(item.description || ""),
         };
       }),
@@ -379,33 +382,33 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
       // Problem Statement
       // Support both string array format: ["item1", "item2"] 
       // and object array format: [{ title: "item1" }, { title: "item2" }]
-      ...(getOnsiteSingleton("problem_statement")?.painPoints || []).map((pp: any) => ({
+      ...asArray(getOnsiteSingleton("problem_statement").painPoints || getOnsiteSingleton("problem_statement").pain_points).map((pp) => ({
         id: uuidv4(),
-        name: typeof pp === "string" ? pp : (pp?.title || pp?.name || ""),
+        name: labelOf(pp, ["title", "name"]),
         url: "#problem",
         type: "other" as const,
-        description: typeof pp === "string" ? "" : (pp?.description || ""),
+        description: ensureString(asRecord(pp).description),
       })),
       // Who We Serve - targetAudiences
       // Support both string array format: ["item1", "item2"] 
       // and object array format: [{ name: "item1" }, { name: "item2" }]
-      ...(getOnsiteSingleton("who_we_serve")?.targetAudiences || []).map((ta: any) => ({
+      ...asArray(getOnsiteSingleton("who_we_serve").targetAudiences || getOnsiteSingleton("who_we_serve").target_audiences).map((ta) => ({
         id: uuidv4(),
-        name: typeof ta === "string" ? ta : (ta?.name || ""),
+        name: labelOf(ta, ["name"]),
         url: "#audience",
         type: "other" as const,
-        description: typeof ta === "string" ? "" : (ta?.description || ""),
+        description: ensureString(asRecord(ta).description),
       })),
       // Who We Serve - industries (from singleton, not items)
-      ...(Array.isArray(getOnsiteSingleton("who_we_serve")?.industries) ? getOnsiteSingleton("who_we_serve").industries.map((ind: any) => ({
+      ...asArray(getOnsiteSingleton("who_we_serve").industries).map((ind) => ({
         id: uuidv4(),
-        name: typeof ind === "string" ? ind : (ind?.name || ind?.title || ""),
+        name: labelOf(ind, ["name", "title"]),
         url: "#industry",
         type: "other" as const,
-        description: typeof ind === "string" ? "" : (ind?.description || ""),
-      })) : []),
+        description: ensureString(asRecord(ind).description),
+      })),
       // Use Cases
-      ...(onsite.items?.use_cases || []).map((uc: any) => ({
+      ...(onsite.items.use_cases || []).map((uc) => ({
         id: uuidv4(),
         name: uc.title || uc.name || "",
         url: "#use-case",
@@ -413,7 +416,7 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
         description: uc.description || "",
       })),
       // Industries
-      ...(onsite.items?.industries || []).map((ind: any) => ({
+      ...(onsite.items.industries || []).map((ind) => ({
         id: uuidv4(),
         name: ind.title || ind.name || "",
         url: "#industry",
@@ -421,7 +424,7 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
         description: ind.description || "",
       })),
       // Case Studies
-      ...(onsite.items?.case_studies || []).map((cs: any) => ({
+      ...(onsite.items.case_studies || []).map((cs) => ({
         id: uuidv4(),
         name: cs.title || cs.name || "",
         url: cs.url || "",
@@ -429,15 +432,15 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
         description: cs.description || "",
       })),
       // Testimonials
-      ...(onsite.items?.testimonials || []).map((t: any) => ({
+      ...(onsite.items.testimonials || []).map((t) => ({
         id: uuidv4(),
-        name: t.title || t.quote || t.name || "",
+        name: ensureString(t.title || t.quote || t.name),
         url: "",
         type: "testimonial" as const,
         description: t.description || "",
       })),
       // Trust Badges
-      ...(onsite.items?.trust_badges || []).map((tb: any) => ({
+      ...(onsite.items.trust_badges || []).map((tb) => ({
         id: uuidv4(),
         name: tb.title || tb.name || "",
         url: "#trust-badge",
@@ -445,39 +448,41 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
         description: tb.description || "",
       })),
       // FAQs
-      ...(onsite.items?.faqs || []).map((faq: any) => ({
+      ...(onsite.items.faqs || []).map((faq) => ({
         id: uuidv4(),
-        name: faq.title || faq.extra?.title || faq.extra?.question || faq.question || "",
+        name: ensureString(faq.title || faq.extra.title || faq.extra.question || faq.question),
         url: "",
         type: "faq" as const,
-        description: faq.description || faq.extra?.description || faq.extra?.answer || faq.answer || "",
+        description: ensureString(faq.description || faq.extra.description || faq.extra.answer || faq.answer),
       })),
       // Contact Info
-      ...(ensureString((brand as any)?.contact?.email || contactInfoSingleton?.email) ? [{
+      ...(ensureString(brand.contact?.email || contactInfoSingleton?.email) ? [{
         id: uuidv4(),
-        name: ensureString((brand as any)?.contact?.email || contactInfoSingleton?.email),
+        name: ensureString(brand.contact?.email || contactInfoSingleton?.email),
         url: "#contact-email",
         type: "other" as const,
       }] : []),
-      ...(ensureString((brand as any)?.contact?.phone || contactInfoSingleton?.phone) ? [{
+      ...(ensureString(brand.contact?.phone || contactInfoSingleton?.phone) ? [{
         id: uuidv4(),
-        name: ensureString((brand as any)?.contact?.phone || contactInfoSingleton?.phone),
+        name: ensureString(brand.contact?.phone || contactInfoSingleton?.phone),
         url: "#contact-phone",
         type: "other" as const,
       }] : []),
-      ...(ensureString((brand as any)?.contact?.address || contactInfoSingleton?.address) ? [{
+      ...(ensureString(brand.contact?.address || contactInfoSingleton?.address) ? [{
         id: uuidv4(),
-        name: ensureString((brand as any)?.contact?.address || contactInfoSingleton?.address),
+        name: ensureString(brand.contact?.address || contactInfoSingleton?.address),
         url: "#contact-address",
         type: "other" as const,
       }] : []),
     ],
-    team: (onsite.persons?.leadership_team || []).map((member: any) => ({
+    team: (onsite.persons.leadership_team || []).map((member) => ({
       id: uuidv4(),
       name: member.name || "",
-      role: member.title || member.role || "",
-      bio: member.bio || member.description || "",
-      linkedin: member.social_links?.find((sl: any) => sl.platform === "LinkedIn")?.url || member.linkedin,
+      role: ensureString(member.title || member.role),
+      bio: ensureString(member.bio || member.description),
+      linkedin: ensureOptionalString(
+        asArray(member.socialLinks).map(asRecord).find((sl) => sl.platform === "LinkedIn")?.url || member.linkedin
+      ),
     })),
   };
 
@@ -494,12 +499,12 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
       requiredKeywords: ensureStringArray(monitoringScopeSingleton?.requiredKeywords),
       excludedKeywords: ensureStringArray(monitoringScopeSingleton?.excludedKeywords),
     },
-    socialAccounts: (offsite.entities?.social_profiles || []).map((sp: any) => ({
+    socialAccounts: (offsite.entities.social_profiles || []).map((sp) => ({
       id: uuidv4(),
-      platform: sp.platform || "",
+      platform: ensureString(sp.platform),
       accountName: sp.name || "",
       url: sp.url || "",
-      isPriority: sp.entity_type === "official",
+      isPriority: sp.entityType === "official",
     })),
     executiveAccounts: [],
     partnerAccounts: [],
@@ -509,7 +514,7 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
     mediaSources: [],
     videoPlatforms: [],
     podcastNewsletters: [],
-    reviewPlatforms: (offsite.entities?.review_platforms || []).map((rp: any) => {
+    reviewPlatforms: (offsite.entities.review_platforms || []).map((rp) => {
       return {
         id: rp.id || uuidv4(),
         platform: normalizeReviewPlatform(rp.platform || rp.name, rp.url),
@@ -520,19 +525,19 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
     appStores: [],
     verticalReviewSites: [],
     ecommercePlatforms: [],
-    competitorConfigs: (offsite.entities?.competitors || []).map((comp: any) => ({
+    competitorConfigs: (offsite.entities.competitors || []).map((comp) => ({
       id: uuidv4(),
       name: comp.name || "",
-      brandKeywords: comp.brandKeywords || [],
+      brandKeywords: ensureStringArray(comp.brandKeywords),
       domain: comp.url || "",
       socialAccounts: [],
       reviewLinks: [],
       includeInSOV: true,
     })),
-    influencerAccounts: (offsite.persons?.kols || []).map((kol: any) => ({
+    influencerAccounts: (offsite.persons.kols || []).map((kol) => ({
       id: uuidv4(),
       name: kol.name || "",
-      platform: kol.platform || "",
+      platform: ensureString(kol.platform),
       url: kol.url || kol.handle ? `https://${kol.platform}/${kol.handle}` : "",
       role: "kol" as const,
       tier: "1" as const,
@@ -566,21 +571,21 @@ export function mapApiResponseToContextData(apiResponse: ContextApiResponse): Co
       minEngagement: 0,
     },
     // Legacy fields
-    officialAccounts: (offsite.entities?.social_profiles || []).map((sp: any) => ({
+    officialAccounts: (offsite.entities.social_profiles || []).map((sp) => ({
       id: uuidv4(),
-      platform: sp.platform as any,
+      platform: ensureString(sp.platform || "other") as OfficialAccount["platform"],
       accountName: sp.name || "",
       url: sp.url || "",
-      verificationStatus: sp.entity_type === "official" ? "verified" as const : "unverified" as const,
+      verificationStatus: sp.entityType === "official" ? "verified" as const : "unverified" as const,
     })),
-    pressReleases: (offsite.items?.press_coverage || []).map((item: any) => ({
+    pressReleases: (offsite.items.press_coverage || []).map((item) => ({
       id: uuidv4(),
       title: item.title || item.name || "",
       url: item.url || "",
-      type: (item.extra?.type || item.type || "media_coverage") as "press_release" | "media_coverage" | "interview" | "news_mention",
-      source: item.extra?.publication || item.publication || "",
-      publishDate: item.extra?.date || item.date || item.created_at || undefined,
-      summary: item.description || item.extra?.snippet || undefined,
+      type: ensureString(item.extra.type || item.type || "media_coverage") as PressRelease["type"],
+      source: ensureString(item.extra.publication || item.publication),
+      publishDate: ensureOptionalString(item.extra.date || item.date || item.createdAt),
+      summary: ensureOptionalString(item.description || item.extra.snippet),
     })),
     socialMediaContent: [],
     partnerships: [],
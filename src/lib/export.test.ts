@@ -0,0 +1,262 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Message, SubagentBlock, ToolCallBlock } from '@/app/types/types';
+import {
+  buildHtmlDocument,
+  buildJsonExport,
+  buildMarkdownExport,
+  CONVERSATION_EXPORT_FORMAT,
+  CONVERSATION_EXPORT_VERSION,
+  DEFAULT_EXPORT_OPTIONS,
+  getConversationTitle,
+  getExportBlocks,
+  getExportFileName,
+  getExportMessages,
+  getMessagePlainText,
+  getRoleLabel,
+  stringifyToolValue,
+  type ConversationExportData,
+  type ConversationExportOptions,
+} from './export';
+
+// ============ 测试数据 ============
+
+const EXPANDED: ConversationExportOptions = { toolCalls: 'expanded', subagents: 'expanded', includeFiles: true };
+
+function message(id: string, role: Message['role'], content: Message['content'], extra: Partial<Message> = {}): Message {
+  return { id, role, content, ...extra };
+}
+
+const toolBlock: ToolCallBlock = {
+  id: 'tc-1',
+  type: 'tool_call',
+  toolCallId: '1',
+  toolName: 'web_search',
+  toolDisplayName: 'Web Search',
+  toolType: 'tool',
+  args: { query: 'vitest' },
+  argsPreview: '',
+  result: { hits: 3 },
+  status: 'success',
+  durationMs: 1500,
+};
+
+const subagentBlock: SubagentBlock = {
+  id: 'sa-1',
+  type: 'subagent',
+  subagentName: 'researcher',
+  subagentDisplayName: 'Researcher',
+  taskDescription: 'Find sources',
+  status: 'success',
+  durationMs: 200,
+  childBlocks: [{ id: 'child', type: 'text', content: 'Child output' }],
+};
+
+function exportData(messages: Message[], extra: Partial<ConversationExportData> = {}): ConversationExportData {
+  return {
+    cid: 'conv-1',
+    title: 'Test conversation',
+    messages,
+    todos: [],
+    files: {},
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+// ============ 消息整理 ============
+
+describe('getExportMessages', () => {
+  const messages = [
+    message('1', 'user', 'Hi'),
+    message('2', 'assistant', 'Child', { parentMessageId: '1', subagentName: 'researcher' }),
+    message('3', 'assistant', 'Hello'),
+  ];
+
+  it('hides subagent messages when subagents are collapsed', () => {
+    expect(getExportMessages(messages, DEFAULT_EXPORT_OPTIONS).map((m) => m.id)).toEqual(['1', '3']);
+  });
+
+  it('keeps subagent messages when subagents are expanded', () => {
+    expect(getExportMessages(messages, EXPANDED)).toBe(messages);
+  });
+});
+
+describe('getMessagePlainText', () => {
+  it('joins text parts and handles empty content', () => {
+    expect(getMessagePlainText(message('1', 'user', 'Plain'))).toBe('Plain');
+    expect(
+      getMessagePlainText(
+        message('1', 'user', [
+          { type: 'text', text: 'Hello, ' },
+          { type: 'image_url', image_url: { url: 'a.png' } },
+          { type: 'text', text: 'world' },
+        ])
+      )
+    ).toBe('Hello, world');
+    expect(getMessagePlainText(message('1', 'assistant', null))).toBe('');
+  });
+});
+
+describe('getExportBlocks', () => {
+  it('uses contentBlocks when present', () => {
+    const blocks = [toolBlock];
+    expect(getExportBlocks(message('1', 'assistant', 'ignored', { contentBlocks: blocks }))).toBe(blocks);
+  });
+
+  it('builds blocks from toolCalls and content for history messages', () => {
+    const blocks = getExportBlocks(
+      message('m1', 'assistant', 'Done', {
+        toolCalls: [{ id: '1', name: 'web_search', args: {}, status: 'error', durationMs: 10 }],
+      })
+    );
+
+    expect(blocks).toEqual([
+      expect.objectContaining({ type: 'tool_call', toolCallId: '1', toolName: 'web_search', status: 'error' }),
+      { id: 'text-m1', type: 'text', content: 'Done' },
+    ]);
+  });
+
+  it('skips empty text', () => {
+    expect(getExportBlocks(message('1', 'assistant', '  '))).toEqual([]);
+  });
+});
+
+describe('getConversationTitle', () => {
+  it('uses the first user message, collapsed and truncated', () => {
+    expect(getConversationTitle([message('1', 'assistant', 'Hi'), message('2', 'user', 'Plan\n  a  trip')])).toBe(
+      'Plan a trip'
+    );
+    expect(getConversationTitle([message('1', 'user', 'x'.repeat(80))])).toBe(`${'x'.repeat(60)}…`);
+    expect(getConversationTitle([])).toBe('Conversation');
+  });
+});
+
+describe('getRoleLabel', () => {
+  it('labels roles and subagents', () => {
+    expect(getRoleLabel(message('1', 'user', ''))).toBe('User');
+    expect(getRoleLabel(message('1', 'assistant', ''))).toBe('Assistant');
+    expect(getRoleLabel(message('1', 'assistant', '', { subagentName: 'coder' }))).toBe('Subagent · coder');
+  });
+});
+
+describe('stringifyToolValue', () => {
+  it('formats objects as JSON and keeps strings', () => {
+    expect(stringifyToolValue(undefined)).toBe('');
+    expect(stringifyToolValue('text')).toBe('text');
+    expect(stringifyToolValue({ a: 1 })).toBe('{\n  "a": 1\n}');
+  });
+});
+
+// ============ Markdown ============
+
+describe('buildMarkdownExport', () => {
+  const messages = [
+    message('1', 'user', 'Question'),
+    message('2', 'assistant', '', {
+      contentBlocks: [{ id: 't', type: 'text', content: 'Answer' }, toolBlock, subagentBlock],
+    }),
+  ];
+
+  it('collapses tool calls and subagents to summaries', () => {
+    const markdown = buildMarkdownExport(exportData(messages), DEFAULT_EXPORT_OPTIONS);
+
+    expect(markdown).toMatch(/^# Test conversation\n/);
+    expect(markdown).toContain('## User');
+    expect(markdown).toContain('Answer');
+    expect(markdown).toContain('> Tool: Web Search · success · 1.5s');
+    expect(markdown).toContain('> Subagent: Researcher · success · 200ms\n>\n> Find sources');
+    expect(markdown).not.toContain('<details');
+    expect(markdown).not.toContain('Child output');
+  });
+
+  it('expands tool input, output and subagent children', () => {
+    const markdown = buildMarkdownExport(exportData(messages), EXPANDED);
+
+    expect(markdown).toContain('<summary>Tool: Web Search · success · 1.5s</summary>');
+    expect(markdown).toContain('```json\n{\n  "query": "vitest"\n}\n```');
+    expect(markdown).toContain('```json\n{\n  "hits": 3\n}\n```');
+    expect(markdown).toContain('<details open>');
+    expect(markdown).toContain('Child output');
+  });
+
+  it('escapes HTML in details summaries', () => {
+    const block: ToolCallBlock = { ...toolBlock, toolDisplayName: '<script>' };
+    const markdown = buildMarkdownExport(
+      exportData([message('1', 'assistant', '', { contentBlocks: [block] })]),
+      EXPANDED
+    );
+
+    expect(markdown).toContain('<summary>Tool: &lt;script&gt; · success · 1.5s</summary>');
+  });
+
+  it('uses a longer fence than the backticks in the content', () => {
+    const block: ToolCallBlock = { ...toolBlock, result: 'has ``` inside' };
+    const markdown = buildMarkdownExport(
+      exportData([message('1', 'assistant', '', { contentBlocks: [block] })]),
+      EXPANDED
+    );
+
+    expect(markdown).toContain('````\nhas ``` inside\n````');
+  });
+
+  it('lists todos and files', () => {
+    const data = exportData([], {
+      todos: [
+        { id: '1', content: 'Done', status: 'completed' },
+        { id: '2', content: 'Open', status: 'pending' },
+      ],
+      files: {
+        'a.ts': { path: 'a.ts', content: 'const a = 1;', language: 'ts' },
+        'b.bin': { path: 'b.bin' },
+      },
+    });
+
+    const markdown = buildMarkdownExport(data, DEFAULT_EXPORT_OPTIONS);
+    expect(markdown).toContain('- [x] Done\n- [ ] Open');
+    expect(markdown).toContain('### a.ts\n\n```ts\nconst a = 1;\n```');
+    expect(markdown).toContain('- `b.bin`');
+
+    const withoutContent = buildMarkdownExport(data, { ...DEFAULT_EXPORT_OPTIONS, includeFiles: false });
+    expect(withoutContent).toContain('- `a.ts`');
+    expect(withoutContent).not.toContain('const a = 1;');
+  });
+});
+
+// ============ JSON / HTML ============
+
+describe('buildJsonExport', () => {
+  it('wraps the data with the format identifier and version', () => {
+    const data = exportData([message('1', 'user', 'Hi', { createdAt: new Date('2024-01-02T00:00:00.000Z') })]);
+
+    expect(JSON.parse(buildJsonExport(data))).toEqual({
+      ...data,
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: CONVERSATION_EXPORT_VERSION,
+      messages: [{ id: '1', role: 'user', content: 'Hi', createdAt: '2024-01-02T00:00:00.000Z' }],
+    });
+  });
+});
+
+describe('buildHtmlDocument', () => {
+  it('escapes the title and inlines the styles', () => {
+    const html = buildHtmlDocument('<b>Title</b>', '<main>Body</main>', '.a { color: red; }', true);
+
+    expect(html).toContain('<html lang="en" class="dark">');
+    expect(html).toContain('<title>&lt;b&gt;Title&lt;/b&gt;</title>');
+    expect(html).toContain('.a { color: red; }');
+    expect(html).toContain('<main>Body</main>');
+  });
+});
+
+describe('getExportFileName', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replaces unsafe characters and appends the date', () => {
+    vi.useFakeTimers({ now: new Date('2024-03-04T12:00:00.000Z') });
+
+    expect(getExportFileName('a/b: c?', 'md')).toBe('a-b-c-2024-03-04.md');
+    expect(getExportFileName('  ', 'json')).toBe('conversation-2024-03-04.json');
+  });
+});
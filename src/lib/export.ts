@@ -0,0 +1,366 @@
+/**
+ * 会话导出
+ *
+ * 支持四种格式：
+ * - Markdown：消息正文原样保留，工具调用和子代理按选项展开或只保留一行摘要
+ * - HTML：独立文件，使用与聊天界面相同的组件渲染（由 ConversationExportDialog 生成正文），内联页面样式
+ * - JSON：Message / ToolCall / 子代理消息 / todos / files 原样导出，可无损导入
+ * - PDF：在隐藏 iframe 中打开导出的 HTML 并调用浏览器打印（另存为 PDF）
+ *
+ * 这里只处理与渲染无关的部分：数据整理、Markdown / JSON 生成、HTML 外壳和下载
+ */
+
+import type {
+  ContentBlock,
+  FileItem,
+  Message,
+  SubagentBlock,
+  TodoItem,
+  ToolCall,
+  ToolCallBlock,
+} from '@/app/types/types';
+
+// ============ 类型定义 ============
+
+export type ConversationExportFormat = 'markdown' | 'html' | 'json' | 'pdf';
+
+/** 工具调用 / 子代理的显示方式：expanded 包含完整参数、结果和子代理对话，collapsed 只保留一行摘要 */
+export type ExportDetailLevel = 'expanded' | 'collapsed';
+
+export interface ConversationExportOptions {
+  toolCalls: ExportDetailLevel;
+  subagents: ExportDetailLevel;
+  /** 是否附带会话生成的文件内容 */
+  includeFiles: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ConversationExportOptions = {
+  toolCalls: 'collapsed',
+  subagents: 'collapsed',
+  includeFiles: true,
+};
+
+/** 导出的会话数据 */
+export interface ConversationExportData {
+  cid: string | null;
+  title: string;
+  messages: Message[];
+  todos: TodoItem[];
+  files: Record<string, FileItem>;
+  exportedAt: string;
+}
+
+/** JSON 导出格式标识 */
+export const CONVERSATION_EXPORT_FORMAT = 'seenos.conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+/** JSON 导出文件结构 */
+export interface ConversationExportFile extends ConversationExportData {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+}
+
+// ============ 消息整理 ============
+
+/** 是否为子代理的对话消息 */
+export function isSubagentMessage(message: Message): boolean {
+  return !!message.parentMessageId || !!message.subagentName;
+}
+
+/**
+ * 按选项筛选要显示的消息：子代理折叠时不显示子代理自己的对话
+ */
+export function getExportMessages(messages: Message[], options: ConversationExportOptions): Message[] {
+  return options.subagents === 'expanded' ? messages : messages.filter((m) => !isSubagentMessage(m));
+}
+
+/** 消息的纯文本内容（没有 text block 时使用 content） */
+export function getMessagePlainText(message: Message): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content?.map((part) => part.text || '').join('') ?? '';
+}
+
+/**
+ * 消息的内容块；历史消息可能没有 contentBlocks，按 content + toolCalls 构建
+ */
+export function getExportBlocks(message: Message): ContentBlock[] {
+  if (message.contentBlocks && message.contentBlocks.length > 0) return message.contentBlocks;
+
+  const blocks: ContentBlock[] = (message.toolCalls ?? []).map((toolCall: ToolCall) => ({
+    id: `tc-${toolCall.id}`,
+    type: 'tool_call',
+    toolCallId: toolCall.id,
+    toolName: toolCall.name,
+    toolDisplayName: toolCall.name,
+    toolType: 'tool',
+    args: toolCall.args ?? {},
+    argsPreview: '',
+    result: toolCall.result,
+    status: toolCall.status === 'error' ? 'error' : 'success',
+    durationMs: toolCall.durationMs,
+  }));
+  const text = getMessagePlainText(message);
+  if (text.trim()) blocks.push({ id: `text-${message.id}`, type: 'text', content: text });
+  return blocks;
+}
+
+/** 会话标题：取第一条用户消息的开头 */
+export function getConversationTitle(messages: Message[]): string {
+  const firstUser = messages.find((m) => m.role === 'user' && !isSubagentMessage(m));
+  const text = firstUser ? getMessagePlainText(firstUser).replace(/\s+/g, ' ').trim() : '';
+  if (!text) return 'Conversation';
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+/** 角色显示名 */
+export function getRoleLabel(message: Message): string {
+  if (isSubagentMessage(message)) return `Subagent · ${message.subagentName ?? 'agent'}`;
+  switch (message.role) {
+    case 'user':
+      return 'User';
+    case 'assistant':
+      return 'Assistant';
+    case 'tool':
+      return 'Tool';
+    default:
+      return 'System';
+  }
+}
+
+/** 格式化耗时 */
+function formatDurationMs(durationMs?: number): string {
+  if (durationMs === undefined) return '';
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/** 工具调用摘要：名称 · 状态 · 耗时 */
+export function formatToolSummary(block: ToolCallBlock): string {
+  return [block.toolDisplayName || block.toolName, block.status, formatDurationMs(block.durationMs)]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** 子代理摘要：名称 · 状态 · 耗时 */
+export function formatSubagentSummary(block: SubagentBlock): string {
+  return [block.subagentDisplayName || block.subagentName, block.status, formatDurationMs(block.durationMs)]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** 工具结果转为文本（对象格式化为 JSON） */
+export function stringifyToolValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+function formatTimestamp(value: Date | string | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
+
+// ============ Markdown ============
+
+/** 选择不与内容冲突的代码块围栏 */
+function fence(content: string, language = ''): string {
+  const longest = Math.max(2, ...Array.from(content.matchAll(/`+/g), (match) => match[0].length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function blockToMarkdown(block: ContentBlock, options: ConversationExportOptions): string {
+  switch (block.type) {
+    case 'text':
+      return block.content;
+    case 'tool_call': {
+      const summary = `Tool: ${formatToolSummary(block)}`;
+      if (options.toolCalls === 'collapsed') return `> ${summary}`;
+      const parts = [`**Input**\n\n${fence(stringifyToolValue(block.args), 'json')}`];
+      const rawResult = block.result ?? block.resultPreview;
+      const result = stringifyToolValue(rawResult);
+      if (result) parts.push(`**Output**\n\n${fence(result, typeof rawResult === 'string' ? '' : 'json')}`);
+      if (block.error) parts.push(`**Error:** ${block.error}`);
+      return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${parts.join('\n\n')}\n\n</details>`;
+    }
+    case 'subagent': {
+      const summary = `Subagent: ${formatSubagentSummary(block)}`;
+      if (options.subagents === 'collapsed') return `> ${summary}\n>\n> ${block.taskDescription}`;
+      const children = block.childBlocks.map((child) => blockToMarkdown(child, options)).join('\n\n');
+      return `<details open>\n<summary>${escapeHtml(summary)}</summary>\n\n_Task:_ ${block.taskDescription}\n\n${children}\n\n</details>`;
+    }
+    case 'file_ref':
+      return `> File ${block.operation}: \`${block.path}\``;
+    case 'image':
+      return `![${block.alt ?? ''}](${block.url})`;
+    case 'citation':
+      return `> Source: ${block.filename}`;
+    case 'action_card':
+      return `**${block.title}**\n\n${block.description}`;
+    case 'attachment_ref':
+      return block.previewUrl && block.attachmentType === 'image'
+        ? `![${block.filename ?? 'attachment'}](${block.previewUrl})`
+        : `> Attachment: ${block.filename ?? block.attachmentId}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * 生成 Markdown
+ */
+export function buildMarkdownExport(data: ConversationExportData, options: ConversationExportOptions): string {
+  const sections: string[] = [`# ${data.title || 'Conversation'}\n\n_Exported ${formatTimestamp(data.exportedAt)}_`];
+
+  for (const message of getExportMessages(data.messages, options)) {
+    const timestamp = formatTimestamp(message.createdAt);
+    const heading = `## ${getRoleLabel(message)}${timestamp ? ` · ${timestamp}` : ''}`;
+    const body = getExportBlocks(message)
+      .map((block) => blockToMarkdown(block, options))
+      .filter((part) => part.trim())
+      .join('\n\n');
+    sections.push(`${heading}\n\n${body || '_Empty message_'}`);
+  }
+
+  if (data.todos.length > 0) {
+    const items = data.todos.map((todo) => `- [${todo.status === 'completed' ? 'x' : ' '}] ${todo.content}`);
+    sections.push(`## Tasks\n\n${items.join('\n')}`);
+  }
+
+  const files = Object.values(data.files);
+  if (files.length > 0) {
+    const list = files.map((file) =>
+      options.includeFiles && file.content
+        ? `### ${file.path}\n\n${fence(file.content, file.language ?? '')}`
+        : `- \`${file.path}\``
+    );
+    sections.push(`## Files\n\n${list.join('\n\n')}`);
+  }
+
+  return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+// ============ JSON ============
+
+/**
+ * 生成 JSON（不做任何裁剪，Date 序列化为 ISO 字符串）
+ */
+export function buildJsonExport(data: ConversationExportData): string {
+  const file: ConversationExportFile = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    ...data,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// ============ HTML ============
+
+/**
+ * 收集当前页面的样式（Tailwind 等），用于独立 HTML
+ * 跨域样式表无法读取规则，跳过
+ */
+export function collectDocumentCss(): string {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) rules.push(rule.cssText);
+    } catch {
+      // 跨域样式表
+    }
+  }
+  return rules.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 生成完整的 HTML 文档
+ * @param bodyHtml 渲染好的正文
+ * @param css 内联样式（通常来自 collectDocumentCss）
+ * @param dark 是否使用深色主题
+ */
+export function buildHtmlDocument(title: string, bodyHtml: string, css: string, dark = false): string {
+  return `<!DOCTYPE html>
+<html lang="en" class="${dark ? 'dark' : ''}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title || 'Conversation')}</title>
+<style>
+${css}
+body { margin: 0; }
+.export-document { max-width: 56rem; margin: 0 auto; padding: 2rem 1.5rem; }
+@media print {
+  .export-document { max-width: none; padding: 0; }
+  .export-message { break-inside: avoid; }
+  details > summary { list-style: none; }
+}
+</style>
+</head>
+<body class="bg-background text-foreground">
+${bodyHtml}
+</body>
+</html>`;
+}
+
+/**
+ * 打印 HTML（浏览器打印对话框中可另存为 PDF）
+ * 在隐藏 iframe 中加载，等待图片加载后打印，打印结束后移除
+ */
+export function printHtml(html: string): void {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.setAttribute('aria-hidden', 'true');
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    iframe.remove();
+    throw new Error('Printing is not available');
+  }
+
+  iframe.onload = () => {
+    frameWindow.addEventListener('afterprint', () => iframe.remove(), { once: true });
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  iframe.srcdoc = html;
+}
+
+// ============ 下载 ============
+
+/** 导出文件名：标题中的非法字符替换为 -，附加日期 */
+export function getExportFileName(title: string, extension: string): string {
+  const base = (title || 'conversation')
+    .replace(/[\\/:*?"<>|\s]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 80);
+  const date = new Date().toISOString().slice(0, 10);
+  return `${base || 'conversation'}-${date}.${extension}`;
+}
+
+/** 下载文本文件 */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
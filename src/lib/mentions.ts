@@ -0,0 +1,106 @@
+/**
+ * @ 引用
+ *
+ * 在输入框中输入 `@` 搜索上下文条目 / 人物 / 实体、会话文件、内容库条目和子代理，
+ * 选中后在文本中插入 `@名称`，并随消息发送结构化引用（UserMessageData.mentions）。
+ * 这里只处理查询解析、插入和匹配，候选列表由 useMentions 加载
+ */
+
+import type { MessageMention } from '@/app/types/types';
+import { fuzzyMatch } from './slash-commands';
+
+// ============ 类型定义 ============
+
+/** 匹配结果 */
+export interface MentionMatch {
+  mention: MessageMention;
+  score: number;
+  /** label 中命中的字符位置（用于高亮） */
+  labelIndices: number[];
+}
+
+/** 光标处正在输入的 @ 查询 */
+export interface MentionQuery {
+  query: string;
+  /** `@` 在文本中的位置 */
+  start: number;
+  /** 查询结束位置（光标位置） */
+  end: number;
+}
+
+// ============ 解析与插入 ============
+
+/**
+ * 解析光标前正在输入的 @ 查询
+ * `@` 需位于行首或空白之后（避免邮箱地址触发），查询词不含空白
+ * @returns 不在 @ 查询中时返回 null
+ */
+export function parseMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1, end: caret };
+}
+
+/**
+ * 用 `@label ` 替换查询（后面已有空白时不再补空格）
+ * @returns 新文本和插入后的光标位置（空白之后）
+ */
+export function insertMention(text: string, query: MentionQuery, label: string): { text: string; caret: number } {
+  const rest = text.slice(query.end);
+  const inserted = /^\s/.test(rest) ? `@${label}` : `@${label} `;
+  return {
+    text: text.slice(0, query.start) + inserted + rest,
+    caret: query.start + `@${label} `.length,
+  };
+}
+
+/** 两个引用是否指向同一对象 */
+export function isSameMention(a: MessageMention, b: MessageMention): boolean {
+  return a.type === b.type && a.id === b.id;
+}
+
+/**
+ * 发送前整理引用：只保留文本中仍然存在 `@label` 的引用，并去重
+ */
+export function collectMentions(text: string, mentions: MessageMention[]): MessageMention[] {
+  const result: MessageMention[] = [];
+  for (const mention of mentions) {
+    if (!text.includes(`@${mention.label}`)) continue;
+    if (result.some((existing) => isSameMention(existing, mention))) continue;
+    result.push(mention);
+  }
+  return result;
+}
+
+// ============ 模糊匹配 ============
+
+/**
+ * 按查询过滤并排序候选
+ * label 和 description 中取最高分；查询为空时按原顺序返回
+ */
+export function filterMentions(candidates: MessageMention[], query: string, limit = 30): MentionMatch[] {
+  const matches: MentionMatch[] = [];
+
+  for (const mention of candidates) {
+    const labelMatch = fuzzyMatch(query, mention.label);
+    let score = labelMatch?.score ?? -Infinity;
+
+    if (mention.description) {
+      const descriptionMatch = fuzzyMatch(query, mention.description);
+      // 描述命中的权重低于名称
+      if (descriptionMatch && descriptionMatch.score - 5 > score) score = descriptionMatch.score - 5;
+    }
+    if (score === -Infinity) continue;
+
+    matches.push({
+      mention,
+      score,
+      labelIndices: labelMatch && labelMatch.score === score ? labelMatch.indices : [],
+    });
+  }
+
+  if (query) {
+    matches.sort((a, b) => b.score - a.score);
+  }
+  return matches.slice(0, limit);
+}
@@ -0,0 +1,280 @@
+/**
+ * Mock 后端事件推送
+ *
+ * 按会话维护事件日志（分配 seq，支持 last_seq 断线续传）和订阅者，
+ * WebSocket（MockWebSocket）与 SSE（/chat/stream）订阅同一个 emitter。
+ * 用户发送消息后回放当前配置的场景，消息和会话状态同步写入内存数据库，
+ * 因此长轮询和 REST 请求看到的状态与推送的事件一致
+ */
+
+import type { MessageEndEventData, MessageMention, StreamEvent } from '@/app/types/types';
+import {
+  createMockId,
+  createMockMessage,
+  getMockVariantGroupId,
+  nowIso,
+  syncMockVariants,
+  type MockDatabase,
+} from './fixtures';
+import { getMockScenario, type MockStep } from './scenarios';
+
+// ============ 类型定义 ============
+
+/** 事件订阅者；closeCode 表示推送后应关闭连接 */
+export type MockEventListener = (event: StreamEvent, closeCode?: number) => void;
+
+/** 进行中的回放 */
+interface Playback {
+  cancelled: boolean;
+  /** 等待恢复中断 */
+  resume: (() => void) | null;
+}
+
+/** 重新生成的目标：新回复作为版本组中的一个版本保存 */
+interface RegenerateTarget {
+  groupId: string;
+  variantId: string;
+  model?: string;
+}
+
+// ============ 事件推送类 ============
+
+export class MockEventEmitter {
+  private logs = new Map<string, StreamEvent[]>();
+  private listeners = new Map<string, Set<MockEventListener>>();
+  private playbacks = new Map<string, Playback>();
+  /** 每个会话最近一次用户消息（用于重试） */
+  private lastUserContent = new Map<string, string>();
+
+  constructor(
+    private db: MockDatabase,
+    private getScenarioName: () => string
+  ) {}
+
+  /**
+   * 订阅会话事件
+   * 先推送连接确认和完整状态；提供 afterSeq 时重放之后的事件
+   */
+  subscribe(cid: string, listener: MockEventListener, afterSeq?: number): () => void {
+    const set = this.listeners.get(cid) ?? new Set();
+    set.add(listener);
+    this.listeners.set(cid, set);
+
+    listener({ type: 'connected', cid, data: { cid }, timestamp: Date.now() });
+    if (afterSeq !== undefined) {
+      this.replay(cid, afterSeq, listener);
+    } else {
+      listener(this.stateEvent(cid));
+    }
+
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * 重放 afterSeq 之后的事件
+   */
+  replay(cid: string, afterSeq: number, listener: MockEventListener): void {
+    for (const event of this.logs.get(cid) ?? []) {
+      if ((event.seq ?? 0) > afterSeq) listener(event);
+    }
+  }
+
+  /**
+   * 转发 Block Editor 协同编辑事件给同一会话的其他订阅者（不分配 seq、不写入日志）
+   */
+  relayEditorEvent(cid: string, event: Pick<StreamEvent, 'type' | 'data'>, sender: MockEventListener): void {
+    const relayed: StreamEvent = { ...event, cid, timestamp: Date.now() };
+    for (const listener of this.listeners.get(cid) ?? []) {
+      if (listener !== sender) listener(relayed);
+    }
+  }
+
+  /**
+   * 会话完整状态事件（不分配 seq）
+   */
+  stateEvent(cid: string): StreamEvent {
+    const conversation = this.db.conversations.get(cid);
+    return {
+      type: 'state_update',
+      cid,
+      data: {
+        messages: conversation?.messages ?? [],
+        todos: conversation?.todos ?? [],
+        files: conversation?.files ?? {},
+        branches: conversation?.branches,
+        activeBranchId: conversation?.activeBranchId,
+      },
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * 处理用户消息：写入会话并回放场景
+   */
+  sendUserMessage(cid: string, content: string, clientMessageId?: string, mentions?: MessageMention[]): void {
+    const conversation = this.db.conversations.get(cid);
+    if (conversation) {
+      const message = createMockMessage(cid, 'user', content);
+      if (clientMessageId) message.id = clientMessageId;
+      if (mentions?.length) message.metadata = { ...message.metadata, mentions };
+      conversation.messages.push(message);
+      conversation.messageCount = conversation.messages.length;
+      conversation.lastMessage = content;
+      if (!conversation.title) conversation.title = content.slice(0, 60);
+    }
+    this.lastUserContent.set(cid, content);
+    this.play(cid, content);
+  }
+
+  /**
+   * 重试最近一次用户消息
+   */
+  retry(cid: string, turnId: string): void {
+    this.emit(cid, { type: 'retry_started', data: { turnId, attempt: 1, maxRetries: 3 } });
+    this.play(cid, this.lastUserContent.get(cid) ?? '');
+  }
+
+  /**
+   * 重新生成助手回复：按该位置之前的用户消息回放场景，主回复使用客户端生成的版本 ID
+   */
+  regenerate(cid: string, groupId: string, variantId: string, model?: string): void {
+    const conversation = this.db.conversations.get(cid);
+    if (!conversation) return;
+    const position = conversation.messages.findIndex((message) => getMockVariantGroupId(message) === groupId);
+    const userMessage = conversation.messages
+      .slice(0, position === -1 ? undefined : position)
+      .reverse()
+      .find((message) => message.role === 'user');
+    this.play(cid, userMessage?.content ?? this.lastUserContent.get(cid) ?? '', { groupId, variantId, model });
+  }
+
+  /**
+   * 恢复中断
+   */
+  resumeInterrupt(cid: string): void {
+    const playback = this.playbacks.get(cid);
+    playback?.resume?.();
+  }
+
+  /**
+   * 停止生成
+   */
+  stop(cid: string): void {
+    const playback = this.playbacks.get(cid);
+    if (!playback) return;
+    playback.cancelled = true;
+    playback.resume?.();
+    this.playbacks.delete(cid);
+    this.setStatus(cid, 'idle');
+    this.emit(cid, { type: 'done', data: { reason: 'stopped' } });
+  }
+
+  /**
+   * 按步骤回放当前场景
+   */
+  private async play(cid: string, content: string, target?: RegenerateTarget): Promise<void> {
+    this.stop(cid);
+
+    const playback: Playback = { cancelled: false, resume: null };
+    this.playbacks.set(cid, playback);
+    this.setStatus(cid, 'busy');
+
+    const scenario = getMockScenario(this.getScenarioName());
+    // 重新生成时场景中的第一条消息即新版本
+    let variantAssigned = false;
+    const createId = (prefix: string) => {
+      if (target && prefix === 'msg' && !variantAssigned) {
+        variantAssigned = true;
+        return target.variantId;
+      }
+      return createMockId(prefix);
+    };
+    const steps = scenario.build({ cid, content, createId });
+    console.log(`[MockBackend] Playing scenario "${scenario.name}" (${steps.length} events) for ${cid}`);
+
+    for (const step of steps) {
+      await new Promise((resolve) => setTimeout(resolve, step.delayMs));
+      if (playback.cancelled) return;
+
+      this.applyStep(cid, step, target);
+      this.emit(cid, { type: step.type, data: step.data }, step.closeCode);
+
+      if (step.awaitResume) {
+        this.setStatus(cid, 'interrupted');
+        await new Promise<void>((resolve) => {
+          playback.resume = resolve;
+        });
+        playback.resume = null;
+        if (playback.cancelled) return;
+        this.setStatus(cid, 'busy');
+      }
+      if (step.closeCode !== undefined) break;
+    }
+
+    if (this.playbacks.get(cid) === playback) {
+      this.playbacks.delete(cid);
+      this.setStatus(cid, 'idle');
+    }
+  }
+
+  /**
+   * 将事件的持久化效果写入数据库（完成的助手消息、文件）
+   */
+  private applyStep(cid: string, step: MockStep, target?: RegenerateTarget): void {
+    const conversation = this.db.conversations.get(cid);
+    if (!conversation) return;
+
+    if (step.type === 'message_end' && target) {
+      // 重新生成：新版本加入版本组，会话历史中仍显示正在使用的版本
+      const data = step.data as MessageEndEventData;
+      if (data.messageId === target.variantId) {
+        const position = conversation.messages.findIndex((message) => getMockVariantGroupId(message) === target.groupId);
+        if (position === -1) return;
+        const original = conversation.messages[position];
+        const group = this.db.messageVariants.get(target.groupId) ?? { variants: [original], canonicalId: original.id };
+        const variant = createMockMessage(cid, 'assistant', data.content ?? '');
+        variant.id = target.variantId;
+        if (target.model) variant.metadata = { model: target.model };
+        group.variants.push(variant);
+        this.db.messageVariants.set(target.groupId, group);
+        syncMockVariants(conversation, target.groupId, group);
+      }
+    } else if (step.type === 'message_end') {
+      const data = step.data as MessageEndEventData;
+      const message = createMockMessage(cid, 'assistant', data.content ?? '');
+      message.id = data.messageId;
+      if (data.metadata?.usage) message.metadata = { usage: data.metadata.usage };
+      conversation.messages.push(message);
+      conversation.messageCount = conversation.messages.length;
+      conversation.lastMessage = message.content;
+    }
+
+    if (step.type === 'file_operation') {
+      const data = step.data as { path: string; content?: string };
+      conversation.files[data.path] = data.content ?? '';
+    }
+  }
+
+  private setStatus(cid: string, status: 'idle' | 'busy' | 'interrupted'): void {
+    const conversation = this.db.conversations.get(cid);
+    if (!conversation) return;
+    conversation.status = status;
+    conversation.updatedAt = nowIso();
+  }
+
+  /**
+   * 分配 seq、写入日志并推送给订阅者
+   */
+  private emit(cid: string, event: Pick<StreamEvent, 'type' | 'data'>, closeCode?: number): void {
+    const log = this.logs.get(cid) ?? [];
+    const full: StreamEvent = { ...event, cid, seq: log.length + 1, timestamp: Date.now() };
+    log.push(full);
+    this.logs.set(cid, log);
+
+    for (const listener of this.listeners.get(cid) ?? []) {
+      listener(full, closeCode);
+    }
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Mock 后端种子数据
+ * 内存数据库，页面刷新后重置；字段格式与真实后端响应一致（由 ApiClient 的 schema 校验）
+ */
+
+import type {
+  ContentItemDetailResponse,
+  ContextEntity,
+  ContextItem,
+  ContextPerson,
+  ContextSingleton,
+  ConversationDetailResponse,
+  ConversationOrganizationResponse,
+  ConversationShare,
+  FeedbackResponse,
+  Message,
+  ModelOption,
+  PlaybooksResponse,
+  Project,
+  SharedConversationSnapshot,
+  ToolOption,
+  TopicClusterResponse,
+  User,
+  UserSettings,
+} from '@/lib/api/client';
+
+// ============ 类型定义 ============
+
+/** 助手回复的版本组（与会话历史一样保存接口格式的消息） */
+export interface MockVariantGroup {
+  variants: Message[];
+  canonicalId: string;
+}
+
+/** Mock 内存数据库 */
+export interface MockDatabase {
+  user: User;
+  settings: UserSettings;
+  conversations: Map<string, ConversationDetailResponse>;
+  /** 消息反馈（按 messageId） */
+  feedback: Map<string, FeedbackResponse>;
+  /** 非当前分支的会话状态（按 `${cid}:${branchId}`） */
+  branchStates: Map<string, Pick<ConversationDetailResponse, 'messages' | 'todos' | 'files'>>;
+  /** 重新生成过的助手回复的全部版本（按最初回复的消息 ID） */
+  messageVariants: Map<string, MockVariantGroup>;
+  /** 会话整理：标签、文件夹、各会话的置顶 / 归档设置 */
+  organization: ConversationOrganizationResponse;
+  /** 会话分享链接及其快照（按分享 ID） */
+  shares: Map<string, { share: ConversationShare; snapshot: SharedConversationSnapshot }>;
+  projects: Project[];
+  /** 项目月度预算（USD，按项目 ID；没有记录表示未设置） */
+  projectBudgets: Map<string, number | null>;
+  clusters: TopicClusterResponse[];
+  contentItems: ContentItemDetailResponse[];
+  singletons: Map<string, ContextSingleton>;
+  contextItems: ContextItem[];
+  contextPersons: ContextPerson[];
+  contextEntities: ContextEntity[];
+}
+
+// ============ 辅助函数 ============
+
+let idCounter = 0;
+
+/** 生成 mock ID */
+export function createMockId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter}`;
+}
+
+/** 当前时间（ISO） */
+export function nowIso(): string {
+  return new Date().toISOString();
+}
+
+/** 构造消息 */
+export function createMockMessage(cid: string, role: Message['role'], content: string): Message {
+  return {
+    id: createMockId('msg'),
+    cid,
+    role,
+    content,
+    metadata: null,
+    toolCalls: null,
+    toolCallId: null,
+    createdAt: nowIso(),
+  };
+}
+
+/** 消息所在位置的版本组 ID（最初回复的消息 ID） */
+export function getMockVariantGroupId(message: Message): string {
+  return (message.metadata?.variants as { groupId?: string } | undefined)?.groupId ?? message.id;
+}
+
+/**
+ * 按版本组更新各版本的 metadata.variants，并让会话历史中该位置显示正在使用的版本
+ */
+export function syncMockVariants(conversation: ConversationDetailResponse, groupId: string, group: MockVariantGroup): void {
+  group.variants.forEach((variant, index) => {
+    variant.metadata = {
+      ...variant.metadata,
+      variants: { groupId, count: group.variants.length, index, canonicalId: group.canonicalId },
+    };
+  });
+  const position = conversation.messages.findIndex((message) => getMockVariantGroupId(message) === groupId);
+  const canonical = group.variants.find((variant) => variant.id === group.canonicalId);
+  if (position !== -1 && canonical) {
+    conversation.messages[position] = canonical;
+  }
+}
+
+// ============ 静态数据 ============
+
+export const MOCK_USER_ID = 'mock-user';
+
+export const MOCK_MODELS: ModelOption[] = [
+  {
+    id: 'mock/fast',
+    name: 'Mock Fast',
+    provider: 'mock',
+    description: 'Replays scripted responses instantly',
+    context_window: 128000,
+    supports_vision: true,
+    supports_tools: true,
+    pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  },
+  {
+    id: 'mock/slow',
+    name: 'Mock Slow',
+    provider: 'mock',
+    description: 'Replays scripted responses with long pauses',
+    context_window: 200000,
+    supports_vision: false,
+    supports_tools: true,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+  },
+];
+
+export const MOCK_TOOLS: ToolOption[] = [
+  {
+    id: 'web_search',
+    name: 'web_search',
+    displayName: 'Web Search',
+    description: 'Search the web',
+    category: 'research',
+    isEnabled: true,
+    usedByAgents: ['researcher'],
+    usedByOrchestrator: true,
+  },
+  {
+    id: 'fetch_url',
+    name: 'fetch_url',
+    displayName: 'Fetch URL',
+    description: 'Fetch a web page',
+    category: 'research',
+    isEnabled: true,
+    usedByAgents: ['researcher'],
+    usedByOrchestrator: false,
+  },
+  {
+    id: 'write_file',
+    name: 'write_file',
+    displayName: 'Write File',
+    description: 'Write a file to the workspace',
+    category: 'files',
+    isEnabled: true,
+    usedByAgents: [],
+    usedByOrchestrator: true,
+  },
+];
+
+export const MOCK_PLAYBOOKS: PlaybooksResponse = {
+  categories: [
+    {
+      category: 'research',
+      category_name: 'Research',
+      playbooks: [
+        {
+          id: 'mock-keyword-research',
+          skill_id: 'keyword-research',
+          name: 'Keyword Research',
+          description: 'Find keyword opportunities for your site',
+          difficulty: 'beginner',
+          tags: ['seo'],
+          auto_actions: [],
+          artifacts: ['keywords.md'],
+          has_configure: false,
+          category: 'research',
+        },
+      ],
+    },
+    {
+      category: 'build',
+      category_name: 'Build',
+      playbooks: [
+        {
+          id: 'mock-blog-post',
+          skill_id: 'blog-post',
+          name: 'Blog Post',
+          description: 'Draft a blog post from a target keyword',
+          difficulty: 'intermediate',
+          tags: ['content'],
+          auto_actions: [],
+          artifacts: ['post.md'],
+          has_configure: true,
+          category: 'build',
+        },
+      ],
+    },
+  ],
+};
+
+// ============ 种子数据 ============
+
+function seedConversation(title: string, exchanges: Array<[string, string]>): ConversationDetailResponse {
+  const cid = createMockId('conv');
+  const messages = exchanges.flatMap(([question, answer]) => [
+    createMockMessage(cid, 'user', question),
+    createMockMessage(cid, 'assistant', answer),
+  ]);
+  const timestamp = nowIso();
+  return {
+    cid,
+    title,
+    status: 'idle',
+    messageCount: messages.length,
+    lastMessage: messages[messages.length - 1]?.content ?? null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    messages,
+    todos: [],
+    files: {},
+  };
+}
+
+/**
+ * 创建初始数据库
+ */
+export function createMockDatabase(): MockDatabase {
+  const timestamp = nowIso();
+
+  const conversations = [
+    seedConversation('Welcome to the mock backend', [
+      ['What is this?', 'Every response here comes from the in-browser mock backend. Send a message to replay the configured scenario.'],
+    ]),
+    seedConversation('Keyword ideas', [
+      ['Suggest keywords for a coffee blog', '- pour over ratio\n- best burr grinder\n- cold brew concentrate'],
+    ]),
+  ];
+
+  const project: Project = {
+    id: 'mock-project',
+    name: 'Mock Coffee Co.',
+    domain: 'coffee.example.com',
+    websiteUrl: 'https://coffee.example.com',
+    settings: {},
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  const cluster: TopicClusterResponse = {
+    id: 'mock-cluster',
+    user_id: MOCK_USER_ID,
+    project_id: project.id,
+    name: 'Brewing guides',
+    description: 'How-to content for home brewers',
+    status: 'active',
+    item_count: 1,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+
+  const contentItem: ContentItemDetailResponse = {
+    id: 'mock-item',
+    user_id: MOCK_USER_ID,
+    project_id: project.id,
+    topic_cluster_id: cluster.id,
+    conversation_id: null,
+    title: 'The Complete Pour Over Guide',
+    slug: 'pour-over-guide',
+    page_type: 'guide',
+    target_keyword: 'pour over ratio',
+    seo_title: null,
+    seo_description: null,
+    outline: null,
+    keyword_data: null,
+    serp_insights: null,
+    reference_urls: null,
+    internal_links: null,
+    estimated_word_count: 1800,
+    priority: 3,
+    status: 'draft',
+    notes: null,
+    generated_content: null,
+    topic_cluster_name: cluster.name,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+
+  const brandSingleton: ContextSingleton = {
+    user_id: MOCK_USER_ID,
+    section: 'brand_info',
+    data: { name: project.name, tagline: 'Small-batch roasts, delivered', domain: project.domain },
+    version: 1,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  };
+
+  return {
+    user: {
+      id: MOCK_USER_ID,
+      email: 'dev@example.com',
+      name: 'Mock Developer',
+      avatar: null,
+      created_at: timestamp,
+    },
+    settings: {
+      orchestratorModel: MOCK_MODELS[0].id,
+      defaultSubagentModel: MOCK_MODELS[0].id,
+      subagentModels: {},
+      enabledTools: MOCK_TOOLS.map((tool) => tool.id),
+      theme: 'light',
+      showTokenUsage: true,
+    },
+    conversations: new Map(conversations.map((conversation) => [conversation.cid, conversation])),
+    feedback: new Map(),
+    branchStates: new Map(),
+    messageVariants: new Map(),
+    organization: { tags: [], folders: [], conversations: {} },
+    shares: new Map(),
+    projects: [project],
+    projectBudgets: new Map(),
+    clusters: [cluster],
+    contentItems: [contentItem],
+    singletons: new Map([[brandSingleton.section, brandSingleton]]),
+    contextItems: [],
+    contextPersons: [],
+    contextEntities: [],
+  };
+}
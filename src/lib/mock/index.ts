@@ -0,0 +1,70 @@
+/**
+ * 本地 Mock 后端
+ *
+ * 仅开发构建可用（由 Providers 动态加载，不会打包进生产构建）。
+ * 开启后（NEXT_PUBLIC_MOCK_BACKEND=true 或 saveMockBackendConfig({ enabled: true })）在浏览器内替换：
+ * - fetch：API 基础地址下的请求和健康检查由 MockBackend 处理，其他请求照常发出
+ * - WebSocket：/ws/chat 连接由 MockWebSocket 处理
+ * 应用代码（ApiClient、各传输方式、useStream reducer）不需要任何改动，可离线开发和做端到端测试。
+ * 场景通过 NEXT_PUBLIC_MOCK_SCENARIO 或 saveMockBackendConfig({ scenario }) 选择，见 scenarios.ts
+ */
+
+import { apiClient } from '@/lib/api/client';
+import { getMockBackendConfig } from '@/lib/config';
+import { MockBackend } from './server';
+import { MockWebSocket } from './socket';
+
+export { registerMockScenario, recordedScenario, listMockScenarios, type MockScenario, type MockStep } from './scenarios';
+export type { MockBackend } from './server';
+
+let installed: MockBackend | null = null;
+
+/**
+ * 按配置安装 Mock 后端（未开启时不做任何事），需在发出任何请求前调用
+ * @returns 已安装的 MockBackend；未开启时返回 null
+ */
+export function installMockBackend(): MockBackend | null {
+  if (typeof window === 'undefined') return null;
+  if (installed) return installed;
+
+  const config = getMockBackendConfig();
+  if (!config.enabled) return null;
+
+  const backend = new MockBackend({
+    latencyMs: config.latencyMs,
+    // 每次发送消息时读取，测试可以在运行中切换场景
+    getScenarioName: () => getMockBackendConfig().scenario,
+  });
+
+  const realFetch = window.fetch.bind(window);
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const baseUrl = new URL(apiClient.getBaseUrl(), window.location.href);
+    const url = new URL(request.url);
+
+    if (url.origin === baseUrl.origin) {
+      if (url.pathname === baseUrl.pathname.replace(/\/api$/, '/health')) {
+        return new Response(JSON.stringify({ status: 'ok' }), { status: 200 });
+      }
+      if (url.pathname.startsWith(baseUrl.pathname)) {
+        return backend.handle(request, url.pathname.slice(baseUrl.pathname.length) || '/');
+      }
+    }
+    return realFetch(input, init);
+  };
+
+  const RealWebSocket = window.WebSocket;
+  window.WebSocket = new Proxy(RealWebSocket, {
+    construct(target, args: [string | URL, (string | string[])?]) {
+      const [url, protocols] = args;
+      if (String(url).includes('/ws/chat')) {
+        return new MockWebSocket(String(url), backend.events) as unknown as WebSocket;
+      }
+      return new target(url, protocols);
+    },
+  });
+
+  installed = backend;
+  console.info(`[MockBackend] Installed (scenario: ${config.scenario})`);
+  return backend;
+}
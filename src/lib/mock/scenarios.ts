@@ -0,0 +1,304 @@
+/**
+ * Mock 后端脚本化事件序列
+ *
+ * 每个场景在用户发送消息后生成一组 StreamEvent，由 MockEventEmitter 按延迟依次推送
+ * （WebSocket 和 SSE 共用）。内置场景覆盖工具调用、子代理、中断、频率限制和会话被替换；
+ * 也可以用 recordedScenario() 从录制的事件序列（如 WebSocket 帧导出）创建场景并注册
+ */
+
+import type {
+  InterruptEventData,
+  MessageDeltaEventData,
+  MessageEndEventData,
+  MessageStartEventData,
+  StreamEvent,
+  StreamEventType,
+  SubAgentEndEventData,
+  SubAgentStartEventData,
+  ToolCallResultEventData,
+  ToolCallStartEventData,
+  TokenUsageSummary,
+} from '@/app/types/types';
+
+// ============ 类型定义 ============
+
+/** 场景中的一步 */
+export interface MockStep {
+  /** 距上一步的延迟（毫秒） */
+  delayMs: number;
+  type: StreamEventType;
+  data: unknown;
+  /** 推送后暂停，直到客户端恢复中断（resume_interrupt） */
+  awaitResume?: boolean;
+  /** 推送后关闭连接（WebSocket 使用该关闭码，SSE 结束事件流） */
+  closeCode?: number;
+}
+
+/** 场景生成上下文 */
+export interface MockScenarioContext {
+  cid: string;
+  /** 用户发送的消息内容 */
+  content: string;
+  /** 生成唯一 ID */
+  createId: (prefix: string) => string;
+}
+
+/** 脚本化场景 */
+export interface MockScenario {
+  name: string;
+  description: string;
+  build: (context: MockScenarioContext) => MockStep[];
+}
+
+// ============ 步骤构造 ============
+
+/** 按文本长度粗略生成使用量（约 4 个字符一个 token，固定的系统提示词部分视为缓存命中） */
+function mockUsage(text: string): TokenUsageSummary {
+  const completionTokens = Math.max(1, Math.ceil(text.length / 4));
+  const promptTokens = 1200 + completionTokens * 3;
+  return {
+    totalTokens: promptTokens + completionTokens,
+    promptTokens,
+    completionTokens,
+    cachedTokens: 1024,
+    totalCost: 0,
+    callCount: 1,
+  };
+}
+
+/** 流式输出一条完整的助手消息（message_start → message_delta × n → message_end） */
+function streamMessage(
+  messageId: string,
+  text: string,
+  options: { parentMessageId?: string; subagentName?: string; chunkDelayMs?: number } = {}
+): MockStep[] {
+  const start: MessageStartEventData = {
+    messageId,
+    role: 'assistant',
+    parentMessageId: options.parentMessageId,
+    subagentName: options.subagentName,
+  };
+  const chunks = text.match(/\S+\s*/g) ?? [text];
+  const end: MessageEndEventData = { messageId, content: text, metadata: { usage: mockUsage(text) } };
+
+  return [
+    { delayMs: 120, type: 'message_start', data: start },
+    ...chunks.map((chunk): MockStep => ({
+      delayMs: options.chunkDelayMs ?? 40,
+      type: 'message_delta',
+      data: { messageId, delta: chunk } satisfies MessageDeltaEventData,
+    })),
+    { delayMs: 60, type: 'message_end', data: end },
+  ];
+}
+
+/** 一次工具调用（tool_call_start → tool_call_result） */
+function toolCall(
+  messageId: string,
+  toolCallId: string,
+  name: string,
+  args: Record<string, unknown>,
+  result: unknown,
+  durationMs = 600
+): MockStep[] {
+  const start: ToolCallStartEventData = {
+    messageId,
+    toolCall: { id: toolCallId, name, type: 'function', arguments: args, status: 'running', startedAt: new Date().toISOString() },
+  };
+  const end: ToolCallResultEventData = {
+    messageId,
+    toolCallId,
+    toolName: name,
+    result,
+    durationMs,
+    status: 'success',
+  };
+  return [
+    { delayMs: 150, type: 'tool_call_start', data: start },
+    { delayMs: durationMs, type: 'tool_call_result', data: end },
+  ];
+}
+
+const done = (delayMs = 80): MockStep => ({ delayMs, type: 'done', data: null });
+
+// ============ 内置场景 ============
+
+const basicScenario: MockScenario = {
+  name: 'basic',
+  description: 'Streams a short markdown answer',
+  build: ({ content, createId }) => [
+    ...streamMessage(
+      createId('msg'),
+      `You said: **${content.slice(0, 200)}**\n\nThis reply was streamed by the mock backend, one word at a time.`
+    ),
+    done(),
+  ],
+};
+
+const toolCallsScenario: MockScenario = {
+  name: 'tool_calls',
+  description: 'Searches the web, writes a file, then answers',
+  build: ({ content, createId }) => {
+    const messageId = createId('msg');
+    const searchId = createId('call');
+    const writeId = createId('call');
+    const report = `# Findings\n\n- Query: ${content.slice(0, 80)}\n- Sources: 2\n`;
+    return [
+      { delayMs: 100, type: 'message_start', data: { messageId, role: 'assistant' } satisfies MessageStartEventData },
+      ...toolCall(messageId, searchId, 'web_search', { query: content.slice(0, 80) }, {
+        results: [
+          { title: 'Example result', url: 'https://example.com/a' },
+          { title: 'Another result', url: 'https://example.com/b' },
+        ],
+      }, 900),
+      {
+        delayMs: 200,
+        type: 'tool_progress',
+        data: { toolCallId: writeId, toolName: 'write_file', status: 'running', message: 'Writing report…', elapsed_ms: 200 },
+      },
+      ...toolCall(messageId, writeId, 'write_file', { path: '/report.md' }, 'File written', 400),
+      {
+        delayMs: 20,
+        type: 'file_operation',
+        data: { operation: 'write', path: '/report.md', content: report, language: 'markdown', toolCallId: writeId, editable: true },
+      },
+      ...streamMessage(messageId, 'I searched the web and saved a short report to `/report.md`.').slice(1),
+      done(),
+    ];
+  },
+};
+
+const subagentScenario: MockScenario = {
+  name: 'subagent',
+  description: 'Delegates research to a subagent',
+  build: ({ content, createId }) => {
+    const messageId = createId('msg');
+    const taskId = createId('call');
+    const subMessageId = createId('msg');
+    const subagentName = 'researcher';
+    const taskDescription = `Research: ${content.slice(0, 80)}`;
+    const subagentReply = 'Looking into it… found three relevant sources.';
+    const taskStart: ToolCallStartEventData = {
+      messageId,
+      toolCall: { id: taskId, name: 'task', type: 'subagent', arguments: { subagent_type: subagentName, description: taskDescription } },
+      targetSubagent: subagentName,
+    };
+    return [
+      { delayMs: 100, type: 'message_start', data: { messageId, role: 'assistant' } satisfies MessageStartEventData },
+      { delayMs: 150, type: 'tool_call_start', data: taskStart },
+      { delayMs: 100, type: 'subagent_start', data: { messageId, subagentName, taskDescription } satisfies SubAgentStartEventData },
+      ...streamMessage(subMessageId, subagentReply, {
+        parentMessageId: messageId,
+        subagentName,
+      }),
+      { delayMs: 100, type: 'subagent_end', data: { messageId, subagentName, status: 'success', usage: mockUsage(subagentReply) } satisfies SubAgentEndEventData },
+      {
+        delayMs: 50,
+        type: 'tool_call_result',
+        data: { messageId, toolCallId: taskId, toolName: 'task', result: 'Found three relevant sources.', status: 'success' } satisfies ToolCallResultEventData,
+      },
+      ...streamMessage(messageId, 'The researcher subagent found three relevant sources.').slice(1),
+      done(),
+    ];
+  },
+};
+
+const interruptScenario: MockScenario = {
+  name: 'interrupt',
+  description: 'Asks for approval before running a tool',
+  build: ({ createId }) => {
+    const messageId = createId('msg');
+    const interrupt: InterruptEventData = {
+      interruptId: createId('interrupt'),
+      reason: 'Tool execution requires approval',
+      actionRequests: [
+        { name: 'write_file', args: { path: '/draft.md' }, description: 'Write the draft to /draft.md' },
+      ],
+      reviewConfigs: [{ actionName: 'write_file', allowedDecisions: ['approve', 'reject', 'edit'] }],
+    };
+    return [
+      ...streamMessage(messageId, 'I need your approval before writing the draft.'),
+      { delayMs: 100, type: 'interrupt', data: interrupt, awaitResume: true },
+      ...streamMessage(createId('msg'), 'Thanks, the decision has been applied.'),
+      done(),
+    ];
+  },
+};
+
+const rateLimitedScenario: MockScenario = {
+  name: 'rate_limited',
+  description: 'Rejects the connection with a rate limit',
+  build: () => [
+    { delayMs: 100, type: 'rate_limited', data: { message: 'Too many connection attempts (mock)', retry_after: 30 }, closeCode: 4429 },
+  ],
+};
+
+const sessionReplacedScenario: MockScenario = {
+  name: 'session_replaced',
+  description: 'Starts answering, then kicks the connection as if another tab took over',
+  build: ({ createId }) => [
+    ...streamMessage(createId('msg'), 'Starting to answer…').slice(0, 3),
+    {
+      delayMs: 300,
+      type: 'session_replaced',
+      data: { message: 'Your session was opened in another window (mock)' },
+      closeCode: 4002,
+    },
+  ],
+};
+
+// ============ 场景注册 ============
+
+const scenarios = new Map<string, MockScenario>(
+  [basicScenario, toolCallsScenario, subagentScenario, interruptScenario, rateLimitedScenario, sessionReplacedScenario]
+    .map((scenario) => [scenario.name, scenario])
+);
+
+/** 注册场景（同名覆盖） */
+export function registerMockScenario(scenario: MockScenario): void {
+  scenarios.set(scenario.name, scenario);
+}
+
+/** 获取场景，未知名称回退到 basic */
+export function getMockScenario(name: string): MockScenario {
+  const scenario = scenarios.get(name);
+  if (!scenario) {
+    console.warn(`[MockBackend] Unknown scenario "${name}", falling back to "basic"`);
+    return basicScenario;
+  }
+  return scenario;
+}
+
+/** 列出所有场景 */
+export function listMockScenarios(): MockScenario[] {
+  return Array.from(scenarios.values());
+}
+
+/**
+ * 从录制的事件序列创建场景
+ * 按原始 timestamp 间隔回放（缺失时使用 defaultDelayMs），事件的 cid / seq 由回放时重新分配
+ */
+export function recordedScenario(
+  name: string,
+  description: string,
+  events: StreamEvent[],
+  defaultDelayMs = 50
+): MockScenario {
+  return {
+    name,
+    description,
+    build: () =>
+      events.map((event, index): MockStep => {
+        const previous = events[index - 1];
+        const delayMs = previous?.timestamp && event.timestamp
+          ? Math.max(0, event.timestamp - previous.timestamp)
+          : defaultDelayMs;
+        return {
+          delayMs,
+          type: event.type,
+          data: event.data,
+          awaitResume: event.type === 'interrupt',
+        };
+      }),
+  };
+}
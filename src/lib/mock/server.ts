@@ -0,0 +1,1021 @@
+/**
+ * Mock 后端 REST 路由
+ *
+ * 在浏览器内实现 ApiClient 使用的 REST 端点（数据保存在内存中），以及 SSE 事件流 GET /chat/stream。
+ * 未实现的端点返回 404（code MOCK_NOT_IMPLEMENTED），便于发现遗漏
+ */
+
+import type {
+  ApiClient,
+  ContextAllRecord,
+  ContextAllResponse,
+  ContextAllSection,
+  ContextEntity,
+  ContextEntityCreate,
+  ContextItem,
+  ContextItemCreate,
+  ContextPerson,
+  ContextPersonCreate,
+  Conversation,
+  ConversationBranch,
+  ConversationDetailResponse,
+  ConversationOrganizationUpdate,
+  ConversationSearchHit,
+  ConversationShare,
+  CreateConversationShareRequest,
+  CreateProjectRequest,
+  FeedbackCreateRequest,
+  FeedbackResponse,
+  Project,
+  ProjectModelUsage,
+  ProjectUsageDay,
+  ProjectUsageResponse,
+  SearchMatchSource,
+  UpdateProjectRequest,
+  UserSettings,
+} from '@/lib/api/client';
+import type { MessageMention, StreamEvent } from '@/app/types/types';
+import { MAIN_BRANCH_ID } from '@/lib/stream/branches';
+import { estimateCost } from '@/lib/usage';
+import {
+  applyOrganizationUpdate,
+  removeFolderFromConversations,
+  removeTagFromConversations,
+} from '@/lib/organization';
+import {
+  MOCK_MODELS,
+  MOCK_PLAYBOOKS,
+  MOCK_TOOLS,
+  MOCK_USER_ID,
+  createMockDatabase,
+  createMockId,
+  getMockVariantGroupId,
+  nowIso,
+  syncMockVariants,
+  type MockDatabase,
+} from './fixtures';
+import { MockEventEmitter } from './emitter';
+
+// ============ 类型定义 ============
+
+/** 路由处理上下文（body 为 ApiClient 发送的请求体，没有请求体时为 undefined） */
+interface RouteContext<B = unknown> {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: B | undefined;
+  signal: AbortSignal | null;
+}
+
+/** 路由处理函数：返回 Response 原样发送，其他值序列化为 JSON，undefined 返回 204 */
+type RouteHandler<B = unknown> = (context: RouteContext<B>) => unknown | Promise<unknown>;
+
+/** ApiClient 方法的参数（请求体按这些参数组装） */
+type ClientArgs<M extends keyof ApiClient> = ApiClient[M] extends (...args: infer A) => unknown ? A : never;
+
+/** Context 记录集合的更新请求（带乐观锁版本号） */
+type VersionedUpdate<C> = Partial<C> & { expected_version?: number };
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+/** 带版本号的 Context 记录 */
+type VersionedRecord = { id: string; category: string; section: string; version: number; updated_at: string };
+
+// ============ 响应辅助 ============
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, code: string, message: string): Response {
+  return json({ error: { code, message } }, status);
+}
+
+function notFound(what: string): Response {
+  return errorResponse(404, 'NOT_FOUND', `${what} not found`);
+}
+
+function toConversation(detail: ConversationDetailResponse): Conversation {
+  const { cid, title, status, messageCount, lastMessage, createdAt, updatedAt } = detail;
+  return { cid, title, status, messageCount, lastMessage, createdAt, updatedAt };
+}
+
+/** 列表分页（limit / offset 查询参数） */
+function paginate<T>(items: T[], query: URLSearchParams, defaultLimit = 50) {
+  const limit = Number(query.get('limit')) || defaultLimit;
+  const offset = Number(query.get('offset')) || 0;
+  return {
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    limit,
+    offset,
+    has_more: offset + limit < items.length,
+  };
+}
+
+/** 搜索结果片段：命中处前后各保留一段上下文，返回片段内的命中区间 */
+function searchSnippet(text: string, query: string): Pick<ConversationSearchHit, 'snippet' | 'highlights'> | null {
+  const lower = text.toLowerCase();
+  const first = lower.indexOf(query);
+  if (first === -1) return null;
+
+  const start = Math.max(0, first - 60);
+  const end = Math.min(text.length, first + query.length + 120);
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+
+  // 折叠空白后重新定位命中
+  const highlights: ConversationSearchHit['highlights'] = [];
+  const snippetLower = snippet.toLowerCase();
+  for (let index = snippetLower.indexOf(query); index !== -1; index = snippetLower.indexOf(query, index + query.length)) {
+    highlights.push({ start: index, end: index + query.length });
+  }
+  return { snippet, highlights };
+}
+
+/** 由字符串得到 0-1 之间的稳定伪随机数（同一项目同一天的用量不变） */
+function seededRandom(seed: string): number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  return (Math.abs(hash) % 1000) / 1000;
+}
+
+/** 项目某一天各模型的用量（按 MOCK_MODELS 的价格计算成本） */
+function mockDailyModelUsage(projectId: string, date: string): ProjectModelUsage[] {
+  return MOCK_MODELS.map((model, index) => {
+    const callCount = Math.round(seededRandom(`${projectId}:${date}:${model.id}`) * (index === 0 ? 60 : 15));
+    const promptTokens = callCount * 2400;
+    const completionTokens = callCount * 600;
+    const cachedTokens = callCount * 1024;
+    const cost = model.pricing ? estimateCost({ promptTokens, completionTokens, cachedTokens }, model.pricing) : 0;
+    return {
+      model: model.id,
+      promptTokens,
+      completionTokens,
+      cachedTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost,
+      callCount,
+    };
+  });
+}
+
+/** 项目最近 days 天的用量（每日和按模型汇总）以及本月预算 */
+function buildMockProjectUsage(db: MockDatabase, projectId: string, days: number): ProjectUsageResponse {
+  const today = new Date();
+  const dates = Array.from({ length: days }, (_, index) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() - (days - 1 - index));
+    return date.toISOString().slice(0, 10);
+  });
+
+  const byModel = new Map<string, ProjectModelUsage>();
+  const dayRows: ProjectUsageDay[] = dates.map((date) => {
+    const day: ProjectUsageDay = { date, promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0, cost: 0, callCount: 0 };
+    for (const usage of mockDailyModelUsage(projectId, date)) {
+      const total = byModel.get(usage.model) ?? { ...usage, promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0, cost: 0, callCount: 0 };
+      for (const key of ['promptTokens', 'completionTokens', 'cachedTokens', 'totalTokens', 'cost', 'callCount'] as const) {
+        day[key] += usage[key];
+        total[key] += usage[key];
+      }
+      byModel.set(usage.model, total);
+    }
+    return day;
+  });
+
+  // 本月至今的成本（与请求的天数范围无关）
+  const monthPrefix = today.toISOString().slice(0, 7);
+  let monthToDateCost = 0;
+  for (let day = 1; day <= today.getDate(); day++) {
+    const date = `${monthPrefix}-${String(day).padStart(2, '0')}`;
+    monthToDateCost += mockDailyModelUsage(projectId, date).reduce((sum, usage) => sum + usage.cost, 0);
+  }
+
+  return {
+    days: dayRows,
+    byModel: Array.from(byModel.values()).filter((usage) => usage.callCount > 0),
+    budget: { monthlyLimitUsd: db.projectBudgets.get(projectId) ?? null, monthToDateCost },
+  };
+}
+
+// ============ Mock 后端类 ============
+
+export class MockBackend {
+  readonly db: MockDatabase;
+  readonly events: MockEventEmitter;
+  private routes: Route[] = [];
+
+  constructor(private options: { latencyMs: number; getScenarioName: () => string }) {
+    this.db = createMockDatabase();
+    this.events = new MockEventEmitter(this.db, options.getScenarioName);
+    this.registerRoutes();
+  }
+
+  /**
+   * 处理请求
+   * @param path 去掉 API 基础路径后的路径（如 /conversations）
+   */
+  async handle(request: Request, path: string): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      let body: unknown = undefined;
+      const text = method === 'GET' || method === 'HEAD' ? '' : await request.text();
+      if (text) {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          body = text;
+        }
+      }
+
+      if (this.options.latencyMs > 0 && path !== '/chat/stream') {
+        await new Promise((resolve) => setTimeout(resolve, this.options.latencyMs));
+      }
+
+      const result = await route.handler({ params, query: url.searchParams, body, signal: request.signal });
+      if (result instanceof Response) return result;
+      if (result === undefined) return new Response(null, { status: 204 });
+      return json(result);
+    }
+
+    console.warn(`[MockBackend] No handler for ${method} ${path}`);
+    return errorResponse(404, 'MOCK_NOT_IMPLEMENTED', `Mock backend does not implement ${method} ${path}`);
+  }
+
+  // ============ 路由注册 ============
+
+  /** 注册路由；B 为该端点的请求体类型（由 ApiClient 按该类型发送） */
+  private on<B = unknown>(method: string, path: string, handler: RouteHandler<B>): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({
+      method,
+      pattern: new RegExp(`^${source}/?$`),
+      keys,
+      handler: (context) => handler({ ...context, body: context.body as B | undefined }),
+    });
+  }
+
+  private registerRoutes(): void {
+    this.registerAuthRoutes();
+    this.registerConversationRoutes();
+    this.registerChatRoutes();
+    this.registerContextRoutes();
+    this.registerProjectRoutes();
+  }
+
+  private registerAuthRoutes(): void {
+    const { db } = this;
+    const login = () => ({
+      token: `mock-token-${Date.now()}`,
+      sessionToken: 'mock-session',
+      refreshToken: 'mock-refresh-token',
+      user: db.user,
+      settings: db.settings,
+    });
+
+    this.on<{ email: string; password: string }>('POST', '/auth/login', ({ body }) => {
+      if (body?.email) db.user.email = body.email;
+      return login();
+    });
+    this.on('POST', '/auth/oauth/google', () => ({ ...login(), isNewUser: false }));
+    this.on('POST', '/auth/register', () => ({ success: true, message: 'Registered (mock)' }));
+    this.on('POST', '/auth/logout', () => undefined);
+    this.on('POST', '/auth/refresh', () => ({ token: `mock-token-${Date.now()}`, refreshToken: 'mock-refresh-token' }));
+    this.on('GET', '/auth/me', () => ({ user: db.user, settings: db.settings, isAdmin: true }));
+    this.on<ClientArgs<'updateProfile'>[0]>('PUT', '/auth/profile', ({ body }) => Object.assign(db.user, body));
+    this.on('POST', '/auth/password', () => undefined);
+    this.on('GET', '/auth/oauth/providers', () => ({ google: false }));
+
+    this.on('POST', '/sessions', () => ({
+      id: 'mock-session',
+      session_token: 'mock-session',
+      device_type: 'desktop',
+      started_at: nowIso(),
+      last_activity_at: nowIso(),
+      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    }));
+    this.on('DELETE', '/sessions/current', () => undefined);
+    this.on('GET', '/sessions/turns/conversation/:cid/failed', () => ({ turns: [], retryableCount: 0 }));
+
+    this.on('GET', '/settings', () => db.settings);
+    this.on<Partial<UserSettings>>('PUT', '/settings', ({ body }) => Object.assign(db.settings, body));
+
+    this.on('GET', '/models', () => ({ models: MOCK_MODELS }));
+    this.on('GET', '/models/grouped', () => ({
+      providers: [{ providerId: 'mock', providerName: 'Mock', icon: '', models: MOCK_MODELS }],
+    }));
+    this.on('GET', '/models/defaults', () => ({
+      orchestratorModel: MOCK_MODELS[0].id,
+      defaultSubagentModel: MOCK_MODELS[0].id,
+    }));
+    this.on('GET', '/models/subagents', () => ({
+      subagents: [{ name: 'researcher', description: 'Web research', category: 'research', tools: ['web_search'], defaultModel: MOCK_MODELS[0].id }],
+    }));
+    this.on('GET', '/tools', () => ({ tools: MOCK_TOOLS }));
+    this.on('GET', '/config/tools', () => MOCK_TOOLS);
+    this.on('GET', '/config/agents', () => []);
+    this.on('GET', '/config/admins', () => [db.user]);
+    this.on('GET', '/config/prompts/defaults', () => []);
+    this.on('GET', '/config/orchestrator', () => ({
+      modelId: db.settings.orchestratorModel,
+      systemPrompt: '',
+      tools: MOCK_TOOLS.map((tool) => tool.id),
+      subagents: [],
+      enabledSubagentCount: 0,
+      hasSubagents: false,
+      isModelOverridden: false,
+      isPromptOverridden: false,
+      isToolsOverridden: false,
+    }));
+
+    this.on('GET', '/playbooks', () => MOCK_PLAYBOOKS);
+    this.on('GET', '/onboarding/status', () => ({ status: 'completed', completedSteps: [] }));
+  }
+
+  private registerConversationRoutes(): void {
+    const { db } = this;
+    const requireConversation = (cid: string) => db.conversations.get(cid);
+
+    this.on('GET', '/conversations', ({ query }) => {
+      const status = query.get('status');
+      const all = Array.from(db.conversations.values())
+        .filter((conversation) => !status || conversation.status === status)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toConversation);
+      const page = paginate(all, query, 20);
+      return {
+        items: page.items,
+        total: page.total,
+        page: Math.floor(page.offset / page.limit) + 1,
+        pageSize: page.limit,
+        hasMore: page.has_more,
+      };
+    });
+
+    // 全文搜索（不区分大小写的子串匹配）；mock 会话不属于任何项目，忽略 project_id
+    this.on('GET', '/search', ({ query }) => {
+      const q = (query.get('q') ?? '').trim().toLowerCase();
+      const status = query.get('status');
+      const from = query.get('from');
+      const to = query.get('to');
+      if (!q) return { hits: [], total: 0, nextCursor: null };
+
+      const hits: ConversationSearchHit[] = [];
+      for (const conversation of db.conversations.values()) {
+        if (status && conversation.status !== status) continue;
+        const base = {
+          cid: conversation.cid,
+          conversationTitle: conversation.title,
+          conversationStatus: conversation.status,
+        };
+
+        for (const message of conversation.messages) {
+          if ((from && message.createdAt < from) || (to && message.createdAt > to)) continue;
+          const fields: Array<{ source: SearchMatchSource; text: string; toolName: string | null }> = [
+            { source: 'message', text: message.content ?? '', toolName: null },
+            ...(message.toolCalls ?? []).map((toolCall) => ({
+              source: 'tool_args' as const,
+              text: JSON.stringify(toolCall.args),
+              toolName: toolCall.name,
+            })),
+          ];
+          for (const field of fields) {
+            const match = searchSnippet(field.text, q);
+            if (!match) continue;
+            hits.push({
+              ...base,
+              ...match,
+              messageId: message.id,
+              role: message.role,
+              source: field.source,
+              toolName: field.toolName,
+              filePath: null,
+              createdAt: message.createdAt,
+            });
+          }
+        }
+
+        for (const path of Object.keys(conversation.files)) {
+          const match = searchSnippet(path, q);
+          if (!match) continue;
+          hits.push({
+            ...base,
+            ...match,
+            messageId: null,
+            role: null,
+            source: 'file',
+            toolName: null,
+            filePath: path,
+            createdAt: conversation.updatedAt,
+          });
+        }
+      }
+
+      hits.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      const limit = Number(query.get('limit')) || 20;
+      const offset = Number(query.get('cursor')) || 0;
+      return {
+        hits: hits.slice(offset, offset + limit),
+        total: hits.length,
+        nextCursor: offset + limit < hits.length ? String(offset + limit) : null,
+      };
+    });
+
+    this.on<{ title?: string }>('POST', '/conversations', ({ body }) => {
+      const cid = createMockId('conv');
+      const timestamp = nowIso();
+      const conversation: ConversationDetailResponse = {
+        cid,
+        title: body?.title ?? '',
+        status: 'idle',
+        messageCount: 0,
+        lastMessage: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        messages: [],
+        todos: [],
+        files: {},
+      };
+      db.conversations.set(cid, conversation);
+      return { cid, conversation: toConversation(conversation) };
+    });
+
+    // 支持长轮询：since 与当前 updatedAt 相同时等待状态变化，最多 wait 秒
+    this.on('GET', '/conversations/:cid', async ({ params, query, signal }) => {
+      const conversation = requireConversation(params.cid);
+      if (!conversation) return notFound('Conversation');
+
+      const since = query.get('since');
+      const waitMs = Math.min(Number(query.get('wait')) || 0, 30) * 1000;
+      const deadline = Date.now() + waitMs;
+      while (since && conversation.updatedAt === since && Date.now() < deadline && !signal?.aborted) {
+        await new Promise((resolve) => setTimeout(resolve, 250));
+      }
+      return conversation;
+    });
+
+    this.on<ClientArgs<'updateConversation'>[1]>('PATCH', '/conversations/:cid', ({ params, body }) => {
+      const conversation = requireConversation(params.cid);
+      if (!conversation) return notFound('Conversation');
+      Object.assign(conversation, body, { updatedAt: nowIso() });
+      return toConversation(conversation);
+    });
+
+    this.on('DELETE', '/conversations/:cid', ({ params }) => {
+      db.conversations.delete(params.cid);
+      delete db.organization.conversations[params.cid];
+      for (const [shareId, entry] of db.shares) {
+        if (entry.share.cid === params.cid) db.shares.delete(shareId);
+      }
+      return undefined;
+    });
+
+    this.on<{ files: ClientArgs<'updateConversationFiles'>[1] }>('PUT', '/conversations/:cid/files', ({ params, body }) => {
+      const conversation = requireConversation(params.cid);
+      if (!conversation) return notFound('Conversation');
+      conversation.files = { ...conversation.files, ...body?.files };
+      return undefined;
+    });
+
+    // 会话整理：标签、文件夹、置顶 / 归档
+    this.on('GET', '/conversation-organization', () => db.organization);
+    this.on<ConversationOrganizationUpdate & { cids: string[] }>('PATCH', '/conversation-organization/conversations', ({ body }) => {
+      const { cids = [], ...update } = body ?? {};
+      db.organization.conversations = applyOrganizationUpdate(db.organization.conversations, cids, update);
+      return undefined;
+    });
+    this.on<ClientArgs<'createConversationTag'>[0]>('POST', '/conversation-organization/tags', ({ body }) => {
+      const tag = { id: createMockId('tag'), name: String(body?.name ?? ''), color: String(body?.color ?? 'gray') };
+      db.organization.tags.push(tag);
+      return tag;
+    });
+    this.on<ClientArgs<'updateConversationTag'>[1]>('PATCH', '/conversation-organization/tags/:tagId', ({ params, body }) => {
+      const tag = db.organization.tags.find((t) => t.id === params.tagId);
+      if (!tag) return notFound('Tag');
+      Object.assign(tag, body);
+      return tag;
+    });
+    this.on('DELETE', '/conversation-organization/tags/:tagId', ({ params }) => {
+      db.organization.tags = db.organization.tags.filter((t) => t.id !== params.tagId);
+      db.organization.conversations = removeTagFromConversations(db.organization.conversations, params.tagId);
+      return undefined;
+    });
+    this.on<ClientArgs<'createConversationFolder'>[0]>('POST', '/conversation-organization/folders', ({ body }) => {
+      const folder = { id: createMockId('folder'), name: String(body?.name ?? ''), projectId: body?.projectId ?? null };
+      db.organization.folders.push(folder);
+      return folder;
+    });
+    this.on<ClientArgs<'updateConversationFolder'>[1]>('PATCH', '/conversation-organization/folders/:folderId', ({ params, body }) => {
+      const folder = db.organization.folders.find((f) => f.id === params.folderId);
+      if (!folder) return notFound('Folder');
+      Object.assign(folder, body);
+      return folder;
+    });
+    this.on('DELETE', '/conversation-organization/folders/:folderId', ({ params }) => {
+      db.organization.folders = db.organization.folders.filter((f) => f.id !== params.folderId);
+      db.organization.conversations = removeFolderFromConversations(db.organization.conversations, params.folderId);
+      return undefined;
+    });
+
+    // 会话分享：只读快照链接
+    this.on('GET', '/conversations/:cid/shares', ({ params }) => ({
+      shares: [...db.shares.values()].filter((entry) => entry.share.cid === params.cid).map((entry) => entry.share),
+    }));
+    this.on<CreateConversationShareRequest>('POST', '/conversations/:cid/shares', ({ params, body }) => {
+      if (!requireConversation(params.cid)) return notFound('Conversation');
+      const share: ConversationShare = {
+        id: createMockId('share'),
+        cid: params.cid,
+        token: createMockId('st').replace(/-/g, ''),
+        createdAt: nowIso(),
+        expiresAt: body?.expiresAt ?? null,
+        revokedAt: null,
+        redactToolArgs: !!body?.redactToolArgs,
+      };
+      db.shares.set(share.id, { share, snapshot: body?.snapshot ?? { title: '', messages: [], todos: [] } });
+      return share;
+    });
+    this.on<ClientArgs<'updateConversationShare'>[2]>('PATCH', '/conversations/:cid/shares/:shareId', ({ params, body }) => {
+      const entry = db.shares.get(params.shareId);
+      if (!entry || entry.share.cid !== params.cid) return notFound('Share');
+      entry.share.expiresAt = body?.expiresAt ?? null;
+      return entry.share;
+    });
+    this.on('POST', '/conversations/:cid/shares/:shareId/revoke', ({ params }) => {
+      const entry = db.shares.get(params.shareId);
+      if (!entry || entry.share.cid !== params.cid) return notFound('Share');
+      entry.share.revokedAt ??= nowIso();
+      return entry.share;
+    });
+    this.on('GET', '/shares/:token', ({ params }) => {
+      const entry = [...db.shares.values()].find((item) => item.share.token === params.token);
+      if (!entry) return notFound('Share');
+      const { share, snapshot } = entry;
+      if (share.revokedAt) return errorResponse(410, 'SHARE_REVOKED', 'This link has been revoked');
+      if (share.expiresAt && new Date(share.expiresAt).getTime() <= Date.now()) {
+        return errorResponse(410, 'SHARE_EXPIRED', 'This link has expired');
+      }
+      return {
+        ...snapshot,
+        createdAt: share.createdAt,
+        expiresAt: share.expiresAt,
+        redactToolArgs: share.redactToolArgs,
+      };
+    });
+
+    // 会话分支：切换时保存当前分支的状态，恢复目标分支
+    this.on('POST', '/conversations/:cid/branches/:branchId/activate', ({ params }) => {
+      const conversation = requireConversation(params.cid);
+      if (!conversation) return notFound('Conversation');
+      const { branchId } = params;
+      if (branchId !== MAIN_BRANCH_ID && !conversation.branches?.some((branch) => branch.id === branchId)) {
+        return notFound('Branch');
+      }
+      if (branchId !== (conversation.activeBranchId ?? MAIN_BRANCH_ID)) {
+        this.stashActiveBranch(conversation);
+        const key = `${conversation.cid}:${branchId}`;
+        Object.assign(conversation, db.branchStates.get(key) ?? { messages: [], todos: [], files: {} });
+        db.branchStates.delete(key);
+        conversation.activeBranchId = branchId;
+        conversation.updatedAt = nowIso();
+      }
+      return conversation;
+    });
+
+    this.on('POST', '/conversations/:cid/continue', () => undefined);
+    this.on('POST', '/conversations/:cid/resolve', ({ params }) => {
+      const conversation = requireConversation(params.cid);
+      if (conversation) conversation.status = 'idle';
+      return undefined;
+    });
+
+    // 消息反馈
+    const feedbackPath = '/conversations/:cid/messages/:messageId/feedback';
+    this.on('GET', feedbackPath, ({ params }) => db.feedback.get(params.messageId));
+    const saveFeedback = ({ params, body }: RouteContext<FeedbackCreateRequest>): FeedbackResponse => {
+      const feedback: FeedbackResponse = {
+        id: db.feedback.get(params.messageId)?.id ?? createMockId('feedback'),
+        messageId: params.messageId,
+        feedbackType: body?.feedbackType ?? 'like',
+        reason: body?.reason ?? '',
+        createdAt: nowIso(),
+      };
+      db.feedback.set(params.messageId, feedback);
+      return feedback;
+    };
+    this.on('POST', feedbackPath, saveFeedback);
+    this.on('PUT', feedbackPath, saveFeedback);
+    this.on('DELETE', feedbackPath, ({ params }) => {
+      db.feedback.delete(params.messageId);
+      return undefined;
+    });
+  }
+
+  private registerChatRoutes(): void {
+    const { events } = this;
+
+    this.on<{ content: string; clientMessageId?: string; mentions?: MessageMention[] }>('POST', '/chat/:cid/messages', ({ params, body }) => {
+      if (!this.db.conversations.has(params.cid)) return notFound('Conversation');
+      events.sendUserMessage(params.cid, body?.content ?? '', body?.clientMessageId, body?.mentions);
+      return { accepted: true };
+    });
+    // 编辑用户消息：从该消息处分叉出新分支并重新生成回复
+    this.on<ClientArgs<'editMessage'>[2]>('POST', '/chat/:cid/messages/:messageId/edit', ({ params, body }) => {
+      const conversation = this.db.conversations.get(params.cid);
+      if (!conversation) return notFound('Conversation');
+      const index = conversation.messages.findIndex((message) => message.id === params.messageId);
+      if (index === -1) return notFound('Message');
+
+      const branches = conversation.branches ?? [];
+      const branch: ConversationBranch = {
+        id: body?.branchId ?? createMockId('branch'),
+        parentBranchId: conversation.activeBranchId ?? MAIN_BRANCH_ID,
+        forkedFromMessageId: params.messageId,
+        rootMessageId: branches.find((b) => b.messageId === params.messageId)?.rootMessageId ?? params.messageId,
+        messageId: body?.clientMessageId ?? createMockId('msg'),
+        createdAt: nowIso(),
+      };
+
+      this.stashActiveBranch(conversation);
+      conversation.messages = conversation.messages.slice(0, index);
+      conversation.todos = [];
+      conversation.branches = [...branches, branch];
+      conversation.activeBranchId = branch.id;
+      events.sendUserMessage(params.cid, body?.content ?? '', branch.messageId!, body?.mentions);
+      return { branch };
+    });
+    // 回复版本：重新生成、查询全部版本、选择后续对话基于的版本
+    this.on<ClientArgs<'regenerateMessage'>[2]>('POST', '/chat/:cid/messages/:messageId/regenerate', ({ params, body }) => {
+      const conversation = this.db.conversations.get(params.cid);
+      if (!conversation) return notFound('Conversation');
+      const groupId = this.findVariantGroupId(params.messageId);
+      if (!conversation.messages.some((message) => getMockVariantGroupId(message) === groupId)) {
+        return notFound('Message');
+      }
+      events.regenerate(params.cid, groupId, body?.variantId ?? createMockId('msg'), body?.model);
+      return undefined;
+    });
+    this.on('GET', '/chat/:cid/messages/:messageId/variants', ({ params }) => {
+      const groupId = this.findVariantGroupId(params.messageId);
+      const group = this.db.messageVariants.get(groupId);
+      if (group) return group;
+      const message = this.db.conversations.get(params.cid)?.messages.find((m) => m.id === params.messageId);
+      return message ? { variants: [message], canonicalId: message.id } : notFound('Message');
+    });
+    this.on('POST', '/chat/:cid/messages/:messageId/variants/:variantId/select', ({ params }) => {
+      const conversation = this.db.conversations.get(params.cid);
+      if (!conversation) return notFound('Conversation');
+      const groupId = this.findVariantGroupId(params.messageId);
+      const group = this.db.messageVariants.get(groupId);
+      if (!group?.variants.some((variant) => variant.id === params.variantId)) return notFound('Variant');
+      group.canonicalId = params.variantId;
+      syncMockVariants(conversation, groupId, group);
+      return { canonicalId: group.canonicalId };
+    });
+    this.on('POST', '/chat/:cid/stop', ({ params }) => {
+      events.stop(params.cid);
+      return undefined;
+    });
+    this.on('POST', '/chat/:cid/interrupt/resume', ({ params }) => {
+      events.resumeInterrupt(params.cid);
+      return undefined;
+    });
+    this.on<{ turn_id: string }>('POST', '/chat/:cid/retry', ({ params, body }) => {
+      events.retry(params.cid, body?.turn_id ?? '');
+      return undefined;
+    });
+
+    // SSE 事件流：每个事件一帧，id 为 seq；场景要求关闭连接时结束事件流
+    this.on('GET', '/chat/stream', ({ query, signal }) => {
+      const cid = query.get('cid');
+      if (!cid) return errorResponse(400, 'BAD_REQUEST', 'cid is required');
+
+      const lastSeq = query.get('last_seq');
+      const encoder = new TextEncoder();
+      let unsubscribe: (() => void) | null = null;
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+      const cleanup = () => {
+        unsubscribe?.();
+        unsubscribe = null;
+        if (heartbeat) clearInterval(heartbeat);
+        heartbeat = null;
+      };
+
+      const stream = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          const send = (event: StreamEvent, closeCode?: number) => {
+            const id = event.seq !== undefined ? `id: ${event.seq}\n` : '';
+            controller.enqueue(encoder.encode(`${id}data: ${JSON.stringify(event)}\n\n`));
+            if (closeCode !== undefined) {
+              cleanup();
+              controller.close();
+            }
+          };
+          unsubscribe = events.subscribe(cid, send, lastSeq !== null ? Number(lastSeq) : undefined);
+          heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), 15000);
+          signal?.addEventListener('abort', cleanup, { once: true });
+        },
+        cancel: cleanup,
+      });
+
+      return new Response(stream, {
+        status: 200,
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+      });
+    });
+  }
+
+  private registerContextRoutes(): void {
+    const { db } = this;
+
+    this.on('GET', '/context', () => ({ contexts: [], totalSize: 0, maxSize: 50 * 1024 * 1024 }));
+    this.on('GET', '/context/stats', () => {
+      const stats = (category: string) => {
+        const records = [...db.contextItems, ...db.contextPersons, ...db.contextEntities]
+          .filter((record) => record.category === category);
+        const sections: Record<string, { count: number; has_data: boolean }> = {};
+        for (const record of records) {
+          const count = (sections[record.section]?.count ?? 0) + 1;
+          sections[record.section] = { count, has_data: true };
+        }
+        return { total: records.length, sections };
+      };
+      return { onsite: stats('onsite'), offsite: stats('offsite'), knowledge: { total: 0, sections: {} } };
+    });
+    this.on('GET', '/context/all', () => this.buildContextAll());
+
+    // Singletons
+    this.on('GET', '/context/singletons/:section', ({ params }) =>
+      db.singletons.get(params.section) ?? notFound('Singleton'));
+    this.on<{ data: Record<string, unknown>; expected_version?: number }>('PUT', '/context/singletons/:section', ({ params, body }) => {
+      const existing = db.singletons.get(params.section);
+      if (existing && body?.expected_version !== undefined && body.expected_version !== existing.version) {
+        return errorResponse(409, 'VERSION_CONFLICT', 'Singleton was modified by someone else');
+      }
+      const timestamp = nowIso();
+      const singleton = {
+        user_id: MOCK_USER_ID,
+        section: params.section,
+        data: body?.data ?? {},
+        version: (existing?.version ?? 0) + 1,
+        created_at: existing?.created_at ?? timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      };
+      db.singletons.set(params.section, singleton);
+      return singleton;
+    });
+    this.on('DELETE', '/context/singletons/:section', ({ params }) => {
+      db.singletons.delete(params.section);
+      return undefined;
+    });
+
+    this.registerCollection<ContextItem, ContextItemCreate>('items', db.contextItems, (body, base) => ({
+      ...base,
+      title: body.title ?? null,
+      description: body.description ?? null,
+      url: body.url ?? null,
+      image_url: body.image_url ?? null,
+      notes: body.notes ?? null,
+      extra: body.extra ?? {},
+    }) as ContextItem);
+    this.registerCollection<ContextPerson, ContextPersonCreate>('persons', db.contextPersons, (body, base) => ({
+      ...base,
+      name: body.name ?? '',
+      title: body.title ?? null,
+      bio: body.bio ?? null,
+      photo_url: body.photo_url ?? null,
+      platform: body.platform ?? null,
+      handle: body.handle ?? null,
+      url: body.url ?? null,
+      role: body.role ?? null,
+      social_links: body.social_links ?? [],
+      notes: body.notes ?? null,
+      extra: body.extra ?? {},
+    }) as ContextPerson);
+    this.registerCollection<ContextEntity, ContextEntityCreate>('entities', db.contextEntities, (body, base) => ({
+      ...base,
+      name: body.name ?? '',
+      platform: body.platform ?? null,
+      handle: body.handle ?? null,
+      url: body.url ?? null,
+      entity_type: body.entity_type ?? null,
+      event_date: body.event_date ?? null,
+      location: body.location ?? null,
+      notes: body.notes ?? null,
+      extra: body.extra ?? {},
+    }) as ContextEntity);
+  }
+
+  /**
+   * 注册 Context 记录集合的 CRUD 路由（expected_version 不匹配时返回 409）
+   */
+  private registerCollection<T extends VersionedRecord, C extends object>(
+    name: string,
+    records: T[],
+    build: (body: Partial<C>, base: Record<string, unknown>) => T
+  ): void {
+    const base = `/context/${name}`;
+    const find = (id: string) => records.find((record) => record.id === id);
+
+    this.on('GET', base, ({ query }) => {
+      const category = query.get('category');
+      const section = query.get('section');
+      const filtered = records.filter((record) =>
+        (!category || record.category === category) && (!section || record.section === section));
+      return paginate(filtered, query);
+    });
+
+    this.on<Partial<C> & { category?: string; section?: string }>('POST', base, ({ body }) => {
+      const timestamp = nowIso();
+      const record = build(body ?? {}, {
+        id: createMockId(name),
+        user_id: MOCK_USER_ID,
+        category: body?.category ?? 'onsite',
+        section: body?.section ?? 'general',
+        sequence: records.length,
+        version: 1,
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      });
+      records.push(record);
+      return record;
+    });
+
+    this.on('GET', `${base}/:id`, ({ params }) => find(params.id) ?? notFound('Record'));
+
+    this.on<VersionedUpdate<C>>('PUT', `${base}/:id`, ({ params, body }) => {
+      const record = find(params.id);
+      if (!record) return notFound('Record');
+      const { expected_version: expectedVersion, ...changes } = body ?? {};
+      if (expectedVersion !== undefined && expectedVersion !== record.version) {
+        return errorResponse(409, 'VERSION_CONFLICT', 'Record was modified by someone else');
+      }
+      Object.assign(record, changes, { version: record.version + 1, updated_at: nowIso() });
+      return record;
+    });
+
+    this.on('DELETE', `${base}/:id`, ({ params }) => {
+      const index = records.findIndex((record) => record.id === params.id);
+      if (index !== -1) records.splice(index, 1);
+      return undefined;
+    });
+  }
+
+  /**
+   * 组装 /context/all 响应
+   */
+  private buildContextAll(): ContextAllResponse {
+    const { db } = this;
+    const section = (category: string): ContextAllSection => {
+      const group = (records: Array<VersionedRecord & { extra?: Record<string, unknown> }>) => {
+        const result: Record<string, ContextAllRecord[]> = {};
+        for (const record of records.filter((entry) => entry.category === category)) {
+          (result[record.section] ??= []).push({ ...record, extra: record.extra ?? {} });
+        }
+        return result;
+      };
+      return {
+        singletons: category === 'onsite'
+          ? Object.fromEntries(Array.from(db.singletons.values()).map((singleton) => [singleton.section, singleton.data]))
+          : {},
+        items: group(db.contextItems),
+        persons: group(db.contextPersons),
+        entities: group(db.contextEntities),
+      };
+    };
+
+    return {
+      brand: {},
+      onsite: section('onsite'),
+      offsite: section('offsite'),
+      knowledge: { sources: [] },
+    };
+  }
+
+  /**
+   * 保存当前分支的消息、todos 和文件（切换或分叉前调用）
+   */
+  /** 消息所属的版本组 ID（未重新生成过时为消息自身 ID） */
+  private findVariantGroupId(messageId: string): string {
+    for (const [groupId, group] of this.db.messageVariants) {
+      if (groupId === messageId || group.variants.some((variant) => variant.id === messageId)) return groupId;
+    }
+    return messageId;
+  }
+
+  private stashActiveBranch(conversation: ConversationDetailResponse): void {
+    const branchId = conversation.activeBranchId ?? MAIN_BRANCH_ID;
+    this.db.branchStates.set(`${conversation.cid}:${branchId}`, {
+      messages: conversation.messages,
+      todos: conversation.todos,
+      files: { ...conversation.files },
+    });
+  }
+
+  private registerProjectRoutes(): void {
+    const { db } = this;
+
+    this.on('GET', '/projects', () => ({ projects: db.projects, total: db.projects.length }));
+    this.on<{ url: string }>('POST', '/projects/validate-url', ({ body }) => ({ valid: true, url: body?.url, normalizedUrl: body?.url }));
+    this.on<CreateProjectRequest>('POST', '/projects', ({ body }) => {
+      const timestamp = nowIso();
+      let domain: string | undefined;
+      try {
+        domain = new URL(body?.url ?? '').hostname;
+      } catch {
+        domain = undefined;
+      }
+      const project: Project = {
+        id: createMockId('project'),
+        name: body?.name ?? 'Untitled project',
+        domain,
+        websiteUrl: body?.url ?? '',
+        settings: body?.settings ?? {},
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.projects.unshift(project);
+      return project;
+    });
+    this.on('GET', '/projects/:projectId', ({ params }) =>
+      db.projects.find((project) => project.id === params.projectId) ?? notFound('Project'));
+    this.on<UpdateProjectRequest>('PUT', '/projects/:projectId', ({ params, body }) => {
+      const project = db.projects.find((entry) => entry.id === params.projectId);
+      if (!project) return notFound('Project');
+      return Object.assign(project, body, { updatedAt: nowIso() });
+    });
+    this.on('GET', '/projects/:projectId/usage', ({ params, query }) => {
+      if (!db.projects.some((project) => project.id === params.projectId)) return notFound('Project');
+      const days = Math.min(Math.max(Number(query.get('days')) || 30, 1), 365);
+      return buildMockProjectUsage(db, params.projectId, days);
+    });
+    this.on<{ monthlyLimitUsd: number | null }>('PUT', '/projects/:projectId/usage/budget', ({ params, body }) => {
+      if (!db.projects.some((project) => project.id === params.projectId)) return notFound('Project');
+      const limit = body?.monthlyLimitUsd;
+      if (limit !== null && (typeof limit !== 'number' || !(limit > 0))) {
+        return errorResponse(400, 'VALIDATION_ERROR', 'monthlyLimitUsd must be a positive number or null');
+      }
+      db.projectBudgets.set(params.projectId, limit);
+      return buildMockProjectUsage(db, params.projectId, 1).budget;
+    });
+
+    // Content Library
+    this.on('GET', '/content-library/projects/:projectId/clusters', ({ params }) => {
+      const clusters = db.clusters.filter((cluster) => cluster.project_id === params.projectId);
+      return { clusters, total: clusters.length };
+    });
+    const summaries = (filter: (item: (typeof db.contentItems)[number]) => boolean) => {
+      const items = db.contentItems.filter(filter).map((item) => ({
+        id: item.id,
+        title: item.title,
+        slug: item.slug,
+        page_type: item.page_type,
+        target_keyword: item.target_keyword,
+        status: item.status,
+        priority: item.priority,
+        estimated_word_count: item.estimated_word_count,
+        topic_cluster_id: item.topic_cluster_id,
+        topic_cluster_name: item.topic_cluster_name,
+        project_id: item.project_id,
+        project_name: db.projects.find((project) => project.id === item.project_id)?.name ?? null,
+        created_at: item.created_at,
+        updated_at: item.updated_at,
+      }));
+      return { items, total: items.length };
+    };
+    this.on('GET', '/content-library/items', ({ query }) =>
+      summaries((item) => !query.get('project_id') || item.project_id === query.get('project_id')));
+    this.on('GET', '/content-library/projects/:projectId/items', ({ params }) =>
+      summaries((item) => item.project_id === params.projectId));
+    this.on('GET', '/content-library/projects/:projectId/clusters/:clusterId/items', ({ params }) =>
+      summaries((item) => item.project_id === params.projectId && item.topic_cluster_id === params.clusterId));
+    this.on('GET', '/content-library/projects/:projectId/items/:itemId', ({ params }) =>
+      db.contentItems.find((item) => item.id === params.itemId) ?? notFound('Content item'));
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Mock WebSocket
+ * 实现 WebSocketStream 使用的浏览器 WebSocket 接口，客户端消息直接交给 MockEventEmitter 处理，
+ * 服务端事件以 JSON 帧推送；场景要求关闭连接时使用对应的关闭码（如 4002 会话被替换、4429 频率限制）
+ */
+
+import type { StreamEvent } from '@/app/types/types';
+import type { BindCidData, ClientMessage, ReplayEventsData, UserMessageData } from '@/lib/stream/websocket';
+import type { MockEventEmitter, MockEventListener } from './emitter';
+
+export class MockWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState = MockWebSocket.CONNECTING;
+
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private cid: string | null;
+  private unsubscribe: (() => void) | null = null;
+  private listener: MockEventListener | null = null;
+
+  constructor(url: string, private events: MockEventEmitter) {
+    this.url = url;
+    const params = new URL(url).searchParams;
+    this.cid = params.get('cid');
+    const lastSeq = params.get('last_seq');
+
+    setTimeout(() => {
+      if (this.readyState !== MockWebSocket.CONNECTING) return;
+      this.readyState = MockWebSocket.OPEN;
+      this.onopen?.(new Event('open'));
+      if (this.cid) {
+        this.bind(this.cid, lastSeq !== null ? Number(lastSeq) : undefined);
+      } else {
+        this.deliver({ type: 'connected', data: {}, timestamp: Date.now() });
+      }
+    }, 50);
+  }
+
+  send(raw: string): void {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new Error('MockWebSocket is not open');
+    }
+
+    const message = JSON.parse(raw) as ClientMessage;
+    switch (message.type) {
+      case 'ping':
+        this.deliver({ type: 'pong', data: null, timestamp: Date.now() });
+        break;
+      case 'bind_cid': {
+        const data = message.data as BindCidData;
+        this.bind(data.cid, data.last_seq);
+        break;
+      }
+      case 'replay_events': {
+        const data = message.data as ReplayEventsData;
+        this.events.replay(data.cid, data.after_seq, (event) => this.deliver(event));
+        break;
+      }
+      case 'user_message': {
+        const data = message.data as UserMessageData;
+        if (this.cid) this.events.sendUserMessage(this.cid, data.content, data.clientMessageId, data.mentions);
+        break;
+      }
+      case 'resume_interrupt':
+        if (this.cid) this.events.resumeInterrupt(this.cid);
+        break;
+      case 'stop':
+        if (this.cid) this.events.stop(this.cid);
+        break;
+      case 'retry_message':
+        if (this.cid) this.events.retry(this.cid, (message.data as { turn_id: string }).turn_id);
+        break;
+      // 协同编辑事件转发给同一会话的其他连接（预览请求等没有协同数据的事件忽略）
+      case 'editor.content_update':
+        if (!(message.data as { operations?: unknown[] } | undefined)?.operations) break;
+        // falls through
+      case 'editor.presence':
+      case 'editor.sync':
+        if (this.cid && this.listener) {
+          this.events.relayEditorEvent(this.cid, { type: message.type, data: message.data }, this.listener);
+        }
+        break;
+      default:
+        console.log('[MockBackend] Ignoring WebSocket message:', message.type);
+    }
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    this.readyState = MockWebSocket.CLOSED;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    setTimeout(() => {
+      this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+    }, 0);
+  }
+
+  private bind(cid: string, lastSeq?: number): void {
+    this.unsubscribe?.();
+    this.cid = cid;
+    this.listener = (event, closeCode) => {
+      this.deliver(event);
+      if (closeCode !== undefined) this.close(closeCode, event.type);
+    };
+    this.unsubscribe = this.events.subscribe(cid, this.listener, lastSeq);
+  }
+
+  private deliver(event: StreamEvent): void {
+    if (this.readyState !== MockWebSocket.OPEN) return;
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(event) }));
+  }
+}
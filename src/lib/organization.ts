@@ -0,0 +1,141 @@
+/**
+ * 会话整理：置顶、标签、文件夹、归档
+ *
+ * 整理信息保存在服务端（apiClient 的会话整理 API）；服务端尚未提供这些端点（404）时
+ * 改为保存在本地（localStorage），界面行为相同。这里是与存储无关的纯函数和本地存储读写。
+ */
+
+import type {
+  ConversationFolder,
+  ConversationOrganization,
+  ConversationOrganizationResponse,
+  ConversationOrganizationUpdate,
+  ConversationTag,
+} from '@/lib/api/client';
+
+const STORAGE_KEY = 'seenos_conversation_organization';
+
+// ============ 标签颜色 ============
+
+/** 标签可选颜色：颜色名 -> 色块和标签的样式 */
+export const TAG_COLORS: Record<string, { swatch: string; badge: string }> = {
+  gray: { swatch: 'bg-gray-400', badge: 'bg-gray-500/15 text-gray-700 dark:text-gray-300' },
+  red: { swatch: 'bg-red-500', badge: 'bg-red-500/15 text-red-700 dark:text-red-400' },
+  orange: { swatch: 'bg-orange-500', badge: 'bg-orange-500/15 text-orange-700 dark:text-orange-400' },
+  yellow: { swatch: 'bg-yellow-400', badge: 'bg-yellow-400/20 text-yellow-800 dark:text-yellow-300' },
+  green: { swatch: 'bg-green-500', badge: 'bg-green-500/15 text-green-700 dark:text-green-400' },
+  blue: { swatch: 'bg-blue-500', badge: 'bg-blue-500/15 text-blue-700 dark:text-blue-400' },
+  purple: { swatch: 'bg-purple-500', badge: 'bg-purple-500/15 text-purple-700 dark:text-purple-400' },
+  pink: { swatch: 'bg-pink-500', badge: 'bg-pink-500/15 text-pink-700 dark:text-pink-400' },
+};
+
+export const TAG_COLOR_NAMES = Object.keys(TAG_COLORS);
+
+/** 标签样式（未知颜色使用 gray） */
+export function getTagColorClasses(color: string): { swatch: string; badge: string } {
+  return TAG_COLORS[color] ?? TAG_COLORS.gray;
+}
+
+// ============ 纯函数 ============
+
+export const EMPTY_ORGANIZATION: ConversationOrganization = {
+  pinned: false,
+  archived: false,
+  tagIds: [],
+  folderId: null,
+};
+
+/** 获取会话的整理信息（没有记录时返回默认值） */
+export function getConversationOrganization(
+  conversations: Record<string, ConversationOrganization>,
+  cid: string
+): ConversationOrganization {
+  return conversations[cid] ?? EMPTY_ORGANIZATION;
+}
+
+/** 整理信息是否都是默认值（默认值不保存） */
+function isEmptyOrganization(entry: ConversationOrganization): boolean {
+  return !entry.pinned && !entry.archived && entry.tagIds.length === 0 && !entry.folderId;
+}
+
+/**
+ * 对一组会话应用批量更新，返回新的 conversations
+ */
+export function applyOrganizationUpdate(
+  conversations: Record<string, ConversationOrganization>,
+  cids: string[],
+  update: ConversationOrganizationUpdate
+): Record<string, ConversationOrganization> {
+  const next = { ...conversations };
+  for (const cid of cids) {
+    const current = getConversationOrganization(conversations, cid);
+    const tagIds = current.tagIds
+      .filter((id) => !update.removeTagIds?.includes(id))
+      .concat((update.addTagIds ?? []).filter((id) => !current.tagIds.includes(id)));
+    const entry: ConversationOrganization = {
+      pinned: update.pinned ?? current.pinned,
+      archived: update.archived ?? current.archived,
+      folderId: update.folderId !== undefined ? update.folderId : current.folderId,
+      tagIds,
+    };
+    if (isEmptyOrganization(entry)) {
+      delete next[cid];
+    } else {
+      next[cid] = entry;
+    }
+  }
+  return next;
+}
+
+/** 从所有会话中移除标签 */
+export function removeTagFromConversations(
+  conversations: Record<string, ConversationOrganization>,
+  tagId: string
+): Record<string, ConversationOrganization> {
+  const cids = Object.keys(conversations).filter((cid) => conversations[cid].tagIds.includes(tagId));
+  return applyOrganizationUpdate(conversations, cids, { removeTagIds: [tagId] });
+}
+
+/** 把文件夹中的会话移出文件夹 */
+export function removeFolderFromConversations(
+  conversations: Record<string, ConversationOrganization>,
+  folderId: string
+): Record<string, ConversationOrganization> {
+  const cids = Object.keys(conversations).filter((cid) => conversations[cid].folderId === folderId);
+  return applyOrganizationUpdate(conversations, cids, { folderId: null });
+}
+
+/** 生成本地标签 / 文件夹 ID */
+export function createLocalId(prefix: string): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `${prefix}-${crypto.randomUUID()}`;
+  }
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// ============ 本地存储 ============
+
+/** 读取本地保存的整理信息 */
+export function loadLocalOrganization(): ConversationOrganizationResponse {
+  const empty: ConversationOrganizationResponse = { tags: [], folders: [], conversations: {} };
+  if (typeof window === 'undefined') return empty;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return empty;
+    const data = JSON.parse(stored) as Partial<ConversationOrganizationResponse>;
+    return {
+      tags: Array.isArray(data.tags) ? (data.tags as ConversationTag[]) : [],
+      folders: Array.isArray(data.folders) ? (data.folders as ConversationFolder[]) : [],
+      conversations: data.conversations && typeof data.conversations === 'object' ? data.conversations : {},
+    };
+  } catch {
+    return empty;
+  }
+}
+
+/** 保存整理信息到本地 */
+export function saveLocalOrganization(data: ConversationOrganizationResponse): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+}
@@ -0,0 +1,90 @@
+/**
+ * 会话分享（只读快照链接）
+ *
+ * 创建分享时在前端整理出快照：只保留主对话消息并统一为 contentBlocks，
+ * 可选隐藏工具调用参数和子代理任务描述（在发送前处理，不会离开本机）。服务端只保存快照，
+ * 之后会话的变化不会影响已分享的链接。公开页面见 app/share/[token]。
+ */
+
+import type { ConversationShare, SharedConversationSnapshot } from '@/lib/api/client';
+import type { ContentBlock, Message, TodoItem } from '@/app/types/types';
+import { getExportBlocks, isSubagentMessage } from '@/lib/export';
+
+// ============ 过期时间 ============
+
+/** 可选的有效期（天数，null 表示永不过期） */
+export const SHARE_EXPIRY_OPTIONS: Array<{ value: string; label: string; days: number | null }> = [
+  { value: '1', label: '1 day', days: 1 },
+  { value: '7', label: '7 days', days: 7 },
+  { value: '30', label: '30 days', days: 30 },
+  { value: 'never', label: 'Never', days: null },
+];
+
+export const DEFAULT_SHARE_EXPIRY = '7';
+
+/** 根据有效期选项计算过期时间 */
+export function getShareExpiresAt(value: string, now = Date.now()): string | null {
+  const days = SHARE_EXPIRY_OPTIONS.find((option) => option.value === value)?.days ?? null;
+  return days === null ? null : new Date(now + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+/** 分享链接当前状态 */
+export function getShareStatus(share: ConversationShare, now = Date.now()): ShareStatus {
+  if (share.revokedAt) return 'revoked';
+  if (share.expiresAt && new Date(share.expiresAt).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+/** 分享链接的完整 URL */
+export function getShareUrl(token: string): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}/share/${token}`;
+}
+
+// ============ 快照 ============
+
+/** 隐藏工具调用参数和子代理任务描述（任务描述通常包含同样的提示和参数），包括子代理内部的工具调用 */
+export function redactToolCallArgs(blocks: ContentBlock[]): ContentBlock[] {
+  return blocks.map((block) => {
+    if (block.type === 'tool_call') {
+      return { ...block, args: {}, argsPreview: '', argsRedacted: true };
+    }
+    if (block.type === 'subagent') {
+      return {
+        ...block,
+        taskDescription: '',
+        taskRedacted: true,
+        childBlocks: block.childBlocks ? redactToolCallArgs(block.childBlocks) : block.childBlocks,
+      };
+    }
+    return block;
+  });
+}
+
+/**
+ * 创建分享快照
+ * 子代理的对话已包含在子代理块中，不单独保留；旧格式的 toolCalls 转为 contentBlocks 后去掉，
+ * 消息反馈等个人信息不进入快照
+ */
+export function buildShareSnapshot(
+  data: { title: string; messages: Message[]; todos: TodoItem[] },
+  options: { redactToolArgs: boolean }
+): SharedConversationSnapshot {
+  const messages = data.messages
+    .filter((message) => !isSubagentMessage(message))
+    .map((message): Message => {
+      const blocks = getExportBlocks(message);
+      const { feedback: _feedback, ...metadata } = message.metadata ?? {};
+      return {
+        ...message,
+        contentBlocks: options.redactToolArgs ? redactToolCallArgs(blocks) : blocks,
+        toolCalls: undefined,
+        tool_calls: undefined,
+        metadata,
+      };
+    });
+
+  return { title: data.title, messages, todos: data.todos };
+}
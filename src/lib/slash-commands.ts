@@ -0,0 +1,118 @@
+/**
+ * 斜杠命令
+ *
+ * 在输入框中输入 `/` 打开命令面板，命令来源：内置操作、Playbooks、skillForms 中的技能。
+ * 这里只定义命令结构和模糊匹配，命令列表由 useSlashCommands 根据当前会话、项目上下文生成
+ */
+
+import type { FormField } from '@/data/skillForms';
+
+// ============ 类型定义 ============
+
+export type SlashCommandKind = 'builtin' | 'playbook' | 'skill';
+
+/** 斜杠命令 */
+export interface SlashCommand {
+  /** 唯一 ID，如 builtin:new、playbook:<id>、skill:<key> */
+  id: string;
+  kind: SlashCommandKind;
+  /** 输入 `/` 后匹配的名称，如 new、keyword-research */
+  name: string;
+  title: string;
+  description: string;
+  /** 额外的匹配关键词 */
+  keywords?: string[];
+  /** 需要填写的参数（在面板中内联显示），为空时选中即执行 */
+  fields?: FormField[];
+  /** 当前不可用（如没有进行中的生成时的 stop） */
+  disabled?: boolean;
+  run: (args: Record<string, string>) => void | Promise<void>;
+}
+
+/** 匹配结果 */
+export interface SlashCommandMatch {
+  command: SlashCommand;
+  score: number;
+  /** title 中命中的字符位置（用于高亮），不是在 title 上命中时为空 */
+  titleIndices: number[];
+}
+
+// ============ 模糊匹配 ============
+
+/**
+ * 子序列模糊匹配
+ * 所有查询字符按顺序出现即命中；连续命中、单词开头、前缀命中得分更高
+ * @returns 未命中时返回 null
+ */
+export function fuzzyMatch(query: string, text: string): { score: number; indices: number[] } | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return { score: 0, indices: [] };
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    if (previous !== undefined && index === previous + 1) {
+      score += 5;
+    } else if (index === 0 || /[\s\-_/]/.test(t[index - 1])) {
+      score += 3;
+    } else {
+      score += 1;
+    }
+    indices.push(index);
+    from = index + 1;
+  }
+
+  if (t.startsWith(q)) score += 10;
+  // 同等命中时更短的文本更相关
+  score -= (t.length - q.length) * 0.01;
+
+  return { score, indices };
+}
+
+/**
+ * 按查询过滤并排序命令
+ * 名称、标题、关键词中取最高分；查询为空时按原顺序返回
+ */
+export function filterSlashCommands(commands: SlashCommand[], query: string, limit = 50): SlashCommandMatch[] {
+  const matches: SlashCommandMatch[] = [];
+
+  for (const command of commands) {
+    const titleMatch = fuzzyMatch(query, command.title);
+    let score = titleMatch?.score ?? -Infinity;
+
+    for (const text of [command.name, ...(command.keywords ?? [])]) {
+      const match = fuzzyMatch(query, text);
+      if (match && match.score > score) score = match.score;
+    }
+    if (score === -Infinity) continue;
+
+    matches.push({
+      command,
+      score,
+      titleIndices: titleMatch && titleMatch.score === score ? titleMatch.indices : [],
+    });
+  }
+
+  if (query) {
+    // 不可用的命令排在后面
+    matches.sort((a, b) => Number(!!a.command.disabled) - Number(!!b.command.disabled) || b.score - a.score);
+  }
+  return matches.slice(0, limit);
+}
+
+/**
+ * 解析输入框内容
+ * 只有整段输入是 `/` 加单个词（不含空白）时才打开命令面板
+ * @returns 查询词（可能为空字符串）；不是斜杠命令时返回 null
+ */
+export function parseSlashQuery(input: string): string | null {
+  const match = /^\/(\S*)$/.exec(input);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,92 @@
+/**
+ * 会话分支
+ *
+ * 编辑历史用户消息并重新发送时，从该消息处分叉出新分支：
+ * - 新分支包含被编辑消息之前的消息和编辑后的消息，之后的回复在新分支上生成
+ * - 同一位置的各个版本（最初的消息 + 每次编辑）共享 rootMessageId，消息下方显示 ‹ 2/3 › 切换
+ * - 每个分支有自己的消息、todos、files 和分页状态；切换时当前分支的状态保存为快照
+ *
+ * 服务端不返回分支信息时，会话只有主分支，行为与之前相同。
+ */
+
+import type {
+  ConversationBranch,
+  FileItem,
+  Message,
+  PaginationInfo,
+  TodoItem,
+} from '@/app/types/types';
+
+// ============ 常量 ============
+
+/** 主分支 ID（服务端未返回分支时也使用） */
+export const MAIN_BRANCH_ID = 'main';
+
+// ============ 类型定义 ============
+
+/** 非当前分支的状态快照 */
+export interface BranchSnapshot {
+  messages: Message[];
+  todos: TodoItem[];
+  files: Record<string, FileItem>;
+  pagination: PaginationInfo | null;
+}
+
+/** 某个位置的一个版本 */
+export interface MessageVersion {
+  messageId: string;
+  /** 显示该版本时切换到的分支 */
+  branchId: string;
+}
+
+/** 用户消息的版本信息（只有被编辑过的位置才有） */
+export interface MessageVersions {
+  versions: MessageVersion[];
+  /** 当前显示的版本 */
+  index: number;
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 生成分支 ID
+ */
+export function createBranchId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `branch-${crypto.randomUUID()}`;
+  }
+  return `branch-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * 获取消息所在位置的最初版本 ID
+ * 消息本身是编辑产生的版本时返回其分支的 rootMessageId，否则返回消息自身 ID
+ */
+export function getRootMessageId(messageId: string, branches: ConversationBranch[]): string {
+  return branches.find((branch) => branch.messageId === messageId)?.rootMessageId ?? messageId;
+}
+
+/**
+ * 计算用户消息的版本列表
+ * 版本按创建顺序排列：最初的消息在前，之后依次是每次编辑；该位置没有被编辑过时返回 null
+ */
+export function getMessageVersions(
+  messageId: string,
+  branches: ConversationBranch[]
+): MessageVersions | null {
+  const rootId = getRootMessageId(messageId, branches);
+  const forks = branches
+    .filter((branch) => branch.rootMessageId === rootId && branch.messageId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  if (forks.length === 0) return null;
+
+  // 最初的消息位于第一次编辑它时所在的分支
+  const origin = forks.find((branch) => branch.forkedFromMessageId === rootId) ?? forks[0];
+  const versions: MessageVersion[] = [
+    { messageId: rootId, branchId: origin.parentBranchId ?? MAIN_BRANCH_ID },
+    ...forks.map((branch) => ({ messageId: branch.messageId!, branchId: branch.id })),
+  ];
+
+  const index = versions.findIndex((version) => version.messageId === messageId);
+  return index === -1 ? null : { versions, index };
+}
@@ -0,0 +1,893 @@
+/**
+ * SeenOS HTTP 流式连接基类
+ * SSE 与长轮询传输的公共实现，与 WebSocketStream 提供相同的生命周期
+ *
+ * 特性:
+ * - 认证通过 ApiClient 请求头（Authorization / X-Session-ID）传递，token 不出现在 URL 中；
+ *   token 过期时由 ApiClient 刷新并重放请求
+ * - 自动重连（最多 5 次，指数退避 + 健康检查）
+ * - 心跳检测（服务端数据超时视为断线）
+ * - 断线续传（与 WebSocket 共用事件序号跟踪，缺口时携带 last_seq 重建事件流）
+ * - 用户消息、恢复中断、停止、重试通过 ApiClient HTTP POST 发送
+ * - 用户消息持久化发件箱（离线缓存，重连后自动补发）
+ */
+
+import type { StreamEvent } from '@/app/types/types';
+import { apiClient, type ApiError } from '@/lib/api/client';
+import { MAX_AUTO_FLUSH_ATTEMPTS, createClientMessageId } from './outbox';
+import { EventSequenceTracker } from './sequence';
+import type {
+  ConnectionState,
+  InterruptDecision,
+  StreamConnection,
+  StreamConnectionOptions,
+  UserMessageData,
+} from './websocket';
+
+// ============ 请求队列 ============
+
+interface QueuedRequest {
+  run: () => Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// ============ HTTP 流式连接基类 ============
+
+export abstract class HttpStreamConnection implements StreamConnection {
+  private controller: AbortController | null = null;
+  protected options: StreamConnectionOptions;
+  private reconnectAttempts = 0;
+  private readonly maxReconnectAttempts = 5;
+  private reconnectDelay = 1000;
+  private isManualClose = false;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private connectionState: ConnectionState = 'disconnected';
+
+  // 当前绑定的 cid
+  protected currentCid: string | null = null;
+
+  // 请求队列：在事件流建立前缓存 HTTP 请求
+  private requestQueue: QueuedRequest[] = [];
+  private isFlushingQueue = false;
+
+  // 是否已收到服务端的 connected 确认
+  private isServerReady = false;
+
+  // 是否正在卸载（页面刷新/关闭）
+  private isUnloading = false;
+
+  // 是否被其他连接踢掉（不应自动重连）
+  private isKicked = false;
+
+  // 连接超时定时器
+  private connectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private readonly connectTimeoutMs = 10000; // 10 秒连接超时
+
+  // 心跳检测：服务端每 30 秒发送心跳，超过 45 秒无任何数据视为断线
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private readonly heartbeatTimeoutMs = 45000;
+  private lastActivityAt = 0;
+
+  // 最大重连延迟 (ms)
+  private readonly maxReconnectDelay = 30000;
+
+  // 健康检查超时 (ms)
+  private readonly healthCheckTimeout = 3000;
+
+  // 服务器不可用时的额外延迟 (ms)
+  private serverUnavailableDelay = 2000;
+
+  // 是否服务器不可用（健康检查失败）
+  private isServerUnavailable = false;
+
+  // 事件序号跟踪（断线续传）
+  protected sequence: EventSequenceTracker;
+
+  // 正在发送的发件箱消息（避免同一条消息被重复发送）
+  private inFlightOutboxIds = new Set<string>();
+
+  constructor(options: StreamConnectionOptions) {
+    this.options = options;
+    this.currentCid = options.cid || null;
+    this.sequence = options.sequence ?? new EventSequenceTracker();
+
+    // 监听页面卸载事件
+    if (typeof window !== 'undefined') {
+      this.handleBeforeUnload = this.handleBeforeUnload.bind(this);
+      window.addEventListener('beforeunload', this.handleBeforeUnload);
+    }
+  }
+
+  /** 日志标签及错误信息中的传输名称 */
+  protected abstract readonly tag: string;
+
+  /**
+   * 打开事件流并持续接收事件，直到连接结束
+   * 实现需在收到首个响应后调用 handleStreamOpen，结束或出错时调用 handleStreamEnd
+   */
+  protected abstract openStream(controller: AbortController): Promise<void>;
+
+  /**
+   * 处理页面卸载
+   */
+  private handleBeforeUnload(): void {
+    this.isUnloading = true;
+    // 静默关闭连接，不触发重连
+    this.isManualClose = true;
+    this.abortStream();
+  }
+
+  /**
+   * 获取当前连接状态
+   */
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * 获取当前 cid
+   */
+  get cid(): string | null {
+    return this.currentCid;
+  }
+
+  /**
+   * 是否已连接且就绪
+   */
+  get isReady(): boolean {
+    return this.connectionState === 'connected' && this.isServerReady;
+  }
+
+  /**
+   * 是否被其他连接踢掉
+   */
+  get wasKicked(): boolean {
+    return this.isKicked;
+  }
+
+  /**
+   * 获取某个 cid 已应用的最后事件序号
+   */
+  getLastSeq(cid: string): number | undefined {
+    return this.sequence.get(cid);
+  }
+
+  /**
+   * 清除事件序号记录
+   * 本地会话状态被清空时必须调用，否则重连只会重放尾部事件，无法重建完整状态
+   * @param cid 可选，不传则清除所有 cid
+   */
+  clearSequence(cid?: string): void {
+    this.sequence.clear(cid);
+  }
+
+  /**
+   * 检查服务器健康状态
+   * 用于重连前检测后端是否可用
+   */
+  private checkServerHealth(): Promise<boolean> {
+    return apiClient.checkHealth(this.healthCheckTimeout);
+  }
+
+  /**
+   * 更新连接状态
+   */
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState !== state) {
+      this.connectionState = state;
+      this.options.onConnectionStateChange?.(state);
+    }
+  }
+
+  /**
+   * 建立连接
+   * 事件流按 cid 订阅，未绑定 cid 时等待 bindCid 后再连接
+   */
+  connect(cid?: string): void {
+    // 如果页面正在卸载，不建立新连接
+    if (this.isUnloading) {
+      console.log(`[${this.tag}] Page is unloading, skip connect`);
+      return;
+    }
+
+    const previousCid = this.currentCid;
+    if (cid) {
+      this.currentCid = cid;
+    }
+
+    if (this.controller) {
+      // 已连接或连接中，cid 变了则重建事件流
+      if (cid && cid !== previousCid) {
+        this.restartStream();
+      } else {
+        console.warn(`[${this.tag}] Already connected`);
+      }
+      return;
+    }
+
+    if (!this.currentCid) {
+      console.log(`[${this.tag}] No cid bound yet, will connect after bindCid`);
+      this.setConnectionState('disconnected');
+      return;
+    }
+
+    this.setConnectionState('connecting');
+    this.isManualClose = false;
+    this.isServerReady = false;
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    // 设置连接超时
+    this.connectTimeout = setTimeout(() => {
+      if (this.controller === controller && this.connectionState === 'connecting') {
+        console.error(`[${this.tag}] Connection timeout`);
+        this.options.onError?.(new Error(`${this.tag} connection timeout`));
+        controller.abort();
+      }
+    }, this.connectTimeoutMs);
+
+    void this.openStream(controller);
+  }
+
+  /**
+   * 动态绑定 cid（用于切换会话场景）
+   * 事件流按 cid 订阅，cid 变化时需要重建事件流
+   */
+  bindCid(cid: string): void {
+    const previousCid = this.currentCid;
+    this.currentCid = cid;
+
+    if (this.controller) {
+      if (cid !== previousCid) {
+        console.log(`[${this.tag}] Binding cid:`, cid);
+        this.restartStream();
+      } else if (this.isReady) {
+        this.flushRequestQueue();
+        this.flushOutbox();
+      }
+    } else {
+      console.log(`[${this.tag}] Will bind cid after connection:`, cid);
+    }
+  }
+
+  /**
+   * 是否为当前事件流（手动关闭或重建事件流后，旧连接的回调应被忽略）
+   */
+  protected isCurrentStream(controller: AbortController): boolean {
+    return this.controller === controller;
+  }
+
+  /**
+   * 记录收到数据（用于心跳检测）
+   */
+  protected touch(): void {
+    this.lastActivityAt = Date.now();
+  }
+
+  /**
+   * 事件流已建立
+   */
+  protected handleStreamOpen(controller: AbortController): void {
+    console.log(`[${this.tag}] Connected successfully`);
+    this.clearConnectTimeout();
+    this.reconnectAttempts = 0;
+    this.setConnectionState('connected');
+    this.options.onReconnectStatusChange?.('idle', 0, this.maxReconnectAttempts);
+    this.startHeartbeat();
+
+    // 连接成功后，短暂等待服务端确认，如果没有收到则直接标记为就绪
+    setTimeout(() => {
+      if (this.controller === controller && !this.isServerReady && this.connectionState === 'connected') {
+        console.log(`[${this.tag}] No server confirmation, assuming ready`);
+        this.markServerReady();
+      }
+    }, 200);
+  }
+
+  /**
+   * 检查事件序号，决定是否应用该事件
+   * 序号出现缺口时丢弃并携带 last_seq 重建事件流，由服务端按顺序补齐
+   */
+  private acceptSequence(message: StreamEvent): boolean {
+    const result = this.sequence.check(message, this.currentCid);
+
+    if (result.status === 'duplicate') {
+      console.log(`[${this.tag}] Skipping duplicate event seq=${result.seq} (last=${result.lastSeq})`);
+      return false;
+    }
+
+    if (result.status === 'gap') {
+      if (result.requestReplay && result.cid === this.currentCid) {
+        console.warn(`[${this.tag}] Sequence gap for ${result.cid}: expected ${result.lastSeq + 1}, got ${result.seq}, reopening stream`);
+        this.restartStream();
+      }
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 处理服务端消息
+   */
+  protected handleMessage(message: StreamEvent): void {
+    if (!this.acceptSequence(message)) {
+      return;
+    }
+
+    // 处理 connected 和 state_update 确认（兼容旧格式 state）
+    if (message.type === 'connected' || message.type === 'state_update' || message.type === 'state') {
+      this.markServerReady();
+    }
+
+    // 处理被踢事件，后端随后会结束事件流
+    if (message.type === 'session_replaced') {
+      console.warn(`[${this.tag}] Session replaced by another connection`);
+      this.isKicked = true;
+      this.setConnectionState('kicked');
+      this.options.onEvent(message);
+      return;
+    }
+
+    // 处理 Session 过期事件 (SESSION_EXPIRATION_FRONTEND_GUIDE.md)
+    if (message.type === 'session_expired') {
+      console.warn(`[${this.tag}] Session expired:`, message.data);
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('session:expired', {
+          detail: message.data
+        }));
+      }
+      this.options.onEvent(message);
+      return;
+    }
+
+    // 处理强制登出事件
+    if (message.type === 'force_logout') {
+      console.warn(`[${this.tag}] Force logout:`, message.data);
+      this.isKicked = true;
+      this.setConnectionState('failed');
+      this.options.onEvent(message);
+      return;
+    }
+
+    // 处理频率限制事件
+    if (message.type === 'rate_limited') {
+      console.warn(`[${this.tag}] Rate limited:`, message.data);
+      this.setConnectionState('failed');
+      this.options.onEvent(message);
+      return;
+    }
+
+    // 转发给事件处理器
+    this.options.onEvent(message);
+
+    if (message.type === 'error') {
+      console.error(`[${this.tag}] Server error:`, message.data);
+    }
+  }
+
+  /**
+   * 标记服务端就绪，发送排队的请求和发件箱消息
+   */
+  protected markServerReady(): void {
+    this.isServerReady = true;
+    this.options.onConnect?.();
+    this.flushRequestQueue();
+    this.flushOutbox();
+  }
+
+  /**
+   * 处理事件流结束（服务端关闭、网络错误、心跳超时）
+   * 根据 HTTP 状态码判断是否重连，与 WebSocket 关闭码的处理保持一致
+   */
+  protected handleStreamEnd(error?: unknown): void {
+    this.controller = null;
+    this.clearConnectTimeout();
+    this.stopHeartbeat();
+    this.isServerReady = false;
+    // 未完成的重放请求随连接失效，重连时通过 last_seq 重新请求
+    this.sequence.clearPendingReplays();
+
+    // 页面卸载或手动关闭时静默处理
+    if (this.isUnloading || this.isManualClose) {
+      this.setConnectionState('disconnected');
+      return;
+    }
+
+    const status = (error as ApiError | undefined)?.status;
+    console.log(`[${this.tag}] Stream ended:`, status ?? (error instanceof Error ? error.message : 'closed by server'));
+    this.options.onDisconnect?.(status, error instanceof Error ? error.message : undefined);
+
+    switch (status) {
+      case 401:
+        // 认证失败，需要重新登录
+        console.error(`[${this.tag}] Authentication failed`);
+        this.setConnectionState('failed');
+        this.rejectQueuedRequests(new Error('Authentication failed'));
+        this.options.onError?.(new Error(`${this.tag} authentication failed`));
+        return;
+
+      case 403:
+        // 禁止访问（账号被封禁等），不重连
+        console.error(`[${this.tag}] Access forbidden`);
+        this.setConnectionState('failed');
+        this.rejectQueuedRequests(new Error('Access forbidden'));
+        this.options.onError?.(new Error('Account has been banned'));
+        return;
+
+      case 429:
+        // 频率限制，不自动重连
+        console.warn(`[${this.tag}] Rate limited`);
+        this.setConnectionState('failed');
+        this.rejectQueuedRequests(new Error('Rate limited'));
+        this.options.onError?.(new Error('Connection rate limited, please try again later'));
+        return;
+    }
+
+    // 被踢状态不重连
+    if (this.isKicked) {
+      this.setConnectionState('kicked');
+      this.rejectQueuedRequests(new Error('Session replaced by another connection'));
+      return;
+    }
+
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.scheduleReconnect();
+    } else {
+      this.setConnectionState('failed');
+      this.options.onReconnectStatusChange?.('max_attempts_reached', this.reconnectAttempts, this.maxReconnectAttempts);
+      this.rejectQueuedRequests(new Error('Max reconnect attempts reached'));
+      // 触发最大重连次数到达回调，允许用户手动重试
+      this.options.onMaxReconnectReached?.({
+        attempts: this.reconnectAttempts,
+        canManualRetry: true,
+      });
+      this.options.onError?.(new Error(`${this.tag} connection failed after ${this.maxReconnectAttempts} attempts`));
+    }
+  }
+
+  /**
+   * 计算重连延迟（指数退避 + 随机抖动）
+   */
+  private getReconnectDelay(): number {
+    // 指数退避: 1s, 2s, 4s, 8s, 16s...
+    const exponentialDelay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts);
+
+    // 添加随机抖动 (±25%) 避免多客户端同时重连（thundering herd）
+    const jitter = exponentialDelay * 0.25 * (Math.random() * 2 - 1);
+
+    // 限制最大延迟
+    return Math.min(exponentialDelay + jitter, this.maxReconnectDelay);
+  }
+
+  /**
+   * 安排重连（带健康检查）
+   */
+  private async scheduleReconnect(): Promise<void> {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      return;
+    }
+
+    // 如果被踢掉，不自动重连
+    if (this.isKicked) {
+      console.log(`[${this.tag}] Connection was kicked, not reconnecting`);
+      return;
+    }
+
+    this.reconnectAttempts++;
+
+    // 先检查服务器健康状态
+    const isHealthy = await this.checkServerHealth();
+
+    // 健康检查期间被手动关闭
+    if (this.isManualClose) {
+      return;
+    }
+
+    if (!isHealthy) {
+      // 服务器不可用，可能正在重启
+      console.log(`[${this.tag}] Server health check failed, server may be restarting`);
+      this.isServerUnavailable = true;
+      this.setConnectionState('server_restarting');
+      this.options.onServerUnavailable?.();
+
+      // 使用更长的延迟
+      const delay = Math.min(
+        this.serverUnavailableDelay * Math.pow(1.5, this.reconnectAttempts - 1),
+        this.maxReconnectDelay
+      );
+
+      console.log(`[${this.tag}] Waiting ${Math.round(delay)}ms before retry (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+      this.options.onReconnectStatusChange?.('reconnecting', this.reconnectAttempts, this.maxReconnectAttempts);
+
+      this.reconnectTimeout = setTimeout(() => {
+        this.scheduleReconnect();
+      }, delay);
+    } else {
+      // 服务器可用，立即重连
+      if (this.isServerUnavailable) {
+        console.log(`[${this.tag}] Server is back online, reconnecting...`);
+        this.isServerUnavailable = false;
+      }
+
+      this.setConnectionState('reconnecting');
+      const delay = this.getReconnectDelay();
+
+      console.log(`[${this.tag}] Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+      this.options.onReconnectStatusChange?.('reconnecting', this.reconnectAttempts, this.maxReconnectAttempts);
+
+      this.reconnectTimeout = setTimeout(() => {
+        this.connect();
+      }, delay);
+    }
+  }
+
+  /**
+   * 启动心跳检测
+   * HTTP 事件流是单向连接，客户端无法发送 ping，改为检测服务端心跳（或轮询响应）是否超时
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastActivityAt = Date.now();
+    this.heartbeatInterval = setInterval(() => {
+      if (Date.now() - this.lastActivityAt > this.heartbeatTimeoutMs) {
+        console.warn(`[${this.tag}] Heartbeat timeout, reconnecting`);
+        // 中止读取后由 openStream 统一进入重连流程
+        this.controller?.abort();
+      }
+    }, 10000);
+  }
+
+  /**
+   * 停止心跳检测
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  private clearConnectTimeout(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+  }
+
+  /**
+   * 中止当前事件流（不触发重连）
+   */
+  private abortStream(): void {
+    const controller = this.controller;
+    this.controller = null;
+    this.clearConnectTimeout();
+    this.stopHeartbeat();
+    this.isServerReady = false;
+    controller?.abort();
+  }
+
+  /**
+   * 重建事件流（切换 cid 或补齐序号缺口）
+   */
+  protected restartStream(): void {
+    this.abortStream();
+    this.connect();
+  }
+
+  /**
+   * 发送 HTTP 请求（如果事件流未就绪则加入队列）
+   * 请求必须在事件流就绪后发送，否则可能错过请求触发的事件
+   */
+  private sendRequest(run: () => Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.isReady && !this.isFlushingQueue) {
+        run().then(resolve, reject);
+      } else if (
+        this.connectionState === 'connected' ||
+        this.connectionState === 'connecting' ||
+        this.connectionState === 'reconnecting'
+      ) {
+        // 正在连接中或服务端尚未确认，加入队列等待
+        console.log(`[${this.tag}] Not ready, queueing request`);
+        this.requestQueue.push({ run, resolve, reject });
+      } else {
+        reject(new Error(`${this.tag} stream is not connected`));
+      }
+    });
+  }
+
+  /**
+   * 按顺序发送队列中的请求
+   */
+  private async flushRequestQueue(): Promise<void> {
+    if (this.isFlushingQueue) return;
+    this.isFlushingQueue = true;
+    try {
+      while (this.requestQueue.length > 0) {
+        const queued = this.requestQueue.shift()!;
+        try {
+          await queued.run();
+          queued.resolve();
+        } catch (error) {
+          queued.reject(error instanceof Error ? error : new Error('Failed to send request'));
+        }
+      }
+    } finally {
+      this.isFlushingQueue = false;
+    }
+  }
+
+  /**
+   * 拒绝队列中的所有请求
+   */
+  private rejectQueuedRequests(error: Error): void {
+    while (this.requestQueue.length > 0) {
+      const queued = this.requestQueue.shift()!;
+      queued.reject(error);
+    }
+  }
+
+  /**
+   * 获取当前 cid，未绑定时抛出错误
+   */
+  protected requireCid(): string {
+    if (!this.currentCid) {
+      throw new Error(`No conversation ID bound to ${this.tag} stream`);
+    }
+    return this.currentCid;
+  }
+
+  /**
+   * 补发发件箱中当前会话的消息
+   * 失败次数达到上限的消息不会自动补发，需要用户手动重发或丢弃
+   */
+  private async flushOutbox(): Promise<void> {
+    const { outbox } = this.options;
+    const cid = this.currentCid;
+    if (!outbox || !cid) return;
+
+    try {
+      const entries = await outbox.list(cid);
+      for (const entry of entries) {
+        if (entry.status === 'failed' && entry.attempts >= MAX_AUTO_FLUSH_ATTEMPTS) {
+          continue;
+        }
+        // 连接再次断开或已切换会话时停止补发，保持顺序
+        if (!this.isReady || this.currentCid !== cid) {
+          return;
+        }
+        console.log(`[${this.tag}] Flushing outbox message:`, entry.clientMessageId);
+        await this.deliverOutboxEntry(entry.clientMessageId).catch(() => {
+          // 失败状态已记录在发件箱中
+        });
+      }
+    } catch (error) {
+      console.error(`[${this.tag}] Failed to flush outbox:`, error);
+    }
+  }
+
+  /**
+   * 发送发件箱中的一条消息，成功后从发件箱删除
+   */
+  private async deliverOutboxEntry(clientMessageId: string): Promise<void> {
+    const { outbox } = this.options;
+    if (!outbox || this.inFlightOutboxIds.has(clientMessageId)) return;
+
+    this.inFlightOutboxIds.add(clientMessageId);
+    try {
+      const entry = await outbox.get(clientMessageId);
+      if (!entry) return;
+      // 消息只能发送到其所属会话
+      if (entry.cid !== this.currentCid) {
+        throw new Error('Message belongs to another conversation');
+      }
+
+      await outbox.update(clientMessageId, { status: 'sending', attempts: entry.attempts + 1, error: undefined });
+      try {
+        await this.sendRequest(() => this.postUserMessage(entry.cid, entry.data));
+      } catch (error) {
+        await outbox.update(clientMessageId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to send message',
+        });
+        throw error;
+      }
+      await outbox.remove(clientMessageId);
+    } finally {
+      this.inFlightOutboxIds.delete(clientMessageId);
+    }
+  }
+
+  private postUserMessage(cid: string, data: UserMessageData): Promise<void> {
+    return apiClient.sendMessage(cid, data.content, data.attachments, data.attachmentIds, data.clientMessageId, data.mentions);
+  }
+
+  /**
+   * 发送用户消息
+   * 配置了发件箱且已绑定 cid 时，消息先持久化再发送；发送失败的消息保留在发件箱中，重连后自动补发
+   */
+  async sendUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<void> {
+    const id = await this.enqueueUserMessage(content, attachments, attachmentIds, clientMessageId, mentions);
+    if (this.options.outbox && this.currentCid) {
+      await this.deliverOutboxEntry(id);
+      return;
+    }
+
+    const cid = this.requireCid();
+    const data = this.buildUserMessageData(content, attachments, attachmentIds, id, mentions);
+    await this.sendRequest(() => this.postUserMessage(cid, data));
+  }
+
+  /**
+   * 只将用户消息写入发件箱，不立即发送（连接不可用时使用）
+   * @returns 客户端消息 ID
+   */
+  async enqueueUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<string> {
+    const id = clientMessageId || createClientMessageId();
+    const { outbox } = this.options;
+    if (outbox && this.currentCid) {
+      await outbox.enqueue({
+        clientMessageId: id,
+        cid: this.currentCid,
+        data: this.buildUserMessageData(content, attachments, attachmentIds, id, mentions),
+      });
+    }
+    return id;
+  }
+
+  /**
+   * 立即发送发件箱中的消息（用户手动重发，不受自动补发次数限制）
+   */
+  async sendOutboxMessageNow(clientMessageId: string): Promise<void> {
+    if (this.connectionState === 'disconnected' || this.connectionState === 'failed') {
+      this.manualReconnect();
+    }
+    await this.deliverOutboxEntry(clientMessageId);
+  }
+
+  private buildUserMessageData(
+    content: string,
+    attachments: UserMessageData['attachments'],
+    attachmentIds: string[] | undefined,
+    clientMessageId: string,
+    mentions?: UserMessageData['mentions']
+  ): UserMessageData {
+    return {
+      content,
+      attachments,
+      attachmentIds: attachmentIds || attachments?.map(a => a.attachmentId!).filter(Boolean),
+      clientMessageId,
+      mentions: mentions && mentions.length > 0 ? mentions : undefined,
+    };
+  }
+
+  /**
+   * 恢复中断
+   */
+  async resumeInterrupt(interruptId: string, decision: InterruptDecision): Promise<void> {
+    const cid = this.requireCid();
+    await this.sendRequest(() => apiClient.resumeInterrupt(cid, interruptId, decision));
+  }
+
+  /**
+   * 停止生成
+   */
+  async stop(): Promise<void> {
+    const cid = this.requireCid();
+    await this.sendRequest(() => apiClient.stopGeneration(cid));
+  }
+
+  /**
+   * 重试失败的消息
+   * @param turnId 要重试的 turn ID
+   */
+  async retryMessage(turnId: string): Promise<void> {
+    const cid = this.requireCid();
+    await this.sendRequest(() => apiClient.retryMessage(cid, turnId));
+  }
+
+  /**
+   * 发送 Block Editor 事件
+   * 编辑器事件需要双向实时转发，HTTP 传输不支持（协同编辑不可用）
+   */
+  async sendEditorEvent(): Promise<void> {
+    throw new Error('Editor events require a WebSocket connection');
+  }
+
+  /**
+   * 关闭连接
+   */
+  close(): void {
+    this.isManualClose = true;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    this.rejectQueuedRequests(new Error('Connection closed'));
+    this.abortStream();
+    this.setConnectionState('disconnected');
+  }
+
+  /**
+   * 重置连接（用于切换会话）
+   */
+  reset(): void {
+    this.close();
+    this.reconnectAttempts = 0;
+    this.currentCid = null;
+    this.isServerReady = false;
+    this.isKicked = false;
+    this.isServerUnavailable = false;
+  }
+
+  /**
+   * 销毁实例（清理所有资源）
+   */
+  destroy(): void {
+    // 移除页面卸载监听
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    }
+    this.close();
+  }
+
+  /**
+   * 重新连接
+   * @param newCid 可选的新 cid，如果提供则使用新 cid 连接
+   */
+  reconnect(newCid?: string): void {
+    this.close();
+    this.reconnectAttempts = 0;
+    if (newCid) {
+      this.currentCid = newCid;
+    }
+    setTimeout(() => this.connect(), 100);
+  }
+
+  /**
+   * 手动重连（用于用户点击重试按钮）
+   * 重置重连计数器并立即尝试重连
+   */
+  manualReconnect(): void {
+    console.log(`[${this.tag}] Manual reconnect triggered`);
+    this.reconnectAttempts = 0;
+    this.isServerUnavailable = false;
+    this.isKicked = false;
+
+    // 取消任何正在进行的重连
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    // 关闭现有事件流并重连
+    this.abortStream();
+    this.setConnectionState('connecting');
+    this.connect();
+  }
+
+  /**
+   * 更新认证凭证
+   * 请求头由 ApiClient 在每次请求时生成，无需处理
+   */
+  updateCredentials(): void {
+    // no-op
+  }
+}
@@ -0,0 +1,103 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MessageOutbox, type OutboxEntry } from './outbox';
+
+// ============ 测试数据 ============
+
+function message(clientMessageId: string, cid = 'conv-1'): Omit<OutboxEntry, 'status' | 'attempts' | 'createdAt' | 'updatedAt'> {
+  return { clientMessageId, cid, data: { content: `Message ${clientMessageId}`, clientMessageId } };
+}
+
+// ============ 测试 ============
+
+/** IndexedDB 和内存存储行为一致 */
+describe.each([
+  ['IndexedDB', () => new IDBFactory()],
+  ['memory fallback', () => undefined],
+])('MessageOutbox (%s)', (_name, createFactory) => {
+  let outbox: MessageOutbox;
+  let now: number;
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', createFactory());
+    now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+    outbox = new MessageOutbox();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('enqueues a queued entry', async () => {
+    expect(await outbox.enqueue(message('m1'))).toBe(true);
+
+    expect(await outbox.get('m1')).toMatchObject({
+      clientMessageId: 'm1',
+      cid: 'conv-1',
+      status: 'queued',
+      attempts: 0,
+    });
+  });
+
+  it('does not overwrite an entry with the same clientMessageId', async () => {
+    await outbox.enqueue(message('m1'));
+    await outbox.update('m1', { status: 'failed', attempts: 2 });
+
+    expect(await outbox.enqueue(message('m1'))).toBe(false);
+    expect(await outbox.get('m1')).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('adds only one of concurrent enqueues of the same message', async () => {
+    const results = await Promise.all([outbox.enqueue(message('m1')), outbox.enqueue(message('m1'))]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await outbox.list()).toHaveLength(1);
+  });
+
+  it('notifies subscribers only when something changes', async () => {
+    const listener = vi.fn();
+    const unsubscribe = outbox.subscribe(listener);
+
+    await outbox.enqueue(message('m1'));
+    await outbox.enqueue(message('m1'));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    await outbox.remove('m1');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists entries by creation time and filters by conversation', async () => {
+    await outbox.enqueue(message('b', 'conv-1'));
+    await outbox.enqueue(message('a', 'conv-2'));
+    await outbox.enqueue(message('c', 'conv-1'));
+
+    expect((await outbox.list()).map((entry) => entry.clientMessageId)).toEqual(['b', 'a', 'c']);
+    expect((await outbox.list('conv-1')).map((entry) => entry.clientMessageId)).toEqual(['b', 'c']);
+  });
+
+  it('updates status and bumps updatedAt', async () => {
+    await outbox.enqueue(message('m1'));
+    const before = await outbox.get('m1');
+
+    const updated = await outbox.update('m1', { status: 'failed', attempts: 1, error: 'offline' });
+
+    expect(updated).toMatchObject({ status: 'failed', attempts: 1, error: 'offline', createdAt: before?.createdAt });
+    expect(updated!.updatedAt).toBeGreaterThan(before!.updatedAt);
+    expect(await outbox.get('m1')).toEqual(updated);
+  });
+
+  it('returns undefined when updating a missing entry', async () => {
+    expect(await outbox.update('missing', { status: 'sending' })).toBeUndefined();
+  });
+
+  it('removes entries', async () => {
+    await outbox.enqueue(message('m1'));
+    await outbox.remove('m1');
+
+    expect(await outbox.get('m1')).toBeUndefined();
+    expect(await outbox.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * SeenOS 用户消息发件箱（离线持久化）
+ *
+ * 用户消息在发送前先写入 IndexedDB，发送成功后删除：
+ * - 网络抖动或页面刷新时消息不会丢失
+ * - 重连后自动补发（按创建时间顺序）
+ * - 以 clientMessageId 为主键去重，服务端也据此去重
+ *
+ * IndexedDB 不可用时（SSR、隐私模式）回退到内存存储。
+ */
+
+import type { UserMessageData } from './websocket';
+
+// ============ 类型定义 ============
+
+/** 发件箱消息状态 */
+export type OutboxStatus =
+  | 'queued'   // 等待连接后发送
+  | 'sending'  // 发送中
+  | 'failed';  // 发送失败（可手动重发或丢弃）
+
+/** 发件箱消息 */
+export interface OutboxEntry {
+  clientMessageId: string;
+  cid: string;
+  data: UserMessageData;
+  status: OutboxStatus;
+  attempts: number;         // 已尝试发送次数
+  error?: string;           // 最近一次失败原因
+  createdAt: number;
+  updatedAt: number;
+}
+
+type OutboxListener = () => void;
+
+// ============ 常量 ============
+
+const DB_NAME = 'seenos_outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+/** 重连时自动补发的最大尝试次数，超过后需要用户手动重发 */
+export const MAX_AUTO_FLUSH_ATTEMPTS = 3;
+
+/**
+ * 生成客户端消息 ID
+ */
+export function createClientMessageId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `user-${crypto.randomUUID()}`;
+  }
+  return `user-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// ============ IndexedDB 辅助函数 ============
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 在一个读写事务中查重并写入
+ * @returns 是否写入（已存在时为 false）
+ */
+function addIfAbsent(db: IDBDatabase, entry: OutboxEntry): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    let added = false;
+
+    const lookup = store.getKey(entry.clientMessageId);
+    lookup.onsuccess = () => {
+      if (lookup.result !== undefined) return;
+      store.add(entry);
+      added = true;
+    };
+    tx.oncomplete = () => resolve(added);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'clientMessageId' });
+        store.createIndex('cid', 'cid', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============ 发件箱 ============
+
+export class MessageOutbox {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memoryStore = new Map<string, OutboxEntry>();
+  private listeners = new Set<OutboxListener>();
+
+  /**
+   * 获取数据库连接，失败时返回 null（回退到内存存储）
+   */
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        this.dbPromise = Promise.resolve(null);
+      } else {
+        this.dbPromise = openDatabase().catch((error) => {
+          console.warn('[Outbox] IndexedDB unavailable, falling back to memory:', error);
+          return null;
+        });
+      }
+    }
+    return this.dbPromise;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * 订阅发件箱变化
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 获取单条消息
+   */
+  async get(clientMessageId: string): Promise<OutboxEntry | undefined> {
+    const db = await this.getDatabase();
+    if (!db) {
+      return this.memoryStore.get(clientMessageId);
+    }
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return promisifyRequest<OutboxEntry | undefined>(store.get(clientMessageId));
+  }
+
+  /**
+   * 列出消息（按创建时间排序）
+   * @param cid 可选，只列出指定会话的消息
+   */
+  async list(cid?: string): Promise<OutboxEntry[]> {
+    const db = await this.getDatabase();
+    let entries: OutboxEntry[];
+    if (!db) {
+      entries = Array.from(this.memoryStore.values()).filter((e) => !cid || e.cid === cid);
+    } else {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const request = cid ? store.index('cid').getAll(cid) : store.getAll();
+      entries = await promisifyRequest<OutboxEntry[]>(request);
+    }
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * 写入消息（已存在相同 clientMessageId 时不覆盖，保证去重）
+   * 查重和写入在同一个读写事务中完成：并发写入同一条消息时只有一次成功
+   * @returns 是否为新写入
+   */
+  async enqueue(entry: Omit<OutboxEntry, 'status' | 'attempts' | 'createdAt' | 'updatedAt'>): Promise<boolean> {
+    const now = Date.now();
+    const record: OutboxEntry = { ...entry, status: 'queued', attempts: 0, createdAt: now, updatedAt: now };
+    const db = await this.getDatabase();
+
+    let added: boolean;
+    if (!db) {
+      added = !this.memoryStore.has(record.clientMessageId);
+      if (added) this.memoryStore.set(record.clientMessageId, record);
+    } else {
+      added = await addIfAbsent(db, record);
+    }
+
+    if (added) this.notify();
+    return added;
+  }
+
+  /**
+   * 更新消息状态
+   */
+  async update(clientMessageId: string, patch: Partial<Pick<OutboxEntry, 'status' | 'attempts' | 'error'>>): Promise<OutboxEntry | undefined> {
+    const existing = await this.get(clientMessageId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: OutboxEntry = { ...existing, ...patch, updatedAt: Date.now() };
+    await this.put(updated);
+    return updated;
+  }
+
+  /**
+   * 删除消息（发送成功或用户丢弃）
+   */
+  async remove(clientMessageId: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) {
+      this.memoryStore.delete(clientMessageId);
+    } else {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      await promisifyRequest(tx.objectStore(STORE_NAME).delete(clientMessageId));
+    }
+    this.notify();
+  }
+
+  private async put(entry: OutboxEntry): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) {
+      this.memoryStore.set(entry.clientMessageId, entry);
+    } else {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      await promisifyRequest(tx.objectStore(STORE_NAME).put(entry));
+    }
+    this.notify();
+  }
+}
+
+/** 全局发件箱实例 */
+export const messageOutbox = new MessageOutbox();
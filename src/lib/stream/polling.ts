@@ -0,0 +1,114 @@
+/**
+ * SeenOS 长轮询流式连接
+ * WebSocket 和 SSE 都不可用时的最终回退方案（如代理缓冲或拦截流式响应）
+ *
+ * 轮询地址: GET /api/conversations/{cid}?since={updatedAt}&wait={seconds}
+ * 每次响应转换为 state_update 事件（完整会话状态），不提供流式增量
+ * 重连、心跳检测及 HTTP 请求发送见 HttpStreamConnection
+ */
+
+import type { Conversation, StreamEvent } from '@/app/types/types';
+import { apiClient, type ConversationDetailResponse } from '@/lib/api/client';
+import { HttpStreamConnection } from './http';
+
+// ============ 常量 ============
+
+/** 服务端最长等待时间（秒），需小于心跳超时 */
+const LONG_POLL_WAIT_SECONDS = 25;
+
+/** 两次轮询的最小间隔（服务端不支持长轮询、立即返回时限制请求频率） */
+const MIN_POLL_INTERVAL_MS = 2000;
+
+/**
+ * 等待指定时间，中止时立即返回
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// ============ 长轮询流式连接类 ============
+
+export class LongPollingStream extends HttpStreamConnection {
+  protected readonly tag = 'Polling';
+
+  /**
+   * 循环轮询会话状态，直到连接结束
+   */
+  protected async openStream(controller: AbortController): Promise<void> {
+    const cid = this.requireCid();
+    console.log('[Polling] Polling conversation state:', cid);
+
+    let since: string | undefined;
+    let lastStatus: Conversation['status'] | undefined;
+    let isOpen = false;
+
+    try {
+      while (this.isCurrentStream(controller)) {
+        const startedAt = Date.now();
+        const conversation = await apiClient.pollConversationState(cid, {
+          since,
+          waitSeconds: LONG_POLL_WAIT_SECONDS,
+          signal: controller.signal,
+        });
+        if (!this.isCurrentStream(controller)) return;
+
+        this.touch();
+        if (!isOpen) {
+          isOpen = true;
+          this.handleStreamOpen(controller);
+        }
+
+        const version = conversation.updatedAt ? String(conversation.updatedAt) : undefined;
+        if (version !== since || conversation.status !== lastStatus || lastStatus === undefined) {
+          this.handleMessage(this.toStateEvent(cid, conversation));
+
+          // 会话从生成中变为空闲或出错，视为一次请求完成（重命名等其他更新不触发）
+          if (lastStatus === 'busy' && conversation.status !== 'busy') {
+            this.handleMessage({
+              type: 'done',
+              cid,
+              data: conversation.status === 'error' ? { reason: 'error' } : null,
+              timestamp: Date.now(),
+            });
+          }
+
+          since = version;
+          lastStatus = conversation.status;
+        }
+
+        const elapsed = Date.now() - startedAt;
+        if (elapsed < MIN_POLL_INTERVAL_MS) {
+          await sleep(MIN_POLL_INTERVAL_MS - elapsed, controller.signal);
+        }
+      }
+    } catch (error) {
+      // 手动关闭或重建事件流时忽略旧请求的错误
+      if (!this.isCurrentStream(controller)) return;
+      this.handleStreamEnd(error);
+    }
+  }
+
+  /**
+   * 将会话详情转换为 state_update 事件
+   */
+  private toStateEvent(cid: string, conversation: ConversationDetailResponse): StreamEvent {
+    return {
+      type: 'state_update',
+      cid,
+      data: {
+        messages: conversation.messages || [],
+        todos: conversation.todos || [],
+        files: conversation.files || {},
+        branches: conversation.branches,
+        activeBranchId: conversation.activeBranchId,
+      },
+      timestamp: Date.now(),
+    };
+  }
+}
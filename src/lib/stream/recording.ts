@@ -0,0 +1,218 @@
+/**
+ * 流式事件录制格式与状态对比
+ *
+ * 录制器（useStreamRecorderStore）按会话保存收到的原始 StreamEvent 及接收时间，
+ * 连同录制开始时的会话状态（基线）一起导出为 JSON，用户反馈渲染问题时附上该文件即可复现。
+ * 调试面板导入录制后逐条重放事件，并用 diffStreamSnapshots 显示每一步
+ * Message / ToolCall / 子代理块的变化。
+ */
+
+import type {
+  ContentBlock,
+  FileItem,
+  Message,
+  StreamEvent,
+  SubagentBlock,
+  TodoItem,
+  ToolCall,
+} from '@/app/types/types';
+
+// ============ 录制格式 ============
+
+export const STREAM_RECORDING_VERSION = 1;
+
+/** 录制的单个事件 */
+export interface RecordedStreamEvent {
+  /** 客户端收到事件的时间（毫秒时间戳） */
+  receivedAt: number;
+  event: StreamEvent;
+}
+
+/** 录制开始时的会话状态，重放从这里开始 */
+export interface StreamRecordingBaseline {
+  messages: Message[];
+  todos: TodoItem[];
+  files: Record<string, string | FileItem>;
+}
+
+/** 一个会话的事件录制 */
+export interface StreamRecording {
+  version: typeof STREAM_RECORDING_VERSION;
+  cid: string;
+  /** 录制开始时间（ISO） */
+  startedAt: string;
+  baseline: StreamRecordingBaseline | null;
+  events: RecordedStreamEvent[];
+}
+
+/**
+ * 创建空录制
+ */
+export function createStreamRecording(
+  cid: string,
+  baseline: StreamRecordingBaseline | null = null
+): StreamRecording {
+  return {
+    version: STREAM_RECORDING_VERSION,
+    cid,
+    startedAt: new Date().toISOString(),
+    baseline,
+    events: [],
+  };
+}
+
+/**
+ * 导出为 JSON 文本
+ */
+export function serializeStreamRecording(recording: StreamRecording): string {
+  return JSON.stringify(recording, null, 2);
+}
+
+/** 导出文件名 */
+export function streamRecordingFileName(recording: StreamRecording): string {
+  const time = recording.startedAt.replace(/[:.]/g, '-');
+  return `stream-recording-${recording.cid}-${time}.json`;
+}
+
+function isStreamEvent(value: unknown): value is StreamEvent {
+  return !!value && typeof value === 'object' && typeof (value as StreamEvent).type === 'string';
+}
+
+/**
+ * 解析导入的录制
+ * 同时接受录制文件和原始事件数组（如从浏览器开发者工具复制的 WebSocket 帧），
+ * 后者没有基线，接收时间取事件自带的 timestamp
+ * @throws Error 格式无效时
+ */
+export function parseStreamRecording(text: string): StreamRecording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (Array.isArray(raw)) {
+    if (!raw.every(isStreamEvent)) {
+      throw new Error('Every entry must be a stream event with a "type"');
+    }
+    const events = raw as StreamEvent[];
+    const recording = createStreamRecording(events.find((event) => event.cid)?.cid ?? 'imported');
+    recording.events = events.map((event, index) => ({
+      receivedAt: event.timestamp ?? index,
+      event,
+    }));
+    return recording;
+  }
+
+  const recording = raw as Partial<StreamRecording> | null;
+  if (!recording || typeof recording !== 'object' || !Array.isArray(recording.events)) {
+    throw new Error('Recording has no "events" array');
+  }
+  if (recording.version !== STREAM_RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${String(recording.version)}`);
+  }
+  if (!recording.events.every((entry) => entry && isStreamEvent(entry.event) && typeof entry.receivedAt === 'number')) {
+    throw new Error('Recording contains malformed events');
+  }
+
+  return {
+    version: STREAM_RECORDING_VERSION,
+    cid: typeof recording.cid === 'string' ? recording.cid : 'imported',
+    startedAt: typeof recording.startedAt === 'string' ? recording.startedAt : new Date().toISOString(),
+    baseline: recording.baseline ?? null,
+    events: recording.events,
+  };
+}
+
+// ============ 状态对比 ============
+
+/** 参与对比的实体 */
+export type StreamEntityKind = 'message' | 'toolCall' | 'subagent';
+
+/** 某一时刻按 ID 索引的实体 */
+export interface StreamStateSnapshot {
+  message: Map<string, Message>;
+  toolCall: Map<string, ToolCall>;
+  subagent: Map<string, SubagentBlock>;
+}
+
+/** 单个实体的变化 */
+export interface StreamStateChange {
+  entity: StreamEntityKind;
+  id: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** 变化的字段（added / removed 时为全部字段） */
+  fields: Array<{ name: string; before: unknown; after: unknown }>;
+}
+
+function collectSubagents(blocks: ContentBlock[] | undefined, into: Map<string, SubagentBlock>): void {
+  for (const block of blocks ?? []) {
+    if (block.type === 'subagent') {
+      into.set(block.id, block);
+      collectSubagents(block.childBlocks, into);
+    }
+  }
+}
+
+/**
+ * 从 reducer 状态提取对比快照
+ * 子代理没有独立的状态，取消息 contentBlocks 中（含嵌套）的子代理块
+ */
+export function snapshotStreamState(state: { messages: Message[]; toolCalls: Map<string, ToolCall> }): StreamStateSnapshot {
+  const snapshot: StreamStateSnapshot = {
+    message: new Map(),
+    toolCall: new Map(state.toolCalls),
+    subagent: new Map(),
+  };
+  for (const message of state.messages) {
+    snapshot.message.set(message.id, message);
+    collectSubagents(message.contentBlocks, snapshot.subagent);
+  }
+  return snapshot;
+}
+
+function diffFields(before: object | undefined, after: object | undefined): StreamStateChange['fields'] {
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const names = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+  const fields: StreamStateChange['fields'] = [];
+  for (const name of names) {
+    if (prev[name] === next[name]) continue;
+    if (JSON.stringify(prev[name]) === JSON.stringify(next[name])) continue;
+    fields.push({ name, before: prev[name], after: next[name] });
+  }
+  return fields;
+}
+
+/**
+ * 对比两个快照，按实体类型列出新增、删除和字段变化
+ * reducer 只替换发生变化的对象，引用相同的实体直接跳过
+ */
+export function diffStreamSnapshots(before: StreamStateSnapshot, after: StreamStateSnapshot): StreamStateChange[] {
+  const changes: StreamStateChange[] = [];
+  const entities: StreamEntityKind[] = ['message', 'toolCall', 'subagent'];
+
+  for (const entity of entities) {
+    const prev = before[entity] as Map<string, object>;
+    const next = after[entity] as Map<string, object>;
+
+    for (const [id, value] of next) {
+      const previous = prev.get(id);
+      if (previous === value) continue;
+      if (!previous) {
+        changes.push({ entity, id, kind: 'added', fields: diffFields(undefined, value) });
+        continue;
+      }
+      const fields = diffFields(previous, value);
+      if (fields.length > 0) changes.push({ entity, id, kind: 'changed', fields });
+    }
+
+    for (const [id, value] of prev) {
+      if (!next.has(id)) changes.push({ entity, id, kind: 'removed', fields: diffFields(value, undefined) });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,100 @@
+/**
+ * SeenOS 流事件序号跟踪（断线续传）
+ *
+ * 按 cid 记录已应用的最后事件序号，供 WebSocket / SSE 传输共用：
+ * - 重连时携带 last_seq，服务端重放之后的事件
+ * - 丢弃重放产生的重复事件
+ * - 检测序号缺口，由传输层请求重放
+ */
+
+import type { StreamEvent } from '@/app/types/types';
+
+// ============ 类型定义 ============
+
+/** 序号检查结果 */
+export type SequenceCheckResult =
+  | { status: 'accept' }
+  | { status: 'duplicate'; seq: number; lastSeq: number }
+  | {
+      status: 'gap';
+      cid: string;
+      seq: number;
+      lastSeq: number;
+      requestReplay: boolean; // 是否为该缺口首次检测到，需要请求重放
+    };
+
+// ============ 序号跟踪器 ============
+
+export class EventSequenceTracker {
+  // 每个 cid 已应用的最后事件序号
+  private lastSeqByCid = new Map<string, number>();
+
+  // 已请求重放但尚未补齐缺口的 cid（避免重复请求）
+  private pendingReplayCids = new Set<string>();
+
+  /**
+   * 获取某个 cid 已应用的最后事件序号
+   */
+  get(cid: string): number | undefined {
+    return this.lastSeqByCid.get(cid);
+  }
+
+  /**
+   * 清除事件序号记录
+   * @param cid 可选，不传则清除所有 cid
+   */
+  clear(cid?: string): void {
+    if (cid) {
+      this.lastSeqByCid.delete(cid);
+      this.pendingReplayCids.delete(cid);
+    } else {
+      this.lastSeqByCid.clear();
+      this.pendingReplayCids.clear();
+    }
+  }
+
+  /**
+   * 清除未完成的重放请求（连接断开时调用，重连时通过 last_seq 重新请求）
+   */
+  clearPendingReplays(): void {
+    this.pendingReplayCids.clear();
+  }
+
+  /**
+   * 检查事件序号，决定是否应用该事件
+   * - 无序号的事件（pong、旧版后端）直接应用
+   * - 完整状态快照（state/state_update）以其序号为新的基准
+   * - 序号不大于已应用序号的事件是重放的重复事件，丢弃
+   * - 序号出现缺口时丢弃，等待服务端按顺序补齐
+   * @param fallbackCid 事件未携带 cid 时使用的会话 ID（当前绑定的 cid）
+   */
+  check(message: StreamEvent, fallbackCid: string | null): SequenceCheckResult {
+    const cid = message.cid || fallbackCid;
+    if (typeof message.seq !== 'number' || !cid) {
+      return { status: 'accept' };
+    }
+
+    if (message.type === 'state' || message.type === 'state_update') {
+      this.lastSeqByCid.set(cid, message.seq);
+      this.pendingReplayCids.delete(cid);
+      return { status: 'accept' };
+    }
+
+    const lastSeq = this.lastSeqByCid.get(cid);
+    if (lastSeq !== undefined) {
+      if (message.seq <= lastSeq) {
+        return { status: 'duplicate', seq: message.seq, lastSeq };
+      }
+
+      if (message.seq > lastSeq + 1) {
+        const requestReplay = !this.pendingReplayCids.has(cid);
+        this.pendingReplayCids.add(cid);
+        return { status: 'gap', cid, seq: message.seq, lastSeq, requestReplay };
+      }
+    }
+
+    this.lastSeqByCid.set(cid, message.seq);
+    this.pendingReplayCids.delete(cid);
+    return { status: 'accept' };
+  }
+}
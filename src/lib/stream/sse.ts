@@ -1,233 +1,169 @@
 /**
- * SSE (Server-Sent Events) 流式连接管理
- * 作为 WebSocket 的备选方案，用于单向服务端推送
+ * SeenOS SSE (Server-Sent Events) 流式连接管理
+ * 用于 WebSocket 不可用的网络环境（如代理拦截 WebSocket 升级），与 WebSocketStream 提供相同的生命周期
+ *
+ * 连接地址: GET {sse_url}?cid={conversation_id}&last_seq={seq}
+ * 认证通过 ApiClient 请求头（Authorization / X-Session-ID）传递，token 不出现在 URL 中
+ * 重连、心跳检测、断线续传及 HTTP 请求发送见 HttpStreamConnection
  */
 
 import type { StreamEvent } from '@/app/types/types';
 import { apiClient } from '@/lib/api/client';
+import { HttpStreamConnection } from './http';
+import type { StreamConnectionOptions } from './websocket';
 
-type EventHandler = (event: StreamEvent) => void;
+// ============ 类型定义 ============
 
-interface SSEStreamOptions {
-  /** SSE URL */
+/** SSE 连接选项 */
+interface SSEStreamOptions extends StreamConnectionOptions {
+  /** SSE URL (不含查询参数) */
   url: string;
-  /** 认证 token */
-  token: string;
-  /** 会话 token（用于在线时长统计） */
-  sessionToken?: string;
-  /** 会话 ID */
-  cid: string;
-  /** 事件处理回调 */
-  onEvent: EventHandler;
-  /** 连接成功回调 */
-  onConnect?: () => void;
-  /** 断开连接回调 */
-  onDisconnect?: () => void;
-  /** 错误回调 */
-  onError?: (error: Error) => void;
-  /** 是否自动重连 */
-  autoReconnect?: boolean;
-  /** 重连延迟（毫秒） */
-  reconnectDelay?: number;
 }
 
-/**
- * SSE 流式连接类
- */
-export class SSEStream {
-  private eventSource: EventSource | null = null;
-  private options: SSEStreamOptions;
-  private isManualClose = false;
-  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+/** 解析中的 SSE 事件 */
+interface SSEFrame {
+  event: string;
+  data: string[];
+  id: string | null;
+}
+
+/** 仅用于保活的事件类型，不转发给事件处理器 */
+const HEARTBEAT_EVENT_TYPES = new Set(['ping', 'pong', 'heartbeat']);
+
+// ============ SSE 流式连接类 ============
+
+export class SSEStream extends HttpStreamConnection {
+  protected readonly tag = 'SSE';
+  private sseOptions: SSEStreamOptions;
 
   constructor(options: SSEStreamOptions) {
-    this.options = {
-      autoReconnect: true,
-      reconnectDelay: 3000,
-      ...options,
-    };
+    super(options);
+    this.sseOptions = options;
   }
 
   /**
-   * 建立 SSE 连接
+   * 打开事件流并持续读取，直到连接结束
    */
-  connect(): void {
-    if (this.eventSource?.readyState === EventSource.OPEN) {
-      console.warn('SSE is already connected');
-      return;
-    }
-
-    const { url, token, cid, sessionToken } = this.options;
-    // SSE 通过 URL 参数传递认证信息（或使用 cookie）
-    let sseUrl = `${url}?cid=${encodeURIComponent(cid)}&token=${encodeURIComponent(token)}`;
-    if (sessionToken) {
-      sseUrl += `&session_id=${encodeURIComponent(sessionToken)}`;
+  protected async openStream(controller: AbortController): Promise<void> {
+    const cid = this.requireCid();
+    // 断线续传：携带已应用的最后序号，服务端重放之后的事件
+    let url = `${this.sseOptions.url}?cid=${encodeURIComponent(cid)}`;
+    const lastSeq = this.sequence.get(cid);
+    if (lastSeq !== undefined) {
+      url += `&last_seq=${lastSeq}`;
     }
+    console.log('[SSE] Connecting to:', url);
 
     try {
-      this.eventSource = new EventSource(sseUrl);
-      this.isManualClose = false;
-      this.setupEventHandlers();
+      const response = await apiClient.openEventStream(url, controller.signal);
+      if (!this.isCurrentStream(controller)) return;
+
+      if (!response.body) {
+        throw new Error('SSE response has no body');
+      }
+
+      this.handleStreamOpen(controller);
+      await this.readStream(response.body, controller);
+      if (!this.isCurrentStream(controller)) return;
+      this.handleStreamEnd();
     } catch (error) {
-      this.options.onError?.(error instanceof Error ? error : new Error('Failed to create EventSource'));
+      // 手动关闭或重建事件流时忽略旧连接的错误
+      if (!this.isCurrentStream(controller)) return;
+      this.handleStreamEnd(error);
     }
   }
 
   /**
-   * 设置 SSE 事件处理器
+   * 读取并解析 SSE 事件流 (text/event-stream)
    */
-  private setupEventHandlers(): void {
-    if (!this.eventSource) return;
-
-    this.eventSource.onopen = () => {
-      console.log('SSE connected');
-      this.options.onConnect?.();
-
-      // 发送连接成功事件
-      this.options.onEvent({
-        type: 'connected',
-        data: { cid: this.options.cid },
-        timestamp: Date.now(),
-      });
-    };
-
-    this.eventSource.onmessage = (event) => {
-      try {
-        const streamEvent: StreamEvent = JSON.parse(event.data);
-        if (!streamEvent.timestamp) {
-          streamEvent.timestamp = Date.now();
-        }
-        this.options.onEvent(streamEvent);
-      } catch (e) {
-        console.error('Failed to parse SSE message:', e, event.data);
-      }
-    };
-
-    this.eventSource.onerror = () => {
-      console.error('SSE error');
-      this.options.onError?.(new Error('SSE connection error'));
-      this.options.onDisconnect?.();
+  private async readStream(body: ReadableStream<Uint8Array>, controller: AbortController): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let frame: SSEFrame = { event: '', data: [], id: null };
 
-      // 自动重连
-      if (!this.isManualClose && this.options.autoReconnect) {
-        this.scheduleReconnect();
-      }
-    };
-
-    // 监听自定义事件类型
-    const eventTypes = [
-      'message_start',
-      'message_delta',
-      'message_end',
-      'tool_call_start',
-      'tool_call_result',
-      'subagent_start',
-      'subagent_end',
-      'todo_update',
-      'file_update',
-      'interrupt',
-      'state_update',
-      'error',
-      'done',
-    ];
-
-    eventTypes.forEach((eventType) => {
-      this.eventSource?.addEventListener(eventType, (event: Event) => {
-        const messageEvent = event as MessageEvent;
-        try {
-          const data = JSON.parse(messageEvent.data);
-          this.options.onEvent({
-            type: eventType as StreamEvent['type'],
-            data,
-            timestamp: Date.now(),
-          });
-        } catch (e) {
-          console.error(`Failed to parse SSE ${eventType} event:`, e);
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        this.touch();
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          // 事件流已被替换（切换 cid 或请求重放），停止处理旧数据
+          if (!this.isCurrentStream(controller)) return;
+
+          if (line === '') {
+            if (frame.data.length > 0) {
+              this.dispatchFrame(frame);
+            }
+            frame = { event: '', data: [], id: null };
+            continue;
+          }
+
+          // 注释行（服务端心跳）
+          if (line.startsWith(':')) continue;
+
+          const separator = line.indexOf(':');
+          const field = separator === -1 ? line : line.slice(0, separator);
+          let value = separator === -1 ? '' : line.slice(separator + 1);
+          if (value.startsWith(' ')) {
+            value = value.slice(1);
+          }
+
+          switch (field) {
+            case 'event':
+              frame.event = value;
+              break;
+            case 'data':
+              frame.data.push(value);
+              break;
+            case 'id':
+              frame.id = value;
+              break;
+          }
         }
-      });
-    });
-  }
-
-  /**
-   * 安排重连
-   */
-  private scheduleReconnect(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+      }
+    } finally {
+      reader.releaseLock();
     }
-
-    this.reconnectTimeout = setTimeout(() => {
-      console.log('SSE reconnecting...');
-      this.connect();
-    }, this.options.reconnectDelay);
   }
 
   /**
-   * 断开连接
+   * 将解析出的 SSE 事件转换为 StreamEvent
+   * 兼容两种格式：data 为完整 StreamEvent，或 event 字段为类型、data 为事件数据
    */
-  disconnect(): void {
-    this.isManualClose = true;
+  private dispatchFrame(frame: SSEFrame): void {
+    const eventType = frame.event || 'message';
+    if (HEARTBEAT_EVENT_TYPES.has(eventType)) return;
 
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
+    const raw = frame.data.join('\n');
+    let message: StreamEvent;
+    try {
+      const parsed = JSON.parse(raw);
+      if (eventType === 'message' || (parsed && parsed.type === eventType && 'data' in parsed)) {
+        message = parsed as StreamEvent;
+      } else {
+        message = { type: eventType as StreamEvent['type'], data: parsed, timestamp: Date.now() };
+      }
+    } catch (e) {
+      console.error('[SSE] Failed to parse message:', e, raw);
+      return;
     }
 
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
+    if (HEARTBEAT_EVENT_TYPES.has(message.type)) return;
+    if (!message.timestamp) {
+      message.timestamp = Date.now();
     }
+    if (message.seq === undefined && frame.id && /^\d+$/.test(frame.id)) {
+      message.seq = Number(frame.id);
+    }
+    this.handleMessage(message);
   }
-
-  /**
-   * 获取连接状态
-   */
-  get isConnected(): boolean {
-    return this.eventSource?.readyState === EventSource.OPEN;
-  }
-}
-
-/** 附件引用类型 (IMAGE_UPLOAD_FRONTEND_GUIDE.md) */
-export interface SSEAttachmentRef {
-  type: 'image' | 'file';
-  s3Key: string;
-  mimeType: string;
-  purpose?: 'reference_image' | 'context' | 'other';
-}
-
-/**
- * SSE 发送消息需要通过单独的 HTTP 请求
- */
-export async function sendSSEMessage(
-  cid: string,
-  content: string,
-  attachments?: SSEAttachmentRef[]
-): Promise<{ messageId: string }> {
-  return apiClient.post<{ messageId: string }>(`/chat/${cid}/messages`, {
-    content,
-    attachments: attachments && attachments.length > 0 ? attachments : undefined,
-  });
-}
-
-/**
- * SSE 恢复中断
- */
-export async function resumeSSEInterrupt(
-  cid: string,
-  interruptId: string,
-  decision: unknown
-): Promise<void> {
-  return apiClient.post(`/chat/${cid}/interrupt/resume`, {
-    interruptId,
-    decision,
-  });
-}
-
-/**
- * SSE 停止生成
- */
-export async function stopSSEGeneration(cid: string): Promise<void> {
-  return apiClient.post(`/chat/${cid}/stop`);
 }
 
 /**
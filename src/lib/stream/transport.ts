@@ -0,0 +1,331 @@
+/**
+ * SeenOS 流式传输协商
+ *
+ * 按优先级依次尝试 WebSocket → SSE → 长轮询：
+ * - 当前传输方式从未就绪且失败原因指向代理/网关（WebSocket 升级失败、流式响应被拦截）时回退到下一种
+ * - 服务器不可用（健康检查失败）时不回退，由当前传输方式自行重连
+ * - 按 API 源记住可用的传输方式，下次直接使用（过期后重新从 WebSocket 开始协商）
+ * - 各传输方式共用发件箱和事件序号跟踪，切换时不丢消息
+ */
+
+import { apiClient } from '@/lib/api/client';
+import { EventSequenceTracker } from './sequence';
+import {
+  PROXY_CLOSE_CODES,
+  type ConnectionState,
+  type EditorClientMessageType,
+  type InterruptDecision,
+  type StreamConnection,
+  type StreamConnectionOptions,
+  type UserMessageData,
+} from './websocket';
+
+// ============ 类型定义 ============
+
+/** 传输方式 */
+export type TransportKind = 'websocket' | 'sse' | 'polling';
+
+/** 默认回退顺序 */
+export const TRANSPORT_FALLBACK_ORDER: readonly TransportKind[] = ['websocket', 'sse', 'polling'];
+
+/** 传输协商选项 */
+interface TransportManagerOptions extends StreamConnectionOptions {
+  /** 按优先级尝试的传输方式 */
+  transports: readonly TransportKind[];
+  /** API 源（用于记住可用的传输方式） */
+  origin: string;
+  /** 创建指定传输方式的连接 */
+  createConnection: (kind: TransportKind, options: StreamConnectionOptions) => StreamConnection;
+  /** 当前传输方式变化回调 */
+  onTransportChange?: (kind: TransportKind) => void;
+}
+
+interface RememberedTransport {
+  kind: TransportKind;
+  savedAt: number;
+}
+
+// ============ 传输方式记忆 ============
+
+const STORAGE_KEY = 'seenos_stream_transport';
+
+/** 记住的传输方式有效期（过期后重新尝试 WebSocket） */
+const REMEMBER_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** HTTP 传输不应回退的状态码（认证失败、封禁、频率限制换传输方式也无法解决） */
+const NON_FALLBACK_STATUSES = [401, 403, 429];
+
+function readRememberedTransports(): Record<string, RememberedTransport> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 获取某个 API 源记住的传输方式
+ */
+export function getRememberedTransport(origin: string): TransportKind | null {
+  const remembered = readRememberedTransports()[origin];
+  if (!remembered || Date.now() - remembered.savedAt > REMEMBER_TTL_MS) {
+    return null;
+  }
+  return remembered.kind;
+}
+
+/**
+ * 记住某个 API 源可用的传输方式
+ */
+export function rememberTransport(origin: string, kind: TransportKind): void {
+  if (typeof window === 'undefined') return;
+  const remembered = readRememberedTransports();
+  remembered[origin] = { kind, savedAt: Date.now() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(remembered));
+}
+
+/**
+ * 获取 API 源（协议 + 主机 + 端口）
+ */
+export function getApiOrigin(): string {
+  const baseUrl = apiClient.getBaseUrl();
+  try {
+    return new URL(baseUrl, typeof window !== 'undefined' ? window.location.href : undefined).origin;
+  } catch {
+    return baseUrl;
+  }
+}
+
+// ============ 传输协商类 ============
+
+export class TransportManager implements StreamConnection {
+  private options: TransportManagerOptions;
+  private current: StreamConnection;
+  private currentIndex: number;
+  private sequence: EventSequenceTracker;
+
+  // 当前传输方式是否就绪过（就绪过的连接断开属于普通断线，不回退）
+  private hasBeenReady = false;
+
+  // 是否正在回退（避免重复切换）
+  private isFallingBack = false;
+
+  private isDestroyed = false;
+
+  constructor(options: TransportManagerOptions) {
+    this.options = options;
+    this.sequence = options.sequence ?? new EventSequenceTracker();
+
+    const remembered = getRememberedTransport(options.origin);
+    this.currentIndex = Math.max(remembered ? options.transports.indexOf(remembered) : 0, 0);
+    this.current = this.createTransport(this.currentIndex, options.cid ?? null);
+  }
+
+  /**
+   * 当前使用的传输方式
+   */
+  get transport(): TransportKind {
+    return this.options.transports[this.currentIndex];
+  }
+
+  get state(): ConnectionState {
+    return this.current.state;
+  }
+
+  get cid(): string | null {
+    return this.current.cid;
+  }
+
+  get isReady(): boolean {
+    return this.current.isReady;
+  }
+
+  get wasKicked(): boolean {
+    return this.current.wasKicked;
+  }
+
+  /**
+   * 创建传输连接，只转发当前连接的回调
+   */
+  private createTransport(index: number, cid: string | null): StreamConnection {
+    const kind = this.options.transports[index];
+    const { options } = this;
+    const isActive = () => !this.isDestroyed && this.current === connection;
+
+    const connection: StreamConnection = options.createConnection(kind, {
+      cid,
+      outbox: options.outbox,
+      sequence: this.sequence,
+      onEvent: (event) => {
+        if (isActive()) options.onEvent(event);
+      },
+      onConnect: () => {
+        if (!isActive()) return;
+        this.hasBeenReady = true;
+        rememberTransport(options.origin, kind);
+        options.onConnect?.();
+      },
+      onDisconnect: (code, reason) => {
+        if (!isActive()) return;
+        options.onDisconnect?.(code, reason);
+        if (this.shouldFallback(kind, code)) {
+          void this.fallback(connection, kind === 'websocket' ? `close code ${code}` : reason || 'stream failed');
+        }
+      },
+      onError: (error) => {
+        if (isActive()) options.onError?.(error);
+      },
+      onReconnectStatusChange: (status, attempt, maxAttempts) => {
+        if (isActive()) options.onReconnectStatusChange?.(status, attempt, maxAttempts);
+      },
+      onConnectionStateChange: (state) => {
+        if (isActive()) options.onConnectionStateChange?.(state);
+      },
+      onServerUnavailable: () => {
+        if (isActive()) options.onServerUnavailable?.();
+      },
+      onMaxReconnectReached: (data) => {
+        if (!isActive()) return;
+        // 从未就绪就耗尽重连次数，优先尝试下一种传输方式
+        if (!this.hasBeenReady && this.currentIndex < options.transports.length - 1) {
+          void this.fallback(connection, 'max reconnect attempts reached').then((switched) => {
+            if (!switched) options.onMaxReconnectReached?.(data);
+          });
+          return;
+        }
+        options.onMaxReconnectReached?.(data);
+      },
+    });
+
+    return connection;
+  }
+
+  /**
+   * 判断断开原因是否应回退到下一种传输方式
+   */
+  private shouldFallback(kind: TransportKind, code?: number): boolean {
+    if (this.hasBeenReady || this.currentIndex >= this.options.transports.length - 1) {
+      return false;
+    }
+    if (kind === 'websocket') {
+      return code !== undefined && PROXY_CLOSE_CODES.includes(code);
+    }
+    return code === undefined || !NON_FALLBACK_STATUSES.includes(code);
+  }
+
+  /**
+   * 回退到下一种传输方式
+   * 先确认服务器可用，避免把服务器重启误判为代理问题
+   */
+  private async fallback(from: StreamConnection, reason: string): Promise<boolean> {
+    if (this.isFallingBack) return false;
+    this.isFallingBack = true;
+
+    try {
+      const isHealthy = await apiClient.checkHealth();
+      if (!isHealthy || this.isDestroyed || from !== this.current || this.hasBeenReady) {
+        return false;
+      }
+
+      const nextIndex = this.currentIndex + 1;
+      const next = this.options.transports[nextIndex];
+      console.warn(`[Transport] ${this.transport} unavailable (${reason}), falling back to ${next}`);
+
+      const cid = from.cid;
+      this.currentIndex = nextIndex;
+      this.current = this.createTransport(nextIndex, cid);
+      // 先切换再销毁，旧连接的回调不会再转发
+      from.destroy();
+      this.options.onTransportChange?.(next);
+
+      if (cid) {
+        this.current.connect(cid);
+      }
+      return true;
+    } finally {
+      this.isFallingBack = false;
+    }
+  }
+
+  connect(cid?: string): void {
+    this.current.connect(cid);
+  }
+
+  bindCid(cid: string): void {
+    this.current.bindCid(cid);
+  }
+
+  getLastSeq(cid: string): number | undefined {
+    return this.current.getLastSeq(cid);
+  }
+
+  clearSequence(cid?: string): void {
+    this.current.clearSequence(cid);
+  }
+
+  sendUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<void> {
+    return this.current.sendUserMessage(content, attachments, attachmentIds, clientMessageId, mentions);
+  }
+
+  enqueueUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<string> {
+    return this.current.enqueueUserMessage(content, attachments, attachmentIds, clientMessageId, mentions);
+  }
+
+  sendOutboxMessageNow(clientMessageId: string): Promise<void> {
+    return this.current.sendOutboxMessageNow(clientMessageId);
+  }
+
+  resumeInterrupt(interruptId: string, decision: InterruptDecision): Promise<void> {
+    return this.current.resumeInterrupt(interruptId, decision);
+  }
+
+  stop(): Promise<void> {
+    return this.current.stop();
+  }
+
+  retryMessage(turnId: string): Promise<void> {
+    return this.current.retryMessage(turnId);
+  }
+
+  sendEditorEvent(type: EditorClientMessageType, data: unknown): Promise<void> {
+    return this.current.sendEditorEvent(type, data);
+  }
+
+  close(): void {
+    this.current.close();
+  }
+
+  reset(): void {
+    this.current.reset();
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    this.current.destroy();
+  }
+
+  reconnect(newCid?: string): void {
+    this.current.reconnect(newCid);
+  }
+
+  manualReconnect(): void {
+    this.current.manualReconnect();
+  }
+
+  updateCredentials(token: string, sessionToken?: string | null): void {
+    this.current.updateCredentials(token, sessionToken);
+  }
+}
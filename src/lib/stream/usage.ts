@@ -0,0 +1,97 @@
+/**
+ * Token 使用量格式统一
+ *
+ * 流式事件（message_end / subagent_end / done）和历史消息中的 usage 可能是后端原始格式，
+ * 进入会话状态前统一为 TokenUsageSummary，之后的汇总、成本计算和显示（lib/usage）只处理统一后的格式。
+ */
+
+import type { ContentBlock, Message, ModelUsage, TokenUsageSummary } from '@/app/types/types';
+
+// ============ 解析 ============
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function pick(source: Record<string, unknown>, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = toNumber(source[key]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/** 缓存命中的输入 token（OpenAI 放在 prompt_tokens_details 中） */
+function pickCachedTokens(source: Record<string, unknown>): number | undefined {
+  const direct = pick(source, 'cachedTokens', 'cached_tokens', 'cacheReadInputTokens', 'cache_read_input_tokens');
+  if (direct !== undefined) return direct;
+  const details = (source.promptTokensDetails ?? source.prompt_tokens_details) as Record<string, unknown> | undefined;
+  return details && typeof details === 'object' ? pick(details, 'cachedTokens', 'cached_tokens') : undefined;
+}
+
+function normalizeModelUsage(raw: unknown): ModelUsage | undefined {
+  const usage = normalizeTokenUsage(raw);
+  if (!usage) return undefined;
+  const { promptTokens, completionTokens, cachedTokens, totalTokens, totalCost, callCount } = usage;
+  return { promptTokens, completionTokens, cachedTokens, totalTokens, cost: totalCost, callCount };
+}
+
+/**
+ * 统一使用量格式
+ * 兼容 camelCase / snake_case，以及 OpenAI（prompt_tokens / completion_tokens）
+ * 和 Anthropic（input_tokens / output_tokens / cache_read_input_tokens）的字段名；无法识别时返回 undefined
+ */
+export function normalizeTokenUsage(raw: unknown): TokenUsageSummary | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = raw as Record<string, unknown>;
+
+  const promptTokens = pick(source, 'promptTokens', 'prompt_tokens', 'inputTokens', 'input_tokens') ?? 0;
+  const completionTokens = pick(source, 'completionTokens', 'completion_tokens', 'outputTokens', 'output_tokens') ?? 0;
+  const totalTokens = pick(source, 'totalTokens', 'total_tokens') ?? promptTokens + completionTokens;
+  if (totalTokens === 0) return undefined;
+
+  const usage: TokenUsageSummary = {
+    totalTokens,
+    promptTokens,
+    completionTokens,
+    cachedTokens: pickCachedTokens(source) ?? 0,
+    totalCost: pick(source, 'totalCost', 'total_cost', 'cost') ?? 0,
+    callCount: pick(source, 'callCount', 'call_count') ?? 1,
+  };
+
+  const byModel = source.byModel ?? source.by_model;
+  if (byModel && typeof byModel === 'object') {
+    usage.byModel = {};
+    for (const [model, value] of Object.entries(byModel)) {
+      const modelUsage = normalizeModelUsage(value);
+      if (modelUsage) usage.byModel[model] = modelUsage;
+    }
+  }
+  const bySource = source.bySource ?? source.by_source;
+  if (bySource && typeof bySource === 'object') {
+    usage.bySource = bySource as TokenUsageSummary['bySource'];
+  }
+  return usage;
+}
+
+// ============ 消息 ============
+
+function normalizeBlockUsage(block: ContentBlock): ContentBlock {
+  if (block.type !== 'subagent' || !block.usage) return block;
+  return { ...block, usage: normalizeTokenUsage(block.usage) };
+}
+
+/**
+ * 统一历史消息中的使用量：metadata.usage 和子代理块的 usage
+ */
+export function normalizeMessageUsage(message: Message): Message {
+  const usage = message.metadata?.usage;
+  const hasSubagentUsage = message.contentBlocks?.some((block) => block.type === 'subagent' && !!block.usage);
+  if (!usage && !hasSubagentUsage) return message;
+
+  return {
+    ...message,
+    metadata: usage ? { ...message.metadata, usage: normalizeTokenUsage(usage) } : message.metadata,
+    contentBlocks: hasSubagentUsage ? message.contentBlocks?.map(normalizeBlockUsage) : message.contentBlocks,
+  };
+}
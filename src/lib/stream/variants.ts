@@ -0,0 +1,117 @@
+/**
+ * 回复版本
+ *
+ * 对助手回复重新生成（可换模型）时，新回复作为同一位置的另一个版本：
+ * - 同一位置的所有版本共享 groupId（最初回复的消息 ID），消息下方显示 ‹ 2/3 › 切换
+ * - 消息列表中只放当前显示的版本，其余版本保存在 stored 中
+ * - canonicalId 是后续对话基于的版本，由用户选择（服务端同时记录）
+ *
+ * 从历史加载的消息只带 metadata.variants（版本数和 canonicalId），版本内容在切换时按需加载。
+ */
+
+import type { Message } from '@/app/types/types';
+
+// ============ 类型定义 ============
+
+/** 同一位置的回复版本 */
+export interface MessageVariantGroup {
+  /** 按生成顺序排列的版本 ID */
+  variantIds: string[];
+  canonicalId: string;
+  /** 未显示的版本 */
+  stored: Record<string, Message>;
+  /** 是否已加载服务端的全部版本 */
+  loaded: boolean;
+}
+
+/** 助手消息的版本导航信息 */
+export interface MessageVariantsState {
+  groupId: string;
+  /** 已知的版本 ID（未加载时只有当前消息） */
+  variantIds: string[];
+  count: number;
+  /** 当前显示的版本 */
+  index: number;
+  canonicalId: string;
+  /** 版本内容是否都在本地（否则切换前需先加载） */
+  loaded: boolean;
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 生成版本的消息 ID
+ */
+export function createVariantId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `variant-${crypto.randomUUID()}`;
+  }
+  return `variant-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * 获取消息所在位置的版本组 ID
+ */
+export function getVariantGroupId(message: Message): string {
+  return message.metadata?.variants?.groupId ?? message.id;
+}
+
+/**
+ * 计算助手消息的版本导航信息
+ * 本地有版本组时以本地为准，否则使用消息自带的 metadata.variants；只有一个版本时返回 null
+ */
+export function getMessageVariantsState(
+  message: Message,
+  groups: Record<string, MessageVariantGroup>
+): MessageVariantsState | null {
+  const groupId = getVariantGroupId(message);
+  const group = groups[groupId];
+
+  if (group) {
+    const index = group.variantIds.indexOf(message.id);
+    if (group.variantIds.length < 2 || index === -1) return null;
+    return {
+      groupId,
+      variantIds: group.variantIds,
+      count: group.variantIds.length,
+      index,
+      canonicalId: group.canonicalId,
+      loaded: group.loaded,
+    };
+  }
+
+  const info = message.metadata?.variants;
+  if (!info || info.count < 2) return null;
+  // 版本 ID 尚未加载，只知道版本数和当前显示的序号
+  return {
+    groupId,
+    variantIds: [message.id],
+    count: info.count,
+    index: info.index,
+    canonicalId: info.canonicalId,
+    loaded: false,
+  };
+}
+
+/**
+ * 获取版本组中某个版本的消息（当前显示的版本从消息列表中取）
+ */
+export function getVariantMessage(
+  variantId: string,
+  group: MessageVariantGroup,
+  messages: Message[]
+): Message | undefined {
+  return group.stored[variantId] ?? messages.find((m) => m.id === variantId);
+}
+
+/**
+ * 提取消息的纯文本内容（用于对比）
+ */
+export function getMessageText(message: Message): string {
+  const textBlocks = message.contentBlocks?.filter((b) => b.type === 'text') ?? [];
+  if (textBlocks.length > 0) {
+    return textBlocks.map((b) => (b.type === 'text' ? b.content : '')).join('\n\n');
+  }
+  if (typeof message.content === 'string') return message.content;
+  return message.content?.map((c) => c.text || '').join('') ?? '';
+}
@@ -10,9 +10,14 @@
  * - 消息队列缓冲
  * - 自动重连（最多 5 次，指数退避）
  * - 心跳保活（30 秒）
+ * - 断线续传（按 cid 记录已应用的事件序号，重连/绑定时请求重放）
+ * - 用户消息持久化发件箱（离线缓存，重连后自动补发）
+ * - 认证失败（4001）时先刷新 token 再重连，token 更新后后续重连使用新凭证
  */
 
-import type { StreamEvent } from '@/app/types/types';
+import type { MessageMention, StreamEvent } from '@/app/types/types';
+import { MAX_AUTO_FLUSH_ATTEMPTS, createClientMessageId, type MessageOutbox } from './outbox';
+import { EventSequenceTracker } from './sequence';
 
 // ============ 类型定义 ============
 
@@ -37,8 +42,19 @@ export const WS_CLOSE_CODES = {
   ACCOUNT_BANNED: 4003,      // 账号被封禁
   CONFIG_CHANGED: 4004,      // 配置变更
   RATE_LIMITED: 4429,        // 连接频率限制 (HTTP 429 对应)
+  // 浏览器生成的关闭码（连接未能正常建立或被中间设备中断）
+  PROTOCOL_ERROR: 1002,      // 协议错误（代理改写了升级响应）
+  ABNORMAL: 1006,            // 异常关闭（升级失败或连接被代理切断）
+  TLS_HANDSHAKE: 1015,       // TLS 握手失败（代理证书替换）
 } as const;
 
+/** 表示 WebSocket 被代理/网关拦截的关闭码，可回退到其他传输方式 */
+export const PROXY_CLOSE_CODES: readonly number[] = [
+  WS_CLOSE_CODES.PROTOCOL_ERROR,
+  WS_CLOSE_CODES.ABNORMAL,
+  WS_CLOSE_CODES.TLS_HANDSHAKE,
+];
+
 /** 客户端消息类型 */
 export type ClientMessageType =
   | 'user_message'
@@ -47,9 +63,15 @@ export type ClientMessageType =
   | 'ping'
   | 'bind_cid'       // 动态绑定 cid
   | 'retry_message'  // 新增：重试失败的消息 (WEBSOCKET_FRONTEND_GUIDE.md)
+  | 'replay_events'  // 请求重放指定序号之后的事件（检测到序号缺口时）
   // Block Editor 事件
-  | 'editor.content_update'   // 内容更新（触发预览刷新）
-  | 'editor.request_preview'; // 请求完整预览
+  | 'editor.content_update'   // 内容更新（触发预览刷新；携带协同编辑操作时转发给其他编辑者）
+  | 'editor.request_preview'  // 请求完整预览
+  | 'editor.presence'         // 协同编辑在线状态
+  | 'editor.sync';            // 协同编辑完整状态（回复新加入的编辑者）
+
+/** Block Editor 客户端消息类型 */
+export type EditorClientMessageType = Extract<ClientMessageType, `editor.${string}`>;
 
 /** 服务端消息类型 (基于 WEBSOCKET_FRONTEND_GUIDE.md & STRUCTURED_CONTENT_FRONTEND_GUIDE.md) */
 export type ServerMessageType =
@@ -82,7 +104,10 @@ export type ServerMessageType =
   // Block Editor 事件
   | 'editor.preview_update'       // 预览更新
   | 'editor.generation_progress'  // AI 生成进度
-  | 'editor.content_saved';       // 内容保存确认
+  | 'editor.content_saved'        // 内容保存确认
+  | 'editor.content_update'       // 其他编辑者的协同编辑操作
+  | 'editor.presence'             // 其他编辑者的在线状态
+  | 'editor.sync';                // 其他编辑者发来的完整协同状态
 
 /** 客户端消息 */
 export interface ClientMessage<T = unknown> {
@@ -106,6 +131,8 @@ export interface UserMessageData {
   content: string;
   attachments?: MessageAttachmentRef[];
   attachmentIds?: string[]; // 新增：直接发送附件 ID 列表
+  clientMessageId?: string; // 客户端消息 ID，服务端据此对补发的消息去重
+  mentions?: MessageMention[]; // 输入框中 @ 引用的上下文条目、文件、内容和子代理
 }
 
 /** 恢复中断数据 */
@@ -121,6 +148,18 @@ export interface InterruptDecision {
   modifiedArgs?: Record<string, unknown> | null;
 }
 
+/** 绑定 cid 数据 */
+export interface BindCidData {
+  cid: string;
+  last_seq?: number;  // 已应用的最后事件序号，服务端据此重放之后的事件
+}
+
+/** 事件重放请求数据 */
+export interface ReplayEventsData {
+  cid: string;
+  after_seq: number;  // 重放序号大于 after_seq 的事件
+}
+
 /** 重试消息数据 (WEBSOCKET_FRONTEND_GUIDE.md) */
 export interface RetryMessageData {
   turn_id: string;  // The ID of the failed turn to retry
@@ -140,16 +179,14 @@ export interface MaxReconnectReachedData {
   canManualRetry: boolean;
 }
 
-/** WebSocket 连接选项 */
-interface WebSocketStreamOptions {
-  /** WebSocket URL (不含查询参数) */
-  url: string;
-  /** 认证 token */
-  token: string;
-  /** 会话 token（用于在线时长统计） */
-  sessionToken?: string;
+/** 流式连接通用选项（WebSocket / SSE 共用） */
+export interface StreamConnectionOptions {
   /** 会话 ID (可选，支持后续绑定) */
   cid?: string | null;
+  /** 用户消息发件箱（可选，提供时用户消息会先持久化再发送） */
+  outbox?: MessageOutbox;
+  /** 事件序号跟踪器（可选，切换传输方式时共享以保持断线续传） */
+  sequence?: EventSequenceTracker;
   /** 事件处理回调 */
   onEvent: EventHandler;
   /** 连接成功回调 */
@@ -168,6 +205,59 @@ interface WebSocketStreamOptions {
   onMaxReconnectReached?: (data: MaxReconnectReachedData) => void;
 }
 
+/** WebSocket 连接选项 */
+interface WebSocketStreamOptions extends StreamConnectionOptions {
+  /** WebSocket URL (不含查询参数) */
+  url: string;
+  /** 认证 token */
+  token: string;
+  /** 会话 token（用于在线时长统计） */
+  sessionToken?: string;
+  /** 认证失败时刷新 token，返回新 token；返回 null 表示刷新失败（需要重新登录） */
+  onAuthFailed?: (failedToken: string) => Promise<string | null>;
+}
+
+/**
+ * 流式连接（WebSocket / SSE 传输的公共接口）
+ */
+export interface StreamConnection {
+  readonly state: ConnectionState;
+  readonly cid: string | null;
+  readonly isReady: boolean;
+  readonly wasKicked: boolean;
+  connect(cid?: string): void;
+  bindCid(cid: string): void;
+  getLastSeq(cid: string): number | undefined;
+  clearSequence(cid?: string): void;
+  sendUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<void>;
+  enqueueUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<string>;
+  sendOutboxMessageNow(clientMessageId: string): Promise<void>;
+  resumeInterrupt(interruptId: string, decision: InterruptDecision): Promise<void>;
+  stop(): Promise<void>;
+  retryMessage(turnId: string): Promise<void>;
+  /** 发送 Block Editor 事件（协同编辑、预览请求） */
+  sendEditorEvent(type: EditorClientMessageType, data: unknown): Promise<void>;
+  close(): void;
+  reset(): void;
+  destroy(): void;
+  reconnect(newCid?: string): void;
+  manualReconnect(): void;
+  /** 更新认证凭证（token 刷新后调用，当前连接不受影响，之后的重连使用新凭证） */
+  updateCredentials(token: string, sessionToken?: string | null): void;
+}
+
 // ============ 消息队列 ============
 
 interface QueuedMessage {
@@ -178,7 +268,7 @@ interface QueuedMessage {
 
 // ============ WebSocket 流式连接类 ============
 
-export class WebSocketStream {
+export class WebSocketStream implements StreamConnection {
   private ws: WebSocket | null = null;
   private options: WebSocketStreamOptions;
   private reconnectAttempts = 0;
@@ -223,9 +313,19 @@ export class WebSocketStream {
   // 是否服务器不可用（健康检查失败）
   private isServerUnavailable = false;
 
+  // 事件序号跟踪（断线续传）
+  private sequence: EventSequenceTracker;
+
+  // 正在发送的发件箱消息（避免同一条消息被重复发送）
+  private inFlightOutboxIds = new Set<string>();
+
+  // 本次认证失败是否已尝试过刷新 token（避免刷新后仍被拒绝时循环重连）
+  private hasRetriedAuth = false;
+
   constructor(options: WebSocketStreamOptions) {
     this.options = options;
     this.currentCid = options.cid || null;
+    this.sequence = options.sequence ?? new EventSequenceTracker();
 
     // 监听页面卸载事件
     if (typeof window !== 'undefined') {
@@ -274,6 +374,22 @@ export class WebSocketStream {
     return this.isKicked;
   }
 
+  /**
+   * 获取某个 cid 已应用的最后事件序号
+   */
+  getLastSeq(cid: string): number | undefined {
+    return this.sequence.get(cid);
+  }
+
+  /**
+   * 清除事件序号记录
+   * 本地会话状态被清空时必须调用，否则重连只会重放尾部事件，无法重建完整状态
+   * @param cid 可选，不传则清除所有 cid
+   */
+  clearSequence(cid?: string): void {
+    this.sequence.clear(cid);
+  }
+
   /**
    * 从 WebSocket URL 获取 HTTP 基础 URL（不含 /api 前缀）
    * ws://localhost:8000/ws/chat -> http://localhost:8000
@@ -355,6 +471,11 @@ export class WebSocketStream {
     let wsUrl = `${url}?token=${encodeURIComponent(token)}`;
     if (this.currentCid) {
       wsUrl += `&cid=${encodeURIComponent(this.currentCid)}`;
+      // 断线续传：携带已应用的最后序号，服务端重放之后的事件
+      const lastSeq = this.sequence.get(this.currentCid);
+      if (lastSeq !== undefined) {
+        wsUrl += `&last_seq=${lastSeq}`;
+      }
     }
     if (sessionToken) {
       wsUrl += `&session_id=${encodeURIComponent(sessionToken)}`;
@@ -403,7 +524,8 @@ export class WebSocketStream {
       if (cid !== previousCid) {
         console.log('[WebSocket] Binding cid:', cid);
         try {
-          this.sendImmediate({ type: 'bind_cid', data: { cid } });
+          const data: BindCidData = { cid, last_seq: this.sequence.get(cid) };
+          this.sendImmediate({ type: 'bind_cid', data });
         } catch (error) {
           console.error('[WebSocket] Failed to send bind_cid:', error);
         }
@@ -411,6 +533,7 @@ export class WebSocketStream {
       // 直接标记为就绪，不等待确认
       this.isServerReady = true;
       this.flushMessageQueue();
+      this.flushOutbox();
     } else {
       console.log('[WebSocket] Will bind cid after connection:', cid);
     }
@@ -443,6 +566,7 @@ export class WebSocketStream {
           this.isServerReady = true;
           this.options.onConnect?.();
           this.flushMessageQueue();
+          this.flushOutbox();
         }
       }, 200);
     };
@@ -463,6 +587,8 @@ export class WebSocketStream {
       console.log('[WebSocket] Connection closed:', event.code, event.reason);
       this.stopHeartbeat();
       this.isServerReady = false;
+      // 未完成的重放请求随连接失效，重连时通过 last_seq 重新请求
+      this.sequence.clearPendingReplays();
 
       // 页面卸载时静默处理
       if (this.isUnloading) {
@@ -483,7 +609,12 @@ export class WebSocketStream {
           return;
 
         case WS_CLOSE_CODES.AUTH_FAILED:
-          // 认证失败，需要重新登录
+          // token 可能已过期，先刷新 token 再重连
+          if (this.options.onAuthFailed && !this.hasRetriedAuth && !this.isManualClose) {
+            void this.reauthenticate();
+            return;
+          }
+          // 刷新后仍认证失败，需要重新登录
           console.error('[WebSocket] Authentication failed');
           this.setConnectionState('failed');
           this.rejectQueuedMessages(new Error('Authentication failed'));
@@ -570,17 +701,52 @@ export class WebSocketStream {
     };
   }
 
+  /**
+   * 检查事件序号，决定是否应用该事件
+   * 序号出现缺口时丢弃并请求重放，等待服务端按顺序补齐
+   */
+  private acceptSequence(message: StreamEvent): boolean {
+    const result = this.sequence.check(message, this.currentCid);
+
+    if (result.status === 'duplicate') {
+      console.log(`[WebSocket] Skipping duplicate event seq=${result.seq} (last=${result.lastSeq})`);
+      return false;
+    }
+
+    if (result.status === 'gap') {
+      if (result.requestReplay) {
+        console.warn(`[WebSocket] Sequence gap for ${result.cid}: expected ${result.lastSeq + 1}, got ${result.seq}, requesting replay`);
+        try {
+          const data: ReplayEventsData = { cid: result.cid, after_seq: result.lastSeq };
+          this.sendImmediate({ type: 'replay_events', data });
+        } catch (error) {
+          // 连接已断开，重连时会通过 last_seq 重放
+          console.error('[WebSocket] Failed to request replay:', error);
+        }
+      }
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * 处理服务端消息
    */
   private handleMessage(message: StreamEvent): void {
+    if (!this.acceptSequence(message)) {
+      return;
+    }
+
     // 处理 connected 和 state_update 确认（兼容旧格式 state）
     if (message.type === 'connected' || message.type === 'state_update' || message.type === 'state') {
       this.isServerReady = true;
+      this.hasRetriedAuth = false;
       this.options.onConnect?.();
 
       // 处理队列中的消息
       this.flushMessageQueue();
+      this.flushOutbox();
     }
 
     // 处理被踢事件 (STRUCTURED_CONTENT_FRONTEND_GUIDE.md)
@@ -649,6 +815,67 @@ export class WebSocketStream {
     }
   }
 
+  /**
+   * 补发发件箱中当前会话的消息
+   * 失败次数达到上限的消息不会自动补发，需要用户手动重发或丢弃
+   */
+  private async flushOutbox(): Promise<void> {
+    const { outbox } = this.options;
+    const cid = this.currentCid;
+    if (!outbox || !cid) return;
+
+    try {
+      const entries = await outbox.list(cid);
+      for (const entry of entries) {
+        if (entry.status === 'failed' && entry.attempts >= MAX_AUTO_FLUSH_ATTEMPTS) {
+          continue;
+        }
+        // 连接再次断开或已切换会话时停止补发，保持顺序
+        if (!this.isReady || this.currentCid !== cid) {
+          return;
+        }
+        console.log('[WebSocket] Flushing outbox message:', entry.clientMessageId);
+        await this.deliverOutboxEntry(entry.clientMessageId).catch(() => {
+          // 失败状态已记录在发件箱中
+        });
+      }
+    } catch (error) {
+      console.error('[WebSocket] Failed to flush outbox:', error);
+    }
+  }
+
+  /**
+   * 发送发件箱中的一条消息，成功后从发件箱删除
+   */
+  private async deliverOutboxEntry(clientMessageId: string): Promise<void> {
+    const { outbox } = this.options;
+    if (!outbox || this.inFlightOutboxIds.has(clientMessageId)) return;
+
+    this.inFlightOutboxIds.add(clientMessageId);
+    try {
+      const entry = await outbox.get(clientMessageId);
+      if (!entry) return;
+      // 消息只能发送到其所属会话（服务端按连接绑定的 cid 处理消息）
+      if (entry.cid !== this.currentCid) {
+        throw new Error('Message belongs to another conversation');
+      }
+
+      await outbox.update(clientMessageId, { status: 'sending', attempts: entry.attempts + 1, error: undefined });
+      try {
+        await this.send({ type: 'user_message', data: entry.data, timestamp: Date.now() });
+      } catch (error) {
+        await outbox.update(clientMessageId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to send message',
+        });
+        throw error;
+      }
+      await outbox.remove(clientMessageId);
+    } finally {
+      this.inFlightOutboxIds.delete(clientMessageId);
+    }
+  }
+
   /**
    * 拒绝队列中的所有消息
    */
@@ -674,6 +901,48 @@ export class WebSocketStream {
     return Math.min(exponentialDelay + jitter, this.maxReconnectDelay);
   }
 
+  /**
+   * 认证失败后刷新 token 并重连
+   * 刷新失败时按认证失败处理（由上层登出）
+   */
+  private async reauthenticate(): Promise<void> {
+    this.hasRetriedAuth = true;
+    this.setConnectionState('reconnecting');
+    console.log('[WebSocket] Authentication failed, refreshing token...');
+
+    let token: string | null = null;
+    try {
+      token = (await this.options.onAuthFailed?.(this.options.token)) ?? null;
+    } catch (error) {
+      console.error('[WebSocket] Token refresh failed:', error);
+    }
+
+    // 刷新期间被关闭或销毁
+    if (this.isManualClose || this.isUnloading) {
+      return;
+    }
+
+    if (!token) {
+      console.error('[WebSocket] Authentication failed');
+      this.setConnectionState('failed');
+      this.rejectQueuedMessages(new Error('Authentication failed'));
+      this.options.onError?.(new Error('WebSocket authentication failed'));
+      return;
+    }
+
+    this.options.token = token;
+    this.connect();
+  }
+
+  /**
+   * 更新认证凭证
+   * WebSocket 只在握手时认证，已建立的连接不受影响，之后的重连使用新凭证
+   */
+  updateCredentials(token: string, sessionToken?: string | null): void {
+    this.options.token = token;
+    this.options.sessionToken = sessionToken || undefined;
+  }
+
   /**
    * 安排重连（带健康检查）
    */
@@ -693,6 +962,11 @@ export class WebSocketStream {
     // 先检查服务器健康状态
     const isHealthy = await this.checkServerHealth();
 
+    // 健康检查期间被手动关闭
+    if (this.isManualClose) {
+      return;
+    }
+
     if (!isHealthy) {
       // 服务器不可用，可能正在重启
       console.log('[WebSocket] Server health check failed, server may be restarting');
@@ -796,20 +1070,78 @@ export class WebSocketStream {
 
   /**
    * 发送用户消息
+   * 配置了发件箱且已绑定 cid 时，消息先持久化再发送；发送失败的消息保留在发件箱中，重连后自动补发
    */
-  async sendUserMessage(content: string, attachments?: UserMessageData['attachments'], attachmentIds?: string[]): Promise<void> {
+  async sendUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<void> {
+    const id = await this.enqueueUserMessage(content, attachments, attachmentIds, clientMessageId, mentions);
+    if (this.options.outbox && this.currentCid) {
+      await this.deliverOutboxEntry(id);
+      return;
+    }
+
     const message: ClientMessage<UserMessageData> = {
       type: 'user_message',
-      data: {
-        content,
-        attachments,
-        attachmentIds: attachmentIds || attachments?.map(a => a.attachmentId!).filter(Boolean)
-      },
+      data: this.buildUserMessageData(content, attachments, attachmentIds, id, mentions),
       timestamp: Date.now(),
     };
     await this.send(message);
   }
 
+  /**
+   * 只将用户消息写入发件箱，不立即发送（连接不可用时使用）
+   * @returns 客户端消息 ID
+   */
+  async enqueueUserMessage(
+    content: string,
+    attachments?: UserMessageData['attachments'],
+    attachmentIds?: string[],
+    clientMessageId?: string,
+    mentions?: UserMessageData['mentions']
+  ): Promise<string> {
+    const id = clientMessageId || createClientMessageId();
+    const { outbox } = this.options;
+    if (outbox && this.currentCid) {
+      await outbox.enqueue({
+        clientMessageId: id,
+        cid: this.currentCid,
+        data: this.buildUserMessageData(content, attachments, attachmentIds, id, mentions),
+      });
+    }
+    return id;
+  }
+
+  /**
+   * 立即发送发件箱中的消息（用户手动重发，不受自动补发次数限制）
+   */
+  async sendOutboxMessageNow(clientMessageId: string): Promise<void> {
+    if (this.connectionState === 'disconnected' || this.connectionState === 'failed') {
+      this.manualReconnect();
+    }
+    await this.deliverOutboxEntry(clientMessageId);
+  }
+
+  private buildUserMessageData(
+    content: string,
+    attachments: UserMessageData['attachments'],
+    attachmentIds: string[] | undefined,
+    clientMessageId: string,
+    mentions?: UserMessageData['mentions']
+  ): UserMessageData {
+    return {
+      content,
+      attachments,
+      attachmentIds: attachmentIds || attachments?.map(a => a.attachmentId!).filter(Boolean),
+      clientMessageId,
+      mentions: mentions && mentions.length > 0 ? mentions : undefined,
+    };
+  }
+
   /**
    * 恢复中断
    */
@@ -840,6 +1172,13 @@ export class WebSocketStream {
     await this.send(message);
   }
 
+  /**
+   * 发送 Block Editor 事件
+   */
+  async sendEditorEvent(type: EditorClientMessageType, data: unknown): Promise<void> {
+    await this.send({ type, data });
+  }
+
   /**
    * 关闭连接
    */
@@ -919,6 +1258,7 @@ export class WebSocketStream {
   manualReconnect(): void {
     console.log('[WebSocket] Manual reconnect triggered');
     this.reconnectAttempts = 0;
+    this.hasRetriedAuth = false;
     this.hasErrored = false;
     this.isServerUnavailable = false;
     this.isKicked = false;
@@ -0,0 +1,136 @@
+/**
+ * 会话模板
+ *
+ * 把导出的 JSON（lib/export）或已有会话整理成模板：标题、生成的文件和用户的开场提示词。
+ * 用模板新建会话时写入文件，提示词依次填入输入框，由用户确认后发送，
+ * 方便把一次效果好的调研流程复用到其他项目。
+ */
+
+import type { ConversationDetailResponse, ConversationFile, Message as ApiMessage } from '@/lib/api/client';
+import type { Message } from '@/app/types/types';
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  CONVERSATION_EXPORT_VERSION,
+  getMessagePlainText,
+  isSubagentMessage,
+  type ConversationExportFile,
+} from '@/lib/export';
+
+/** 模板最多保留的提示词数 */
+export const MAX_TEMPLATE_PROMPTS = 10;
+
+// ============ 类型定义 ============
+
+export interface ConversationTemplate {
+  title: string;
+  /** 文件路径 -> 文本内容（二进制文件不复制） */
+  files: Record<string, string>;
+  /** 按顺序排列的用户提示词 */
+  prompts: string[];
+}
+
+// ============ 导入 ============
+
+/**
+ * 解析导出的 JSON 文件
+ * 格式不对或版本比当前新时抛出错误（错误信息直接展示给用户）
+ */
+export function parseConversationExport(text: string): ConversationExportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const file = data as Partial<ConversationExportFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error('The file is not an exported conversation');
+  }
+  if (typeof file.version !== 'number' || file.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version and cannot be imported');
+  }
+  if (!Array.isArray(file.messages)) {
+    throw new Error('The exported conversation has no messages');
+  }
+
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: file.version,
+    cid: file.cid ?? null,
+    title: typeof file.title === 'string' ? file.title : '',
+    messages: file.messages,
+    todos: Array.isArray(file.todos) ? file.todos : [],
+    files: file.files && typeof file.files === 'object' ? file.files : {},
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+  };
+}
+
+// ============ 创建模板 ============
+
+/** 主对话中的用户提示词 */
+function collectPrompts(messages: Message[]): string[] {
+  return messages
+    .filter((m) => m.role === 'user' && !isSubagentMessage(m))
+    .map((m) => getMessagePlainText(m).trim())
+    .filter(Boolean)
+    .slice(0, MAX_TEMPLATE_PROMPTS);
+}
+
+/** 文件的文本内容（二进制文件或只有下载地址的文件返回 null） */
+function getFileText(file: string | ConversationFile): string | null {
+  if (typeof file === 'string') return file;
+  if (file.isBinary || typeof file.content !== 'string') return null;
+  return file.content;
+}
+
+/** 会话详情中的消息转换为前端消息（只需要角色和内容） */
+function toTemplateMessage(message: ApiMessage): Message {
+  return {
+    id: message.id,
+    cid: message.cid,
+    role: message.role,
+    content: message.content,
+    createdAt: message.createdAt,
+  };
+}
+
+/** 模板会话的标题 */
+function getTemplateTitle(title: string): string {
+  return title ? `${title} (copy)` : 'Untitled Conversation (copy)';
+}
+
+/**
+ * 从导出的 JSON 创建模板
+ */
+export function createTemplateFromExport(file: ConversationExportFile): ConversationTemplate {
+  const files: Record<string, string> = {};
+  for (const [path, item] of Object.entries(file.files)) {
+    if (item && !item.isBinary && typeof item.content === 'string') {
+      files[path] = item.content;
+    }
+  }
+
+  return {
+    title: getTemplateTitle(file.title),
+    files,
+    prompts: collectPrompts(file.messages),
+  };
+}
+
+/**
+ * 从会话详情创建模板（复制已有会话）
+ */
+export function createTemplateFromConversation(conversation: ConversationDetailResponse): ConversationTemplate {
+  const files: Record<string, string> = {};
+  for (const [path, file] of Object.entries(conversation.files)) {
+    const text = getFileText(file);
+    if (text !== null) files[path] = text;
+  }
+
+  return {
+    title: getTemplateTitle(conversation.title),
+    files,
+    prompts: collectPrompts(conversation.messages.map(toTemplateMessage)),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Token 使用量和成本
+ *
+ * 使用量来自流式事件：message_end 的 metadata.usage（每条助手消息）、subagent_end 的 usage（每次子代理运行）
+ * 和 done 的 usage（message_end 没有带 usage 时记到本轮的助手消息上）。
+ * 流式事件和历史消息进入会话状态时已统一为 TokenUsageSummary（lib/stream/usage），这里只处理统一后的格式。
+ * 后端没有给出成本时按模型价格表（ModelOption.pricing）估算。
+ */
+
+import type { ModelPricing } from '@/lib/api/client';
+import type { Message, ModelUsage, TokenUsageSummary } from '@/app/types/types';
+
+/** 本月已用预算达到该比例时提示 */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// ============ 汇总 ============
+
+function addModelUsage(a: ModelUsage | undefined, b: ModelUsage): ModelUsage {
+  if (!a) return { ...b };
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cachedTokens: (a.cachedTokens ?? 0) + (b.cachedTokens ?? 0),
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost + b.cost,
+    callCount: a.callCount + b.callCount,
+  };
+}
+
+/** 合并两份使用量（按模型的明细一并合并） */
+export function addTokenUsage(a: TokenUsageSummary | undefined, b: TokenUsageSummary): TokenUsageSummary {
+  if (!a) return { ...b, byModel: b.byModel ? { ...b.byModel } : undefined };
+
+  let byModel: Record<string, ModelUsage> | undefined;
+  if (a.byModel || b.byModel) {
+    byModel = { ...a.byModel };
+    for (const [model, usage] of Object.entries(b.byModel ?? {})) {
+      byModel[model] = addModelUsage(byModel[model], usage);
+    }
+  }
+
+  return {
+    totalTokens: a.totalTokens + b.totalTokens,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cachedTokens: (a.cachedTokens ?? 0) + (b.cachedTokens ?? 0),
+    totalCost: a.totalCost + b.totalCost,
+    callCount: a.callCount + b.callCount,
+    byModel,
+  };
+}
+
+/**
+ * 会话总使用量
+ * 只统计主对话的助手消息：子代理的使用量已计入调用它的助手消息，再加上会重复计算
+ */
+export function getConversationUsage(messages: Message[]): TokenUsageSummary | undefined {
+  let total: TokenUsageSummary | undefined;
+  for (const message of messages) {
+    if (message.parentMessageId || message.subagentName) continue;
+    const usage = message.metadata?.usage;
+    if (usage) total = addTokenUsage(total, usage);
+  }
+  return total;
+}
+
+// ============ 成本 ============
+
+/** 按价格表计算成本（缓存命中的输入 token 按缓存价格计算） */
+export function estimateCost(
+  usage: Pick<TokenUsageSummary, 'promptTokens' | 'completionTokens' | 'cachedTokens'>,
+  pricing: ModelPricing
+): number {
+  const cached = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+  const uncached = usage.promptTokens - cached;
+  return (
+    (uncached * pricing.input + cached * (pricing.cachedInput ?? pricing.input) + usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * 使用量的成本：优先使用后端给出的成本，否则按模型明细（没有明细时按 model）和价格表估算
+ * 返回 estimated 表示是否为估算值；没有成本也无法估算时 cost 为 null
+ */
+export function getUsageCost(
+  usage: TokenUsageSummary,
+  pricing: Record<string, ModelPricing>,
+  model?: string
+): { cost: number | null; estimated: boolean } {
+  if (usage.totalCost > 0) return { cost: usage.totalCost, estimated: false };
+  if (!usage.byModel) {
+    const modelPricing = model ? pricing[model] : undefined;
+    return modelPricing ? { cost: estimateCost(usage, modelPricing), estimated: true } : { cost: null, estimated: false };
+  }
+
+  let cost = 0;
+  for (const [model, modelUsage] of Object.entries(usage.byModel)) {
+    if (modelUsage.cost > 0) {
+      cost += modelUsage.cost;
+      continue;
+    }
+    const modelPricing = pricing[model];
+    if (!modelPricing) return { cost: null, estimated: false };
+    cost += estimateCost(modelUsage, modelPricing);
+  }
+  return { cost, estimated: true };
+}
+
+// ============ 预算 ============
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+/** 本月预算状态（没有预算时为 ok） */
+export function getBudgetStatus(spent: number, limit: number | null): BudgetStatus {
+  if (limit === null || limit <= 0) return 'ok';
+  if (spent >= limit) return 'exceeded';
+  if (spent >= limit * BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+// ============ 格式化 ============
+
+/** token 数：1,234 / 12.3k / 1.2M */
+export function formatTokenCount(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 10_000) return `${(value / 1_000).toFixed(1)}k`;
+  return value.toLocaleString();
+}
+
+/** 成本：不足 1 美元时保留 4 位小数 */
+export function formatCost(value: number): string {
+  return value < 1 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
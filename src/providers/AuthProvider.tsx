@@ -10,7 +10,7 @@ import {
   useRef,
   type ReactNode,
 } from "react";
-import { apiClient } from "@/lib/api/client";
+import { apiClient, type ApiError } from "@/lib/api/client";
 import type { User, UserSettings, LoginResponse, ModelOption, ToolOption } from "@/app/types/types";
 
 // ============ 类型定义 ============
@@ -47,9 +47,38 @@ interface AuthContextValue extends AuthState {
 // ============ 常量 ============
 const TOKEN_KEY = "deep_agents_token";
 const SESSION_TOKEN_KEY = "deep_agents_session_token";
+const REFRESH_TOKEN_KEY = "deep_agents_refresh_token";
 const USER_KEY = "deep_agents_user";
 const SETTINGS_KEY = "deep_agents_settings";
 
+const SIGNED_OUT_STATE: AuthState = {
+  user: null,
+  settings: null,
+  token: null,
+  sessionToken: null,
+  isLoading: false,
+  isAuthenticated: false,
+};
+
+/** 写入 auth_token cookie（供服务端 API 路由使用） */
+function syncTokenCookie(token: string): void {
+  document.cookie = `auth_token=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
+}
+
+/** 清除本地保存的登录状态（localStorage、cookie 及 API 客户端 token） */
+function clearStoredAuth(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(SETTINGS_KEY);
+  document.cookie = "auth_token=; path=/; max-age=0";
+
+  apiClient.setToken(null);
+  apiClient.setSessionToken(null);
+  apiClient.setRefreshToken(null);
+}
+
 // ============ Context ============
 const AuthContext = createContext<AuthContextValue | null>(null);
 
@@ -93,8 +122,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
         if (token) {
           apiClient.setToken(token);
           apiClient.setSessionToken(sessionToken);
+          apiClient.setRefreshToken(localStorage.getItem(REFRESH_TOKEN_KEY));
           // Sync token to cookie for server-side API routes
-          document.cookie = `auth_token=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
+          syncTokenCookie(token);
 
           // 尝试从本地存储恢复用户信息
           let user: User | null = null;
@@ -131,7 +161,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
             });
           }
 
-          // 验证 token 并获取最新用户信息
+          // 验证 token 并获取最新用户信息（token 过期时 ApiClient 会先刷新再重放）
           try {
             const response = await apiClient.get<{ user: User; settings: UserSettings; isAdmin?: boolean }>(
               "/auth/me"
@@ -150,32 +180,32 @@ export function AuthProvider({ children }: AuthProviderProps) {
             setState({
               user,
               settings,
-              token,
-              sessionToken,
+              token: apiClient.getToken() ?? token,
+              sessionToken: apiClient.getSessionToken(),
               isLoading: false,
               isAuthenticated: true,
             });
           } catch (error) {
-            // Token 无效，清除本地存储
-            console.warn("Token validation failed:", error);
-            localStorage.removeItem(TOKEN_KEY);
-            localStorage.removeItem(SESSION_TOKEN_KEY);
-            localStorage.removeItem(USER_KEY);
-            localStorage.removeItem(SETTINGS_KEY);
-            document.cookie = "auth_token=; path=/; max-age=0";
-            apiClient.setToken(null);
-            apiClient.setSessionToken(null);
-
             hasInitializedRef.current = true;
 
-            setState({
-              user: null,
-              settings: null,
-              token: null,
-              sessionToken: null,
-              isLoading: false,
-              isAuthenticated: false,
-            });
+            // 网络或服务端错误（非 401）时保留本地登录状态，避免离线打开页面被登出
+            if ((error as ApiError).status !== 401 && user && settings) {
+              console.warn("Token validation unavailable, using cached user:", error);
+              setState({
+                user,
+                settings,
+                token,
+                sessionToken,
+                isLoading: false,
+                isAuthenticated: true,
+              });
+              return;
+            }
+
+            // Token 无效且刷新失败，清除本地存储
+            console.warn("Token validation failed:", error);
+            clearStoredAuth();
+            setState(SIGNED_OUT_STATE);
             return;
           }
         } else {
@@ -215,6 +245,29 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, []);
 
+  // 监听 ApiClient 的 token 刷新和登录失效事件
+  // token 刷新后同步状态（WebSocket 等依赖 token 的连接据此更新凭证）；refresh token 失效时登出
+  useEffect(() => {
+    const handleTokenRefreshed = (event: Event) => {
+      const { token, sessionToken } = (event as CustomEvent<{ token: string; sessionToken: string | null }>).detail;
+      syncTokenCookie(token);
+      setState((prev) => (prev.isAuthenticated ? { ...prev, token, sessionToken } : prev));
+    };
+
+    const handleAuthExpired = () => {
+      console.warn("[AuthProvider] Refresh token rejected, signing out");
+      clearStoredAuth();
+      setState(SIGNED_OUT_STATE);
+    };
+
+    window.addEventListener("seenos:auth_token_refreshed", handleTokenRefreshed);
+    window.addEventListener("seenos:auth_expired", handleAuthExpired);
+    return () => {
+      window.removeEventListener("seenos:auth_token_refreshed", handleTokenRefreshed);
+      window.removeEventListener("seenos:auth_expired", handleAuthExpired);
+    };
+  }, []);
+
   // 登录
   const login = useCallback(async (email: string, password: string): Promise<User> => {
     setState((prev) => ({ ...prev, isLoading: true }));
@@ -225,11 +278,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
         password,
       });
 
-      const { token, sessionToken, user } = response;
+      const { token, sessionToken, refreshToken, user } = response;
 
       // 设置 API 客户端 token（需要在调用 /auth/me 之前设置）
       apiClient.setToken(token);
       apiClient.setSessionToken(sessionToken ?? null);
+      apiClient.setRefreshToken(refreshToken ?? null);
 
       // 登录响应可能不包含完整信息（如 isAdmin），调用 /auth/me 获取完整数据
       // /auth/me 返回的 settings 更完整，包含 showTokenUsage 等字段
@@ -260,7 +314,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
       
       // Also store token in cookie for server-side API routes
-      document.cookie = `auth_token=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
+      syncTokenCookie(token);
 
       setState({
         user: userWithAdmin,
@@ -298,25 +352,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
         // 忽略登出 API 错误
       });
     } finally {
-      // 清除本地存储
-      localStorage.removeItem(TOKEN_KEY);
-      localStorage.removeItem(SESSION_TOKEN_KEY);
-      localStorage.removeItem(USER_KEY);
-      localStorage.removeItem(SETTINGS_KEY);
-      document.cookie = "auth_token=; path=/; max-age=0";
-
-      // 清除 API 客户端 token
-      apiClient.setToken(null);
-      apiClient.setSessionToken(null);
-
-      setState({
-        user: null,
-        settings: null,
-        token: null,
-        sessionToken: null,
-        isLoading: false,
-        isAuthenticated: false,
-      });
+      // 清除本地存储及 API 客户端 token
+      clearStoredAuth();
+      setState(SIGNED_OUT_STATE);
     }
   }, []);
 
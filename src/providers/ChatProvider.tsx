@@ -21,7 +21,7 @@ export const ChatContext = createContext<ChatContextType | undefined>(undefined)
 export function ChatProvider({
   children,
   onHistoryRevalidate,
-  transport = "websocket",
+  transport = "auto",
 }: ChatProviderProps) {
   // 从 AuthProvider 获取认证状态
   const { token, sessionToken, isAuthenticated } = useAuth();
@@ -12,6 +12,7 @@ import React, {
 } from "react";
 import { 
   apiClient, 
+  type ContextAllResponse, 
   type ContextFile, 
   type ContextListResponse, 
   type ContextSearchResult, 
@@ -73,30 +74,25 @@ const SUPPORTED_TYPES = [".txt", ".md", ".pdf", ".docx"];
 /**
  * 从 getContextAll() 的 API 响应中提取文件信息
  */
-function extractFilesFromApiResponse(apiResponse: any): ContextListResponse {
-  const knowledge = apiResponse?.knowledge || {};
-  const sources = knowledge.sources || [];
+function extractFilesFromApiResponse(apiResponse: ContextAllResponse): ContextListResponse {
+  const { knowledge } = apiResponse;
   
-  // 过滤出文件类型的 sources（根据 by_type 中的 file 类型，或 source.type === 'file'）
-  const fileSources = sources.filter((source: any) => {
-    // 支持多种判断方式
-    if (source.type === 'file' || source.sourceType === 'file') return true;
-    // 如果有 fileType 字段，也认为是文件
-    if (source.fileType) return true;
-    return false;
-  });
+  // 过滤出文件类型的 sources（source.type === 'file'，或带有 fileType）
+  const fileSources = knowledge.sources.filter(
+    (source) => source.type === 'file' || source.sourceType === 'file' || !!source.fileType
+  );
   
   // 转换为 ContextFile 格式
-  const contexts: ContextFile[] = fileSources.map((source: any) => ({
+  const contexts: ContextFile[] = fileSources.map((source) => ({
     id: source.id || source.contextId || '',
     filename: source.filename || source.name || source.title || '',
-    fileType: (source.fileType || source.sourceType || 'txt') as 'txt' | 'md' | 'pdf' | 'docx',
+    fileType: (source.fileType || source.sourceType || 'txt') as ContextFile['fileType'],
     fileSize: source.fileSize || 0,
     chunkCount: source.chunkCount || 0,
-    status: (source.status || 'ready') as 'pending' | 'processing' | 'ready' | 'error',
+    status: (source.status || 'ready') as ContextFile['status'],
     errorMessage: source.errorMessage || undefined,
-    createdAt: source.createdAt || source.created_at || source.addedAt || new Date().toISOString(),
-    downloadUrl: source.downloadUrl || source.url || source.download_url || undefined,
+    createdAt: source.createdAt || source.addedAt || new Date().toISOString(),
+    downloadUrl: source.downloadUrl || source.url || undefined,
   }));
   
   // 计算总大小
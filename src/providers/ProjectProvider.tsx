@@ -10,6 +10,7 @@ import React, {
 } from "react";
 import {
   apiClient,
+  isAbortError,
   type Project,
   type CreateProjectRequest,
   type UpdateProjectRequest,
@@ -71,14 +72,14 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
   }, []);
 
   // ============ 加载项目列表 ============
-  const loadProjects = useCallback(async () => {
+  const loadProjects = useCallback(async (signal?: AbortSignal) => {
     if (!isAuthenticated) return;
 
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await apiClient.getProjects();
+      const response = await apiClient.getProjects(signal);
       setProjects(response.projects);
       setTotal(response.total);
       
@@ -90,10 +91,14 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
         }
       }
     } catch (err: any) {
+      // 卸载或登出时取消的请求不视为错误
+      if (isAbortError(err)) return;
       console.error("[ProjectProvider] Failed to load projects:", err);
       setError(err.message || "Failed to load projects");
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   }, [isAuthenticated]);
 
@@ -220,7 +225,9 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
   // ============ 初始化：自动加载项目 ============
   useEffect(() => {
     if (isAuthenticated) {
-      loadProjects();
+      const controller = new AbortController();
+      loadProjects(controller.signal);
+      return () => controller.abort();
     } else {
       // 未登录时清空状态
       setProjects([]);
@@ -1,9 +1,23 @@
 "use client";
 
-import { ReactNode } from "react";
+import { ReactNode, useEffect, useState } from "react";
 import { AuthProvider } from "./AuthProvider";
 import { ContextProvider } from "./ContextProvider";
 import { ProjectProvider } from "./ProjectProvider";
+import { getMockBackendConfig } from "@/lib/config";
+
+/**
+ * 安装本地 Mock 后端（仅开发构建且配置开启时）
+ * 动态加载：生产构建中条件恒为 false，Mock 后端不会被打包
+ */
+function loadMockBackend(): Promise<void> {
+  if (process.env.NODE_ENV !== "production" && getMockBackendConfig().enabled) {
+    return import("@/lib/mock").then(({ installMockBackend }) => {
+      installMockBackend();
+    });
+  }
+  return Promise.resolve();
+}
 
 interface ProvidersProps {
   children: ReactNode;
@@ -14,6 +28,24 @@ interface ProvidersProps {
  * 用于在服务器组件 (layout.tsx) 中包裹客户端 context providers
  */
 export function Providers({ children }: ProvidersProps) {
+  // 开启 Mock 后端时等待安装完成再渲染，保证 provider 的第一个请求已被拦截；未开启时直接渲染
+  const [ready, setReady] = useState(() => !getMockBackendConfig().enabled);
+
+  useEffect(() => {
+    if (ready) return;
+    let cancelled = false;
+    loadMockBackend()
+      .catch((error) => console.error("[MockBackend] Failed to install:", error))
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready]);
+
+  if (!ready) return null;
+
   return (
     <AuthProvider>
       <ProjectProvider>